@@ -0,0 +1,122 @@
+/**
+ * Test Suite for the AI Document Parsers
+ * Replays recorded provider responses through the invoice, POD and floor plan
+ * parsers, so their mapping and clean-up is tested offline
+ */
+
+import { createReplayProvider, resetAIUsage, setAIProvider, summarizeAIUsage } from '../../lib/ai';
+import { processInvoiceWithAI } from '../../lib/invoiceAiService';
+import { AIParsingService } from '../../lib/pod/ai-parsing.service';
+import { parseFurnitureFromPdf } from '../../modules/place-and-plan/services/geminiService';
+
+import floorplanFixtures from './fixtures/floorplan-furniture.json';
+import invoiceFixtures from './fixtures/invoice-extract.json';
+import podFixtures from './fixtures/pod-extract.json';
+
+const podUpdates: Record<string, unknown>[] = [];
+
+jest.mock('../../lib/supabaseClient', () => ({
+    supabase: {
+        from: () => ({
+            update: (values: Record<string, unknown>) => {
+                podUpdates.push(values);
+                return { eq: () => Promise.resolve({ error: null }) };
+            },
+        }),
+        storage: {
+            from: () => ({
+                // jsdom's Blob has no arrayBuffer(), which is all the parser reads
+                download: () => Promise.resolve({
+                    data: { arrayBuffer: async () => Uint8Array.from(Buffer.from('signed delivery note scan')).buffer },
+                    error: null,
+                }),
+            }),
+        },
+    },
+}));
+
+afterEach(() => {
+    setAIProvider(null);
+    resetAIUsage();
+    podUpdates.length = 0;
+});
+
+describe('invoice parser offline', () => {
+    test('should read an invoice and fill in VAT, gross and the due date', async () => {
+        setAIProvider(createReplayProvider(invoiceFixtures));
+
+        const result = await processInvoiceWithAI(
+            new Blob([Buffer.from('%PDF-1.4 Northern Van Hire invoice NVH-4471')], { type: 'application/pdf' }),
+            { useTemplates: false }
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.data).toMatchObject({
+            invoiceNumber: 'NVH-4471',
+            supplier: 'Northern Van Hire Ltd',
+            category: 'Vehicle',
+            netAmount: 450,
+            vatAmount: 90,
+            grossAmount: 540,
+            vehicleReg: 'AB12 CDE',
+            dueDate: '2026-07-01',
+            confidence: 88,
+        });
+        expect(summarizeAIUsage()['invoice.extract'].calls).toBe(1);
+    });
+});
+
+describe('POD parser offline', () => {
+    test('should map a delivery note and mark it ready for review', async () => {
+        setAIProvider(createReplayProvider(podFixtures));
+
+        const parsed = await AIParsingService.parsePOD('pod-1', 'acme/SO-20931.jpg');
+
+        expect(parsed).toMatchObject({
+            sales_order_ref: 'SO-20931',
+            delivery_date: '2026-05-14',
+            vehicle_type: 'luton',
+            vehicle_registrations: ['YX21 KLM'],
+            validation_flags: [],
+        });
+        expect(parsed.items_delivered?.map(item => [item.product, item.quantity])).toEqual([
+            ['Bench desk 1600x800', 12],
+            ['Mobile pedestal', 12],
+        ]);
+        expect(parsed.confidence_scores.overall).toBe(87);
+        expect(podUpdates.map(update => update.status)).toEqual(['parsing', 'pending']);
+        expect(podUpdates[1].ai_model_version).toBe('gemini-2.5-flash');
+    });
+});
+
+describe('floor plan parser offline', () => {
+    const pdfText = '1 BD-1600 Bench desk 1600 x 800 mm qty 6 2 PED-3 Mobile pedestal 400 x 600 mm qty 6';
+
+    beforeEach(() => {
+        window.pdfjsLib = {
+            GlobalWorkerOptions: { workerSrc: 'pdf.worker.min.js' },
+            getDocument: () => ({
+                promise: Promise.resolve({
+                    numPages: 1,
+                    getPage: async () => ({ getTextContent: async () => ({ items: [{ str: pdfText }] }) }),
+                }),
+            }),
+        } as unknown as typeof window.pdfjsLib;
+    });
+
+    afterEach(() => {
+        delete window.pdfjsLib;
+    });
+
+    test('should list furniture in centimetres with codes and line numbers', async () => {
+        setAIProvider(createReplayProvider(floorplanFixtures));
+
+        const file = { arrayBuffer: async () => new ArrayBuffer(8) } as unknown as File;
+        const furniture = await parseFurnitureFromPdf(file);
+
+        expect(furniture.map(item => [item.productCode, item.lineNumber, item.width_cm, item.depth_cm, item.quantity])).toEqual([
+            ['BD-1600', 1, 160, 80, 6],
+            ['PED-3', 2, 40, 60, 6],
+        ]);
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Test Suite for the AI Provider Layer
+ * Tests fixture replay and recording, usage and cost accounting, schema conversion
+ * and an offline run of the SmartQuote parser
+ */
+
+import {
+    createRecordingProvider,
+    createReplayProvider,
+    estimateCost,
+    extractJSON,
+    getAIUsage,
+    resetAIUsage,
+    setAIProvider,
+    summarizeAIUsage,
+    type AIFixture,
+    type AIProvider,
+    type ExtractionRequest,
+} from '../../lib/ai';
+import { toJsonSchema } from '../../lib/ai/openaiProvider';
+import { parseQuoteContent } from '../../modules/smartquote/services/geminiService';
+
+import smartquoteFixtures from './fixtures/smartquote-parse.json';
+
+const request: ExtractionRequest = {
+    task: 'test.extract',
+    inputs: [
+        { type: 'text', text: 'Read the delivery note' },
+        { type: 'file', mimeType: 'application/pdf', data: 'JVBERi0xLjQ=' },
+    ],
+};
+
+// Stands in for a live model: answers every request the same way
+const cannedProvider = (text: string): AIProvider => ({
+    name: 'gemini',
+    defaultModel: 'gemini-2.5-flash',
+    generate: async () => ({ text, model: 'gemini-2.5-flash', usage: { inputTokens: 1000, outputTokens: 200 } }),
+});
+
+afterEach(() => {
+    setAIProvider(null);
+    resetAIUsage();
+});
+
+describe('replay provider', () => {
+    test('should replay what a recording provider captured', async () => {
+        const recorded: AIFixture[] = [];
+        setAIProvider(createRecordingProvider(cannedProvider('```json\n{"sales_order_ref":"SO-123"}\n```'), f => recorded.push(f)));
+        const live = await extractJSON<{ sales_order_ref: string }>(request);
+
+        setAIProvider(createReplayProvider(recorded));
+        const replayed = await extractJSON<{ sales_order_ref: string }>({ ...request, temperature: 0.9 });
+
+        expect(recorded).toHaveLength(1);
+        expect(replayed.data).toEqual({ sales_order_ref: 'SO-123' });
+        expect(replayed.data).toEqual(live.data);
+        expect(replayed.provider).toBe('replay');
+        expect(replayed.model).toBe('gemini-2.5-flash');
+    });
+
+    test('should fail loudly for a request with no fixture', async () => {
+        setAIProvider(createReplayProvider([]));
+
+        await expect(extractJSON(request)).rejects.toThrow('No recorded AI fixture for task "test.extract"');
+        expect(getAIUsage()[0].error).toContain('No recorded AI fixture');
+    });
+
+    test('should tell different inputs apart', async () => {
+        const recorded: AIFixture[] = [];
+        setAIProvider(createRecordingProvider(cannedProvider('{}'), f => recorded.push(f)));
+        await extractJSON(request);
+
+        setAIProvider(createReplayProvider(recorded));
+        const otherFile = { ...request, inputs: [request.inputs[0], { type: 'file' as const, mimeType: 'application/pdf', data: 'AAAA' }] };
+        await expect(extractJSON(otherFile)).rejects.toThrow('No recorded AI fixture');
+    });
+});
+
+describe('usage accounting', () => {
+    test('should price each call and total it per task', async () => {
+        setAIProvider(cannedProvider('{"ok":true}'));
+        await extractJSON(request);
+        await extractJSON(request);
+
+        const [entry] = getAIUsage();
+        // 1000 in at $0.30/M + 200 out at $2.50/M
+        expect(entry.costUsd).toBe(0.0008);
+        expect(summarizeAIUsage()['test.extract']).toEqual({
+            calls: 2,
+            failures: 0,
+            inputTokens: 2000,
+            outputTokens: 400,
+            costUsd: 0.0016,
+        });
+    });
+
+    test('should match dated model names and leave unknown models free', () => {
+        expect(estimateCost('gemini-2.0-flash-exp', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.1);
+        expect(estimateCost('llama3.1:8b', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(0);
+    });
+});
+
+describe('toJsonSchema', () => {
+    test('should convert Gemini schema types for OpenAI-compatible servers', () => {
+        expect(toJsonSchema({
+            type: 'OBJECT',
+            properties: {
+                ref: { type: 'STRING', nullable: true },
+                items: { type: 'ARRAY', items: { type: 'NUMBER' } },
+            },
+            required: ['items'],
+            propertyOrdering: ['ref', 'items'],
+        })).toEqual({
+            type: 'object',
+            properties: {
+                ref: { type: ['string', 'null'] },
+                items: { type: 'array', items: { type: 'number' } },
+            },
+            required: ['items'],
+        });
+    });
+});
+
+describe('SmartQuote parser offline', () => {
+    test('should parse a quote from a recorded response', async () => {
+        setAIProvider(createReplayProvider(smartquoteFixtures));
+
+        const result = await parseQuoteContent([
+            'Quote Q-1001 for Acme Ltd\nSite: 1 High Street, Leeds LS1 1AA\n'
+            + 'FLX-4P-2816 FLX 4P bench desk 2800x1600 x5\nTC-CHAIR-01 Task chair, black mesh x10\nCT-1200 Cable tray 1200mm x5',
+        ]);
+
+        expect(result.products.map(p => [p.productCode, p.quantity])).toEqual([['FLX-4P-2816', 5], ['TC-CHAIR-01', 10]]);
+        // Cable tray is an accessory, held back for review
+        expect(result.excludedProducts?.map(p => p.productCode)).toEqual(['CT-1200']);
+        expect(result.details.client).toBe('Acme Ltd');
+        expect(summarizeAIUsage()['smartquote.parse'].calls).toBe(1);
+    });
+});
@@ -0,0 +1,218 @@
+/**
+ * Test Suite for Construction Alert Rules
+ * Tests each rule metric against a job's facts, and opening, escalating and
+ * clearing alerts against the ones already live
+ */
+
+import {
+    alertDueDate,
+    escalatedSeverity,
+    evaluateRules,
+    labourBankHours,
+    planAlerts,
+    type AlertRule,
+    type JobAlertFacts,
+    type LiveAlert,
+} from '../lib/alertRules';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const rule = (code: string, overrides: Partial<AlertRule> = {}): AlertRule => ({
+    id: code,
+    code,
+    name: code,
+    metric: 'low_efficiency',
+    threshold: 70,
+    window_days: 3,
+    alert_type: 'schedule_delay',
+    severity: 'medium',
+    assignee_role: 'ops',
+    due_in_days: 2,
+    escalate_after_hours: 48,
+    escalate_severity: null,
+    escalate_role: 'director',
+    is_active: true,
+    ...overrides,
+});
+
+const product = (id: string, overrides: Partial<JobAlertFacts['products'][number]> = {}): JobAlertFacts['products'][number] => ({
+    id,
+    job_id: 'job-1',
+    product_type: 'DESK',
+    product_name: 'Bench desk',
+    total_quantity: 40,
+    completed_units: 10,
+    in_progress_units: 0,
+    status: 'in_progress',
+    estimated_hours_per_unit: 2,
+    actual_hours_spent: 30,
+    last_updated: '2026-03-09T16:00:00Z',
+    blocked_since: null,
+    ...overrides,
+});
+
+const log = (log_date: string, efficiency: number, hours = 16) => ({
+    log_date,
+    units_completed: 4,
+    hours_worked: hours,
+    workers_on_site: 2,
+    efficiency_percentage: efficiency,
+});
+
+const facts = (overrides: Partial<JobAlertFacts> = {}): JobAlertFacts => ({
+    job: { id: 'job-1', reference: 'J-1042', title: 'Level 3 fit-out', end_date: '2026-04-30' },
+    products: [product('p1')],
+    progress: [],
+    labourBank: [],
+    dayLengthHours: 8,
+    ...overrides,
+});
+
+describe('efficiency rule', () => {
+    test('should fire only when every one of the last N logged days is below the threshold', () => {
+        const low = facts({ progress: [log('2026-03-05', 90), log('2026-03-06', 65), log('2026-03-09', 60), log('2026-03-07', 68)] });
+        const [alert] = evaluateRules([rule('eff')], low, now);
+
+        expect(alert).toMatchObject({
+            dedupe_key: 'eff:job-1',
+            rule_code: 'eff',
+            title: 'J-1042: efficiency below 70% for 3 day(s)',
+            severity: 'medium',
+        });
+        expect(alert.description).toBe('Close-out efficiency: 2026-03-06 65%, 2026-03-07 68%, 2026-03-09 60%.');
+
+        const recovered = facts({ progress: [log('2026-03-06', 65), log('2026-03-07', 68), log('2026-03-09', 75)] });
+        expect(evaluateRules([rule('eff')], recovered, now)).toEqual([]);
+    });
+
+    test('should ignore days with no hours and wait for enough days', () => {
+        const sparse = facts({ progress: [log('2026-03-06', 50), log('2026-03-07', 0, 0), log('2026-03-09', 50)] });
+        expect(evaluateRules([rule('eff')], sparse, now)).toEqual([]);
+    });
+});
+
+describe('projected completion rule', () => {
+    const late = rule('late', { metric: 'projected_late', threshold: 0 });
+
+    test('should fire when the work left runs past the end date', () => {
+        // 60 hours left at 8 hours a day is 8 working days, 12 calendar days
+        const job = facts({
+            job: { id: 'job-1', reference: 'J-1042', title: null, end_date: '2026-03-17' },
+            products: [product('p1', { total_quantity: 40, completed_units: 10, estimated_hours_per_unit: 2 })],
+            progress: [log('2026-03-09', 90, 8)],
+        });
+        const [alert] = evaluateRules([late], job, now);
+
+        expect(alert.title).toBe('J-1042: projected to finish 5 day(s) late');
+        expect(alert.description).toContain('projected completion 2026-03-22 against an end date of 2026-03-17');
+    });
+
+    test('should stay quiet without an end date or once the work is done', () => {
+        expect(evaluateRules([late], facts({ job: { id: 'job-1', reference: null, title: null, end_date: null } }), now)).toEqual([]);
+        expect(evaluateRules([late], facts({
+            job: { id: 'job-1', reference: null, title: null, end_date: '2026-03-01' },
+            products: [product('p1', { completed_units: 40, status: 'completed' })],
+        }), now)).toEqual([]);
+    });
+});
+
+describe('blocked product rule', () => {
+    test('should raise one alert per product blocked for longer than the threshold', () => {
+        const blocked = rule('blocked', { metric: 'product_blocked', threshold: 48 });
+        const job = facts({
+            products: [
+                product('p1', { status: 'blocked', blocked_since: '2026-03-07T09:00:00Z', notes: 'Waiting on floor boxes' }),
+                product('p2', { status: 'blocked', blocked_since: '2026-03-09T09:00:00Z' }),
+                product('p3', { status: 'in_progress', blocked_since: null }),
+            ],
+        });
+        const alerts = evaluateRules([blocked], job, now);
+
+        expect(alerts.map(alert => alert.dedupe_key)).toEqual(['blocked:job-1:p1']);
+        expect(alerts[0].title).toBe('J-1042: Bench desk blocked for 75 hours');
+        expect(alerts[0].description).toContain('Notes: Waiting on floor boxes');
+    });
+});
+
+describe('labour bank rule', () => {
+    test('should count van crew days as two people and compare logged hours', () => {
+        const bank = [
+            { role: 'installer' as const, crew_mode: 'van' as const, days_allocated: 2 },
+            { role: 'supervisor' as const, crew_mode: null, days_allocated: 1 },
+        ];
+        expect(labourBankHours(bank, 8)).toBe(40);
+
+        const overrun = rule('bank', { metric: 'labour_bank_overrun', threshold: 100 });
+        const over = facts({ labourBank: bank, progress: [log('2026-03-06', 80, 24), log('2026-03-09', 80, 20)] });
+        expect(evaluateRules([overrun], over, now)[0].title).toBe('J-1042: 110% of the labour bank used');
+
+        const within = facts({ labourBank: bank, progress: [log('2026-03-06', 80, 24)] });
+        expect(evaluateRules([overrun], within, now)).toEqual([]);
+    });
+});
+
+describe('planAlerts', () => {
+    const rules = [rule('eff'), rule('blocked', { metric: 'product_blocked', escalate_after_hours: 24, escalate_severity: 'critical' })];
+    const live = (overrides: Partial<LiveAlert>): LiveAlert => ({
+        id: 'a1',
+        job_id: 'job-1',
+        rule_code: 'eff',
+        dedupe_key: 'eff:job-1',
+        status: 'open',
+        severity: 'medium',
+        created_at: '2026-03-09T12:00:00Z',
+        escalated_at: null,
+        ...overrides,
+    });
+    const raised = (dedupe_key: string, rule_code: string) => ({
+        dedupe_key,
+        rule_code,
+        job_id: 'job-1',
+        alert_type: 'schedule_delay',
+        severity: 'medium' as const,
+        title: 't',
+        description: 'd',
+        action_required: 'a',
+    });
+
+    test('should open new firings and not duplicate live or dismissed ones', () => {
+        const plan = planAlerts(
+            [raised('eff:job-1', 'eff'), raised('blocked:job-1:p1', 'blocked'), raised('blocked:job-1:p2', 'blocked')],
+            [live({}), live({ id: 'a2', rule_code: 'blocked', dedupe_key: 'blocked:job-1:p2', status: 'dismissed' })],
+            rules,
+            now
+        );
+
+        expect(plan.open.map(alert => alert.dedupe_key)).toEqual(['blocked:job-1:p1']);
+        expect(plan.clear).toEqual([]);
+    });
+
+    test('should escalate open alerts once they are old enough, once', () => {
+        const plan = planAlerts(
+            [raised('eff:job-1', 'eff'), raised('blocked:job-1:p1', 'blocked'), raised('blocked:job-1:p2', 'blocked')],
+            [
+                live({}),
+                live({ id: 'a2', rule_code: 'blocked', dedupe_key: 'blocked:job-1:p1', created_at: '2026-03-09T11:00:00Z' }),
+                live({ id: 'a3', rule_code: 'blocked', dedupe_key: 'blocked:job-1:p2', created_at: '2026-03-01T00:00:00Z', escalated_at: '2026-03-02T00:00:00Z' }),
+            ],
+            rules,
+            now
+        );
+
+        expect(plan.escalate.map(({ alert }) => alert.id)).toEqual(['a2']);
+        expect(escalatedSeverity(plan.escalate[0].rule, 'high')).toBe('critical');
+        expect(escalatedSeverity(rules[0], 'medium')).toBe('high');
+        expect(escalatedSeverity(rules[0], 'critical')).toBe('critical');
+    });
+
+    test('should clear live alerts whose rule no longer fires', () => {
+        const plan = planAlerts([], [live({}), live({ id: 'a2', status: 'dismissed', dedupe_key: 'eff:job-2', job_id: 'job-2' })], rules, now);
+
+        expect(plan.clear.map(alert => alert.id)).toEqual(['a1', 'a2']);
+        expect(plan.escalate).toEqual([]);
+    });
+
+    test('should set the due date from the rule', () => {
+        expect(alertDueDate(rules[0], '2026-03-10')).toBe('2026-03-12');
+    });
+});
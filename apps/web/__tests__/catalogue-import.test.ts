@@ -0,0 +1,171 @@
+/**
+ * Test Suite for Catalogue Import
+ * Tests column mapping, reading manufacturer rows, code variant aliases and the
+ * dry-run diff against the product catalogue
+ */
+
+import {
+    DEFAULT_IMPORT_OPTIONS,
+    codeVariants,
+    diffCatalogue,
+    dimensionsFormat,
+    mapRows,
+    parseNumber,
+    suggestColumnMap,
+    summarizeDiff,
+    type ExistingProduct,
+    type ImportOptions,
+} from '../lib/catalogueImport';
+
+const options = (overrides: Partial<ImportOptions> = {}): ImportOptions => ({ ...DEFAULT_IMPORT_OPTIONS, ...overrides });
+
+const existing = (code: string, overrides: Partial<ExistingProduct> = {}): ExistingProduct => ({
+    id: code.toLowerCase(),
+    canonical_code: code,
+    canonical_name: code,
+    category: null,
+    description: null,
+    manufacturer: 'Frovi',
+    dimensions_format: null,
+    dimension_l: null,
+    dimension_w: null,
+    dimension_h: null,
+    dimension_d: null,
+    weight_kg: null,
+    install_time_hours: 0.5,
+    waste_volume_m3: 0.035,
+    list_price: null,
+    locked: false,
+    discontinued_at: null,
+    aliases: [],
+    ...overrides,
+});
+
+describe('suggestColumnMap', () => {
+    test('should prefer the template and guess the rest from header names', () => {
+        const headers = ['Article No', 'Description', 'Width (cm)', 'Depth (cm)', 'Height (cm)', 'RRP £', 'Item'];
+        const map = suggestColumnMap(headers, { column_map: { name: 'Item', code: 'Missing column' } });
+
+        expect(map).toEqual({
+            code: 'Article No',
+            name: 'Item',
+            description: 'Description',
+            width: 'Width (cm)',
+            depth: 'Depth (cm)',
+            height: 'Height (cm)',
+            list_price: 'RRP £',
+        });
+    });
+});
+
+describe('mapRows', () => {
+    const map = { code: 'Code', name: 'Name', width: 'W', depth: 'D', height: 'H', install_time: 'Fit', list_price: 'Price' };
+
+    test('should convert units and keep only the values the list provides', () => {
+        const { products, errors } = mapRows([
+            ['Code', 'Name', 'W', 'D', 'H', 'Fit', 'Price'],
+            ['JIVE-1600', 'Jive desk', '160', '80', '74', '45', '£1,250.00'],
+            ['JIVE-PED', '', '', '', '', '', '210'],
+            ['', '', '', '', '', '', ''],
+        ], map, options({ dimensionUnit: 'cm', installTimeUnit: 'minutes' }), 'Frovi');
+
+        expect(errors).toEqual([]);
+        expect(products[0]).toMatchObject({
+            row: 2,
+            code: 'JIVE-1600',
+            values: { manufacturer: 'Frovi', canonical_name: 'Jive desk', dimension_l: 1600, dimension_w: 800, dimension_h: 740, install_time_hours: 0.75, list_price: 1250 },
+        });
+        expect(products[1].values).toEqual({ manufacturer: 'Frovi', list_price: 210 });
+    });
+
+    test('should report rows without a code, with bad numbers or repeating a code', () => {
+        const { products, errors } = mapRows([
+            ['Code', 'Name', 'W', 'D', 'H', 'Fit', 'Price'],
+            ['', 'No code', '', '', '', '', ''],
+            ['JIVE-1600', '', 'wide', '', '', '', ''],
+            ['JIVE 1400', '', '', '', '', '', ''],
+            ['jive-1400', '', '', '', '', '', ''],
+        ], map, options(), 'Frovi');
+
+        expect(products.map(product => product.code)).toEqual(['JIVE 1400']);
+        expect(errors).toEqual([
+            { row: 2, message: 'Missing product code' },
+            { row: 3, message: 'Width "wide" is not a number' },
+            { row: 5, message: 'jive-1400 is already on row 4' },
+        ]);
+        expect(parseNumber('1200 mm')).toBe(1200);
+        expect(parseNumber('')).toBeNull();
+    });
+});
+
+describe('codeVariants', () => {
+    test('should drop the manufacturer prefix and trailing finish segments', () => {
+        expect(codeVariants('SC-FLX-4P-2816-A', { codePrefix: 'SC-', variantSuffixSegments: 2 }))
+            .toEqual(['FLX-4P-2816-A', 'SC-FLX-4P-2816', 'SC-FLX-4P', 'FLX-4P-2816', 'FLX-4P']);
+        expect(codeVariants('AB-1', { codePrefix: '', variantSuffixSegments: 1 })).toEqual([]);
+    });
+});
+
+describe('diffCatalogue', () => {
+    const catalogue = [
+        existing('JIVE-1600', { list_price: 1100, aliases: ['JIVE1600-WHT'] }),
+        existing('JIVE-1400', { discontinued_at: '2026-01-01T00:00:00Z' }),
+        existing('JIVE-1200'),
+        existing('FLX-4P', { manufacturer: null, locked: true }),
+        existing('OTHER-1', { manufacturer: 'Steelcase' }),
+    ];
+
+    const rows = [
+        ['Code', 'Price'],
+        ['JIVE1600 WHT', '1250'],
+        ['JIVE-1400-OAK', ''],
+        ['FLX-4P', '900'],
+        ['JIVE-1800-OAK', '1400'],
+        ['JIVE-1800-WHT', '1400'],
+    ];
+
+    test('should sort rows into new, changed, reinstated, locked and discontinued', () => {
+        const { products, errors } = mapRows(rows, { code: 'Code', list_price: 'Price' }, options({ variantSuffixSegments: 1 }), 'Frovi');
+        const diff = diffCatalogue(products, catalogue, 'frovi', options(), errors);
+
+        expect(diff.changed.map(entry => [entry.existing.canonical_code, entry.changes])).toEqual([
+            ['JIVE-1600', [{ field: 'list_price', from: 1100, to: 1250 }]],
+        ]);
+        expect(diff.added.map(entry => entry.product.code)).toEqual(['JIVE-1400-OAK', 'JIVE-1800-OAK', 'JIVE-1800-WHT']);
+        expect(diff.locked.map(product => product.canonical_code)).toEqual(['FLX-4P']);
+        // JIVE-1400 is only discontinued already; JIVE-1200 is missing from the full list
+        expect(diff.discontinued.map(product => product.canonical_code)).toEqual(['JIVE-1200']);
+    });
+
+    test('should only alias variants no other product answers to', () => {
+        const { products } = mapRows(rows, { code: 'Code', list_price: 'Price' }, options({ variantSuffixSegments: 1 }), 'Frovi');
+        const diff = diffCatalogue(products, catalogue, 'Frovi', options());
+        const aliases = Object.fromEntries([...diff.added, ...diff.changed].map(entry => [entry.product.code, entry.aliases]));
+
+        // JIVE-1400 is an existing product; JIVE-1800 is claimed by two rows
+        expect(aliases['JIVE-1400-OAK']).toEqual([]);
+        expect(aliases['JIVE-1800-OAK']).toEqual([]);
+        expect(aliases['JIVE1600 WHT']).toEqual([]);
+        expect(summarizeDiff(diff)).toMatchObject({ added: 3, changed: 1, discontinued: 1, locked: 1, aliases: 0 });
+
+        const single = mapRows([['Code'], ['JIVE-2000-OAK']], { code: 'Code' }, options({ variantSuffixSegments: 1 }), 'Frovi');
+        expect(diffCatalogue(single.products, catalogue, 'Frovi', options()).added[0].aliases).toEqual(['JIVE-2000']);
+    });
+
+    test('should reinstate a discontinued product and claim unowned ones for the manufacturer', () => {
+        const { products } = mapRows([['Code'], ['JIVE-1400'], ['FLX-9P']], { code: 'Code' }, options(), 'Frovi');
+        const diff = diffCatalogue(products, [existing('JIVE-1400', { discontinued_at: '2026-01-01T00:00:00Z' }), existing('FLX-9P', { manufacturer: null })], 'Frovi', options({ discontinueMissing: false }));
+
+        expect(diff.changed.map(entry => entry.changes)).toEqual([
+            [{ field: 'discontinued_at', from: '2026-01-01T00:00:00Z', to: null }],
+            [{ field: 'manufacturer', from: null, to: 'Frovi' }],
+        ]);
+        expect(diff.discontinued).toEqual([]);
+    });
+
+    test('should only set a dimensions format the catalogue check allows', () => {
+        expect(dimensionsFormat({ dimension_l: 1600, dimension_w: 800, dimension_h: 740, dimension_d: null })).toBe('rect');
+        expect(dimensionsFormat({ dimension_l: null, dimension_w: null, dimension_h: 740, dimension_d: 1000 })).toBe('round');
+        expect(dimensionsFormat({ dimension_l: 1600, dimension_w: 800, dimension_h: null, dimension_d: null })).toBeNull();
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * Test Suite for Operative Competencies
+ * Tests required tickets from risk flags and products, ticket checks on shifts
+ * and allocations, and which cards are due a reminder
+ */
+
+import {
+    competencyStatus,
+    expiringCompetencies,
+    findTicketConflicts,
+    findTicketShortfalls,
+    jobTicketRequirements,
+    missingTickets,
+    ticketExpiryTaskKey,
+    type Competency,
+    type TicketRule,
+} from '../lib/competencies';
+import {
+    describeConflict,
+    isBlockingConflict,
+    type LabourResourceRow,
+    type ShiftSlot,
+} from '../lib/labourConflicts';
+
+const rules: TicketRule[] = [
+    { risk_code: 'GENERAL', product_category: null, accepted_tickets: ['CSCS'], enforcement: 'warn' },
+    { risk_code: 'ELEVATION', product_category: null, accepted_tickets: ['IPAF', 'PASMA'], enforcement: 'block' },
+    { risk_code: null, product_category: 'lighting', accepted_tickets: ['ECS'], enforcement: 'warn' },
+];
+
+const worker = (id: string, role = 'Installer'): LabourResourceRow => ({
+    id,
+    name: id,
+    resource_type: 'worker',
+    role,
+    active: true,
+});
+
+const card = (resourceId: string, ticket: Competency['ticket_type'], expiresOn: string | null): Competency => ({
+    id: `${resourceId}-${ticket}`,
+    resource_id: resourceId,
+    ticket_type: ticket,
+    card_number: null,
+    issued_on: null,
+    expires_on: expiresOn,
+    scan_path: null,
+    notes: null,
+});
+
+const shift = (overrides: Partial<ShiftSlot> = {}): ShiftSlot => ({
+    id: 'shift-1',
+    resource_id: 'ann',
+    job_id: 'job-1',
+    shift_date: '2026-03-02',
+    start_time: '08:00:00',
+    end_time: '16:00:00',
+    status: 'scheduled',
+    ...overrides,
+});
+
+describe('jobTicketRequirements', () => {
+    test('should apply general, risk flag and product rules and merge matching declarations', () => {
+        const requirements = jobTicketRequirements(rules, ['ELEVATION'], ['desk'], [
+            { id: 't1', accepted_tickets: ['CSCS'], enforcement: 'block', note: 'Client site rules' },
+        ]);
+
+        expect(requirements).toEqual([
+            { accepted: ['CSCS'], enforcement: 'block', reasons: ['All sites', 'Client site rules'] },
+            { accepted: ['IPAF', 'PASMA'], enforcement: 'block', reasons: ['ELEVATION risk flag'] },
+        ]);
+    });
+
+    test('should add product rules only for categories the job installs', () => {
+        expect(jobTicketRequirements(rules, [], ['lighting']).map(r => r.accepted)).toEqual([['CSCS'], ['ECS']]);
+    });
+});
+
+describe('ticket checks', () => {
+    const requirements = { 'job-1': jobTicketRequirements(rules, ['ELEVATION'], []) };
+
+    test('should accept either card and report the latest lapsed one', () => {
+        expect(missingTickets(requirements['job-1'], [card('ann', 'CSCS', null), card('ann', 'PASMA', '2026-03-02')], '2026-03-02'))
+            .toEqual([]);
+
+        const missing = missingTickets(requirements['job-1'], [card('ann', 'CSCS', null), card('ann', 'IPAF', '2026-02-01')], '2026-03-02');
+        expect(missing).toHaveLength(1);
+        expect(missing[0].expired_on).toBe('2026-02-01');
+    });
+
+    test('should block a shift for a worker without the ticket and warn for advisory ones', () => {
+        const conflicts = findTicketConflicts([shift()], [worker('ann')], { ann: [card('ann', 'CSCS', '2026-01-31')] }, requirements);
+
+        expect(conflicts.map(conflict => [conflict.kind, isBlockingConflict(conflict)])).toEqual([
+            ['missing_ticket', true],
+            ['missing_ticket', false],
+        ]);
+        expect(describeConflict(conflicts[1])).toBe('ann has no valid CSCS on 2026-03-02 (expired 2026-01-31)');
+    });
+
+    test('should not check cancelled shifts, shifts without a job or teams', () => {
+        const team: LabourResourceRow = { ...worker('crew'), resource_type: 'team' };
+
+        expect(findTicketConflicts([
+            shift({ status: 'cancelled' }),
+            shift({ job_id: null }),
+            shift({ resource_id: 'crew' }),
+        ], [worker('ann'), team], {}, requirements)).toEqual([]);
+    });
+
+    test('should warn when an allocation needs more ticket holders than we have', () => {
+        const conflicts = findTicketShortfalls(
+            'job-1',
+            [{ job_id: 'job-1', work_date: '2026-03-02', role: 'installer', crew_mode: 'van', headcount: 1 }],
+            requirements['job-1'].filter(r => r.enforcement === 'block'),
+            [worker('ann'), worker('bob'), worker('cat')],
+            { ann: [card('ann', 'IPAF', null)], bob: [card('bob', 'PASMA', null)] },
+            [{ resource_id: 'bob', date: '2026-03-02', availability_type: 'holiday' }]
+        );
+
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0]).toMatchObject({ kind: 'ticket_shortfall', resource: 'installers', needed: 2, qualified: 1 });
+        expect(isBlockingConflict(conflicts[0])).toBe(false);
+    });
+});
+
+describe('expiry reminders', () => {
+    test('should flag cards within the warning window, soonest first', () => {
+        const cards = [
+            card('ann', 'IPAF', '2026-05-01'),
+            card('ann', 'CSCS', '2026-03-31'),
+            card('bob', 'PASMA', '2026-02-20'),
+            card('bob', 'CSCS', null),
+        ];
+
+        expect(competencyStatus(cards[0], '2026-03-01')).toBe('valid');
+        expect(competencyStatus(cards[1], '2026-03-01')).toBe('expiring');
+        expect(competencyStatus(cards[2], '2026-03-01')).toBe('expired');
+        expect(expiringCompetencies(cards, '2026-03-01').map(c => c.id)).toEqual(['bob-PASMA', 'ann-CSCS']);
+    });
+
+    test('should key reminders by card and expiry so a renewal gets a new one', () => {
+        expect(ticketExpiryTaskKey(card('ann', 'IPAF', '2026-05-01'))).toBe('ticket-expiry:ann-IPAF:2026-05-01');
+    });
+});
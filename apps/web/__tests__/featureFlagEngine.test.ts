@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ *
+ * Test Suite for the Feature Flag Engine
+ * Tests bucketing stability and distribution, targeting rules, variants and overrides
+ */
+
+import {
+    BUCKET_COUNT,
+    bucketUser,
+    evaluateFlag,
+    FeatureFlag,
+    FeatureFlagOverride,
+    isInRollout,
+    pickVariant
+} from '../lib/featureFlagEngine';
+
+const flag = (overrides: Partial<FeatureFlag> = {}): FeatureFlag => ({
+    id: 'f-1',
+    flag_key: 'experimental_planning_engine',
+    name: 'Experimental Planning Engine',
+    is_enabled: true,
+    flag_type: 'boolean',
+    conditions: {},
+    category: 'experimental',
+    environment: 'production',
+    rollout_percentage: 0,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides
+});
+
+const userIds = Array.from({ length: 5000 }, (_, i) => `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`);
+const now = new Date('2025-06-01T12:00:00Z');
+
+describe('bucketUser', () => {
+    test('should always put a user in the same bucket', () => {
+        const first = userIds.slice(0, 50).map(id => bucketUser(id, 'flag_a'));
+        const second = userIds.slice(0, 50).map(id => bucketUser(id, 'flag_a'));
+        expect(second).toEqual(first);
+    });
+
+    test('should keep buckets fixed across releases', () => {
+        // Changing the hash reshuffles every live rollout; update these only deliberately
+        expect(bucketUser('user-1', 'flag_a')).toBe(3122);
+        expect(bucketUser('alice', 'beta_floor_planner')).toBe(3009);
+        expect(bucketUser('bob', 'beta_floor_planner')).toBe(2130);
+    });
+
+    test('should spread users evenly', () => {
+        const inFirstQuarter = userIds.filter(id => bucketUser(id, 'flag_a') < BUCKET_COUNT / 4).length;
+        expect(inFirstQuarter / userIds.length).toBeGreaterThan(0.22);
+        expect(inFirstQuarter / userIds.length).toBeLessThan(0.28);
+    });
+
+    test('should bucket each flag independently', () => {
+        const inA = new Set(userIds.filter(id => isInRollout(id, 'flag_a', 20)));
+        const inBoth = userIds.filter(id => inA.has(id) && isInRollout(id, 'flag_b', 20)).length;
+        // Independent 20% rollouts overlap on about 4% of users, not 20%
+        expect(inBoth / userIds.length).toBeLessThan(0.07);
+    });
+});
+
+describe('isInRollout', () => {
+    test('should only add users as the percentage grows', () => {
+        const atTen = userIds.filter(id => isInRollout(id, 'flag_a', 10));
+        const atThirty = new Set(userIds.filter(id => isInRollout(id, 'flag_a', 30)));
+        expect(atTen.every(id => atThirty.has(id))).toBe(true);
+    });
+
+    test('should include nobody at 0% and everybody at 100%', () => {
+        expect(userIds.some(id => isInRollout(id, 'flag_a', 0))).toBe(false);
+        expect(userIds.every(id => isInRollout(id, 'flag_a', 100))).toBe(true);
+    });
+});
+
+describe('evaluateFlag', () => {
+    test('should honour percentage rollouts', () => {
+        const rollout = flag({ flag_type: 'percentage', rollout_percentage: 10 });
+        const enabled = userIds.filter(id => evaluateFlag(rollout, { id }, null, now).enabled).length;
+        expect(enabled / userIds.length).toBeGreaterThan(0.08);
+        expect(enabled / userIds.length).toBeLessThan(0.12);
+        expect(evaluateFlag(rollout, null, null, now).enabled).toBe(false);
+    });
+
+    test('should match user lists by id or email', () => {
+        const list = flag({ flag_type: 'user_list', conditions: { user_ids: ['u-1'], emails: ['Site.Lead@bhit.co.uk'] } });
+        expect(evaluateFlag(list, { id: 'u-1' }, null, now).enabled).toBe(true);
+        expect(evaluateFlag(list, { id: 'u-2', email: 'site.lead@bhit.co.uk' }, null, now).enabled).toBe(true);
+        expect(evaluateFlag(list, { id: 'u-3' }, null, now).enabled).toBe(false);
+    });
+
+    test('should match roles case-insensitively', () => {
+        const roles = flag({ flag_type: 'role_based', conditions: { allowed_roles: ['director', 'ops'] } });
+        expect(evaluateFlag(roles, { id: 'u-1', role: 'Director' }, null, now).enabled).toBe(true);
+        expect(evaluateFlag(roles, { id: 'u-1', role: 'installer' }, null, now).enabled).toBe(false);
+    });
+
+    test('should split users across weighted variants', () => {
+        const variants = [{ key: 'control', weight: 3 }, { key: 'new_layout', weight: 1 }];
+        const experiment = flag({ flag_type: 'variant', conditions: { variants } });
+        const assigned = userIds.map(id => evaluateFlag(experiment, { id }, null, now).variant);
+        const share = assigned.filter(variant => variant === 'new_layout').length / userIds.length;
+        expect(share).toBeGreaterThan(0.22);
+        expect(share).toBeLessThan(0.28);
+        expect(pickVariant(userIds[0], experiment.flag_key, variants)).toBe(assigned[0]);
+    });
+
+    test('should return nothing when the flag is switched off', () => {
+        expect(evaluateFlag(flag({ is_enabled: false }), { id: 'u-1' }, null, now)).toEqual(
+            { enabled: false, variant: null, reason: 'disabled' }
+        );
+    });
+
+    test('should let an unexpired override win, including a forced variant', () => {
+        const override: FeatureFlagOverride = {
+            user_id: 'u-1',
+            flag_key: 'experimental_planning_engine',
+            is_enabled: true,
+            variant: 'new_layout',
+            expires_at: '2025-07-01T00:00:00Z'
+        };
+        const experiment = flag({ is_enabled: false, flag_type: 'variant', conditions: { variants: ['control'] } });
+        expect(evaluateFlag(experiment, { id: 'u-1' }, override, now)).toEqual(
+            { enabled: true, variant: 'new_layout', reason: 'override' }
+        );
+        expect(evaluateFlag(flag(), { id: 'u-1' }, { ...override, is_enabled: false }, now).enabled).toBe(false);
+    });
+
+    test('should ignore expired overrides', () => {
+        const expired: FeatureFlagOverride = {
+            user_id: 'u-1',
+            flag_key: 'experimental_planning_engine',
+            is_enabled: true,
+            expires_at: '2025-05-01T00:00:00Z'
+        };
+        expect(evaluateFlag(flag({ is_enabled: false }), { id: 'u-1' }, expired, now).reason).toBe('disabled');
+    });
+});
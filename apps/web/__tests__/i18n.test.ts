@@ -0,0 +1,71 @@
+/**
+ * Test Suite for Translations
+ * Tests locale detection, English fallback, interpolation, plurals and locale formatting
+ */
+
+import { formatDate, formatNumber, normalizeLocale, translate } from '../lib/i18n';
+
+// Every key is translated, so drop one Portuguese message to exercise the English fallback
+jest.mock('../locales/pt.json', () => {
+    const { tasks, ...messages } = jest.requireActual('../locales/pt.json');
+    const { missingShort: _missingShort, ...otherTasks } = tasks;
+    return { ...messages, tasks: otherTasks };
+});
+
+describe('normalizeLocale', () => {
+    test('should map browser language tags to supported locales', () => {
+        expect(normalizeLocale('ro-RO')).toBe('ro');
+        expect(normalizeLocale('pt_BR')).toBe('pt');
+        expect(normalizeLocale('ES')).toBe('es');
+    });
+
+    test('should reject unsupported or empty values', () => {
+        expect(normalizeLocale('de-DE')).toBeNull();
+        expect(normalizeLocale('')).toBeNull();
+        expect(normalizeLocale(null)).toBeNull();
+    });
+});
+
+describe('translate', () => {
+    test('should look up nested keys in the chosen locale', () => {
+        expect(translate('en', 'nav.today')).toBe('Today');
+        expect(translate('ro', 'nav.today')).toBe('Astăzi');
+    });
+
+    test('should fall back to English, then to the key', () => {
+        expect(translate('pt', 'tasks.missingShort')).toBe('M');
+        expect(translate('es', 'nav.unknownKey')).toBe('nav.unknownKey');
+    });
+
+    test('should fill placeholders and leave unknown ones alone', () => {
+        expect(translate('en', 'closeout.unitsProgress', { completed: 12, total: 40 })).toBe('12 / 40 units');
+        expect(translate('en', 'closeout.unitsProgress', { completed: 12 })).toBe('12 / {total} units');
+    });
+
+    test('should pick plural forms per locale', () => {
+        expect(translate('en', 'tasks.taskCount', { count: 1 })).toBe('1 task');
+        expect(translate('en', 'tasks.taskCount', { count: 3 })).toBe('3 tasks');
+        // Romanian adds "de" from 20 upwards
+        expect(translate('ro', 'tasks.taskCount', { count: 3 })).toBe('3 sarcini');
+        expect(translate('ro', 'tasks.taskCount', { count: 25 })).toBe('25 de sarcini');
+    });
+
+    test('should format numeric placeholders for the locale', () => {
+        expect(translate('en', 'tasks.taskCount', { count: 1500 })).toBe('1,500 tasks');
+        expect(translate('pt', 'tasks.taskCount', { count: 1500 })).toBe('1500 tarefas');
+    });
+});
+
+describe('formatting', () => {
+    test('should format numbers per locale', () => {
+        expect(formatNumber('en', 1234.5)).toBe('1,234.5');
+        expect(formatNumber('es', 12345.5)).toBe('12.345,5');
+    });
+
+    test('should format dates per locale and tolerate bad input', () => {
+        const date = new Date(Date.UTC(2025, 2, 12, 12));
+        expect(formatDate('en', date, { day: 'numeric', month: 'long', timeZone: 'UTC' })).toBe('12 March');
+        expect(formatDate('ro', date, { day: 'numeric', month: 'long', timeZone: 'UTC' })).toBe('12 martie');
+        expect(formatDate('en', 'not a date')).toBe('');
+    });
+});
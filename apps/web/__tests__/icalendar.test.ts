@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ *
+ * Test Suite for Calendar Feeds
+ * Tests RFC 5545 escaping and line folding, and the events built from
+ * allocated days and shifts
+ */
+
+import {
+    allocationDayEvent,
+    crewMix,
+    feedUrl,
+    shiftEvent,
+    type FeedContext,
+    type FeedShift,
+} from '../lib/calendarFeeds';
+import { buildCalendar, escapeText, foldLine } from '../lib/icalendar';
+
+const context: FeedContext = {
+    jobs: {
+        'job-1': {
+            id: 'job-1',
+            reference: 'J-1042',
+            title: 'Level 3 fit-out',
+            client_name: 'Acme',
+            status: 'in_progress',
+            address: '1 High St, London',
+            lead_installer_name: 'Lee',
+            updated_at: '2026-02-01T08:00:00Z',
+        },
+    },
+    allocations: [
+        { job_id: 'job-1', work_date: '2026-03-02', role: 'installer', crew_mode: 'van', headcount: 2 },
+        { job_id: 'job-1', work_date: '2026-03-02', role: 'installer', crew_mode: 'foot', headcount: 1 },
+        { job_id: 'job-1', work_date: '2026-03-02', role: 'supervisor', crew_mode: null, headcount: 1 },
+    ],
+    shifts: [],
+    resources: [
+        { id: 'sue', name: 'Sue', resource_type: 'worker', role: 'Site Supervisor', active: true },
+        { id: 'ann', name: 'Ann', resource_type: 'worker', role: 'Installer', active: true },
+    ],
+    siteUrl: 'https://app.example.com',
+};
+
+const shift = (overrides: Partial<FeedShift> = {}): FeedShift => ({
+    id: 'shift-1',
+    resource_id: 'ann',
+    job_id: 'job-1',
+    shift_date: '2026-03-02',
+    start_time: '08:00:00',
+    end_time: '16:30:00',
+    shift_type: 'regular',
+    status: 'confirmed',
+    notes: null,
+    updated_at: '2026-02-20T10:15:00Z',
+    ...overrides,
+});
+
+describe('RFC 5545 text', () => {
+    test('should escape separators, backslashes and newlines', () => {
+        expect(escapeText('Unit 4, Dock Rd; Gate\\B\nAsk at desk')).toBe('Unit 4\\, Dock Rd\\; Gate\\\\B\\nAsk at desk');
+    });
+
+    test('should fold long lines at 75 octets without splitting characters', () => {
+        const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+        const lines = folded.split('\r\n');
+
+        expect(lines.length).toBeGreaterThan(1);
+        lines.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+        expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+        expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+    });
+});
+
+describe('allocated day events', () => {
+    test('should carry crew mix, supervisor, site and job reference as an all-day event', () => {
+        const event = allocationDayEvent(
+            { job_id: 'job-1', work_date: '2026-03-02', cancelled_at: null, updated_at: '2026-02-20T10:15:00Z' },
+            { ...context, shifts: [shift({ id: 'shift-2', resource_id: 'sue' })] }
+        );
+
+        expect(event).toMatchObject({
+            uid: 'allocation-job-1-2026-03-02@bhit-work-os',
+            start: '2026-03-02',
+            end: '2026-03-03',
+            summary: 'J-1042 Level 3 fit-out - Acme (2 van crews, 1 on foot, 1 supervisor)',
+            location: '1 High St, London',
+            status: 'CONFIRMED',
+        });
+        expect(event?.description).toBe('Job: J-1042\nCrew: 2 van crews, 1 on foot, 1 supervisor\nSupervisor: Sue');
+    });
+
+    test('should keep the UID and publish a cancelled day as cancelled', () => {
+        const event = allocationDayEvent(
+            { job_id: 'job-1', work_date: '2026-03-09', cancelled_at: '2026-02-21T09:00:00Z', updated_at: '2026-02-21T09:00:00Z' },
+            context
+        );
+
+        expect(event?.uid).toBe('allocation-job-1-2026-03-09@bhit-work-os');
+        expect(event?.status).toBe('CANCELLED');
+        expect(event?.description).toBe('Job: J-1042\nSupervisor: Lee');
+    });
+
+    test('should take the later of the day and the job as last changed', () => {
+        const day = { job_id: 'job-1', work_date: '2026-03-02', cancelled_at: null, updated_at: '2026-02-20T10:15:00Z' };
+        expect(allocationDayEvent(day, context)?.updatedAt).toBe('2026-02-20T10:15:00Z');
+
+        const retitled = { ...context, jobs: { 'job-1': { ...context.jobs['job-1'], updated_at: '2026-02-25T12:00:00Z' } } };
+        expect(allocationDayEvent(day, retitled)?.updatedAt).toBe('2026-02-25T12:00:00Z');
+    });
+});
+
+describe('shift events', () => {
+    test('should use local times and roll overnight shifts into the next day', () => {
+        const event = shiftEvent(shift({ start_time: '22:00:00', end_time: '06:00:00', shift_type: 'night' }), context);
+
+        expect(event.start).toBe('2026-03-02T22:00:00');
+        expect(event.end).toBe('2026-03-03T06:00:00');
+        expect(event.summary).toBe('J-1042 Level 3 fit-out - Acme [night]');
+    });
+
+    test('should cancel cancelled and no-show shifts', () => {
+        expect(shiftEvent(shift({ status: 'cancelled' }), context).status).toBe('CANCELLED');
+        expect(shiftEvent(shift({ status: 'no_show' }), context).status).toBe('CANCELLED');
+        expect(shiftEvent(shift({ status: 'scheduled' }), context).status).toBe('TENTATIVE');
+    });
+});
+
+describe('buildCalendar', () => {
+    test('should write a CRLF calendar with a timezone for timed events', () => {
+        const ics = buildCalendar({ name: 'Ann - shifts' }, [shiftEvent(shift(), context)]);
+
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(ics).toContain('BEGIN:VTIMEZONE\r\nTZID:Europe/London');
+        expect(ics).toContain('UID:shift-shift-1@bhit-work-os\r\n');
+        expect(ics).toContain('DTSTART;TZID=Europe/London:20260302T080000\r\n');
+        expect(ics).toContain('DTEND;TZID=Europe/London:20260302T163000\r\n');
+        expect(ics).toContain('DTSTAMP:20260220T101500Z\r\n');
+        expect(ics).toContain('LOCATION:1 High St\\, London\r\n');
+        expect(ics).toContain('STATUS:CONFIRMED\r\n');
+        expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    });
+
+    test('should write all-day events as dates without a timezone', () => {
+        const event = allocationDayEvent(
+            { job_id: 'job-1', work_date: '2026-03-02', cancelled_at: null, updated_at: '2026-02-20T10:15:00Z' },
+            context
+        )!;
+        const ics = buildCalendar({ name: 'Company' }, [event]);
+
+        expect(ics).toContain('DTSTART;VALUE=DATE:20260302\r\nDTEND;VALUE=DATE:20260303\r\n');
+        expect(ics).not.toContain('VTIMEZONE');
+    });
+});
+
+describe('feed links', () => {
+    test('should describe the crew and offer a webcal link', () => {
+        expect(crewMix([])).toBe('');
+        expect(feedUrl('https://app.example.com', 'abc', true)).toBe('webcal://app.example.com/api/calendar/abc.ics');
+    });
+});
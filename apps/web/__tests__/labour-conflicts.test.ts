@@ -0,0 +1,153 @@
+/**
+ * Test Suite for Labour Conflicts
+ * Tests shift double-booking and leave clashes, daily capacity against
+ * allocations, and the suggested people and days offered instead
+ */
+
+import {
+    dailyCapacity,
+    dailyDemand,
+    findAllShiftConflicts,
+    findCapacityConflicts,
+    findShiftConflicts,
+    shiftsOverlap,
+    suggestAllocationDates,
+    suggestResources,
+    suggestShiftDates,
+    type AllocationRow,
+    type LabourResourceRow,
+    type ShiftSlot,
+} from '../lib/labourConflicts';
+
+const worker = (id: string, role = 'Installer'): LabourResourceRow => ({
+    id,
+    name: id,
+    resource_type: 'worker',
+    role,
+    active: true,
+});
+
+const shift = (overrides: Partial<ShiftSlot>): ShiftSlot => ({
+    id: 'shift-1',
+    resource_id: 'ann',
+    job_id: 'job-1',
+    shift_date: '2026-03-02', // Monday
+    start_time: '08:00:00',
+    end_time: '16:00:00',
+    status: 'scheduled',
+    ...overrides,
+});
+
+const allocation = (overrides: Partial<AllocationRow>): AllocationRow => ({
+    job_id: 'job-1',
+    work_date: '2026-03-02',
+    role: 'installer',
+    crew_mode: 'van',
+    headcount: 1,
+    ...overrides,
+});
+
+const resources = [worker('ann'), worker('bob'), worker('cat'), worker('sue', 'Site Supervisor')];
+
+describe('shift conflicts', () => {
+    test('should treat touching shifts as free and night shifts as running past midnight', () => {
+        expect(shiftsOverlap({ start_time: '08:00', end_time: '12:00' }, { start_time: '12:00', end_time: '16:00' })).toBe(false);
+        expect(shiftsOverlap({ start_time: '22:00', end_time: '06:00' }, { start_time: '23:00', end_time: '23:30' })).toBe(true);
+    });
+
+    test('should flag the same resource on two overlapping shifts but not a cancelled one', () => {
+        const existing = [shift({ id: 'a', job_id: 'job-2', start_time: '12:00:00', end_time: '18:00:00' })];
+
+        const conflicts = findShiftConflicts(shift({ id: undefined }), existing, resources, []);
+        expect(conflicts).toEqual([{
+            kind: 'double_booking',
+            date: '2026-03-02',
+            resource_id: 'ann',
+            resource_name: 'ann',
+            shift_ids: ['a'],
+            job_ids: ['job-2', 'job-1'],
+            window: '12:00-18:00',
+        }]);
+
+        expect(findShiftConflicts(shift({ id: undefined }), [{ ...existing[0], status: 'cancelled' }], resources, [])).toEqual([]);
+    });
+
+    test('should clash a night shift with the next morning but not with a shift that starts as it ends', () => {
+        const night = shift({ id: 'night', job_id: 'job-2', start_time: '22:00:00', end_time: '06:00:00' });
+
+        const conflicts = findShiftConflicts(shift({ id: undefined, shift_date: '2026-03-03', start_time: '05:00:00' }), [night], resources, []);
+        expect(conflicts).toMatchObject([{ kind: 'double_booking', date: '2026-03-03', window: '2026-03-02 22:00-06:00' }]);
+
+        expect(findShiftConflicts(shift({ id: undefined, shift_date: '2026-03-03', start_time: '06:00:00' }), [night], resources, [])).toEqual([]);
+        expect(findShiftConflicts(shift({ id: undefined, shift_date: '2026-03-01', start_time: '22:00:00', end_time: '06:00:00' }), [night], resources, [])).toEqual([]);
+    });
+
+    test('should not clash an edited shift with its own saved row', () => {
+        expect(findShiftConflicts(shift({}), [shift({})], resources, [])).toEqual([]);
+    });
+
+    test('should flag shifts on leave days and list each pair once in the overview', () => {
+        const leave = [{ resource_id: 'ann', date: '2026-03-02', availability_type: 'holiday' }];
+        const shifts = [shift({ id: 'a' }), shift({ id: 'b', start_time: '10:00:00' })];
+
+        const conflicts = findAllShiftConflicts(shifts, resources, leave);
+        expect(conflicts.filter(c => c.kind === 'double_booking')).toHaveLength(1);
+        expect(conflicts.filter(c => c.kind === 'unavailable')).toHaveLength(2);
+    });
+
+    test('should suggest free workers in the same role and the next clear working days', () => {
+        const shifts = [
+            shift({ id: 'a', job_id: 'job-2' }),
+            shift({ id: 'b', resource_id: 'bob' }),
+            shift({ id: 'c', resource_id: 'ann', shift_date: '2026-03-03' }),
+        ];
+        const candidate = shift({ id: undefined });
+
+        expect(suggestResources(candidate, shifts, resources, []).map(r => r.id)).toEqual(['cat']);
+        // Tue is taken, then Wed-Thu are free; the weekend is skipped after Fri
+        expect(suggestShiftDates(candidate, shifts, resources, [])).toEqual(['2026-03-04', '2026-03-05', '2026-03-06']);
+    });
+});
+
+describe('capacity', () => {
+    const dates = ['2026-03-02', '2026-03-03', '2026-03-04'];
+
+    test('should count a van crew as two installers and one van', () => {
+        const demand = dailyDemand([
+            allocation({ headcount: 2 }),
+            allocation({ job_id: 'job-2', crew_mode: 'foot', headcount: 1 }),
+            allocation({ job_id: 'job-2', role: 'supervisor', crew_mode: null, headcount: 1 }),
+        ]);
+
+        expect(demand['2026-03-02']).toEqual({ installers: 5, supervisors: 1, vans: 2 });
+    });
+
+    test('should take leave off the day and leave unrecorded resources unlimited', () => {
+        const leave = [{ resource_id: 'bob', date: '2026-03-03', availability_type: 'sick_leave' }];
+        const capacity = dailyCapacity(dates, resources, leave, 0);
+
+        expect(capacity['2026-03-02']).toEqual({ installers: 3, supervisors: 1, vans: null });
+        expect(capacity['2026-03-03'].installers).toBe(2);
+    });
+
+    test('should flag days that need more than we have and name the jobs involved', () => {
+        const capacity = dailyCapacity(dates, resources, [], 1);
+        const conflicts = findCapacityConflicts([
+            allocation({}),
+            allocation({ job_id: 'job-2' }),
+            allocation({ job_id: 'job-3', role: 'supervisor', crew_mode: null }),
+        ], capacity);
+
+        expect(conflicts).toEqual([
+            { kind: 'over_capacity', date: '2026-03-02', resource: 'installers', demand: 4, capacity: 3, job_ids: ['job-1', 'job-2'] },
+            { kind: 'over_capacity', date: '2026-03-02', resource: 'vans', demand: 2, capacity: 1, job_ids: ['job-1', 'job-2'] },
+        ]);
+    });
+
+    test('should suggest the nearest days with room for the job', () => {
+        const capacity = dailyCapacity(dates, resources, [], 1);
+        const others = [allocation({ job_id: 'job-2' }), allocation({ job_id: 'job-2', work_date: '2026-03-03' })];
+
+        expect(suggestAllocationDates([allocation({})], others, capacity)).toEqual(['2026-03-04']);
+    });
+});
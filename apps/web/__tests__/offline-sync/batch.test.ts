@@ -0,0 +1,158 @@
+/**
+ * Test Suite for the Offline Sync Batch Endpoint
+ * Tests applying queued writes against row versions, conflicts, idempotent
+ * replays and creating daily records
+ */
+
+import { createMocks } from 'node-mocks-http';
+
+import type { SyncUpdate } from '../../lib/offline-sync/types';
+import batchSyncHandler from '../../pages/api/v2/sync/batch';
+
+type Row = Record<string, any>;
+
+// In-memory tables; row_version is bumped on update as the migration 049 trigger does
+const mockTables: Record<string, Row[]> = {};
+
+class MockQuery {
+    private filters: Array<(row: Row) => boolean> = [];
+    private action: 'select' | 'update' | 'insert' | 'upsert' = 'select';
+    private values: Row | Row[] = {};
+    private onConflict = '';
+    private mode: 'many' | 'single' | 'maybe' = 'many';
+
+    constructor(private table: string) {}
+
+    select() { return this; }
+    order() { return this; }
+    limit() { return this; }
+    eq(column: string, value: unknown) { this.filters.push(row => row[column] === value); return this; }
+    in(column: string, values: unknown[]) { this.filters.push(row => values.includes(row[column])); return this; }
+    update(values: Row) { this.action = 'update'; this.values = values; return this; }
+    insert(values: Row | Row[]) { this.action = 'insert'; this.values = values; return this; }
+    upsert(values: Row, options: { onConflict: string }) { this.action = 'upsert'; this.values = values; this.onConflict = options.onConflict; return this; }
+    single() { this.mode = 'single'; return this; }
+    maybeSingle() { this.mode = 'maybe'; return this; }
+
+    then<T>(resolve: (result: { data: any; error: any }) => T, reject?: (error: unknown) => T) {
+        return Promise.resolve(this.run()).then(resolve, reject);
+    }
+
+    private run(): { data: any; error: any } {
+        const rows = (mockTables[this.table] ??= []);
+        let data: Row[] = rows.filter(row => this.filters.every(filter => filter(row)));
+
+        if (this.action === 'update') {
+            data.forEach(row => Object.assign(row, this.values, { row_version: (row.row_version ?? 1) + 1 }));
+        } else if (this.action === 'insert') {
+            data = ([] as Row[]).concat(this.values).map(values => ({ id: `${this.table}-${rows.length + 1}`, row_version: 1, ...values }));
+            rows.push(...data);
+        } else if (this.action === 'upsert') {
+            const values = this.values as Row;
+            const keys = this.onConflict.split(',');
+            const existing = rows.find(row => keys.every(key => row[key] === values[key]));
+            if (existing) Object.assign(existing, values);
+            else rows.push({ row_version: 1, ...values });
+            data = [existing ?? values];
+        }
+
+        if (this.mode === 'many') return { data, error: null };
+        if (data.length === 0 && this.mode === 'single') return { data: null, error: { code: 'PGRST116' } };
+        return { data: data[0] ?? null, error: null };
+    }
+}
+
+jest.mock('@supabase/supabase-js', () => ({
+    createClient: () => ({ from: (table: string) => new MockQuery(table) }),
+}));
+
+jest.mock('../../lib/server/alertEngine', () => ({
+    runConstructionAlertRules: jest.fn(() => Promise.resolve()),
+}));
+
+const productUpdate = (overrides: Partial<SyncUpdate> = {}): SyncUpdate => ({
+    id: 'op-1',
+    idempotency_key: 'op-1',
+    operation: 'product_update',
+    table: 'product_progress',
+    job_id: 'job-1',
+    record_id: 'pp-1',
+    data: { completed_units: 6 },
+    base_version: 3,
+    timestamp: Date.parse('2025-03-12T10:00:00Z'),
+    ...overrides,
+});
+
+const sync = async (updates: SyncUpdate[]) => {
+    const { req, res } = createMocks({ method: 'POST', body: { updates, device_id: 'web-test' } });
+    await batchSyncHandler(req as any, res as any);
+    expect(res._getStatusCode()).toBe(200);
+    return JSON.parse(res._getData()).results;
+};
+
+beforeEach(() => {
+    Object.keys(mockTables).forEach(table => delete mockTables[table]);
+    mockTables.product_progress = [{
+        id: 'pp-1',
+        job_id: 'job-1',
+        completed_units: 5,
+        row_version: 3,
+        last_updated: '2025-03-12T09:00:00Z',
+    }];
+});
+
+describe('POST /api/v2/sync/batch', () => {
+    test('should apply a write made on the version the server has', async () => {
+        const results = await sync([productUpdate()]);
+
+        expect(results).toMatchObject({ synced: 1, conflicts: [], errors: [] });
+        expect(mockTables.product_progress[0]).toMatchObject({ completed_units: 6, row_version: 4 });
+        expect(results.newState['job-1'].products[0].row_version).toBe(4);
+        expect(mockTables.offline_sync_queue[0]).toMatchObject({ idempotency_key: 'op-1', sync_status: 'completed' });
+    });
+
+    test('should report a conflict when another device changed the row', async () => {
+        const results = await sync([productUpdate({ base_version: 2 })]);
+
+        expect(results.synced).toBe(0);
+        expect(results.conflicts).toHaveLength(1);
+        expect(results.conflicts[0]).toMatchObject({ base_version: 2, server_version: 3, fields: ['completed_units'] });
+        expect(mockTables.product_progress[0].completed_units).toBe(5);
+    });
+
+    test('should not raise a conflict when the server already has the device values', async () => {
+        mockTables.product_progress[0].completed_units = 6;
+        const results = await sync([productUpdate({ base_version: 2 })]);
+
+        expect(results).toMatchObject({ synced: 1, conflicts: [] });
+        expect(mockTables.product_progress[0].row_version).toBe(3);
+    });
+
+    test('should skip operations an earlier flush already applied', async () => {
+        mockTables.offline_sync_queue = [{ idempotency_key: 'op-1', sync_status: 'completed' }];
+        const results = await sync([productUpdate()]);
+
+        expect(results).toMatchObject({ synced: 1, duplicates: ['op-1'] });
+        expect(mockTables.product_progress[0].completed_units).toBe(5);
+    });
+
+    test('should create a daily log, and conflict when another device created it first', async () => {
+        const dailyLog = (id: string, notes: string): SyncUpdate => ({
+            id,
+            idempotency_key: id,
+            operation: 'daily_log',
+            table: 'daily_progress_log',
+            job_id: 'job-1',
+            data: { log_date: '2025-03-12', notes },
+            base_version: null,
+            timestamp: Date.parse('2025-03-12T16:00:00Z'),
+        });
+
+        expect(await sync([dailyLog('log-1', 'Level 2 done')])).toMatchObject({ synced: 1, conflicts: [] });
+        expect(mockTables.daily_progress_log).toHaveLength(1);
+
+        const results = await sync([dailyLog('log-2', 'Level 2 snagging')]);
+        expect(results.conflicts[0]).toMatchObject({ reason: 'Record was created on another device', fields: ['notes'] });
+        expect(mockTables.daily_progress_log[0].notes).toBe('Level 2 done');
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Test Suite for Offline Sync Policy
+ * Tests the retry schedule, conflict detection, conflict resolution and
+ * matching queued writes to the row versions the device has seen
+ */
+
+import {
+    buildConflict,
+    conflictingFields,
+    operationRecordKey,
+    resolveConflictData,
+    retryDelay,
+    rowVersionsFromState,
+    SYNC_RETRY_BASE_MS,
+    SYNC_RETRY_MAX_MS
+} from '../../lib/offline-sync/policy';
+import type { SyncUpdate } from '../../lib/offline-sync/types';
+
+const update: SyncUpdate = {
+    id: 'op-1',
+    idempotency_key: 'op-1',
+    operation: 'product_update',
+    table: 'product_progress',
+    job_id: 'job-1',
+    record_id: 'pp-1',
+    data: { completed_units: 6, status: 'in_progress', notes: 'Level 2 done' },
+    base_version: 3,
+    timestamp: Date.parse('2025-03-12T10:00:00Z')
+};
+
+const serverRow = {
+    id: 'pp-1',
+    row_version: 4,
+    completed_units: 5,
+    status: 'in_progress',
+    notes: 'Snagging on level 2',
+    last_updated: '2025-03-12T10:30:00Z'
+};
+
+describe('retryDelay', () => {
+    test('should double the delay with each failed attempt', () => {
+        const noJitter = () => 0.5;
+        expect(retryDelay(1, noJitter)).toBe(SYNC_RETRY_BASE_MS);
+        expect(retryDelay(2, noJitter)).toBe(SYNC_RETRY_BASE_MS * 2);
+        expect(retryDelay(4, noJitter)).toBe(SYNC_RETRY_BASE_MS * 8);
+    });
+
+    test('should cap the delay, including jitter', () => {
+        expect(retryDelay(30, () => 1)).toBe(SYNC_RETRY_MAX_MS);
+    });
+
+    test('should jitter by up to 20% either way', () => {
+        expect(retryDelay(1, () => 0)).toBe(SYNC_RETRY_BASE_MS * 0.8);
+        expect(retryDelay(1, () => 1)).toBe(SYNC_RETRY_BASE_MS * 1.2);
+    });
+});
+
+describe('conflictingFields', () => {
+    test('should list only written fields that differ on the server', () => {
+        expect(conflictingFields(update.data, serverRow)).toEqual(['completed_units', 'notes']);
+    });
+
+    test('should ignore server-managed columns and numeric strings', () => {
+        expect(conflictingFields(
+            { row_version: 1, last_updated: 'x', actual_hours_spent: 7.5 },
+            { row_version: 4, last_updated: 'y', actual_hours_spent: '7.50' }
+        )).toEqual([]);
+    });
+});
+
+describe('resolveConflictData', () => {
+    const conflict = buildConflict(update, serverRow, 'Record was changed on another device');
+
+    test('should describe the conflict for the device', () => {
+        expect(conflict.server_version).toBe(4);
+        expect(conflict.base_version).toBe(3);
+        expect(conflict.record_id).toBe('pp-1');
+        expect(conflict.fields).toEqual(['completed_units', 'notes']);
+    });
+
+    test('should keep the device or server copy', () => {
+        expect(resolveConflictData(conflict, 'keep_mine')).toEqual(update.data);
+        expect(resolveConflictData(conflict, 'keep_server')).toBeNull();
+    });
+
+    test('should merge field by field', () => {
+        expect(resolveConflictData(conflict, 'merge', { notes: 'server' })).toEqual({
+            completed_units: 6,
+            status: 'in_progress',
+            notes: 'Snagging on level 2'
+        });
+    });
+});
+
+describe('row versions', () => {
+    test('should key product writes by row and daily writes by job and day', () => {
+        expect(operationRecordKey(update, update.timestamp)).toBe('product_progress:pp-1');
+        expect(operationRecordKey(
+            { operation: 'daily_log', table: 'daily_progress_log', job_id: 'job-1', data: { log_date: '2025-03-11' } },
+            update.timestamp
+        )).toBe('daily_progress_log:job-1:2025-03-11');
+        expect(operationRecordKey(
+            { operation: 'closeout', table: 'daily_closeout_forms', job_id: 'job-1', data: {} },
+            update.timestamp
+        )).toBe('daily_closeout_forms:job-1:2025-03-12');
+        expect(operationRecordKey({ ...update, operation: 'bulk_update' }, update.timestamp)).toBeNull();
+    });
+
+    test('should read the versions of every row in the returned job state', () => {
+        expect(rowVersionsFromState({
+            'job-1': {
+                products: [serverRow, { id: 'pp-2' }],
+                dailyLogs: [{ id: 'dl-1', job_id: 'job-1', log_date: '2025-03-12', row_version: 2 }],
+                closeouts: []
+            }
+        })).toEqual([
+            ['product_progress:pp-1', 4],
+            ['daily_progress_log:job-1:2025-03-12', 2]
+        ]);
+    });
+});
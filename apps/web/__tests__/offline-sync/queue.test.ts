@@ -0,0 +1,169 @@
+/**
+ * Test Suite for the Offline Sync Queue
+ * Tests the row version sent with each write, folding repeat edits together,
+ * holding conflicts and backing off after failures
+ */
+
+import { OfflineSyncQueue } from '../../lib/offline-sync/queue';
+import type { BatchSyncResults, SyncConflict, SyncOperationInput } from '../../lib/offline-sync/types';
+
+jest.mock('localforage', () => {
+    const mockStores = new Map<string, Map<string, unknown>>();
+    return {
+        __esModule: true,
+        default: {
+            createInstance: ({ storeName }: { storeName: string }) => {
+                const items = mockStores.get(storeName) ?? new Map<string, unknown>();
+                mockStores.set(storeName, items);
+                return {
+                    setItem: async (key: string, value: unknown) => { items.set(key, value); return value; },
+                    removeItem: async (key: string) => { items.delete(key); },
+                    iterate: async (callback: (value: unknown, key: string) => void) => { items.forEach(callback); },
+                    clear: async () => { items.clear(); },
+                };
+            },
+        },
+    };
+});
+
+const edit = (data: Record<string, unknown>): SyncOperationInput => ({
+    operation: 'product_update',
+    table: 'product_progress',
+    job_id: 'job-1',
+    record_id: 'pp-1',
+    data,
+});
+
+const results = (overrides: Partial<BatchSyncResults> = {}): BatchSyncResults => ({
+    synced: 0,
+    failed: 0,
+    duplicates: [],
+    conflicts: [],
+    newState: {},
+    errors: [],
+    ...overrides,
+});
+
+let online = true;
+let sent: Array<{ updates: Array<Record<string, unknown>> }> = [];
+
+const respond = (body: BatchSyncResults | Error) => {
+    global.fetch = jest.fn((_url: string, init: { body: string }) => {
+        sent.push(JSON.parse(init.body));
+        return body instanceof Error
+            ? Promise.reject(body)
+            : Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ success: true, results: body }) });
+    }) as unknown as typeof fetch;
+};
+
+beforeAll(() => {
+    Object.defineProperty(window.navigator, 'onLine', { configurable: true, get: () => online });
+});
+
+beforeEach(async () => {
+    online = false;
+    sent = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    // The mocked stores outlive each queue; start every test empty
+    const localforage = (await import('localforage')).default;
+    await Promise.all(['sync_queue', 'row_versions'].map(storeName => localforage.createInstance({ name: 'bhit-work-os', storeName }).clear()));
+});
+
+const goOnline = async (queue: OfflineSyncQueue) => {
+    online = true;
+    await queue.flush();
+};
+
+// The device learns a row's version from the job state a sync returns
+const syncVersion = async (queue: OfflineSyncQueue, rowVersion: number) => {
+    await queue.enqueue(edit({ completed_units: 5 }));
+    respond(results({ synced: 1, newState: { 'job-1': { products: [{ id: 'pp-1', row_version: rowVersion }] } } }));
+    await goOnline(queue);
+    online = false;
+    sent = [];
+};
+
+describe('OfflineSyncQueue', () => {
+    test('should send the row version the device last saw with the first edit', async () => {
+        const queue = new OfflineSyncQueue();
+        await syncVersion(queue, 3);
+
+        const first = await queue.enqueue(edit({ completed_units: 6 }));
+        expect(first.base_version).toBe(3);
+
+        // A second edit before the first is sent is checked against the same version
+        await queue.enqueue(edit({ notes: 'Level 2 done' }));
+        expect(queue.getLength()).toBe(1);
+
+        respond(results({ synced: 1, newState: { 'job-1': { products: [{ id: 'pp-1', row_version: 4 }] } } }));
+        await goOnline(queue);
+
+        expect(sent[0].updates).toHaveLength(1);
+        expect(sent[0].updates[0]).toMatchObject({ base_version: 3, data: { completed_units: 6, notes: 'Level 2 done' } });
+        expect(queue.getLength()).toBe(0);
+
+        online = false;
+        expect((await queue.enqueue(edit({ completed_units: 7 }))).base_version).toBe(4);
+    });
+
+    test('should leave the version out for rows the device has not synced', async () => {
+        const queue = new OfflineSyncQueue();
+        expect((await queue.enqueue(edit({ completed_units: 6 }))).base_version).toBeUndefined();
+    });
+
+    test('should hold conflicts and rebase a kept edit onto the server version', async () => {
+        const queue = new OfflineSyncQueue();
+        await syncVersion(queue, 3);
+        const operation = await queue.enqueue(edit({ completed_units: 6 }));
+
+        const conflict: SyncConflict = {
+            id: operation.id,
+            idempotency_key: operation.idempotency_key,
+            operation: 'product_update',
+            table: 'product_progress',
+            job_id: 'job-1',
+            record_id: 'pp-1',
+            reason: 'Record was changed on another device',
+            base_version: 3,
+            server_version: 5,
+            client_data: { completed_units: 6 },
+            server_data: { id: 'pp-1', completed_units: 8, row_version: 5 },
+            fields: ['completed_units'],
+        };
+        respond(results({ conflicts: [conflict] }));
+        await goOnline(queue);
+
+        expect(queue.getConflicts()).toHaveLength(1);
+
+        // A later edit to the same row is not folded into the held conflict
+        online = false;
+        await queue.enqueue(edit({ notes: 'Snagging' }));
+        expect(queue.getLength()).toBe(2);
+
+        respond(results({ synced: 2 }));
+        await queue.resolveConflict(operation.idempotency_key, 'keep_mine');
+        await goOnline(queue);
+
+        const resent = sent[sent.length - 1].updates.find(update => update.idempotency_key !== operation.idempotency_key && (update.data as Record<string, unknown>).completed_units === 6);
+        expect(resent).toMatchObject({ base_version: 5 });
+        expect(queue.getConflicts()).toHaveLength(0);
+    });
+
+    test('should back off and keep the operation when the batch fails', async () => {
+        const queue = new OfflineSyncQueue();
+        await queue.enqueue(edit({ completed_units: 6 }));
+
+        respond(new Error('Network down'));
+        const before = Date.now();
+        await goOnline(queue);
+
+        expect(queue.getLength()).toBe(1);
+        expect(console.error).toHaveBeenCalled();
+
+        // The failed edit is still queued, so a new edit folds into it
+        online = false;
+        const merged = await queue.enqueue(edit({ notes: 'Level 2 done' }));
+        expect(merged).toMatchObject({ attempts: 1, last_error: 'Network down', data: { completed_units: 6, notes: 'Level 2 done' } });
+        expect(merged.next_attempt_at).toBeGreaterThan(before);
+    });
+});
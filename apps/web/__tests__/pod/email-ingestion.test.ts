@@ -0,0 +1,142 @@
+/**
+ * Test Suite for POD Email Ingestion
+ * Tests MIME parsing, attachment selection and supplier attribution
+ */
+
+import { matchSupplierBySender, selectPODAttachments } from '../../lib/pod/email-ingestion.service';
+import { parseHeaderValue, parseMimeMessage } from '../../lib/pod/mime';
+import type { Supplier } from '../../lib/pod/types';
+
+const pdf = Buffer.from('%PDF-1.4\n\u0000ÿ signed delivery note', 'latin1');
+
+const message = (parts: string[]) => [
+    'From: "Jo Bloggs" <Jo@Acme-Haulage.co.uk>',
+    'Subject: =?utf-8?q?POD_for_SO-123?=',
+    'Message-ID: <pod-1@mail.acme-haulage.co.uk>',
+    'Content-Type: multipart/mixed;',
+    '\tboundary="BOUNDARY"',
+    '',
+    ...parts.flatMap(part => ['--BOUNDARY', part]),
+    '--BOUNDARY--',
+    ''
+].join('\r\n');
+
+const pdfPart = (filename = 'pod.pdf') => [
+    'Content-Type: application/pdf',
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    pdf.toString('base64')
+].join('\r\n');
+
+const supplier = (overrides: Partial<Supplier> = {}): Supplier => ({
+    id: 's-1',
+    name: 'Acme Haulage',
+    type: 'haulier',
+    primary_contact_name: null,
+    primary_email: null,
+    primary_phone: null,
+    address_line_1: null,
+    address_line_2: null,
+    city: null,
+    postcode: null,
+    country: 'United Kingdom',
+    contacts: [{ name: 'Transport desk', email: 'transport@acme-haulage.co.uk' }],
+    active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    created_by: null,
+    notes: null,
+    ...overrides
+});
+
+describe('parseMimeMessage', () => {
+    test('should read the sender and subject', () => {
+        const email = parseMimeMessage(message(['Content-Type: text/plain\r\n\r\nSee attached']));
+        expect(email.from).toBe('jo@acme-haulage.co.uk');
+        expect(email.fromName).toBe('Jo Bloggs');
+        expect(email.subject).toBe('POD for SO-123');
+        expect(email.messageId).toBe('pod-1@mail.acme-haulage.co.uk');
+        expect(email.attachments).toHaveLength(0);
+    });
+
+    test('should decode base64 attachments byte for byte', () => {
+        const email = parseMimeMessage(Buffer.from(message([pdfPart()]), 'latin1'));
+        expect(email.attachments).toHaveLength(1);
+        expect(email.attachments[0].filename).toBe('pod.pdf');
+        expect(email.attachments[0].content.equals(pdf)).toBe(true);
+    });
+
+    test('should find attachments in nested multiparts and forwarded messages', () => {
+        const forwarded = [
+            'Content-Type: message/rfc822',
+            '',
+            'From: driver@acme-haulage.co.uk',
+            'Content-Type: multipart/mixed; boundary=INNER',
+            '',
+            '--INNER',
+            pdfPart('forwarded.pdf'),
+            '--INNER--'
+        ].join('\r\n');
+        const alternative = [
+            'Content-Type: multipart/alternative; boundary=ALT',
+            '',
+            '--ALT',
+            'Content-Type: text/plain',
+            '',
+            'Hello',
+            '--ALT--'
+        ].join('\r\n');
+
+        const email = parseMimeMessage(message([alternative, forwarded]));
+        expect(email.attachments.map(attachment => attachment.filename)).toEqual(['forwarded.pdf']);
+    });
+
+    test('should decode RFC 2231 filenames', () => {
+        expect(parseHeaderValue("attachment; filename*=UTF-8''d%C3%A9livery.pdf").params.filename).toBe('délivery.pdf');
+        expect(parseHeaderValue('attachment; filename*0="long"; filename*1="name.pdf"').params.filename).toBe('longname.pdf');
+    });
+});
+
+describe('selectPODAttachments', () => {
+    test('should accept PDFs sent as octet-stream by extension', () => {
+        const { accepted } = selectPODAttachments([
+            { filename: 'POD.PDF', contentType: 'application/octet-stream', content: pdf, inline: false }
+        ]);
+        expect(accepted[0].mimeType).toBe('application/pdf');
+    });
+
+    test('should skip inline signature images and unsupported files', () => {
+        const { accepted, skipped } = selectPODAttachments([
+            { filename: 'logo.png', contentType: 'image/png', content: pdf, inline: true, contentId: 'logo' },
+            { filename: 'invoice.docx', contentType: 'application/msword', content: pdf, inline: false }
+        ]);
+        expect(accepted).toHaveLength(0);
+        expect(skipped.map(item => item.filename)).toEqual(['logo.png', 'invoice.docx']);
+    });
+});
+
+describe('matchSupplierBySender', () => {
+    test('should match the sender domain against supplier contacts', () => {
+        expect(matchSupplierBySender([supplier()], 'jo@acme-haulage.co.uk')?.id).toBe('s-1');
+    });
+
+    test('should prefer an exact address match over a shared domain', () => {
+        const other = supplier({ id: 's-2', contacts: [{ name: 'Jo', email: 'jo@acme-haulage.co.uk' }] });
+        expect(matchSupplierBySender([supplier(), other], 'jo@acme-haulage.co.uk')?.id).toBe('s-2');
+    });
+
+    test('should not guess when several suppliers share the domain', () => {
+        expect(matchSupplierBySender([supplier(), supplier({ id: 's-2' })], 'jo@acme-haulage.co.uk')).toBeNull();
+    });
+
+    test('should not match on public mail domains', () => {
+        const gmail = supplier({ contacts: [{ name: 'Driver', email: 'driver@gmail.com' }] });
+        expect(matchSupplierBySender([gmail], 'someone@gmail.com')).toBeNull();
+        expect(matchSupplierBySender([gmail], 'driver@gmail.com')?.id).toBe('s-1');
+    });
+
+    test('should ignore inactive suppliers', () => {
+        expect(matchSupplierBySender([supplier({ active: false })], 'jo@acme-haulage.co.uk')).toBeNull();
+    });
+});
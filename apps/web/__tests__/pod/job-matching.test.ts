@@ -0,0 +1,138 @@
+/**
+ * Test Suite for POD Job Matching
+ * Tests candidate scoring, link decisions and delivered item reconciliation
+ */
+
+import {
+    decideJobMatch,
+    extractPostcode,
+    MatchableJob,
+    reconcileItems,
+    reconciliationFlags,
+    scoreJobCandidate
+} from '../../lib/pod/job-matching.service';
+import type { JobProduct } from '../../lib/server/jobProducts';
+import type { JobMatchCandidate } from '../../lib/pod/types';
+
+const pod = {
+    sales_order_ref: 'SO-12345',
+    delivery_address: 'Unit 4, Riverside Park, Leeds LS11 5DR',
+    delivery_date: '2025-03-12'
+};
+
+const job = (overrides: Partial<MatchableJob> = {}): MatchableJob => ({
+    id: 'j-1',
+    title: 'Riverside fit-out',
+    reference: 'SO12345',
+    client_name: 'Acme Ltd',
+    location: 'Riverside Park, LS11 5DR',
+    start_date: '2025-03-10T08:00:00Z',
+    end_date: '2025-03-14T17:00:00Z',
+    ...overrides
+});
+
+const candidate = (id: string, score: number): JobMatchCandidate => ({
+    job_id: id,
+    reference: null,
+    title: id,
+    client_name: null,
+    score,
+    reasons: []
+});
+
+const product = (id: string, name: string, quantity: number, code: string | null = null): JobProduct => ({
+    id,
+    name,
+    code,
+    quantity,
+    source: 'quote'
+});
+
+describe('extractPostcode', () => {
+    test('should normalise postcodes found in an address', () => {
+        expect(extractPostcode('Riverside Park, leeds ls115dr')).toBe('LS11 5DR');
+        expect(extractPostcode('No postcode here')).toBeNull();
+    });
+});
+
+describe('scoreJobCandidate', () => {
+    test('should score ref, postcode and date matches', () => {
+        const result = scoreJobCandidate(pod, job());
+        expect(result.score).toBe(100);
+        expect(result.reasons).toHaveLength(3);
+    });
+
+    test('should match the ref against the originating quote ref', () => {
+        const result = scoreJobCandidate(pod, job({ reference: 'JOB-9', quote_details: { quote_ref: 'so-12345' } }));
+        expect(result.score).toBe(100);
+    });
+
+    test('should give partial credit for the same postcode district and a nearby date', () => {
+        const result = scoreJobCandidate(
+            { ...pod, sales_order_ref: null, delivery_date: '2025-03-18' },
+            job({ location: 'Leeds LS11 9AB' })
+        );
+        expect(result.score).toBe(18);
+    });
+});
+
+describe('decideJobMatch', () => {
+    test('should link a confident, clear winner', () => {
+        expect(decideJobMatch([candidate('a', 85), candidate('b', 40)]).status).toBe('linked');
+    });
+
+    test('should send close calls to review', () => {
+        const result = decideJobMatch([candidate('a', 85), candidate('b', 75)]);
+        expect(result.status).toBe('needs_review');
+        expect(result.best?.job_id).toBe('a');
+    });
+
+    test('should send weak matches to review and ignore very weak ones', () => {
+        expect(decideJobMatch([candidate('a', 40)]).status).toBe('needs_review');
+        expect(decideJobMatch([candidate('a', 20)]).status).toBe('no_match');
+        expect(decideJobMatch([]).status).toBe('no_match');
+    });
+});
+
+describe('reconcileItems', () => {
+    const products = [
+        product('p-1', 'Desk 1600 x 800 White', 10, 'DSK1600'),
+        product('p-2', 'Task chair black', 10),
+        product('p-3', 'Pedestal 3 drawer', 10)
+    ];
+
+    test('should flag shorts, overs and unexpected items', () => {
+        const results = reconcileItems(
+            [
+                { product: 'DSK1600 desk', quantity: 8 },
+                { product: 'Chair, task - black', quantity: 12 },
+                { product: 'Coat stand', quantity: 2 }
+            ],
+            products
+        );
+
+        expect(results.map(result => [result.product, result.status])).toEqual([
+            ['Desk 1600 x 800 White', 'short'],
+            ['Task chair black', 'over'],
+            ['Coat stand', 'unexpected']
+        ]);
+        expect(reconciliationFlags(results)).toEqual([
+            'short:Desk 1600 x 800 White (8 of 10)',
+            'over:Task chair black (12 of 10)',
+            'unexpected:Coat stand (2)'
+        ]);
+    });
+
+    test('should count earlier deliveries towards the job total', () => {
+        const results = reconcileItems(
+            [{ product: 'Pedestal 3 drawer', quantity: 4 }],
+            products,
+            [{ product: 'Pedestal 3 drawer', quantity: 6 }]
+        );
+        expect(results).toEqual([{ product: 'Pedestal 3 drawer', expected: 10, delivered: 10, status: 'ok' }]);
+    });
+
+    test('should not flag products that are not on this delivery', () => {
+        expect(reconcileItems([{ product: 'Pedestal 3 drawer', quantity: 10 }], products)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * Test Suite for Job Profitability
+ * Tests reading quoted figures from SmartQuote results, quote-vs-actual
+ * variance per job and across jobs, and install time suggestions
+ */
+
+import type { CalculationResults } from '../modules/smartquote/types';
+import { jobCostTotals } from '../lib/jobCosts';
+import {
+    installTimeSuggestions,
+    jobProfitability,
+    normalizeProductCode,
+    portfolioProfitability,
+    quotedFromJob,
+    quotedFromResults,
+    type ActualFigures,
+    type CatalogueTime,
+    type QuotedFigures,
+} from '../lib/profitability';
+
+const rates = { installer: 200, supervisor: 250, vehicle: 80, waste_load: 150 };
+
+const results = {
+    labour: { totalHours: 90, hoursAfterUplift: 100, bufferedHours: 110, totalDays: 14 },
+    crew: { vanCount: 2, totalProjectDays: 7 },
+    waste: { totalVolumeM3: 12, loadsRequired: 3 },
+    pricing: { totalCost: 6000, billableDays: 7 },
+    profitability: { directCost: 4500 },
+    detailedProducts: [
+        { productCode: 'FLX-4P', description: 'Bench desk 4 person', quantity: 20, timePerUnit: 2 },
+        { productCode: 'PED 3D', description: 'Pedestal', quantity: 40, timePerUnit: 0.5 },
+    ],
+} as unknown as CalculationResults;
+
+const job = (id: string) => ({ id, reference: `J-${id}`, title: null, client_name: 'Acme', status: 'in_progress' });
+
+const actual = (overrides: Partial<ActualFigures> = {}): ActualFigures => ({
+    shiftHours: 120,
+    productHours: 80,
+    vanDays: 16,
+    wasteLoads: 3,
+    costs: jobCostTotals({ quoted_total: 6000, installer_days: 15, supervisor_days: 2, vehicle_days: 16, waste_loads: 3, materials_cost: 0, misc_cost: 0 }, rates),
+    ...overrides,
+});
+
+describe('quoted figures', () => {
+    test('should read labour after uplift, van days and waste loads from calculation results', () => {
+        const quoted = quotedFromResults('smartquote_v3', 'Q-100', results, null, 6200);
+
+        expect(quoted).toMatchObject({
+            source: 'smartquote_v3',
+            reference: 'Q-100',
+            price: 6200,
+            labourHours: 100,
+            vanDays: 14,
+            wasteLoads: 3,
+            directCost: 4500,
+        });
+        expect(quoted.products.map(product => product.code)).toEqual(['FLX-4P', 'PED 3D']);
+    });
+
+    test('should fall back to the job estimate, with no van or waste figures', () => {
+        const quoted = quotedFromJob({
+            reference: 'J-1',
+            quoted_amount: '5000.00',
+            products: [{ productCode: 'FLX-4P', quantity: 10, timePerUnit: 2 }],
+            labour_summary: null,
+        });
+
+        expect(quoted).toMatchObject({ source: 'job', price: 5000, labourHours: 20, vanDays: null, wasteLoads: null, directCost: null });
+        expect(quotedFromJob({ reference: null, quoted_amount: null, products: [], labour_summary: null })).toBeNull();
+    });
+});
+
+describe('jobProfitability', () => {
+    const quoted = quotedFromResults('smartquote_v3', 'Q-100', results, null);
+    const progress = [
+        { product_type: 'flx 4p', product_name: 'Bench desk', completed_units: 10, actual_hours_spent: 30 },
+        { product_type: 'PED-3D', product_name: 'Pedestal', completed_units: 40, actual_hours_spent: 18 },
+        { product_type: 'SCREEN', product_name: 'Desk screen', completed_units: 5, actual_hours_spent: 4 },
+    ];
+
+    test('should compare labour, vans, waste and margin against the quote', () => {
+        const report = jobProfitability(job('1'), quoted, actual(), progress);
+        const byMetric = Object.fromEntries(report.lines.map(line => [line.metric, line]));
+
+        expect(byMetric.labour_hours).toMatchObject({ quoted: 100, actual: 120, variance: 20, variancePct: 20 });
+        expect(byMetric.van_days).toMatchObject({ quoted: 14, actual: 16, variance: 2, variancePct: 14.3 });
+        expect(byMetric.waste_loads).toMatchObject({ variance: 0, variancePct: 0 });
+        // Quoted margin 1500; actual 6000 - (3000 + 500 + 1280 + 450)
+        expect(byMetric.margin).toMatchObject({ quoted: 1500, actual: 770, variance: -730 });
+    });
+
+    test('should use close-out hours until shifts are rostered, and leave unknowns empty', () => {
+        const report = jobProfitability(job('1'), null, actual({ shiftHours: 0, costs: null }), progress);
+
+        expect(report.lines[0]).toMatchObject({ quoted: null, actual: 80, variance: null, variancePct: null });
+        expect(report.lines[3].actual).toBeNull();
+    });
+
+    test('should match products on normalised code and measure hours per completed unit', () => {
+        const report = jobProfitability(job('1'), quoted, actual(), progress);
+        const byKey = Object.fromEntries(report.products.map(product => [product.key, product]));
+
+        expect(normalizeProductCode('ped (3d)')).toBe('PED3D');
+        expect(byKey.FLX4P).toMatchObject({ quotedQuantity: 20, completedUnits: 10, actualHoursPerUnit: 3, hoursVariance: 10, variancePct: 50 });
+        expect(byKey.PED3D).toMatchObject({ actualHoursPerUnit: 0.45, hoursVariance: -2, variancePct: -10 });
+        expect(byKey.SCREEN).toMatchObject({ quotedHoursPerUnit: null, hoursVariance: null });
+        expect(report.products[0].key).toBe('FLX4P');
+    });
+});
+
+describe('portfolioProfitability', () => {
+    test('should total only jobs with both sides and pool products across jobs', () => {
+        const quoted = quotedFromResults('quote', 'Q-1', results, null);
+        const one = jobProfitability(job('1'), quoted, actual(), [
+            { product_type: 'FLX-4P', product_name: null, completed_units: 10, actual_hours_spent: 30 },
+        ]);
+        const two = jobProfitability(job('2'), quoted, actual({ shiftHours: 90 }), [
+            { product_type: 'FLX4P', product_name: null, completed_units: 10, actual_hours_spent: 10 },
+        ]);
+        const unquoted = jobProfitability(job('3'), null as QuotedFigures | null, actual({ shiftHours: 500 }), []);
+
+        const portfolio = portfolioProfitability([one, two, unquoted]);
+
+        expect(portfolio.totals[0]).toMatchObject({ quoted: 200, actual: 210, variance: 10, variancePct: 5 });
+        const desk = portfolio.products.find(product => product.key === 'FLX4P')!;
+        expect(desk).toMatchObject({ quotedQuantity: 40, quotedHoursPerUnit: 2, completedUnits: 20, actualHours: 40, actualHoursPerUnit: 2, hoursVariance: 0 });
+        expect(desk.jobIds).toEqual(['1', '2']);
+    });
+});
+
+describe('installTimeSuggestions', () => {
+    const catalogue: CatalogueTime[] = [
+        { id: 'c1', code: 'FLX-4P', name: 'FLX 4P', install_time_hours: 2, locked: false, aliases: ['FLX4P-2816'] },
+        { id: 'c2', code: 'PED-3D', name: 'Pedestal', install_time_hours: 0.5, locked: true, aliases: [] },
+        { id: 'c3', code: 'SCREEN', name: 'Screen', install_time_hours: 0.25, locked: false, aliases: [] },
+    ];
+    const variance = (key: string, completedUnits: number, actualHours: number, jobIds = ['1']) => ({
+        key, code: key, description: key, quotedQuantity: 0, quotedHoursPerUnit: null, completedUnits, actualHours,
+        actualHoursPerUnit: null, hoursVariance: null, variancePct: null, jobIds,
+    });
+
+    test('should suggest times from enough units, merging aliases and skipping locked products', () => {
+        const suggestions = installTimeSuggestions([
+            variance('FLX4P', 8, 20, ['1']),
+            variance('FLX4P2816', 4, 10, ['2']),
+            variance('PED3D', 50, 50),
+            variance('SCREEN', 6, 6),
+        ], catalogue);
+
+        expect(suggestions).toEqual([{
+            product_id: 'c1',
+            product_code: 'FLX-4P',
+            product_name: 'FLX 4P',
+            current_install_time_hours: 2,
+            suggested_install_time_hours: 2.5,
+            completed_units: 12,
+            actual_hours: 30,
+            job_count: 2,
+            variance_pct: 25,
+        }]);
+    });
+
+    test('should not suggest a change inside the variance tolerance', () => {
+        expect(installTimeSuggestions([variance('FLX4P', 20, 42)], catalogue)).toEqual([]);
+    });
+});
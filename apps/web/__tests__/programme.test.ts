@@ -0,0 +1,186 @@
+/**
+ * Test Suite for Job Programme
+ * Tests laying generated tasks over allocated crew hours, the critical path,
+ * start constraints, and the CSV and MS Project exports, read back the way
+ * Project schedules them
+ */
+
+import type { AllocationRow } from '../lib/labourConflicts';
+import { resolvePredecessors, scheduleProgramme, type ProgrammeTaskRow } from '../lib/programme';
+import { programmeCsv, programmeMsProjectXml } from '../lib/programmeExport';
+import { addDays } from '../lib/utils/dates';
+
+const task = (id: string, overrides: Partial<ProgrammeTaskRow> = {}): ProgrammeTaskRow => ({
+    id,
+    title: id,
+    room_zone: null,
+    install_order: 1,
+    estimated_time_minutes: 16 * 60,
+    dependencies: [],
+    start_no_earlier_than: null,
+    ...overrides,
+});
+
+// One van crew (two installers, 16 crew hours) a day, Monday to Friday
+const week: AllocationRow[] = ['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06']
+    .map(work_date => ({ job_id: 'job-1', work_date, role: 'installer', crew_mode: 'van', headcount: 1 }));
+
+describe('resolvePredecessors', () => {
+    test('should match dependencies by id or title and fall back to install order', () => {
+        const { predecessors, warnings } = resolvePredecessors([
+            task('strip', { title: 'Strip out', install_order: 1 }),
+            task('desks', { title: 'Install desks', install_order: 2 }),
+            task('chairs', { title: 'Place chairs', install_order: 2 }),
+            task('clean', { title: 'Clean', install_order: 3, dependencies: ['install desks', 'Sweep'] }),
+        ]);
+
+        expect(predecessors).toEqual({ strip: [], desks: ['strip'], chairs: ['strip'], clean: ['desks'] });
+        expect(warnings).toEqual(['"Clean" depends on "Sweep", which is not a task on this job']);
+    });
+});
+
+describe('scheduleProgramme', () => {
+    test('should share the crew between parallel tasks and trace the critical path', () => {
+        const programme = scheduleProgramme([
+            task('strip', { install_order: 1, estimated_time_minutes: 8 * 60 }),
+            task('desks', { install_order: 2, estimated_time_minutes: 24 * 60 }),
+            task('chairs', { install_order: 2, estimated_time_minutes: 8 * 60 }),
+            task('clean', { install_order: 3, dependencies: ['chairs'], estimated_time_minutes: 4 * 60 }),
+        ], week, '2026-03-02');
+
+        const byId = Object.fromEntries(programme.tasks.map(t => [t.id, t]));
+        expect([byId.strip.start, byId.strip.finish]).toEqual(['2026-03-02', '2026-03-02']);
+        expect([byId.chairs.start, byId.chairs.finish]).toEqual(['2026-03-02', '2026-03-02']);
+        expect([byId.desks.start, byId.desks.finish]).toEqual(['2026-03-03', '2026-03-04']);
+        // Chairs finish on day one, but the crew is on desks until day three
+        expect([byId.clean.start, byId.clean.finish]).toEqual(['2026-03-04', '2026-03-04']);
+        expect(byId.clean.driver).toEqual({ kind: 'crew', taskId: 'desks' });
+        expect(byId.desks.driver).toEqual({ kind: 'crew', taskId: 'chairs' });
+
+        expect(programme.tasks.filter(t => t.critical).map(t => t.id).sort()).toEqual(['chairs', 'clean', 'desks', 'strip']);
+        expect(programme.finish).toBe('2026-03-04');
+    });
+
+    test('should carry on past the allocation and flag it', () => {
+        const programme = scheduleProgramme([task('fit', { estimated_time_minutes: 16 * 60 * 6 })], week, '2026-03-02');
+
+        expect(programme.tasks[0].finish).toBe('2026-03-09');
+        expect(programme.tasks[0].beyondAllocation).toBe(true);
+        expect(programme.days.map(d => d.allocated)).toEqual([true, true, true, true, true, false]);
+    });
+
+    test('should leave tasks off the critical path when they have room', () => {
+        const programme = scheduleProgramme([
+            task('strip', { install_order: 1, estimated_time_minutes: 4 * 60 }),
+            task('desks', { install_order: 2, estimated_time_minutes: 40 * 60 }),
+            task('signs', { title: 'Audit signs', install_order: 2, estimated_time_minutes: 2 * 60 }),
+        ], week, '2026-03-02');
+
+        expect(programme.tasks.filter(t => t.critical).map(t => t.id)).toEqual(['strip', 'desks']);
+    });
+
+    test('should hold a task to its start date and report circular dependencies', () => {
+        const programme = scheduleProgramme([
+            task('a', { dependencies: ['b'], start_no_earlier_than: '2026-03-04' }),
+            task('b', { dependencies: ['a'] }),
+        ], week, '2026-03-02');
+
+        const a = programme.tasks.find(t => t.id === 'a')!;
+        expect(a.start).toBe('2026-03-04');
+        expect(a.driver).toEqual({ kind: 'constraint' });
+        expect(programme.warnings).toHaveLength(1);
+        expect(programme.tasks.find(t => t.id === 'b')!.start).toBe('2026-03-05');
+    });
+
+    test('should start an unallocated job on its anchor date, skipping weekends', () => {
+        const programme = scheduleProgramme([task('fit', { estimated_time_minutes: 32 * 60 })], [], '2026-03-07');
+
+        expect([programme.start, programme.finish]).toEqual(['2026-03-09', '2026-03-10']);
+    });
+});
+
+describe('programme exports', () => {
+    const programme = scheduleProgramme([
+        task('strip', { title: 'Strip & clear', install_order: 1, room_zone: 'Level 3' }),
+        task('fit', { title: 'Fit, desks', install_order: 2 }),
+    ], week.filter(row => row.work_date !== '2026-03-03'), '2026-03-02');
+
+    test('should number tasks and list predecessors in the CSV', () => {
+        expect(programmeCsv(programme).split('\n')).toEqual([
+            'ID,Task,Zone,Start,Finish,Working Days,Work (hours),Predecessors,Critical,Start No Earlier Than',
+            '1,Strip & clear,Level 3,2026-03-02,2026-03-02,1,16,,Yes,',
+            '2,"Fit, desks",,2026-03-04,2026-03-04,1,16,1,Yes,',
+        ]);
+    });
+
+    test('should write MSPDI with links and a calendar matching the allocation', () => {
+        const xml = programmeMsProjectXml(programme, 'J-1042 <Fit-out>');
+
+        expect(xml).toContain('<Project xmlns="http://schemas.microsoft.com/project">');
+        expect(xml).toContain('<Title>J-1042 &lt;Fit-out&gt;</Title>');
+        expect(xml).toContain('<Name>Strip &amp; clear</Name>');
+        expect(xml).toContain('<PredecessorLink><PredecessorUID>1</PredecessorUID><Type>1</Type></PredecessorLink>');
+        expect(xml).toContain('<Start>2026-03-04T08:00:00</Start>');
+        expect(xml).toContain('<Duration>PT8H0M0S</Duration>');
+        // Tuesday has no labour, so Project must not work it
+        expect(xml).toContain('<DayType>0</DayType>\n<DayWorking>0</DayWorking>\n<TimePeriod><FromDate>2026-03-03T00:00:00</FromDate>');
+    });
+});
+
+/**
+ * The start Project gives each task in an MSPDI file, from the file alone: its
+ * links over the working calendar, then any start-no-earlier-than constraint.
+ */
+const projectStarts = (xml: string): Record<string, string> => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const text = (node: Element | Document, tag: string) => node.getElementsByTagName(tag)[0]?.textContent ?? '';
+
+    const exceptions = new Map(Array.from(doc.getElementsByTagName('WeekDay'))
+        .filter(day => text(day, 'DayType') === '0')
+        .map(day => [text(day, 'FromDate').slice(0, 10), text(day, 'DayWorking') === '1']));
+    const isWorking = (date: string) => exceptions.get(date) ?? ![0, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+    const workingDaysAfter = (date: string, count: number) => {
+        let next = date;
+        for (let left = count; left > 0; left--) {
+            do next = addDays(next, 1); while (!isWorking(next));
+        }
+        return next;
+    };
+
+    const byUid = new Map<string, { start: string; finish: string }>();
+    const starts: Record<string, string> = {};
+    for (const node of Array.from(doc.getElementsByTagName('Task'))) {
+        let start = text(doc, 'StartDate').slice(0, 10);
+        for (const link of Array.from(node.getElementsByTagName('PredecessorLink'))) {
+            const predecessor = byUid.get(text(link, 'PredecessorUID'))!;
+            const linked = text(link, 'Type') === '3'
+                ? workingDaysAfter(predecessor.start, Number(text(link, 'LinkLag') || 0) / 4800)
+                : workingDaysAfter(predecessor.finish, 1);
+            if (linked > start) start = linked;
+        }
+        const constraint = text(node, 'ConstraintDate').slice(0, 10);
+        if (constraint > start) start = constraint;
+
+        const workingDays = Number(/PT(\d+)H/.exec(text(node, 'Duration'))![1]) / 8;
+        byUid.set(text(node, 'UID'), { start, finish: workingDaysAfter(start, workingDays - 1) });
+        starts[text(node, 'Name')] = start;
+    }
+    return starts;
+};
+
+describe('MS Project round trip', () => {
+    test.each([
+        ['a successor started in the hours left on the same day', 4, '2026-03-02'],
+        ['a successor started on the last day of a two-day task', 24, '2026-03-03'],
+        ['a successor started the day after', 16, '2026-03-03'],
+    ])('should give %s the scheduled start', (_case, firstHours, secondStart) => {
+        const programme = scheduleProgramme([
+            task('first', { install_order: 1, estimated_time_minutes: firstHours * 60 }),
+            task('second', { install_order: 2, estimated_time_minutes: 4 * 60 }),
+        ], week, '2026-03-02');
+
+        const scheduled = Object.fromEntries(programme.tasks.map(t => [t.title, t.start]));
+        expect(scheduled.second).toBe(secondStart);
+        expect(projectStarts(programmeMsProjectXml(programme, 'J-1042'))).toEqual(scheduled);
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * Test Suite for the RAMS Builder
+ * Tests crew and programme from labour allocations, hazard selection by risk
+ * code and product category, and the assembled document content
+ */
+
+import {
+    buildRamsContent,
+    inferProductCategory,
+    selectHazards,
+    summarizeProgramme,
+    type LabourAllocationRow,
+    type RamsHazard,
+} from '../lib/rams';
+
+const hazard = (id: string, key: { risk_code?: string; product_category?: string }, sort_order = 10): RamsHazard => ({
+    id,
+    risk_code: key.risk_code ?? null,
+    product_category: key.product_category ?? null,
+    hazard: `Hazard ${id}`,
+    persons_at_risk: 'Installers',
+    controls: ['Control'],
+    residual_rating: 'low',
+    sort_order,
+});
+
+const library: RamsHazard[] = [
+    hazard('desk', { product_category: 'desk' }),
+    hazard('height', { risk_code: 'ELEVATION' }),
+    hazard('trips', { risk_code: 'GENERAL' }, 20),
+    hazard('handling', { risk_code: 'GENERAL' }, 10),
+    hazard('asbestos', { risk_code: 'ASBESTOS' }),
+    hazard('storage', { product_category: 'storage' }),
+];
+
+const allocations: LabourAllocationRow[] = [
+    { work_date: '2026-03-03', role: 'installer', crew_mode: 'van', headcount: 2 },
+    { work_date: '2026-03-03', role: 'installer', crew_mode: 'foot', headcount: 1 },
+    { work_date: '2026-03-03', role: 'supervisor', crew_mode: null, headcount: 1 },
+    { work_date: '2026-03-02', role: 'installer', crew_mode: 'van', headcount: 1 },
+    { work_date: '2026-03-04', role: 'installer', crew_mode: 'foot', headcount: 0 },
+];
+
+describe('summarizeProgramme', () => {
+    test('should count van crews as two installers and order the days', () => {
+        const programme = summarizeProgramme(allocations);
+
+        expect(programme.days).toEqual([
+            { date: '2026-03-02', installers: 2, supervisors: 0 },
+            { date: '2026-03-03', installers: 5, supervisors: 1 },
+        ]);
+        expect(programme.startDate).toBe('2026-03-02');
+        expect(programme.endDate).toBe('2026-03-03');
+        expect(programme.workingDays).toBe(2);
+        expect(programme.peakCrew).toBe(6);
+    });
+
+    test('should leave dates empty without allocations', () => {
+        expect(summarizeProgramme([])).toEqual({ startDate: null, endDate: null, workingDays: 0, peakCrew: 0, days: [] });
+    });
+});
+
+describe('inferProductCategory', () => {
+    test('should read the category from the product name', () => {
+        expect(inferProductCategory('FLX 4P bench desk 2800x1600')).toBe('desk');
+        expect(inferProductCategory('Meeting table 2400')).toBe('table');
+        expect(inferProductCategory('3 drawer mobile pedestal')).toBe('storage');
+        expect(inferProductCategory('Task chair, black mesh')).toBe('chair');
+        expect(inferProductCategory('Acoustic screen')).toBeNull();
+    });
+});
+
+describe('selectHazards', () => {
+    test('should pick general, flagged and product hazards in that order', () => {
+        const selected = selectHazards(library, ['ELEVATION'], ['desk', 'chair']);
+
+        expect(selected.map(h => h.id)).toEqual(['handling', 'trips', 'height', 'desk']);
+    });
+
+    test('should ignore flags and categories the library has no entry for', () => {
+        expect(selectHazards(library, ['UNKNOWN'], []).map(h => h.id)).toEqual(['handling', 'trips']);
+    });
+});
+
+describe('buildRamsContent', () => {
+    test('should assemble hazards, programme and method statement for the job', () => {
+        const content = buildRamsContent({
+            job: { id: 'job-1', reference: 'J-100', title: 'Floor 3 fit-out', client_name: 'Acme Ltd' },
+            version: 2,
+            issuedAt: '2026-03-01T09:00:00.000Z',
+            riskFlags: [{ code: 'ASBESTOS', label: 'Asbestos present/suspected', level: 'critical' }],
+            products: [
+                { name: 'Bench desk', code: 'FLX-4P-2816', quantity: 5, category: 'desk' },
+                { name: 'Tambour', code: null, quantity: 2, category: 'storage' },
+            ],
+            allocations,
+            library,
+        });
+
+        expect(content.version).toBe(2);
+        expect(content.hazards.map(h => h.id)).toEqual(['handling', 'trips', 'asbestos', 'desk', 'storage']);
+        expect(content.programme.peakCrew).toBe(6);
+        expect(content.methodStatement[0]).toContain('induction');
+        expect(content.methodStatement.some(step => step.includes('asbestos register'))).toBe(true);
+        expect(content.methodStatement.some(step => step.includes('mobile tower'))).toBe(false);
+        expect(content.methodStatement[content.methodStatement.length - 1]).toContain('hand over');
+    });
+});
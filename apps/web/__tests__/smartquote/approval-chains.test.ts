@@ -0,0 +1,211 @@
+/**
+ * Test Suite for SmartQuote v3 Approval Chains
+ * Tests chain selection, stage progression, step approvals, approver checks and conditions
+ */
+
+import {
+    canDecideStep,
+    getCurrentStage,
+    getStepsToActivate,
+    isStepOverdue,
+    matchesChainConditions,
+    parseApprovalConditions,
+    recordStepApproval,
+    selectApprovalChain
+} from '../../modules/smartquote-v3/services/approvalWorkflowService';
+import {
+    ApprovalAction,
+    ApprovalChain,
+    ApprovalStepStatus,
+    QuoteApprovalStep
+} from '../../modules/smartquote-v3/types';
+
+const chain = (overrides: Partial<ApprovalChain> = {}): ApprovalChain => ({
+    id: 'c-1',
+    name: 'High value or low margin',
+    conditions: { minAmount: 25000, maxMarginPercent: 15, match: 'any' },
+    steps: [
+        { name: 'Ops manager', stage: 1, approverRole: 'ops', requiredApprovals: 1, slaHours: 24 },
+        { name: 'Director', stage: 2, approverRole: 'director', requiredApprovals: 1, slaHours: 48 }
+    ],
+    priority: 100,
+    isActive: true,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides
+});
+
+const step = (overrides: Partial<QuoteApprovalStep> = {}): QuoteApprovalStep => ({
+    id: 's-1',
+    quoteId: 'q-1',
+    chainId: 'c-1',
+    stepIndex: 0,
+    stage: 1,
+    name: 'Ops manager',
+    approverUserIds: ['u-1', 'u-2'],
+    requiredApprovals: 1,
+    approvals: [],
+    status: ApprovalStepStatus.PENDING,
+    slaHours: 24,
+    dueAt: new Date('2025-03-02T09:00:00Z'),
+    escalationLevel: 0,
+    ...overrides
+});
+
+const now = new Date('2025-03-01T12:00:00Z');
+
+describe('matchesChainConditions', () => {
+    const conditions = { minAmount: 25000, maxMarginPercent: 15, match: 'any' as const };
+
+    test('should match on value or margin when either applies', () => {
+        expect(matchesChainConditions(conditions, { totalAmount: 30000, marginPercent: 30 })).toBe(true);
+        expect(matchesChainConditions(conditions, { totalAmount: 5000, marginPercent: 12 })).toBe(true);
+        expect(matchesChainConditions(conditions, { totalAmount: 5000, marginPercent: 30 })).toBe(false);
+    });
+
+    test('should require every condition when match is all', () => {
+        expect(matchesChainConditions({ ...conditions, match: 'all' }, { totalAmount: 30000, marginPercent: 30 })).toBe(false);
+        expect(matchesChainConditions({ ...conditions, match: 'all' }, { totalAmount: 30000, marginPercent: 10 })).toBe(true);
+    });
+
+    test('should not match on margin when it is unknown', () => {
+        expect(matchesChainConditions({ maxMarginPercent: 15 }, { totalAmount: 5000, marginPercent: null })).toBe(false);
+    });
+
+    test('should apply chains without conditions to every quote', () => {
+        expect(matchesChainConditions({}, { totalAmount: 0 })).toBe(true);
+    });
+});
+
+describe('selectApprovalChain', () => {
+    test('should pick the highest priority matching chain', () => {
+        const urgent = chain({ id: 'c-2', priority: 10, conditions: { minAmount: 100000 } });
+        expect(selectApprovalChain([chain(), urgent], { totalAmount: 150000 })?.id).toBe('c-2');
+        expect(selectApprovalChain([chain(), urgent], { totalAmount: 50000 })?.id).toBe('c-1');
+    });
+
+    test('should ignore inactive and empty chains', () => {
+        expect(selectApprovalChain([chain({ isActive: false })], { totalAmount: 50000 })).toBeNull();
+        expect(selectApprovalChain([chain({ steps: [] })], { totalAmount: 50000 })).toBeNull();
+    });
+});
+
+describe('getCurrentStage', () => {
+    test('should return the earliest open stage', () => {
+        const steps = [
+            step({ stage: 1, status: ApprovalStepStatus.APPROVED }),
+            step({ id: 's-2', stage: 2, status: ApprovalStepStatus.WAITING })
+        ];
+        expect(getCurrentStage(steps)).toBe(2);
+    });
+
+    test('should return null once every step is approved', () => {
+        expect(getCurrentStage([step({ status: ApprovalStepStatus.APPROVED })])).toBeNull();
+    });
+});
+
+describe('getStepsToActivate', () => {
+    test('should start the waiting steps of the next stage once the current one is approved', () => {
+        const steps = [
+            step({ stage: 1, status: ApprovalStepStatus.APPROVED }),
+            step({ id: 's-2', stage: 2, status: ApprovalStepStatus.WAITING }),
+            step({ id: 's-3', stage: 2, status: ApprovalStepStatus.PENDING }),
+            step({ id: 's-4', stage: 3, status: ApprovalStepStatus.WAITING })
+        ];
+        expect(getStepsToActivate(steps).map(candidate => candidate.id)).toEqual(['s-2']);
+    });
+
+    test('should start nothing while the current stage is still pending', () => {
+        const steps = [
+            step({ stage: 1 }),
+            step({ id: 's-2', stage: 2, status: ApprovalStepStatus.WAITING })
+        ];
+        expect(getStepsToActivate(steps)).toEqual([]);
+    });
+});
+
+describe('recordStepApproval', () => {
+    test('should complete the step once enough approvers have approved', () => {
+        const result = recordStepApproval(step(), 'u-1', ApprovalAction.APPROVED, undefined, now);
+        expect('step' in result && result.step.status).toBe(ApprovalStepStatus.APPROVED);
+    });
+
+    test('should wait for parallel approvers when several are required', () => {
+        const first = recordStepApproval(step({ requiredApprovals: 2 }), 'u-1', ApprovalAction.APPROVED, undefined, now);
+        expect('step' in first && first.step.status).toBe(ApprovalStepStatus.PENDING);
+
+        if (!('step' in first)) throw new Error('expected first approval to be recorded');
+        const second = recordStepApproval(first.step, 'u-2', ApprovalAction.CONDITIONAL_APPROVAL, 'Check access', now);
+        expect('step' in second && second.step.status).toBe(ApprovalStepStatus.APPROVED);
+    });
+
+    test('should reject approvals from users outside the step', () => {
+        expect(recordStepApproval(step(), 'u-9', ApprovalAction.APPROVED, undefined, now)).toHaveProperty('error');
+    });
+
+    test('should reject a second approval from the same user', () => {
+        const approved = step({ requiredApprovals: 2, approvals: [{ userId: 'u-1', action: ApprovalAction.APPROVED, at: now.toISOString() }] });
+        expect(recordStepApproval(approved, 'u-1', ApprovalAction.APPROVED, undefined, now)).toHaveProperty('error');
+    });
+
+    test('should reject approvals on steps that are not yet active', () => {
+        expect(recordStepApproval(step({ status: ApprovalStepStatus.WAITING }), 'u-1', ApprovalAction.APPROVED, undefined, now)).toHaveProperty('error');
+    });
+});
+
+describe('canDecideStep', () => {
+    const opsStep = step({ approverRole: 'ops', escalateToRole: 'director' });
+
+    test('should let a listed approver who holds the step role decide', () => {
+        expect(canDecideStep(opsStep, { id: 'u-1', role: 'ops' })).toBe(true);
+        expect(canDecideStep(opsStep, { id: 'u-1', role: 'Ops' })).toBe(true);
+    });
+
+    test('should let escalation approvers with the escalation role decide', () => {
+        expect(canDecideStep(opsStep, { id: 'u-2', role: 'director' })).toBe(true);
+    });
+
+    test('should refuse a listed approver who no longer holds the role', () => {
+        expect(canDecideStep(opsStep, { id: 'u-1', role: 'installer' })).toBe(false);
+        expect(canDecideStep(opsStep, { id: 'u-1' })).toBe(false);
+    });
+
+    test('should let quote approvers decide any step they are listed on', () => {
+        expect(canDecideStep(step({ approverRole: 'ops' }), { id: 'u-1', role: 'general_manager' })).toBe(true);
+    });
+
+    test('should refuse users who are not listed on the step, whatever their role', () => {
+        expect(canDecideStep(opsStep, { id: 'u-9', role: 'director' })).toBe(false);
+    });
+
+    test('should refuse steps that are not pending', () => {
+        expect(canDecideStep(step({ status: ApprovalStepStatus.WAITING }), { id: 'u-1', role: 'director' })).toBe(false);
+    });
+
+    test('should open steps without a role to their named approvers', () => {
+        expect(canDecideStep(step(), { id: 'u-1', role: 'installer' })).toBe(true);
+    });
+});
+
+describe('isStepOverdue', () => {
+    test('should flag pending steps past their SLA', () => {
+        expect(isStepOverdue(step(), new Date('2025-03-02T09:00:00Z'))).toBe(true);
+        expect(isStepOverdue(step(), now)).toBe(false);
+    });
+
+    test('should ignore steps that are no longer pending', () => {
+        expect(isStepOverdue(step({ status: ApprovalStepStatus.APPROVED }), new Date('2025-03-05T00:00:00Z'))).toBe(false);
+    });
+});
+
+describe('parseApprovalConditions', () => {
+    test('should split conditions one per line', () => {
+        expect(parseApprovalConditions('Confirm access times\r\n\n  Add contingency  ')).toEqual([
+            'Confirm access times',
+            'Add contingency'
+        ]);
+    });
+
+    test('should return no conditions for empty input', () => {
+        expect(parseApprovalConditions(undefined)).toEqual([]);
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Test Suite for the SmartQuote v3 Client Portal
+ * Tests signature validation and what the client is allowed to see and do
+ */
+
+import { toPortalQuoteView, validateSignature } from '../../modules/smartquote-v3/services/clientPortalService';
+import { QuoteStatus } from '../../modules/smartquote-v3/types';
+
+const SIGNATURE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+type QuoteRow = Parameters<typeof toPortalQuoteView>[0];
+type AccessRow = Parameters<typeof toPortalQuoteView>[1];
+
+const quote = (overrides: Partial<QuoteRow> = {}): QuoteRow => ({
+    id: 'q-1',
+    quote_ref: 'Q-1001',
+    client_name: 'Acme Ltd',
+    project_name: 'Head Office Fit-out',
+    status: QuoteStatus.SENT,
+    products: [{ productCode: 'DESK-1600', description: 'Desk 1600mm', quantity: 12 }],
+    results: { profitability: { vatAmount: 2000, totalIncVat: 12000, isReverseCharge: false } },
+    total_amount: 10000,
+    valid_until: '2025-04-30',
+    expires_at: null,
+    client_viewed_at: null,
+    created_by: 'u-1',
+    deleted_at: null,
+    ...overrides
+});
+
+const access = (overrides: Partial<AccessRow> = {}): AccessRow => ({
+    id: 'a-1',
+    quote_id: 'q-1',
+    client_email: 'buyer@acme.test',
+    client_name: 'Jo Buyer',
+    can_approve: true,
+    can_request_changes: true,
+    expires_at: null,
+    access_count: 0,
+    ip_addresses: [],
+    signed_name: null,
+    signed_at: null,
+    revoked_at: null,
+    ...overrides
+});
+
+describe('validateSignature', () => {
+    test('should accept a typed name and PNG signature', () => {
+        expect(validateSignature('Jo Buyer', SIGNATURE)).toBeNull();
+    });
+
+    test('should require a name', () => {
+        expect(validateSignature(' ', SIGNATURE)).toBe('Please type your full name');
+    });
+
+    test('should reject anything that is not a PNG data URL', () => {
+        expect(validateSignature('Jo Buyer', '')).toBe('Please draw your signature');
+        expect(validateSignature('Jo Buyer', 'data:image/svg+xml;base64,PHN2Zz4=')).toBe('Please draw your signature');
+    });
+
+    test('should reject oversized signatures', () => {
+        expect(validateSignature('Jo Buyer', `data:image/png;base64,${'A'.repeat(300 * 1024)}`)).toBe('Signature image is too large');
+    });
+});
+
+describe('toPortalQuoteView', () => {
+    test('should show line items and client-facing totals only', () => {
+        const view = toPortalQuoteView(quote(), access());
+
+        expect(view.lines).toEqual([{ productCode: 'DESK-1600', description: 'Desk 1600mm', quantity: 12 }]);
+        expect(view.totalExVat).toBe(10000);
+        expect(view.totalIncVat).toBe(12000);
+        expect(view).not.toHaveProperty('profitability');
+    });
+
+    test('should allow responses while the quote is open', () => {
+        const view = toPortalQuoteView(quote({ status: QuoteStatus.NEGOTIATING }), access());
+        expect(view.canAccept).toBe(true);
+        expect(view.canRequestChanges).toBe(true);
+    });
+
+    test('should not allow responses once the quote is closed or signed', () => {
+        expect(toPortalQuoteView(quote({ status: QuoteStatus.EXPIRED }), access()).canAccept).toBe(false);
+
+        const signed = toPortalQuoteView(quote(), access({ signed_name: 'Jo Buyer', signed_at: '2025-03-10T10:00:00Z' }));
+        expect(signed.canAccept).toBe(false);
+        expect(signed.canRequestChanges).toBe(false);
+        expect(signed.signedName).toBe('Jo Buyer');
+    });
+
+    test('should respect link permissions', () => {
+        const view = toPortalQuoteView(quote(), access({ can_approve: false }));
+        expect(view.canAccept).toBe(false);
+        expect(view.canRequestChanges).toBe(true);
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * Test Suite for SmartQuote Logistics
+ * Tests postcode handling, charging zone lookup, the journey lookup, the
+ * mileage and zone charges calculateAll adds to pricing and the profitability
+ * block those charges pass through
+ */
+
+import {
+    calculateAll,
+    FAIR_MARGIN_PERCENT,
+    LOW_MARGIN_PERCENT,
+    rateMargin
+} from '../../modules/smartquote/services/calculationService';
+import { getDefaultConfig } from '../../modules/smartquote/services/configService';
+import {
+    extractPostcode,
+    fetchJourneyMiles,
+    findChargingZones,
+    getPostcodeDistrict
+} from '../../modules/smartquote/services/logisticsService';
+import { CalculatedProduct, PricingAdjuster, QuoteDetails } from '../../modules/smartquote/types';
+
+const config = getDefaultConfig();
+
+const details = (overrides: Partial<QuoteDetails> = {}): QuoteDetails => ({
+    quoteRef: 'LOG-1',
+    client: 'Client',
+    project: 'Project',
+    deliveryAddress: '1 High Street\nManchester\nM1 1AA',
+    preparedBy: '',
+    upliftViaStairs: false,
+    extendedUplift: false,
+    specialistReworking: false,
+    ...overrides
+});
+
+const products: CalculatedProduct[] = [{
+    lineNumber: 1,
+    productCode: 'DESK',
+    rawDescription: 'Desk',
+    cleanDescription: 'Desk',
+    description: 'Desk',
+    quantity: 20,
+    timePerUnit: 1,
+    totalTime: 20,
+    wastePerUnit: 0.035,
+    totalWaste: 0.7,
+    isHeavy: false,
+    isManuallyEdited: false,
+    source: 'catalogue'
+}];
+
+describe('postcodes', () => {
+    test('should take the last postcode in the address', () => {
+        expect(extractPostcode('Unit 4, EC1A 1BB Works\nLondon\nse14aa')).toBe('SE1 4AA');
+        expect(extractPostcode('No postcode here')).toBeNull();
+    });
+
+    test('should reduce postcodes to their district', () => {
+        expect(getPostcodeDistrict('EC1A 1BB')).toBe('EC1');
+        expect(getPostcodeDistrict('SW1A 2AA')).toBe('SW1');
+        expect(getPostcodeDistrict('B15 2TT')).toBe('B15');
+    });
+
+    test('should find zones by district or whole area', () => {
+        const zones = config.logistics.chargingZones;
+        expect(findChargingZones('SE1 4AA', zones).map(zone => zone.id)).toEqual(['london-ulez', 'london-ccz']);
+        expect(findChargingZones('B15 2TT', zones).map(zone => zone.id)).toEqual(['birmingham-caz']);
+        expect(findChargingZones('M1 1AA', zones)).toEqual([]);
+    });
+});
+
+describe('fetchJourneyMiles', () => {
+    const respond = (body: object) => {
+        global.fetch = jest.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(body) })) as unknown as typeof fetch;
+    };
+
+    test('should report legs the lookup could not measure', async () => {
+        respond({
+            totalDistance: 40,
+            totalTravelTime: 60,
+            warnings: ['Could not calculate distance from Installation Site to BHIT Base'],
+            missingLegs: ['Installation Site to BHIT Base']
+        });
+
+        const journey = await fetchJourneyMiles('M1 1AA', config.logistics);
+        expect(journey.totalDistance).toBe(40);
+        expect(journey.missingLegs).toEqual(['Installation Site to BHIT Base']);
+    });
+
+    test('should treat a missing leg list as a complete journey', async () => {
+        respond({ totalDistance: 80, totalTravelTime: 120 });
+
+        const journey = await fetchJourneyMiles('M1 1AA', config.logistics);
+        expect(journey).toEqual({ totalDistance: 80, totalTravelTime: 120, warnings: [], missingLegs: [] });
+    });
+
+    test('should throw when the lookup fails', async () => {
+        global.fetch = jest.fn(() => Promise.resolve({ ok: false, status: 500 })) as unknown as typeof fetch;
+        await expect(fetchJourneyMiles('M1 1AA', config.logistics)).rejects.toThrow('Logistics lookup failed (500)');
+    });
+});
+
+describe('calculateAll logistics', () => {
+    test('should charge mileage for every van on every billable day', () => {
+        const { crew, pricing } = calculateAll(products, details({ journeyMiles: 100 }), config);
+        const pencePerMile = crew.isTwoManVanRequired ? config.logistics.twoManVanPencePerMile : config.logistics.oneManVanPencePerMile;
+
+        expect(crew.vanCount).toBeGreaterThan(0);
+        expect(pricing.mileageCost).toBeCloseTo(crew.vanCount * 100 * pencePerMile / 100 * pricing.billableDays);
+        expect(pricing.clearZoneCost).toBe(0);
+    });
+
+    test('should add selected vehicles to mileage and zone charges', () => {
+        const withoutVehicles = calculateAll(products, details({ journeyMiles: 50, deliveryAddress: 'SE1 4AA' }), config);
+        const withVehicles = calculateAll(products, details({ journeyMiles: 50, deliveryAddress: 'SE1 4AA', selectedVehicles: { 'luton-van': 1 } }), config);
+        const days = withVehicles.pricing.billableDays;
+
+        expect(withVehicles.pricing.mileageCost - withoutVehicles.pricing.mileageCost).toBeCloseTo(50 * 0.65 * days);
+        // ULEZ and Congestion Charge for each van plus the Luton
+        expect(withVehicles.pricing.clearZoneCost).toBeCloseTo((12.5 + 15) * (withVehicles.crew.vanCount + 1) * days);
+    });
+
+    test('should describe the charges in the quote notes', () => {
+        const { notes, pricing } = calculateAll(products, details({ journeyMiles: 42, deliveryAddress: 'B15 2TT' }), config);
+
+        expect(notes.mileage).toContain('42 mile round trip from SE1 4AA');
+        expect(notes.ulez).toBe(`B15 2TT is within Birmingham Clean Air Zone (£8.00/vehicle/day): £${pricing.clearZoneCost.toFixed(2)} applied.`);
+    });
+});
+
+describe('calculateAll profitability', () => {
+    // A rule discount taking the given share of the subtotal off the sell price
+    const discount = (percent: number): PricingAdjuster => ({ subtotal }) => [{
+        ruleId: 'discount',
+        label: `${percent}% off`,
+        amount: -subtotal * percent / 100,
+        percentOfSubtotal: -percent
+    }];
+
+    test('should report margins on a normally priced quote', () => {
+        const { profitability, pricing } = calculateAll(products, details({ journeyMiles: 100 }), config);
+
+        expect(profitability!.sellExVat).toBe(pricing.totalCost);
+        expect(profitability!.directCost).toBeCloseTo(profitability!.lines.reduce((sum, line) => sum + line.cost, 0));
+        expect(profitability!.grossMargin).toBeCloseTo(pricing.totalCost - profitability!.directCost);
+        expect(profitability!.netMargin).toBeCloseTo(profitability!.grossMargin - profitability!.overheadRecovery);
+        // Mileage is passed through at cost
+        expect(profitability!.lines.find(line => line.label === 'Mileage')!.margin).toBe(0);
+    });
+
+    test('should report zero percentages rather than dividing by zero revenue', () => {
+        const { profitability } = calculateAll(products, details(), config, [discount(100)]);
+
+        expect(profitability!.sellExVat).toBe(0);
+        expect(profitability!.grossMargin).toBeCloseTo(-profitability!.directCost);
+        expect(profitability!.grossMarginPercent).toBe(0);
+        expect(profitability!.netMarginPercent).toBe(0);
+        expect(profitability!.vatAmount).toBe(0);
+        expect(profitability!.totalIncVat).toBe(0);
+        expect(profitability!.lines.every(line => Number.isFinite(line.marginPercent))).toBe(true);
+    });
+
+    test('should report a negative margin when discounts take the price below cost', () => {
+        const { profitability } = calculateAll(products, details(), config, [discount(90)]);
+
+        expect(profitability!.sellExVat).toBeGreaterThan(0);
+        expect(profitability!.grossMargin).toBeLessThan(0);
+        expect(profitability!.grossMarginPercent).toBeLessThan(0);
+        expect(profitability!.netMargin).toBeLessThan(profitability!.grossMargin);
+        expect(profitability!.lines.find(line => line.label === 'Pricing Rule Adjustments')!.sell).toBeLessThan(0);
+        expect(rateMargin(profitability!.grossMarginPercent)).toBe('low');
+    });
+
+    test('should rate margins against the colouring thresholds', () => {
+        expect(rateMargin(-20)).toBe('low');
+        expect(rateMargin(LOW_MARGIN_PERCENT - 0.1)).toBe('low');
+        expect(rateMargin(LOW_MARGIN_PERCENT)).toBe('fair');
+        expect(rateMargin(FAIR_MARGIN_PERCENT - 0.1)).toBe('fair');
+        expect(rateMargin(FAIR_MARGIN_PERCENT)).toBe('healthy');
+        expect(rateMargin(60)).toBe('healthy');
+    });
+});
@@ -0,0 +1,273 @@
+/**
+ * @jest-environment node
+ *
+ * Test Suite for SmartQuote v3 Notification Delivery
+ * Tests outbox scheduling rules and the channel adapters against a local
+ * SMTP catcher and HTTP stub (no external services are contacted)
+ */
+
+import { createECDH, randomBytes } from 'crypto';
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+
+import webpush from 'web-push';
+
+import {
+    OutboundNotification,
+    SmtpChannelAdapter,
+    WebhookChannelAdapter,
+    WebPushChannelAdapter
+} from '../../modules/smartquote-v3/services/notificationChannels';
+import {
+    decideDelivery,
+    getQuietHoursEnd,
+    getRetryDelayMs,
+    parsePushSubscription
+} from '../../modules/smartquote-v3/services/notificationOutboxService';
+import {
+    NotificationChannel,
+    NotificationPreferences,
+    NotificationPriority,
+    NotificationType
+} from '../../modules/smartquote-v3/types';
+
+const preferences: NotificationPreferences = {
+    approvalRequests: true,
+    mentions: true,
+    statusChanges: false,
+    quoteViewed: true,
+    wonLost: true,
+    expiring: true,
+    channels: { email: true, push: false },
+    quietHours: { enabled: true, start: '22:00', end: '07:00', timezone: 'Europe/London' }
+};
+
+const notification: OutboundNotification = {
+    id: 'n-1',
+    type: NotificationType.APPROVAL_REQUEST,
+    title: 'Approval requested: Q-1001',
+    message: 'Acme Ltd - £12,500',
+    actionUrl: '/smartquote-v3/q-1',
+    actionLabel: 'Review Quote',
+    priority: NotificationPriority.HIGH
+};
+
+// Minimal SMTP catcher: accepts one session and records the DATA block
+const startSmtpCatcher = () => new Promise<{ port: number; messages: string[]; close: () => void }>((resolve) => {
+    const messages: string[] = [];
+    const server = net.createServer((socket) => {
+        let inData = false;
+        let buffer = '';
+        socket.write('220 localhost test catcher\r\n');
+        socket.on('data', (chunk) => {
+            buffer += chunk.toString();
+            let index: number;
+            while ((index = buffer.indexOf('\r\n')) >= 0) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                if (inData) {
+                    if (line === '.') {
+                        inData = false;
+                        socket.write('250 OK queued\r\n');
+                    } else {
+                        messages[messages.length - 1] += `${line}\n`;
+                    }
+                } else if (/^(EHLO|HELO)/i.test(line)) {
+                    socket.write('250 localhost\r\n');
+                } else if (/^DATA/i.test(line)) {
+                    inData = true;
+                    messages.push('');
+                    socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+                } else if (/^QUIT/i.test(line)) {
+                    socket.end('221 Bye\r\n');
+                } else {
+                    socket.write('250 OK\r\n');
+                }
+            }
+        });
+    });
+    server.listen(0, '127.0.0.1', () => {
+        resolve({ port: (server.address() as AddressInfo).port, messages, close: () => server.close() });
+    });
+});
+
+// HTTP stub that records every request and answers with a fixed status
+const startHttpStub = (status: number) => new Promise<{ url: string; requests: Array<{ headers: http.IncomingHttpHeaders; body: Buffer }>; close: () => void }>((resolve) => {
+    const requests: Array<{ headers: http.IncomingHttpHeaders; body: Buffer }> = [];
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+            requests.push({ headers: req.headers, body: Buffer.concat(chunks) });
+            res.writeHead(status).end();
+        });
+    });
+    server.listen(0, '127.0.0.1', () => {
+        resolve({ url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`, requests, close: () => server.close() });
+    });
+});
+
+describe('decideDelivery', () => {
+    const middayUk = new Date('2025-06-10T11:00:00Z');
+    const lateEveningUk = new Date('2025-06-10T22:30:00Z'); // 23:30 BST
+
+    test('should send when the user has no preferences', () => {
+        expect(decideDelivery(NotificationType.STATUS_CHANGE, NotificationPriority.NORMAL, NotificationChannel.EMAIL, null, lateEveningUk))
+            .toEqual({ action: 'send' });
+    });
+
+    test('should suppress notification types the user has turned off', () => {
+        const decision = decideDelivery(NotificationType.STATUS_CHANGE, NotificationPriority.NORMAL, NotificationChannel.EMAIL, preferences, middayUk);
+        expect(decision.action).toBe('suppress');
+    });
+
+    test('should suppress channels the user has turned off', () => {
+        const decision = decideDelivery(NotificationType.APPROVAL_REQUEST, NotificationPriority.HIGH, NotificationChannel.PUSH, preferences, middayUk);
+        expect(decision.action).toBe('suppress');
+    });
+
+    test('should default missing channels to on', () => {
+        const decision = decideDelivery(NotificationType.APPROVAL_REQUEST, NotificationPriority.HIGH, NotificationChannel.WEBHOOK, preferences, middayUk);
+        expect(decision).toEqual({ action: 'send' });
+    });
+
+    test('should defer to the end of quiet hours', () => {
+        const decision = decideDelivery(NotificationType.APPROVAL_REQUEST, NotificationPriority.HIGH, NotificationChannel.EMAIL, preferences, lateEveningUk);
+        // 07:00 BST the next morning
+        expect(decision).toEqual({ action: 'defer', until: new Date('2025-06-11T06:00:00Z') });
+    });
+
+    test('should let urgent notifications through quiet hours', () => {
+        const decision = decideDelivery(NotificationType.APPROVAL_REQUEST, NotificationPriority.URGENT, NotificationChannel.EMAIL, preferences, lateEveningUk);
+        expect(decision).toEqual({ action: 'send' });
+    });
+});
+
+describe('getQuietHoursEnd', () => {
+    test('should handle same-day windows', () => {
+        const quietHours = { enabled: true, start: '12:00', end: '14:00', timezone: 'UTC' };
+        expect(getQuietHoursEnd(quietHours, new Date('2025-01-10T13:15:00Z'))).toEqual(new Date('2025-01-10T14:00:00Z'));
+        expect(getQuietHoursEnd(quietHours, new Date('2025-01-10T14:00:00Z'))).toBeNull();
+    });
+
+    test('should ignore disabled quiet hours', () => {
+        expect(getQuietHoursEnd({ enabled: false, start: '00:00', end: '23:59' }, new Date())).toBeNull();
+    });
+});
+
+describe('getRetryDelayMs', () => {
+    test('should back off exponentially and cap at six hours', () => {
+        expect(getRetryDelayMs(1)).toBe(60 * 1000);
+        expect(getRetryDelayMs(2)).toBe(2 * 60 * 1000);
+        expect(getRetryDelayMs(4)).toBe(8 * 60 * 1000);
+        expect(getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+    });
+});
+
+describe('parsePushSubscription', () => {
+    test('should read stored subscriptions and skip anything else', () => {
+        const subscription = { endpoint: 'https://push.example.com/abc', keys: { p256dh: 'p', auth: 'a' } };
+        expect(parsePushSubscription(JSON.stringify(subscription))).toEqual(subscription);
+        expect(parsePushSubscription('fcm-token')).toBeNull();
+        expect(parsePushSubscription('{"keys":{}}')).toBeNull();
+        expect(parsePushSubscription(null)).toBeNull();
+    });
+});
+
+describe('SmtpChannelAdapter', () => {
+    test('should deliver to a local SMTP catcher', async () => {
+        const catcher = await startSmtpCatcher();
+        try {
+            const adapter = new SmtpChannelAdapter({ host: '127.0.0.1', port: catcher.port, secure: false, from: 'test@bhit.local' });
+            await adapter.send(notification, { userId: 'u-1', email: 'approver@example.com', pushSubscriptions: [] });
+
+            expect(catcher.messages).toHaveLength(1);
+            expect(catcher.messages[0]).toContain('Subject: Approval requested: Q-1001');
+            expect(catcher.messages[0]).toContain('To: approver@example.com');
+        } finally {
+            catcher.close();
+        }
+    });
+
+    test('should not deliver without an email address', () => {
+        const adapter = new SmtpChannelAdapter({ host: '127.0.0.1', port: 1025, from: 'test@bhit.local' });
+        expect(adapter.canDeliver({ userId: 'u-1', pushSubscriptions: [] })).toBe(false);
+    });
+});
+
+describe('WebhookChannelAdapter', () => {
+    test('should POST a signed payload to the configured webhook', async () => {
+        const stub = await startHttpStub(204);
+        try {
+            const adapter = new WebhookChannelAdapter({ url: stub.url, secret: 'shh' });
+            await adapter.send(notification, { userId: 'u-1', pushSubscriptions: [] });
+
+            expect(stub.requests).toHaveLength(1);
+            const body = JSON.parse(stub.requests[0].body.toString());
+            expect(body.notification.id).toBe('n-1');
+            expect(stub.requests[0].headers['x-bhit-signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+        } finally {
+            stub.close();
+        }
+    });
+
+    test('should throw on a non-2xx response so the outbox retries', async () => {
+        const stub = await startHttpStub(503);
+        try {
+            const adapter = new WebhookChannelAdapter({ url: stub.url });
+            await expect(adapter.send(notification, { userId: 'u-1', pushSubscriptions: [] })).rejects.toThrow('503');
+        } finally {
+            stub.close();
+        }
+    });
+
+    test('should not deliver without a configured webhook', () => {
+        expect(new WebhookChannelAdapter({}).canDeliver()).toBe(false);
+    });
+});
+
+describe('WebPushChannelAdapter', () => {
+    const vapid = webpush.generateVAPIDKeys();
+    const makeSubscription = (endpoint: string) => {
+        const ecdh = createECDH('prime256v1');
+        ecdh.generateKeys();
+        return {
+            endpoint,
+            keys: {
+                p256dh: ecdh.getPublicKey().toString('base64url'),
+                auth: randomBytes(16).toString('base64url')
+            }
+        };
+    };
+
+    test('should send an encrypted push to the subscription endpoint', async () => {
+        const stub = await startHttpStub(201);
+        try {
+            const adapter = new WebPushChannelAdapter({ ...vapid, subject: 'mailto:test@bhit.local' });
+            await adapter.send(notification, { userId: 'u-1', pushSubscriptions: [makeSubscription(stub.url)] });
+
+            expect(stub.requests).toHaveLength(1);
+            expect(stub.requests[0].headers['content-encoding']).toBe('aes128gcm');
+        } finally {
+            stub.close();
+        }
+    });
+
+    test('should report expired subscriptions instead of failing', async () => {
+        const stub = await startHttpStub(410);
+        const expired: string[] = [];
+        try {
+            const adapter = new WebPushChannelAdapter({
+                ...vapid,
+                subject: 'mailto:test@bhit.local',
+                onExpiredSubscription: async (endpoint) => { expired.push(endpoint); }
+            });
+            await adapter.send(notification, { userId: 'u-1', pushSubscriptions: [makeSubscription(stub.url)] });
+
+            expect(expired).toEqual([stub.url]);
+        } finally {
+            stub.close();
+        }
+    });
+});
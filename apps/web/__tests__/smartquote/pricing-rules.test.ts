@@ -0,0 +1,187 @@
+/**
+ * Test Suite for SmartQuote Pricing Rules
+ * Tests rule matching and precedence in the shared pricing rule engine
+ */
+
+import {
+    createPricingRuleAdjuster,
+    evaluatePricingRules,
+    mapPricingRule,
+    PricingRuleContext
+} from '../../modules/smartquote-v3/services/pricingRulesService';
+import { PricingRule, PricingRuleType } from '../../modules/smartquote-v3/types';
+
+// Wednesday 15 January 2025
+const WEDNESDAY = new Date('2025-01-15T10:00:00Z');
+
+const makeRule = (overrides: Partial<PricingRule>): PricingRule => ({
+    id: 'rule',
+    name: 'Rule',
+    ruleType: PricingRuleType.VOLUME_DISCOUNT,
+    conditions: {},
+    action: {},
+    priority: 100,
+    isStackable: false,
+    isActive: true,
+    currentUses: 0,
+    requiresApproval: false,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides
+});
+
+const context: PricingRuleContext = {
+    subtotal: 1000,
+    products: [
+        { productCode: 'FLX-6P', quantity: 10 },
+        { productCode: 'CHAIR', quantity: 20 }
+    ],
+    clientId: 'client-1',
+    date: WEDNESDAY
+};
+
+describe('evaluatePricingRules', () => {
+    describe('conditions', () => {
+        test('should ignore rules below minTotal', () => {
+            const rule = makeRule({ conditions: { minTotal: 5000 }, action: { discountPercent: 10 } });
+            expect(evaluatePricingRules([rule], context).applied).toHaveLength(0);
+        });
+
+        test('should match product codes regardless of punctuation and case', () => {
+            const rule = makeRule({ conditions: { productCodes: ['flx 6p'] }, action: { discountAmount: 50 } });
+            expect(evaluatePricingRules([rule], context).finalAmount).toBe(950);
+        });
+
+        test('should respect dayOfWeek', () => {
+            const weekend = makeRule({ id: 'weekend', conditions: { dayOfWeek: [0, 6] }, action: { discountPercent: 10 } });
+            const midweek = makeRule({ id: 'midweek', conditions: { dayOfWeek: [3] }, action: { discountPercent: 5 } });
+
+            const result = evaluatePricingRules([weekend, midweek], context);
+            expect(result.applied.map(a => a.rule.id)).toEqual(['midweek']);
+        });
+
+        test('should ignore inactive and used-up rules', () => {
+            const inactive = makeRule({ id: 'inactive', isActive: false, action: { discountPercent: 10 } });
+            const usedUp = makeRule({ id: 'used', maxUses: 5, currentUses: 5, action: { discountPercent: 10 } });
+            expect(evaluatePricingRules([inactive, usedUp], context).finalAmount).toBe(1000);
+        });
+
+        test('should treat the date range end as inclusive', () => {
+            const rule = makeRule({
+                conditions: { dateRange: { start: new Date('2025-01-01'), end: new Date('2025-01-15') } },
+                action: { discountPercent: 10 }
+            });
+            expect(evaluatePricingRules([rule], context).finalAmount).toBe(900);
+        });
+    });
+
+    describe('precedence', () => {
+        test('should compound stackable discounts in priority order', () => {
+            const first = makeRule({ id: 'a', priority: 1, isStackable: true, action: { discountPercent: 10 } });
+            const second = makeRule({ id: 'b', priority: 2, isStackable: true, action: { discountAmount: 100 } });
+
+            const result = evaluatePricingRules([second, first], context);
+            // 1000 - 10% = 900, then - 100 = 800
+            expect(result.applied.map(a => a.rule.id)).toEqual(['a', 'b']);
+            expect(result.finalAmount).toBe(800);
+        });
+
+        test('should replace stacked discounts with a larger non-stackable discount', () => {
+            const stackA = makeRule({ id: 'a', priority: 1, isStackable: true, action: { discountPercent: 5 } });
+            const stackB = makeRule({ id: 'b', priority: 2, isStackable: true, action: { discountPercent: 5 } });
+            const exclusive = makeRule({ id: 'c', priority: 3, action: { discountPercent: 15 } });
+
+            const result = evaluatePricingRules([stackA, stackB, exclusive], context);
+            expect(result.applied.map(a => a.rule.id)).toEqual(['c']);
+            expect(result.finalAmount).toBe(850);
+        });
+
+        test('should keep stacked discounts when a non-stackable discount is smaller', () => {
+            const stackA = makeRule({ id: 'a', priority: 1, isStackable: true, action: { discountPercent: 10 } });
+            const exclusive = makeRule({ id: 'c', priority: 2, action: { discountPercent: 5 } });
+
+            const result = evaluatePricingRules([stackA, exclusive], context);
+            expect(result.applied.map(a => a.rule.id)).toEqual(['a']);
+            expect(result.finalAmount).toBe(900);
+        });
+
+        test('should block later stackable discounts once a non-stackable discount wins', () => {
+            const exclusive = makeRule({ id: 'c', priority: 1, action: { discountPercent: 10 } });
+            const stack = makeRule({ id: 'a', priority: 2, isStackable: true, action: { discountPercent: 5 } });
+
+            const result = evaluatePricingRules([exclusive, stack], context);
+            expect(result.applied.map(a => a.rule.id)).toEqual(['c']);
+        });
+
+        test('should skip rules excluded by a rule in force, in either direction', () => {
+            const loyalty = makeRule({ id: 'loyalty', priority: 1, isStackable: true, excludesRuleIds: ['seasonal'], action: { discountPercent: 5 } });
+            const seasonal = makeRule({ id: 'seasonal', priority: 2, isStackable: true, action: { discountPercent: 5 } });
+            const bundle = makeRule({ id: 'bundle', priority: 3, isStackable: true, action: { discountPercent: 5 } });
+
+            const result = evaluatePricingRules([loyalty, seasonal, bundle], context);
+            expect(result.applied.map(a => a.rule.id)).toEqual(['loyalty', 'bundle']);
+        });
+
+        test('should apply markups after discounts', () => {
+            const markup = makeRule({ id: 'm', priority: 1, ruleType: PricingRuleType.MARKUP, action: { markupPercent: 10 } });
+            const discount = makeRule({ id: 'd', priority: 2, isStackable: true, action: { discountAmount: 200 } });
+
+            const result = evaluatePricingRules([markup, discount], context);
+            // 1000 - 200 = 800, then + 10% = 880
+            expect(result.applied.map(a => a.rule.id)).toEqual(['d', 'm']);
+            expect(result.finalAmount).toBeCloseTo(880);
+        });
+    });
+});
+
+describe('createPricingRuleAdjuster', () => {
+    test('should produce signed adjustment lines for calculateAll', () => {
+        const adjuster = createPricingRuleAdjuster([
+            makeRule({ id: 'vol', name: 'Volume Discount', action: { discountPercent: 10 } })
+        ], { clientId: 'client-1' });
+
+        const adjustments = adjuster({
+            products: [],
+            details: {} as any,
+            subtotal: 1000,
+            evaluationDate: WEDNESDAY
+        });
+
+        expect(adjustments).toEqual([
+            { ruleId: 'vol', label: 'Volume Discount', amount: -100, percentOfSubtotal: -10 }
+        ]);
+    });
+
+    test('should apply a client-scoped rule only for that client', () => {
+        const rules = [makeRule({ id: 'acme', name: 'Acme Rate', conditions: { clientId: 'client-1' }, action: { discountPercent: 5 } })];
+        const adjustmentContext = { products: [], details: {} as any, subtotal: 1000, evaluationDate: WEDNESDAY };
+
+        expect(createPricingRuleAdjuster(rules, { clientId: 'client-1' })(adjustmentContext)).toEqual([
+            { ruleId: 'acme', label: 'Acme Rate', amount: -50, percentOfSubtotal: -5 }
+        ]);
+        expect(createPricingRuleAdjuster(rules, { clientId: 'client-2' })(adjustmentContext)).toEqual([]);
+        expect(createPricingRuleAdjuster(rules)(adjustmentContext)).toEqual([]);
+    });
+});
+
+describe('mapPricingRule', () => {
+    test('should map snake_case rows and condition keys', () => {
+        const rule = mapPricingRule({
+            id: 'r1',
+            name: 'Big orders',
+            rule_type: 'volume_discount',
+            conditions: { min_total: 5000, product_codes: ['FLX-6P'] },
+            action: { discount_percent: 5 },
+            priority: 10,
+            is_stackable: true,
+            is_active: true,
+            current_uses: 2
+        });
+
+        expect(rule.conditions.minTotal).toBe(5000);
+        expect(rule.conditions.productCodes).toEqual(['FLX-6P']);
+        expect(rule.action.discountPercent).toBe(5);
+        expect(rule.isStackable).toBe(true);
+        expect(rule.currentUses).toBe(2);
+    });
+});
@@ -0,0 +1,80 @@
+/**
+ * Test Suite for the SmartQuote v3 Quote Expiry Sweeper
+ * Tests expiry dates, follow-up scheduling and settings parsing
+ */
+
+import {
+    DEFAULT_SWEEP_SETTINGS,
+    getDueFollowUpDay,
+    getQuoteExpiry,
+    parseSweepSettings,
+    SweepQuote
+} from '../../modules/smartquote-v3/services/quoteExpiryService';
+import { QuoteStatus } from '../../modules/smartquote-v3/types';
+
+const sentQuote = (overrides: Partial<SweepQuote> = {}): SweepQuote => ({
+    id: 'q-1',
+    quote_ref: 'Q-1001',
+    client_name: 'Acme Ltd',
+    status: QuoteStatus.SENT,
+    created_by: 'u-1',
+    sent_to_client_at: '2025-03-01T09:00:00Z',
+    expires_at: null,
+    valid_until: null,
+    ...overrides
+});
+
+describe('getQuoteExpiry', () => {
+    test('should prefer expires_at', () => {
+        const quote = sentQuote({ expires_at: '2025-03-10T12:00:00Z', valid_until: '2025-04-01' });
+        expect(getQuoteExpiry(quote, DEFAULT_SWEEP_SETTINGS)).toEqual(new Date('2025-03-10T12:00:00Z'));
+    });
+
+    test('should run to the end of valid_until', () => {
+        const quote = sentQuote({ valid_until: '2025-03-20' });
+        expect(getQuoteExpiry(quote, DEFAULT_SWEEP_SETTINGS)).toEqual(new Date('2025-03-21T00:00:00Z'));
+    });
+
+    test('should fall back to the default expiry after sending', () => {
+        expect(getQuoteExpiry(sentQuote(), DEFAULT_SWEEP_SETTINGS)).toEqual(new Date('2025-03-31T09:00:00Z'));
+    });
+
+    test('should not expire quotes that were never sent', () => {
+        expect(getQuoteExpiry(sentQuote({ sent_to_client_at: null }), DEFAULT_SWEEP_SETTINGS)).toBeNull();
+    });
+});
+
+describe('getDueFollowUpDay', () => {
+    test('should not raise a follow-up before the first interval', () => {
+        expect(getDueFollowUpDay(sentQuote(), DEFAULT_SWEEP_SETTINGS, new Date('2025-03-07T09:00:00Z'))).toBeNull();
+    });
+
+    test('should return the latest interval that has come due', () => {
+        expect(getDueFollowUpDay(sentQuote(), DEFAULT_SWEEP_SETTINGS, new Date('2025-03-08T09:00:00Z'))).toBe(7);
+        expect(getDueFollowUpDay(sentQuote(), DEFAULT_SWEEP_SETTINGS, new Date('2025-03-20T09:00:00Z'))).toBe(14);
+    });
+
+    test('should skip intervals that fall after the quote expires', () => {
+        const quote = sentQuote({ expires_at: '2025-03-12T00:00:00Z' });
+        expect(getDueFollowUpDay(quote, DEFAULT_SWEEP_SETTINGS, new Date('2025-03-11T09:00:00Z'))).toBe(7);
+        expect(getDueFollowUpDay(quote, { ...DEFAULT_SWEEP_SETTINGS, followUpDays: [14] }, new Date('2025-03-11T09:00:00Z'))).toBeNull();
+    });
+
+    test('should ignore quotes that are no longer open', () => {
+        const quote = sentQuote({ status: QuoteStatus.WON });
+        expect(getDueFollowUpDay(quote, DEFAULT_SWEEP_SETTINGS, new Date('2025-03-20T09:00:00Z'))).toBeNull();
+    });
+});
+
+describe('parseSweepSettings', () => {
+    test('should read JSONB and string values', () => {
+        expect(parseSweepSettings([
+            { key: 'quote_expiry_days', value: 45 },
+            { key: 'auto_follow_up_days', value: '[10, 3]' }
+        ])).toEqual({ expiryDays: 45, followUpDays: [3, 10] });
+    });
+
+    test('should keep defaults for missing or invalid values', () => {
+        expect(parseSweepSettings([{ key: 'quote_expiry_days', value: 'soon' }])).toEqual(DEFAULT_SWEEP_SETTINGS);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * Test Suite for the SmartQuote Work Calendar
+ * Tests bank holiday rules, laying working days out from a start date and
+ * pricing out-of-hours days in calculateAll
+ */
+
+import { calculateAll } from '../../modules/smartquote/services/calculationService';
+import { getDefaultConfig } from '../../modules/smartquote/services/configService';
+import {
+    buildWorkCalendar,
+    countDaysByType,
+    easterSunday,
+    getBankHolidayRegion,
+    getBankHolidays
+} from '../../modules/smartquote/services/workCalendarService';
+import { CalculatedProduct, QuoteDetails } from '../../modules/smartquote/types';
+
+const config = getDefaultConfig();
+
+const details = (overrides: Partial<QuoteDetails> = {}): QuoteDetails => ({
+    quoteRef: 'OOH-1',
+    client: 'Client',
+    project: 'Project',
+    deliveryAddress: 'M1 1AA',
+    preparedBy: '',
+    upliftViaStairs: false,
+    extendedUplift: false,
+    specialistReworking: false,
+    ...overrides
+});
+
+const products: CalculatedProduct[] = [{
+    lineNumber: 1,
+    productCode: 'DESK',
+    rawDescription: 'Desk',
+    cleanDescription: 'Desk',
+    description: 'Desk',
+    quantity: 40,
+    timePerUnit: 1,
+    totalTime: 40,
+    wastePerUnit: 0.035,
+    totalWaste: 1.4,
+    isHeavy: false,
+    isManuallyEdited: false,
+    source: 'catalogue'
+}];
+
+describe('getBankHolidays', () => {
+    test('should find Easter for any year', () => {
+        expect(easterSunday(2025).toISOString().slice(0, 10)).toBe('2025-04-20');
+        expect(easterSunday(2038).toISOString().slice(0, 10)).toBe('2038-04-25');
+        expect(easterSunday(2285).toISOString().slice(0, 10)).toBe('2285-03-22');
+    });
+
+    test('should match the published England and Wales dates', () => {
+        expect(getBankHolidays(2026, 'england-and-wales')).toEqual([
+            { date: '2026-01-01', name: "New Year's Day" },
+            { date: '2026-04-03', name: 'Good Friday' },
+            { date: '2026-04-06', name: 'Easter Monday' },
+            { date: '2026-05-04', name: 'Early May bank holiday' },
+            { date: '2026-05-25', name: 'Spring bank holiday' },
+            { date: '2026-08-31', name: 'Summer bank holiday' },
+            { date: '2026-12-25', name: 'Christmas Day' },
+            { date: '2026-12-28', name: 'Boxing Day (substitute day)' },
+        ]);
+    });
+
+    test('should substitute weekend holidays onto the next free weekday', () => {
+        // Christmas on a Saturday moves both days; on a Sunday, Boxing Day keeps the Monday
+        expect(getBankHolidays(2027, 'england-and-wales').slice(-2).map(holiday => holiday.date)).toEqual(['2027-12-27', '2027-12-28']);
+        expect(getBankHolidays(2033, 'england-and-wales').slice(-2)).toEqual([
+            { date: '2033-12-26', name: 'Boxing Day' },
+            { date: '2033-12-27', name: 'Christmas Day (substitute day)' },
+        ]);
+        expect(getBankHolidays(2028, 'scotland').slice(0, 2).map(holiday => holiday.date)).toEqual(['2028-01-03', '2028-01-04']);
+    });
+
+    test('should apply Scottish and Northern Irish holidays', () => {
+        const scotland = getBankHolidays(2025, 'scotland').map(holiday => holiday.date);
+        expect(scotland).toContain('2025-01-02');
+        expect(scotland).toContain('2025-08-04');
+        expect(scotland).toContain('2025-12-01');
+        expect(scotland).not.toContain('2025-04-21');
+
+        const northernIreland = getBankHolidays(2025, 'northern-ireland').map(holiday => holiday.date);
+        expect(northernIreland).toContain('2025-03-17');
+        expect(northernIreland).toContain('2025-07-14');
+        expect(northernIreland).toContain('2025-04-21');
+    });
+
+    test('should pick the region from the site postcode', () => {
+        expect(getBankHolidayRegion('EH1 1YZ')).toBe('scotland');
+        expect(getBankHolidayRegion('BT1 5GS')).toBe('northern-ireland');
+        expect(getBankHolidayRegion('GL1 2AB')).toBe('england-and-wales');
+        expect(getBankHolidayRegion(null)).toBe('england-and-wales');
+    });
+});
+
+describe('buildWorkCalendar', () => {
+    test('should skip weekends and bank holidays on a weekday pattern', () => {
+        // Thursday 2 April 2026: Good Friday and Easter Monday are skipped
+        const calendar = buildWorkCalendar('2026-04-02', 2.5, 'weekdays', 'england-and-wales');
+
+        expect(calendar.map(day => day.date)).toEqual(['2026-04-02', '2026-04-07', '2026-04-08']);
+        expect(calendar[2].fraction).toBe(0.5);
+    });
+
+    test('should work bank holidays at the Sunday rate on patterns that include weekends', () => {
+        const calendar = buildWorkCalendar('2031-12-24', 3, 'seven_days', 'england-and-wales');
+
+        expect(calendar.map(day => [day.date, day.dayType])).toEqual([
+            ['2031-12-24', 'standard'],
+            ['2031-12-25', 'sunday_bank_holiday'],
+            ['2031-12-26', 'sunday_bank_holiday'],
+        ]);
+        expect(calendar[1].bankHoliday).toBe('Christmas Day');
+        expect(countDaysByType(calendar)).toEqual({ standard: 1, weekday_evening: 0, saturday: 0, sunday_bank_holiday: 2 });
+    });
+
+    test('should load holidays for each year the calendar crosses', () => {
+        const calendar = buildWorkCalendar('2040-12-31', 2, 'weekdays', 'england-and-wales');
+        expect(calendar.map(day => day.date)).toEqual(['2040-12-31', '2041-01-02']);
+    });
+});
+
+describe('calculateAll out-of-hours pricing', () => {
+    test('should price each calendar day at its own multiplier', () => {
+        const standard = calculateAll(products, details(), config).pricing;
+        const weekend = calculateAll(products, details({ proposedStartDate: '2026-06-06', workingPattern: 'weekends_only' }), config).pricing;
+
+        const days = weekend.billableDays;
+        const dailyLabour = (weekend.vanCost + weekend.fitterCost + weekend.supervisorCost) / days;
+        const saturdays = weekend.outOfHoursDayCounts!.saturday;
+        const sundays = weekend.outOfHoursDayCounts!.sunday_bank_holiday;
+
+        expect(saturdays + sundays).toBeCloseTo(days);
+        expect(weekend.outOfHoursSurcharge).toBeCloseTo(
+            dailyLabour * (saturdays * (config.outOfHours.saturdayMultiplier - 1) + sundays * (config.outOfHours.sundayBankHolidayMultiplier - 1))
+        );
+        expect(weekend.totalCost).toBeCloseTo(standard.totalCost + weekend.outOfHoursSurcharge!);
+        expect(weekend.workCalendar).toHaveLength(Math.ceil(days));
+    });
+
+    test('should use the manual out-of-hours entry without a start date', () => {
+        const pricing = calculateAll(products, details({ outOfHoursWorking: true, outOfHoursType: 'weekday_evening', outOfHoursDays: 1 }), config).pricing;
+        const dailyLabour = (pricing.vanCost + pricing.fitterCost + pricing.supervisorCost) / pricing.billableDays;
+
+        expect(pricing.outOfHoursSurcharge).toBeCloseTo(dailyLabour * (config.outOfHours.weekdayEveningMultiplier - 1));
+        expect(pricing.outOfHoursMultiplier).toBe(config.outOfHours.weekdayEveningMultiplier);
+        expect(pricing.workCalendar).toBeUndefined();
+    });
+
+    test('should not surcharge weekday work', () => {
+        const pricing = calculateAll(products, details({ proposedStartDate: '2026-06-08' }), config).pricing;
+
+        expect(pricing.outOfHoursSurcharge).toBeUndefined();
+        expect(pricing.workCalendar?.every(day => day.dayType === 'standard')).toBe(true);
+    });
+});
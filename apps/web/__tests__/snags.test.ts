@@ -0,0 +1,116 @@
+/**
+ * Test Suite for Snag Lists
+ * Tests the completion rule, status transitions, overdue and summary counts,
+ * and finding the placed item under a floor plan pin
+ */
+
+import type { PlacedFurniture } from '../components/floorplanner/types';
+import {
+    allowedSnagTransitions,
+    canCompleteJob,
+    furnitureAtPoint,
+    isSnagOverdue,
+    summarizeSnags,
+    type Snag,
+} from '../lib/snags';
+
+const snag = (overrides: Partial<Snag>): Snag => ({
+    id: 'snag-1',
+    job_id: 'job-1',
+    description: 'Scratched desk top',
+    location: null,
+    category: 'damage',
+    responsible_party: 'manufacturer',
+    status: 'open',
+    due_date: null,
+    photo_path: null,
+    floorplan_id: null,
+    furniture_id: null,
+    pin_x: null,
+    pin_y: null,
+    waived_reason: null,
+    signed_off_by: null,
+    signed_off_at: null,
+    created_at: '2026-03-01T09:00:00Z',
+    ...overrides,
+});
+
+const desk = (overrides: Partial<PlacedFurniture>): PlacedFurniture => ({
+    id: 'desk-1',
+    name: 'Bench desk',
+    width_cm: 160,
+    depth_cm: 80,
+    rotation: 0,
+    x: 100,
+    y: 100,
+    ...overrides,
+});
+
+describe('canCompleteJob', () => {
+    test('should allow completion once every snag is closed or waived', () => {
+        expect(canCompleteJob([{ status: 'closed' }, { status: 'waived' }])).toEqual({ ok: true, unresolved: 0 });
+        expect(canCompleteJob([])).toEqual({ ok: true, unresolved: 0 });
+    });
+
+    test('should count fixed snags awaiting sign-off as unresolved', () => {
+        expect(canCompleteJob([{ status: 'closed' }, { status: 'fixed' }, { status: 'open' }])).toEqual({ ok: false, unresolved: 2 });
+    });
+});
+
+describe('allowedSnagTransitions', () => {
+    test('should only close a snag once it is fixed', () => {
+        expect(allowedSnagTransitions('open')).not.toContain('closed');
+        expect(allowedSnagTransitions('fixed')).toContain('closed');
+        expect(allowedSnagTransitions('closed')).toEqual(['open']);
+    });
+});
+
+describe('overdue and summary', () => {
+    const snags = [
+        snag({ id: 'a', status: 'open', due_date: '2026-03-01', responsible_party: 'installer' }),
+        snag({ id: 'b', status: 'fixed', due_date: '2026-03-10' }),
+        snag({ id: 'c', status: 'closed', due_date: '2026-02-01' }),
+        snag({ id: 'd', status: 'waived', waived_reason: 'Client accepted' }),
+    ];
+
+    test('should only flag unresolved snags past their due date', () => {
+        expect(isSnagOverdue(snags[0], '2026-03-05')).toBe(true);
+        expect(isSnagOverdue(snags[1], '2026-03-05')).toBe(false);
+        expect(isSnagOverdue(snags[2], '2026-03-05')).toBe(false);
+    });
+
+    test('should count unresolved snags by responsible party', () => {
+        const summary = summarizeSnags(snags, '2026-03-05');
+
+        expect(summary.total).toBe(4);
+        expect(summary.unresolved).toBe(2);
+        expect(summary.overdue).toBe(1);
+        expect(summary.byStatus).toEqual({ open: 1, in_progress: 0, fixed: 1, closed: 1, waived: 1 });
+        expect(summary.byResponsible).toEqual({ installer: 1, manufacturer: 1, client: 0 });
+    });
+});
+
+describe('furnitureAtPoint', () => {
+    // At 1 px/cm the desk covers x 100-260, y 100-180
+    test('should find the item under the pin', () => {
+        const plan = { scale: 1, furniture: [desk({})] };
+
+        expect(furnitureAtPoint(plan, 250, 170)?.id).toBe('desk-1');
+        expect(furnitureAtPoint(plan, 270, 140)).toBeNull();
+    });
+
+    test('should allow for rotation about the centre', () => {
+        // Turned 90°, the desk spans x 140-220, y 60-220 around its centre (180, 140)
+        const plan = { scale: 1, furniture: [desk({ rotation: 90 })] };
+
+        expect(furnitureAtPoint(plan, 180, 70)?.id).toBe('desk-1');
+        expect(furnitureAtPoint(plan, 250, 140)).toBeNull();
+    });
+
+    test('should prefer the item drawn last and need a scale', () => {
+        const plan = { scale: 1, furniture: [desk({}), desk({ id: 'chair-1', width_cm: 60, depth_cm: 60, x: 150, y: 110 })] };
+
+        expect(furnitureAtPoint(plan, 170, 130)?.id).toBe('chair-1');
+        expect(furnitureAtPoint({ ...plan, scale: null }, 170, 130)).toBeNull();
+    });
+});
@@ -0,0 +1,146 @@
+/**
+ * Test Suite for Template Zone Extraction
+ * Tests reading template boxes from PDF text, validation, value parsing and match rates
+ */
+
+import {
+    extractTemplateZones,
+    matchedZoneValues,
+    parseZoneAmount,
+    parseZoneDate,
+    summarizeZones,
+    textInBox,
+    type PdfPageText,
+    type PdfTextItem,
+} from '../lib/templateZoneExtractor';
+import type { TemplateField } from '../lib/templateService';
+
+// A 1000x1000 px reference image, so field pixels / 1000 = page fraction
+const REFERENCE = { width: 1000, height: 1000 };
+
+const item = (text: string, x: number, y: number, width = text.length * 0.01): PdfTextItem => ({
+    text, x, y, width, height: 0.012,
+});
+
+const field = (overrides: Partial<TemplateField>): TemplateField => ({
+    id: overrides.field_name ?? 'field',
+    template_id: 'tpl-1',
+    field_name: 'field',
+    field_label: 'Field',
+    page_number: 1,
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 20,
+    confidence_level: 'always',
+    priority: 1,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+});
+
+const invoicePage: PdfPageText = {
+    pageNumber: 1,
+    items: [
+        // "Invoice No: " is 12 characters, so the number starts at x = 0.10 + 0.12
+        item('Invoice No: INV-0042', 0.10, 0.100),
+        item('Date: 12/03/2025', 0.60, 0.100),
+        item('Total', 0.60, 0.800),
+        item('£1,234.56', 0.75, 0.800),
+        item('Unit 4, Trade Park', 0.10, 0.300),
+        item('Leeds LS1 1AA', 0.10, 0.315),
+    ],
+};
+
+describe('textInBox', () => {
+    test('should cut runs to the characters inside the box', () => {
+        expect(textInBox(invoicePage.items, { x: 0.215, y: 0.095, width: 0.1, height: 0.02 })).toBe('INV-0042');
+    });
+
+    test('should join lines top to bottom', () => {
+        expect(textInBox(invoicePage.items, { x: 0.09, y: 0.295, width: 0.3, height: 0.04 }))
+            .toBe('Unit 4, Trade Park Leeds LS1 1AA');
+    });
+
+    test('should return nothing for an empty area', () => {
+        expect(textInBox(invoicePage.items, { x: 0.4, y: 0.5, width: 0.1, height: 0.1 })).toBe('');
+    });
+});
+
+describe('value parsing', () => {
+    test('should read UK dates as ISO', () => {
+        expect(parseZoneDate('Date: 12/03/2025')).toBe('2025-03-12');
+        expect(parseZoneDate('1st Feb 24')).toBe('2024-02-01');
+        expect(parseZoneDate('31/02/2025')).toBeNull();
+    });
+
+    test('should read money amounts', () => {
+        expect(parseZoneAmount('£1,234.56')).toBe(1234.56);
+        expect(parseZoneAmount('(12.00)')).toBe(-12);
+        expect(parseZoneAmount('n/a')).toBeNull();
+    });
+});
+
+describe('extractTemplateZones', () => {
+    const fields = [
+        field({ field_name: 'invoice_number', x: 215, y: 95, width: 100, height: 20, validation_regex: '^INV-\\d+$' }),
+        field({ field_name: 'invoice_date', x: 660, y: 95, width: 120, height: 20, priority: 2 }),
+        field({ field_name: 'gross_amount', x: 740, y: 795, width: 120, height: 20, confidence_level: 'usually', priority: 3 }),
+        field({ field_name: 'due_date', x: 100, y: 500, width: 100, height: 20, priority: 4 }),
+    ];
+
+    test('should scale boxes by the reference size and parse each field', () => {
+        const values = matchedZoneValues(extractTemplateZones(fields, [invoicePage], REFERENCE));
+
+        expect(values.get('invoice_number')?.value).toBe('INV-0042');
+        expect(values.get('invoice_date')?.value).toBe('2025-03-12');
+        expect(values.get('gross_amount')?.value).toBe(1234.56);
+        expect(values.has('due_date')).toBe(false);
+
+        // Same layout drawn on a sample twice the size
+        const doubled = fields.map(f => ({ ...f, x: f.x * 2, y: f.y * 2, width: f.width * 2, height: f.height * 2 }));
+        const scaled = matchedZoneValues(extractTemplateZones(doubled, [invoicePage], { width: 2000, height: 2000 }));
+        expect(scaled.get('invoice_number')?.value).toBe('INV-0042');
+    });
+
+    test('should mark text that fails validation as invalid', () => {
+        const strict = [field({ field_name: 'invoice_number', x: 215, y: 95, width: 100, height: 20, validation_regex: '^\\d+$' })];
+        const [result] = extractTemplateZones(strict, [invoicePage], REFERENCE);
+
+        expect(result.status).toBe('invalid');
+        expect(result.text).toBe('INV-0042');
+    });
+
+    test('should use a fallback box when the main one misses', () => {
+        const withFallback = [
+            field({ field_name: 'gross_amount', x: 100, y: 900, width: 100, height: 20, priority: 1 }),
+            field({ field_name: 'gross_amount', x: 740, y: 795, width: 120, height: 20, priority: 2, confidence_level: 'fallback' }),
+        ];
+        const values = matchedZoneValues(extractTemplateZones(withFallback, [invoicePage], REFERENCE));
+
+        expect(values.get('gross_amount')?.value).toBe(1234.56);
+        expect(values.get('gross_amount')?.field.confidence_level).toBe('fallback');
+    });
+
+    test('should treat a missing page as empty', () => {
+        const [result] = extractTemplateZones([field({ field_name: 'notes', page_number: 2 })], [invoicePage], REFERENCE);
+        expect(result.status).toBe('empty');
+    });
+});
+
+describe('summarizeZones', () => {
+    test('should report match rate over distinct field names', () => {
+        const results = extractTemplateZones([
+            field({ field_name: 'invoice_number', x: 215, y: 95, width: 100, height: 20 }),
+            field({ field_name: 'gross_amount', x: 740, y: 795, width: 120, height: 20, confidence_level: 'usually' }),
+            field({ field_name: 'gross_amount', x: 100, y: 900, width: 100, height: 20, priority: 2 }),
+            field({ field_name: 'due_date', x: 100, y: 500, width: 100, height: 20 }),
+        ], [invoicePage], REFERENCE);
+
+        expect(summarizeZones(results)).toEqual({
+            fields_total: 3,
+            fields_matched: 2,
+            match_rate: 66.67,
+            avg_confidence: 95,
+        });
+    });
+});
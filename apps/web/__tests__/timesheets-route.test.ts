@@ -0,0 +1,110 @@
+/**
+ * Test Suite for the Timesheets Endpoint
+ * Tests whose timesheets each role can read for the week
+ */
+
+import { createMocks } from 'node-mocks-http';
+
+import { loadTimesheetWeek } from '../lib/server/timesheets';
+import { DEFAULT_TIMESHEET_SETTINGS, calculateTimesheet, type TimesheetResource } from '../lib/timesheets';
+import timesheetsHandler from '../pages/api/labour/timesheets';
+
+type Row = Record<string, unknown>;
+
+const mockTables: Record<string, Row[]> = {
+    profiles: [
+        { id: 'user-ann', role: 'installer' },
+        { id: 'user-sam', role: 'supervisor' },
+        { id: 'user-guest', role: 'guest' },
+    ],
+    labour_resources: [
+        { id: 'ann', user_id: 'user-ann' },
+        { id: 'bob', user_id: 'user-bob' },
+    ],
+};
+let mockUserId = 'user-ann';
+
+jest.mock('../lib/apiAuth', () => ({
+    requireAuth: jest.fn(() => Promise.resolve({ id: mockUserId })),
+}));
+
+jest.mock('../lib/server/supabaseAdmin', () => ({
+    supabaseAdmin: {
+        from: (table: string) => {
+            const filters: Array<(row: Row) => boolean> = [];
+            const rows = () => (mockTables[table] ?? []).filter(row => filters.every(filter => filter(row)));
+            const query = {
+                select: () => query,
+                eq: (column: string, value: unknown) => {
+                    filters.push(row => row[column] === value);
+                    return query;
+                },
+                maybeSingle: () => Promise.resolve({ data: rows()[0] ?? null, error: null }),
+                then: <T>(resolve: (result: { data: Row[]; error: null }) => T) => Promise.resolve({ data: rows(), error: null }).then(resolve),
+            };
+            return query;
+        },
+    },
+}));
+
+jest.mock('../lib/server/timesheets', () => ({
+    loadTimesheetWeek: jest.fn(),
+    applyTimesheetAction: jest.fn(),
+}));
+
+const worker = (id: string, name: string): TimesheetResource => ({
+    id,
+    name,
+    hourly_rate: 20,
+    employment_type: 'employee',
+    cis_rate: null,
+    payroll_reference: null,
+});
+
+const weekRow = (resource: TimesheetResource) => ({
+    resource,
+    timesheet: null,
+    ...calculateTimesheet([{
+        id: `shift-${resource.id}`,
+        job_id: 'job-1',
+        shift_date: '2025-03-10',
+        start_time: '08:00:00',
+        end_time: '16:30:00',
+        break_duration: 30,
+        shift_type: 'regular',
+        rate_per_hour: null,
+        status: 'completed',
+    }], resource, DEFAULT_TIMESHEET_SETTINGS),
+});
+
+const getWeek = async (userId: string) => {
+    mockUserId = userId;
+    const { req, res } = createMocks({ method: 'GET', query: { weekStart: '2025-03-10' } });
+    await timesheetsHandler(req as any, res as any);
+    expect(res._getStatusCode()).toBe(200);
+    return JSON.parse(res._getData()).data.rows as Array<{ resource: { id: string } }>;
+};
+
+beforeEach(() => {
+    (loadTimesheetWeek as jest.Mock).mockResolvedValue({
+        settings: DEFAULT_TIMESHEET_SETTINGS,
+        rows: [weekRow(worker('ann', 'Ann Smith')), weekRow(worker('bob', 'Bob Jones'))],
+    });
+});
+
+describe('GET /api/labour/timesheets', () => {
+    test('should give an operative only their own timesheet', async () => {
+        const rows = await getWeek('user-ann');
+        expect(rows.map(row => row.resource.id)).toEqual(['ann']);
+    });
+
+    test('should give a user with no labour resource no timesheets', async () => {
+        expect(await getWeek('user-guest')).toEqual([]);
+    });
+
+    test('should give supervisors every worker, hours only', async () => {
+        const rows = await getWeek('user-sam');
+        expect(rows.map(row => row.resource.id)).toEqual(['ann', 'bob']);
+        expect(rows[0].resource).not.toHaveProperty('hourly_rate');
+    });
+});
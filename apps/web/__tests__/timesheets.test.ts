@@ -0,0 +1,163 @@
+/**
+ * Test Suite for Timesheets
+ * Tests paid hours, the weekly overtime threshold and weekend multipliers,
+ * CIS deductions, per-job labour cost, the payroll CSV layouts and the
+ * hours-only view for non-approvers
+ */
+
+import {
+    DEFAULT_TIMESHEET_SETTINGS,
+    calculateTimesheet,
+    hoursOnly,
+    jobLabourCosts,
+    payrollCsv,
+    shiftPaidHours,
+    timesheetCsv,
+    timesheetSettings,
+    weekStartOf,
+    type ApprovedTimesheet,
+    type TimesheetResource,
+    type TimesheetShift,
+} from '../lib/timesheets';
+
+const employee: TimesheetResource = {
+    id: 'ann',
+    name: 'Ann Smith',
+    hourly_rate: 20,
+    employment_type: 'employee',
+    cis_rate: null,
+    payroll_reference: 'E001',
+};
+
+// 2026-03-02 is a Monday
+const shift = (day: number, overrides: Partial<TimesheetShift> = {}): TimesheetShift => ({
+    id: `shift-${day}`,
+    job_id: 'job-1',
+    shift_date: `2026-03-0${day + 2}`,
+    start_time: '08:00:00',
+    end_time: '17:00:00',
+    break_duration: 60,
+    shift_type: 'regular',
+    rate_per_hour: null,
+    status: 'completed',
+    ...overrides,
+});
+
+describe('hours and settings', () => {
+    test('should take the break off and run night shifts past midnight', () => {
+        expect(shiftPaidHours({ start_time: '08:00', end_time: '17:00', break_duration: 60 })).toBe(8);
+        expect(shiftPaidHours({ start_time: '22:00', end_time: '06:30', break_duration: 30 })).toBe(8);
+    });
+
+    test('should fall back to defaults for missing or invalid settings', () => {
+        expect(timesheetSettings(null)).toEqual(DEFAULT_TIMESHEET_SETTINGS);
+        expect(timesheetSettings({ weekly_overtime_threshold_hours: 37.5, sunday_multiplier: 'x' }))
+            .toEqual({ ...DEFAULT_TIMESHEET_SETTINGS, weekly_overtime_threshold_hours: 37.5 });
+    });
+
+    test('should find the Monday of the week', () => {
+        expect(weekStartOf('2026-03-08')).toBe('2026-03-02');
+        expect(weekStartOf('2026-03-02')).toBe('2026-03-02');
+    });
+});
+
+describe('calculateTimesheet', () => {
+    test('should pay hours past the weekly threshold as overtime in the order worked', () => {
+        // Five 8h weekdays reach 40h exactly, so a sixth day on Saturday is all overtime
+        const shifts = [0, 1, 2, 3, 4, 5].map(day => shift(day));
+        const { lines, totals } = calculateTimesheet(shifts, employee, DEFAULT_TIMESHEET_SETTINGS);
+
+        expect(totals.hours).toBe(48);
+        expect(totals.basic_hours).toBe(40);
+        expect(totals.overtime_hours).toBe(8);
+        expect(lines[5]).toMatchObject({ basic_hours: 0, overtime_hours: 8, day_multiplier: 1.5, overtime_multiplier: 1.5 });
+        // 40h × £20 + 8h × £30
+        expect(totals.gross).toBe(1040);
+    });
+
+    test('should split the shift that crosses the threshold and not stack premiums', () => {
+        const settings = { ...DEFAULT_TIMESHEET_SETTINGS, weekly_overtime_threshold_hours: 12 };
+        const { lines } = calculateTimesheet([shift(5), shift(6)], employee, settings);
+
+        // Saturday: 8h basic at ×1.5. Sunday: 4h basic at ×2, then 4h past the threshold still at ×2
+        expect(lines[0]).toMatchObject({ basic_hours: 8, overtime_hours: 0, gross: 240 });
+        expect(lines[1]).toMatchObject({ basic_hours: 4, overtime_hours: 4, overtime_multiplier: 2, gross: 320 });
+    });
+
+    test('should not pay cancelled shifts and prefer the shift rate over the resource rate', () => {
+        const { totals } = calculateTimesheet(
+            [shift(0, { rate_per_hour: 25 }), shift(1, { status: 'cancelled' })],
+            employee,
+            DEFAULT_TIMESHEET_SETTINGS
+        );
+
+        expect(totals.hours).toBe(8);
+        expect(totals.gross).toBe(200);
+    });
+
+    test('should deduct CIS from self-employed operatives only', () => {
+        const subcontractor = { ...employee, employment_type: 'self_employed' as const };
+
+        expect(calculateTimesheet([shift(0)], subcontractor, DEFAULT_TIMESHEET_SETTINGS).totals)
+            .toMatchObject({ gross: 160, cis_rate: 20, cis_deduction: 32, net: 128 });
+        expect(calculateTimesheet([shift(0)], { ...subcontractor, cis_rate: 0 }, DEFAULT_TIMESHEET_SETTINGS).totals.net).toBe(160);
+        expect(calculateTimesheet([shift(0)], employee, DEFAULT_TIMESHEET_SETTINGS).totals.cis_deduction).toBe(0);
+    });
+});
+
+describe('exports', () => {
+    test('should total labour per job', () => {
+        expect(jobLabourCosts([
+            { job_id: 'job-1', hours: 8, gross: 160 },
+            { job_id: 'job-1', hours: 4, gross: 120 },
+            { job_id: null, hours: 2, gross: 40 },
+        ])).toEqual({ 'job-1': { hours: 12, cost: 280 } });
+    });
+
+    test('should group hours into pay elements with CIS as a deduction', () => {
+        const subcontractor = { ...employee, employment_type: 'self_employed' as const, payroll_reference: null };
+        const { lines, totals } = calculateTimesheet([shift(0), shift(1), shift(5)], subcontractor, DEFAULT_TIMESHEET_SETTINGS);
+        const sheet: ApprovedTimesheet = {
+            week_start: '2026-03-02',
+            resource: subcontractor,
+            totals,
+            lines: lines.map(line => ({ ...line, job_reference: 'J-100' })),
+        };
+
+        expect(payrollCsv([sheet], 'sage').split('\n')).toEqual([
+            'Employee Reference,Payment Name,Units,Rate,Value',
+            'Ann Smith,Basic Pay,16.00,20.00,320.00',
+            'Ann Smith,Time x1.5,8.00,30.00,240.00',
+            'Ann Smith,CIS Deduction 20%,1.00,-112.00,-112.00',
+        ]);
+        expect(payrollCsv([sheet], 'xero').split('\n')[1])
+            .toBe('Ann Smith,,2026-03-08,Basic Pay,16.00,20.00,320.00');
+    });
+
+    test('should stop names being read as formulas but leave negative amounts alone', () => {
+        const { lines, totals } = calculateTimesheet([shift(0)], employee, DEFAULT_TIMESHEET_SETTINGS);
+        const sheet: ApprovedTimesheet = {
+            week_start: '2026-03-02',
+            resource: { ...employee, name: '=HYPERLINK("x")' },
+            totals,
+            lines: lines.map(line => ({ ...line, job_reference: '@J-100' })),
+        };
+
+        expect(timesheetCsv([sheet]).split('\n')[1])
+            .toBe('2026-03-02,E001,"\'=HYPERLINK(""x"")",2026-03-02,\'@J-100,8.00,8.00,0.00,20.00,1,1.5,160.00');
+        expect(payrollCsv([{ ...sheet, resource: { ...sheet.resource, payroll_reference: '-1+1' } }], 'sage').split('\n')[1])
+            .toBe("'-1+1,Basic Pay,8.00,20.00,160.00");
+    });
+});
+
+describe('hoursOnly', () => {
+    test('should drop rates, pay and CIS but keep the hours', () => {
+        const { lines, totals } = calculateTimesheet([shift(0)], employee, DEFAULT_TIMESHEET_SETTINGS);
+        const row = hoursOnly({ resource: employee, timesheet: null, lines, totals });
+
+        expect(row.totals).toEqual({ hours: 8, basic_hours: 8, overtime_hours: 0 });
+        expect(row.resource).not.toHaveProperty('hourly_rate');
+        expect(row.lines[0]).not.toHaveProperty('rate');
+        expect(row.lines[0]).not.toHaveProperty('gross');
+    });
+});
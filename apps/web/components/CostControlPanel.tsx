@@ -1,21 +1,12 @@
 // apps/web/components/CostControlPanel.tsx
 import { useEffect, useMemo, useState } from "react";
 
+import { dayRates, jobCostTotals, type JobCostRow } from "../lib/jobCosts";
 import { supabase } from "../lib/supabaseClient";
 import { theme } from "../lib/theme";
 import { DayRates, OrganizationSettings, SupabaseError } from "../lib/types";
 
-type CostRow = {
-  job_id: string;
-  quoted_total: number | string;
-  installer_days: number | string;
-  supervisor_days: number | string;
-  vehicle_days: number | string;
-  waste_loads: number | string;
-  materials_cost: number | string;
-  misc_cost: number | string;
-  notes?: string | null;
-};
+type CostRow = JobCostRow;
 
 export default function CostControlPanel({ jobId }: { jobId: string }) {
   const [rates, setRates] = useState<DayRates>({installer: 0, supervisor: 0, vehicle: 0, waste_load: 0});
@@ -31,15 +22,7 @@ export default function CostControlPanel({ jobId }: { jobId: string }) {
       // 1) load day rates
       const { data: org } = await supabase.from("org_settings").select("day_rates").eq("id", 1).maybeSingle();
       const orgData = org as OrganizationSettings | null;
-      const dr = orgData?.day_rates || { installer: 0, supervisor: 0, vehicle: 0, waste_load: 0 };
-      if (!cancel) {
-        setRates({
-          installer: Number(dr.installer || 0),
-          supervisor: Number(dr.supervisor || 0),
-          vehicle: Number(dr.vehicle || 0),
-          waste_load: Number(dr.waste_load || 0),
-        });
-      }
+      if (!cancel) setRates(dayRates(orgData?.day_rates));
       // 2) load or create job_costs row
       const { data: jc } = await supabase.from("job_costs").select("*").eq("job_id", jobId).maybeSingle();
       if (!cancel) {
@@ -63,27 +46,7 @@ export default function CostControlPanel({ jobId }: { jobId: string }) {
     return () => { cancel = true; };
   }, [jobId]);
 
-  const numbers = useMemo(() => {
-    const r = row || {} as CostRow;
-    const n = (v: number | string) => Number(v || 0);
-
-    const price = n(r.quoted_total);
-
-    const labour =
-      n(r.installer_days) * (rates.installer || 0) +
-      n(r.supervisor_days) * (rates.supervisor || 0);
-
-    const vehicles = n(r.vehicle_days) * (rates.vehicle || 0);
-    const waste = n(r.waste_loads) * (rates.waste_load || 0);
-    const materials = n(r.materials_cost);
-    const misc = n(r.misc_cost);
-
-    const direct = labour + vehicles + waste + materials + misc;
-    const margin = price - direct;
-    const marginPct = price > 0 ? (margin / price) * 100 : 0;
-
-    return { price, labour, vehicles, waste, materials, misc, direct, margin, marginPct };
-  }, [row, rates]);
+  const numbers = useMemo(() => jobCostTotals(row || {}, rates), [row, rates]);
 
   async function save() {
     if (!row) return;
@@ -1,5 +1,8 @@
+import Link from 'next/link';
 import React, { useState, useEffect, useCallback } from 'react';
 
+import { fetchLabourConflicts } from '@/lib/labourApi';
+import type { CapacityDay, CapacityResource, LabourConflict } from '@/lib/labourConflicts';
 import { supabase } from '@/lib/supabaseClient';
 
 interface LabourResource {
@@ -52,6 +55,12 @@ const STATUS_COLORS = {
   no_show: '#dc2626'
 };
 
+const CAPACITY_LABELS: Array<[CapacityResource, string]> = [
+  ['installers', 'Installers'],
+  ['vans', 'Vans'],
+  ['supervisors', 'Supervisors']
+];
+
 const RESOURCE_TYPE_COLORS = {
   worker: '#3b82f6',
   team: '#8b5cf6',
@@ -62,6 +71,8 @@ export default function LabourCalendar() {
   const [resources, setResources] = useState<LabourResource[]>([]);
   const [shifts, setShifts] = useState<Shift[]>([]);
   const [_events, setEvents] = useState<CalendarEvent[]>([]);
+  const [capacity, setCapacity] = useState<Record<string, CapacityDay>>({});
+  const [conflicts, setConflicts] = useState<LabourConflict[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentWeek, setCurrentWeek] = useState(new Date());
   const [_selectedResource, _setSelectedResource] = useState<string | null>(null);
@@ -130,6 +141,17 @@ export default function LabourCalendar() {
       if (eventsError) throw eventsError;
       setEvents(eventsData || []);
 
+      // Capacity and clashes are a summary; the calendar still shows without them
+      const summary = await fetchLabourConflicts(
+        weekStart.toISOString().split('T')[0],
+        weekEnd.toISOString().split('T')[0]
+      ).catch(error => {
+        console.error('Error loading labour capacity:', error);
+        return null;
+      });
+      setCapacity(Object.fromEntries((summary?.days ?? []).map(day => [day.date, day])));
+      setConflicts(summary?.conflicts ?? []);
+
     } catch (error: unknown) {
       console.error('Error loading calendar data:', error);
     } finally {
@@ -179,6 +201,10 @@ export default function LabourCalendar() {
     );
   }
 
+  function isClashing(shiftId: string): boolean {
+    return conflicts.some(conflict => 'shift_ids' in conflict && conflict.shift_ids.includes(shiftId));
+  }
+
   function navigateWeek(direction: 'prev' | 'next') {
     const newWeek = new Date(currentWeek);
     newWeek.setDate(newWeek.getDate() + (direction === 'next' ? 7 : -7));
@@ -294,6 +320,22 @@ export default function LabourCalendar() {
           >
             + Add Shift
           </button>
+
+          <Link
+            href="/labour-conflicts"
+            style={{
+              padding: '8px 16px',
+              background: conflicts.length > 0 ? '#ef4444' : '#0f151c',
+              border: '1px solid #1d2733',
+              color: '#fff',
+              borderRadius: 6,
+              fontSize: 12,
+              fontWeight: 600,
+              textDecoration: 'none'
+            }}
+          >
+            Conflicts ({conflicts.length})
+          </Link>
         </div>
       </div>
 
@@ -458,9 +500,10 @@ export default function LabourCalendar() {
                           fontSize: 10,
                           fontWeight: 600,
                           color: '#fff',
-                          cursor: 'pointer'
+                          cursor: 'pointer',
+                          outline: isClashing(shift.id) ? '2px solid #ef4444' : 'none'
                         }}
-                        title={`${shift.job_reference || 'No Job'} • ${formatTime(shift.start_time)}-${formatTime(shift.end_time)}`}
+                        title={`${shift.job_reference || 'No Job'} • ${formatTime(shift.start_time)}-${formatTime(shift.end_time)}${isClashing(shift.id) ? ' • Clash' : ''}`}
                       >
                         <div style={{ marginBottom: 2 }}>
                           {formatTime(shift.start_time)}-{formatTime(shift.end_time)}
@@ -478,6 +521,57 @@ export default function LabourCalendar() {
             </div>
           ))}
         </div>
+
+        {/* Capacity: allocated across all jobs / available after leave */}
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: '200px repeat(7, 1fr)',
+          borderTop: '1px solid #1d2733',
+          background: '#14202b'
+        }}>
+          <div style={{
+            padding: 16,
+            fontWeight: 600,
+            borderRight: '1px solid #1d2733'
+          }}>
+            Capacity
+          </div>
+          {weekDays.map((day, dayIndex) => {
+            const dayCapacity = capacity[day.toISOString().split('T')[0]];
+
+            return (
+              <div
+                key={dayIndex}
+                style={{
+                  padding: 8,
+                  borderRight: dayIndex < 6 ? '1px solid #1d2733' : 'none',
+                  fontSize: 11
+                }}
+              >
+                {CAPACITY_LABELS.map(([resource, label]) => {
+                  const available = dayCapacity?.capacity[resource] ?? null;
+                  if (available === null) return null;
+                  const used = dayCapacity.demand[resource];
+
+                  return (
+                    <div
+                      key={resource}
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        color: used > available ? '#ef4444' : '#9ca3af',
+                        fontWeight: used > available ? 700 : 400
+                      }}
+                    >
+                      <span>{label}</span>
+                      <span>{used}/{available}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
       </div>
 
       {/* Legend */}
@@ -0,0 +1,34 @@
+// Language picker - saves the choice to the user's profile so it follows them across devices
+import React from 'react';
+
+import { LOCALE_NAMES, SUPPORTED_LOCALES, isSupportedLocale } from '@/lib/i18n';
+import { useTranslation } from '@/lib/I18nProvider';
+import { theme } from '@/lib/theme';
+
+export default function LanguageSelect() {
+  const { t, locale, setLocale } = useTranslation();
+
+  return (
+    <label style={{ display: 'inline-flex', alignItems: 'center', gap: theme.spacing(2), fontSize: 12, color: theme.colors.textSubtle }}>
+      {t('common.language')}
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isSupportedLocale(e.target.value)) void setLocale(e.target.value);
+        }}
+        style={{
+          padding: '4px 8px',
+          background: theme.colors.panel,
+          color: theme.colors.text,
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: theme.radii.sm,
+          fontSize: 12
+        }}
+      >
+        {SUPPORTED_LOCALES.map(code => (
+          <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,192 @@
+// RAMS sign-off - operatives read and sign the issued RAMS for each job they
+// have a shift on today; /api/labour/shifts won't start the shift until they have
+import React, { useEffect, useState } from 'react';
+
+import { getDocSignedUrl } from '@/lib/docs';
+import { useTranslation } from '@/lib/I18nProvider';
+import { supabase } from '@/lib/supabaseClient';
+import { theme } from '@/lib/theme';
+
+type RamsToSign = {
+  id: string;
+  job_id: string;
+  version: number;
+  storage_path: string;
+  jobs: { reference: string | null; title: string } | null;
+  rams_signatures: Array<{ user_id: string; signed_at: string }>;
+};
+
+// The operative's own calendar day, not UTC's, so early shifts aren't missed
+function localDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export default function RamsSignOff() {
+  const { t, formatDate } = useTranslation();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<RamsToSign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [confirmed, setConfirmed] = useState<Record<string, boolean>>({});
+  const [signing, setSigning] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // Allocations are crew counts; the operative's own shifts say which jobs they are on
+      const { data: resource } = user
+        ? await supabase.from('labour_resources').select('id').eq('user_id', user.id).maybeSingle()
+        : { data: null };
+      const { data: shifts } = resource
+        ? await supabase
+            .from('labour_shifts')
+            .select('job_id')
+            .eq('resource_id', resource.id)
+            .eq('shift_date', localDate(new Date()))
+            .neq('status', 'cancelled')
+        : { data: [] };
+
+      const jobIds = [...new Set((shifts ?? []).map(shift => shift.job_id as string | null).filter((id): id is string => !!id))];
+      const { data: rams } = jobIds.length > 0
+        ? await supabase
+            .from('rams_documents')
+            .select('id, job_id, version, storage_path, jobs(reference, title), rams_signatures(user_id, signed_at)')
+            .eq('status', 'issued')
+            .in('job_id', jobIds)
+            .order('version', { ascending: false })
+        : { data: [] };
+
+      // A new version is issued before the old one is superseded; sign the newest
+      const latest = new Map<string, RamsToSign>();
+      for (const doc of (rams ?? []) as unknown as RamsToSign[]) {
+        if (!latest.has(doc.job_id)) latest.set(doc.job_id, doc);
+      }
+
+      if (!active) return;
+      setUserId(user?.id ?? null);
+      setName(prev => prev || String(user?.user_metadata?.full_name ?? ''));
+      setItems([...latest.values()]);
+      setLoading(false);
+    })();
+    return () => { active = false; };
+  }, []);
+
+  async function sign(item: RamsToSign) {
+    if (!userId || !name.trim()) return;
+    setSigning(item.id);
+    setError(null);
+    const { data, error: insertError } = await supabase
+      .from('rams_signatures')
+      .insert({ rams_document_id: item.id, user_id: userId, signature_name: name.trim() })
+      .select('user_id, signed_at')
+      .single();
+
+    if (insertError || !data) {
+      console.error('Failed to sign RAMS:', insertError);
+      setError(t('rams.signFailed'));
+    } else {
+      setItems(prev => prev.map(i => i.id === item.id ? { ...i, rams_signatures: [...i.rams_signatures, data] } : i));
+    }
+    setSigning(null);
+  }
+
+  async function open(item: RamsToSign) {
+    window.open(await getDocSignedUrl(item.storage_path), '_blank', 'noopener');
+  }
+
+  if (loading) return null;
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>{t('rams.title')}</div>
+      {items.length > 0 && (
+        <div style={{ color: theme.colors.textSubtle, fontSize: 12, marginBottom: 8 }}>{t('rams.beforeStart')}</div>
+      )}
+      {items.length === 0 ? (
+        <div style={{ color: theme.colors.textSubtle }}>{t('rams.noneToday')}</div>
+      ) : (
+        <div style={{ display: 'grid', gap: 10 }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: theme.spacing(2), fontSize: 12, color: theme.colors.textSubtle }}>
+            {t('rams.nameLabel')}
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              style={{
+                padding: '4px 8px',
+                background: theme.colors.panel,
+                color: theme.colors.text,
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii.sm,
+              }}
+            />
+          </label>
+          {items.map(item => {
+            const signature = item.rams_signatures.find(s => s.user_id === userId);
+            return (
+              <div
+                key={item.id}
+                style={{
+                  display: 'grid',
+                  gap: 8,
+                  padding: '10px 12px',
+                  border: `1px solid ${signature ? theme.colors.border : theme.colors.warn}`,
+                  borderRadius: 10,
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}>
+                  <span style={{ fontWeight: 600 }}>
+                    {item.jobs?.reference ? `${item.jobs.reference} — ` : ''}
+                    {item.jobs?.title}
+                  </span>
+                  <button
+                    onClick={() => open(item)}
+                    style={{ background: 'transparent', border: 'none', color: theme.colors.accent, cursor: 'pointer', padding: 0 }}
+                  >
+                    {t('rams.open')} · {t('rams.version', { version: item.version })}
+                  </button>
+                </div>
+                {signature ? (
+                  <div style={{ color: theme.colors.success, fontSize: 12 }}>
+                    {t('rams.signedAt', { time: formatDate(signature.signed_at, { hour: '2-digit', minute: '2-digit' }) })}
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13 }}>
+                      <input
+                        type="checkbox"
+                        checked={!!confirmed[item.id]}
+                        onChange={(e) => setConfirmed(prev => ({ ...prev, [item.id]: e.target.checked }))}
+                      />
+                      {t('rams.confirm')}
+                    </label>
+                    <button
+                      disabled={!confirmed[item.id] || !name.trim() || signing === item.id}
+                      onClick={() => sign(item)}
+                      style={{
+                        padding: '4px 12px',
+                        background: theme.colors.accent,
+                        color: theme.colors.bg,
+                        border: 'none',
+                        borderRadius: 4,
+                        fontWeight: 600,
+                        cursor: 'pointer',
+                        opacity: !confirmed[item.id] || !name.trim() ? 0.5 : 1,
+                      }}
+                    >
+                      {signing === item.id ? t('rams.signing') : t('rams.sign')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {error && <div style={{ color: theme.colors.danger, fontSize: 12 }}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
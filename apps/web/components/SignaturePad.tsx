@@ -0,0 +1,104 @@
+// apps/web/components/SignaturePad.tsx
+import { useRef, useState } from "react";
+
+import { theme } from "../lib/theme";
+
+type Props = {
+  /** PNG data URL, or "" when cleared */
+  onChange: (dataUrl: string) => void;
+  disabled?: boolean;
+  height?: number;
+};
+
+export default function SignaturePad({ onChange, disabled, height = 160 }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [drawing, setDrawing] = useState(false);
+  const [hasInk, setHasInk] = useState(false);
+
+  // Map pointer position to canvas pixels (the canvas is stretched to the container width)
+  function point(e: React.PointerEvent<HTMLCanvasElement>) {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  }
+
+  function start(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (disabled || !canvasRef.current) return;
+    const ctx = canvasRef.current.getContext("2d");
+    if (!ctx) return;
+
+    canvasRef.current.setPointerCapture(e.pointerId);
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    setDrawing(true);
+  }
+
+  function move(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawing || !canvasRef.current) return;
+    const ctx = canvasRef.current.getContext("2d");
+    if (!ctx) return;
+
+    const { x, y } = point(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111";
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasInk(true);
+  }
+
+  function end() {
+    if (!drawing || !canvasRef.current) return;
+    setDrawing(false);
+    if (hasInk) onChange(canvasRef.current.toDataURL("image/png"));
+  }
+
+  function clear() {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+    onChange("");
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={height * 2}
+        aria-label="Signature pad"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+        style={{
+          width: "100%",
+          height,
+          background: "#fff",
+          borderRadius: 8,
+          border: `1px solid ${theme.colors.border}`,
+          cursor: disabled ? "not-allowed" : "crosshair",
+          touchAction: "none",
+        }}
+      />
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, color: theme.colors.textSubtle }}>
+        <span>{hasInk ? "Signed" : "Sign above with your mouse or finger"}</span>
+        <button
+          type="button"
+          onClick={clear}
+          disabled={disabled || !hasInk}
+          style={{ background: "none", border: 0, color: theme.colors.accent, cursor: "pointer", padding: 0 }}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
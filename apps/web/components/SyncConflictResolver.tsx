@@ -0,0 +1,182 @@
+// Sync Conflict Resolver - lets site users settle offline writes the server rejected
+// Shown whenever the offline queue holds a conflict. Each conflicting field can be
+// kept from this device or taken from the server before the write is resent.
+import React, { useEffect, useState } from 'react';
+
+import { offlineSyncQueue } from '@/lib/offline-sync/queue';
+import type { ConflictResolution, QueuedSyncOperation, SyncOperationType } from '@/lib/offline-sync/types';
+import { theme } from '@/lib/theme';
+
+const OPERATION_LABELS: Record<SyncOperationType, string> = {
+  product_update: 'Product progress',
+  bulk_update: 'Bulk progress update',
+  daily_log: 'Daily log',
+  closeout: 'Daily closeout',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const buttonStyle = (variant: 'primary' | 'secondary'): React.CSSProperties => ({
+  padding: '6px 12px',
+  borderRadius: theme.radii.md,
+  border: `1px solid ${variant === 'primary' ? theme.colors.accent : theme.colors.border}`,
+  background: variant === 'primary' ? theme.colors.accent : 'transparent',
+  color: variant === 'primary' ? '#fff' : theme.colors.text,
+  cursor: 'pointer',
+  fontSize: 13,
+});
+
+function ConflictCard({ operation }: { operation: QueuedSyncOperation }) {
+  const conflict = operation.conflict!;
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'server'>>({});
+  const [saving, setSaving] = useState(false);
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setSaving(true);
+    try {
+      await offlineSyncQueue.resolveConflict(operation.idempotency_key, resolution, choices);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{
+      border: `1px solid ${theme.colors.border}`,
+      borderRadius: theme.radii.md,
+      padding: theme.spacing(3),
+      background: theme.colors.panelAlt,
+    }}>
+      <div style={{ fontWeight: 600 }}>{OPERATION_LABELS[conflict.operation]}</div>
+      <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginBottom: theme.spacing(2) }}>
+        {conflict.reason} · saved on this device {new Date(operation.timestamp).toLocaleString()}
+      </div>
+
+      {conflict.fields.length === 0 ? (
+        <div style={{ fontSize: 13, color: theme.colors.textSubtle }}>
+          The server already has the same values.
+        </div>
+      ) : (
+        <table style={{ width: '100%', fontSize: 13, borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: theme.colors.textSubtle }}>
+              <th style={{ padding: '4px 0' }}>Field</th>
+              <th>This device</th>
+              <th>Server</th>
+            </tr>
+          </thead>
+          <tbody>
+            {conflict.fields.map(field => {
+              const choice = choices[field] || 'mine';
+              return (
+                <tr key={field} style={{ borderTop: `1px solid ${theme.colors.border}` }}>
+                  <td style={{ padding: '4px 0' }}>{field.replace(/_/g, ' ')}</td>
+                  <td>
+                    <label style={{ cursor: 'pointer' }}>
+                      <input
+                        type="radio"
+                        checked={choice === 'mine'}
+                        onChange={() => setChoices(prev => ({ ...prev, [field]: 'mine' }))}
+                      />{' '}
+                      {formatValue(conflict.client_data[field])}
+                    </label>
+                  </td>
+                  <td>
+                    <label style={{ cursor: 'pointer' }}>
+                      <input
+                        type="radio"
+                        checked={choice === 'server'}
+                        onChange={() => setChoices(prev => ({ ...prev, [field]: 'server' }))}
+                      />{' '}
+                      {formatValue(conflict.server_data[field])}
+                    </label>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ display: 'flex', gap: theme.spacing(2), marginTop: theme.spacing(3), flexWrap: 'wrap' }}>
+        <button style={buttonStyle('secondary')} disabled={saving} onClick={() => resolve('keep_server')}>
+          Keep server
+        </button>
+        <button style={buttonStyle('secondary')} disabled={saving} onClick={() => resolve('keep_mine')}>
+          Keep mine
+        </button>
+        {conflict.fields.length > 0 && (
+          <button style={buttonStyle('primary')} disabled={saving} onClick={() => resolve('merge')}>
+            Use selected
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SyncConflictResolver() {
+  const [conflicts, setConflicts] = useState<QueuedSyncOperation[]>([]);
+  const [collapsed, setCollapsed] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = offlineSyncQueue.subscribe((event) => {
+      if (event.type === 'changed' || event.type === 'conflict') {
+        setConflicts(offlineSyncQueue.getConflicts());
+      }
+      if (event.type === 'conflict') setCollapsed(false);
+    });
+    void offlineSyncQueue.start().then(() => setConflicts(offlineSyncQueue.getConflicts()));
+    return unsubscribe;
+  }, []);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Sync conflicts"
+      style={{
+        position: 'fixed',
+        right: 16,
+        bottom: 16,
+        zIndex: 10000,
+        width: 'min(480px, calc(100vw - 32px))',
+        maxHeight: '70vh',
+        overflowY: 'auto',
+        background: theme.colors.panel,
+        color: theme.colors.text,
+        border: `1px solid ${theme.colors.warn}`,
+        borderRadius: theme.radii.lg,
+        boxShadow: theme.shadow,
+        padding: theme.spacing(4),
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <div>
+          <div style={{ fontWeight: 700 }}>
+            {conflicts.length} offline {conflicts.length === 1 ? 'change needs' : 'changes need'} review
+          </div>
+          <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>
+            Someone else updated these records while this device was offline.
+          </div>
+        </div>
+        <button style={buttonStyle('secondary')} onClick={() => setCollapsed(prev => !prev)}>
+          {collapsed ? 'Show' : 'Hide'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing(3), marginTop: theme.spacing(3) }}>
+          {conflicts.map(operation => (
+            <ConflictCard key={operation.idempotency_key} operation={operation} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,10 @@
 
 import React, { useState, useRef, useCallback } from 'react';
 
+import { useFurnitureCatalogue } from '../../hooks/useFurnitureCatalogue';
 import { theme } from '../../lib/theme';
 
-import { SMART_QUOTE_FURNITURE, getFurnitureByCategory, FURNITURE_CATEGORIES } from './SmartQuoteFurniture';
+import { FurnitureProduct, getFurnitureByCategory, FURNITURE_CATEGORIES } from './SmartQuoteFurniture';
 import { JobFloorPlan, PlacedFurniture, InstallationTask } from './types';
 
 interface Props {
@@ -44,10 +45,11 @@ export default function InteractiveFloorPlanner({
   const _pxToCm = useCallback((px: number) => px / scale, [scale]);
 
   // Get furniture for selected category
-  const availableFurniture = getFurnitureByCategory(selectedCategory);
+  const { furniture: catalogue } = useFurnitureCatalogue();
+  const availableFurniture = getFurnitureByCategory(selectedCategory, catalogue);
 
   // Add furniture to floor plan
-  const addFurniture = useCallback((furnitureType: typeof SMART_QUOTE_FURNITURE[0]) => {
+  const addFurniture = useCallback((furnitureType: FurnitureProduct) => {
     if (!floorPlan || !canManage) return;
 
     const newItem: PlacedFurniture = {
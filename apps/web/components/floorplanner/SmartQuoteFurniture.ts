@@ -1,7 +1,11 @@
 /**
  * SmartQuote Integrated Furniture Library
- * Complete furniture catalog with product codes, dimensions, and installation data
+ * Complete furniture catalog with product codes, dimensions, and installation data.
+ * The floor planner reads the product catalogue (product_catalogue_view) through
+ * catalogueFurniture(); SMART_QUOTE_FURNITURE is the fallback when the catalogue
+ * has no products with dimensions yet.
  */
+import { normalizeProductCode } from '../../lib/catalogueImport';
 
 export interface FurnitureProduct {
   id: string;
@@ -17,6 +21,7 @@ export interface FurnitureProduct {
   color: string;
   description?: string;
   price?: number;
+  aliases?: string[];
 }
 
 export const FURNITURE_CATEGORIES = {
@@ -265,28 +270,101 @@ export const SMART_QUOTE_FURNITURE: FurnitureProduct[] = [
   }
 ];
 
+/** A product_catalogue_view row as the floor planner reads it; dimensions are in mm */
+export type CatalogueFurnitureRow = {
+  id: string;
+  canonical_code: string;
+  canonical_name: string;
+  category: string | null;
+  description?: string | null;
+  install_time_hours: number;
+  dimension_l: number | null;
+  dimension_w: number | null;
+  dimension_h: number | null;
+  dimension_d: number | null;
+  weight_kg?: number | null;
+  list_price?: number | null;
+  discontinued_at?: string | null;
+  aliases: string[] | null;
+};
+
+const CATEGORY_COLORS: Record<string, string> = {
+  [FURNITURE_CATEGORIES.SEATING]: '#2563eb',
+  [FURNITURE_CATEGORIES.DESKS]: '#92400e',
+  [FURNITURE_CATEGORIES.STORAGE]: '#6b7280',
+  [FURNITURE_CATEGORIES.MEETING]: '#7c3aed',
+  [FURNITURE_CATEGORIES.RECEPTION]: '#db2777',
+  [FURNITURE_CATEGORIES.ACCESSORIES]: '#fbbf24'
+};
+
+/** The planner category for a catalogue category ('desk', 'chair', 'storage', ...) */
+const plannerCategory = (category: string | null): string => {
+  const value = (category || '').toLowerCase();
+  if (/chair|seat|stool|sofa/.test(value)) return FURNITURE_CATEGORIES.SEATING;
+  if (/desk|bench|workstation/.test(value)) return FURNITURE_CATEGORIES.DESKS;
+  if (/storage|pedestal|locker|cabinet|shelv|cupboard/.test(value)) return FURNITURE_CATEGORIES.STORAGE;
+  if (/meeting|conference|boardroom|table/.test(value)) return FURNITURE_CATEGORIES.MEETING;
+  if (/reception/.test(value)) return FURNITURE_CATEGORIES.RECEPTION;
+  return FURNITURE_CATEGORIES.ACCESSORIES;
+};
+
+/**
+ * Catalogue products the planner can place: current products with a footprint.
+ * Heavy follows SmartQuote's rule (configService): over 0.75h to install, or a
+ * sofa, co-work, duo or large product.
+ */
+export const catalogueFurniture = (rows: CatalogueFurnitureRow[]): FurnitureProduct[] => {
+  return rows
+    .filter(row => !row.discontinued_at && ((row.dimension_l && row.dimension_w) || row.dimension_d))
+    .map(row => {
+      const category = plannerCategory(row.category);
+      const installTimeHours = Number(row.install_time_hours) || 0;
+      const lowerName = row.canonical_name.toLowerCase();
+      return {
+        id: row.id,
+        name: row.canonical_name,
+        category,
+        productCode: row.canonical_code,
+        width_cm: Number(row.dimension_l || row.dimension_d) / 10,
+        depth_cm: Number(row.dimension_w || row.dimension_d) / 10,
+        height_cm: row.dimension_h ? Number(row.dimension_h) / 10 : undefined,
+        weight_kg: row.weight_kg ? Number(row.weight_kg) : undefined,
+        installTimeMinutes: Math.round(installTimeHours * 60),
+        isHeavy: installTimeHours > 0.75 || ['sofa', 'co-work', 'duo', 'large'].some(term => lowerName.includes(term)),
+        color: CATEGORY_COLORS[category],
+        description: row.description || undefined,
+        price: row.list_price ? Number(row.list_price) : undefined,
+        aliases: row.aliases ?? []
+      };
+    });
+};
+
 // Helper functions
-export const getFurnitureByCategory = (category: string): FurnitureProduct[] => {
-  return SMART_QUOTE_FURNITURE.filter(item => item.category === category);
+export const getFurnitureByCategory = (category: string, furniture: FurnitureProduct[] = SMART_QUOTE_FURNITURE): FurnitureProduct[] => {
+  return furniture.filter(item => item.category === category);
 };
 
-export const getFurnitureByProductCode = (productCode: string): FurnitureProduct | undefined => {
-  return SMART_QUOTE_FURNITURE.find(item => item.productCode === productCode);
+/** Matches on product code or alias, ignoring case, spaces and separators */
+export const getFurnitureByProductCode = (productCode: string, furniture: FurnitureProduct[] = SMART_QUOTE_FURNITURE): FurnitureProduct | undefined => {
+  const code = normalizeProductCode(productCode);
+  return furniture.find(item =>
+    [item.productCode, ...(item.aliases ?? [])].some(candidate => normalizeProductCode(candidate) === code)
+  );
 };
 
-export const getInstallationTime = (furnitureIds: string[]): number => {
-  return SMART_QUOTE_FURNITURE
+export const getInstallationTime = (furnitureIds: string[], furniture: FurnitureProduct[] = SMART_QUOTE_FURNITURE): number => {
+  return furniture
     .filter(item => furnitureIds.includes(item.id))
     .reduce((total, item) => total + item.installTimeMinutes, 0);
 };
 
-export const getHeavyItems = (furnitureIds: string[]): FurnitureProduct[] => {
-  return SMART_QUOTE_FURNITURE
+export const getHeavyItems = (furnitureIds: string[], furniture: FurnitureProduct[] = SMART_QUOTE_FURNITURE): FurnitureProduct[] => {
+  return furniture
     .filter(item => furnitureIds.includes(item.id) && item.isHeavy);
 };
 
-export const calculateTotalPrice = (furnitureIds: string[]): number => {
-  return SMART_QUOTE_FURNITURE
+export const calculateTotalPrice = (furnitureIds: string[], furniture: FurnitureProduct[] = SMART_QUOTE_FURNITURE): number => {
+  return furniture
     .filter(item => furnitureIds.includes(item.id))
     .reduce((total, item) => total + (item.price || 0), 0);
 };
\ No newline at end of file
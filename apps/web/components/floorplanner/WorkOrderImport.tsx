@@ -5,9 +5,10 @@
 
 import React, { useState, useCallback } from 'react';
 
+import { useFurnitureCatalogue } from '../../hooks/useFurnitureCatalogue';
 import { theme } from '../../lib/theme';
 
-import { SMART_QUOTE_FURNITURE as _SMART_QUOTE_FURNITURE, getFurnitureByProductCode } from './SmartQuoteFurniture';
+import { getFurnitureByProductCode } from './SmartQuoteFurniture';
 import { JobFloorPlan as _JobFloorPlan, PlacedFurniture } from './types';
 
 interface Props {
@@ -28,6 +29,7 @@ export default function WorkOrderImport({ onImportComplete, onClose }: Props) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [_pdfText, _setPdfText] = useState<string>('');
+  const { furniture: catalogue } = useFurnitureCatalogue();
 
   // Sample work order format for demonstration
   const sampleWorkOrder = `CHR001,2,Executive Chair,Office
@@ -298,7 +300,7 @@ SHF001`;
     let yOffset = 100;
 
     parsedItems.forEach(item => {
-      const productData = getFurnitureByProductCode(item.productCode);
+      const productData = getFurnitureByProductCode(item.productCode, catalogue);
       
       for (let i = 0; i < item.quantity; i++) {
         const furnitureItem: PlacedFurniture = {
@@ -654,7 +656,7 @@ SHF001`;
             
             <div style={{ display: 'grid', gap: 8, maxHeight: 200, overflow: 'auto' }}>
               {parsedItems.map((item, index) => {
-                const productData = getFurnitureByProductCode(item.productCode);
+                const productData = getFurnitureByProductCode(item.productCode, catalogue);
                 const isKnownProduct = !!productData;
                 
                 return (
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 
+import { useTranslation } from "../../lib/I18nProvider";
 import { supabase } from "../../lib/supabaseClient";
 import { theme } from "../../lib/theme";
 
@@ -20,6 +21,7 @@ export default function StatusPill(props: {
   const { status, jobId, canManage = false, onStatusChange, enableCycling = false, cycleInterval = 3000 } = props;
   const hasValidId = isUUID(jobId);
   const clickable = canManage && hasValidId;
+  const { t } = useTranslation();
   const [currentStatus, setCurrentStatus] = useState<JobStatus>(status);
   const [isHovered, setIsHovered] = useState(false);
 
@@ -40,12 +42,7 @@ export default function StatusPill(props: {
     }
   }
   function labelFor(s: JobStatus) {
-    switch (s) {
-      case "planned": return "Planned";
-      case "in_progress": return "In Progress";
-      case "snagging": return "Snagging";
-      case "completed": return "Completed";
-    }
+    return t(`jobStatus.${s}`);
   }
   const _dotColor = (s: JobStatus) => {
     switch (s) {
@@ -117,8 +114,8 @@ export default function StatusPill(props: {
       onMouseLeave={() => setIsHovered(false)}
       title={
         clickable
-          ? "Click to change status (Shift+Click for previous)"
-          : hasValidId ? "No permission" : "Job id not ready yet"
+          ? t("jobStatus.changeHint")
+          : hasValidId ? t("jobStatus.noPermission") : t("jobStatus.notReady")
       }
       style={{
         cursor: clickable ? "pointer" : "default",
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 
+import { useTranslation } from '@/lib/I18nProvider';
+
 interface DailyCloseOutProps {
   jobId: string;
   onCloseoutComplete: (closeoutId: string) => void;
@@ -30,7 +32,7 @@ interface CloseoutData {
     efficiency: number;
     projectedCompletion: Date;
     recommendedTeamSize: number;
-    efficiencyRating: string;
+    efficiencyRating: EfficiencyRating;
   };
   tomorrowPlan: {
     targets: { [productType: string]: number };
@@ -44,7 +46,21 @@ interface CloseoutData {
   };
 }
 
+type EfficiencyRating = 'excellent' | 'good' | 'fair' | 'poor';
+
+// Values are stored and emailed in English; only the labels are translated
+const WEATHER_OPTIONS = [
+  { value: 'Fair', label: 'fair' },
+  { value: 'Partly Cloudy', label: 'partlyCloudy' },
+  { value: 'Cloudy', label: 'cloudy' },
+  { value: 'Light Rain', label: 'lightRain' },
+  { value: 'Heavy Rain', label: 'heavyRain' },
+  { value: 'Hot', label: 'hot' },
+  { value: 'Cold', label: 'cold' }
+];
+
 export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseOutProps) {
+  const { t, formatDate, formatNumber } = useTranslation();
   const [isLoading, setIsLoading] = useState(false);
   const [closeoutData, setCloseoutData] = useState<CloseoutData | null>(null);
   const [formData, setFormData] = useState({
@@ -86,9 +102,9 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
             efficiency: analysis.efficiency || 100,
             projectedCompletion: new Date(analysis.projectedCompletion),
             recommendedTeamSize: analysis.requiredTeamSize || 4,
-            efficiencyRating: analysis.efficiency >= 100 ? 'Excellent' :
-                           analysis.efficiency >= 85 ? 'Good' :
-                           analysis.efficiency >= 70 ? 'Fair' : 'Poor'
+            efficiencyRating: analysis.efficiency >= 100 ? 'excellent' :
+                           analysis.efficiency >= 85 ? 'good' :
+                           analysis.efficiency >= 70 ? 'fair' : 'poor'
           },
           tomorrowPlan: analysis.tomorrowPlan || {
             targets: {},
@@ -138,7 +154,7 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
       }
     } catch (error: unknown) {
       console.error('Failed to submit closeout:', error);
-      alert('Failed to submit closeout. Please try again.');
+      alert(t('closeout.submitFailed'));
     } finally {
       setIsLoading(false);
     }
@@ -208,15 +224,6 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
     }));
   };
 
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-AU', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-
   if (isLoading && !closeoutData) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -229,19 +236,21 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
     <div className="space-y-6 pb-20">
       {/* Header */}
       <div className="bg-white rounded-lg p-6 border">
-        <h2 className="text-xl font-semibold text-gray-900 mb-2">Daily Close-Out</h2>
-        <p className="text-gray-600">{formatDate(new Date())}</p>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">{t('closeout.title')}</h2>
+        <p className="text-gray-600">
+          {formatDate(new Date(), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+        </p>
       </div>
 
       {/* Manual Input Section */}
       <div className="bg-white rounded-lg p-6 border">
-        <h3 className="text-lg font-medium text-gray-900 mb-4">Daily Summary</h3>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">{t('closeout.dailySummary')}</h3>
         
         <div className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Units Completed Today
+                {t('closeout.unitsCompletedToday')}
               </label>
               <input
                 type="number"
@@ -257,7 +266,7 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Hours Worked
+                {t('closeout.hoursWorked')}
               </label>
               <input
                 type="number"
@@ -276,7 +285,7 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Workers On-Site
+                {t('closeout.workersOnSite')}
               </label>
               <input
                 type="number"
@@ -292,7 +301,7 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Weather
+                {t('closeout.weather')}
               </label>
               <select
                 value={formData.weatherConditions}
@@ -302,27 +311,25 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
                 }))}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="Fair">Fair</option>
-                <option value="Partly Cloudy">Partly Cloudy</option>
-                <option value="Cloudy">Cloudy</option>
-                <option value="Light Rain">Light Rain</option>
-                <option value="Heavy Rain">Heavy Rain</option>
-                <option value="Hot">Hot</option>
-                <option value="Cold">Cold</option>
+                {WEATHER_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {t(`closeout.weatherOptions.${option.label}`)}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
           
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Notes
+              {t('common.notes')}
             </label>
             <textarea
               value={formData.notes}
               onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
               rows={3}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Any issues, delays, or important observations..."
+              placeholder={t('closeout.notesPlaceholder')}
             />
           </div>
         </div>
@@ -331,39 +338,42 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
       {/* Auto-Generated Summary */}
       {closeoutData && (
         <div className="bg-white rounded-lg p-6 border">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Progress Summary</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">{t('closeout.progressSummary')}</h3>
           
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-gray-50 rounded-lg p-4">
-                <div className="text-sm text-gray-600">Overall Progress</div>
+                <div className="text-sm text-gray-600">{t('closeout.overallProgress')}</div>
                 <div className="text-2xl font-bold text-gray-900">
                   {Math.round(closeoutData.autoGenerated.overallProgress)}%
                 </div>
                 <div className="text-sm text-gray-500">
-                  {closeoutData.autoGenerated.totalUnitsCompleted} / {closeoutData.autoGenerated.totalUnits} units
+                  {t('closeout.unitsProgress', {
+                    completed: closeoutData.autoGenerated.totalUnitsCompleted,
+                    total: closeoutData.autoGenerated.totalUnits
+                  })}
                 </div>
               </div>
               
               <div className="bg-gray-50 rounded-lg p-4">
-                <div className="text-sm text-gray-600">Efficiency</div>
+                <div className="text-sm text-gray-600">{t('closeout.efficiency')}</div>
                 <div className="text-2xl font-bold text-gray-900">
                   {Math.round(closeoutData.labourAnalysis.efficiency)}%
                 </div>
                 <div className="text-sm text-gray-500">
-                  {closeoutData.labourAnalysis.efficiencyRating}
+                  {t(`closeout.rating.${closeoutData.labourAnalysis.efficiencyRating}`)}
                 </div>
               </div>
             </div>
             
             <div>
-              <h4 className="font-medium text-gray-900 mb-2">Product Breakdown</h4>
+              <h4 className="font-medium text-gray-900 mb-2">{t('closeout.productBreakdown')}</h4>
               <div className="space-y-2">
                 {closeoutData.autoGenerated.productBreakdown.slice(0, 5).map((product, index) => (
                   <div key={index} className="flex items-center justify-between">
                     <span className="text-gray-700">{product.product_name}</span>
                     <span className="text-gray-600">
-                      {product.completed} / {product.total} ({product.progress}%)
+                      {formatNumber(product.completed)} / {formatNumber(product.total)} ({formatNumber(product.progress)}%)
                     </span>
                   </div>
                 ))}
@@ -376,23 +386,23 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
       {/* Tomorrow's Plan */}
       {closeoutData && closeoutData.tomorrowPlan.priority.length > 0 && (
         <div className="bg-white rounded-lg p-6 border">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Tomorrow&apos;s Plan</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">{t('closeout.tomorrowsPlan')}</h3>
           
           <div className="space-y-4">
             <div className="bg-blue-50 rounded-lg p-4">
               <div className="text-sm text-blue-600 font-medium">
-                Estimated {closeoutData.tomorrowPlan.estimatedHours} hours
+                {t('closeout.estimatedHours', { hours: closeoutData.tomorrowPlan.estimatedHours })}
               </div>
             </div>
             
             <div>
-              <h4 className="font-medium text-gray-900 mb-2">Priority Items</h4>
+              <h4 className="font-medium text-gray-900 mb-2">{t('closeout.priorityItems')}</h4>
               <div className="space-y-2">
                 {closeoutData.tomorrowPlan.priority.slice(0, 3).map((item, index) => (
                   <div key={index} className="flex items-center justify-between">
                     <span className="text-gray-700">{item.product_name}</span>
                     <span className="text-gray-600">
-                      {item.units_remaining} units remaining
+                      {t('closeout.unitsRemaining', { count: item.units_remaining })}
                     </span>
                   </div>
                 ))}
@@ -401,7 +411,7 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
             
             {closeoutData.tomorrowPlan.recommendations.length > 0 && (
               <div>
-                <h4 className="font-medium text-gray-900 mb-2">Recommendations</h4>
+                <h4 className="font-medium text-gray-900 mb-2">{t('closeout.recommendations')}</h4>
                 <ul className="space-y-1">
                   {closeoutData.tomorrowPlan.recommendations.map((rec, index) => (
                     <li key={index} className="text-sm text-gray-600">• {rec}</li>
@@ -415,27 +425,27 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
 
       {/* Digital Signatures */}
       <div className="bg-white rounded-lg p-6 border">
-        <h3 className="text-lg font-medium text-gray-900 mb-4">Signatures</h3>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">{t('closeout.signatures')}</h3>
         
         <div className="space-y-6">
           {['supervisor', 'contractor'].map((role) => (
             <div key={role}>
               <div className="flex items-center justify-between mb-2">
                 <label className="block text-sm font-medium text-gray-700">
-                  {role.charAt(0).toUpperCase() + role.slice(1)} Signature
+                  {t(`closeout.${role}Signature`)}
                 </label>
                 <div className="flex space-x-2">
                   <button
                     onClick={() => setActiveSignature(role as 'supervisor' | 'contractor')}
                     className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
                   >
-                    Sign
+                    {t('closeout.sign')}
                   </button>
                   <button
                     onClick={clearSignature}
                     className="px-3 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
                   >
-                    Clear
+                    {t('closeout.clear')}
                   </button>
                 </div>
               </div>
@@ -479,11 +489,11 @@ export default function DailyCloseOut({ jobId, onCloseoutComplete }: DailyCloseO
           disabled={isLoading || !formData.supervisorSignature || !formData.contractorSignature}
           className="w-full bg-blue-500 text-white py-4 px-6 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-600 transition-colors"
         >
-          {isLoading ? 'Creating Close-Out...' : 'Complete Daily Close-Out'}
+          {isLoading ? t('closeout.submitting') : t('closeout.submit')}
         </button>
         
         <p className="text-sm text-gray-500 mt-2 text-center">
-          This will generate a PDF report and send email notifications
+          {t('closeout.submitHint')}
         </p>
       </div>
     </div>
@@ -0,0 +1,126 @@
+// Required tickets for a job - derived from its risk flags and products, plus
+// any declared here. Shifts for operatives without a blocking ticket are refused.
+import React, { useCallback, useEffect, useState } from 'react';
+
+import {
+  TICKET_LABELS,
+  TICKET_TYPES,
+  describeTickets,
+  type JobTicketRow,
+  type TicketEnforcement,
+  type TicketRequirement,
+  type TicketType,
+} from '@/lib/competencies';
+import { declareJobTicket, fetchJobTickets, removeJobTicket } from '@/lib/labourApi';
+import { theme } from '@/lib/theme';
+
+type Props = { jobId: string; canManage: boolean };
+
+export default function RequiredTickets({ jobId, canManage }: Props) {
+  const [requirements, setRequirements] = useState<TicketRequirement[]>([]);
+  const [declared, setDeclared] = useState<JobTicketRow[]>([]);
+  const [ticket, setTicket] = useState<TicketType>('IPAF');
+  const [enforcement, setEnforcement] = useState<TicketEnforcement>('block');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetchJobTickets(jobId);
+      setRequirements(data.requirements);
+      setDeclared(data.declared);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputStyle = {
+    padding: '4px 6px',
+    background: theme.colors.panelAlt,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.sm,
+    color: theme.colors.text,
+    fontSize: 12
+  };
+
+  return (
+    <div style={{ fontSize: 12, color: theme.colors.text }}>
+      {requirements.length === 0 ? (
+        <div style={{ color: theme.colors.textSubtle }}>No tickets required.</div>
+      ) : (
+        requirements.map(requirement => (
+          <div key={requirement.accepted.join('|')} style={{ display: 'flex', justifyContent: 'space-between', gap: 8, marginBottom: 6 }}>
+            <div>
+              <div style={{ fontWeight: 600 }}>{describeTickets(requirement.accepted)}</div>
+              <div style={{ color: theme.colors.textSubtle }}>{requirement.reasons.join(' · ')}</div>
+            </div>
+            <span style={{ color: requirement.enforcement === 'block' ? theme.colors.danger : theme.colors.warn, fontWeight: 600 }}>
+              {requirement.enforcement === 'block' ? 'Required' : 'Advised'}
+            </span>
+          </div>
+        ))
+      )}
+
+      {canManage && (
+        <>
+          {declared.length > 0 && (
+            <div style={{ marginTop: 8, borderTop: `1px solid ${theme.colors.border}`, paddingTop: 8 }}>
+              {declared.map(row => (
+                <div key={row.id} style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 4 }}>
+                  <span>{describeTickets(row.accepted_tickets)}{row.note ? ` - ${row.note}` : ''}</span>
+                  <button
+                    onClick={() => run(() => removeJobTicket(jobId, row.id))}
+                    disabled={busy}
+                    style={{ background: 'none', border: 'none', color: theme.colors.danger, cursor: 'pointer', fontSize: 12 }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginTop: 8 }}>
+            <select value={ticket} onChange={e => setTicket(e.target.value as TicketType)} style={inputStyle}>
+              {TICKET_TYPES.map(type => <option key={type} value={type}>{TICKET_LABELS[type]}</option>)}
+            </select>
+            <select value={enforcement} onChange={e => setEnforcement(e.target.value as TicketEnforcement)} style={inputStyle}>
+              <option value="block">Required</option>
+              <option value="warn">Advised</option>
+            </select>
+            <input placeholder="Why (optional)" value={note} onChange={e => setNote(e.target.value)} style={{ ...inputStyle, flex: 1 }} />
+            <button
+              disabled={busy}
+              onClick={() => run(async () => {
+                await declareJobTicket(jobId, [ticket], enforcement, note);
+                setNote('');
+              })}
+              style={{ ...inputStyle, cursor: 'pointer', fontWeight: 600 }}
+            >
+              Add
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <div style={{ marginTop: 6, color: theme.colors.danger }}>{error}</div>}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
 
+import RequiredTickets from '@/components/labour/RequiredTickets';
 import { useUserRole } from '@/hooks/useUserRole';
-import { canEditLabour } from '@/lib/roles';
+import { saveJobAllocations } from '@/lib/labourApi';
+import { canEdit, canEditLabour } from '@/lib/roles';
 import { supabase } from '@/lib/supabaseClient';
 
 interface LabourTabProps {
@@ -533,54 +535,9 @@ const LabourTab: React.FC<LabourTabProps> = ({ jobId }) => {
     }
 
     try {
-      // Delete existing allocations for this job
-      await supabase
-        .from('labour_allocations')
-        .delete()
-        .eq('job_id', job.id);
-
-      // Insert new allocations
-      const allocationInserts = [];
-
-      for (const [date, allocation] of Object.entries(allocations)) {
-        if (allocation.van > 0) {
-          allocationInserts.push({
-            job_id: job.id,
-            work_date: date,
-            role: 'installer',
-            crew_mode: 'van',
-            headcount: allocation.van
-          });
-        }
-
-        if (allocation.foot > 0) {
-          allocationInserts.push({
-            job_id: job.id,
-            work_date: date,
-            role: 'installer',
-            crew_mode: 'foot',
-            headcount: allocation.foot
-          });
-        }
-
-        if (allocation.supervisor > 0) {
-          allocationInserts.push({
-            job_id: job.id,
-            work_date: date,
-            role: 'supervisor',
-            crew_mode: null,
-            headcount: allocation.supervisor
-          });
-        }
-      }
-
-      if (allocationInserts.length > 0) {
-        const { error } = await supabase
-          .from('labour_allocations')
-          .insert(allocationInserts);
-
-        if (error) throw error;
-      }
+      // Saved through the API so the day-by-day capacity check runs
+      const saved = await saveJobAllocations(job.id, allocations);
+      if (!saved) return;
 
       alert('Schedule saved successfully!');
     } catch (error: unknown) {
@@ -1372,6 +1329,11 @@ const LabourTab: React.FC<LabourTabProps> = ({ jobId }) => {
             </div>
           </div>
 
+          <div className="timeline-section">
+            <h3 className="section-title">🎫 Required Tickets</h3>
+            <RequiredTickets jobId={jobId} canManage={canEdit(userRole)} />
+          </div>
+
           <div className="timeline-section">
             <h3 className="section-title">👷 Crew Calculation</h3>
             <div className="crew-requirements">
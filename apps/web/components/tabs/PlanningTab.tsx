@@ -1,11 +1,19 @@
 // apps/web/components/tabs/PlanningTab.tsx
 import { useEffect, useMemo, useState } from "react";
 
+import { getDocSignedUrl } from "../../lib/docs";
 import { supabase } from "../../lib/supabaseClient";
 import { theme } from "../../lib/theme";
 
 type Planning = { job_id: string; status: "pending" | "ready" | "blocked"; notes: string | null };
 type RiskRow = { id: string; job_id: string; code: string; label: string; level: "info" | "warn" | "critical" };
+type RamsRow = {
+  id: string;
+  version: number;
+  storage_path: string;
+  created_at: string;
+  rams_signatures: Array<{ user_id: string; signature_name: string; signed_at: string }>;
+};
 
 const RISK_OPTIONS: Array<{ code: string; label: string; level: RiskRow["level"] }> = [
   { code: "ELEVATION", label: "Work at height", level: "warn" },
@@ -19,6 +27,8 @@ export default function PlanningTab({ jobId, canManage }: { jobId: string; canMa
   const [risks, setRisks] = useState<RiskRow[]>([]);
   const [saving, setSaving] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
+  const [rams, setRams] = useState<RamsRow | null>(null);
+  const [issuing, setIssuing] = useState(false);
 
   const riskByCode = useMemo(() => {
     const m = new Map<string, RiskRow>();
@@ -33,6 +43,44 @@ export default function PlanningTab({ jobId, canManage }: { jobId: string; canMa
     ]);
     if (pData) setP(pData as Planning);
     if (Array.isArray(rData)) setRisks(rData as RiskRow[]);
+    loadRams();
+  }
+
+  async function ramsRequest(method: "GET" | "POST") {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Not signed in");
+    const res = await fetch(`/api/jobs/${jobId}/rams`, {
+      method,
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    });
+    const body = await res.json();
+    if (!res.ok) throw new Error(body.error || "RAMS request failed");
+    return body.data as RamsRow | null;
+  }
+
+  async function loadRams() {
+    try {
+      setRams(await ramsRequest("GET"));
+    } catch (e: unknown) {
+      console.error("Failed to load RAMS:", e);
+    }
+  }
+
+  async function issueRams() {
+    setIssuing(true);
+    setMsg(null);
+    try {
+      setRams(await ramsRequest("POST"));
+    } catch (e: unknown) {
+      setMsg((e as Error).message ?? "RAMS failed");
+    } finally {
+      setIssuing(false);
+    }
+  }
+
+  async function openRams() {
+    if (!rams) return;
+    window.open(await getDocSignedUrl(rams.storage_path), "_blank", "noopener");
   }
 
   useEffect(() => {
@@ -132,6 +180,48 @@ export default function PlanningTab({ jobId, canManage }: { jobId: string; canMa
         </div>
       </div>
 
+      <div style={{ padding: 16 }}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>RAMS</div>
+        <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+          {rams ? (
+            <>
+              <button
+                onClick={openRams}
+                style={{ background: "transparent", border: "none", color: theme.colors.accent, cursor: "pointer", padding: 0 }}
+              >
+                Version {rams.version}
+              </button>
+              <span style={{ color: theme.colors.textSubtle, fontSize: 12 }}>
+                Issued {new Date(rams.created_at).toLocaleDateString("en-GB")} · {rams.rams_signatures.length} signed
+              </span>
+            </>
+          ) : (
+            <span style={{ color: theme.colors.textSubtle }}>No RAMS issued yet.</span>
+          )}
+          {canManage && (
+            <button
+              disabled={issuing}
+              onClick={issueRams}
+              style={{
+                padding: "8px 12px",
+                borderRadius: 10,
+                border: `1px solid ${theme.colors.border}`,
+                background: "#0f151c",
+                color: theme.colors.text,
+                cursor: issuing ? "default" : "pointer",
+              }}
+            >
+              {issuing ? "Generating..." : rams ? "Issue new version" : "Generate RAMS"}
+            </button>
+          )}
+        </div>
+        {rams && rams.rams_signatures.length > 0 && (
+          <div style={{ marginTop: 8, fontSize: 12, color: theme.colors.textSubtle }}>
+            Signed by {rams.rams_signatures.map((s) => s.signature_name).join(", ")}
+          </div>
+        )}
+      </div>
+
       <div style={{ padding: 16 }}>
         <div style={{ fontWeight: 600, marginBottom: 8 }}>Notes</div>
         <textarea
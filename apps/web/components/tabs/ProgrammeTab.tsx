@@ -0,0 +1,268 @@
+/**
+ * ProgrammeTab — Gantt of the job's generated tasks over its labour allocations
+ *
+ * - Scheduling happens server-side (lib/programme.ts); this only draws it
+ * - Critical tasks are red; bars running past the allocated days are dashed
+ * - Dragging a bar holds the task back to the dropped day (start-no-earlier-than)
+ * - CSV and Microsoft Project XML exports for main contractors
+ */
+
+import React from "react";
+
+import { downloadProgramme, fetchProgramme, setTaskStartConstraint } from "@/lib/labourApi";
+import type { Programme, ScheduledTask } from "@/lib/programme";
+import { theme } from "@/lib/theme";
+import { addDays } from "@/lib/utils/dates";
+
+type Props = { jobId: string; canManage: boolean };
+
+const DAY_WIDTH = 28;
+const ROW_HEIGHT = 32;
+const NAME_WIDTH = 260;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function describeDriver(task: ScheduledTask, programme: Programme): string {
+  const title = (id: string) => programme.tasks.find((t) => t.id === id)?.title ?? "another task";
+  switch (task.driver.kind) {
+    case "predecessor":
+      return `after ${title(task.driver.taskId)}`;
+    case "crew":
+      return `waiting for the crew on ${title(task.driver.taskId)}`;
+    case "constraint":
+      return `held to ${task.start_no_earlier_than}`;
+    default:
+      return "first allocated day";
+  }
+}
+
+export default function ProgrammeTab({ jobId, canManage }: Props) {
+  const [programme, setProgramme] = React.useState<Programme | null>(null);
+  const [drag, setDrag] = React.useState<{ taskId: string; originX: number; offset: number } | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      setProgramme(await fetchProgramme(jobId));
+    } catch (e: unknown) {
+      setErr((e as Error).message);
+    }
+  }, [jobId]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setErr(null);
+    try {
+      await action();
+    } catch (e: unknown) {
+      setErr((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const reschedule = (task: ScheduledTask, date: string | null) =>
+    run(async () => setProgramme(await setTaskStartConstraint(jobId, task.id, date)));
+
+  function startDrag(task: ScheduledTask, e: React.PointerEvent<HTMLDivElement>) {
+    if (!canManage || busy) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ taskId: task.id, originX: e.clientX, offset: 0 });
+  }
+
+  function moveDrag(e: React.PointerEvent<HTMLDivElement>) {
+    if (!drag) return;
+    setDrag({ ...drag, offset: Math.round((e.clientX - drag.originX) / DAY_WIDTH) });
+  }
+
+  function endDrag(task: ScheduledTask) {
+    if (!drag) return;
+    const { offset } = drag;
+    setDrag(null);
+    if (offset !== 0) reschedule(task, addDays(task.start, offset));
+  }
+
+  if (!programme) {
+    return <div style={{ color: theme.colors.textSubtle }}>{err ?? "Loading programme..."}</div>;
+  }
+
+  if (programme.tasks.length === 0 || !programme.start || !programme.finish) {
+    return (
+      <div style={{ padding: 24, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg, color: theme.colors.textSubtle }}>
+        No tasks to programme yet. Generate tasks from the floor plan or job documents first.
+      </div>
+    );
+  }
+
+  const firstDay = programme.start;
+  const span = daysBetween(firstDay, programme.finish) + 1;
+  const dates = Array.from({ length: span }, (_, i) => addDays(firstDay, i));
+  const working = new Map(programme.days.map((day) => [day.date, day]));
+  const rowOf = new Map(programme.tasks.map((task, index) => [task.id, index]));
+  const critical = programme.tasks.filter((task) => task.critical).length;
+  const beyond = programme.tasks.some((task) => task.beyondAllocation);
+
+  const buttonStyle = {
+    padding: "6px 12px",
+    background: theme.colors.panelAlt,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.md,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: "pointer",
+  };
+
+  return (
+    <div style={{ color: theme.colors.text }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-end", gap: 12, flexWrap: "wrap", marginBottom: 12 }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 700 }}>
+            {programme.start} → {programme.finish}
+          </div>
+          <div style={{ fontSize: 13, color: theme.colors.textSubtle }}>
+            {programme.tasks.length} task(s), {critical} on the critical path
+            {canManage && " · drag a bar to hold a task back"}
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button style={buttonStyle} disabled={busy} onClick={() => run(() => downloadProgramme(jobId, "csv"))}>
+            Export CSV
+          </button>
+          <button style={buttonStyle} disabled={busy} onClick={() => run(() => downloadProgramme(jobId, "xml"))}>
+            Export MS Project
+          </button>
+        </div>
+      </div>
+
+      {err && <div style={{ marginBottom: 8, color: theme.colors.danger, fontSize: 13 }}>{err}</div>}
+      {beyond && (
+        <div style={{ marginBottom: 8, color: theme.colors.warn, fontSize: 13 }}>
+          The work runs past the allocated days; dashed bars assume the last day&apos;s crew carries on. Allocate more labour to firm these up.
+        </div>
+      )}
+      {programme.warnings.map((warning) => (
+        <div key={warning} style={{ marginBottom: 4, color: theme.colors.warn, fontSize: 12 }}>{warning}</div>
+      ))}
+
+      <div style={{ display: "flex", background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg, overflow: "hidden" }}>
+        <div style={{ width: NAME_WIDTH, flexShrink: 0, borderRight: `1px solid ${theme.colors.border}` }}>
+          <div style={{ height: ROW_HEIGHT, borderBottom: `1px solid ${theme.colors.border}`, padding: "0 8px", display: "flex", alignItems: "center", fontSize: 12, color: theme.colors.textSubtle }}>
+            Task
+          </div>
+          {programme.tasks.map((task) => (
+            <div
+              key={task.id}
+              style={{ height: ROW_HEIGHT, padding: "0 8px", display: "flex", alignItems: "center", justifyContent: "space-between", gap: 6, fontSize: 12, borderBottom: `1px solid ${theme.colors.border}` }}
+            >
+              <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", fontWeight: task.critical ? 700 : 400 }} title={task.title}>
+                {task.title}
+              </span>
+              {canManage && task.start_no_earlier_than && (
+                <button
+                  title={`Held to ${task.start_no_earlier_than}; release it`}
+                  disabled={busy}
+                  onClick={() => reschedule(task, null)}
+                  style={{ background: "none", border: "none", color: theme.colors.accentAlt, cursor: "pointer", fontSize: 12, flexShrink: 0 }}
+                >
+                  Release
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ overflowX: "auto", flex: 1 }}>
+          <div style={{ position: "relative", width: span * DAY_WIDTH, minHeight: ROW_HEIGHT * (programme.tasks.length + 1) }}>
+            {dates.map((date, i) => {
+              const day = working.get(date);
+              return (
+                <div
+                  key={date}
+                  title={day ? `${date}: ${day.hours} crew hours${day.allocated ? "" : " (not allocated)"}` : `${date}: no labour`}
+                  style={{
+                    position: "absolute",
+                    left: i * DAY_WIDTH,
+                    top: 0,
+                    bottom: 0,
+                    width: DAY_WIDTH,
+                    borderRight: `1px solid ${theme.colors.border}`,
+                    background: day ? "transparent" : theme.colors.panelAlt,
+                  }}
+                >
+                  <div style={{ height: ROW_HEIGHT, display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", fontSize: 10, color: theme.colors.textSubtle, borderBottom: `1px solid ${theme.colors.border}` }}>
+                    {(i === 0 || date.endsWith("-01")) && <span>{date.slice(5, 7)}/</span>}
+                    <span>{date.slice(8)}</span>
+                  </div>
+                </div>
+              );
+            })}
+
+            <svg
+              width={span * DAY_WIDTH}
+              height={ROW_HEIGHT * (programme.tasks.length + 1)}
+              style={{ position: "absolute", left: 0, top: 0, pointerEvents: "none" }}
+            >
+              {programme.tasks.flatMap((task) =>
+                task.predecessors.map((id) => {
+                  const predecessor = programme.tasks[rowOf.get(id)!];
+                  const x1 = (daysBetween(firstDay, predecessor.finish) + 1) * DAY_WIDTH;
+                  const y1 = (rowOf.get(id)! + 1.5) * ROW_HEIGHT;
+                  const x2 = daysBetween(firstDay, task.start) * DAY_WIDTH;
+                  const y2 = (rowOf.get(task.id)! + 1.5) * ROW_HEIGHT;
+                  return (
+                    <polyline
+                      key={`${id}-${task.id}`}
+                      points={`${x1},${y1} ${x1 + 4},${y1} ${x1 + 4},${y2} ${Math.max(x2, x1 + 4)},${y2}`}
+                      fill="none"
+                      stroke={predecessor.critical && task.critical ? theme.colors.danger : theme.colors.textSubtle}
+                      strokeWidth={1}
+                      opacity={0.6}
+                    />
+                  );
+                })
+              )}
+            </svg>
+
+            {programme.tasks.map((task, row) => {
+              const offset = drag?.taskId === task.id ? drag.offset : 0;
+              const left = (daysBetween(firstDay, task.start) + offset) * DAY_WIDTH;
+              const width = (daysBetween(task.start, task.finish) + 1) * DAY_WIDTH;
+              const color = task.critical ? theme.colors.danger : theme.colors.accent;
+              return (
+                <div
+                  key={task.id}
+                  title={`${task.title}\n${task.start} → ${task.finish} · ${task.workHours.toFixed(1)} crew hours · ${describeDriver(task, programme)}`}
+                  onPointerDown={(e) => startDrag(task, e)}
+                  onPointerMove={moveDrag}
+                  onPointerUp={() => endDrag(task)}
+                  onPointerCancel={() => setDrag(null)}
+                  style={{
+                    position: "absolute",
+                    left: left + 2,
+                    top: (row + 1) * ROW_HEIGHT + 6,
+                    width: width - 4,
+                    height: ROW_HEIGHT - 12,
+                    background: color,
+                    opacity: drag?.taskId === task.id ? 0.7 : 1,
+                    border: task.beyondAllocation ? `2px dashed ${theme.colors.warn}` : "none",
+                    borderRadius: theme.radii.sm,
+                    cursor: canManage ? "grab" : "default",
+                    touchAction: "none",
+                  }}
+                />
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
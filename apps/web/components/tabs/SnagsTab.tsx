@@ -0,0 +1,429 @@
+/**
+ * SnagsTab — snag list for a job, pinned to its floor plan
+ *
+ * - Photos go to the private "job-photos" bucket under {jobId}/snags/
+ * - Pins use the floor plan's pixel space, as placed furniture does
+ * - Fixed snags are closed by the client from the guest share link, or here
+ * - The job cannot move to completed while any snag is unresolved (migration 054)
+ */
+
+import React from "react";
+
+import type { JobFloorPlan } from "@/components/floorplanner/types";
+import { getFloorPlanForJob } from "@/lib/floorPlannerDB";
+import {
+  RESPONSIBLE_PARTIES,
+  RESPONSIBLE_PARTY_LABELS,
+  SNAG_CATEGORIES,
+  SNAG_CATEGORY_LABELS,
+  SNAG_PHOTO_BUCKET,
+  SNAG_STATUS_LABELS,
+  allowedSnagTransitions,
+  furnitureAtPoint,
+  isSnagOverdue,
+  summarizeSnags,
+  type ResponsibleParty,
+  type Snag,
+  type SnagCategory,
+  type SnagStatus,
+} from "@/lib/snags";
+import { supabase } from "@/lib/supabaseClient";
+import { theme } from "@/lib/theme";
+
+type Props = { jobId: string; canManage: boolean };
+
+type Draft = {
+  description: string;
+  location: string;
+  category: SnagCategory;
+  responsible_party: ResponsibleParty;
+  due_date: string;
+  photo: File | null;
+  pin: { x: number; y: number; furnitureId: string | null } | null;
+};
+
+const EMPTY_DRAFT: Draft = {
+  description: "",
+  location: "",
+  category: "functional",
+  responsible_party: "installer",
+  due_date: "",
+  photo: null,
+  pin: null,
+};
+
+export default function SnagsTab({ jobId, canManage }: Props) {
+  const [snags, setSnags] = React.useState<Snag[]>([]);
+  const [plan, setPlan] = React.useState<JobFloorPlan | null>(null);
+  const [photoUrls, setPhotoUrls] = React.useState<Record<string, string>>({});
+  const [draft, setDraft] = React.useState<Draft>(EMPTY_DRAFT);
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [share, setShare] = React.useState<{ shareUrl: string; pin: string } | null>(null);
+  const [planSize, setPlanSize] = React.useState<{ width: number; height: number } | null>(null);
+
+  const today = new Date().toISOString().split("T")[0];
+  const summary = summarizeSnags(snags, today);
+
+  const load = React.useCallback(async () => {
+    const { data, error } = await supabase
+      .from("snags")
+      .select("*")
+      .eq("job_id", jobId)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true });
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    const rows = (data as Snag[]) ?? [];
+    setSnags(rows);
+
+    const paths = rows.map((s) => s.photo_path).filter((p): p is string => !!p);
+    if (paths.length > 0) {
+      const { data: signed } = await supabase.storage.from(SNAG_PHOTO_BUCKET).createSignedUrls(paths, 3600);
+      const urls: Record<string, string> = {};
+      (signed ?? []).forEach((s) => {
+        if (s.path && s.signedUrl) urls[s.path] = s.signedUrl;
+      });
+      setPhotoUrls(urls);
+    }
+  }, [jobId]);
+
+  React.useEffect(() => {
+    load();
+    getFloorPlanForJob(jobId).then(setPlan).catch(() => setPlan(null));
+  }, [jobId, load]);
+
+  // Plan pixel space: recorded size, else the image's own
+  const planWidth = plan?.floorPlanWidth || planSize?.width || 0;
+  const planHeight = plan?.floorPlanHeight || planSize?.height || 0;
+
+  function placePin(e: React.MouseEvent<HTMLDivElement>) {
+    if (!plan || !canManage || !planWidth) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * planWidth;
+    const y = ((e.clientY - rect.top) / rect.height) * planHeight;
+    const item = furnitureAtPoint(plan, x, y);
+    setDraft((d) => ({
+      ...d,
+      pin: { x: Math.round(x), y: Math.round(y), furnitureId: item?.id ?? null },
+      location: d.location || item?.roomZone || item?.name || "",
+    }));
+  }
+
+  async function addSnag() {
+    if (!draft.description.trim()) {
+      setErr("Describe the snag first.");
+      return;
+    }
+    setBusy(true);
+    setErr(null);
+    try {
+      const { data: u } = await supabase.auth.getUser();
+
+      let photoPath: string | null = null;
+      if (draft.photo) {
+        photoPath = `${jobId}/snags/${crypto.randomUUID()}-${draft.photo.name.replace(/[^\w\-.]+/g, "_")}`;
+        const { error: upErr } = await supabase.storage.from(SNAG_PHOTO_BUCKET).upload(photoPath, draft.photo, {
+          cacheControl: "3600",
+          upsert: false,
+          contentType: draft.photo.type,
+        });
+        if (upErr) throw upErr;
+      }
+
+      const { error } = await supabase.from("snags").insert({
+        job_id: jobId,
+        description: draft.description.trim(),
+        location: draft.location.trim() || null,
+        category: draft.category,
+        responsible_party: draft.responsible_party,
+        due_date: draft.due_date || null,
+        photo_path: photoPath,
+        floorplan_id: draft.pin ? plan?.id ?? null : null,
+        furniture_id: draft.pin?.furnitureId ?? null,
+        pin_x: draft.pin?.x ?? null,
+        pin_y: draft.pin?.y ?? null,
+        created_by: u?.user?.id ?? null,
+      });
+      if (error) {
+        if (photoPath) await supabase.storage.from(SNAG_PHOTO_BUCKET).remove([photoPath]).catch(() => {});
+        throw error;
+      }
+
+      setDraft(EMPTY_DRAFT);
+      await load();
+    } catch (e: unknown) {
+      setErr((e as Error).message ?? "Failed to add snag");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function moveSnag(snag: Snag, next: SnagStatus) {
+    let waivedReason: string | null = null;
+    if (next === "waived") {
+      waivedReason = window.prompt("Why is this snag being waived?")?.trim() || null;
+      if (!waivedReason) return;
+    }
+    setErr(null);
+    const { error } = await supabase
+      .from("snags")
+      .update({
+        status: next,
+        waived_reason: next === "waived" ? waivedReason : null,
+        ...(next === "open" ? { signed_off_by: null, signed_off_at: null } : {}),
+      })
+      .eq("id", snag.id);
+    if (error) setErr(error.message);
+    else await load();
+  }
+
+  async function shareForSignOff() {
+    setErr(null);
+    const res = await fetch("/api/jobs/create-share", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jobId, hoursValid: 72 }),
+    });
+    const body = await res.json();
+    if (!res.ok) {
+      setErr(body.error || "Failed to create share link");
+      return;
+    }
+    setShare({ shareUrl: body.shareUrl, pin: body.pin });
+  }
+
+  async function openReport() {
+    setErr(null);
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+    const res = await fetch(`/api/jobs/${jobId}/snag-report`, {
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    });
+    if (!res.ok) {
+      setErr("Failed to generate snag report");
+      return;
+    }
+    window.open(URL.createObjectURL(await res.blob()), "_blank", "noopener");
+  }
+
+  const pinned = snags.map((s, i) => ({ snag: s, number: i + 1 })).filter(({ snag }) => snag.pin_x !== null);
+
+  return (
+    <div style={{ display: "grid", gap: 16 }}>
+      <div style={{ padding: 16, display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+        <div style={{ fontWeight: 600 }}>Snags</div>
+        <span style={{ color: theme.colors.textSubtle, fontSize: 12 }}>
+          {summary.unresolved} unresolved of {summary.total}
+          {summary.overdue > 0 && <span style={{ color: theme.colors.danger }}> · {summary.overdue} overdue</span>}
+        </span>
+        <span style={{ marginLeft: "auto" }} />
+        <button onClick={openReport} style={buttonStyle()}>Snag report (PDF)</button>
+        {canManage && <button onClick={shareForSignOff} style={buttonStyle()}>Share for client sign-off</button>}
+      </div>
+
+      {share && (
+        <div style={{ padding: 12, border: `1px solid ${theme.colors.border}`, borderRadius: 10, fontSize: 13 }}>
+          Send the client <a href={share.shareUrl} style={{ color: theme.colors.accent }}>{share.shareUrl}</a> with PIN{" "}
+          <strong>{share.pin}</strong>. They can close fixed snags from there.
+        </div>
+      )}
+
+      {err && <div style={{ color: theme.colors.danger, fontSize: 13 }}>{err}</div>}
+
+      {plan?.floorPlanUrl && (
+        <div style={{ padding: 16 }}>
+          <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginBottom: 8 }}>
+            {plan.name}{canManage ? " — click the plan to pin a new snag" : ""}
+          </div>
+          <div
+            onClick={placePin}
+            style={{ position: "relative", maxWidth: 900, cursor: canManage ? "crosshair" : "default" }}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={plan.floorPlanUrl}
+              alt={plan.name}
+              style={{ width: "100%", display: "block", borderRadius: 8 }}
+              onLoad={(e) => setPlanSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+            {planWidth > 0 && pinned.map(({ snag, number }) => (
+              <Pin key={snag.id} x={snag.pin_x! / planWidth} y={snag.pin_y! / planHeight} label={String(number)}
+                colour={isSnagOverdue(snag, today) ? theme.colors.danger : theme.colors.warn} />
+            ))}
+            {planWidth > 0 && draft.pin && (
+              <Pin x={draft.pin.x / planWidth} y={draft.pin.y / planHeight} label="+" colour={theme.colors.accent} />
+            )}
+          </div>
+        </div>
+      )}
+
+      {canManage && (
+        <div style={{ padding: 16, display: "grid", gap: 8, maxWidth: 720 }}>
+          <div style={{ fontWeight: 600 }}>Raise a snag</div>
+          <input
+            value={draft.description}
+            onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+            placeholder="What is wrong?"
+            style={inputStyle()}
+          />
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 8 }}>
+            <input
+              value={draft.location}
+              onChange={(e) => setDraft((d) => ({ ...d, location: e.target.value }))}
+              placeholder="Location (room, desk no.)"
+              style={inputStyle()}
+            />
+            <select
+              value={draft.category}
+              onChange={(e) => setDraft((d) => ({ ...d, category: e.target.value as SnagCategory }))}
+              style={inputStyle()}
+            >
+              {SNAG_CATEGORIES.map((c) => <option key={c} value={c}>{SNAG_CATEGORY_LABELS[c]}</option>)}
+            </select>
+            <select
+              value={draft.responsible_party}
+              onChange={(e) => setDraft((d) => ({ ...d, responsible_party: e.target.value as ResponsibleParty }))}
+              style={inputStyle()}
+            >
+              {RESPONSIBLE_PARTIES.map((p) => <option key={p} value={p}>{RESPONSIBLE_PARTY_LABELS[p]}</option>)}
+            </select>
+            <input
+              type="date"
+              value={draft.due_date}
+              onChange={(e) => setDraft((d) => ({ ...d, due_date: e.target.value }))}
+              style={inputStyle()}
+            />
+          </div>
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              type="file"
+              accept="image/jpeg,image/png"
+              capture="environment"
+              onChange={(e) => setDraft((d) => ({ ...d, photo: e.target.files?.[0] ?? null }))}
+            />
+            <span style={{ color: theme.colors.textSubtle, fontSize: 12 }}>
+              {draft.pin ? `Pinned at ${draft.pin.x}, ${draft.pin.y}` : plan?.floorPlanUrl ? "Not pinned" : "No floor plan"}
+            </span>
+            <button onClick={addSnag} disabled={busy} style={{ ...buttonStyle(), marginLeft: "auto" }}>
+              {busy ? "Saving..." : "Add snag"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div style={{ padding: 16 }}>
+        {snags.length === 0 ? (
+          <div style={{ color: theme.colors.textSubtle }}>No snags recorded.</div>
+        ) : (
+          <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 10 }}>
+            {snags.map((snag, i) => {
+              const overdue = isSnagOverdue(snag, today);
+              const photoUrl = snag.photo_path ? photoUrls[snag.photo_path] : undefined;
+              return (
+                <li
+                  key={snag.id}
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: photoUrl ? "80px 1fr auto" : "1fr auto",
+                    gap: 12,
+                    padding: "10px 12px",
+                    border: `1px solid ${overdue ? theme.colors.danger : theme.colors.border}`,
+                    borderRadius: 10,
+                  }}
+                >
+                  {photoUrl && (
+                    <a href={photoUrl} target="_blank" rel="noreferrer">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={photoUrl} alt="" style={{ width: 80, height: 60, objectFit: "cover", borderRadius: 6 }} />
+                    </a>
+                  )}
+                  <div>
+                    <div style={{ fontWeight: 600 }}>{i + 1}. {snag.description}</div>
+                    <div style={{ color: theme.colors.textSubtle, fontSize: 12 }}>
+                      {SNAG_CATEGORY_LABELS[snag.category]} · {RESPONSIBLE_PARTY_LABELS[snag.responsible_party]}
+                      {snag.location ? ` · ${snag.location}` : ""}
+                      {snag.due_date ? ` · due ${snag.due_date}` : ""}
+                      {overdue ? " (overdue)" : ""}
+                    </div>
+                    {snag.status === "waived" && snag.waived_reason && (
+                      <div style={{ color: theme.colors.textSubtle, fontSize: 12 }}>Waived: {snag.waived_reason}</div>
+                    )}
+                    {snag.signed_off_by && (
+                      <div style={{ color: theme.colors.success, fontSize: 12 }}>Signed off by {snag.signed_off_by}</div>
+                    )}
+                  </div>
+                  <div style={{ alignSelf: "center" }}>
+                    {canManage ? (
+                      <select
+                        value={snag.status}
+                        onChange={(e) => moveSnag(snag, e.target.value as SnagStatus)}
+                        style={inputStyle({ padding: "6px 8px" })}
+                      >
+                        {[snag.status, ...allowedSnagTransitions(snag.status)].map((s) => (
+                          <option key={s} value={s}>{SNAG_STATUS_LABELS[s]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span style={{ fontSize: 12 }}>{SNAG_STATUS_LABELS[snag.status]}</span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Pin({ x, y, label, colour }: { x: number; y: number; label: string; colour: string }) {
+  return (
+    <span
+      style={{
+        position: "absolute",
+        left: `${x * 100}%`,
+        top: `${y * 100}%`,
+        transform: "translate(-50%, -50%)",
+        width: 20,
+        height: 20,
+        borderRadius: 99,
+        background: colour,
+        color: "#000",
+        fontSize: 11,
+        fontWeight: 700,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        pointerEvents: "none",
+      }}
+    >
+      {label}
+    </span>
+  );
+}
+
+function buttonStyle(): React.CSSProperties {
+  return {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${theme.colors.border}`,
+    background: "#0f151c",
+    color: theme.colors.text,
+    cursor: "pointer",
+  };
+}
+
+function inputStyle(extra?: React.CSSProperties): React.CSSProperties {
+  return {
+    padding: "8px 10px",
+    background: "#111823",
+    border: `1px solid ${theme.colors.border}`,
+    color: theme.colors.text,
+    borderRadius: 8,
+    ...(extra || {}),
+  };
+}
@@ -7,6 +7,7 @@ import React, { useState, useEffect, useCallback } from "react";
 
 import { documentSelectionService, type DocumentSelection } from "@/lib/documentSelection";
 import { type GeneratedTaskData as _GeneratedTaskData } from "@/lib/pdfTaskGeneration";
+import { useTranslation } from "@/lib/I18nProvider";
 import { supabase } from "@/lib/supabaseClient";
 import { theme } from "@/lib/theme";
 
@@ -60,6 +61,7 @@ type TaskGroup = {
 };
 
 const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
+  const { t } = useTranslation();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [_floorPlans, setFloorPlans] = useState<FloorPlan[]>([]);
@@ -390,7 +392,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
       // Check if we already have tasks to avoid duplication
       const clearExisting = generatedTasks.length > 0;
       if (clearExisting) {
-        if (!window.confirm("This will regenerate all tasks and remove existing ones. Continue?")) {
+        if (!window.confirm(t("tasks.confirmRegenerate"))) {
           setLoading(false);
           return;
         }
@@ -526,7 +528,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
 
   // Delete manual task
   const deleteManualTask = async (taskId: string) => {
-    if (!confirm('Are you sure you want to delete this task?')) return;
+    if (!confirm(t('tasks.confirmDelete'))) return;
     
     try {
       const { error } = await supabase
@@ -711,7 +713,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
 
   // Complete all tasks (set all completed_qty to total_qty)
   const completeAll = async () => {
-    if (!confirm('Are you sure you want to mark all tasks as completed? This will set all quantities to maximum.')) {
+    if (!confirm(t('tasks.confirmCompleteAll'))) {
       return;
     }
 
@@ -725,15 +727,15 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
         .map(task => updateCompletedQty(task.id, task.total_qty));
 
       if (updates.length === 0) {
-        alert('All tasks are already completed.');
+        alert(t('tasks.allCompleted'));
         return;
       }
 
       await Promise.all(updates);
-      alert(`Successfully completed ${updates.length} tasks.`);
+      alert(t('tasks.completedCount', { count: updates.length }));
     } catch (error: unknown) {
       console.error('Error completing all tasks:', error);
-      alert('Failed to complete all tasks. Please try again.');
+      alert(t('tasks.completeAllFailed'));
     }
   };
 
@@ -856,7 +858,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
   if (loading) {
     return (
       <div style={{ padding: 20, textAlign: "center" }}>
-        Loading task generation data...
+        {t("tasks.loadingData")}
       </div>
     );
   }
@@ -968,9 +970,9 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
               e.currentTarget.style.transform = 'translateY(0)';
               e.currentTarget.style.boxShadow = '0 2px 8px rgba(34, 197, 94, 0.1)';
             }}
-            title="Mark all items as uplifted"
+            title={t("tasks.completeAllHint")}
           >
-            ✅ Complete All
+            {t("tasks.completeAll")}
           </button>
         </div>
 
@@ -998,9 +1000,9 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
               e.currentTarget.style.background = 'rgba(255, 255, 255, 0.05)';
               e.currentTarget.style.transform = 'translateY(0)';
             }}
-            title="Refresh selected documents"
+            title={t("tasks.refreshHint")}
           >
-            ↻ Refresh
+            {t("tasks.refresh")}
           </button>
           <button
             onClick={generateTasks}
@@ -1028,7 +1030,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
               e.currentTarget.style.boxShadow = '0 2px 8px rgba(59, 130, 246, 0.1)';
             }}
           >
-            ⚡ Generate Tasks
+            {t("tasks.generate")}
           </button>
           <button
             onClick={() => setShowAddTaskModal(true)}
@@ -1053,7 +1055,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
               e.currentTarget.style.transform = 'translateY(0)';
             }}
           >
-            ➕ Add Task
+            {t("tasks.addTask")}
           </button>
           {selectedDocuments.length > 0 && (
             <button
@@ -1079,7 +1081,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                 e.currentTarget.style.transform = 'translateY(0)';
               }}
             >
-              ✖ Clear Selection
+              {t("tasks.clearSelection")}
             </button>
           )}
         </div>
@@ -1095,7 +1097,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
           background: "rgba(59, 130, 246, 0.05)"
         }}>
           <h3 style={{ margin: "0 0 12px 0", color: theme.colors.accent, fontSize: 16 }}>
-            Selected Documents ({selectedDocuments.length})
+            {t("tasks.selectedDocuments", { count: selectedDocuments.length })}
           </h3>
           <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
             {selectedDocuments.map((doc, index) => (
@@ -1114,7 +1116,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
             ))}
           </div>
           <p style={{ margin: "8px 0 0 0", fontSize: 14, color: theme.colors.textSubtle }}>
-            Click &quot;Generate Tasks&quot; to create installation tasks from these documents.
+            {t("tasks.generateHint")}
           </p>
         </div>
       )}
@@ -1122,7 +1124,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
 
       {/* Overall Progress */}
       <div style={progressContainerStyle()}>
-        <h3 style={{ margin: "0 0 12px 0", color: theme.colors.text }}>Overall Progress</h3>
+        <h3 style={{ margin: "0 0 12px 0", color: theme.colors.text }}>{t("tasks.overallProgress")}</h3>
         <div style={progressBarContainerStyle()}>
           <div style={progressBarTrackStyle()}>
             <div style={{
@@ -1139,12 +1141,12 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
       {/* Task Groups by Floor */}
       {groupedTasks.length === 0 ? (
         <div style={emptyStateStyle()}>
-          <p>No tasks generated yet.</p>
-          <p>To generate tasks from documents:</p>
+          <p>{t("tasks.emptyTitle")}</p>
+          <p>{t("tasks.emptyHowTo")}</p>
           <ol style={{ textAlign: 'left', display: 'inline-block', fontSize: 14, color: theme.colors.textSubtle }}>
-            <li>Go to Documents tab and upload PDF files</li>
-            <li>Use &quot;Send to&quot; → &quot;Task Generation&quot; for specific documents</li>
-            <li>Or click &quot;Generate Tasks&quot; here for sample tasks</li>
+            <li>{t("tasks.emptyStepUpload")}</li>
+            <li>{t("tasks.emptyStepSend")}</li>
+            <li>{t("tasks.emptyStepGenerate")}</li>
           </ol>
         </div>
       ) : (
@@ -1157,7 +1159,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
               <h3 style={{ margin: 0, color: theme.colors.text }}>{group.floor}</h3>
               <div style={groupHeaderInfoStyle()}>
                 <span style={groupTaskCountStyle()}>
-                  {group.tasks.length} tasks
+                  {t("tasks.taskCount", { count: group.tasks.length })}
                 </span>
                 <div style={groupCompletionStyle()}>
                   {group.completionPercentage}%
@@ -1243,9 +1245,9 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                               alignItems: 'center',
                               justifyContent: 'center'
                             }}
-                            title="Report Missing Items"
+                            title={t("tasks.reportMissing")}
                           >
-                            M
+                            {t("tasks.missingShort")}
                           </button>
                           <button
                             onClick={() => openDamageModal(task.id)}
@@ -1263,9 +1265,9 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                               alignItems: 'center',
                               justifyContent: 'center'
                             }}
-                            title="Report Damage"
+                            title={t("tasks.reportDamage")}
                           >
-                            D
+                            {t("tasks.damageShort")}
                           </button>
                         </div>
                       </div>
@@ -1285,7 +1287,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             fontWeight: '600',
                             minWidth: '60px'
                           }}>
-                            Uplifted
+                            {t("tasks.stages.uplifted")}
                           </span>
                           <span style={{
                             fontSize: '11px',
@@ -1324,7 +1326,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             fontWeight: '600',
                             minWidth: '60px'
                           }}>
-                            Placed
+                            {t("tasks.stages.placed")}
                           </span>
                           <span style={{
                             fontSize: '11px',
@@ -1362,7 +1364,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             fontWeight: '600',
                             minWidth: '60px'
                           }}>
-                            Built
+                            {t("tasks.stages.built")}
                           </span>
                           <span style={{
                             fontSize: '11px',
@@ -1412,7 +1414,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          Complete Uplifted
+                          {t("tasks.completeStage.uplifted")}
                         </button>
                         <button
                           onClick={() => completeAction(task.id, 'placed')}
@@ -1431,7 +1433,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          Complete Placed
+                          {t("tasks.completeStage.placed")}
                         </button>
                         <button
                           onClick={() => completeAction(task.id, 'built')}
@@ -1450,7 +1452,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          Complete Built
+                          {t("tasks.completeStage.built")}
                         </button>
                       </div>
 
@@ -1478,7 +1480,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          U+1
+                          {`${t("tasks.stageShort.uplifted")}+1`}
                         </button>
                         <button
                           onClick={() => updateTaskGranularQty(task.id, 'uplifted_qty', Math.max(0, getTaskGranularQty(task.id, 'uplifted_qty') - 1))}
@@ -1496,7 +1498,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          U-1
+                          {`${t("tasks.stageShort.uplifted")}-1`}
                         </button>
                         {/* Placed +/- */}
                         <button
@@ -1515,7 +1517,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          P+1
+                          {`${t("tasks.stageShort.placed")}+1`}
                         </button>
                         <button
                           onClick={() => updateTaskGranularQty(task.id, 'placed_qty', Math.max(0, getTaskGranularQty(task.id, 'placed_qty') - 1))}
@@ -1533,7 +1535,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          P-1
+                          {`${t("tasks.stageShort.placed")}-1`}
                         </button>
                         {/* Built +/- */}
                         <button
@@ -1552,7 +1554,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          B+1
+                          {`${t("tasks.stageShort.built")}+1`}
                         </button>
                         <button
                           onClick={() => updateTaskGranularQty(task.id, 'built_qty', Math.max(0, getTaskGranularQty(task.id, 'built_qty') - 1))}
@@ -1570,7 +1572,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                             justifyContent: 'center'
                           }}
                         >
-                          B-1
+                          {`${t("tasks.stageShort.built")}-1`}
                         </button>
                       </div>
                     </div>
@@ -1586,10 +1588,10 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
       {manualTasks.length > 0 && (
         <div style={groupContainerStyle()}>
           <div style={groupHeaderStyle()}>
-            <h3 style={{ margin: 0, color: theme.colors.text }}>Manual Tasks</h3>
+            <h3 style={{ margin: 0, color: theme.colors.text }}>{t("tasks.manualTasks")}</h3>
             <div style={groupHeaderInfoStyle()}>
               <span style={groupTaskCountStyle()}>
-                {manualTasks.length} tasks
+                {t("tasks.taskCount", { count: manualTasks.length })}
               </span>
               <div style={groupCompletionStyle()}>
                 {Math.round((manualTasks.filter(t => t.is_done).length / manualTasks.length) * 100)}%
@@ -1634,7 +1636,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                         borderRadius: 4,
                         fontWeight: 500
                       }}>
-                        Manual
+                        {t("tasks.manual")}
                       </span>
                     </div>
                     {task.description && (
@@ -1644,7 +1646,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                     )}
                     {task.total_qty && task.total_qty > 1 && (
                       <div style={{ fontSize: 12, opacity: 0.6 }}>
-                        Quantity: {task.total_qty}
+                        {t("tasks.quantityValue", { count: task.total_qty })}
                       </div>
                     )}
                   </div>
@@ -1655,7 +1657,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                     background: task.is_done ? "rgba(16, 185, 129, 0.2)" : "rgba(156, 163, 175, 0.2)",
                     color: task.is_done ? "#10b981" : "#9ca3af"
                   }}>
-                    {task.is_done ? "Complete" : "Pending"}
+                    {task.is_done ? t("tasks.complete") : t("tasks.pending")}
                   </span>
                   <button
                     onClick={() => deleteManualTask(task.id)}
@@ -1670,7 +1672,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                       cursor: "pointer"
                     }}
                   >
-                    Delete
+                    {t("common.delete")}
                   </button>
                 </div>
               ))}
@@ -1683,11 +1685,11 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
       {showMissingModal && (
         <div style={modalOverlayStyle()}>
           <div style={modalContentStyle()}>
-            <h3 style={{ margin: "0 0 16px 0", color: theme.colors.text }}>Missing Item Details</h3>
+            <h3 style={{ margin: "0 0 16px 0", color: theme.colors.text }}>{t("tasks.missingDetails")}</h3>
             
             <div style={modalInputContainerStyle()}>
               <label style={modalLabelStyle()}>
-                Quantity Missing
+                {t("tasks.quantityMissing")}
               </label>
               <input
                 type="number"
@@ -1703,7 +1705,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
             
             <div style={modalTextareaContainerStyle()}>
               <label style={modalLabelStyle()}>
-                Notes
+                {t("common.notes")}
               </label>
               <textarea
                 value={missingNotes[showMissingModal] || ""}
@@ -1721,13 +1723,13 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                 onClick={() => setShowMissingModal(null)}
                 style={modalCancelButtonStyle()}
               >
-                Cancel
+                {t("common.cancel")}
               </button>
               <button
                 onClick={saveMissingDetails}
                 style={modalSaveButtonStyle()}
               >
-                Save Missing Details
+                {t("tasks.saveMissing")}
               </button>
             </div>
           </div>
@@ -1738,11 +1740,11 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
       {showDamageModal && (
         <div style={modalOverlayStyle()}>
           <div style={modalContentStyle()}>
-            <h3 style={{ margin: "0 0 16px 0", color: theme.colors.text }}>Damage Report</h3>
+            <h3 style={{ margin: "0 0 16px 0", color: theme.colors.text }}>{t("tasks.damageReport")}</h3>
             
             <div style={modalInputContainerStyle()}>
               <label style={modalLabelStyle()}>
-                Quantity Damaged
+                {t("tasks.quantityDamaged")}
               </label>
               <input
                 type="number"
@@ -1758,7 +1760,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
             
             <div style={modalTextareaContainerStyle()}>
               <label style={modalLabelStyle()}>
-                Damage Details
+                {t("tasks.damageDetails")}
               </label>
               <textarea
                 value={damageNotes[showDamageModal] || ""}
@@ -1767,7 +1769,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                   [showDamageModal]: e.target.value
                 })}
                 rows={4}
-                placeholder="Describe the damage..."
+                placeholder={t("tasks.damagePlaceholder")}
                 style={modalTextareaStyle()}
               />
             </div>
@@ -1777,7 +1779,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                 onClick={() => setShowDamageModal(null)}
                 style={modalCancelButtonStyle()}
               >
-                Cancel
+                {t("common.cancel")}
               </button>
               <button
                 onClick={saveDamageDetails}
@@ -1787,7 +1789,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                   color: "#ffffff"
                 }}
               >
-                Save Damage Report
+                {t("tasks.saveDamage")}
               </button>
             </div>
           </div>
@@ -1798,18 +1800,18 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
       {showAddTaskModal && (
         <div style={modalOverlayStyle()}>
           <div style={modalContentStyle()}>
-            <h3 style={{ margin: "0 0 16px 0", color: theme.colors.text }}>Add Manual Task</h3>
+            <h3 style={{ margin: "0 0 16px 0", color: theme.colors.text }}>{t("tasks.addManualTask")}</h3>
             
             <form onSubmit={addManualTask}>
               <div style={modalInputContainerStyle()}>
                 <label style={modalLabelStyle()}>
-                  Task Title *
+                  {t("tasks.taskTitle")}
                 </label>
                 <input
                   type="text"
                   value={newTaskTitle}
                   onChange={(e) => setNewTaskTitle(e.target.value)}
-                  placeholder="Enter task title..."
+                  placeholder={t("tasks.taskTitlePlaceholder")}
                   required
                   style={modalInputStyle()}
                 />
@@ -1817,20 +1819,20 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
               
               <div style={modalTextareaContainerStyle()}>
                 <label style={modalLabelStyle()}>
-                  Description (optional)
+                  {t("tasks.descriptionOptional")}
                 </label>
                 <textarea
                   value={newTaskDescription}
                   onChange={(e) => setNewTaskDescription(e.target.value)}
                   rows={3}
-                  placeholder="Enter task description..."
+                  placeholder={t("tasks.descriptionPlaceholder")}
                   style={modalTextareaStyle()}
                 />
               </div>
 
               <div style={modalInputContainerStyle()}>
                 <label style={modalLabelStyle()}>
-                  Quantity
+                  {t("common.quantity")}
                 </label>
                 <input
                   type="number"
@@ -1852,7 +1854,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                   }}
                   style={modalCancelButtonStyle()}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </button>
                 <button
                   type="submit"
@@ -1862,7 +1864,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                     color: "#000"
                   }}
                 >
-                  Add Task
+                  {t("tasks.addTaskSubmit")}
                 </button>
               </div>
             </form>
@@ -1890,7 +1892,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
           <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
             <div style={{ flex: 1 }}>
               <div style={{ fontSize: '14px', fontWeight: '500', marginBottom: '4px' }}>
-                Action completed
+                {t("tasks.actionCompleted")}
               </div>
               <div style={{ fontSize: '12px', color: '#8892a0' }}>
                 {undoAction.type === 'quantity' 
@@ -1919,7 +1921,7 @@ const TasksTab: React.FC<{ jobId: string }> = ({ jobId }) => {
                 e.currentTarget.style.background = '#3b82f6';
               }}
             >
-              Undo
+              {t("tasks.undo")}
             </button>
             <button
               onClick={() => {
@@ -77,6 +77,20 @@ export const ROLE_BASED_NAV: Record<UserRole, NavItem[]> = {
       enabled: true,
       category: "Scheduling & Resources"
     },
+    {
+      id: 102.1,
+      label: "102a. Timesheets",
+      href: "/timesheets",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 102.2,
+      label: "102b. Calendar Feeds",
+      href: "/calendar-feeds",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
     {
       id: 103,
       label: "103. Close Day",
@@ -109,6 +123,13 @@ export const ROLE_BASED_NAV: Record<UserRole, NavItem[]> = {
       enabled: true,
       category: "Planning & Quoting"
     },
+    {
+      id: 207.1,
+      label: "207a. RAMS Hazards",
+      href: "/rams-hazards",
+      enabled: true,
+      category: "Planning & Quoting"
+    },
 
     // Scheduling & Resources
     {
@@ -132,6 +153,34 @@ export const ROLE_BASED_NAV: Record<UserRole, NavItem[]> = {
       enabled: true,
       category: "Scheduling & Resources"
     },
+    {
+      id: 206.1,
+      label: "206a. Labour Conflicts",
+      href: "/labour-conflicts",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 206.2,
+      label: "206b. Timesheets",
+      href: "/timesheets",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 206.3,
+      label: "206c. Tickets & Competencies",
+      href: "/labour-competencies",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 206.4,
+      label: "206d. Calendar Feeds",
+      href: "/calendar-feeds",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
 
     // Execution & Delivery
     {
@@ -196,6 +245,27 @@ export const ROLE_BASED_NAV: Record<UserRole, NavItem[]> = {
       enabled: true,
       category: "Planning & Quoting"
     },
+    {
+      id: 311.1,
+      label: "311a. Job Profitability",
+      href: "/profitability",
+      enabled: true,
+      category: "Planning & Quoting"
+    },
+    {
+      id: 311.2,
+      label: "311b. Catalogue Import",
+      href: "/catalogue-import",
+      enabled: true,
+      category: "Planning & Quoting"
+    },
+    {
+      id: 311.3,
+      label: "311c. RAMS Hazards",
+      href: "/rams-hazards",
+      enabled: true,
+      category: "Planning & Quoting"
+    },
 
     // Scheduling & Resources
     {
@@ -212,6 +282,34 @@ export const ROLE_BASED_NAV: Record<UserRole, NavItem[]> = {
       enabled: true,
       category: "Scheduling & Resources"
     },
+    {
+      id: 307.1,
+      label: "307a. Labour Conflicts",
+      href: "/labour-conflicts",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 307.2,
+      label: "307b. Timesheets",
+      href: "/timesheets",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 307.3,
+      label: "307c. Tickets & Competencies",
+      href: "/labour-competencies",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 307.4,
+      label: "307d. Calendar Feeds",
+      href: "/calendar-feeds",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
     {
       id: 305,
       label: "305. Floor Planner",
@@ -319,6 +417,27 @@ export const ROLE_BASED_NAV: Record<UserRole, NavItem[]> = {
       enabled: true,
       category: "Planning & Quoting"
     },
+    {
+      id: 410.1,
+      label: "410a. Job Profitability",
+      href: "/profitability",
+      enabled: true,
+      category: "Planning & Quoting"
+    },
+    {
+      id: 410.2,
+      label: "410b. Catalogue Import",
+      href: "/catalogue-import",
+      enabled: true,
+      category: "Planning & Quoting"
+    },
+    {
+      id: 410.3,
+      label: "410c. RAMS Hazards",
+      href: "/rams-hazards",
+      enabled: true,
+      category: "Planning & Quoting"
+    },
 
     {
       id: 405,
@@ -334,6 +453,34 @@ export const ROLE_BASED_NAV: Record<UserRole, NavItem[]> = {
       enabled: true,
       category: "Scheduling & Resources"
     },
+    {
+      id: 406.1,
+      label: "406a. Labour Conflicts",
+      href: "/labour-conflicts",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 406.2,
+      label: "406b. Timesheets",
+      href: "/timesheets",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 406.3,
+      label: "406c. Tickets & Competencies",
+      href: "/labour-competencies",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
+    {
+      id: 406.4,
+      label: "406d. Calendar Feeds",
+      href: "/calendar-feeds",
+      enabled: true,
+      category: "Scheduling & Resources"
+    },
     {
       id: 404,
       label: "404. Floor Planner",
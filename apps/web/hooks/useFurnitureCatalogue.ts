@@ -0,0 +1,53 @@
+// hooks/useFurnitureCatalogue.ts
+// Furniture for the floor planner from the product catalogue, so placed items
+// carry the same codes, dimensions and install times SmartQuote prices with
+import { useEffect, useState } from "react";
+
+import {
+  SMART_QUOTE_FURNITURE,
+  catalogueFurniture,
+  type CatalogueFurnitureRow,
+  type FurnitureProduct,
+} from "@/components/floorplanner/SmartQuoteFurniture";
+import { supabase } from "@/lib/supabaseClient";
+
+type UseFurnitureCatalogueResult = {
+  furniture: FurnitureProduct[];
+  /** False while on the built-in list: loading, failed, or no catalogue products with dimensions */
+  fromCatalogue: boolean;
+  loading: boolean;
+};
+
+export function useFurnitureCatalogue(): UseFurnitureCatalogueResult {
+  const [furniture, setFurniture] = useState<FurnitureProduct[]>(SMART_QUOTE_FURNITURE);
+  const [fromCatalogue, setFromCatalogue] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancel = false;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("product_catalogue_view")
+        .select("id, canonical_code, canonical_name, category, description, install_time_hours, dimension_l, dimension_w, dimension_h, dimension_d, weight_kg, list_price, discontinued_at, aliases")
+        .is("discontinued_at", null)
+        .order("canonical_name");
+
+      if (cancel) return;
+      if (error) console.error("Failed to load furniture catalogue:", error);
+
+      const products = catalogueFurniture((data ?? []) as CatalogueFurnitureRow[]);
+      if (products.length > 0) {
+        setFurniture(products);
+        setFromCatalogue(true);
+      }
+      setLoading(false);
+    })();
+
+    return () => {
+      cancel = true;
+    };
+  }, []);
+
+  return { furniture, fromCatalogue, loading };
+}
@@ -1,4 +1,10 @@
 // Environment setup for Jest tests
 process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co'
 process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key'
-process.env.NODE_ENV = 'test'
\ No newline at end of file
+process.env.NODE_ENV = 'test'
+// Notification adapters only ever talk to local catchers/stubs in tests
+process.env.SMTP_HOST = '127.0.0.1'
+process.env.SMTP_PORT = '1025'
+process.env.NOTIFICATION_WEBHOOK_URL = 'http://127.0.0.1:4010/webhook'
+delete process.env.VAPID_PUBLIC_KEY
+delete process.env.VAPID_PRIVATE_KEY
\ No newline at end of file
@@ -0,0 +1,112 @@
+// apps/web/lib/I18nProvider.tsx
+// Picks the interface language: the signed-in user's profile setting first, then the
+// last choice on this device, then the browser language, then English.
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+
+import { useAuthCtx } from "./AuthProvider";
+import { STORAGE_KEYS } from "./constants";
+import {
+  DEFAULT_LOCALE,
+  formatDate,
+  formatNumber,
+  isSupportedLocale,
+  normalizeLocale,
+  translate,
+  type Locale,
+  type TranslationParams
+} from "./i18n";
+import { supabase } from "./supabaseClient";
+
+type I18nCtx = {
+  locale: Locale;
+  setLocale: (locale: Locale) => Promise<void>;
+  t: (key: string, params?: TranslationParams) => string;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+};
+
+const defaultContext: I18nCtx = {
+  locale: DEFAULT_LOCALE,
+  setLocale: async () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+  formatDate: (value, options) => formatDate(DEFAULT_LOCALE, value, options),
+  formatNumber: (value, options) => formatNumber(DEFAULT_LOCALE, value, options)
+};
+
+const Ctx = createContext<I18nCtx>(defaultContext);
+
+function deviceLocale(): Locale {
+  const stored = normalizeLocale(localStorage.getItem(STORAGE_KEYS.preferences.language));
+  return stored ?? normalizeLocale(navigator.language) ?? DEFAULT_LOCALE;
+}
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuthCtx();
+  // Server render and first paint are English so hydration matches; the real choice follows
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(deviceLocale());
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    let alive = true;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("preferred_locale")
+        .eq("id", user.id)
+        .maybeSingle();
+      if (!alive) return;
+
+      if (error) {
+        console.warn("Failed to load language preference:", error.message);
+        return;
+      }
+      const preferred = (data as { preferred_locale?: string | null } | null)?.preferred_locale;
+      if (isSupportedLocale(preferred)) {
+        setLocaleState(preferred);
+        localStorage.setItem(STORAGE_KEYS.preferences.language, preferred);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback(async (next: Locale) => {
+    setLocaleState(next);
+    localStorage.setItem(STORAGE_KEYS.preferences.language, next);
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ preferred_locale: next })
+      .eq("id", user.id);
+    if (error) {
+      // Still applied on this device
+      console.warn("Failed to save language preference:", error.message);
+    }
+  }, [user]);
+
+  const value = useMemo<I18nCtx>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatDate: (date, options) => formatDate(locale, date, options),
+    formatNumber: (number, options) => formatNumber(locale, number, options)
+  }), [locale, setLocale]);
+
+  return <Ctx.Provider value={value}>{children}</Ctx.Provider>;
+}
+
+export function useTranslation() {
+  return useContext(Ctx);
+}
@@ -0,0 +1,32 @@
+// AI Provider Layer - browser adapter for the server-side OpenAI provider
+// Sends the request to /api/ai/extract with the signed-in user's token, so the
+// OpenAI key never reaches the browser bundle.
+
+import { supabase } from '../supabaseClient';
+import { OPENAI_DEFAULT_MODEL } from './config';
+import type { AIProvider, ExtractionRequest, ProviderResult } from './types';
+
+export function createApiRouteProvider(options: { model?: string } = {}): AIProvider {
+  const defaultModel = options.model || OPENAI_DEFAULT_MODEL;
+
+  return {
+    name: 'openai',
+    defaultModel,
+
+    async generate(request: ExtractionRequest): Promise<ProviderResult> {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      const response = await fetch('/api/ai/extract', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify({ ...request, model: request.model || options.model }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `AI request failed (${response.status})`);
+      }
+      return body.data as ProviderResult;
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// AI Provider Layer - provider settings read from the environment
+// Kept apart from the adapters so checking configuration never loads an SDK.
+
+import type { AIProviderName } from './types';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.5-flash';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o';
+
+export function configuredProviderName(): Exclude<AIProviderName, 'replay'> {
+  const name = (process.env.AI_PROVIDER || process.env.NEXT_PUBLIC_AI_PROVIDER || 'gemini').toLowerCase();
+  return name === 'openai' ? 'openai' : 'gemini';
+}
+
+export function configuredModel(): string | undefined {
+  return process.env.AI_MODEL || process.env.NEXT_PUBLIC_AI_MODEL || undefined;
+}
+
+export function getGeminiApiKey(): string | undefined {
+  return process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY || undefined;
+}
+
+// Server only: the browser reaches OpenAI through /api/ai/extract
+export function getOpenAIBaseUrl(): string | undefined {
+  return process.env.OPENAI_BASE_URL || undefined;
+}
+
+export function getOpenAIApiKey(): string | undefined {
+  return process.env.OPENAI_API_KEY || undefined;
+}
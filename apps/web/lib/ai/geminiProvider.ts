@@ -0,0 +1,61 @@
+// AI Provider Layer - Google Gemini adapter
+
+import { GoogleGenAI, type Part, type Schema } from "@google/genai";
+
+import { GEMINI_DEFAULT_MODEL, getGeminiApiKey } from './config';
+import type { AIProvider, ExtractionRequest, ProviderResult } from './types';
+
+export function createGeminiProvider(options: { apiKey?: string; model?: string } = {}): AIProvider {
+  const apiKey = options.apiKey ?? getGeminiApiKey();
+  const defaultModel = options.model || GEMINI_DEFAULT_MODEL;
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!client) {
+      if (!apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable not set. Please add it to your .env.local file.");
+      }
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+    defaultModel,
+
+    async generate(request: ExtractionRequest): Promise<ProviderResult> {
+      const model = request.model || defaultModel;
+      const parts: Part[] = request.inputs.map(input =>
+        input.type === 'text'
+          ? { text: input.text }
+          : { inlineData: { mimeType: input.mimeType, data: input.data } }
+      );
+
+      const response = await getClient().models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          systemInstruction: request.systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: request.schema as Schema | undefined,
+          temperature: request.temperature,
+          topP: request.topP,
+          topK: request.topK,
+          ...(request.thinking === false ? { thinkingConfig: { thinkingBudget: 0 } } : {}),
+        },
+      });
+
+      const usage = response.usageMetadata;
+      return {
+        text: response.text?.trim() || '',
+        model: response.modelVersion || model,
+        usage: {
+          inputTokens: usage?.promptTokenCount ?? 0,
+          // Thinking tokens are billed as output
+          outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+        },
+      };
+    },
+  };
+}
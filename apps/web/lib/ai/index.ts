@@ -0,0 +1,120 @@
+// AI Provider Layer - structured JSON extraction from text, images and PDFs
+// Every parser calls extractJSON; which model answers is configuration:
+//   AI_PROVIDER=gemini (default) | openai       NEXT_PUBLIC_AI_PROVIDER in the browser
+//   AI_MODEL=<model>                             overrides the provider's default
+//   OPENAI_BASE_URL=http://localhost:11434/v1    points the openai adapter at a local server
+// Adapters are loaded on first use, so importing a parser never pulls in an SDK.
+// Tests swap in a replay provider with setAIProvider.
+
+import { configuredModel, configuredProviderName, getGeminiApiKey, getOpenAIApiKey, getOpenAIBaseUrl } from './config';
+import { estimateCost } from './pricing';
+import { recordAIUsage } from './usage';
+import type { AIProvider, ExtractionRequest, ExtractionResponse } from './types';
+
+export * from './types';
+export { estimateCost, getModelPrice } from './pricing';
+export { createReplayProvider, createRecordingProvider, fixtureKey } from './replayProvider';
+export { getAIUsage, onAIUsage, resetAIUsage, summarizeAIUsage } from './usage';
+
+let override: AIProvider | null = null;
+let configured: Promise<AIProvider> | null = null;
+
+const inBrowser = (): boolean => typeof window !== 'undefined';
+
+async function loadConfiguredProvider(): Promise<AIProvider> {
+  const model = configuredModel();
+  if (configuredProviderName() === 'openai') {
+    if (inBrowser()) {
+      const { createApiRouteProvider } = await import('./apiRouteProvider');
+      return createApiRouteProvider({ model });
+    }
+    const { createOpenAIProvider } = await import('./openaiProvider');
+    return createOpenAIProvider({ model });
+  }
+  const { createGeminiProvider } = await import('./geminiProvider');
+  return createGeminiProvider({ model });
+}
+
+export async function getAIProvider(): Promise<AIProvider> {
+  if (override) return override;
+  if (!configured) {
+    configured = loadConfiguredProvider().catch(error => {
+      configured = null;
+      throw error;
+    });
+  }
+  return configured;
+}
+
+/**
+ * Use this provider for every call until reset with null (tests, scripts)
+ */
+export function setAIProvider(provider: AIProvider | null): void {
+  override = provider;
+}
+
+/**
+ * Whether a call could succeed, so callers can fall back before trying.
+ * In the browser the OpenAI key is the server's to check.
+ */
+export function isAIConfigured(): boolean {
+  if (override) return true;
+  if (configuredProviderName() === 'openai') {
+    return inBrowser() || !!(getOpenAIApiKey() || getOpenAIBaseUrl());
+  }
+  return !!getGeminiApiKey();
+}
+
+// Local models often wrap JSON in a markdown fence even when asked not to
+function parseJSONText<T>(text: string): T {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```$/, '');
+  return JSON.parse(unfenced) as T;
+}
+
+/**
+ * Ask the configured provider for JSON and parse it. Each call, successful or
+ * not, is recorded with its tokens and cost (see ./usage).
+ */
+export async function extractJSON<T = unknown>(request: ExtractionRequest): Promise<ExtractionResponse<T>> {
+  const provider = await getAIProvider();
+  const startTime = Date.now();
+  let model = request.model || provider.defaultModel;
+  let usage = { inputTokens: 0, outputTokens: 0 };
+
+  try {
+    const result = await provider.generate(request);
+    model = result.model;
+    usage = result.usage;
+
+    if (!result.text) {
+      throw new Error("Empty response from AI service");
+    }
+    const data = parseJSONText<T>(result.text);
+    const costUsd = estimateCost(model, usage);
+    const durationMs = Date.now() - startTime;
+
+    recordAIUsage({
+      task: request.task,
+      provider: provider.name,
+      model,
+      ...usage,
+      costUsd,
+      durationMs,
+      at: new Date().toISOString(),
+    });
+
+    return { data, text: result.text, provider: provider.name, model, usage, costUsd, durationMs };
+  } catch (error) {
+    recordAIUsage({
+      task: request.task,
+      provider: provider.name,
+      model,
+      ...usage,
+      costUsd: estimateCost(model, usage),
+      durationMs: Date.now() - startTime,
+      at: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,99 @@
+// AI Provider Layer - OpenAI-compatible adapter
+// Works with OpenAI itself or any server speaking the chat completions API
+// (Ollama, LM Studio, vLLM) via OPENAI_BASE_URL, e.g. http://localhost:11434/v1
+// Server only; browser callers go through /api/ai/extract so the key stays private
+
+import OpenAI from 'openai';
+import type { ChatCompletionContentPart } from 'openai/resources/chat/completions';
+
+import { getOpenAIApiKey, getOpenAIBaseUrl, OPENAI_DEFAULT_MODEL } from './config';
+import type { AIProvider, AISchema, ExtractionRequest, ProviderResult } from './types';
+
+/**
+ * Gemini-style schema (Type.OBJECT, nullable) to standard JSON Schema
+ */
+export function toJsonSchema(schema: AISchema): Record<string, unknown> {
+  const type = schema.type.toLowerCase();
+  const jsonSchema: Record<string, unknown> = {
+    type: schema.nullable ? [type, 'null'] : type,
+  };
+
+  if (schema.description) jsonSchema.description = schema.description;
+  if (schema.enum) jsonSchema.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    jsonSchema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    if (schema.required) jsonSchema.required = schema.required;
+  }
+
+  return jsonSchema;
+}
+
+export function createOpenAIProvider(
+  options: { apiKey?: string; baseURL?: string; model?: string } = {}
+): AIProvider {
+  const baseURL = options.baseURL ?? getOpenAIBaseUrl();
+  // Local servers don't check the key, but the SDK insists on one
+  const apiKey = options.apiKey ?? getOpenAIApiKey() ?? (baseURL ? 'local' : undefined);
+  const defaultModel = options.model || OPENAI_DEFAULT_MODEL;
+  let client: OpenAI | null = null;
+
+  const getClient = (): OpenAI => {
+    if (!client) {
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY environment variable not set. Please add it to your .env.local file.");
+      }
+      client = new OpenAI({ apiKey, baseURL });
+    }
+    return client;
+  };
+
+  return {
+    name: 'openai',
+    defaultModel,
+
+    async generate(request: ExtractionRequest): Promise<ProviderResult> {
+      const model = request.model || defaultModel;
+      const content: ChatCompletionContentPart[] = request.inputs.map((input): ChatCompletionContentPart => {
+        if (input.type === 'text') {
+          return { type: 'text', text: input.text };
+        }
+        const dataUrl = `data:${input.mimeType};base64,${input.data}`;
+        return input.mimeType.startsWith('image/')
+          ? { type: 'image_url', image_url: { url: dataUrl } }
+          : { type: 'file', file: { filename: input.filename || 'document.pdf', file_data: dataUrl } };
+      });
+
+      const response = await getClient().chat.completions.create({
+        model,
+        messages: [
+          ...(request.systemInstruction ? [{ role: 'system' as const, content: request.systemInstruction }] : []),
+          { role: 'user', content },
+        ],
+        response_format: request.schema
+          ? {
+              type: 'json_schema',
+              json_schema: {
+                // Names may only hold letters, digits, _ and -
+                name: request.task.replace(/[^a-zA-Z0-9_-]/g, '_'),
+                schema: toJsonSchema(request.schema),
+              },
+            }
+          : { type: 'json_object' },
+        temperature: request.temperature,
+        top_p: request.topP,
+      });
+
+      return {
+        text: response.choices[0]?.message.content?.trim() || '',
+        model: response.model || model,
+        usage: {
+          inputTokens: response.usage?.prompt_tokens ?? 0,
+          outputTokens: response.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,37 @@
+// AI Provider Layer - list prices for cost accounting
+// USD per million tokens. Unknown models (including local servers) cost nothing.
+
+import type { TokenUsage } from './types';
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Matched by prefix, longest first, so dated variants share their family's price
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+};
+
+const PREFIXES = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+export function getModelPrice(model: string): ModelPrice | null {
+  const prefix = PREFIXES.find(candidate => model.startsWith(candidate));
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
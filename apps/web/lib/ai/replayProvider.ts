@@ -0,0 +1,86 @@
+// AI Provider Layer - recorded-fixture replay, so parsers can be tested offline
+// Record once against a real provider with createRecordingProvider, commit the
+// fixtures, then replay them with createReplayProvider in tests.
+
+import type { AIFixture, AIProvider, ExtractionRequest, ProviderResult } from './types';
+
+// cyrb53: short, stable and dependency-free; fixtures only need to tell requests apart
+function hash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Identifies a request by what is asked, not how: model and sampling settings
+ * are left out so fixtures survive a model change or a retry at a new temperature.
+ */
+export function fixtureKey(request: ExtractionRequest): string {
+  return hash(JSON.stringify({
+    task: request.task,
+    systemInstruction: request.systemInstruction ?? null,
+    inputs: request.inputs,
+    schema: request.schema ?? null,
+  }));
+}
+
+/**
+ * Serve recorded responses. A request with no fixture throws, naming the task
+ * and key so the missing fixture can be recorded. With `matchTask`, a request
+ * whose exact key is unknown gets the task's first fixture instead.
+ */
+export function createReplayProvider(
+  fixtures: AIFixture[],
+  options: { matchTask?: boolean } = {}
+): AIProvider {
+  const byKey = new Map(fixtures.map(fixture => [fixture.key, fixture]));
+
+  return {
+    name: 'replay',
+    defaultModel: 'replay',
+
+    async generate(request: ExtractionRequest): Promise<ProviderResult> {
+      const key = fixtureKey(request);
+      const fixture = byKey.get(key)
+        ?? (options.matchTask ? fixtures.find(candidate => candidate.task === request.task) : undefined);
+
+      if (!fixture) {
+        throw new Error(`No recorded AI fixture for task "${request.task}" (key ${key})`);
+      }
+
+      return { text: fixture.text, model: fixture.model, usage: { ...fixture.usage } };
+    },
+  };
+}
+
+/**
+ * Pass calls through to a real provider and hand each response to `record`
+ */
+export function createRecordingProvider(
+  inner: AIProvider,
+  record: (fixture: AIFixture) => void
+): AIProvider {
+  return {
+    name: inner.name,
+    defaultModel: inner.defaultModel,
+
+    async generate(request: ExtractionRequest): Promise<ProviderResult> {
+      const result = await inner.generate(request);
+      record({
+        task: request.task,
+        key: fixtureKey(request),
+        model: result.model,
+        text: result.text,
+        usage: result.usage,
+      });
+      return result;
+    },
+  };
+}
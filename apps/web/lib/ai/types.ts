@@ -0,0 +1,120 @@
+// AI Provider Layer - types shared by the provider adapters and the parsers that call them
+
+export type AIProviderName = 'gemini' | 'openai' | 'replay';
+
+/**
+ * One piece of the document being read. Files are base64; images and PDFs are
+ * both accepted by the Gemini and OpenAI adapters.
+ */
+export type AIInput =
+  | { type: 'text'; text: string }
+  | { type: 'file'; mimeType: string; data: string; filename?: string };
+
+/**
+ * Schema type names, the same strings as the `Type` enum in @google/genai, so
+ * parsers can describe their schema without loading the Gemini SDK
+ */
+export const Type = {
+  STRING: 'STRING',
+  NUMBER: 'NUMBER',
+  INTEGER: 'INTEGER',
+  BOOLEAN: 'BOOLEAN',
+  ARRAY: 'ARRAY',
+  OBJECT: 'OBJECT',
+} as const;
+
+/**
+ * Response schema in Gemini's OpenAPI subset (types from `Type` above),
+ * which the existing parsers already use. Other adapters convert it.
+ */
+export interface AISchema {
+  type: string;
+  description?: string;
+  format?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, AISchema>;
+  required?: string[];
+  propertyOrdering?: string[];
+  items?: AISchema;
+}
+
+// Every extraction the app runs; /api/ai/extract refuses any other task
+export const EXTRACTION_TASKS = [
+  'floorplan.furniture',
+  'floorplan.layout-check',
+  'floorplan.placement-dimensions',
+  'floorplan.rotation',
+  'invoice.extract',
+  'pod.extract',
+  'quote.parse-text',
+  'smartquote-v2.parse',
+  'smartquote.parse',
+  'smartquote.parse-enhanced',
+] as const;
+
+export interface ExtractionRequest {
+  // Names the call for fixtures and usage reports, e.g. 'invoice.extract'
+  task: string;
+  inputs: AIInput[];
+  schema?: AISchema;
+  systemInstruction?: string;
+  // Leave unset to use the provider's configured model
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  // false skips model "thinking" for quick lookups where latency matters
+  thinking?: boolean;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * What an adapter returns: the model's JSON text, unparsed
+ */
+export interface ProviderResult {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly defaultModel: string;
+  generate(request: ExtractionRequest): Promise<ProviderResult>;
+}
+
+export interface ExtractionResponse<T = unknown> {
+  data: T;
+  text: string;
+  provider: AIProviderName;
+  model: string;
+  usage: TokenUsage;
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface AIUsageEntry extends TokenUsage {
+  task: string;
+  provider: AIProviderName;
+  model: string;
+  costUsd: number;
+  durationMs: number;
+  at: string;
+  error?: string;
+}
+
+/**
+ * A recorded provider response, replayed by the replay adapter in tests
+ */
+export interface AIFixture {
+  task: string;
+  key: string; // fixtureKey() of the request that produced it
+  model: string;
+  text: string;
+  usage: TokenUsage;
+}
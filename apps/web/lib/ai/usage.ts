@@ -0,0 +1,67 @@
+// AI Provider Layer - per-call token and cost accounting
+// Kept in memory for the current page or server process; subscribe with
+// onAIUsage to forward entries elsewhere.
+
+import type { AIUsageEntry } from './types';
+
+const MAX_ENTRIES = 500;
+
+let entries: AIUsageEntry[] = [];
+const listeners = new Set<(entry: AIUsageEntry) => void>();
+
+export function recordAIUsage(entry: AIUsageEntry): void {
+  entries.push(entry);
+  if (entries.length > MAX_ENTRIES) {
+    entries = entries.slice(-MAX_ENTRIES);
+  }
+
+  listeners.forEach(listener => {
+    try {
+      listener(entry);
+    } catch (error) {
+      console.warn('AI usage listener failed:', error);
+    }
+  });
+}
+
+/**
+ * Subscribe to every AI call. Returns an unsubscribe function.
+ */
+export function onAIUsage(listener: (entry: AIUsageEntry) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAIUsage(): AIUsageEntry[] {
+  return [...entries];
+}
+
+export function resetAIUsage(): void {
+  entries = [];
+}
+
+/**
+ * Totals per task, for showing what each parser costs
+ */
+export function summarizeAIUsage(usage: AIUsageEntry[] = entries): Record<string, {
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}> {
+  const summary: ReturnType<typeof summarizeAIUsage> = {};
+
+  for (const entry of usage) {
+    const totals = summary[entry.task] ??= { calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    totals.calls += 1;
+    if (entry.error) totals.failures += 1;
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.costUsd = Math.round((totals.costUsd + entry.costUsd) * 1_000_000) / 1_000_000;
+  }
+
+  return summary;
+}
@@ -38,7 +38,7 @@ export async function detectCorrectionPatterns(
 
     const patterns: Map<string, CorrectionPattern> = new Map();
 
-    corrections?.forEach((correction: InvoiceCorrection) => {
+    (corrections as InvoiceCorrection[] | null)?.forEach(correction => {
       const original = correction.original_value || '';
       const corrected = correction.corrected_value || '';
 
@@ -245,7 +245,7 @@ export async function getPendingLearningRequests(
       .limit(limit);
 
     if (error) throw error;
-    return data || [];
+    return (data || []) as ActiveLearningRequest[];
   } catch (error) {
     console.error('getPendingLearningRequests error:', error);
     return [];
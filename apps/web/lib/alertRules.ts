@@ -0,0 +1,294 @@
+// Construction alert rules - which of the configured rules fire for a job, and
+// what becomes of the alerts already raised: new firings are opened, alerts
+// left open too long are escalated, and alerts whose condition has cleared are
+// resolved. Rules and the alert columns are in migration 059;
+// lib/server/alertEngine.ts loads each job's facts and applies the plan.
+//
+// An alert stays live (cleared_at NULL) for as long as its rule keeps firing, so
+// one dismissed or resolved by hand is not raised again until the condition
+// clears and recurs.
+
+import { labourCalculator, type DailyProgressSummary, type ProductProgress } from './labour-calculator';
+import { addDays } from './utils/dates';
+
+export const ALERT_RULE_METRICS = ['low_efficiency', 'projected_late', 'product_blocked', 'labour_bank_overrun'] as const;
+export type AlertRuleMetric = typeof ALERT_RULE_METRICS[number];
+
+export const ALERT_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+/** Assignee role meaning the job's lead installer rather than a profiles.role */
+export const LEAD_INSTALLER_ROLE = 'lead_installer';
+
+/** A construction_alert_rules row */
+export type AlertRule = {
+  id: string;
+  code: string;
+  name: string;
+  metric: AlertRuleMetric;
+  threshold: number;
+  window_days: number;
+  alert_type: string;
+  severity: AlertSeverity;
+  assignee_role: string;
+  due_in_days: number;
+  escalate_after_hours: number | null;
+  escalate_severity: AlertSeverity | null;
+  escalate_role: string | null;
+  is_active: boolean;
+};
+
+export type ProgressLogRow = {
+  log_date: string;
+  units_completed: number | null;
+  hours_worked: number | null;
+  workers_on_site: number | null;
+  efficiency_percentage: number | null;
+};
+
+export type LabourBankRow = {
+  role: 'installer' | 'supervisor';
+  crew_mode: 'van' | 'foot' | null;
+  days_allocated: number;
+};
+
+/** Everything the rules look at for one job */
+export type JobAlertFacts = {
+  job: {
+    id: string;
+    reference: string | null;
+    title: string | null;
+    end_date: string | null;
+  };
+  products: Array<ProductProgress & { blocked_since: string | null }>;
+  progress: ProgressLogRow[];
+  labourBank: LabourBankRow[];
+  /** job_time_presets.day_length_hours */
+  dayLengthHours: number;
+};
+
+/** An alert a rule wants live */
+export type RaisedAlert = {
+  dedupe_key: string;
+  rule_code: string;
+  job_id: string;
+  alert_type: string;
+  severity: AlertSeverity;
+  title: string;
+  description: string;
+  action_required: string;
+};
+
+/** A rule alert not yet cleared, as loaded from construction_alerts */
+export type LiveAlert = {
+  id: string;
+  job_id: string;
+  rule_code: string;
+  dedupe_key: string;
+  status: 'open' | 'in_progress' | 'resolved' | 'dismissed';
+  severity: AlertSeverity;
+  created_at: string;
+  escalated_at: string | null;
+};
+
+export type AlertPlan = {
+  open: RaisedAlert[];
+  escalate: Array<{ alert: LiveAlert; rule: AlertRule }>;
+  /** Open and in-progress ones are resolved; the rest only marked cleared */
+  clear: LiveAlert[];
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const TITLE_LENGTH = 200;
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function jobLabel(job: JobAlertFacts['job']): string {
+  return job.reference || job.title || 'Job';
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/** Crew hours in the job's labour bank: a van crew day is two installers. */
+export function labourBankHours(bank: LabourBankRow[], dayLengthHours: number): number {
+  return bank.reduce(
+    (sum, row) => sum + Number(row.days_allocated) * (row.crew_mode === 'van' ? 2 : 1) * dayLengthHours,
+    0
+  );
+}
+
+/** Logged days with hours on them, oldest first, in the calculator's shape. */
+export function progressSummaries(progress: ProgressLogRow[]): DailyProgressSummary[] {
+  return progress
+    .filter(log => Number(log.hours_worked ?? 0) > 0)
+    .sort((a, b) => a.log_date.localeCompare(b.log_date))
+    .map(log => ({
+      date: log.log_date,
+      unitsCompleted: Number(log.units_completed ?? 0),
+      hoursWorked: Number(log.hours_worked ?? 0),
+      workersOnSite: Number(log.workers_on_site ?? 0),
+      efficiency: Number(log.efficiency_percentage ?? 100),
+      cumulativeProgress: 0,
+      targetProgress: 0,
+      variance: 0,
+    }));
+}
+
+function raise(rule: AlertRule, facts: JobAlertFacts, subject: string | null, title: string, description: string, action: string): RaisedAlert {
+  return {
+    dedupe_key: [rule.code, facts.job.id, subject].filter(Boolean).join(':'),
+    rule_code: rule.code,
+    job_id: facts.job.id,
+    alert_type: rule.alert_type,
+    severity: rule.severity,
+    title: `${jobLabel(facts.job)}: ${title}`.slice(0, TITLE_LENGTH),
+    description,
+    action_required: action,
+  };
+}
+
+function lowEfficiency(rule: AlertRule, facts: JobAlertFacts): RaisedAlert[] {
+  const recent = progressSummaries(facts.progress).slice(-rule.window_days);
+  if (recent.length < rule.window_days || recent.some(day => day.efficiency >= rule.threshold)) return [];
+
+  const bottleneck = labourCalculator.identifyBottlenecks(facts.products)[0];
+  return [raise(
+    rule,
+    facts,
+    null,
+    `efficiency below ${rule.threshold}% for ${rule.window_days} day(s)`,
+    `Close-out efficiency: ${recent.map(day => `${day.date} ${round(day.efficiency)}%`).join(', ')}.`,
+    bottleneck
+      ? `Review work processes, starting with ${bottleneck.product_name || bottleneck.product_type}`
+      : 'Review work processes and identify bottlenecks'
+  )];
+}
+
+function projectedLate(rule: AlertRule, facts: JobAlertFacts, now: Date): RaisedAlert[] {
+  const endDate = facts.job.end_date;
+  if (!endDate || facts.products.length === 0) return [];
+
+  const metrics = labourCalculator.calculateLabourMetrics(
+    facts.products,
+    progressSummaries(facts.progress),
+    new Date(`${endDate}T23:59:59Z`),
+    now
+  );
+  if (metrics.hoursRemaining <= 0) return [];
+
+  const projected = metrics.projectedCompletion.toISOString().slice(0, 10);
+  const daysLate = daysBetween(endDate, projected);
+  if (daysLate <= rule.threshold) return [];
+
+  return [raise(
+    rule,
+    facts,
+    null,
+    `projected to finish ${daysLate} day(s) late`,
+    `${round(metrics.hoursRemaining)} hours of work remain at ${round(metrics.burnRate)} hours a day; ` +
+      `projected completion ${projected} against an end date of ${endDate}.`,
+    'Add labour or agree a revised end date with the client'
+  )];
+}
+
+function productBlocked(rule: AlertRule, facts: JobAlertFacts, now: Date): RaisedAlert[] {
+  return facts.products.flatMap(product => {
+    if (product.status !== 'blocked' || !product.blocked_since) return [];
+    const hours = (now.getTime() - Date.parse(product.blocked_since)) / HOUR_MS;
+    if (hours <= rule.threshold) return [];
+
+    const name = product.product_name || product.product_type;
+    const remaining = Math.max(0, product.total_quantity - product.completed_units);
+    return [raise(
+      rule,
+      facts,
+      product.id,
+      `${name} blocked for ${Math.floor(hours)} hours`,
+      `${name} has been blocked since ${product.blocked_since.slice(0, 16).replace('T', ' ')} ` +
+        `with ${remaining} of ${product.total_quantity} unit(s) still to install.` +
+        (product.notes ? ` Notes: ${product.notes}` : ''),
+      'Clear the blocker or re-sequence the crew onto other work'
+    )];
+  });
+}
+
+function labourBankOverrun(rule: AlertRule, facts: JobAlertFacts): RaisedAlert[] {
+  const banked = labourBankHours(facts.labourBank, facts.dayLengthHours);
+  if (banked <= 0) return [];
+
+  const burned = facts.progress.reduce((sum, log) => sum + Number(log.hours_worked ?? 0), 0);
+  const used = (burned / banked) * 100;
+  if (used <= rule.threshold) return [];
+
+  return [raise(
+    rule,
+    facts,
+    null,
+    `${Math.round(used)}% of the labour bank used`,
+    `${round(burned)} hours logged against ${round(banked)} banked hours ` +
+      `(${Math.round(used)}%, threshold ${rule.threshold}%).`,
+    `Review remaining scope; ${round(labourCalculator.calculateRemainingHours(facts.products))} hours of product work still to do`
+  )];
+}
+
+/** Alerts one rule wants live for the job. */
+export function evaluateRule(rule: AlertRule, facts: JobAlertFacts, now: Date): RaisedAlert[] {
+  switch (rule.metric) {
+    case 'low_efficiency':
+      return lowEfficiency(rule, facts);
+    case 'projected_late':
+      return projectedLate(rule, facts, now);
+    case 'product_blocked':
+      return productBlocked(rule, facts, now);
+    case 'labour_bank_overrun':
+      return labourBankOverrun(rule, facts);
+    default:
+      return [];
+  }
+}
+
+/** Alerts the active rules want live for the job. */
+export function evaluateRules(rules: AlertRule[], facts: JobAlertFacts, now: Date): RaisedAlert[] {
+  return rules.filter(rule => rule.is_active).flatMap(rule => evaluateRule(rule, facts, now));
+}
+
+/** The configured escalated severity, or one step up from the current one. */
+export function escalatedSeverity(rule: AlertRule, current: AlertSeverity): AlertSeverity {
+  if (rule.escalate_severity) return rule.escalate_severity;
+  return ALERT_SEVERITIES[Math.min(ALERT_SEVERITIES.indexOf(current) + 1, ALERT_SEVERITIES.length - 1)];
+}
+
+/** When an alert from the rule raised on `today` is due. */
+export function alertDueDate(rule: AlertRule, today: string): string {
+  return addDays(today, rule.due_in_days);
+}
+
+/**
+ * Compare what the rules want live with the live alerts for the same jobs.
+ * `live` must only hold alerts for jobs that were evaluated.
+ */
+export function planAlerts(raised: RaisedAlert[], live: LiveAlert[], rules: AlertRule[], now: Date): AlertPlan {
+  const liveKeys = new Set(live.map(alert => alert.dedupe_key));
+  const firing = new Set(raised.map(alert => alert.dedupe_key));
+  const byCode = new Map(rules.map(rule => [rule.code, rule]));
+
+  const escalate = live.flatMap(alert => {
+    const rule = byCode.get(alert.rule_code);
+    if (!rule?.escalate_after_hours || alert.status !== 'open' || alert.escalated_at) return [];
+    if (!firing.has(alert.dedupe_key)) return [];
+    const age = now.getTime() - Date.parse(alert.created_at);
+    return age >= rule.escalate_after_hours * HOUR_MS ? [{ alert, rule }] : [];
+  });
+
+  return {
+    open: raised.filter(alert => !liveKeys.has(alert.dedupe_key)),
+    escalate,
+    clear: live.filter(alert => !firing.has(alert.dedupe_key)),
+  };
+}
@@ -132,3 +132,23 @@ export async function isAuthenticated(req: NextApiRequest): Promise<boolean> {
   const user = await verifyAuth(req);
   return user !== null;
 }
+
+/**
+ * Require the shared cron secret on scheduled-job routes
+ * Usage: if (!requireCronSecret(req, res)) return;
+ *
+ * Vercel Cron sends it as "Authorization: Bearer <CRON_SECRET>"
+ */
+export function requireCronSecret(req: NextApiRequest, res: NextApiResponse): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || extractToken(req) !== secret) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid cron secret is required.',
+    });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,194 @@
+// apps/web/lib/calendarFeeds.ts
+// Calendar feed events for the labour schedule: an operative's shifts, and
+// each job's allocated days with site, crew mix, supervisor and job reference
+import type { CalendarEvent, CalendarEventStatus } from './icalendar';
+import { resourceCapacityRole, type AllocationRow, type LabourResourceRow } from './labourConflicts';
+import { addDays } from './utils/dates';
+
+export type CalendarFeedScope = 'resource' | 'job' | 'company';
+
+export const CALENDAR_FEED_SCOPES: CalendarFeedScope[] = ['resource', 'job', 'company'];
+
+/** Feeds carry the last two months and the coming year. */
+export const FEED_PAST_DAYS = 60;
+export const FEED_FUTURE_DAYS = 365;
+
+// UIDs must never change between fetches, so they don't depend on the host serving the feed
+const UID_DOMAIN = 'bhit-work-os';
+
+export type CalendarFeed = {
+  id: string;
+  token: string;
+  scope: CalendarFeedScope;
+  resource_id: string | null;
+  job_id: string | null;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+export type FeedJob = {
+  id: string;
+  reference: string | null;
+  title: string | null;
+  client_name: string | null;
+  status: string | null;
+  address: string | null;
+  lead_installer_name: string | null;
+  updated_at: string;
+};
+
+export type AllocationDay = {
+  job_id: string;
+  work_date: string;
+  cancelled_at: string | null;
+  updated_at: string;
+};
+
+export type FeedShift = {
+  id: string;
+  resource_id: string;
+  job_id: string | null;
+  shift_date: string;
+  start_time: string;
+  end_time: string;
+  shift_type: string | null;
+  status: string;
+  notes: string | null;
+  updated_at: string;
+};
+
+export type FeedContext = {
+  jobs: Record<string, FeedJob>;
+  /** Allocation rows on the jobs in the feed, used for the crew mix */
+  allocations: AllocationRow[];
+  /** Shifts on the jobs in the feed, used to name the supervisor on site */
+  shifts: FeedShift[];
+  resources: LabourResourceRow[];
+  siteUrl: string;
+};
+
+/** Subscription address for a feed; webcal:// makes phones offer to subscribe rather than download. */
+export function feedUrl(siteUrl: string, token: string, webcal = false): string {
+  const url = `${siteUrl}/api/calendar/${token}.ics`;
+  return webcal ? url.replace(/^https?:/, 'webcal:') : url;
+}
+
+/** First and last date a feed covers. */
+export function feedWindow(today: string): { from: string; to: string } {
+  return { from: addDays(today, -FEED_PAST_DAYS), to: addDays(today, FEED_FUTURE_DAYS) };
+}
+
+function plural(count: number, singular: string, many = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : many}`;
+}
+
+/** e.g. "2 van crews, 1 on foot, 1 supervisor" */
+export function crewMix(rows: AllocationRow[]): string {
+  const van = rows.filter(row => row.role === 'installer' && row.crew_mode === 'van')
+    .reduce((sum, row) => sum + row.headcount, 0);
+  const foot = rows.filter(row => row.role === 'installer' && row.crew_mode !== 'van')
+    .reduce((sum, row) => sum + row.headcount, 0);
+  const supervisors = rows.filter(row => row.role === 'supervisor')
+    .reduce((sum, row) => sum + row.headcount, 0);
+
+  const parts: string[] = [];
+  if (van > 0) parts.push(plural(van, 'van crew'));
+  if (foot > 0) parts.push(`${foot} on foot`);
+  if (supervisors > 0) parts.push(plural(supervisors, 'supervisor'));
+  return parts.join(', ');
+}
+
+/**
+ * Supervisors booked onto a job on a day, falling back to the job's lead
+ * installer when no supervisor has a shift yet
+ */
+export function jobSupervisors(job: FeedJob, date: string, context: FeedContext): string[] {
+  const names = context.shifts
+    .filter(shift => shift.job_id === job.id && shift.shift_date === date
+      && shift.status !== 'cancelled' && shift.status !== 'no_show')
+    .map(shift => context.resources.find(resource => resource.id === shift.resource_id))
+    .filter((resource): resource is LabourResourceRow => !!resource && resourceCapacityRole(resource) === 'supervisors')
+    .map(resource => resource.name);
+
+  const unique = Array.from(new Set(names));
+  if (unique.length > 0) return unique;
+  return job.lead_installer_name ? [job.lead_installer_name] : [];
+}
+
+function jobSummary(job: FeedJob): string {
+  const name = [job.title, job.client_name].filter(Boolean).join(' - ') || 'Job';
+  return job.reference ? `${job.reference} ${name}` : name;
+}
+
+function describe(lines: Array<string | null | false | undefined>): string {
+  return lines.filter(Boolean).join('\n');
+}
+
+function jobUrl(job: FeedJob, context: FeedContext): string {
+  return `${context.siteUrl}/jobs/${job.id}/labour`;
+}
+
+/** Events show job details, so they change when either the booking or the job does. */
+function lastChanged(updatedAt: string, job: FeedJob | undefined): string {
+  return job && Date.parse(job.updated_at) > Date.parse(updatedAt) ? job.updated_at : updatedAt;
+}
+
+/** One all-day event per job and allocated day; days taken off the job come through cancelled. */
+export function allocationDayEvent(day: AllocationDay, context: FeedContext): CalendarEvent | null {
+  const job = context.jobs[day.job_id];
+  if (!job) return null;
+
+  const rows = context.allocations.filter(row => row.job_id === day.job_id && row.work_date === day.work_date);
+  const crew = crewMix(rows);
+  const supervisors = jobSupervisors(job, day.work_date, context);
+  const cancelled = !!day.cancelled_at || job.status === 'cancelled';
+
+  return {
+    uid: `allocation-${day.job_id}-${day.work_date}@${UID_DOMAIN}`,
+    start: day.work_date,
+    end: addDays(day.work_date, 1),
+    summary: crew && !cancelled ? `${jobSummary(job)} (${crew})` : jobSummary(job),
+    location: job.address,
+    description: describe([
+      job.reference && `Job: ${job.reference}`,
+      crew && `Crew: ${crew}`,
+      supervisors.length > 0 && `Supervisor: ${supervisors.join(', ')}`,
+    ]),
+    status: cancelled ? 'CANCELLED' : job.status === 'on_hold' ? 'TENTATIVE' : 'CONFIRMED',
+    updatedAt: lastChanged(day.updated_at, job),
+    url: jobUrl(job, context),
+  };
+}
+
+function shiftStatus(status: string): CalendarEventStatus {
+  if (status === 'cancelled' || status === 'no_show') return 'CANCELLED';
+  return status === 'scheduled' ? 'TENTATIVE' : 'CONFIRMED';
+}
+
+/** One timed event per shift; shifts ending at or before they start run past midnight. */
+export function shiftEvent(shift: FeedShift, context: FeedContext): CalendarEvent {
+  const job = shift.job_id ? context.jobs[shift.job_id] : undefined;
+  const endDate = shift.end_time <= shift.start_time ? addDays(shift.shift_date, 1) : shift.shift_date;
+  const crew = job
+    ? crewMix(context.allocations.filter(row => row.job_id === job.id && row.work_date === shift.shift_date))
+    : '';
+  const supervisors = job ? jobSupervisors(job, shift.shift_date, context) : [];
+  const type = shift.shift_type && shift.shift_type !== 'regular' ? ` [${shift.shift_type}]` : '';
+
+  return {
+    uid: `shift-${shift.id}@${UID_DOMAIN}`,
+    start: `${shift.shift_date}T${shift.start_time}`,
+    end: `${endDate}T${shift.end_time}`,
+    summary: `${job ? jobSummary(job) : 'Shift'}${type}`,
+    location: job?.address ?? null,
+    description: describe([
+      job?.reference && `Job: ${job.reference}`,
+      crew && `Crew: ${crew}`,
+      supervisors.length > 0 && `Supervisor: ${supervisors.join(', ')}`,
+      shift.notes,
+    ]),
+    status: shiftStatus(shift.status),
+    updatedAt: lastChanged(shift.updated_at, job),
+    url: job ? jobUrl(job, context) : null,
+  };
+}
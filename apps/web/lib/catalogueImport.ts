@@ -0,0 +1,434 @@
+// Manufacturer price list imports into the product catalogue
+// (product_catalogue_items and product_aliases), which SmartQuote matches quote
+// lines against and the floor planner lays furniture out from.
+// A spreadsheet's rows are read through a column map (saved per manufacturer as
+// a catalogue_import_templates row), then compared with the catalogue: codes not
+// seen before are new, known codes (canonical or alias) with different values
+// are changed, and the manufacturer's products missing from a full list are
+// discontinued. Only columns the map provides are compared, so a price-only
+// list leaves install times alone. Each code also yields variants (without the
+// manufacturer prefix, without finish/colour suffix segments) that become
+// aliases where no other product claims them.
+// Locked catalogue products are reported but never changed by an import.
+
+export const CATALOGUE_FIELDS = [
+  'code', 'name', 'category', 'description',
+  'width', 'depth', 'height', 'diameter',
+  'weight_kg', 'install_time', 'waste_volume_m3', 'list_price',
+] as const;
+
+export type CatalogueField = typeof CATALOGUE_FIELDS[number];
+
+export const FIELD_LABELS: Record<CatalogueField, string> = {
+  code: 'Product code',
+  name: 'Name',
+  category: 'Category',
+  description: 'Description',
+  width: 'Width',
+  depth: 'Depth',
+  height: 'Height',
+  diameter: 'Diameter',
+  weight_kg: 'Weight (kg)',
+  install_time: 'Install time',
+  waste_volume_m3: 'Waste volume (m³)',
+  list_price: 'List price',
+};
+
+/** Spreadsheet header for each field; unmapped fields are left out of the import */
+export type ColumnMap = Partial<Record<CatalogueField, string>>;
+
+export type ImportOptions = {
+  dimensionUnit: 'mm' | 'cm' | 'm';
+  installTimeUnit: 'hours' | 'minutes';
+  /** Install time for new products when the list has none */
+  defaultInstallTimeHours: number;
+  /** Manufacturer prefix on codes (e.g. "SC-"); codes without it become aliases */
+  codePrefix: string;
+  /** Trailing code segments (finish, colour) that variants drop, e.g. 1 makes FLX-4P from FLX-4P-A */
+  variantSuffixSegments: number;
+  /** Treat the file as the manufacturer's full list and discontinue products missing from it */
+  discontinueMissing: boolean;
+};
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  dimensionUnit: 'mm',
+  installTimeUnit: 'hours',
+  defaultInstallTimeHours: 0.5,
+  codePrefix: '',
+  variantSuffixSegments: 0,
+  discontinueMissing: true,
+};
+
+/** A catalogue_import_templates row */
+export type ImportTemplate = {
+  id: string;
+  manufacturer: string;
+  name: string;
+  column_map: ColumnMap;
+  options: Partial<ImportOptions>;
+};
+
+/** product_catalogue_items columns an import sets */
+export type CatalogueValues = {
+  canonical_name: string | null;
+  category: string | null;
+  description: string | null;
+  manufacturer: string | null;
+  dimension_l: number | null;
+  dimension_w: number | null;
+  dimension_h: number | null;
+  dimension_d: number | null;
+  weight_kg: number | null;
+  install_time_hours: number | null;
+  waste_volume_m3: number | null;
+  list_price: number | null;
+};
+
+export type ImportedProduct = {
+  /** Spreadsheet row number, counting the header as row 1 */
+  row: number;
+  code: string;
+  /** The values the list provides; anything unmapped or blank is absent */
+  values: Partial<CatalogueValues>;
+  variants: string[];
+};
+
+export type RowError = { row: number; message: string };
+
+/** A product_catalogue_items row with its alias codes */
+export type ExistingProduct = CatalogueValues & {
+  id: string;
+  canonical_code: string;
+  dimensions_format: 'rect' | 'round' | null;
+  locked: boolean;
+  discontinued_at: string | null;
+  aliases: string[];
+};
+
+export type FieldChange = {
+  field: keyof CatalogueValues | 'discontinued_at';
+  from: string | number | null;
+  to: string | number | null;
+};
+
+export type ImportDiff = {
+  added: Array<{ product: ImportedProduct; aliases: string[] }>;
+  changed: Array<{ product: ImportedProduct; existing: ExistingProduct; changes: FieldChange[]; aliases: string[] }>;
+  /** Matched with nothing to change, though possibly new aliases */
+  unchanged: Array<{ product: ImportedProduct; existing: ExistingProduct; aliases: string[] }>;
+  discontinued: ExistingProduct[];
+  /** Matched products that are locked, so are left as they are */
+  locked: ExistingProduct[];
+  errors: RowError[];
+};
+
+export type ImportSummary = {
+  added: number;
+  changed: number;
+  unchanged: number;
+  discontinued: number;
+  locked: number;
+  aliases: number;
+  errors: number;
+};
+
+const HEADER_HINTS: Record<CatalogueField, string[]> = {
+  code: ['code', 'product code', 'item code', 'article', 'article number', 'article no', 'sku', 'part number', 'part no', 'model number', 'catalogue number'],
+  name: ['name', 'product name', 'product', 'item name', 'title', 'model'],
+  category: ['category', 'product group', 'group', 'family', 'range', 'type'],
+  description: ['description', 'product description', 'item description', 'desc', 'details'],
+  width: ['width', 'w', 'length', 'l', 'overall width', 'width mm', 'width cm'],
+  depth: ['depth', 'd', 'overall depth', 'depth mm', 'depth cm'],
+  height: ['height', 'h', 'overall height', 'height mm', 'height cm'],
+  diameter: ['diameter', 'dia', 'diameter mm', 'diameter cm'],
+  weight_kg: ['weight', 'weight kg', 'net weight', 'gross weight', 'kg'],
+  install_time: ['install time', 'installation time', 'fitting time', 'assembly time', 'install hours', 'install minutes'],
+  waste_volume_m3: ['waste', 'waste volume', 'packaging volume', 'packed volume', 'volume m3', 'cbm'],
+  list_price: ['price', 'list price', 'rrp', 'unit price', 'trade price', 'price gbp'],
+};
+
+const DIMENSION_FIELDS: Array<[CatalogueField, 'dimension_l' | 'dimension_w' | 'dimension_h' | 'dimension_d']> = [
+  ['width', 'dimension_l'],
+  ['depth', 'dimension_w'],
+  ['height', 'dimension_h'],
+  ['diameter', 'dimension_d'],
+];
+
+const MM_PER_UNIT = { mm: 1, cm: 10, m: 1000 };
+
+/** Same normalisation as the catalogue's normalize_product_code() */
+export function normalizeProductCode(code: string): string {
+  return code.toUpperCase().replace(/[\s\-_()]+/g, '');
+}
+
+const headerKey = (header: string) => header.toLowerCase().replace(/\(.*?\)|[^a-z0-9]+/g, ' ').trim();
+
+/** The template's map where its headers are in the file, otherwise a best guess from the header names. */
+export function suggestColumnMap(headers: string[], template?: Pick<ImportTemplate, 'column_map'> | null): ColumnMap {
+  const present = new Set(headers);
+  const map: ColumnMap = {};
+  const taken = new Set<string>();
+
+  for (const field of CATALOGUE_FIELDS) {
+    const saved = template?.column_map[field];
+    if (saved && present.has(saved)) {
+      map[field] = saved;
+      taken.add(saved);
+    }
+  }
+  for (const field of CATALOGUE_FIELDS) {
+    if (map[field]) continue;
+    const header = headers.find(candidate => !taken.has(candidate) && HEADER_HINTS[field].includes(headerKey(candidate)));
+    if (header) {
+      map[field] = header;
+      taken.add(header);
+    }
+  }
+  return map;
+}
+
+/** A number from a spreadsheet cell ("£1,250.00", "1200 mm"); null when blank, NaN when unreadable. */
+export function parseNumber(cell: unknown): number | null {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : NaN;
+  const text = String(cell ?? '').trim();
+  if (!text) return null;
+  const cleaned = text.replace(/[£$€,\s]/g, '').replace(/[a-z³]+$/i, '');
+  return cleaned && /^-?\d*\.?\d+$/.test(cleaned) ? Number(cleaned) : NaN;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Other codes the same product is quoted under: without the manufacturer
+ * prefix, and with finish/colour segments dropped from the end.
+ */
+export function codeVariants(code: string, options: Pick<ImportOptions, 'codePrefix' | 'variantSuffixSegments'>): string[] {
+  const variants: string[] = [];
+  const prefix = options.codePrefix.trim();
+  const bases = [code];
+
+  if (prefix && code.toUpperCase().startsWith(prefix.toUpperCase()) && code.length > prefix.length) {
+    const unprefixed = code.slice(prefix.length).replace(/^[\s\-_./]+/, '');
+    variants.push(unprefixed);
+    bases.push(unprefixed);
+  }
+
+  for (const base of bases) {
+    let trimmed = base;
+    for (let dropped = 0; dropped < options.variantSuffixSegments; dropped++) {
+      const cut = trimmed.search(/[\s\-_./]+[^\s\-_./]*$/);
+      if (cut <= 0) break;
+      trimmed = trimmed.slice(0, cut);
+      if (normalizeProductCode(trimmed).length < 3) break;
+      variants.push(trimmed);
+    }
+  }
+
+  const own = normalizeProductCode(code);
+  const seen = new Set<string>([own]);
+  return variants.filter(variant => {
+    const key = normalizeProductCode(variant);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Read the data rows (everything after the header) through the column map. */
+export function mapRows(
+  rows: unknown[][],
+  map: ColumnMap,
+  options: ImportOptions,
+  manufacturer: string
+): { products: ImportedProduct[]; errors: RowError[] } {
+  const [headers = [], ...data] = rows;
+  const index = (field: CatalogueField) => {
+    const header = map[field];
+    return header ? headers.findIndex(candidate => String(candidate ?? '').trim() === header) : -1;
+  };
+  const columns = Object.fromEntries(CATALOGUE_FIELDS.map(field => [field, index(field)])) as Record<CatalogueField, number>;
+
+  const products: ImportedProduct[] = [];
+  const errors: RowError[] = [];
+  if (columns.code < 0) {
+    return { products, errors: [{ row: 1, message: 'No column is mapped to the product code' }] };
+  }
+
+  const firstRow = new Map<string, number>();
+
+  data.forEach((cells, offset) => {
+    const row = offset + 2;
+    if (cells.every(cell => String(cell ?? '').trim() === '')) return;
+
+    const text = (field: CatalogueField) => {
+      const value = columns[field] >= 0 ? String(cells[columns[field]] ?? '').trim() : '';
+      return value || undefined;
+    };
+    const code = text('code');
+    if (!code) {
+      errors.push({ row, message: 'Missing product code' });
+      return;
+    }
+    const key = normalizeProductCode(code);
+    if (firstRow.has(key)) {
+      errors.push({ row, message: `${code} is already on row ${firstRow.get(key)}` });
+      return;
+    }
+
+    const values: Partial<CatalogueValues> = { manufacturer };
+    const problems: string[] = [];
+    const number = (field: CatalogueField) => {
+      if (columns[field] < 0) return null;
+      const value = parseNumber(cells[columns[field]]);
+      if (value !== null && (Number.isNaN(value) || value < 0)) {
+        problems.push(`${FIELD_LABELS[field]} "${cells[columns[field]]}" is not a number`);
+        return null;
+      }
+      return value;
+    };
+
+    const name = text('name');
+    if (name) values.canonical_name = name;
+    const category = text('category');
+    if (category) values.category = category.toLowerCase();
+    const description = text('description');
+    if (description) values.description = description;
+
+    for (const [field, column] of DIMENSION_FIELDS) {
+      const value = number(field);
+      if (value !== null && value > 0) values[column] = Math.round(value * MM_PER_UNIT[options.dimensionUnit]);
+    }
+    const weight = number('weight_kg');
+    if (weight !== null) values.weight_kg = round(weight, 2);
+    const installTime = number('install_time');
+    if (installTime !== null) {
+      values.install_time_hours = round(options.installTimeUnit === 'minutes' ? installTime / 60 : installTime, 2);
+    }
+    const waste = number('waste_volume_m3');
+    if (waste !== null) values.waste_volume_m3 = round(waste, 4);
+    const price = number('list_price');
+    if (price !== null) values.list_price = round(price, 2);
+
+    if (problems.length > 0) {
+      errors.push({ row, message: problems.join('; ') });
+      return;
+    }
+
+    firstRow.set(key, row);
+    products.push({ row, code, values, variants: codeVariants(code, options) });
+  });
+
+  return { products, errors };
+}
+
+/** The dimensions format the catalogue's valid_dimensions check allows for these dimensions. */
+export function dimensionsFormat(values: Pick<CatalogueValues, 'dimension_l' | 'dimension_w' | 'dimension_h' | 'dimension_d'>): 'rect' | 'round' | null {
+  if (values.dimension_d && values.dimension_h) return 'round';
+  if (values.dimension_l && values.dimension_w && values.dimension_h) return 'rect';
+  return null;
+}
+
+function sameValue(a: string | number | null, b: string | number | null): boolean {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return a !== null && b !== null && Math.abs(Number(a) - Number(b)) < 0.005;
+  }
+  return (a ?? '') === (b ?? '');
+}
+
+/**
+ * Compare the mapped products with the catalogue. Products are matched on
+ * canonical or alias code; a code variant becomes an alias only when no other
+ * product, existing or imported, already answers to it.
+ */
+export function diffCatalogue(
+  products: ImportedProduct[],
+  catalogue: ExistingProduct[],
+  manufacturer: string,
+  options: Pick<ImportOptions, 'discontinueMissing'>,
+  errors: RowError[] = []
+): ImportDiff {
+  const byCode = new Map<string, ExistingProduct>();
+  for (const existing of catalogue) {
+    for (const code of [existing.canonical_code, ...existing.aliases]) {
+      const key = normalizeProductCode(code);
+      if (!byCode.has(key)) byCode.set(key, existing);
+    }
+  }
+
+  // Variants claimed by more than one imported product are ambiguous
+  const importedCodes = new Set(products.map(product => normalizeProductCode(product.code)));
+  const claims = new Map<string, number>();
+  for (const product of products) {
+    for (const variant of product.variants) {
+      const key = normalizeProductCode(variant);
+      claims.set(key, (claims.get(key) ?? 0) + 1);
+    }
+  }
+
+  const diff: ImportDiff = { added: [], changed: [], unchanged: [], discontinued: [], locked: [], errors };
+  const matched = new Set<string>();
+
+  for (const product of products) {
+    const existing = byCode.get(normalizeProductCode(product.code)) ?? null;
+    const aliases = product.variants.filter(variant => {
+      const key = normalizeProductCode(variant);
+      return claims.get(key) === 1 && !importedCodes.has(key) && !byCode.has(key);
+    });
+
+    if (!existing) {
+      diff.added.push({ product, aliases });
+      continue;
+    }
+    if (matched.has(existing.id)) {
+      diff.errors.push({ row: product.row, message: `${product.code} is the same catalogue product as an earlier row (${existing.canonical_code})` });
+      continue;
+    }
+    matched.add(existing.id);
+
+    if (existing.locked) {
+      diff.locked.push(existing);
+      continue;
+    }
+
+    const changes: FieldChange[] = [];
+    for (const [field, value] of Object.entries(product.values) as Array<[keyof CatalogueValues, string | number]>) {
+      if (field === 'manufacturer' && existing.manufacturer) continue;
+      if (!sameValue(existing[field], value)) changes.push({ field, from: existing[field], to: value });
+    }
+    if (existing.discontinued_at) changes.push({ field: 'discontinued_at', from: existing.discontinued_at, to: null });
+
+    if (changes.length > 0) {
+      diff.changed.push({ product, existing, changes, aliases });
+    } else {
+      diff.unchanged.push({ product, existing, aliases });
+    }
+  }
+
+  if (options.discontinueMissing) {
+    const maker = manufacturer.trim().toLowerCase();
+    diff.discontinued = catalogue.filter(existing =>
+      !matched.has(existing.id) &&
+      !existing.locked &&
+      !existing.discontinued_at &&
+      existing.manufacturer?.trim().toLowerCase() === maker
+    );
+  }
+
+  return diff;
+}
+
+export function summarizeDiff(diff: ImportDiff): ImportSummary {
+  const entries = [...diff.added, ...diff.changed, ...diff.unchanged];
+  return {
+    added: diff.added.length,
+    changed: diff.changed.length,
+    unchanged: diff.unchanged.length,
+    discontinued: diff.discontinued.length,
+    locked: diff.locked.length,
+    aliases: entries.reduce((sum, entry) => sum + entry.aliases.length, 0),
+    errors: diff.errors.length,
+  };
+}
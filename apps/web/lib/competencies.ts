@@ -0,0 +1,261 @@
+// Operative tickets - which cards a job needs and whether the people booked on
+// it hold them, for the shift and allocation checks, the competency register
+// and the expiry reminders. Tables and seed rules are in migration 056.
+//
+// A ticket counts on a day if it has no expiry or expires on or after that day.
+
+import {
+  dailyDemand,
+  resourceCapacityRole,
+  type AllocationRow,
+  type AvailabilityRow,
+  type LabourConflict,
+  type LabourResourceRow,
+  type ShiftSlot,
+} from './labourConflicts';
+
+export const TICKET_TYPES = [
+  'CSCS', 'IPAF', 'PASMA', 'SMSTS', 'SSSTS', 'FIRST_AID', 'ASBESTOS_AWARENESS', 'ECS', 'MANUAL_HANDLING',
+] as const;
+export type TicketType = typeof TICKET_TYPES[number];
+
+export const TICKET_LABELS: Record<TicketType, string> = {
+  CSCS: 'CSCS',
+  IPAF: 'IPAF',
+  PASMA: 'PASMA',
+  SMSTS: 'SMSTS',
+  SSSTS: 'SSSTS',
+  FIRST_AID: 'First Aid at Work',
+  ASBESTOS_AWARENESS: 'Asbestos Awareness',
+  ECS: 'ECS (electrical)',
+  MANUAL_HANDLING: 'Manual Handling',
+};
+
+export type TicketEnforcement = 'block' | 'warn';
+
+// Reminders go up this many days before a card runs out
+export const EXPIRY_WARNING_DAYS = 30;
+
+export const COMPETENCY_SCAN_BUCKET = 'competency-scans';
+
+export type Competency = {
+  id: string;
+  resource_id: string;
+  ticket_type: TicketType;
+  card_number: string | null;
+  issued_on: string | null;
+  expires_on: string | null;
+  scan_path: string | null;
+  notes: string | null;
+};
+
+export type CompetencyStatus = 'valid' | 'expiring' | 'expired';
+
+export type TicketRule = {
+  risk_code: string | null;
+  product_category: string | null;
+  accepted_tickets: TicketType[];
+  enforcement: TicketEnforcement;
+};
+
+export type JobTicketRow = {
+  id: string;
+  accepted_tickets: TicketType[];
+  enforcement: TicketEnforcement;
+  note: string | null;
+};
+
+export type TicketRequirement = {
+  accepted: TicketType[];
+  enforcement: TicketEnforcement;
+  reasons: string[];
+};
+
+const GENERAL_RISK_CODE = 'GENERAL';
+
+/** "IPAF or PASMA" */
+export function describeTickets(tickets: TicketType[]): string {
+  return tickets.map(ticket => TICKET_LABELS[ticket] ?? ticket).join(' or ');
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+export function isCompetencyValid(competency: Pick<Competency, 'expires_on'>, date: string): boolean {
+  return !competency.expires_on || competency.expires_on >= date;
+}
+
+export function competencyStatus(
+  competency: Pick<Competency, 'expires_on'>,
+  today: string,
+  warningDays = EXPIRY_WARNING_DAYS
+): CompetencyStatus {
+  if (!isCompetencyValid(competency, today)) return 'expired';
+  if (competency.expires_on && daysBetween(today, competency.expires_on) <= warningDays) return 'expiring';
+  return 'valid';
+}
+
+/**
+ * Tickets a job needs: rules for every job, for its risk flags and for its
+ * product categories, then anything declared on the job. Rules accepting the
+ * same tickets merge into one, blocking if any of them blocks.
+ */
+export function jobTicketRequirements(
+  rules: TicketRule[],
+  riskCodes: string[],
+  productCategories: string[],
+  jobTickets: JobTicketRow[] = []
+): TicketRequirement[] {
+  const codes = new Set([GENERAL_RISK_CODE, ...riskCodes]);
+  const categories = new Set(productCategories);
+  const merged = new Map<string, TicketRequirement>();
+
+  const add = (accepted: TicketType[], enforcement: TicketEnforcement, reason: string) => {
+    const key = [...accepted].sort().join('|');
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { accepted: [...accepted], enforcement, reasons: [reason] });
+      return;
+    }
+    if (enforcement === 'block') existing.enforcement = 'block';
+    if (!existing.reasons.includes(reason)) existing.reasons.push(reason);
+  };
+
+  for (const rule of rules) {
+    if (rule.risk_code && codes.has(rule.risk_code)) {
+      add(rule.accepted_tickets, rule.enforcement,
+        rule.risk_code === GENERAL_RISK_CODE ? 'All sites' : `${rule.risk_code} risk flag`);
+    } else if (rule.product_category && categories.has(rule.product_category)) {
+      add(rule.accepted_tickets, rule.enforcement, `${rule.product_category} products`);
+    }
+  }
+  for (const row of jobTickets) {
+    add(row.accepted_tickets, row.enforcement, row.note || 'Required for this job');
+  }
+
+  return Array.from(merged.values())
+    .sort((a, b) => (a.enforcement === b.enforcement ? 0 : a.enforcement === 'block' ? -1 : 1)
+      || describeTickets(a.accepted).localeCompare(describeTickets(b.accepted)));
+}
+
+/**
+ * Requirements one person's cards don't meet on a date, with the latest
+ * expiry of an accepted card that has lapsed (null if they never held one)
+ */
+export function missingTickets(
+  requirements: TicketRequirement[],
+  competencies: Competency[],
+  date: string
+): Array<{ requirement: TicketRequirement; expired_on: string | null }> {
+  return requirements.flatMap(requirement => {
+    const held = competencies.filter(competency => requirement.accepted.includes(competency.ticket_type));
+    if (held.some(competency => isCompetencyValid(competency, date))) return [];
+
+    const lapsed = held
+      .map(competency => competency.expires_on)
+      .filter((expiry): expiry is string => !!expiry)
+      .sort();
+    return [{ requirement, expired_on: lapsed[lapsed.length - 1] ?? null }];
+  });
+}
+
+/**
+ * A conflict for each ticket a booked worker lacks on the day of their shift.
+ * Teams and equipment carry no cards and are not checked.
+ */
+export function findTicketConflicts(
+  shifts: ShiftSlot[],
+  resources: LabourResourceRow[],
+  competencies: Record<string, Competency[]>,
+  requirementsByJob: Record<string, TicketRequirement[]>
+): LabourConflict[] {
+  const byId = new Map(resources.map(resource => [resource.id, resource]));
+
+  return shifts
+    .filter(shift => shift.job_id && shift.status !== 'cancelled' && shift.status !== 'no_show')
+    .flatMap(shift => {
+      const resource = byId.get(shift.resource_id);
+      if (!resource || resource.resource_type !== 'worker') return [];
+
+      const requirements = requirementsByJob[shift.job_id!] ?? [];
+      return missingTickets(requirements, competencies[resource.id] ?? [], shift.shift_date)
+        .map(({ requirement, expired_on }): LabourConflict => ({
+          kind: 'missing_ticket',
+          date: shift.shift_date,
+          resource_id: resource.id,
+          resource_name: resource.name,
+          tickets: describeTickets(requirement.accepted),
+          enforcement: requirement.enforcement,
+          expired_on,
+          shift_ids: shift.id ? [shift.id] : [],
+          job_ids: [shift.job_id!],
+        }));
+    });
+}
+
+/**
+ * Days a job's allocation needs more installers or supervisors holding a
+ * ticket than we have on the books (less anyone on leave). Allocations are
+ * headcounts, not named people, so these are always warnings.
+ */
+export function findTicketShortfalls(
+  jobId: string,
+  rows: AllocationRow[],
+  requirements: TicketRequirement[],
+  resources: LabourResourceRow[],
+  competencies: Record<string, Competency[]>,
+  availability: AvailabilityRow[]
+): LabourConflict[] {
+  if (requirements.length === 0) return [];
+
+  const demand = dailyDemand(rows.filter(row => row.job_id === jobId));
+  const conflicts: LabourConflict[] = [];
+
+  for (const date of Object.keys(demand).sort()) {
+    const away = new Set(availability
+      .filter(row => row.date === date && row.availability_type !== 'available')
+      .map(row => row.resource_id));
+
+    for (const role of ['installers', 'supervisors'] as const) {
+      const needed = demand[date][role];
+      const onBooks = resources.filter(resource => resourceCapacityRole(resource) === role);
+      // No one recorded in the role means we can't tell, as with capacity
+      if (needed === 0 || onBooks.length === 0) continue;
+
+      const inRole = onBooks.filter(worker => !away.has(worker.id));
+      for (const requirement of requirements) {
+        const qualified = inRole
+          .filter(worker => missingTickets([requirement], competencies[worker.id] ?? [], date).length === 0)
+          .length;
+        if (qualified < needed) {
+          conflicts.push({
+            kind: 'ticket_shortfall',
+            date,
+            resource: role,
+            tickets: describeTickets(requirement.accepted),
+            needed,
+            qualified,
+            job_ids: [jobId],
+          });
+        }
+      }
+    }
+  }
+  return conflicts;
+}
+
+/** Cards that have run out or will within the warning window, soonest first. */
+export function expiringCompetencies<T extends Pick<Competency, 'expires_on'>>(
+  competencies: T[],
+  today: string,
+  warningDays = EXPIRY_WARNING_DAYS
+): T[] {
+  return competencies
+    .filter(competency => competencyStatus(competency, today, warningDays) !== 'valid')
+    .sort((a, b) => a.expires_on!.localeCompare(b.expires_on!));
+}
+
+/** One reminder per card per expiry date, so a renewed card gets its own. */
+export const ticketExpiryTaskKey = (competency: Pick<Competency, 'id' | 'expires_on'>) =>
+  `ticket-expiry:${competency.id}:${competency.expires_on}`;
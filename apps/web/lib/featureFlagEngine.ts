@@ -0,0 +1,297 @@
+/**
+ * Feature Flag Evaluation Engine for BHIT Work OS
+ * Decides whether a flag is on (and which variant) for a user. Shared by the
+ * browser service in lib/featureFlags.ts and API routes via lib/server/featureFlags.ts,
+ * so a user sees the same answer on both sides.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../types/database';
+import type { UserRole } from './roles';
+
+export interface FeatureFlag {
+  id: string;
+  flag_key: string;
+  name: string;
+  description?: string;
+  is_enabled: boolean;
+  flag_type: 'boolean' | 'percentage' | 'user_list' | 'role_based' | 'variant';
+  conditions: Record<string, unknown>;
+  category: string;
+  environment: string;
+  rollout_percentage: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeatureFlagOverride {
+  user_id: string;
+  flag_key: string;
+  is_enabled: boolean;
+  variant?: string | null; // Forces a variant on 'variant' flags
+  reason?: string;
+  expires_at?: string | null;
+}
+
+export interface FlagUser {
+  id: string;
+  email?: string | null;
+  role?: UserRole | string | null;
+}
+
+export interface FlagEvaluation {
+  enabled: boolean;
+  variant: string | null;
+  reason: 'override' | 'disabled' | 'fallback' | FeatureFlag['flag_type'];
+}
+
+export interface FlagVariant {
+  key: string;
+  weight: number;
+}
+
+// Known feature flag keys for type safety
+export const FEATURE_FLAGS = {
+  PRODUCT_CROSS_CHECK: 'product_cross_check',
+  LABOUR_CALENDAR_VIEW: 'labour_calendar_view',
+  DATABASE_DRIVEN_PRODUCTS: 'database_driven_products',
+  DASHBOARD_ANALYTICS: 'dashboard_analytics',
+  AI_QUOTE_PARSING: 'ai_quote_parsing',
+  QUOTE_DATABASE_PERSISTENCE: 'quote_database_persistence',
+  EXPERIMENTAL_PLANNING_ENGINE: 'experimental_planning_engine',
+  BETA_FLOOR_PLANNER: 'beta_floor_planner',
+  ADVANCED_LABOUR_TRACKING: 'advanced_labour_tracking',
+  COST_OPTIMIZATION: 'cost_optimization'
+} as const;
+
+// Type for feature flag keys
+export type FeatureFlagKey = typeof FEATURE_FLAGS[keyof typeof FEATURE_FLAGS];
+
+/**
+ * Get fallback flag values when database is not available
+ */
+export function getFallbackFlagValue(flagKey: string): boolean {
+  const fallbackFlags: Record<string, boolean> = {
+    [FEATURE_FLAGS.PRODUCT_CROSS_CHECK]: true,
+    [FEATURE_FLAGS.LABOUR_CALENDAR_VIEW]: true,
+    [FEATURE_FLAGS.DATABASE_DRIVEN_PRODUCTS]: true,
+    [FEATURE_FLAGS.DASHBOARD_ANALYTICS]: true,
+    [FEATURE_FLAGS.AI_QUOTE_PARSING]: true,
+    [FEATURE_FLAGS.QUOTE_DATABASE_PERSISTENCE]: true,
+    [FEATURE_FLAGS.EXPERIMENTAL_PLANNING_ENGINE]: false,
+    [FEATURE_FLAGS.BETA_FLOOR_PLANNER]: false,
+    [FEATURE_FLAGS.ADVANCED_LABOUR_TRACKING]: false,
+    [FEATURE_FLAGS.COST_OPTIMIZATION]: false
+  };
+
+  return fallbackFlags[flagKey] || false;
+}
+
+export const BUCKET_COUNT = 10000; // Rollouts resolve to 0.01%
+
+/**
+ * 32-bit FNV-1a over the UTF-8 bytes, finished with the murmur3 mixer so
+ * similar ids still spread evenly. Synchronous and identical in Node and browsers.
+ */
+function hash32(text: string): number {
+  const bytes = new TextEncoder().encode(text);
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Stable bucket (0-9999) for a user on a flag. Salting with the flag key keeps
+ * rollouts independent: being in the first 10% of one flag says nothing about another.
+ */
+export function bucketUser(userId: string, salt: string): number {
+  return hash32(`${salt}:${userId}`) % BUCKET_COUNT;
+}
+
+/**
+ * Whether a user falls inside a percentage rollout. Raising the percentage only
+ * adds users; nobody already in drops out.
+ */
+export function isInRollout(userId: string, flagKey: string, percentage: number): boolean {
+  return bucketUser(userId, flagKey) < Math.round(percentage * (BUCKET_COUNT / 100));
+}
+
+/**
+ * Read variants from flag conditions: `variants` as [{ key, weight }] or a list
+ * of keys with equal weight.
+ */
+export function parseVariants(conditions: Record<string, unknown> | null | undefined): FlagVariant[] {
+  const raw = conditions?.variants;
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((entry): FlagVariant | null => {
+      if (typeof entry === 'string') return { key: entry, weight: 1 };
+      if (entry && typeof entry === 'object' && typeof (entry as FlagVariant).key === 'string') {
+        const weight = Number((entry as FlagVariant).weight ?? 1);
+        return { key: (entry as FlagVariant).key, weight: Number.isFinite(weight) && weight > 0 ? weight : 0 };
+      }
+      return null;
+    })
+    .filter((variant): variant is FlagVariant => variant !== null && variant.weight > 0);
+}
+
+/**
+ * Assign a user to a variant in proportion to the weights
+ */
+export function pickVariant(userId: string, flagKey: string, variants: FlagVariant[]): string | null {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (total <= 0) return null;
+
+  const point = (bucketUser(userId, `${flagKey}:variant`) / BUCKET_COUNT) * total;
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight;
+    if (point < cumulative) return variant.key;
+  }
+  return variants[variants.length - 1].key;
+}
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+export function isOverrideActive(override: FeatureFlagOverride | null | undefined, now: Date = new Date()): boolean {
+  if (!override) return false;
+  return !override.expires_at || new Date(override.expires_at).getTime() > now.getTime();
+}
+
+/**
+ * Evaluate one flag for a user. An unexpired override wins outright; otherwise the
+ * flag must be switched on and the user must pass its targeting rule.
+ */
+export function evaluateFlag(
+  flag: FeatureFlag | null,
+  user: FlagUser | null,
+  override?: FeatureFlagOverride | null,
+  now: Date = new Date()
+): FlagEvaluation {
+  if (override && isOverrideActive(override, now) && (!user || override.user_id === user.id)) {
+    const variants = flag ? parseVariants(flag.conditions) : [];
+    const forced = override.variant ?? null;
+    const variant = !override.is_enabled
+      ? null
+      : forced ?? (flag?.flag_type === 'variant' && user ? pickVariant(user.id, flag.flag_key, variants) : null);
+    return { enabled: override.is_enabled, variant, reason: 'override' };
+  }
+
+  if (!flag) return { enabled: false, variant: null, reason: 'fallback' };
+  if (!flag.is_enabled) return { enabled: false, variant: null, reason: 'disabled' };
+
+  const conditions = flag.conditions || {};
+  const off: FlagEvaluation = { enabled: false, variant: null, reason: flag.flag_type };
+  const on: FlagEvaluation = { enabled: true, variant: null, reason: flag.flag_type };
+
+  switch (flag.flag_type) {
+    case 'boolean':
+      return on;
+
+    case 'percentage':
+      // Anonymous users can't be bucketed consistently, so only a full rollout reaches them
+      if (!user) return Number(flag.rollout_percentage) >= 100 ? on : off;
+      return isInRollout(user.id, flag.flag_key, Number(flag.rollout_percentage)) ? on : off;
+
+    case 'user_list': {
+      if (!user) return off;
+      const emails = stringList(conditions.emails).map(email => email.toLowerCase());
+      const listed = stringList(conditions.user_ids).includes(user.id) ||
+        (!!user.email && emails.includes(user.email.toLowerCase()));
+      return listed ? on : off;
+    }
+
+    case 'role_based': {
+      const role = user?.role?.toLowerCase();
+      const allowed = stringList(conditions.allowed_roles).map(allowedRole => allowedRole.toLowerCase());
+      return role && allowed.includes(role) ? on : off;
+    }
+
+    case 'variant': {
+      if (!user) return off;
+      const variant = pickVariant(user.id, flag.flag_key, parseVariants(conditions));
+      return variant ? { enabled: true, variant, reason: 'variant' } : off;
+    }
+
+    default:
+      return off;
+  }
+}
+
+/**
+ * Load flags, the user's overrides and (when a role rule needs it) their role,
+ * then evaluate each requested key. Flags missing from the database, or a
+ * database that can't be reached, fall back to the hardcoded defaults.
+ */
+export async function evaluateFeatureFlags(
+  client: SupabaseClient<Database>,
+  flagKeys: string[],
+  user: FlagUser | null,
+  now: Date = new Date()
+): Promise<Record<string, FlagEvaluation>> {
+  const fallback = (key: string): FlagEvaluation => ({ enabled: getFallbackFlagValue(key), variant: null, reason: 'fallback' });
+  const results: Record<string, FlagEvaluation> = {};
+  if (flagKeys.length === 0) return results;
+
+  const { data: flagRows, error } = await client
+    .from('feature_flags')
+    .select('*')
+    .in('flag_key', flagKeys);
+
+  if (error) {
+    console.warn('Database feature flags not available, using fallback:', error);
+    flagKeys.forEach(key => { results[key] = fallback(key); });
+    return results;
+  }
+
+  const flags = (flagRows || []) as FeatureFlag[];
+  const overrides = new Map<string, FeatureFlagOverride>();
+  let flagUser = user;
+
+  if (user) {
+    const { data: overrideRows, error: overrideError } = await client
+      .from('user_flag_overrides')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('flag_key', flagKeys);
+
+    if (overrideError) {
+      console.warn('Failed to load feature flag overrides:', overrideError);
+    }
+    ((overrideRows || []) as FeatureFlagOverride[]).forEach(row => overrides.set(row.flag_key, row));
+
+    const needsRole = flags.some(flag => flag.flag_type === 'role_based');
+    if (needsRole && !user.role) {
+      const { data: profile } = await client
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .maybeSingle();
+      flagUser = { ...user, role: (profile as { role?: string } | null)?.role ?? null };
+    }
+  }
+
+  const flagsByKey = new Map(flags.map(flag => [flag.flag_key, flag]));
+
+  for (const key of flagKeys) {
+    const flag = flagsByKey.get(key) ?? null;
+    const override = overrides.get(key);
+    results[key] = !flag && !isOverrideActive(override, now)
+      ? fallback(key)
+      : evaluateFlag(flag, flagUser, override, now);
+  }
+
+  return results;
+}
@@ -5,37 +5,30 @@
 
 import { useState, useEffect } from 'react';
 
+import {
+  evaluateFeatureFlags,
+  getFallbackFlagValue,
+  type FeatureFlag,
+  type FlagEvaluation,
+  type FlagUser
+} from './featureFlagEngine';
 import { supabase } from './supabaseClient';
 
-export interface FeatureFlag {
-  id: string;
-  flag_key: string;
-  name: string;
-  description?: string;
-  is_enabled: boolean;
-  flag_type: 'boolean' | 'percentage' | 'user_list' | 'role_based' | 'variant';
-  conditions: Record<string, unknown>;
-  category: string;
-  environment: string;
-  rollout_percentage: number;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface FeatureFlagOverride {
-  user_id: string;
-  flag_key: string;
-  is_enabled: boolean;
-  reason?: string;
-  expires_at?: string;
-}
+export {
+  FEATURE_FLAGS,
+  type FeatureFlag,
+  type FeatureFlagKey,
+  type FeatureFlagOverride,
+  type FlagEvaluation
+} from './featureFlagEngine';
 
 // Cache for feature flags to avoid repeated database calls
+// Keyed by user and flag, so signing in as someone else never reuses an answer
 class FeatureFlagCache {
-  private cache = new Map<string, { value: boolean; timestamp: number }>();
+  private cache = new Map<string, { value: FlagEvaluation; timestamp: number }>();
   private cacheTimeout = 5 * 60 * 1000; // 5 minutes
 
-  get(key: string): boolean | null {
+  get(key: string): FlagEvaluation | null {
     const cached = this.cache.get(key);
     if (!cached) return null;
 
@@ -48,7 +41,7 @@ class FeatureFlagCache {
     return cached.value;
   }
 
-  set(key: string, value: boolean): void {
+  set(key: string, value: FlagEvaluation): void {
     this.cache.set(key, { value, timestamp: Date.now() });
   }
 
@@ -56,184 +49,87 @@ class FeatureFlagCache {
     this.cache.clear();
   }
 
-  clearFlag(key: string): void {
-    this.cache.delete(key);
+  clearFlag(flagKey: string): void {
+    for (const key of [...this.cache.keys()]) {
+      if (key.endsWith(`:${flagKey}`)) this.cache.delete(key);
+    }
   }
 }
 
 const flagCache = new FeatureFlagCache();
 
+const cacheKey = (userId: string | null, flagKey: string) => `${userId || 'anonymous'}:${flagKey}`;
+
 /**
- * Check if a feature flag is enabled for the current user
- * Falls back to hardcoded values if database is not available
+ * Evaluate flags for the signed-in user, reusing cached answers where possible
  */
-export async function isFeatureEnabled(flagKey: string): Promise<boolean> {
-  // Check cache first
-  const cached = flagCache.get(flagKey);
-  if (cached !== null) {
-    return cached;
-  }
+async function evaluateForCurrentUser(flagKeys: string[]): Promise<Record<string, FlagEvaluation>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const user: FlagUser | null = session?.user
+    ? { id: session.user.id, email: session.user.email }
+    : null;
 
-  try {
-    // Get current user
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      const fallbackValue = getFallbackFlagValue(flagKey);
-      flagCache.set(flagKey, fallbackValue);
-      return fallbackValue;
+  const results: Record<string, FlagEvaluation> = {};
+  const uncachedKeys: string[] = [];
+  for (const key of flagKeys) {
+    const cached = flagCache.get(cacheKey(user?.id ?? null, key));
+    if (cached) {
+      results[key] = cached;
+    } else {
+      uncachedKeys.push(key);
     }
+  }
 
-    // Try to check database first
-    try {
-      const { data: flags, error } = await supabase
-        .from('feature_flags')
-        .select('is_enabled')
-        .eq('flag_key', flagKey)
-        .maybeSingle();
-
-      if (!error && flags) {
-        const isEnabled = flags.is_enabled || false;
-        flagCache.set(flagKey, isEnabled);
-        return isEnabled;
-      }
-    } catch (dbError) {
-      console.warn('Database feature flags not available, using fallback:', dbError);
+  if (uncachedKeys.length > 0) {
+    const evaluated = await evaluateFeatureFlags(supabase, uncachedKeys, user);
+    for (const [key, evaluation] of Object.entries(evaluated)) {
+      results[key] = evaluation;
+      flagCache.set(cacheKey(user?.id ?? null, key), evaluation);
     }
+  }
 
-    // Fallback to hardcoded values
-    const fallbackValue = getFallbackFlagValue(flagKey);
-    flagCache.set(flagKey, fallbackValue);
-    return fallbackValue;
+  return results;
+}
 
+/**
+ * Check if a feature flag is enabled for the current user
+ * Falls back to hardcoded values if database is not available
+ */
+export async function isFeatureEnabled(flagKey: string): Promise<boolean> {
+  try {
+    const results = await evaluateForCurrentUser([flagKey]);
+    return results[flagKey].enabled;
   } catch (error: unknown) {
     console.error('Failed to check feature flag:', error);
-    const fallbackValue = getFallbackFlagValue(flagKey);
-    flagCache.set(flagKey, fallbackValue);
-    return fallbackValue;
+    return getFallbackFlagValue(flagKey);
   }
 }
 
 /**
- * Get fallback flag values when database is not available
+ * Get the variant the current user is assigned on a multivariant flag,
+ * or null when the flag is off for them
  */
-function getFallbackFlagValue(flagKey: string): boolean {
-  const fallbackFlags: Record<string, boolean> = {
-    [FEATURE_FLAGS.PRODUCT_CROSS_CHECK]: true,
-    [FEATURE_FLAGS.LABOUR_CALENDAR_VIEW]: true,
-    [FEATURE_FLAGS.DATABASE_DRIVEN_PRODUCTS]: true,
-    [FEATURE_FLAGS.DASHBOARD_ANALYTICS]: true,
-    [FEATURE_FLAGS.AI_QUOTE_PARSING]: true,
-    [FEATURE_FLAGS.QUOTE_DATABASE_PERSISTENCE]: true,
-    [FEATURE_FLAGS.EXPERIMENTAL_PLANNING_ENGINE]: false,
-    [FEATURE_FLAGS.BETA_FLOOR_PLANNER]: false,
-    [FEATURE_FLAGS.ADVANCED_LABOUR_TRACKING]: false,
-    [FEATURE_FLAGS.COST_OPTIMIZATION]: false
-  };
-
-  return fallbackFlags[flagKey] || false;
+export async function getFeatureVariant(flagKey: string): Promise<string | null> {
+  try {
+    const results = await evaluateForCurrentUser([flagKey]);
+    return results[flagKey].variant;
+  } catch (error: unknown) {
+    console.error('Failed to check feature variant:', error);
+    return null;
+  }
 }
 
 /**
  * Check multiple feature flags at once
  */
 export async function checkFeatureFlags(flagKeys: string[]): Promise<Record<string, boolean>> {
-  const results: Record<string, boolean> = {};
-
-  // Check cache first
-  const uncachedKeys: string[] = [];
-  for (const key of flagKeys) {
-    const cached = flagCache.get(key);
-    if (cached !== null) {
-      results[key] = cached;
-    } else {
-      uncachedKeys.push(key);
-    }
-  }
-
-  // Fetch uncached flags
-  if (uncachedKeys.length > 0) {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        uncachedKeys.forEach(key => {
-          results[key] = false;
-          flagCache.set(key, false);
-        });
-        return results;
-      }
-
-      // Fetch flags from database
-      const { data: flags, error } = await supabase
-        .from('feature_flags')
-        .select('flag_key, is_enabled, flag_type, rollout_percentage, conditions')
-        .in('flag_key', uncachedKeys);
-
-      if (error) {
-        console.error('Error fetching feature flags:', error);
-        uncachedKeys.forEach(key => {
-          results[key] = false;
-          flagCache.set(key, false);
-        });
-        return results;
-      }
-
-      // Process each flag
-      for (const flag of flags || []) {
-        let isEnabled = false;
-
-        if (flag.is_enabled) {
-          switch (flag.flag_type) {
-            case 'boolean':
-              isEnabled = true;
-              break;
-
-            case 'percentage':
-              // Generate consistent hash for user + flag
-              const hash = await generateUserFlagHash(user.id, flag.flag_key);
-              const percentage = (hash % 10000) / 100; // 0-99.99
-              isEnabled = percentage < flag.rollout_percentage;
-              break;
-
-            case 'role_based':
-              // Get user role and check conditions
-              const { data: userData } = await supabase
-                .from('users')
-                .select('role')
-                .eq('account_id', user.id)
-                .single();
-
-              if (userData && flag.conditions?.allowed_roles?.includes(userData.role)) {
-                isEnabled = true;
-              }
-              break;
-
-            default:
-              isEnabled = false;
-          }
-        }
-
-        results[flag.flag_key] = isEnabled;
-        flagCache.set(flag.flag_key, isEnabled);
-      }
-
-      // Set false for any flags not found in database
-      uncachedKeys.forEach(key => {
-        if (!(key in results)) {
-          results[key] = false;
-          flagCache.set(key, false);
-        }
-      });
-
-    } catch (error: unknown) {
-      console.error('Failed to fetch feature flags:', error);
-      uncachedKeys.forEach(key => {
-        results[key] = false;
-        flagCache.set(key, false);
-      });
-    }
+  try {
+    const results = await evaluateForCurrentUser(flagKeys);
+    return Object.fromEntries(flagKeys.map(key => [key, results[key].enabled]));
+  } catch (error: unknown) {
+    console.error('Failed to fetch feature flags:', error);
+    return Object.fromEntries(flagKeys.map(key => [key, getFallbackFlagValue(key)]));
   }
-
-  return results;
 }
 
 /**
@@ -319,7 +215,8 @@ export async function createUserOverride(
   flagKey: string,
   isEnabled: boolean,
   reason?: string,
-  expiresAt?: string
+  expiresAt?: string,
+  variant?: string
 ): Promise<boolean> {
   try {
     const { error } = await supabase
@@ -328,15 +225,17 @@ export async function createUserOverride(
         user_id: userId,
         flag_key: flagKey,
         is_enabled: isEnabled,
+        variant: variant ?? null,
         reason,
         expires_at: expiresAt
-      });
+      }, { onConflict: 'user_id,flag_key' });
 
     if (error) {
       console.error('Error creating user override:', error);
       return false;
     }
 
+    flagCache.clearFlag(flagKey);
     return true;
   } catch (error: unknown) {
     console.error('Failed to create user override:', error);
@@ -384,25 +283,6 @@ export async function getFeatureFlagAnalytics(
   }
 }
 
-/**
- * Generate consistent hash for user + flag combination
- */
-async function generateUserFlagHash(userId: string, flagKey: string): Promise<number> {
-  const text = `${userId}-${flagKey}`;
-  const encoder = new TextEncoder();
-  const data = encoder.encode(text);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = new Uint8Array(hashBuffer);
-
-  // Convert first 4 bytes to number
-  let hash = 0;
-  for (let i = 0; i < 4; i++) {
-    hash = (hash << 8) + hashArray[i];
-  }
-
-  return Math.abs(hash);
-}
-
 /**
  * React hook for feature flags
  */
@@ -439,26 +319,34 @@ export function useFeatureFlag(flagKey: string): [boolean, boolean] {
   return [isEnabled, isLoading];
 }
 
+/**
+ * React hook for multivariant flags
+ */
+export function useFeatureVariant(flagKey: string): [string | null, boolean] {
+  const [variant, setVariant] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getFeatureVariant(flagKey).then((assigned) => {
+      if (isMounted) {
+        setVariant(assigned);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [flagKey]);
+
+  return [variant, isLoading];
+}
+
 /**
  * Clear the feature flag cache
  */
 export function clearFeatureFlagCache(): void {
   flagCache.clear();
 }
-
-// Known feature flag keys for type safety
-export const FEATURE_FLAGS = {
-  PRODUCT_CROSS_CHECK: 'product_cross_check',
-  LABOUR_CALENDAR_VIEW: 'labour_calendar_view',
-  DATABASE_DRIVEN_PRODUCTS: 'database_driven_products',
-  DASHBOARD_ANALYTICS: 'dashboard_analytics',
-  AI_QUOTE_PARSING: 'ai_quote_parsing',
-  QUOTE_DATABASE_PERSISTENCE: 'quote_database_persistence',
-  EXPERIMENTAL_PLANNING_ENGINE: 'experimental_planning_engine',
-  BETA_FLOOR_PLANNER: 'beta_floor_planner',
-  ADVANCED_LABOUR_TRACKING: 'advanced_labour_tracking',
-  COST_OPTIMIZATION: 'cost_optimization'
-} as const;
-
-// Type for feature flag keys
-export type FeatureFlagKey = typeof FEATURE_FLAGS[keyof typeof FEATURE_FLAGS];
\ No newline at end of file
@@ -0,0 +1,119 @@
+/**
+ * Translation and locale formatting for BHIT Work OS
+ * Messages live in locales/<locale>.json, keyed by dotted path ("today.noJobs").
+ * Anything missing from a locale falls back to English, then to the key itself.
+ * React components use the useTranslation hook from lib/I18nProvider.tsx.
+ */
+
+import en from '../locales/en.json';
+import es from '../locales/es.json';
+import pt from '../locales/pt.json';
+import ro from '../locales/ro.json';
+
+export const SUPPORTED_LOCALES = ['en', 'es', 'pt', 'ro'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in the language picker, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+  ro: 'Română'
+};
+
+// Regional variants used for dates, numbers and plural rules
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-GB',
+  es: 'es-ES',
+  pt: 'pt-PT',
+  ro: 'ro-RO'
+};
+
+export interface Messages {
+  [key: string]: string | Messages;
+}
+
+export type TranslationParams = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Messages> = { en, es, pt, ro };
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a browser or profile language tag ("pt-BR", "ro_RO", "ES") to a supported locale
+ */
+export function normalizeLocale(value: string | null | undefined): Locale | null {
+  if (!value) return null;
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return isSupportedLocale(language) ? language : null;
+}
+
+export function getIntlLocale(locale: Locale): string {
+  return INTL_LOCALES[locale];
+}
+
+function lookup(messages: Messages, key: string): string | undefined {
+  let node: string | Messages | undefined = messages;
+  for (const part of key.split('.')) {
+    if (!node || typeof node === 'string') return undefined;
+    node = node[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Find a message in one locale. With a count, plural forms are tried first:
+ * "key_one", "key_few" etc. per the locale's plural rules, then "key_other".
+ */
+function findMessage(locale: Locale, key: string, count: number | undefined): string | undefined {
+  const messages = MESSAGES[locale];
+  if (count !== undefined) {
+    const category = new Intl.PluralRules(INTL_LOCALES[locale]).select(count);
+    const plural = lookup(messages, `${key}_${category}`) ?? lookup(messages, `${key}_other`);
+    if (plural !== undefined) return plural;
+  }
+  return lookup(messages, key);
+}
+
+/**
+ * Translate a key, filling {placeholders} from params. A numeric `count` param
+ * also selects the plural form.
+ */
+export function translate(locale: Locale, key: string, params?: TranslationParams): string {
+  const count = typeof params?.count === 'number' ? params.count : undefined;
+  const message = findMessage(locale, key, count) ??
+    (locale !== DEFAULT_LOCALE ? findMessage(DEFAULT_LOCALE, key, count) : undefined);
+
+  if (message === undefined) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn(`[i18n] Missing translation: ${key}`);
+    }
+    return key;
+  }
+
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+}
+
+export function formatDate(
+  locale: Locale,
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' }
+): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], options).format(date);
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+}
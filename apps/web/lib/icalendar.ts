@@ -0,0 +1,148 @@
+// apps/web/lib/icalendar.ts
+// Minimal RFC 5545 writer for the subscribable calendar feeds: text escaping,
+// 75-octet line folding, CRLF line endings and a VTIMEZONE for local times
+
+/** Times in the feeds are site-local; every site we work is in the UK. */
+export const CALENDAR_TIMEZONE = 'Europe/London';
+
+export type CalendarEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export type CalendarEvent = {
+  uid: string;
+  /** YYYY-MM-DD for an all-day event, or YYYY-MM-DDTHH:MM(:SS) local time */
+  start: string;
+  /** Exclusive end, in the same form as start */
+  end: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  status: CalendarEventStatus;
+  /** ISO timestamp of the last change, used for DTSTAMP, LAST-MODIFIED and SEQUENCE */
+  updatedAt: string;
+  url?: string | null;
+};
+
+export type CalendarOptions = {
+  name: string;
+  description?: string;
+};
+
+const LONDON_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${CALENDAR_TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0000',
+  'TZOFFSETTO:+0100',
+  'TZNAME:BST',
+  'DTSTART:19700329T010000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0000',
+  'TZNAME:GMT',
+  'DTSTART:19701025T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+/** Escape a TEXT value (RFC 5545 3.3.11). */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets (RFC 5545 3.1),
+ * never splitting a multi-byte character
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function compact(value: string): string {
+  return value.replace(/[-:]/g, '');
+}
+
+/** DTSTART/DTEND property for an all-day date or a local time. */
+function dateProperty(name: 'DTSTART' | 'DTEND', value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${name};VALUE=DATE:${compact(value)}`;
+  }
+  const [date, time] = value.split('T');
+  const [hours, minutes, seconds = '00'] = time.split(':');
+  return `${name};TZID=${CALENDAR_TIMEZONE}:${compact(date)}T${hours}${minutes}${seconds.slice(0, 2)}`;
+}
+
+/** UTC date-time in basic format, e.g. 20260302T081500Z. */
+export function utcStamp(iso: string): string {
+  return `${new Date(iso).toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+function eventLines(event: CalendarEvent): string[] {
+  const stamp = utcStamp(event.updatedAt);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    // Seconds since the epoch only ever grows, so clients treat each edit as newer
+    `SEQUENCE:${Math.floor(new Date(event.updatedAt).getTime() / 1000)}`,
+    dateProperty('DTSTART', event.start),
+    dateProperty('DTEND', event.end),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`STATUS:${event.status}`);
+  if (event.start.length === 10) lines.push('TRANSP:TRANSPARENT');
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/** A complete VCALENDAR document, CRLF terminated. */
+export function buildCalendar(options: CalendarOptions, events: CalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BHIT Work OS//Labour Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  if (events.some(event => event.start.length > 10)) lines.push(...LONDON_VTIMEZONE);
+  events.forEach(event => lines.push(...eventLines(event)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
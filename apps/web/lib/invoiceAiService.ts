@@ -1,7 +1,10 @@
 // Invoice AI Processing Service
-// Integrates with Gemini AI for intelligent invoice data extraction
+// Extracts invoice data through the AI provider layer (lib/ai); Gemini unless configured otherwise
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { extractJSON, Type } from './ai';
+import { supabase } from './supabaseClient';
+import { extractWithBestTemplate, recordTemplateUsage, type TemplateExtraction } from './templateService';
+import { matchedZoneValues, readPdfTextLayer, ZONE_CONFIDENCE, type PdfJsLike } from './templateZoneExtractor';
 
 // Types for invoice data structure
 export interface ExtractedInvoiceData {
@@ -39,22 +42,38 @@ export interface ProcessingResult {
   data?: ExtractedInvoiceData;
   error?: string;
   processingTime: number;
+  // Set when a document template supplied some of the fields
+  templateId?: string;
+  templateMatchRate?: number;
 }
 
-// Initialize Gemini AI client (same as SmartQuote)
-let ai: GoogleGenAI | null = null;
-
-function getAI(): GoogleGenAI {
-  if (!ai) {
-    if (!process.env.GEMINI_API_KEY && !process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY environment variable not set. Please add it to your .env.local file.");
-    }
-    const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
-    ai = new GoogleGenAI({ apiKey });
-  }
-  return ai;
+export interface InvoiceProcessingOptions {
+  supplierId?: string;
+  useTemplates?: boolean; // default true; false always sends the whole document to the AI
 }
 
+type InvoiceField = 'date' | 'invoiceNumber' | 'supplier' | 'description' | 'vehicleReg' | 'jobReference'
+  | 'netAmount' | 'vatAmount' | 'grossAmount' | 'paymentTerms' | 'dueDate';
+
+// Template field names (see pages/template-editor.tsx) to invoice fields
+const TEMPLATE_FIELD_MAP: Record<string, InvoiceField> = {
+  invoice_number: 'invoiceNumber',
+  invoice_date: 'date',
+  due_date: 'dueDate',
+  supplier_name: 'supplier',
+  net_amount: 'netAmount',
+  vat_amount: 'vatAmount',
+  gross_amount: 'grossAmount',
+  description: 'description',
+  payment_terms: 'paymentTerms',
+  job_reference: 'jobReference',
+  vehicle_reg: 'vehicleReg',
+};
+
+// The AI is only called when one of these is still missing after the template,
+// or when the template read a field whose text failed validation
+const REQUIRED_FIELDS: InvoiceField[] = ['date', 'invoiceNumber', 'supplier', 'netAmount', 'grossAmount'];
+
 // Response schema for structured extraction
 const responseSchema = {
   type: Type.OBJECT,
@@ -142,7 +161,7 @@ const responseSchema = {
   required: ["confidence"]
 };
 
-// System instruction for Gemini
+// System instruction for the model
 const systemInstruction = `You are an expert invoice data extraction system for a UK construction company.
 Extract invoice data from subcontractor invoices with high accuracy.
 
@@ -185,10 +204,12 @@ Extract invoice data from subcontractor invoices with high accuracy.
 **Return your overall confidence score AND individual field confidence scores.**`;
 
 /**
- * Process invoice file with AI using Gemini
+ * Process invoice file, reading templated fields from the PDF text layer first
+ * and asking the AI only for what the template couldn't supply
  */
 export async function processInvoiceWithAI(
-  file: File | Blob
+  file: File | Blob,
+  options: InvoiceProcessingOptions = {}
 ): Promise<ProcessingResult> {
   const startTime = Date.now();
 
@@ -197,13 +218,62 @@ export async function processInvoiceWithAI(
     const base64Data = await fileToBase64(file);
     const mimeType = file.type || 'application/pdf';
 
-    // Extract with Gemini with retry logic
-    const extractedData = await extractWithGemini(base64Data, mimeType);
+    const templated = options.useTemplates === false || mimeType !== 'application/pdf'
+      ? null
+      : await extractInvoiceTemplate(file, options.supplierId);
+
+    if (!templated) {
+      // Extract with AI with retry logic
+      const extractedData = await extractWithAI(base64Data, mimeType);
+
+      return {
+        success: true,
+        data: validateAndEnrichData(extractedData),
+        processingTime: Date.now() - startTime,
+      };
+    }
+
+    const missing = Array.from(new Set([
+      ...REQUIRED_FIELDS.filter(field => templated.data[field] === null),
+      ...templated.invalid,
+    ]));
+    let extractedData = templated.data;
+    let hadErrors = false;
+
+    if (missing.length > 0) {
+      try {
+        const aiData = await extractWithAI(base64Data, mimeType, missing);
+        extractedData = mergeAIFields(templated.data, aiData, missing);
+      } catch (error) {
+        // The template fields still stand; the user fills in the rest on review
+        console.error('AI extraction for missing template fields failed:', error);
+        hadErrors = true;
+      }
+    }
+
+    const processingTime = Date.now() - startTime;
+    try {
+      await recordTemplateUsage(supabase, {
+        template_id: templated.extraction.template.id,
+        document_type: 'invoice',
+        match_rate: templated.extraction.summary.match_rate,
+        fields_matched: templated.extraction.summary.fields_matched,
+        fields_total: templated.extraction.summary.fields_total,
+        avg_confidence: templated.extraction.summary.avg_confidence,
+        extraction_time_ms: processingTime,
+        had_errors: hadErrors,
+      });
+    } catch (error) {
+      // Non-critical: the extraction itself succeeded
+      console.warn('Failed to record template usage:', error);
+    }
 
     return {
       success: true,
       data: validateAndEnrichData(extractedData),
-      processingTime: Date.now() - startTime,
+      processingTime,
+      templateId: templated.extraction.template.id,
+      templateMatchRate: templated.extraction.summary.match_rate,
     };
   } catch (error: unknown) {
     console.error('Invoice processing error:', error);
@@ -216,18 +286,127 @@ export async function processInvoiceWithAI(
 }
 
 /**
- * Extract data using Gemini AI (with retry logic)
+ * Read invoice fields with the best matching template, listing the fields whose
+ * text it found but could not validate (e.g. a malformed date or amount). Null
+ * when pdf.js isn't loaded, the PDF has no text layer or no template fits.
  */
-async function extractWithGemini(
+async function extractInvoiceTemplate(
+  file: File | Blob,
+  supplierId?: string
+): Promise<{ data: ExtractedInvoiceData; extraction: TemplateExtraction; invalid: InvoiceField[] } | null> {
+  // pdf.js comes from the CDN script in _document.tsx, so this only runs in the browser
+  const pdfjs = typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as { pdfjsLib?: PdfJsLike }).pdfjsLib;
+  if (!pdfjs) return null;
+
+  try {
+    const pages = await readPdfTextLayer(pdfjs, new Uint8Array(await file.arrayBuffer()));
+    const extraction = await extractWithBestTemplate(supabase, 'invoice', pages, supplierId);
+    if (!extraction) return null;
+
+    const data: ExtractedInvoiceData = {
+      date: null,
+      invoiceNumber: null,
+      supplier: null,
+      description: null,
+      category: null,
+      vehicleReg: null,
+      jobReference: null,
+      netAmount: null,
+      vatAmount: null,
+      grossAmount: null,
+      paymentTerms: null,
+      dueDate: null,
+      confidence: extraction.summary.avg_confidence,
+      extractedText: '',
+      rawData: {},
+      fieldConfidence: {},
+    };
+
+    const values = matchedZoneValues(extraction.results);
+    for (const [fieldName, result] of values) {
+      const key = TEMPLATE_FIELD_MAP[fieldName];
+      if (!key) continue;
+      (data as unknown as Record<InvoiceField, string | number>)[key] = result.value!;
+      data.fieldConfidence![key] = ZONE_CONFIDENCE[result.field.confidence_level];
+    }
+    const invalid = Array.from(new Set(extraction.results
+      .filter(result => result.status === 'invalid' && !values.has(result.field.field_name))
+      .map(result => TEMPLATE_FIELD_MAP[result.field.field_name])
+      .filter(Boolean)));
+    data.rawData = Object.fromEntries([...values].map(([fieldName, result]) => [fieldName, result.text]));
+    data.extractedText = JSON.stringify(data.rawData);
+
+    // Supplier-specific templates already know who the supplier is
+    if (!data.supplier && extraction.template.supplier_id) {
+      const { data: supplier } = await supabase
+        .from('suppliers')
+        .select('name')
+        .eq('id', extraction.template.supplier_id)
+        .maybeSingle();
+      const name = (supplier as { name?: string } | null)?.name;
+      if (name) {
+        data.supplier = name;
+        data.fieldConfidence!.supplier = ZONE_CONFIDENCE.always;
+      }
+    }
+
+    return { data, extraction, invalid };
+  } catch (error) {
+    // Fall back to a full AI extraction
+    console.warn('Template extraction failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Fill the fields the template missed from the AI's answer
+ */
+function mergeAIFields(
+  templated: ExtractedInvoiceData,
+  aiData: ExtractedInvoiceData,
+  missing: InvoiceField[]
+): ExtractedInvoiceData {
+  const merged: ExtractedInvoiceData = {
+    ...templated,
+    category: aiData.category,
+    rawData: { template: templated.rawData, ai: aiData.rawData },
+    extractedText: aiData.extractedText,
+    fieldConfidence: { ...templated.fieldConfidence },
+  };
+
+  const fields = Object.values(TEMPLATE_FIELD_MAP);
+  for (const field of fields) {
+    if (merged[field] !== null || aiData[field] === null) continue;
+    (merged as unknown as Record<InvoiceField, string | number | null>)[field] = aiData[field];
+    const confidence = aiData.fieldConfidence?.[field];
+    if (confidence !== undefined) merged.fieldConfidence![field] = confidence;
+  }
+
+  // Weight overall confidence by how many required fields each source supplied
+  const fromAI = missing.filter(field => REQUIRED_FIELDS.includes(field)).length;
+  merged.confidence = Math.round(
+    (templated.confidence * (REQUIRED_FIELDS.length - fromAI) + aiData.confidence * fromAI) / REQUIRED_FIELDS.length
+  );
+
+  return merged;
+}
+
+/**
+ * Extract data using the AI provider (with retry logic)
+ */
+async function extractWithAI(
   base64Data: string,
-  mimeType: string
+  mimeType: string,
+  onlyFields?: InvoiceField[]
 ): Promise<ExtractedInvoiceData> {
   const MAX_RETRIES = 3;
   let lastError: Error | null = null;
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const result = await attemptExtraction(base64Data, mimeType, attempt);
+      const result = await attemptExtraction(base64Data, mimeType, attempt, onlyFields);
 
       // If we got a reasonable extraction, return it
       if (result.confidence && result.confidence > 0) {
@@ -257,44 +436,38 @@ async function extractWithGemini(
 }
 
 /**
- * Single extraction attempt using Gemini
+ * Single extraction attempt through the AI provider layer
  */
 async function attemptExtraction(
   base64Data: string,
   mimeType: string,
-  attempt: number
+  attempt: number,
+  onlyFields?: InvoiceField[]
 ): Promise<ExtractedInvoiceData> {
-  const enhancedPrompt = attempt > 1
+  let enhancedPrompt = attempt > 1
     ? "Extract invoice data from this document. Be flexible with formats and look for any invoice-like information."
     : "Extract invoice data from this document.";
 
-  const contents = {
-    parts: [
-      { text: enhancedPrompt },
-      {
-        inlineData: {
-          mimeType: mimeType,
-          data: base64Data
-        }
-      }
-    ]
-  };
+  // The rest were read from a template; leaving them out keeps the answer focused
+  if (onlyFields && onlyFields.length > 0) {
+    enhancedPrompt += ` Only these fields are needed: ${onlyFields.join(', ')}, plus category. Set every other field to null.`;
+  }
 
-  const response = await getAI().models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: contents,
-    config: {
-      systemInstruction,
-      responseMimeType: "application/json",
-      responseSchema: responseSchema,
-      temperature: 0.3,
-      topP: 0.9,
-      topK: 40,
-    },
+  const response = await extractJSON<Record<string, any>>({
+    task: 'invoice.extract',
+    systemInstruction,
+    inputs: [
+      { type: 'text', text: enhancedPrompt },
+      { type: 'file', mimeType, data: base64Data },
+    ],
+    schema: responseSchema,
+    temperature: 0.3,
+    topP: 0.9,
+    topK: 40,
   });
 
-  const jsonText = response.text?.trim() || '{}';
-  const parsedData = JSON.parse(jsonText);
+  const jsonText = response.text;
+  const parsedData = response.data;
 
   // Create ExtractedInvoiceData with defaults
   const extractedData: ExtractedInvoiceData = {
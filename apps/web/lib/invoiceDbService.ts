@@ -548,7 +548,7 @@ export async function getCorrectionsBySupplier(supplierId: string): Promise<Invo
     return [];
   }
 
-  return data || [];
+  return (data || []) as InvoiceCorrection[];
 }
 
 /**
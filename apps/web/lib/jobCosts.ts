@@ -0,0 +1,59 @@
+// Job cost sheet (job_costs) totals at the org day rates: the margin the costing
+// panel shows, and the actual side of the quote-vs-actual profitability report.
+import type { DayRates } from './types';
+
+/** The job_costs columns the cost sheet edits; numeric columns may arrive as strings */
+export type JobCostRow = {
+  job_id: string;
+  quoted_total: number | string;
+  installer_days: number | string;
+  supervisor_days: number | string;
+  vehicle_days: number | string;
+  waste_loads: number | string;
+  materials_cost: number | string;
+  misc_cost: number | string;
+  notes?: string | null;
+};
+
+export type JobCostTotals = {
+  price: number;
+  labour: number;
+  vehicles: number;
+  waste: number;
+  materials: number;
+  misc: number;
+  direct: number;
+  margin: number;
+  marginPct: number;
+};
+
+/** org_settings.day_rates with anything missing as zero. */
+export function dayRates(raw: Partial<DayRates> | null | undefined): DayRates {
+  return {
+    installer: Number(raw?.installer || 0),
+    supervisor: Number(raw?.supervisor || 0),
+    vehicle: Number(raw?.vehicle || 0),
+    waste_load: Number(raw?.waste_load || 0),
+  };
+}
+
+export function jobCostTotals(row: Partial<JobCostRow>, rates: DayRates): JobCostTotals {
+  const n = (v: number | string | undefined) => Number(v || 0);
+
+  const price = n(row.quoted_total);
+
+  const labour =
+    n(row.installer_days) * (rates.installer || 0) +
+    n(row.supervisor_days) * (rates.supervisor || 0);
+
+  const vehicles = n(row.vehicle_days) * (rates.vehicle || 0);
+  const waste = n(row.waste_loads) * (rates.waste_load || 0);
+  const materials = n(row.materials_cost);
+  const misc = n(row.misc_cost);
+
+  const direct = labour + vehicles + waste + materials + misc;
+  const margin = price - direct;
+  const marginPct = price > 0 ? (margin / price) * 100 : 0;
+
+  return { price, labour, vehicles, waste, materials, misc, direct, margin, marginPct };
+}
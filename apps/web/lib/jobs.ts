@@ -1,3 +1,4 @@
+import { canCompleteJob, type Snag } from "./snags";
 import { supabase, handleSupabaseError, handleSupabaseSuccess } from "./supabaseClient";
 import { Job, JobPayload } from "./types";
 
@@ -69,6 +70,19 @@ export async function updateJobStatus(jobId: string, status: JobStatus): Promise
       return { success: false, error: `Invalid status: ${status}` };
     }
 
+    // The database refuses this too (migration 054); checking first gives a clearer message
+    if (status === "completed") {
+      const { data: snags, error: snagError } = await supabase
+        .from("snags")
+        .select("status")
+        .eq("job_id", jobId)
+        .is("deleted_at", null);
+      const check = canCompleteJob((snags ?? []) as Array<Pick<Snag, "status">>);
+      if (!snagError && !check.ok) {
+        return { success: false, error: `${check.unresolved} snag(s) still unresolved; close or waive them before completing` };
+      }
+    }
+
     const { data, error } = await supabase
       .from("jobs")
       .update({ status, updated_at: new Date().toISOString() })
@@ -162,7 +162,8 @@ export class LabourCalculator {
   projectCompletionDate(
     remainingHours: number,
     burnRate: number,
-    workDaysPerWeek: number = 5
+    workDaysPerWeek: number = 5,
+    asOf: Date = new Date()
   ): Date {
     if (burnRate <= 0) {
       // If no progress, use standard estimation
@@ -173,7 +174,7 @@ export class LabourCalculator {
     const daysNeeded = Math.ceil(remainingHours / burnRate);
     const calendarDays = Math.ceil(daysNeeded * (7 / workDaysPerWeek));
 
-    const projectedDate = new Date();
+    const projectedDate = new Date(asOf);
     projectedDate.setDate(projectedDate.getDate() + calendarDays);
     
     return projectedDate;
@@ -185,17 +186,18 @@ export class LabourCalculator {
   calculateLabourMetrics(
     products: ProductProgress[],
     dailyProgress: DailyProgressSummary[],
-    targetCompletionDate: Date
+    targetCompletionDate: Date,
+    asOf: Date = new Date()
   ): LabourMetrics {
     const remainingHours = this.calculateRemainingHours(products);
     const efficiency = this.calculateEfficiency(products);
     const burnRate = this.calculateBurnRate(dailyProgress);
     
     const daysUntilDeadline = Math.ceil(
-      (targetCompletionDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
+      (targetCompletionDate.getTime() - asOf.getTime()) / (1000 * 60 * 60 * 24)
     );
 
-    const projectedCompletion = this.projectCompletionDate(remainingHours, burnRate);
+    const projectedCompletion = this.projectCompletionDate(remainingHours, burnRate, 5, asOf);
     const teamRecommendation = this.calculateRequiredTeamSize(remainingHours, daysUntilDeadline, efficiency);
     
     const daysAhead = Math.ceil(
@@ -0,0 +1,372 @@
+// Browser-side calls to the labour APIs that need the signed-in user's token:
+// saving a job's allocations through the capacity check, the capacity/conflict
+// summary for the calendars and the conflicts view, weekly timesheets, the
+// competency register and job tickets, calendar feed subscriptions, the job
+// programme, quote-vs-actual profitability with its install time suggestions,
+// and manufacturer price list imports into the product catalogue
+import type { CalendarFeed, CalendarFeedScope } from './calendarFeeds';
+import type { ColumnMap, ImportDiff, ImportOptions, ImportSummary, ImportTemplate } from './catalogueImport';
+import type { Competency, JobTicketRow, TicketEnforcement, TicketRequirement, TicketType } from './competencies';
+import {
+  describeConflict,
+  type AllocationRow,
+  type CapacityDay,
+  type ConflictSuggestions,
+  type LabourConflict,
+} from './labourConflicts';
+import type { InstallTimeSuggestionRow, PortfolioProfitability } from './profitability';
+import type { Programme } from './programme';
+import { supabase } from './supabaseClient';
+import type { TimesheetAction, TimesheetHoursRow, TimesheetSettings, TimesheetWeekRow } from './timesheets';
+
+export type DayAllocationCounts = { van: number; foot: number; supervisor: number };
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+  return { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` };
+}
+
+/** One row per non-zero van/foot/supervisor count, in labour_allocations' shape. */
+export function toAllocationRows(allocations: Record<string, DayAllocationCounts>): Omit<AllocationRow, 'job_id'>[] {
+  return Object.entries(allocations).flatMap(([date, day]) => [
+    { work_date: date, role: 'installer' as const, crew_mode: 'van' as const, headcount: day.van },
+    { work_date: date, role: 'installer' as const, crew_mode: 'foot' as const, headcount: day.foot },
+    { work_date: date, role: 'supervisor' as const, crew_mode: null, headcount: day.supervisor },
+  ]).filter(row => row.headcount > 0);
+}
+
+export function conflictSummary(conflicts: LabourConflict[], suggestions?: ConflictSuggestions): string {
+  const lines = conflicts.map(conflict => `• ${describeConflict(conflict)}`);
+  if (suggestions?.resources.length) {
+    lines.push('', `Free instead: ${suggestions.resources.map(resource => resource.name).join(', ')}`);
+  }
+  if (suggestions?.dates.length) {
+    lines.push('', `Days with room: ${suggestions.dates.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Replace a job's allocations. When the server reports capacity or ticket
+ * conflicts the user is shown them with suggested days and asked whether to
+ * save anyway. Resolves false if nothing was saved.
+ */
+export async function saveJobAllocations(
+  jobId: string,
+  allocations: Record<string, DayAllocationCounts>
+): Promise<boolean> {
+  const headers = await authHeaders();
+  const body = { jobId, allocations: toAllocationRows(allocations) };
+
+  let response = await fetch('/api/labour/allocations', { method: 'PUT', headers, body: JSON.stringify(body) });
+
+  if (response.status === 409) {
+    const { conflicts, suggestions } = await response.json();
+    const proceed = window.confirm(
+      `This schedule needs more people, vans or ticket holders than we have:\n\n${conflictSummary(conflicts, suggestions)}\n\nSave anyway?`
+    );
+    if (!proceed) return false;
+
+    response = await fetch('/api/labour/allocations', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ ...body, acceptConflicts: true }),
+    });
+  }
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to save schedule');
+  }
+  return true;
+}
+
+export async function fetchLabourConflicts(
+  startDate: string,
+  endDate: string
+): Promise<{ conflicts: LabourConflict[]; days: CapacityDay[] }> {
+  const response = await fetch(
+    `/api/labour/conflicts?startDate=${startDate}&endDate=${endDate}`,
+    { headers: await authHeaders() }
+  );
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load labour conflicts');
+  return json.data;
+}
+
+/** The week's timesheets; rows carry pay only for those who approve timesheets. */
+export async function fetchTimesheetWeek(weekStart: string): Promise<{
+  week_start: string;
+  settings: TimesheetSettings;
+  rows: Array<TimesheetWeekRow | TimesheetHoursRow>;
+}> {
+  const response = await fetch(`/api/labour/timesheets?weekStart=${weekStart}`, { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load timesheets');
+  return json.data;
+}
+
+/** Submit, approve, reject or reopen the week for the given workers; resolves to how many changed. */
+export async function applyTimesheetAction(
+  action: TimesheetAction,
+  weekStart: string,
+  resourceIds: string[],
+  reason?: string
+): Promise<number> {
+  const response = await fetch('/api/labour/timesheets', {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify({ action, weekStart, resourceIds, reason }),
+  });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || `Failed to ${action} timesheets`);
+  return json.data.updated;
+}
+
+/** Fetch an export and hand it to the browser as a download. */
+async function download(url: string, fallbackName: string, failure: string): Promise<void> {
+  const response = await fetch(url, { headers: await authHeaders() });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || failure);
+  }
+
+  const filename = /filename="([^"]+)"/.exec(response.headers.get('content-disposition') || '')?.[1] ?? fallbackName;
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
+/** Fetch an approved-week CSV and hand it to the browser as a download. */
+export async function downloadTimesheetExport(weekStart: string, format: 'timesheet' | 'sage' | 'xero'): Promise<void> {
+  await download(
+    `/api/labour/timesheet-export?weekStart=${weekStart}&format=${format}`,
+    `timesheets-${weekStart}.csv`,
+    'Failed to export timesheets'
+  );
+}
+
+export type RegisterWorker = {
+  id: string;
+  name: string;
+  role: string | null;
+  competencies: Array<Competency & { scan_url: string | null }>;
+};
+
+export async function fetchCompetencyRegister(): Promise<RegisterWorker[]> {
+  const response = await fetch('/api/labour/competencies', { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load competencies');
+  return json.data;
+}
+
+/** Add a card, or update it when the form carries an `id`; the form may include a `scan` file. */
+export async function saveCompetency(form: FormData): Promise<void> {
+  // Let the browser set the multipart boundary
+  const { Authorization } = await authHeaders();
+  const response = await fetch('/api/labour/competencies', { method: 'POST', headers: { Authorization }, body: form });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to save competency');
+  }
+}
+
+export async function deleteCompetency(id: string): Promise<void> {
+  const response = await fetch(`/api/labour/competencies?id=${id}`, { method: 'DELETE', headers: await authHeaders() });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to delete competency');
+  }
+}
+
+export async function fetchJobTickets(jobId: string): Promise<{
+  requirements: TicketRequirement[];
+  declared: JobTicketRow[];
+}> {
+  const response = await fetch(`/api/jobs/${jobId}/required-tickets`, { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load required tickets');
+  return json.data;
+}
+
+export async function declareJobTicket(
+  jobId: string,
+  tickets: TicketType[],
+  enforcement: TicketEnforcement,
+  note?: string
+): Promise<void> {
+  const response = await fetch(`/api/jobs/${jobId}/required-tickets`, {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify({ tickets, enforcement, note }),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to add required ticket');
+  }
+}
+
+export async function removeJobTicket(jobId: string, ticketId: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${jobId}/required-tickets?ticketId=${ticketId}`, {
+    method: 'DELETE',
+    headers: await authHeaders(),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to remove required ticket');
+  }
+}
+
+export async function fetchCalendarFeeds(): Promise<CalendarFeed[]> {
+  const response = await fetch('/api/calendar/feeds', { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load calendar feeds');
+  return json.data;
+}
+
+export async function createCalendarFeed(
+  scope: CalendarFeedScope,
+  target: { resourceId?: string; jobId?: string } = {}
+): Promise<CalendarFeed> {
+  const response = await fetch('/api/calendar/feeds', {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify({ scope, ...target }),
+  });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to create calendar feed');
+  return json.data;
+}
+
+export async function revokeCalendarFeed(id: string): Promise<void> {
+  const response = await fetch(`/api/calendar/feeds?id=${id}`, {
+    method: 'DELETE',
+    headers: await authHeaders(),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to revoke calendar feed');
+  }
+}
+
+export async function fetchProgramme(jobId: string): Promise<Programme> {
+  const response = await fetch(`/api/jobs/${jobId}/programme`, { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load programme');
+  return json.data;
+}
+
+/** Hold a task back to a date, or release it with null; returns the programme as rescheduled. */
+export async function setTaskStartConstraint(jobId: string, taskId: string, startNoEarlierThan: string | null): Promise<Programme> {
+  const response = await fetch(`/api/jobs/${jobId}/programme`, {
+    method: 'PATCH',
+    headers: await authHeaders(),
+    body: JSON.stringify({ taskId, startNoEarlierThan }),
+  });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to reschedule task');
+  return json.data;
+}
+
+export async function downloadProgramme(jobId: string, format: 'csv' | 'xml'): Promise<void> {
+  await download(`/api/jobs/${jobId}/programme?format=${format}`, `programme.${format}`, 'Failed to export programme');
+}
+
+/** Every job with work on site, or just the one job when given. */
+export async function fetchProfitability(jobId?: string): Promise<PortfolioProfitability> {
+  const query = jobId ? `?jobId=${jobId}` : '';
+  const response = await fetch(`/api/profitability${query}`, { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load job profitability');
+  return json.data;
+}
+
+export async function fetchInstallTimeSuggestions(): Promise<InstallTimeSuggestionRow[]> {
+  const response = await fetch('/api/profitability/suggestions', { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load install time suggestions');
+  return json.data;
+}
+
+export async function refreshInstallTimeSuggestions(): Promise<void> {
+  const response = await fetch('/api/profitability/suggestions', { method: 'POST', headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to refresh install time suggestions');
+}
+
+export async function reviewInstallTimeSuggestion(id: string, action: 'accept' | 'reject'): Promise<InstallTimeSuggestionRow> {
+  const response = await fetch('/api/profitability/suggestions', {
+    method: 'PATCH',
+    headers: await authHeaders(),
+    body: JSON.stringify({ id, action }),
+  });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || `Failed to ${action} suggestion`);
+  return json.data;
+}
+
+export type CatalogueImportInput = {
+  manufacturer: string;
+  rows: unknown[][];
+  columnMap: ColumnMap;
+  options: ImportOptions;
+  templateId: string | null;
+  fileName: string | null;
+};
+
+export async function fetchImportTemplates(): Promise<ImportTemplate[]> {
+  const response = await fetch('/api/catalogue/import-templates', { headers: await authHeaders() });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to load import templates');
+  return json.data;
+}
+
+/** Saves over an existing template with the same manufacturer and name. */
+export async function saveImportTemplate(template: Omit<ImportTemplate, 'id'>): Promise<ImportTemplate> {
+  const response = await fetch('/api/catalogue/import-templates', {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify(template),
+  });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to save import template');
+  return json.data;
+}
+
+export async function deleteImportTemplate(id: string): Promise<void> {
+  const response = await fetch(`/api/catalogue/import-templates?id=${id}`, {
+    method: 'DELETE',
+    headers: await authHeaders(),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to delete import template');
+  }
+}
+
+/** Dry run: what the import would add, change and discontinue. */
+export async function previewCatalogueImport(input: CatalogueImportInput): Promise<{ summary: ImportSummary; diff: ImportDiff }> {
+  const response = await fetch('/api/catalogue/import', {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify(input),
+  });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to compare the list with the catalogue');
+  return json.data;
+}
+
+export async function applyCatalogueImport(input: CatalogueImportInput): Promise<{ importId: string; summary: ImportSummary }> {
+  const response = await fetch('/api/catalogue/import', {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify({ ...input, apply: true }),
+  });
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || 'Failed to import catalogue');
+  return json.data;
+}
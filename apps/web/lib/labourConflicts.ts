@@ -0,0 +1,427 @@
+// Labour conflicts - the double-booking and capacity rules shared by the shift
+// and allocation APIs, the conflicts view and the capacity lines on the calendars.
+// Capacity comes from what we actually have: active labour_resources (less any
+// labour_availability leave for the day) and the van fleet. A count we have no
+// records for is null and never raises a conflict. Ticket conflicts are raised
+// by lib/competencies.
+
+import type { TicketEnforcement } from './competencies';
+
+export type ShiftSlot = {
+  id?: string;
+  resource_id: string;
+  job_id: string | null;
+  shift_date: string;
+  start_time: string;
+  end_time: string;
+  status?: string | null;
+};
+
+export type LabourResourceRow = {
+  id: string;
+  name: string;
+  resource_type: 'worker' | 'team' | 'equipment';
+  role: string | null;
+  active: boolean | null;
+};
+
+export type AvailabilityRow = {
+  resource_id: string;
+  date: string;
+  availability_type: string;
+};
+
+export type AllocationRow = {
+  job_id: string;
+  work_date: string;
+  role: 'installer' | 'supervisor';
+  crew_mode: 'van' | 'foot' | null;
+  headcount: number;
+};
+
+export type CapacityResource = 'installers' | 'supervisors' | 'vans';
+
+export type DailyCounts = Record<CapacityResource, number>;
+export type DailyCapacity = Record<CapacityResource, number | null>;
+
+export type CapacityDay = { date: string; capacity: DailyCapacity; demand: DailyCounts };
+
+export type LabourConflict =
+  | {
+    kind: 'double_booking';
+    date: string;
+    resource_id: string;
+    resource_name: string;
+    shift_ids: string[];
+    job_ids: string[];
+    window: string;
+  }
+  | {
+    kind: 'unavailable';
+    date: string;
+    resource_id: string;
+    resource_name: string;
+    reason: string;
+    shift_ids: string[];
+    job_ids: string[];
+  }
+  | {
+    kind: 'over_capacity';
+    date: string;
+    resource: CapacityResource;
+    demand: number;
+    capacity: number;
+    job_ids: string[];
+  }
+  | {
+    kind: 'missing_ticket';
+    date: string;
+    resource_id: string;
+    resource_name: string;
+    tickets: string;
+    enforcement: TicketEnforcement;
+    expired_on: string | null;
+    shift_ids: string[];
+    job_ids: string[];
+  }
+  | {
+    kind: 'ticket_shortfall';
+    date: string;
+    resource: 'installers' | 'supervisors';
+    tickets: string;
+    needed: number;
+    qualified: number;
+    job_ids: string[];
+  };
+
+export type ConflictSuggestions = {
+  resources: Array<{ id: string; name: string }>;
+  dates: string[];
+};
+
+// Shifts in these states no longer hold the resource
+const INACTIVE_SHIFT_STATUSES = ['cancelled', 'no_show'];
+// A van crew is two installers and one van
+const VAN_CREW_SIZE = 2;
+const SUGGESTION_LIMIT = 3;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Double-booking, and booking someone without a ticket the job blocks on, are
+ * never allowed; leave, capacity and the other ticket shortfalls can be accepted.
+ */
+export function isBlockingConflict(conflict: LabourConflict): boolean {
+  return conflict.kind === 'double_booking'
+    || (conflict.kind === 'missing_ticket' && conflict.enforcement === 'block');
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+type ShiftTimes = Pick<ShiftSlot, 'start_time' | 'end_time'> & { shift_date?: string };
+
+/** Minutes since the epoch, so shifts on neighbouring days can be compared; no date means the same day. */
+function shiftWindow(shift: ShiftTimes): [number, number] {
+  const day = shift.shift_date ? Date.parse(`${shift.shift_date}T00:00:00Z`) / 60_000 : 0;
+  const start = day + toMinutes(shift.start_time);
+  let end = day + toMinutes(shift.end_time);
+  // Night shifts run past midnight
+  if (end <= start) end += MINUTES_PER_DAY;
+  return [start, end];
+}
+
+export function shiftsOverlap(a: ShiftTimes, b: ShiftTimes): boolean {
+  const [aStart, aEnd] = shiftWindow(a);
+  const [bStart, bEnd] = shiftWindow(b);
+  return aStart < bEnd && bStart < aEnd;
+}
+
+function isActiveShift(shift: ShiftSlot): boolean {
+  return !INACTIVE_SHIFT_STATUSES.includes(shift.status ?? 'scheduled');
+}
+
+function hhmm(time: string): string {
+  return time.slice(0, 5);
+}
+
+/** Installer or supervisor for capacity purposes; teams and equipment count as neither. */
+export function resourceCapacityRole(resource: LabourResourceRow): 'installers' | 'supervisors' | null {
+  if (resource.resource_type !== 'worker' || resource.active === false) return null;
+  return /supervis/i.test(resource.role ?? '') ? 'supervisors' : 'installers';
+}
+
+function leaveOn(availability: AvailabilityRow[], resourceId: string, date: string): AvailabilityRow | undefined {
+  return availability.find(row =>
+    row.resource_id === resourceId && row.date === date && row.availability_type !== 'available');
+}
+
+export function isWorkingDay(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export function dateRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Conflicts a proposed shift would cause. `shifts` are the other shifts around
+ * the date, including the days either side for night shifts; the candidate
+ * itself is skipped by id when it is being edited.
+ */
+export function findShiftConflicts(
+  candidate: ShiftSlot,
+  shifts: ShiftSlot[],
+  resources: LabourResourceRow[],
+  availability: AvailabilityRow[]
+): LabourConflict[] {
+  if (!isActiveShift(candidate)) return [];
+
+  const resourceName = resources.find(r => r.id === candidate.resource_id)?.name ?? 'Resource';
+  const conflicts: LabourConflict[] = [];
+
+  for (const other of shifts) {
+    if (other.id && other.id === candidate.id) continue;
+    // Compared by date and time, so last night's shift can clash with this morning's
+    if (other.resource_id !== candidate.resource_id) continue;
+    if (!isActiveShift(other) || !shiftsOverlap(candidate, other)) continue;
+
+    conflicts.push({
+      kind: 'double_booking',
+      // The day the clash begins: whichever shift starts later
+      date: shiftWindow(other)[0] > shiftWindow(candidate)[0] ? other.shift_date : candidate.shift_date,
+      resource_id: candidate.resource_id,
+      resource_name: resourceName,
+      shift_ids: [other.id, candidate.id].filter((id): id is string => Boolean(id)),
+      job_ids: [other.job_id, candidate.job_id].filter((id): id is string => Boolean(id)),
+      window: other.shift_date === candidate.shift_date
+        ? `${hhmm(other.start_time)}-${hhmm(other.end_time)}`
+        : `${other.shift_date} ${hhmm(other.start_time)}-${hhmm(other.end_time)}`,
+    });
+  }
+
+  const leave = leaveOn(availability, candidate.resource_id, candidate.shift_date);
+  if (leave) {
+    conflicts.push({
+      kind: 'unavailable',
+      date: candidate.shift_date,
+      resource_id: candidate.resource_id,
+      resource_name: resourceName,
+      reason: leave.availability_type.replace(/_/g, ' '),
+      shift_ids: candidate.id ? [candidate.id] : [],
+      job_ids: candidate.job_id ? [candidate.job_id] : [],
+    });
+  }
+
+  return conflicts;
+}
+
+/** Every double-booking and leave clash among a set of shifts, for the conflicts view. */
+export function findAllShiftConflicts(
+  shifts: ShiftSlot[],
+  resources: LabourResourceRow[],
+  availability: AvailabilityRow[]
+): LabourConflict[] {
+  const conflicts: LabourConflict[] = [];
+  const active = shifts.filter(isActiveShift);
+
+  active.forEach((shift, index) => {
+    // Compare each pair once
+    const later = active.slice(index + 1);
+    conflicts.push(...findShiftConflicts(shift, later, resources, [])
+      .filter(conflict => conflict.kind === 'double_booking'));
+  });
+
+  active.forEach(shift => {
+    conflicts.push(...findShiftConflicts(shift, [], resources, availability));
+  });
+
+  return conflicts.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** People and vans used per day across all jobs' allocations. */
+export function dailyDemand(allocations: AllocationRow[]): Record<string, DailyCounts> {
+  const demand: Record<string, DailyCounts> = {};
+
+  for (const row of allocations) {
+    const day = demand[row.work_date] ??= { installers: 0, supervisors: 0, vans: 0 };
+    if (row.role === 'supervisor') {
+      day.supervisors += row.headcount;
+    } else if (row.crew_mode === 'van') {
+      day.installers += row.headcount * VAN_CREW_SIZE;
+      day.vans += row.headcount;
+    } else {
+      day.installers += row.headcount;
+    }
+  }
+
+  return demand;
+}
+
+/** People available per day after leave, and the van fleet. */
+export function dailyCapacity(
+  dates: string[],
+  resources: LabourResourceRow[],
+  availability: AvailabilityRow[],
+  vanCount: number
+): Record<string, DailyCapacity> {
+  const people = resources
+    .map(resource => ({ resource, role: resourceCapacityRole(resource) }))
+    .filter((entry): entry is { resource: LabourResourceRow; role: 'installers' | 'supervisors' } => entry.role !== null);
+  const hasInstallers = people.some(entry => entry.role === 'installers');
+  const hasSupervisors = people.some(entry => entry.role === 'supervisors');
+
+  const capacity: Record<string, DailyCapacity> = {};
+  for (const date of dates) {
+    const present = people.filter(({ resource }) => !leaveOn(availability, resource.id, date));
+    capacity[date] = {
+      installers: hasInstallers ? present.filter(entry => entry.role === 'installers').length : null,
+      supervisors: hasSupervisors ? present.filter(entry => entry.role === 'supervisors').length : null,
+      vans: vanCount > 0 ? vanCount : null,
+    };
+  }
+  return capacity;
+}
+
+const CAPACITY_RESOURCES: CapacityResource[] = ['installers', 'supervisors', 'vans'];
+
+/** Days where allocations need more people or vans than we have. */
+export function findCapacityConflicts(
+  allocations: AllocationRow[],
+  capacity: Record<string, DailyCapacity>
+): LabourConflict[] {
+  const demand = dailyDemand(allocations);
+  const conflicts: LabourConflict[] = [];
+
+  for (const date of Object.keys(demand).sort()) {
+    const available = capacity[date];
+    if (!available) continue;
+
+    for (const resource of CAPACITY_RESOURCES) {
+      const limit = available[resource];
+      if (limit === null || demand[date][resource] <= limit) continue;
+
+      const jobIds = allocations
+        .filter(row => row.work_date === date && row.headcount > 0 && usesResource(row, resource))
+        .map(row => row.job_id);
+
+      conflicts.push({
+        kind: 'over_capacity',
+        date,
+        resource,
+        demand: demand[date][resource],
+        capacity: limit,
+        job_ids: Array.from(new Set(jobIds)),
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+function usesResource(row: AllocationRow, resource: CapacityResource): boolean {
+  if (resource === 'supervisors') return row.role === 'supervisor';
+  if (resource === 'vans') return row.role === 'installer' && row.crew_mode === 'van';
+  return row.role === 'installer';
+}
+
+/**
+ * Other workers in the same role who are free for the whole of the shift and
+ * not on leave that day.
+ */
+export function suggestResources(
+  candidate: ShiftSlot,
+  shifts: ShiftSlot[],
+  resources: LabourResourceRow[],
+  availability: AvailabilityRow[]
+): Array<{ id: string; name: string }> {
+  const booked = resources.find(r => r.id === candidate.resource_id);
+  if (!booked) return [];
+
+  return resources
+    .filter(resource => resource.id !== booked.id && resource.active !== false)
+    .filter(resource => resource.resource_type === booked.resource_type
+      && resourceCapacityRole(resource) === resourceCapacityRole(booked))
+    .filter(resource => findShiftConflicts({ ...candidate, id: undefined, resource_id: resource.id },
+      shifts, resources, availability).length === 0)
+    .slice(0, SUGGESTION_LIMIT)
+    .map(resource => ({ id: resource.id, name: resource.name }));
+}
+
+/** The next working days after `date` on which the same shift would not clash. */
+export function suggestShiftDates(
+  candidate: ShiftSlot,
+  shifts: ShiftSlot[],
+  resources: LabourResourceRow[],
+  availability: AvailabilityRow[],
+  searchDays = 14
+): string[] {
+  const dates: string[] = [];
+  for (let offset = 1; offset <= searchDays && dates.length < SUGGESTION_LIMIT; offset++) {
+    const date = addDays(candidate.shift_date, offset);
+    if (!isWorkingDay(date)) continue;
+    if (findShiftConflicts({ ...candidate, shift_date: date }, shifts, resources, availability).length === 0) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * The working days nearest to an over-capacity day that have room for one
+ * job's allocation for that day, given everything else already booked.
+ */
+export function suggestAllocationDates(
+  jobDay: AllocationRow[],
+  otherAllocations: AllocationRow[],
+  capacity: Record<string, DailyCapacity>
+): string[] {
+  if (jobDay.length === 0) return [];
+  const need = dailyDemand(jobDay.map(row => ({ ...row, work_date: 'need' }))).need;
+  const booked = dailyDemand(otherAllocations);
+  const date = jobDay[0].work_date;
+
+  const candidates = Object.keys(capacity)
+    .filter(day => day !== date && isWorkingDay(day))
+    .sort((a, b) => distance(a, date) - distance(b, date) || a.localeCompare(b));
+
+  return candidates
+    .filter(day => CAPACITY_RESOURCES.every(resource => {
+      const limit = capacity[day][resource];
+      const used = booked[day]?.[resource] ?? 0;
+      return limit === null || used + need[resource] <= limit;
+    }))
+    .slice(0, SUGGESTION_LIMIT);
+}
+
+function distance(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`));
+}
+
+export function describeConflict(conflict: LabourConflict): string {
+  switch (conflict.kind) {
+    case 'double_booking':
+      return `${conflict.resource_name} is already booked ${conflict.window} on ${conflict.date}`;
+    case 'unavailable':
+      return `${conflict.resource_name} is on ${conflict.reason} on ${conflict.date}`;
+    case 'over_capacity':
+      return `${conflict.date}: ${conflict.demand} ${conflict.resource} needed, ${conflict.capacity} available`;
+    case 'missing_ticket':
+      return `${conflict.resource_name} has no valid ${conflict.tickets} on ${conflict.date}`
+        + (conflict.expired_on ? ` (expired ${conflict.expired_on})` : '');
+    case 'ticket_shortfall':
+      return `${conflict.date}: ${conflict.needed} ${conflict.resource} with ${conflict.tickets} needed, ${conflict.qualified} hold one`;
+  }
+}
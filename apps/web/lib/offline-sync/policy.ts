@@ -0,0 +1,137 @@
+// Offline Sync - retry schedule and conflict helpers
+// Pure functions so the device queue, the batch endpoint and tests agree.
+import type { ConflictResolution, SyncConflict, SyncOperationInput, SyncUpdate } from './types';
+
+export const SYNC_RETRY_BASE_MS = 5_000;
+export const SYNC_RETRY_MAX_MS = 15 * 60_000;
+
+// Bookkeeping columns the server owns; a difference here is not a conflict
+const SERVER_MANAGED_FIELDS = new Set([
+  'id', 'row_version', 'last_updated', 'updated_by', 'created_at', 'created_by',
+]);
+
+// Daily logs and closeouts are one row per job per day
+const DAILY_DATE_COLUMNS: Record<string, string> = {
+  daily_progress_log: 'log_date',
+  daily_closeout_forms: 'closeout_date',
+};
+
+// Where each table's rows sit in the job state the batch endpoint returns
+const STATE_TABLES = {
+  products: 'product_progress',
+  dailyLogs: 'daily_progress_log',
+  closeouts: 'daily_closeout_forms',
+} as const;
+
+/**
+ * Delay before the next attempt after `attempts` failures: doubling from 5s up to
+ * 15 minutes, with ±20% jitter so devices that reconnect together spread out.
+ */
+export const retryDelay = (attempts: number, random: () => number = Math.random): number => {
+  const exponential = SYNC_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1);
+  const jittered = Math.min(exponential, SYNC_RETRY_MAX_MS) * (0.8 + random() * 0.4);
+  return Math.round(Math.min(jittered, SYNC_RETRY_MAX_MS));
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) return a == b;
+  // Postgres numerics can come back as strings
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Fields the device wrote whose server value is now different
+ */
+export const conflictingFields = (
+  clientData: Record<string, unknown>,
+  serverData: Record<string, unknown>
+): string[] =>
+  Object.keys(clientData).filter(field =>
+    !SERVER_MANAGED_FIELDS.has(field) && !sameValue(clientData[field], serverData[field])
+  );
+
+export const buildConflict = (
+  update: SyncUpdate,
+  serverRow: Record<string, unknown>,
+  reason: string
+): SyncConflict => ({
+  id: update.id,
+  idempotency_key: update.idempotency_key ?? null,
+  operation: update.operation,
+  table: update.table,
+  job_id: update.job_id,
+  record_id: (serverRow.id as string | undefined) ?? update.record_id ?? null,
+  reason,
+  base_version: update.base_version ?? null,
+  server_version: typeof serverRow.row_version === 'number' ? serverRow.row_version : null,
+  client_data: update.data,
+  server_data: serverRow,
+  fields: conflictingFields(update.data, serverRow),
+});
+
+/**
+ * The data to resend for a resolved conflict, or null when the server copy is kept.
+ * For 'merge', `choices` picks a side per conflicting field; unpicked fields keep
+ * the device's value.
+ */
+export const resolveConflictData = (
+  conflict: SyncConflict,
+  resolution: ConflictResolution,
+  choices: Record<string, 'mine' | 'server'> = {}
+): Record<string, unknown> | null => {
+  if (resolution === 'keep_server') return null;
+  if (resolution === 'keep_mine') return { ...conflict.client_data };
+
+  const data = { ...conflict.client_data };
+  for (const field of conflict.fields) {
+    if (choices[field] === 'server') data[field] = conflict.server_data[field];
+  }
+  return data;
+};
+
+/**
+ * The row a server row or queued write refers to: product rows by id, daily
+ * rows by job and date. Null when it can't be told, e.g. for bulk updates.
+ */
+export const syncRecordKey = (table: string, row: Record<string, unknown>): string | null => {
+  const dateColumn = DAILY_DATE_COLUMNS[table];
+  if (dateColumn) {
+    return row.job_id && row[dateColumn] ? `${table}:${row.job_id}:${row[dateColumn]}` : null;
+  }
+  return row.id ? `${table}:${row.id}` : null;
+};
+
+/**
+ * syncRecordKey for a queued write. A daily row without a date is written
+ * for the day it was queued, as the batch endpoint does.
+ */
+export const operationRecordKey = (operation: SyncOperationInput, timestamp: number): string | null => {
+  if (operation.operation === 'bulk_update') return null;
+  const dateColumn = DAILY_DATE_COLUMNS[operation.table];
+  return syncRecordKey(operation.table, {
+    ...operation.data,
+    id: operation.record_id,
+    job_id: operation.job_id,
+    ...(dateColumn && !operation.data[dateColumn]
+      ? { [dateColumn]: new Date(timestamp).toISOString().slice(0, 10) }
+      : {}),
+  });
+};
+
+/**
+ * The row_version of every row in the job state returned after a sync
+ */
+export const rowVersionsFromState = (newState: Record<string, unknown>): Array<[string, number]> =>
+  Object.values(newState).flatMap(state =>
+    (Object.keys(STATE_TABLES) as Array<keyof typeof STATE_TABLES>).flatMap(section => {
+      const rows = (state as Record<string, unknown> | null)?.[section];
+      return Array.isArray(rows)
+        ? rows.flatMap((row: Record<string, unknown>): Array<[string, number]> => {
+          const key = syncRecordKey(STATE_TABLES[section], row);
+          return key && typeof row.row_version === 'number' ? [[key, row.row_version]] : [];
+        })
+        : [];
+    })
+  );
@@ -0,0 +1,333 @@
+// Offline Sync Queue - persists site device writes in IndexedDB until the server has them
+// Each operation carries an idempotency key, so a flush that dies after the server
+// applied it is safely replayed. Failures back off exponentially; conflicts are
+// held until someone resolves them. Each write carries the row_version the device
+// last saw for its row, so the server can tell when someone else changed it.
+// Versions are learnt from the job state each sync returns: a row's first queued
+// edit carries none and is applied as is; checking starts with the edits after it.
+import localforage from 'localforage';
+
+import { operationRecordKey, resolveConflictData, retryDelay, rowVersionsFromState } from './policy';
+import type {
+  BatchSyncResults,
+  ConflictResolution,
+  QueuedSyncOperation,
+  SyncOperationInput,
+} from './types';
+
+const BATCH_SIZE = 50;
+
+export type SyncQueueEvent =
+  | { type: 'changed' }
+  | { type: 'synced'; results: BatchSyncResults }
+  | { type: 'error'; error: unknown }
+  | { type: 'conflict'; operations: QueuedSyncOperation[] };
+
+const newIdempotencyKey = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+export class OfflineSyncQueue {
+  private store: LocalForage | null = null;
+  private versionStore: LocalForage | null = null;
+  private operations = new Map<string, QueuedSyncOperation>();
+  private versions = new Map<string, number>();
+  private loaded: Promise<void> | null = null;
+  private flushing = false;
+  private sending: { records: Set<string>; done: Promise<boolean> } | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(event: SyncQueueEvent) => void>();
+
+  /**
+   * Load the persisted queue and start flushing. Safe to call repeatedly;
+   * a no-op outside the browser.
+   */
+  start(): Promise<void> {
+    if (typeof window === 'undefined') return Promise.resolve();
+    if (!this.loaded) {
+      this.store = localforage.createInstance({ name: 'bhit-work-os', storeName: 'sync_queue' });
+      this.versionStore = localforage.createInstance({ name: 'bhit-work-os', storeName: 'row_versions' });
+      this.loaded = this.load();
+      window.addEventListener('online', () => { void this.flush(); });
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: (event: SyncQueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Queue a write. The first edit to a row takes the row_version the device
+   * last saw; further edits while it is still queued are folded into it, so
+   * they are checked against that same version rather than against each other.
+   */
+  async enqueue(input: SyncOperationInput): Promise<QueuedSyncOperation> {
+    await this.start();
+    const now = Date.now();
+    const recordKey = operationRecordKey(input, now);
+
+    if (recordKey && input.base_version === undefined) {
+      // An edit already on its way to the server will move the row on a version
+      if (this.sending?.records.has(recordKey)) await this.sending.done;
+
+      const queued = this.findPending(recordKey);
+      if (queued) {
+        const merged = { ...queued, data: { ...queued.data, ...input.data } };
+        await this.save(merged);
+        this.emit({ type: 'changed' });
+        void this.flush();
+        return merged;
+      }
+    }
+
+    const idempotencyKey = newIdempotencyKey();
+    const operation: QueuedSyncOperation = {
+      ...input,
+      ...(input.base_version === undefined && recordKey && this.versions.has(recordKey)
+        ? { base_version: this.versions.get(recordKey) }
+        : {}),
+      id: idempotencyKey,
+      idempotency_key: idempotencyKey,
+      timestamp: now,
+      attempts: 0,
+      next_attempt_at: now,
+      status: 'pending',
+    };
+
+    await this.save(operation);
+    this.emit({ type: 'changed' });
+    void this.flush();
+    return operation;
+  }
+
+  getLength(): number {
+    return this.operations.size;
+  }
+
+  getConflicts(): QueuedSyncOperation[] {
+    return [...this.operations.values()]
+      .filter(operation => operation.status === 'conflict')
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Settle a held conflict. Keeping the server copy drops the operation; otherwise
+   * it is rebased onto the server's row_version and queued again.
+   */
+  async resolveConflict(
+    idempotencyKey: string,
+    resolution: ConflictResolution,
+    choices?: Record<string, 'mine' | 'server'>
+  ): Promise<void> {
+    await this.start();
+    const operation = this.operations.get(idempotencyKey);
+    if (!operation?.conflict) return;
+
+    const data = resolveConflictData(operation.conflict, resolution, choices);
+    if (data === null) {
+      await this.remove(idempotencyKey);
+    } else {
+      // A new key: the server has already recorded the old one as a conflict
+      const key = newIdempotencyKey();
+      await this.remove(idempotencyKey);
+      await this.save({
+        ...operation,
+        id: key,
+        idempotency_key: key,
+        data,
+        base_version: operation.conflict.server_version,
+        attempts: 0,
+        next_attempt_at: Date.now(),
+        status: 'pending',
+        last_error: undefined,
+        conflict: undefined,
+      });
+    }
+
+    this.emit({ type: 'changed' });
+    void this.flush();
+  }
+
+  async flush(): Promise<void> {
+    await this.start();
+    if (this.flushing || (typeof navigator !== 'undefined' && !navigator.onLine)) return;
+    this.flushing = true;
+
+    try {
+      let due = this.dueOperations();
+      while (due.length > 0) {
+        const sent = await this.send(due.slice(0, BATCH_SIZE));
+        if (!sent) break;
+        due = this.dueOperations();
+      }
+    } finally {
+      this.flushing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  private async send(batch: QueuedSyncOperation[]): Promise<boolean> {
+    const records = new Set(batch.map(operation => operationRecordKey(operation, operation.timestamp)).filter((key): key is string => Boolean(key)));
+    const done = this.sendBatch(batch);
+    this.sending = { records, done };
+    try {
+      return await done;
+    } finally {
+      this.sending = null;
+    }
+  }
+
+  private async sendBatch(batch: QueuedSyncOperation[]): Promise<boolean> {
+    let results: BatchSyncResults;
+    try {
+      const response = await fetch('/api/v2/sync/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          updates: batch.map(({ attempts, next_attempt_at: _next, status: _status, last_error: _error, conflict: _conflict, ...update }) => ({
+            ...update,
+            retry_count: attempts,
+          })),
+          device_id: this.getDeviceId(),
+        }),
+      });
+
+      const body = await response.json().catch(() => null);
+      if (!response.ok || !body?.success) {
+        throw new Error(body?.error || `Sync failed with status ${response.status}`);
+      }
+      results = body.results as BatchSyncResults;
+    } catch (error: unknown) {
+      console.error('[Sync] Batch failed:', error);
+      const message = error instanceof Error ? error.message : 'Sync failed';
+      await Promise.all(batch.map(operation => this.backOff(operation, message)));
+      this.emit({ type: 'error', error });
+      return false;
+    }
+
+    const conflicts = new Map(results.conflicts.map(conflict => [conflict.idempotency_key, conflict]));
+    const errors = new Map(results.errors.map(error => [error.idempotency_key || error.id, error.error]));
+    const held: QueuedSyncOperation[] = [];
+
+    for (const operation of batch) {
+      const conflict = conflicts.get(operation.idempotency_key);
+      const error = errors.get(operation.idempotency_key);
+
+      if (conflict) {
+        const updated = { ...operation, status: 'conflict' as const, conflict };
+        await this.save(updated);
+        held.push(updated);
+      } else if (error) {
+        await this.backOff(operation, error);
+      } else {
+        await this.remove(operation.idempotency_key);
+      }
+    }
+
+    await this.rememberVersions(rowVersionsFromState(results.newState || {}));
+
+    this.emit({ type: 'synced', results });
+    if (held.length > 0) this.emit({ type: 'conflict', operations: held });
+    this.emit({ type: 'changed' });
+    return true;
+  }
+
+  private async backOff(operation: QueuedSyncOperation, error: string) {
+    const attempts = operation.attempts + 1;
+    await this.save({
+      ...operation,
+      attempts,
+      next_attempt_at: Date.now() + retryDelay(attempts),
+      last_error: error,
+    });
+  }
+
+  /** A queued edit to the row that is not held as a conflict or being sent */
+  private findPending(recordKey: string): QueuedSyncOperation | undefined {
+    return [...this.operations.values()].find(operation =>
+      operation.status === 'pending' && operationRecordKey(operation, operation.timestamp) === recordKey
+    );
+  }
+
+  private dueOperations(): QueuedSyncOperation[] {
+    const now = Date.now();
+    return [...this.operations.values()]
+      .filter(operation => operation.status === 'pending' && operation.next_attempt_at <= now)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    const pending = [...this.operations.values()].filter(operation => operation.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAt = Math.min(...pending.map(operation => operation.next_attempt_at));
+    this.retryTimer = setTimeout(() => { void this.flush(); }, Math.max(0, nextAt - Date.now()));
+  }
+
+  private async load() {
+    try {
+      await this.store!.iterate<QueuedSyncOperation, void>((operation, key) => {
+        this.operations.set(key, operation);
+      });
+      await this.versionStore!.iterate<number, void>((version, key) => {
+        this.versions.set(key, version);
+      });
+    } catch (error: unknown) {
+      console.error('[Sync] Failed to load offline queue:', error);
+    }
+    this.emit({ type: 'changed' });
+    if (this.getConflicts().length > 0) this.emit({ type: 'conflict', operations: this.getConflicts() });
+    void this.flush();
+  }
+
+  private async save(operation: QueuedSyncOperation) {
+    this.operations.set(operation.idempotency_key, operation);
+    try {
+      await this.store?.setItem(operation.idempotency_key, operation);
+    } catch (error: unknown) {
+      // Still queued in memory for this session
+      console.error('[Sync] Failed to persist queued operation:', error);
+    }
+  }
+
+  private async rememberVersions(versions: Array<[string, number]>) {
+    for (const [key, version] of versions) {
+      this.versions.set(key, version);
+      try {
+        await this.versionStore?.setItem(key, version);
+      } catch (error: unknown) {
+        console.error('[Sync] Failed to persist row version:', error);
+      }
+    }
+  }
+
+  private async remove(idempotencyKey: string) {
+    this.operations.delete(idempotencyKey);
+    try {
+      await this.store?.removeItem(idempotencyKey);
+    } catch (error: unknown) {
+      console.error('[Sync] Failed to remove queued operation:', error);
+    }
+  }
+
+  private emit(event: SyncQueueEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private getDeviceId(): string {
+    let deviceId = localStorage.getItem('bhit-device-id');
+    if (!deviceId) {
+      deviceId = 'web-' + Math.random().toString(36).substr(2, 9);
+      localStorage.setItem('bhit-device-id', deviceId);
+    }
+    return deviceId;
+  }
+}
+
+export const offlineSyncQueue = new OfflineSyncQueue();
@@ -0,0 +1,59 @@
+// Offline Sync - types shared by the device queue and /api/v2/sync/batch
+
+export type SyncOperationType = 'product_update' | 'bulk_update' | 'daily_log' | 'closeout';
+
+export type ConflictResolution = 'keep_mine' | 'keep_server' | 'merge';
+
+export interface SyncOperationInput {
+  operation: SyncOperationType;
+  table: string;
+  job_id: string;
+  record_id?: string;
+  data: Record<string, unknown>;
+  // row_version the device last saw; null when the device expects to create the row.
+  // Omitted by older clients, which skips the version check.
+  base_version?: number | null;
+}
+
+/**
+ * Wire format for one queued write, as posted to /api/v2/sync/batch
+ */
+export interface SyncUpdate extends SyncOperationInput {
+  id: string;
+  idempotency_key?: string;
+  timestamp: number;
+  retry_count?: number;
+}
+
+export interface SyncConflict {
+  id: string;
+  idempotency_key: string | null;
+  operation: SyncOperationType;
+  table: string;
+  job_id: string;
+  record_id: string | null;
+  reason: string;
+  base_version: number | null;
+  server_version: number | null;
+  client_data: Record<string, unknown>;
+  server_data: Record<string, unknown>;
+  fields: string[]; // Fields the device changed that now differ on the server
+}
+
+export interface BatchSyncResults {
+  synced: number;
+  failed: number;
+  duplicates: string[]; // Idempotency keys the server had already applied
+  conflicts: SyncConflict[];
+  newState: Record<string, unknown>;
+  errors: Array<{ id: string; idempotency_key?: string; error: string }>;
+}
+
+export interface QueuedSyncOperation extends SyncUpdate {
+  idempotency_key: string;
+  attempts: number;
+  next_attempt_at: number;
+  status: 'pending' | 'conflict';
+  last_error?: string;
+  conflict?: SyncConflict;
+}
@@ -1,20 +1,36 @@
-// AI Parsing Service - Production Quality Gemini Integration
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
+// AI Parsing Service - reads POD documents through the AI provider layer (lib/ai)
+import { extractJSON, isAIConfigured } from '../ai';
+import { supabaseAdmin } from '../supabaseAdmin';
 import { supabase } from '../supabaseClient';
+import { extractWithBestTemplate, recordTemplateUsage, type TemplateExtraction } from '../templateService';
+import { matchedZoneValues, readPdfTextLayer, ZONE_CONFIDENCE, type PdfJsLike } from '../templateZoneExtractor';
 
 import type { ParsedPODData, PODItem, ConfidenceScores, VehicleType } from './types';
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-const GEMINI_MODEL = 'gemini-2.0-flash-exp';
+type TemplatedPODField = 'sales_order_ref' | 'delivery_date' | 'delivery_time' | 'recipient_name'
+  | 'delivery_address' | 'vehicle_registrations' | 'driver_names';
+
+// Template field names (see pages/template-editor.tsx) to POD fields
+const TEMPLATE_FIELD_MAP: Record<string, TemplatedPODField> = {
+  sales_order_ref: 'sales_order_ref',
+  delivery_date: 'delivery_date',
+  delivery_time: 'delivery_time',
+  recipient_name: 'recipient_name',
+  delivery_address: 'delivery_address',
+  vehicle_reg: 'vehicle_registrations',
+  driver_name: 'driver_names',
+};
+
+// Templates can't read the items table or judge the vehicle, so these always go to the AI
+const AI_ONLY_FIELDS = ['vehicle_type', 'vehicle_count', 'items_delivered'];
 
 export class AIParsingService {
   /**
-   * Parse POD document using Gemini AI
+   * Parse POD document, reading templated fields first and the rest with AI
    */
   static async parsePOD(podId: string, filePath: string): Promise<ParsedPODData> {
-    if (!GEMINI_API_KEY) {
-      console.warn('GEMINI_API_KEY not configured - using mock data');
+    if (!isAIConfigured()) {
+      console.warn('AI provider not configured - using mock data');
       return this.getMockParsedData();
     }
 
@@ -42,32 +58,65 @@ export class AIParsingService {
       // Determine MIME type from file extension
       const mimeType = this.getMimeType(filePath);
 
-      // Initialize Gemini
-      const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-      const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-
-      // Create extraction prompt
-      const prompt = this.createExtractionPrompt();
-
-      // Call Gemini API
-      const result = await model.generateContent([
-        {
-          inlineData: {
-            mimeType,
-            data: base64
-          }
-        },
-        { text: prompt }
-      ]);
-
-      const response = await result.response;
-      const text = response.text();
-
-      // Parse JSON response
-      const parsedData = this.parseGeminiResponse(text);
+      // Read what we can from a matching template before asking the AI
+      const templated = mimeType === 'application/pdf'
+        ? await this.extractWithTemplate(new Uint8Array(arrayBuffer))
+        : null;
+      const missingFields = templated
+        ? [...new Set(Object.values(TEMPLATE_FIELD_MAP))].filter(field => this.isEmpty(templated.data[field]))
+        : undefined;
+
+      let parsedData: ParsedPODData;
+      let hadErrors = false;
+      let modelVersion: string | null = null;
+      try {
+        // Create extraction prompt
+        const prompt = this.createExtractionPrompt(missingFields && [...missingFields, ...AI_ONLY_FIELDS]);
+
+        const response = await extractJSON<Record<string, any>>({
+          task: 'pod.extract',
+          inputs: [
+            { type: 'file', mimeType, data: base64 },
+            { type: 'text', text: prompt }
+          ]
+        });
+        modelVersion = response.model;
+
+        // Map JSON response
+        parsedData = this.toParsedPODData(response.data, response.text);
+        if (templated) {
+          parsedData = this.mergeTemplateData(templated.data, parsedData);
+        }
+      } catch (error) {
+        if (!templated) throw error;
+        // Keep the templated header fields; the items are entered on review
+        console.error('AI parsing of remaining POD fields failed:', error);
+        parsedData = templated.data;
+        hadErrors = true;
+      }
 
       // Calculate validation flags
       parsedData.validation_flags = this.calculateValidationFlags(parsedData);
+      if (hadErrors) {
+        parsedData.validation_flags.push('items_not_extracted');
+      }
+
+      if (templated) {
+        try {
+          await recordTemplateUsage(supabaseAdmin, {
+            template_id: templated.extraction.template.id,
+            document_type: 'pod',
+            match_rate: templated.extraction.summary.match_rate,
+            fields_matched: templated.extraction.summary.fields_matched,
+            fields_total: templated.extraction.summary.fields_total,
+            avg_confidence: templated.extraction.summary.avg_confidence,
+            had_errors: hadErrors,
+          });
+        } catch (error) {
+          // Non-critical: the POD itself was parsed
+          console.warn('Failed to record template usage:', error);
+        }
+      }
 
       // Update POD with parsing status
       // Note: delivery_pods table exists in DB but not in generated types
@@ -76,7 +125,7 @@ export class AIParsingService {
         .update({
           status: parsedData.validation_flags.length > 0 ? 'needs_review' : 'pending',
           parsing_completed_at: new Date().toISOString(),
-          ai_model_version: GEMINI_MODEL
+          ai_model_version: modelVersion
         })
         .eq('id', podId);
 
@@ -104,9 +153,96 @@ export class AIParsingService {
   }
 
   /**
-   * Create comprehensive extraction prompt for Gemini
+   * Read POD header fields with the best matching template. Null when the PDF
+   * has no text layer or no template fits.
    */
-  private static createExtractionPrompt(): string {
+  private static async extractWithTemplate(
+    pdfData: Uint8Array
+  ): Promise<{ data: ParsedPODData; extraction: TemplateExtraction } | null> {
+    try {
+      // Server-side build of pdf.js; the browser uses the CDN copy instead
+      const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs') as unknown as PdfJsLike;
+      // pdf.js detaches the buffer it is given, so hand it a copy of the downloaded bytes
+      const pages = await readPdfTextLayer(pdfjs, pdfData.slice());
+      const extraction = await extractWithBestTemplate(supabaseAdmin, 'pod', pages);
+      if (!extraction) return null;
+
+      const data: ParsedPODData = {
+        vehicle_registrations: [],
+        driver_names: [],
+        items_delivered: [],
+        confidence_scores: { overall: extraction.summary.avg_confidence },
+        validation_flags: [],
+      };
+
+      const values = matchedZoneValues(extraction.results);
+      for (const [fieldName, result] of values) {
+        const key = TEMPLATE_FIELD_MAP[fieldName];
+        if (!key) continue;
+        const text = String(result.value);
+
+        if (key === 'vehicle_registrations' || key === 'driver_names') {
+          data[key] = [text];
+        } else if (key === 'delivery_time') {
+          const time = text.match(/(\d{1,2})[:.](\d{2})/);
+          if (!time) continue;
+          data.delivery_time = `${time[1].padStart(2, '0')}:${time[2]}`;
+        } else {
+          data[key] = text;
+        }
+        data.confidence_scores[key] = ZONE_CONFIDENCE[result.field.confidence_level];
+      }
+      data.raw_extracted_text = JSON.stringify(
+        Object.fromEntries([...values].map(([fieldName, result]) => [fieldName, result.text]))
+      );
+
+      return { data, extraction };
+    } catch (error) {
+      // Fall back to a full AI extraction
+      console.warn('POD template extraction failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Templated fields win; the AI fills the rest
+   */
+  private static mergeTemplateData(templated: ParsedPODData, aiData: ParsedPODData): ParsedPODData {
+    const merged: ParsedPODData = {
+      ...aiData,
+      confidence_scores: { ...aiData.confidence_scores },
+      raw_extracted_text: `template: ${templated.raw_extracted_text}\nai: ${aiData.raw_extracted_text}`,
+    };
+
+    for (const field of new Set(Object.values(TEMPLATE_FIELD_MAP))) {
+      if (this.isEmpty(templated[field])) continue;
+      (merged as Record<TemplatedPODField, unknown>)[field] = templated[field];
+      merged.confidence_scores[field] = templated.confidence_scores[field];
+    }
+
+    const scores = Object.entries(merged.confidence_scores)
+      .filter(([key, value]) => key !== 'overall' && typeof value === 'number')
+      .map(([, value]) => value as number);
+    merged.confidence_scores.overall = scores.length > 0
+      ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+      : aiData.confidence_scores.overall;
+
+    return merged;
+  }
+
+  private static isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+  }
+
+  /**
+   * Create comprehensive extraction prompt for the model. With onlyFields, the
+   * other fields were already read from a template and are left out.
+   */
+  private static createExtractionPrompt(onlyFields?: string[]): string {
+    const focus = onlyFields
+      ? `\nThe other fields have already been read. Only extract: ${onlyFields.join(', ')}. Use null (or [] for arrays) for every other field.\n`
+      : '';
+
     return `You are a document extraction expert analyzing a Proof of Delivery (POD) document for a UK construction materials haulage company.
 
 Extract the following information from this document and return it as a JSON object. For each field, also provide a confidence score (0-100%) indicating how certain you are about the extracted value.
@@ -122,7 +258,7 @@ Required fields:
 8. vehicle_registrations - Array of vehicle registration plates (UK format)
 9. driver_names - Array of driver names
 10. items_delivered - Array of items with: product (string), quantity (number), unit (string), notes (optional)
-
+${focus}
 Return ONLY valid JSON in this exact format:
 {
   "sales_order_ref": "string or null",
@@ -166,49 +302,34 @@ Important:
   }
 
   /**
-   * Parse Gemini response and extract structured data
+   * Map the model's JSON onto ParsedPODData
    */
-  private static parseGeminiResponse(text: string): ParsedPODData {
-    try {
-      // Remove markdown code blocks if present
-      let jsonText = text.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/^```json\n/, '').replace(/\n```$/, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/^```\n/, '').replace(/\n```$/, '');
-      }
-
-      const parsed = JSON.parse(jsonText);
-
-      // Calculate overall confidence
-      const scores = parsed.confidence_scores || {};
-      const confidenceValues = Object.values(scores).filter((v): v is number => typeof v === 'number');
-      const overall = confidenceValues.length > 0
-        ? Math.round(confidenceValues.reduce((a: number, b: number) => a + b, 0) / confidenceValues.length)
-        : 0;
+  private static toParsedPODData(parsed: Record<string, any>, jsonText: string): ParsedPODData {
+    // Calculate overall confidence
+    const scores = parsed.confidence_scores || {};
+    const confidenceValues = Object.values(scores).filter((v): v is number => typeof v === 'number');
+    const overall = confidenceValues.length > 0
+      ? Math.round(confidenceValues.reduce((a: number, b: number) => a + b, 0) / confidenceValues.length)
+      : 0;
 
-      return {
-        sales_order_ref: parsed.sales_order_ref || undefined,
-        delivery_date: parsed.delivery_date || undefined,
-        delivery_time: parsed.delivery_time || undefined,
-        recipient_name: parsed.recipient_name || undefined,
-        delivery_address: parsed.delivery_address || undefined,
-        vehicle_type: parsed.vehicle_type as VehicleType || undefined,
-        vehicle_count: parsed.vehicle_count || 1,
-        vehicle_registrations: parsed.vehicle_registrations || [],
-        driver_names: parsed.driver_names || [],
-        items_delivered: parsed.items_delivered || [],
-        confidence_scores: {
-          overall,
-          ...scores
-        },
-        validation_flags: [],
-        raw_extracted_text: jsonText
-      };
-    } catch (error) {
-      console.error('Failed to parse Gemini response:', error);
-      throw new Error('Invalid JSON response from AI model');
-    }
+    return {
+      sales_order_ref: parsed.sales_order_ref || undefined,
+      delivery_date: parsed.delivery_date || undefined,
+      delivery_time: parsed.delivery_time || undefined,
+      recipient_name: parsed.recipient_name || undefined,
+      delivery_address: parsed.delivery_address || undefined,
+      vehicle_type: parsed.vehicle_type as VehicleType || undefined,
+      vehicle_count: parsed.vehicle_count || 1,
+      vehicle_registrations: parsed.vehicle_registrations || [],
+      driver_names: parsed.driver_names || [],
+      items_delivered: parsed.items_delivered || [],
+      confidence_scores: {
+        overall,
+        ...scores
+      },
+      validation_flags: [],
+      raw_extracted_text: jsonText
+    };
   }
 
   /**
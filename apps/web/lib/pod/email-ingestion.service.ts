@@ -0,0 +1,184 @@
+// Email POD Ingestion - turns inbound supplier emails into PODs
+// Raw messages arrive from a mail relay (/api/pods/inbound-email) or a local
+// maildir (/api/cron/ingest-pod-maildir). Each PDF/image attachment becomes a
+// POD, attributed to the supplier whose contacts share the sender's domain.
+import { supabaseAdmin } from '../supabaseAdmin';
+
+import { AIParsingService } from './ai-parsing.service';
+import { JobMatchingService } from './job-matching.service';
+import { parseMimeMessage, type EmailAttachment } from './mime';
+import { PODService } from './pod.service';
+import type { DeliveryPOD, Supplier } from './types';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // Same limit as browser uploads
+
+const ALLOWED_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// Shared mailbox providers: a domain match here says nothing about the supplier
+const PUBLIC_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'hotmail.co.uk', 'live.com', 'live.co.uk',
+  'yahoo.com', 'yahoo.co.uk', 'icloud.com', 'me.com', 'aol.com', 'btinternet.com', 'sky.com', 'virginmedia.com',
+]);
+
+export interface PODAttachment extends EmailAttachment {
+  mimeType: string; // Normalised, inferred from the extension for octet-stream parts
+}
+
+export interface EmailIngestionResult {
+  messageId: string | null;
+  sender: string | null;
+  supplierId: string | null;
+  created: DeliveryPOD[];
+  duplicates: Array<{ filename: string; podId: string }>;
+  skipped: Array<{ filename: string; reason: string }>;
+}
+
+export const emailDomain = (address: string | null | undefined): string | null => {
+  const at = address?.lastIndexOf('@') ?? -1;
+  return address && at > 0 ? address.slice(at + 1).trim().toLowerCase() : null;
+};
+
+/**
+ * Find the supplier a sender belongs to. An exact address match wins; otherwise
+ * the sender's domain must match exactly one supplier's contacts.
+ */
+export const matchSupplierBySender = (suppliers: Supplier[], sender: string | null): Supplier | null => {
+  if (!sender) return null;
+  const address = sender.toLowerCase();
+  const active = suppliers.filter(supplier => supplier.active !== false);
+
+  const addressesOf = (supplier: Supplier) =>
+    [supplier.primary_email, ...(supplier.contacts || []).map(contact => contact.email)]
+      .filter((email): email is string => Boolean(email))
+      .map(email => email.trim().toLowerCase());
+
+  const exact = active.find(supplier => addressesOf(supplier).includes(address));
+  if (exact) return exact;
+
+  const domain = emailDomain(address);
+  if (!domain || PUBLIC_MAIL_DOMAINS.has(domain)) return null;
+
+  const byDomain = active.filter(supplier => addressesOf(supplier).some(email => emailDomain(email) === domain));
+  return byDomain.length === 1 ? byDomain[0] : null;
+};
+
+/**
+ * Attachments worth turning into PODs, plus the reason each other one was skipped.
+ * Inline images referenced from the HTML body are signatures and logos, not PODs.
+ */
+export const selectPODAttachments = (attachments: EmailAttachment[]) => {
+  const accepted: PODAttachment[] = [];
+  const skipped: EmailIngestionResult['skipped'] = [];
+
+  for (const attachment of attachments) {
+    const extension = attachment.filename.split('.').pop()?.toLowerCase() || '';
+    const mimeType = ALLOWED_TYPES.includes(attachment.contentType)
+      ? attachment.contentType
+      : attachment.contentType === 'image/jpg'
+        ? 'image/jpeg'
+        : EXTENSION_TYPES[extension];
+
+    if (!mimeType) {
+      skipped.push({ filename: attachment.filename, reason: `Unsupported type ${attachment.contentType}` });
+    } else if (attachment.inline && attachment.contentId && mimeType.startsWith('image/')) {
+      skipped.push({ filename: attachment.filename, reason: 'Inline image' });
+    } else if (attachment.content.length === 0) {
+      skipped.push({ filename: attachment.filename, reason: 'Empty attachment' });
+    } else if (attachment.content.length > MAX_ATTACHMENT_BYTES) {
+      skipped.push({ filename: attachment.filename, reason: 'Attachment larger than 10MB' });
+    } else {
+      accepted.push({ ...attachment, mimeType });
+    }
+  }
+
+  return { accepted, skipped };
+};
+
+export class EmailIngestionService {
+  /**
+   * Create PODs from a raw RFC 822 message. Safe to re-run on the same message:
+   * attachments already on file (by hash) are reported as duplicates.
+   */
+  static async ingest(raw: Buffer | string): Promise<EmailIngestionResult> {
+    const email = parseMimeMessage(raw);
+    const { accepted, skipped } = selectPODAttachments(email.attachments);
+
+    const result: EmailIngestionResult = {
+      messageId: email.messageId,
+      sender: email.from,
+      supplierId: null,
+      created: [],
+      duplicates: [],
+      skipped,
+    };
+
+    if (accepted.length === 0) return result;
+
+    const supplier = matchSupplierBySender(await this.getSuppliers(), email.from);
+    result.supplierId = supplier?.id ?? null;
+
+    for (const attachment of accepted) {
+      const file = new File([new Uint8Array(attachment.content)], attachment.filename, { type: attachment.mimeType });
+      const fileHash = await PODService.generateFileHash(file);
+
+      // Note: delivery_pods table exists in DB but not in generated types
+      const { data: existingPOD } = await (supabaseAdmin
+        .from('delivery_pods') as any)
+        .select('id')
+        .eq('file_hash', fileHash)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (existingPOD) {
+        result.duplicates.push({ filename: attachment.filename, podId: existingPOD.id });
+        continue;
+      }
+
+      const filePath = await PODService.uploadFile(file, 'email');
+      const pod = await PODService.create({
+        file,
+        filePath,
+        fileHash,
+        uploadSource: 'email',
+        originalSender: email.from || undefined,
+        supplierId: supplier?.id,
+      });
+      result.created.push(pod);
+
+      // Trigger AI parsing asynchronously (don't wait for it)
+      AIParsingService.parsePOD(pod.id, filePath)
+        .then(async (parsedData) => {
+          await PODService.update(pod.id, {
+            ...parsedData,
+            change_reason: 'AI parsing completed'
+          });
+          await JobMatchingService.matchPOD(pod.id);
+        })
+        .catch((err) => {
+          console.error(`AI parsing failed for POD ${pod.id}:`, err);
+        });
+    }
+
+    return result;
+  }
+
+  private static async getSuppliers(): Promise<Supplier[]> {
+    const { data, error } = await supabaseAdmin
+      .from('suppliers')
+      .select('*');
+
+    if (error) {
+      console.error('Failed to load suppliers for POD attribution:', error);
+      return [];
+    }
+    return (data || []) as Supplier[];
+  }
+}
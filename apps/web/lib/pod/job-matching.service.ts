@@ -0,0 +1,406 @@
+// POD Job Matching - links PODs to jobs and reconciles what was delivered
+// Candidates are scored on sales order ref, site postcode and the job's date
+// window. Confident matches are linked; the rest go to the review queue with
+// the best candidate kept as a suggestion.
+import { getJobProducts, type JobProduct } from '../server/jobProducts';
+import { supabaseAdmin } from '../supabaseAdmin';
+
+import type {
+  DeliveryPOD,
+  ItemReconciliation,
+  JobMatchCandidate,
+  JobMatchResult,
+  PODItem
+} from './types';
+
+export const AUTO_LINK_SCORE = 75;
+// A close runner-up means the ref alone can't tell the jobs apart
+const AUTO_LINK_MARGIN = 15;
+const MIN_SUGGESTION_SCORE = 30;
+const DATE_BUFFER_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Flags this service owns; anything else on the POD (e.g. from AI parsing) is kept
+const MATCH_FLAGS = ['job_match_needs_review', 'no_job_match'];
+const RECONCILIATION_FLAG = /^(short|over|unexpected):/;
+
+/** The job columns the matcher reads. Older job rows use location rather than address/postcode. */
+export interface MatchableJob {
+  id: string;
+  title: string;
+  reference: string | null;
+  client_name: string | null;
+  address?: string | null;
+  postcode?: string | null;
+  location?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  scheduled_date?: string | null;
+  quote_details?: { quote_ref?: string; delivery_address?: string } | null;
+}
+
+const UK_POSTCODE = /\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/i;
+
+/** Normalised "OUTWARD INWARD" postcode found in free text, or null */
+export const extractPostcode = (text: string | null | undefined): string | null => {
+  const match = text ? UK_POSTCODE.exec(text) : null;
+  return match ? `${match[1].toUpperCase()} ${match[2].toUpperCase()}` : null;
+};
+
+export const normaliseRef = (ref: string | null | undefined): string =>
+  (ref || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const jobPostcode = (job: MatchableJob): string | null =>
+  extractPostcode(job.postcode) ||
+  extractPostcode(job.address) ||
+  extractPostcode(job.location) ||
+  extractPostcode(job.quote_details?.delivery_address);
+
+/**
+ * Score one job against a POD, 0-100:
+ * sales order ref 60 (35 partial), postcode 25 (10 same district), date window 15 (8 within a week).
+ */
+export const scoreJobCandidate = (
+  pod: Pick<DeliveryPOD, 'sales_order_ref' | 'delivery_address' | 'delivery_date'>,
+  job: MatchableJob
+): JobMatchCandidate => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const podRef = normaliseRef(pod.sales_order_ref);
+  const jobRefs = [job.reference, job.quote_details?.quote_ref].map(normaliseRef).filter(Boolean);
+  if (podRef && jobRefs.includes(podRef)) {
+    score += 60;
+    reasons.push('Sales order ref matches');
+  } else if (podRef.length >= 4 && jobRefs.some(ref => ref.length >= 4 && (ref.includes(podRef) || podRef.includes(ref)))) {
+    score += 35;
+    reasons.push('Sales order ref partially matches');
+  }
+
+  const podPostcode = extractPostcode(pod.delivery_address);
+  const sitePostcode = jobPostcode(job);
+  if (podPostcode && sitePostcode) {
+    if (podPostcode === sitePostcode) {
+      score += 25;
+      reasons.push(`Postcode ${podPostcode} matches`);
+    } else if (podPostcode.split(' ')[0] === sitePostcode.split(' ')[0]) {
+      score += 10;
+      reasons.push(`Same postcode district (${podPostcode.split(' ')[0]})`);
+    }
+  }
+
+  const windowStart = job.start_date || job.scheduled_date;
+  if (pod.delivery_date && windowStart) {
+    const delivered = new Date(`${pod.delivery_date.slice(0, 10)}T12:00:00Z`).getTime();
+    const start = new Date(`${windowStart.slice(0, 10)}T00:00:00Z`).getTime();
+    const end = new Date(`${(job.end_date || windowStart).slice(0, 10)}T23:59:59Z`).getTime();
+
+    if (delivered >= start && delivered <= end) {
+      score += 15;
+      reasons.push('Delivered within the job dates');
+    } else if (delivered >= start - DATE_BUFFER_DAYS * DAY_MS && delivered <= end + DATE_BUFFER_DAYS * DAY_MS) {
+      score += 8;
+      reasons.push('Delivered within a week of the job dates');
+    }
+  }
+
+  return {
+    job_id: job.id,
+    reference: job.reference,
+    title: job.title,
+    client_name: job.client_name,
+    score,
+    reasons,
+  };
+};
+
+/**
+ * Rank candidates and decide: link, send to review with a suggestion, or no match
+ */
+export const decideJobMatch = (candidates: JobMatchCandidate[]): JobMatchResult => {
+  const ranked = [...candidates].sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = ranked;
+
+  if (!best || best.score < MIN_SUGGESTION_SCORE) {
+    return { status: 'no_match', best: null, candidates: ranked };
+  }
+
+  const clearWinner = !runnerUp || best.score - runnerUp.score >= AUTO_LINK_MARGIN;
+  return {
+    status: best.score >= AUTO_LINK_SCORE && clearWinner ? 'linked' : 'needs_review',
+    best,
+    candidates: ranked,
+  };
+};
+
+const normaliseName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const tokens = (name: string) => new Set(normaliseName(name).split(' ').filter(token => token.length > 1));
+
+const similarity = (a: string, b: string) => {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter(token => right.has(token)).length;
+  return shared / new Set([...left, ...right]).size;
+};
+
+/** The job product a delivered item refers to: by product code, exact name, then closest name */
+export const findJobProduct = (item: PODItem, products: JobProduct[]): JobProduct | null => {
+  const itemName = normaliseName(item.product);
+  const byCode = products.find(product => product.code && itemName.split(' ').includes(normaliseName(product.code)));
+  if (byCode) return byCode;
+
+  const byName = products.find(product => normaliseName(product.name) === itemName);
+  if (byName) return byName;
+
+  let best: JobProduct | null = null;
+  let bestScore = 0.5;
+  for (const product of products) {
+    const score = similarity(item.product, product.name);
+    if (score >= bestScore) {
+      best = product;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Compare the items on this POD with the job's product list, counting what
+ * earlier PODs for the job already delivered. Only products on this POD are
+ * checked: anything else may simply be on a later delivery.
+ */
+export const reconcileItems = (
+  items: PODItem[],
+  products: JobProduct[],
+  previouslyDelivered: PODItem[] = []
+): ItemReconciliation[] => {
+  const delivered = new Map<string, number>();
+  const unexpected = new Map<string, number>();
+  const onThisPOD = new Set<string>();
+
+  const tally = (item: PODItem, current: boolean) => {
+    const quantity = Number(item.quantity) || 0;
+    const product = findJobProduct(item, products);
+    if (product) {
+      delivered.set(product.id, (delivered.get(product.id) || 0) + quantity);
+      if (current) onThisPOD.add(product.id);
+    } else if (current) {
+      unexpected.set(item.product, (unexpected.get(item.product) || 0) + quantity);
+    }
+  };
+
+  previouslyDelivered.forEach(item => tally(item, false));
+  items.forEach(item => tally(item, true));
+
+  const results: ItemReconciliation[] = products
+    .filter(product => onThisPOD.has(product.id))
+    .map(product => {
+      const total = delivered.get(product.id) || 0;
+      const expected = Number(product.quantity) || 0;
+      return {
+        product: product.name,
+        expected,
+        delivered: total,
+        status: total < expected ? 'short' : total > expected ? 'over' : 'ok',
+      };
+    });
+
+  for (const [product, quantity] of unexpected) {
+    results.push({ product, expected: 0, delivered: quantity, status: 'unexpected' });
+  }
+
+  return results;
+};
+
+export const reconciliationFlags = (results: ItemReconciliation[]): string[] =>
+  results
+    .filter(result => result.status !== 'ok')
+    .map(result =>
+      result.status === 'unexpected'
+        ? `unexpected:${result.product} (${result.delivered})`
+        : `${result.status}:${result.product} (${result.delivered} of ${result.expected})`
+    );
+
+const withoutOwnFlags = (flags: string[] | null | undefined, dropReconciliation: boolean) =>
+  (flags || []).filter(flag => !MATCH_FLAGS.includes(flag) && !(dropReconciliation && RECONCILIATION_FLAG.test(flag)));
+
+export class JobMatchingService {
+  /**
+   * Score candidate jobs for a POD and link or queue it for review.
+   * PODs already linked to a job are left alone.
+   */
+  static async matchPOD(podId: string): Promise<JobMatchResult> {
+    const pod = await this.getPOD(podId);
+    if (pod.job_id) {
+      return { status: 'linked', best: null, candidates: [] };
+    }
+
+    const candidates = await this.scoreCandidates(pod);
+    const result = decideJobMatch(candidates);
+    const flags = withoutOwnFlags(pod.validation_flags, false);
+
+    if (result.status === 'linked' && result.best) {
+      await this.linkJob(pod, result.best.job_id, result.best);
+      return result;
+    }
+
+    // Note: delivery_pods table exists in DB but not in generated types
+    const { error } = await (supabaseAdmin
+      .from('delivery_pods') as any)
+      .update({
+        suggested_job_id: result.best?.job_id ?? null,
+        job_match_score: result.best?.score ?? null,
+        job_match_reasons: result.best?.reasons ?? null,
+        validation_flags: [...flags, result.status === 'needs_review' ? 'job_match_needs_review' : 'no_job_match'],
+        status: pod.status === 'pending' ? 'needs_review' : pod.status,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', podId);
+
+    if (error) throw error;
+    return result;
+  }
+
+  /**
+   * Candidate jobs ranked by score, for the review screen
+   */
+  static async scoreCandidates(pod: DeliveryPOD): Promise<JobMatchCandidate[]> {
+    const jobs = await this.findCandidateJobs(pod);
+    return jobs
+      .map(job => scoreJobCandidate(pod, job))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 10);
+  }
+
+  /**
+   * Confirm a job for a POD (from the review queue) and reconcile its items.
+   * Returns null, leaving the POD as it was, when the job does not exist.
+   */
+  static async confirmJob(podId: string, jobId: string): Promise<DeliveryPOD | null> {
+    const { data: job, error } = await supabaseAdmin
+      .from('jobs')
+      .select('id')
+      .eq('id', jobId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!job) return null;
+
+    const pod = await this.getPOD(podId);
+    return this.linkJob(pod, jobId, null);
+  }
+
+  /**
+   * Re-check the POD's items against its job, e.g. after the items were corrected
+   */
+  static async reconcile(podId: string): Promise<ItemReconciliation[]> {
+    const pod = await this.getPOD(podId);
+    if (!pod.job_id) return [];
+
+    const results = await this.reconcileWithJob(pod, pod.job_id);
+    const { error } = await (supabaseAdmin
+      .from('delivery_pods') as any)
+      .update({
+        validation_flags: [...withoutOwnFlags(pod.validation_flags, true), ...reconciliationFlags(results)],
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', podId);
+
+    if (error) throw error;
+    return results;
+  }
+
+  private static async linkJob(
+    pod: DeliveryPOD,
+    jobId: string,
+    match: JobMatchCandidate | null
+  ): Promise<DeliveryPOD> {
+    const results = await this.reconcileWithJob(pod, jobId);
+    const flags = [...withoutOwnFlags(pod.validation_flags, true), ...reconciliationFlags(results)];
+
+    const { data, error } = await (supabaseAdmin
+      .from('delivery_pods') as any)
+      .update({
+        job_id: jobId,
+        suggested_job_id: null,
+        job_match_score: match?.score ?? null,
+        job_match_reasons: match?.reasons ?? ['Confirmed by reviewer'],
+        job_matched_at: new Date().toISOString(),
+        validation_flags: flags,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', pod.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as DeliveryPOD;
+  }
+
+  private static async reconcileWithJob(pod: DeliveryPOD, jobId: string): Promise<ItemReconciliation[]> {
+    const { quoteProducts, taskProducts } = await getJobProducts(supabaseAdmin, jobId);
+    // Generated tasks mirror the quote lines, so only fall back to them when there's no quote
+    const products = quoteProducts.length > 0 ? quoteProducts : taskProducts;
+    if (products.length === 0) return [];
+
+    const { data: earlier } = await (supabaseAdmin
+      .from('delivery_pods') as any)
+      .select('items_delivered')
+      .eq('job_id', jobId)
+      .neq('id', pod.id)
+      .neq('status', 'rejected')
+      .is('deleted_at', null);
+
+    const previouslyDelivered = ((earlier || []) as Array<Pick<DeliveryPOD, 'items_delivered'>>)
+      .flatMap(row => row.items_delivered || []);
+
+    return reconcileItems(pod.items_delivered || [], products, previouslyDelivered);
+  }
+
+  private static async findCandidateJobs(pod: DeliveryPOD): Promise<MatchableJob[]> {
+    const jobs = new Map<string, MatchableJob>();
+    const ref = (pod.sales_order_ref || '').replace(/[^A-Za-z0-9-]/g, '');
+
+    if (ref.length >= 3) {
+      const { data } = await supabaseAdmin
+        .from('jobs')
+        .select('*')
+        .ilike('reference', `%${ref}%`)
+        .is('deleted_at', null)
+        .limit(20);
+      (data || []).forEach((job: MatchableJob) => jobs.set(job.id, job));
+    }
+
+    if (pod.delivery_date) {
+      const delivered = new Date(`${pod.delivery_date.slice(0, 10)}T12:00:00Z`).getTime();
+      // Jobs that started up to 90 days before the delivery or are due within the buffer
+      const { data } = await supabaseAdmin
+        .from('jobs')
+        .select('*')
+        .gte('start_date', new Date(delivered - 90 * DAY_MS).toISOString())
+        .lte('start_date', new Date(delivered + DATE_BUFFER_DAYS * DAY_MS).toISOString())
+        .is('deleted_at', null)
+        .limit(200);
+      (data || []).forEach((job: MatchableJob) => jobs.set(job.id, job));
+    }
+
+    return Array.from(jobs.values());
+  }
+
+  private static async getPOD(podId: string): Promise<DeliveryPOD> {
+    // Note: delivery_pods table exists in DB but not in generated types
+    const { data, error } = await (supabaseAdmin
+      .from('delivery_pods') as any)
+      .select('*')
+      .eq('id', podId)
+      .single();
+
+    if (error) throw error;
+    return data as DeliveryPOD;
+  }
+}
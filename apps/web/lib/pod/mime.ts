@@ -0,0 +1,256 @@
+// Minimal RFC 822 / MIME reader for inbound POD emails
+// Handles nested multiparts, forwarded messages (message/rfc822), base64 and
+// quoted-printable bodies, and RFC 2047 / RFC 2231 encoded filenames.
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  inline: boolean;
+  contentId?: string;
+}
+
+export interface ParsedEmail {
+  from: string | null; // Bare address, lower-cased
+  fromName: string | null;
+  subject: string | null;
+  messageId: string | null;
+  date: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // latin1 so binary content survives the round trip
+}
+
+// Forwarded messages nest; stop before a hostile message can blow the stack
+const MAX_DEPTH = 10;
+
+const splitHeaderBody = (raw: string): { head: string; body: string } => {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { head: raw, body: '' };
+  return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+};
+
+const parseHeaders = (head: string): Map<string, string> => {
+  const headers = new Map<string, string>();
+  // Unfold continuation lines before splitting
+  const lines = head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/);
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Keep the first occurrence, as mail clients do for From/Subject
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+
+  return headers;
+};
+
+/**
+ * Split a structured header such as Content-Type into its value and parameters.
+ * RFC 2231 continuations (name*0*=...) are joined and charset-decoded.
+ */
+export const parseHeaderValue = (header: string): { value: string; params: Record<string, string> } => {
+  const [value, ...rest] = header.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  const extended: Record<string, Array<{ index: number; text: string; encoded: boolean }>> = {};
+
+  for (const part of rest) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    let text = part.slice(eq + 1).trim();
+    if (text.startsWith('"') && text.endsWith('"')) text = text.slice(1, -1).replace(/\\(.)/g, '$1');
+
+    const ext = /^([^*]+)\*(?:(\d+)\*?)?$/.exec(key);
+    if (ext) {
+      const encoded = key.endsWith('*');
+      (extended[ext[1]] = extended[ext[1]] || []).push({ index: Number(ext[2] || 0), text, encoded });
+    } else {
+      params[key] = text;
+    }
+  }
+
+  for (const [key, pieces] of Object.entries(extended)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: number[] = [];
+
+    pieces.forEach((piece, i) => {
+      let text = piece.text;
+      if (piece.encoded && i === 0) {
+        // charset'language'value
+        const quote = text.split("'");
+        if (quote.length >= 3) {
+          charset = quote[0] || charset;
+          text = quote.slice(2).join("'");
+        }
+      }
+      const decoded = piece.encoded
+        ? text.replace(/%([0-9a-f]{2})/gi, (_m, hex) => String.fromCharCode(parseInt(hex, 16)))
+        : text;
+      for (let c = 0; c < decoded.length; c++) bytes.push(decoded.charCodeAt(c) & 0xff);
+    });
+
+    params[key] = decodeCharset(Buffer.from(bytes), charset);
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+};
+
+const decodeCharset = (buffer: Buffer, charset: string): string => {
+  const normalised = charset.toLowerCase();
+  if (normalised === 'iso-8859-1' || normalised === 'latin1' || normalised === 'us-ascii') {
+    return buffer.toString('latin1');
+  }
+  try {
+    return new TextDecoder(normalised).decode(buffer);
+  } catch {
+    return buffer.toString('utf8');
+  }
+};
+
+const decodeQuotedPrintable = (text: string): Buffer => {
+  const unwrapped = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < unwrapped.length; i++) {
+    const char = unwrapped[i];
+    if (char === '=' && /^[0-9a-f]{2}$/i.test(unwrapped.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(unwrapped.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Decode RFC 2047 encoded-words (=?charset?B|Q?text?=) in a header
+ */
+export const decodeEncodedWords = (text: string): string =>
+  text
+    // Whitespace between adjacent encoded-words is not displayed
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_match, charset: string, encoding: string, encoded: string) => {
+      const buffer = encoding.toLowerCase() === 'b'
+        ? Buffer.from(encoded, 'base64')
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '));
+      return decodeCharset(buffer, charset);
+    });
+
+const decodeBody = (body: string, encoding: string | undefined): Buffer => {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  const lines = body.split(/\r?\n/);
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      if (current) parts.push(current.join('\r\n'));
+      return parts;
+    }
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\r\n'));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+
+  // Unterminated multipart: keep what we have
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+};
+
+const parsePart = (raw: string): MimePart => {
+  const { head, body } = splitHeaderBody(raw);
+  return { headers: parseHeaders(head), body };
+};
+
+/**
+ * Split a From header into a bare lower-case address and display name
+ */
+export const parseAddress = (header: string | undefined): { address: string | null; name: string | null } => {
+  if (!header) return { address: null, name: null };
+  const decoded = decodeEncodedWords(header);
+  const angle = /^(.*)<([^>]+)>/.exec(decoded);
+  if (angle) {
+    const name = angle[1].trim().replace(/^"|"$/g, '').trim();
+    return { address: angle[2].trim().toLowerCase(), name: name || null };
+  }
+  const bare = /[^\s<>"]+@[^\s<>"]+/.exec(decoded);
+  return { address: bare ? bare[0].toLowerCase() : null, name: null };
+};
+
+const collectAttachments = (part: MimePart, attachments: EmailAttachment[], depth: number) => {
+  if (depth > MAX_DEPTH) return;
+
+  const contentType = parseHeaderValue(part.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(part.headers.get('content-disposition') || '');
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+      collectAttachments(parsePart(child), attachments, depth + 1);
+    }
+    return;
+  }
+
+  if (contentType.value === 'message/rfc822') {
+    const inner = decodeBody(part.body, part.headers.get('content-transfer-encoding')).toString('latin1');
+    collectAttachments(parsePart(inner), attachments, depth + 1);
+    return;
+  }
+
+  const rawName = disposition.params.filename || contentType.params.name;
+  const isAttachment = disposition.value === 'attachment' || Boolean(rawName);
+  if (!isAttachment) return; // Message text
+
+  const contentId = part.headers.get('content-id')?.replace(/^<|>$/g, '');
+  attachments.push({
+    filename: decodeEncodedWords(rawName || 'attachment'),
+    contentType: contentType.value,
+    content: decodeBody(part.body, part.headers.get('content-transfer-encoding')),
+    inline: disposition.value === 'inline',
+    contentId: contentId || undefined,
+  });
+};
+
+/**
+ * Parse a raw RFC 822 message into its sender and attachments
+ */
+export const parseMimeMessage = (raw: Buffer | string): ParsedEmail => {
+  const text = typeof raw === 'string' ? raw : raw.toString('latin1');
+  const root = parsePart(text.replace(/^\uFEFF/, ''));
+  const from = parseAddress(root.headers.get('from'));
+  const attachments: EmailAttachment[] = [];
+
+  collectAttachments(root, attachments, 0);
+
+  const subject = root.headers.get('subject');
+  return {
+    from: from.address,
+    fromName: from.name,
+    subject: subject ? decodeEncodedWords(subject) : null,
+    messageId: root.headers.get('message-id')?.replace(/^<|>$/g, '') || null,
+    date: root.headers.get('date') || null,
+    attachments,
+  };
+};
@@ -27,7 +27,7 @@ export class PODService {
     uploadSource?: string;
     originalSender?: string;
     supplierId?: string;
-    uploadedBy: string;
+    uploadedBy?: string; // Absent for PODs ingested from email
   }) {
     // Note: - delivery_pods table exists in DB but not in generated types
     const { data: pod, error } = await (supabaseAdmin
@@ -224,7 +224,7 @@ export class PODService {
     if (error) throw error;
 
     return {
-      pods: data as DeliveryPOD[],
+      pods: data as unknown as DeliveryPOD[],
       total: count || 0,
       limit,
       offset
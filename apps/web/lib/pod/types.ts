@@ -106,6 +106,10 @@ export interface DeliveryPOD {
   validation_flags: string[];
   deleted_at: string | null;
   deleted_by: string | null;
+  suggested_job_id: string | null; // Best match below the auto-link threshold
+  job_match_score: number | null;
+  job_match_reasons: string[] | null;
+  job_matched_at: string | null;
 }
 
 export interface PODVersion {
@@ -230,6 +234,28 @@ export interface PODDetailResponse {
   supplier?: Supplier;
 }
 
+export interface JobMatchCandidate {
+  job_id: string;
+  reference: string | null;
+  title: string;
+  client_name: string | null;
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export interface JobMatchResult {
+  status: 'linked' | 'needs_review' | 'no_match';
+  best: JobMatchCandidate | null;
+  candidates: JobMatchCandidate[];
+}
+
+export interface ItemReconciliation {
+  product: string;
+  expected: number; // 0 for items the job never listed
+  delivered: number; // Across every POD linked to the job
+  status: 'ok' | 'short' | 'over' | 'unexpected';
+}
+
 export interface ParsedPODData {
   sales_order_ref?: string;
   delivery_date?: string;
@@ -0,0 +1,384 @@
+// Job profitability - what the quote priced against what the job took
+// The quoted side comes from the SmartQuote CalculationResults the job was won
+// on (smartquote_v3_quotes, or the v1 quotes row the job points at), falling
+// back to the products and labour summary copied onto the job when it was
+// created. The actual side is rostered shift hours (or close-out product hours
+// before any shifts), the job cost sheet's van days and waste loads, and its
+// margin at the org day rates (lib/jobCosts.ts).
+// Product variance compares hours per completed unit, so jobs part way through
+// still count; across the portfolio it becomes suggested install times for the
+// catalogue (catalogue_time_suggestions, migration 060).
+import type { CalculatedProduct, CalculationResults } from '../modules/smartquote/types';
+
+import { normalizeProductCode } from './catalogueImport';
+import type { JobCostTotals } from './jobCosts';
+
+export { normalizeProductCode };
+
+export type QuoteSource = 'smartquote_v3' | 'quote' | 'job';
+
+export type QuotedProduct = {
+  code: string;
+  description: string;
+  quantity: number;
+  hoursPerUnit: number;
+};
+
+export type QuotedFigures = {
+  source: QuoteSource;
+  reference: string | null;
+  price: number;
+  labourHours: number;
+  vanDays: number | null;
+  wasteLoads: number | null;
+  /** Cost to company the quote was priced on; unknown for older quotes */
+  directCost: number | null;
+  products: QuotedProduct[];
+};
+
+export type ActualFigures = {
+  shiftHours: number;
+  productHours: number;
+  vanDays: number;
+  wasteLoads: number;
+  /** The job cost sheet at day rates; null when nothing has been costed */
+  costs: JobCostTotals | null;
+};
+
+/** A product_progress row as the report reads it */
+export type ProgressRow = {
+  product_type: string;
+  product_name: string | null;
+  completed_units: number;
+  actual_hours_spent: number;
+};
+
+export type VarianceMetric = 'labour_hours' | 'van_days' | 'waste_loads' | 'margin';
+
+export type VarianceLine = {
+  metric: VarianceMetric;
+  label: string;
+  quoted: number | null;
+  actual: number | null;
+  /** actual - quoted */
+  variance: number | null;
+  variancePct: number | null;
+};
+
+export type ProductVariance = {
+  /** Normalised product code, as normalize_product_code() gives it */
+  key: string;
+  code: string;
+  description: string;
+  quotedQuantity: number;
+  quotedHoursPerUnit: number | null;
+  completedUnits: number;
+  actualHours: number;
+  actualHoursPerUnit: number | null;
+  /** Actual hours less the quoted hours for the units completed */
+  hoursVariance: number | null;
+  variancePct: number | null;
+  jobIds: string[];
+};
+
+export type JobSummary = {
+  id: string;
+  reference: string | null;
+  title: string | null;
+  client_name: string | null;
+  status: string | null;
+};
+
+export type JobProfitability = {
+  job: JobSummary;
+  quoted: QuotedFigures | null;
+  actual: ActualFigures;
+  lines: VarianceLine[];
+  products: ProductVariance[];
+};
+
+export type PortfolioProfitability = {
+  jobs: JobProfitability[];
+  totals: VarianceLine[];
+  products: ProductVariance[];
+};
+
+/** A catalogue entry with the codes it is known by */
+export type CatalogueTime = {
+  id: string;
+  code: string;
+  name: string;
+  install_time_hours: number;
+  locked: boolean;
+  aliases: string[];
+};
+
+export type InstallTimeSuggestion = {
+  product_id: string;
+  product_code: string;
+  product_name: string;
+  current_install_time_hours: number;
+  suggested_install_time_hours: number;
+  completed_units: number;
+  actual_hours: number;
+  job_count: number;
+  variance_pct: number;
+};
+
+/** A catalogue_time_suggestions row */
+export type InstallTimeSuggestionRow = InstallTimeSuggestion & {
+  id: string;
+  status: 'pending' | 'accepted' | 'rejected';
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+/** Fewest completed units across the portfolio before an install time is suggested */
+export const MIN_SUGGESTION_UNITS = 10;
+/** Smallest gap between actual and catalogue time worth suggesting, in percent */
+export const MIN_SUGGESTION_VARIANCE_PCT = 10;
+
+const LABELS: Record<VarianceMetric, string> = {
+  labour_hours: 'Labour hours',
+  van_days: 'Van days',
+  waste_loads: 'Waste loads',
+  margin: 'Margin (£)',
+};
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function products(items: Array<Partial<CalculatedProduct>> | null | undefined): QuotedProduct[] {
+  return (items ?? [])
+    .filter(item => item.productCode || item.description || item.cleanDescription)
+    .map(item => ({
+      code: item.productCode || item.cleanDescription || item.description || '',
+      description: item.description || item.cleanDescription || item.productCode || '',
+      quantity: Number(item.quantity || 0),
+      hoursPerUnit: Number(item.timePerUnit || 0),
+    }));
+}
+
+/**
+ * Quoted figures from saved CalculationResults. Labour is the estimate after
+ * uplift and before the duration buffer; vans are priced for every billable day.
+ */
+export function quotedFromResults(
+  source: Exclude<QuoteSource, 'job'>,
+  reference: string | null,
+  results: Partial<CalculationResults>,
+  items: Array<Partial<CalculatedProduct>> | null,
+  price?: number | null
+): QuotedFigures {
+  const labour = results.labour;
+  const billableDays = Number(results.pricing?.billableDays || results.crew?.totalProjectDays || 0);
+
+  return {
+    source,
+    reference,
+    price: Number(price ?? results.pricing?.totalCost ?? 0),
+    labourHours: Number(labour?.hoursAfterUplift ?? labour?.totalHours ?? 0),
+    vanDays: results.crew ? Number(results.crew.vanCount || 0) * billableDays : null,
+    wasteLoads: results.waste ? Number(results.waste.loadsRequired || 0) : null,
+    directCost: results.profitability ? Number(results.profitability.directCost) : null,
+    products: products(items ?? results.detailedProducts),
+  };
+}
+
+/** Quoted figures from what was copied onto the job when it was created from a quote. */
+export function quotedFromJob(job: {
+  reference: string | null;
+  quoted_amount: number | string | null;
+  products: Array<Partial<CalculatedProduct>> | null;
+  labour_summary: { total_hours?: number } | null;
+}): QuotedFigures | null {
+  const items = products(job.products);
+  if (items.length === 0 && !job.quoted_amount) return null;
+
+  return {
+    source: 'job',
+    reference: job.reference,
+    price: Number(job.quoted_amount || 0),
+    labourHours: Number(job.labour_summary?.total_hours
+      ?? items.reduce((sum, item) => sum + item.quantity * item.hoursPerUnit, 0)),
+    vanDays: null,
+    wasteLoads: null,
+    directCost: null,
+    products: items,
+  };
+}
+
+function line(metric: VarianceMetric, quoted: number | null, actual: number | null): VarianceLine {
+  const known = quoted !== null && actual !== null;
+  return {
+    metric,
+    label: LABELS[metric],
+    quoted: quoted === null ? null : round(quoted),
+    actual: actual === null ? null : round(actual),
+    variance: known ? round(actual! - quoted!) : null,
+    variancePct: known && quoted !== 0 ? round(((actual! - quoted!) / Math.abs(quoted!)) * 100, 1) : null,
+  };
+}
+
+/** Labour actually spent: rostered shifts once there are any, otherwise close-out product hours */
+export function actualLabourHours(actual: ActualFigures): number {
+  return actual.shiftHours > 0 ? actual.shiftHours : actual.productHours;
+}
+
+function varianceOf(product: Omit<ProductVariance, 'actualHoursPerUnit' | 'hoursVariance' | 'variancePct'>): ProductVariance {
+  const actualHoursPerUnit = product.completedUnits > 0 ? round(product.actualHours / product.completedUnits, 3) : null;
+  const quoted = product.quotedHoursPerUnit;
+  return {
+    ...product,
+    actualHoursPerUnit,
+    hoursVariance: quoted !== null && product.completedUnits > 0
+      ? round(product.actualHours - product.completedUnits * quoted)
+      : null,
+    variancePct: quoted && actualHoursPerUnit !== null ? round(((actualHoursPerUnit - quoted) / quoted) * 100, 1) : null,
+  };
+}
+
+/**
+ * Quoted and actual hours per product type, matched on normalised code. Work
+ * logged against products the quote didn't list is kept, with no quoted time.
+ */
+export function productVariances(jobId: string, quoted: QuotedProduct[], progress: ProgressRow[]): ProductVariance[] {
+  type Entry = Omit<ProductVariance, 'actualHoursPerUnit' | 'hoursVariance' | 'variancePct'> & { quotedHours: number };
+  const byKey = new Map<string, Entry>();
+  const entry = (code: string, description: string) => {
+    const key = normalizeProductCode(code);
+    if (!byKey.has(key)) {
+      byKey.set(key, {
+        key, code, description, quotedQuantity: 0, quotedHoursPerUnit: null, quotedHours: 0,
+        completedUnits: 0, actualHours: 0, jobIds: [jobId],
+      });
+    }
+    return byKey.get(key)!;
+  };
+
+  for (const item of quoted) {
+    const current = entry(item.code, item.description);
+    current.quotedQuantity += item.quantity;
+    current.quotedHours += item.quantity * item.hoursPerUnit;
+    current.quotedHoursPerUnit = current.quotedQuantity > 0 ? round(current.quotedHours / current.quotedQuantity, 3) : item.hoursPerUnit;
+  }
+  for (const row of progress) {
+    const current = entry(row.product_type, row.product_name || row.product_type);
+    current.completedUnits += Number(row.completed_units || 0);
+    current.actualHours += Number(row.actual_hours_spent || 0);
+  }
+
+  return Array.from(byKey.values())
+    .map(({ quotedHours: _quotedHours, ...product }) => varianceOf({ ...product, actualHours: round(product.actualHours) }))
+    .sort((a, b) => Math.abs(b.hoursVariance ?? 0) - Math.abs(a.hoursVariance ?? 0) || a.code.localeCompare(b.code));
+}
+
+export function jobProfitability(
+  job: JobSummary,
+  quoted: QuotedFigures | null,
+  actual: ActualFigures,
+  progress: ProgressRow[]
+): JobProfitability {
+  const quotedMargin = quoted && quoted.directCost !== null ? quoted.price - quoted.directCost : null;
+
+  return {
+    job,
+    quoted,
+    actual,
+    lines: [
+      line('labour_hours', quoted?.labourHours ?? null, actualLabourHours(actual)),
+      line('van_days', quoted?.vanDays ?? null, actual.vanDays),
+      line('waste_loads', quoted?.wasteLoads ?? null, actual.wasteLoads),
+      line('margin', quotedMargin, actual.costs?.margin ?? null),
+    ],
+    products: productVariances(job.id, quoted?.products ?? [], progress),
+  };
+}
+
+/** Totals across jobs (only jobs with both sides count towards a line) and per-product figures. */
+export function portfolioProfitability(jobs: JobProfitability[]): PortfolioProfitability {
+  const totals = (['labour_hours', 'van_days', 'waste_loads', 'margin'] as VarianceMetric[]).map(metric => {
+    const pairs = jobs
+      .map(job => job.lines.find(entry => entry.metric === metric)!)
+      .filter(entry => entry.quoted !== null && entry.actual !== null);
+    return pairs.length === 0
+      ? line(metric, null, null)
+      : line(metric, pairs.reduce((sum, entry) => sum + entry.quoted!, 0), pairs.reduce((sum, entry) => sum + entry.actual!, 0));
+  });
+
+  type Entry = Omit<ProductVariance, 'actualHoursPerUnit' | 'hoursVariance' | 'variancePct'> & { quotedHours: number };
+  const byKey = new Map<string, Entry>();
+  for (const product of jobs.flatMap(job => job.products)) {
+    const current = byKey.get(product.key);
+    const quotedHours = product.quotedHoursPerUnit !== null ? product.quotedQuantity * product.quotedHoursPerUnit : 0;
+    if (!current) {
+      byKey.set(product.key, { ...product, quotedHours, jobIds: [...product.jobIds] });
+      continue;
+    }
+    current.quotedQuantity += product.quotedQuantity;
+    current.quotedHours += quotedHours;
+    current.quotedHoursPerUnit = current.quotedQuantity > 0
+      ? round(current.quotedHours / current.quotedQuantity, 3)
+      : current.quotedHoursPerUnit ?? product.quotedHoursPerUnit;
+    current.completedUnits += product.completedUnits;
+    current.actualHours = round(current.actualHours + product.actualHours);
+    current.jobIds = Array.from(new Set([...current.jobIds, ...product.jobIds]));
+  }
+
+  return {
+    jobs,
+    totals,
+    products: Array.from(byKey.values())
+      .map(({ quotedHours: _quotedHours, ...product }) => varianceOf(product))
+      .sort((a, b) => Math.abs(b.hoursVariance ?? 0) - Math.abs(a.hoursVariance ?? 0) || a.code.localeCompare(b.code)),
+  };
+}
+
+/**
+ * Install times for catalogue products whose actual hours per unit across the
+ * portfolio differ enough from the catalogue, over enough completed units.
+ * Locked catalogue entries are left alone.
+ */
+export function installTimeSuggestions(products: ProductVariance[], catalogue: CatalogueTime[]): InstallTimeSuggestion[] {
+  const byCode = new Map<string, CatalogueTime>();
+  for (const item of catalogue) {
+    [item.code, ...item.aliases].forEach(code => {
+      const key = normalizeProductCode(code);
+      if (!byCode.has(key)) byCode.set(key, item);
+    });
+  }
+
+  // Products quoted under different aliases land on the same catalogue entry
+  const merged = new Map<string, { item: CatalogueTime; units: number; hours: number; jobs: Set<string> }>();
+  for (const product of products) {
+    const item = byCode.get(product.key);
+    if (!item || item.locked || product.completedUnits <= 0) continue;
+    const current = merged.get(item.id) ?? { item, units: 0, hours: 0, jobs: new Set<string>() };
+    current.units += product.completedUnits;
+    current.hours += product.actualHours;
+    product.jobIds.forEach(id => current.jobs.add(id));
+    merged.set(item.id, current);
+  }
+
+  return Array.from(merged.values()).flatMap(({ item, units, hours, jobs }) => {
+    if (units < MIN_SUGGESTION_UNITS || !(item.install_time_hours > 0)) return [];
+    const suggested = round(hours / units);
+    const variancePct = round(((suggested - item.install_time_hours) / item.install_time_hours) * 100, 1);
+    if (Math.abs(variancePct) < MIN_SUGGESTION_VARIANCE_PCT || suggested <= 0) return [];
+
+    return [{
+      product_id: item.id,
+      product_code: item.code,
+      product_name: item.name,
+      current_install_time_hours: item.install_time_hours,
+      suggested_install_time_hours: suggested,
+      completed_units: units,
+      actual_hours: round(hours),
+      job_count: jobs.size,
+      variance_pct: variancePct,
+    }];
+  }).sort((a, b) => Math.abs(b.variance_pct) - Math.abs(a.variance_pct));
+}
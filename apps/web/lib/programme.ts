@@ -0,0 +1,258 @@
+// Job programme - generated tasks laid over the job's labour allocations
+// Working days are the days labour_allocations gives the job, each worth the
+// allocated installers' crew hours. Tasks are taken in dependency order (or
+// install order where a task names no dependencies) and fill the crew hours
+// left from the earliest day they can start, so tasks running side by side
+// share the crew. The critical path is the chain of tasks each one waited on,
+// traced back from the last to finish.
+// Exports for main contractors live in lib/programmeExport.ts.
+import { dailyDemand, type AllocationRow } from './labourConflicts';
+import { addDays } from './utils/dates';
+
+/** A crew works an eight hour day */
+export const CREW_DAY_HOURS = 8;
+/** Tasks without an estimate are planned as an hour's work */
+const DEFAULT_TASK_MINUTES = 60;
+/** Crew hours per day assumed past the allocated days when nothing else is known */
+const DEFAULT_DAY_HOURS = 2 * CREW_DAY_HOURS;
+
+/** A generated_tasks row as the programme reads it */
+export type ProgrammeTaskRow = {
+  id: string;
+  title: string;
+  room_zone: string | null;
+  install_order: number | null;
+  estimated_time_minutes: number | null;
+  dependencies: string[] | null;
+  start_no_earlier_than: string | null;
+};
+
+export type ProgrammeDay = {
+  date: string;
+  hours: number;
+  /** False for days added past the allocation to fit the remaining work */
+  allocated: boolean;
+};
+
+/** Why a task starts when it does */
+export type TaskDriver =
+  | { kind: 'start' }
+  | { kind: 'predecessor'; taskId: string }
+  | { kind: 'crew'; taskId: string }
+  | { kind: 'constraint' };
+
+export type ScheduledTask = {
+  id: string;
+  title: string;
+  room_zone: string | null;
+  install_order: number;
+  workHours: number;
+  start: string;
+  finish: string;
+  /** Working days from start to finish inclusive */
+  workingDays: number;
+  predecessors: string[];
+  start_no_earlier_than: string | null;
+  driver: TaskDriver;
+  critical: boolean;
+  /** Runs into days with no labour allocated */
+  beyondAllocation: boolean;
+};
+
+export type Programme = {
+  tasks: ScheduledTask[];
+  days: ProgrammeDay[];
+  start: string | null;
+  finish: string | null;
+  warnings: string[];
+};
+
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+function nextWeekday(date: string): string {
+  let next = addDays(date, 1);
+  while (isWeekend(next)) next = addDays(next, 1);
+  return next;
+}
+
+/** Allocated days with installers on them, and the crew hours each is worth. */
+export function allocationCalendar(allocations: AllocationRow[]): ProgrammeDay[] {
+  return Object.entries(dailyDemand(allocations))
+    .filter(([, demand]) => demand.installers > 0)
+    .map(([date, demand]) => ({ date, hours: demand.installers * CREW_DAY_HOURS, allocated: true }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Predecessors for each task. Dependencies may name a task by id or by title
+ * (tasks generated from documents use titles); a task naming none follows the
+ * tasks with the nearest lower install order.
+ */
+export function resolvePredecessors(tasks: ProgrammeTaskRow[]): { predecessors: Record<string, string[]>; warnings: string[] } {
+  const byTitle = new Map<string, string>();
+  tasks.forEach(task => {
+    const key = task.title.trim().toLowerCase();
+    if (!byTitle.has(key)) byTitle.set(key, task.id);
+  });
+  const ids = new Set(tasks.map(task => task.id));
+  const warnings: string[] = [];
+  const predecessors: Record<string, string[]> = {};
+
+  for (const task of tasks) {
+    const explicit = (task.dependencies ?? []).flatMap(reference => {
+      const id = ids.has(reference) ? reference : byTitle.get(reference.trim().toLowerCase());
+      if (!id) {
+        warnings.push(`"${task.title}" depends on "${reference}", which is not a task on this job`);
+        return [];
+      }
+      return id === task.id ? [] : [id];
+    });
+
+    if (explicit.length > 0) {
+      predecessors[task.id] = Array.from(new Set(explicit));
+      continue;
+    }
+
+    const order = task.install_order ?? 0;
+    const earlier = tasks.filter(other => (other.install_order ?? 0) < order);
+    const previousOrder = Math.max(...earlier.map(other => other.install_order ?? 0));
+    predecessors[task.id] = earlier.filter(other => (other.install_order ?? 0) === previousOrder).map(other => other.id);
+  }
+
+  return { predecessors, warnings };
+}
+
+/**
+ * Lay tasks over the allocated days. `anchor` is where an unallocated job's
+ * programme starts (usually its start date). A task can start on the day its
+ * predecessors finish, in the crew hours they leave; programmeMsProjectXml
+ * exports those links so Project keeps the same day.
+ */
+export function scheduleProgramme(
+  rows: ProgrammeTaskRow[],
+  allocations: AllocationRow[],
+  anchor: string
+): Programme {
+  const days = allocationCalendar(allocations);
+  const remaining = days.map(day => day.hours);
+  // The last task to take crew hours from each day
+  const lastUser: Array<string | null> = days.map(() => null);
+  const extraHours = days.length > 0 ? days[days.length - 1].hours : DEFAULT_DAY_HOURS;
+
+  const addDay = () => {
+    const last = days[days.length - 1]?.date;
+    const date = last ? nextWeekday(last) : isWeekend(anchor) ? nextWeekday(anchor) : anchor;
+    days.push({ date, hours: extraHours, allocated: false });
+    remaining.push(extraHours);
+    lastUser.push(null);
+  };
+
+  const { predecessors, warnings } = resolvePredecessors(rows);
+  const priority = (task: ProgrammeTaskRow) => task.install_order ?? 0;
+  const pending = [...rows].sort((a, b) => priority(a) - priority(b) || a.title.localeCompare(b.title));
+  const scheduled = new Map<string, ScheduledTask & { startIndex: number; finishIndex: number }>();
+
+  while (pending.length > 0) {
+    let index = pending.findIndex(task => predecessors[task.id].every(id => scheduled.has(id)));
+    if (index === -1) {
+      // Every remaining task waits on another: break the loop at the first of them
+      index = 0;
+      const looped = pending[0];
+      warnings.push(`"${looped.title}" is part of a circular dependency; it has been scheduled without waiting for ${predecessors[looped.id]
+        .filter(id => !scheduled.has(id))
+        .map(id => `"${rows.find(row => row.id === id)?.title}"`)
+        .join(', ')}`);
+      predecessors[looped.id] = predecessors[looped.id].filter(id => scheduled.has(id));
+    }
+    const [task] = pending.splice(index, 1);
+
+    let earliest = 0;
+    let driver: TaskDriver = { kind: 'start' };
+    for (const id of predecessors[task.id]) {
+      const predecessor = scheduled.get(id)!;
+      if (driver.kind === 'start' || predecessor.finishIndex > earliest) {
+        earliest = predecessor.finishIndex;
+        driver = { kind: 'predecessor', taskId: id };
+      }
+    }
+
+    if (task.start_no_earlier_than) {
+      while (days.length === 0 || days[days.length - 1].date < task.start_no_earlier_than) addDay();
+      const constrained = days.findIndex(day => day.date >= task.start_no_earlier_than!);
+      if (constrained > earliest || (constrained === earliest && driver.kind === 'start')) {
+        earliest = constrained;
+        driver = { kind: 'constraint' };
+      }
+    }
+
+    let work = (task.estimated_time_minutes || DEFAULT_TASK_MINUTES) / 60;
+    const workHours = work;
+    let startIndex = -1;
+    let finishIndex = earliest;
+
+    for (let day = earliest; work > 1e-9; day++) {
+      if (day >= days.length) addDay();
+      const take = Math.min(remaining[day], work);
+      if (take <= 0) continue;
+      if (startIndex === -1) startIndex = day;
+      remaining[day] -= take;
+      work -= take;
+      lastUser[day] = task.id;
+      finishIndex = day;
+    }
+
+    // Waiting for the crew to come free rather than for the work before it
+    if (startIndex > earliest) {
+      const blocker = [...lastUser.slice(earliest, startIndex)].reverse().find((id): id is string => !!id);
+      if (blocker) driver = { kind: 'crew', taskId: blocker };
+    }
+
+    scheduled.set(task.id, {
+      id: task.id,
+      title: task.title,
+      room_zone: task.room_zone,
+      install_order: priority(task),
+      workHours,
+      start: days[startIndex].date,
+      finish: days[finishIndex].date,
+      workingDays: finishIndex - startIndex + 1,
+      predecessors: predecessors[task.id],
+      start_no_earlier_than: task.start_no_earlier_than,
+      driver,
+      critical: false,
+      beyondAllocation: days.slice(startIndex, finishIndex + 1).some(day => !day.allocated),
+      startIndex,
+      finishIndex,
+    });
+  }
+
+  const all = Array.from(scheduled.values());
+  const last = all.reduce<(typeof all)[number] | null>(
+    (latest, task) => (!latest || task.finishIndex >= latest.finishIndex ? task : latest),
+    null
+  );
+
+  // Walk back from the last task through whatever held each one up
+  for (let task = last; task; ) {
+    task.critical = true;
+    const driver: TaskDriver = task.driver;
+    task = driver.kind === 'predecessor' || driver.kind === 'crew' ? scheduled.get(driver.taskId) ?? null : null;
+  }
+
+  const tasks = all
+    .map(({ startIndex: _startIndex, finishIndex: _finishIndex, ...task }) => task)
+    .sort((a, b) => a.start.localeCompare(b.start) || a.install_order - b.install_order || a.title.localeCompare(b.title));
+
+  const used = days.filter((day, index) => day.allocated || index <= (last?.finishIndex ?? -1));
+
+  return {
+    tasks,
+    days: used,
+    start: tasks.length > 0 ? tasks.reduce((min, task) => (task.start < min ? task.start : min), tasks[0].start) : null,
+    finish: last?.finish ?? null,
+    warnings,
+  };
+}
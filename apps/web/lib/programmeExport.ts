@@ -0,0 +1,185 @@
+// Programme exports for main contractors: CSV and MS Project XML (MSPDI)
+// The XML carries the task links, a calendar whose working days are the
+// allocated days, and a start-no-earlier-than constraint wherever a task waits
+// for the crew or was moved by hand, so Project opens it on the same dates.
+// The scheduler starts a task in the crew hours left on its predecessor's last
+// day, where a finish-to-start link would push it to the next working day in
+// Project; those links go out as start-to-start, lagged to that last day.
+import { CREW_DAY_HOURS, type Programme, type ScheduledTask } from './programme';
+import { toCSV } from './utils/csv';
+import { addDays } from './utils/dates';
+
+const DAY_START = '08:00:00';
+const DAY_FINISH = '17:00:00';
+
+// MSPDI values
+const DURATION_FORMAT_DAYS = 7;
+const CONSTRAINT_ASAP = 0;
+const CONSTRAINT_START_NO_EARLIER_THAN = 4;
+const LINK_FINISH_TO_START = 1;
+const LINK_START_TO_START = 3;
+const LAG_FORMAT_DAYS = 7;
+// LinkLag is in tenths of a minute
+const LAG_UNITS_PER_DAY = CREW_DAY_HOURS * 60 * 10;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function hours(value: number): string {
+  const minutes = Math.round(value * 60);
+  return `PT${Math.floor(minutes / 60)}H${minutes % 60}M0S`;
+}
+
+/** Tasks in programme order with their 1-based row numbers, as both exports number them. */
+function numbered(programme: Programme): Map<string, number> {
+  return new Map(programme.tasks.map((task, index) => [task.id, index + 1]));
+}
+
+/** Held to its start by something other than the links: the crew, or a date set by hand */
+function isConstrained(task: ScheduledTask): boolean {
+  return task.driver.kind === 'crew' || task.driver.kind === 'constraint';
+}
+
+export function programmeCsv(programme: Programme): string {
+  const rows = numbered(programme);
+
+  return toCSV(
+    ['ID', 'Task', 'Zone', 'Start', 'Finish', 'Working Days', 'Work (hours)', 'Predecessors', 'Critical', 'Start No Earlier Than'],
+    programme.tasks.map(task => [
+      rows.get(task.id)!,
+      task.title,
+      task.room_zone,
+      task.start,
+      task.finish,
+      task.workingDays,
+      Math.round(task.workHours * 100) / 100,
+      task.predecessors.map(id => rows.get(id)).join(';'),
+      task.critical ? 'Yes' : 'No',
+      task.start_no_earlier_than,
+    ])
+  );
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function calendarXml(programme: Programme): string[] {
+  const workingTimes = [
+    '<WorkingTimes>',
+    `<WorkingTime><FromTime>${DAY_START}</FromTime><ToTime>12:00:00</ToTime></WorkingTime>`,
+    `<WorkingTime><FromTime>13:00:00</FromTime><ToTime>${DAY_FINISH}</ToTime></WorkingTime>`,
+    '</WorkingTimes>',
+  ];
+
+  // DayType 1-7 is Sunday to Saturday
+  const week = [1, 2, 3, 4, 5, 6, 7].flatMap(dayType => dayType === 1 || dayType === 7
+    ? ['<WeekDay>', `<DayType>${dayType}</DayType>`, '<DayWorking>0</DayWorking>', '</WeekDay>']
+    : ['<WeekDay>', `<DayType>${dayType}</DayType>`, '<DayWorking>1</DayWorking>', ...workingTimes, '</WeekDay>']);
+
+  // Exceptions (DayType 0) make the calendar match the allocated days: weekdays
+  // without labour are non-working, and weekends with labour are working
+  const exceptions: string[] = [];
+  if (programme.start && programme.finish) {
+    const working = new Set(programme.days.map(day => day.date));
+    for (let date = programme.start; date <= programme.finish; date = addDays(date, 1)) {
+      const weekend = weekdayOf(date) === 0 || weekdayOf(date) === 6;
+      if (weekend === working.has(date)) {
+        exceptions.push(
+          '<WeekDay>',
+          '<DayType>0</DayType>',
+          `<DayWorking>${weekend ? 1 : 0}</DayWorking>`,
+          `<TimePeriod><FromDate>${date}T00:00:00</FromDate><ToDate>${date}T23:59:00</ToDate></TimePeriod>`,
+          ...(weekend ? workingTimes : []),
+          '</WeekDay>'
+        );
+      }
+    }
+  }
+
+  return [
+    '<Calendars>',
+    '<Calendar>',
+    '<UID>1</UID>',
+    '<Name>Labour allocation</Name>',
+    '<IsBaseCalendar>1</IsBaseCalendar>',
+    '<WeekDays>',
+    ...week,
+    ...exceptions,
+    '</WeekDays>',
+    '</Calendar>',
+    '</Calendars>',
+  ];
+}
+
+/** Start-to-start, lagged to the predecessor's last day, when the task starts that day; otherwise finish-to-start */
+function linkXml(predecessor: ScheduledTask, task: ScheduledTask, uid: number): string {
+  const sameDay = task.start === predecessor.finish;
+  return [
+    '<PredecessorLink>',
+    `<PredecessorUID>${uid}</PredecessorUID>`,
+    `<Type>${sameDay ? LINK_START_TO_START : LINK_FINISH_TO_START}</Type>`,
+    ...(sameDay && predecessor.workingDays > 1
+      ? [`<LinkLag>${(predecessor.workingDays - 1) * LAG_UNITS_PER_DAY}</LinkLag>`, `<LagFormat>${LAG_FORMAT_DAYS}</LagFormat>`]
+      : []),
+    '</PredecessorLink>',
+  ].join('');
+}
+
+function taskXml(task: ScheduledTask, uid: number, rows: Map<string, number>, byId: Map<string, ScheduledTask>): string[] {
+  const constrained = isConstrained(task);
+  return [
+    '<Task>',
+    `<UID>${uid}</UID>`,
+    `<ID>${uid}</ID>`,
+    `<Name>${escapeXml(task.title)}</Name>`,
+    `<OutlineNumber>${uid}</OutlineNumber>`,
+    '<OutlineLevel>1</OutlineLevel>',
+    `<Start>${task.start}T${DAY_START}</Start>`,
+    `<Finish>${task.finish}T${DAY_FINISH}</Finish>`,
+    `<Duration>${hours(task.workingDays * CREW_DAY_HOURS)}</Duration>`,
+    `<DurationFormat>${DURATION_FORMAT_DAYS}</DurationFormat>`,
+    `<Work>${hours(task.workHours)}</Work>`,
+    `<Critical>${task.critical ? 1 : 0}</Critical>`,
+    `<ConstraintType>${constrained ? CONSTRAINT_START_NO_EARLIER_THAN : CONSTRAINT_ASAP}</ConstraintType>`,
+    ...(constrained ? [`<ConstraintDate>${task.start}T${DAY_START}</ConstraintDate>`] : []),
+    ...(task.room_zone ? [`<Notes>${escapeXml(`Zone: ${task.room_zone}`)}</Notes>`] : []),
+    ...task.predecessors.map(id => linkXml(byId.get(id)!, task, rows.get(id)!)),
+    '</Task>',
+  ];
+}
+
+/** Microsoft Project XML (MSPDI) for the programme. */
+export function programmeMsProjectXml(programme: Programme, name: string): string {
+  const rows = numbered(programme);
+  const byId = new Map(programme.tasks.map(task => [task.id, task]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Project xmlns="http://schemas.microsoft.com/project">',
+    '<SaveVersion>14</SaveVersion>',
+    `<Name>${escapeXml(name)}.xml</Name>`,
+    `<Title>${escapeXml(name)}</Title>`,
+    '<ScheduleFromStart>1</ScheduleFromStart>',
+    ...(programme.start ? [`<StartDate>${programme.start}T${DAY_START}</StartDate>`] : []),
+    ...(programme.finish ? [`<FinishDate>${programme.finish}T${DAY_FINISH}</FinishDate>`] : []),
+    '<CalendarUID>1</CalendarUID>',
+    `<DefaultStartTime>${DAY_START}</DefaultStartTime>`,
+    `<DefaultFinishTime>${DAY_FINISH}</DefaultFinishTime>`,
+    `<MinutesPerDay>${CREW_DAY_HOURS * 60}</MinutesPerDay>`,
+    `<MinutesPerWeek>${CREW_DAY_HOURS * 60 * 5}</MinutesPerWeek>`,
+    '<DaysPerMonth>20</DaysPerMonth>',
+    ...calendarXml(programme),
+    '<Tasks>',
+    ...programme.tasks.flatMap(task => taskXml(task, rows.get(task.id)!, rows, byId)),
+    '</Tasks>',
+    '</Project>',
+  ];
+
+  return lines.join('\n') + '\n';
+}
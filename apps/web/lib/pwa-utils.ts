@@ -5,6 +5,9 @@
 
 import React from 'react';
 
+import { offlineSyncQueue } from './offline-sync/queue';
+import type { QueuedSyncOperation, SyncOperationInput } from './offline-sync/types';
+
 interface PWAInstallPrompt extends Event {
   readonly platforms: string[];
   readonly userChoice: Promise<{
@@ -18,7 +21,6 @@ export class PWAManager {
   private static instance: PWAManager;
   private installPrompt: PWAInstallPrompt | null = null;
   private isOnline = navigator.onLine;
-  private syncQueue: Array<Record<string, unknown> & { id: string; timestamp: number }> = [];
   private eventListeners: Map<string, Array<(...args: unknown[]) => void>> = new Map();
 
   private constructor() {
@@ -38,6 +40,15 @@ export class PWAManager {
     // Register service worker
     this.registerServiceWorker();
 
+    // Load the persisted sync queue and relay its events
+    offlineSyncQueue.subscribe((event) => {
+      if (event.type === 'synced') this.emit('syncComplete', event.results);
+      if (event.type === 'error') this.emit('syncError', event.error);
+      if (event.type === 'conflict') this.emit('syncConflict', event.operations);
+      if (event.type === 'changed') this.emit('syncQueueChanged', offlineSyncQueue.getLength());
+    });
+    void offlineSyncQueue.start();
+
     // Listen for install prompt
     window.addEventListener('beforeinstallprompt', (e) => {
       e.preventDefault();
@@ -55,7 +66,7 @@ export class PWAManager {
     window.addEventListener('online', () => {
       this.isOnline = true;
       this.emit('online');
-      this.processSyncQueue();
+      void offlineSyncQueue.flush();
     });
 
     window.addEventListener('offline', () => {
@@ -154,48 +165,16 @@ export class PWAManager {
   }
 
   // Sync queue management
-  addToSyncQueue(operation: Record<string, unknown>) {
-    this.syncQueue.push({
-      id: Date.now().toString(),
-      timestamp: Date.now(),
-      ...operation
-    });
-    
-    // Try to sync immediately if online
-    if (this.isOnline) {
-      this.processSyncQueue();
-    }
+  addToSyncQueue(operation: SyncOperationInput): Promise<QueuedSyncOperation> {
+    return offlineSyncQueue.enqueue(operation);
   }
 
-  private async processSyncQueue() {
-    if (this.syncQueue.length === 0) return;
-
-    try {
-      const response = await fetch('/api/v2/sync/batch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          updates: this.syncQueue,
-          device_id: this.getDeviceId()
-        })
-      });
-
-      const result = await response.json();
-      
-      if (result.success) {
-        this.syncQueue = [];
-        this.emit('syncComplete', result);
-      } else {
-        this.emit('syncError', result);
-      }
-    } catch (error: unknown) {
-      console.error('[PWA] Sync failed:', error);
-      this.emit('syncError', error);
-    }
+  getSyncQueueLength(): number {
+    return offlineSyncQueue.getLength();
   }
 
-  getSyncQueueLength(): number {
-    return this.syncQueue.length;
+  getSyncConflicts(): QueuedSyncOperation[] {
+    return offlineSyncQueue.getConflicts();
   }
 
   // Cache management
@@ -238,16 +217,6 @@ export class PWAManager {
     }
   }
 
-  // Utility methods
-  private getDeviceId(): string {
-    let deviceId = localStorage.getItem('bhit-device-id');
-    if (!deviceId) {
-      deviceId = 'web-' + Math.random().toString(36).substr(2, 9);
-      localStorage.setItem('bhit-device-id', deviceId);
-    }
-    return deviceId;
-  }
-
   // Network detection
   async testConnection(): Promise<boolean> {
     try {
@@ -392,20 +361,20 @@ export function usePWA() {
       setIsInstalled(true);
       setInstallPrompt(null);
     };
-    const handleSyncComplete = () => setSyncQueueLength(0);
+    const handleSyncQueueChanged = (...args: unknown[]) => setSyncQueueLength(args[0] as number);
 
     pwa.on('online', handleOnline);
     pwa.on('offline', handleOffline);
     pwa.on('installAvailable', handleInstallAvailable);
     pwa.on('appInstalled', handleAppInstalled);
-    pwa.on('syncComplete', handleSyncComplete);
+    pwa.on('syncQueueChanged', handleSyncQueueChanged);
 
     return () => {
       pwa.off('online', handleOnline);
       pwa.off('offline', handleOffline);
       pwa.off('installAvailable', handleInstallAvailable);
       pwa.off('appInstalled', handleAppInstalled);
-      pwa.off('syncComplete', handleSyncComplete);
+      pwa.off('syncQueueChanged', handleSyncQueueChanged);
     };
   }, []);
 
@@ -414,10 +383,11 @@ export function usePWA() {
     return await pwa.showInstallPrompt();
   };
 
-  const addToSyncQueue = (operation: Record<string, unknown>) => {
+  const addToSyncQueue = async (operation: SyncOperationInput) => {
     const pwa = PWAManager.getInstance();
-    pwa.addToSyncQueue(operation);
+    const queued = await pwa.addToSyncQueue(operation);
     setSyncQueueLength(pwa.getSyncQueueLength());
+    return queued;
   };
 
   return {
@@ -0,0 +1,224 @@
+// RAMS Builder - risk assessment & method statement content for a job
+// Hazards come from the rams_hazards library (migration 053), picked by the job's
+// risk flags and by the categories of the products being installed. The crew and
+// programme are read from labour_allocations as LabourTab saves them.
+// Rendering and storage live in lib/server/ramsPdf.ts and /api/jobs/[id]/rams.
+
+export type RiskLevel = 'info' | 'warn' | 'critical';
+export type ResidualRating = 'low' | 'medium' | 'high';
+
+/** Applies to every job, whatever its flags */
+export const GENERAL_RISK_CODE = 'GENERAL';
+
+export interface RamsHazard {
+  id: string;
+  risk_code: string | null;
+  product_category: string | null;
+  hazard: string;
+  persons_at_risk: string;
+  controls: string[];
+  residual_rating: ResidualRating;
+  sort_order: number;
+}
+
+export interface RamsRiskFlag {
+  code: string;
+  label: string;
+  level: RiskLevel;
+}
+
+/** A labour_allocations row: van headcount is crews of two, foot is people */
+export interface LabourAllocationRow {
+  work_date: string;
+  role: 'installer' | 'supervisor';
+  crew_mode: 'van' | 'foot' | null;
+  headcount: number;
+}
+
+export interface RamsProgrammeDay {
+  date: string;
+  installers: number;
+  supervisors: number;
+}
+
+export interface RamsProgramme {
+  startDate: string | null;
+  endDate: string | null;
+  workingDays: number;
+  peakCrew: number;
+  days: RamsProgrammeDay[];
+}
+
+export interface RamsProduct {
+  name: string;
+  code: string | null;
+  quantity: number;
+  category: string | null;
+}
+
+export interface RamsJob {
+  id: string;
+  reference: string | null;
+  title: string;
+  client_name: string | null;
+}
+
+export interface RamsContent {
+  job: RamsJob;
+  version: number;
+  issuedAt: string;
+  riskFlags: RamsRiskFlag[];
+  products: RamsProduct[];
+  programme: RamsProgramme;
+  hazards: RamsHazard[];
+  methodStatement: string[];
+}
+
+const VAN_CREW_SIZE = 2;
+
+/**
+ * Daily crew and overall dates from a job's allocations
+ */
+export function summarizeProgramme(allocations: LabourAllocationRow[]): RamsProgramme {
+  const byDate = new Map<string, RamsProgrammeDay>();
+
+  for (const alloc of allocations) {
+    const date = alloc.work_date.slice(0, 10);
+    const day = byDate.get(date) ?? { date, installers: 0, supervisors: 0 };
+    const headcount = Math.max(0, alloc.headcount || 0);
+
+    if (alloc.role === 'supervisor') {
+      day.supervisors += headcount;
+    } else {
+      day.installers += alloc.crew_mode === 'van' ? headcount * VAN_CREW_SIZE : headcount;
+    }
+    byDate.set(date, day);
+  }
+
+  const days = [...byDate.values()]
+    .filter(day => day.installers + day.supervisors > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    startDate: days[0]?.date ?? null,
+    endDate: days[days.length - 1]?.date ?? null,
+    workingDays: days.length,
+    peakCrew: days.reduce((max, day) => Math.max(max, day.installers + day.supervisors), 0),
+    days,
+  };
+}
+
+// Checked in order, so "bench desk" is a desk and "meeting table" a table
+const CATEGORY_KEYWORDS: Array<[string, RegExp]> = [
+  ['desk', /\b(desk|bench|workstation)/i],
+  ['chair', /\b(chair|stool|seating)/i],
+  ['storage', /\b(pedestal|locker|cupboard|storage|bookcase|filing|tambour)/i],
+  ['power', /\b(power|socket|cable|data module|usb)/i],
+  ['lighting', /\b(light|lamp)/i],
+  ['table', /\btable/i],
+];
+
+/**
+ * Best guess at a catalogue category for a product the catalogue doesn't know
+ */
+export function inferProductCategory(name: string): string | null {
+  for (const [category, pattern] of CATEGORY_KEYWORDS) {
+    if (pattern.test(name)) return category;
+  }
+  return null;
+}
+
+/**
+ * Library entries that apply to a job: general hazards, those for its risk
+ * flags, then those for its product categories, each in sort_order
+ */
+export function selectHazards(
+  library: RamsHazard[],
+  riskCodes: string[],
+  productCategories: string[]
+): RamsHazard[] {
+  const codes = new Set([GENERAL_RISK_CODE, ...riskCodes]);
+  const categories = new Set(productCategories);
+  const group = (hazard: RamsHazard): number => {
+    if (hazard.risk_code === GENERAL_RISK_CODE) return 0;
+    return hazard.risk_code ? 1 : 2;
+  };
+
+  return library
+    .filter(hazard => hazard.risk_code
+      ? codes.has(hazard.risk_code)
+      : hazard.product_category !== null && categories.has(hazard.product_category))
+    .sort((a, b) => group(a) - group(b)
+      || (a.risk_code ?? a.product_category ?? '').localeCompare(b.risk_code ?? b.product_category ?? '')
+      || a.sort_order - b.sort_order);
+}
+
+const CATEGORY_STEPS: Record<string, string> = {
+  desk: 'Assemble desk frames on the floor, lift tops into place with two people and level.',
+  table: 'Position table frames, then fit tops with enough people for their size.',
+  storage: 'Position storage, fix tall units and fit anti-tilt devices before loading.',
+  chair: 'Unpack chairs, check mechanisms and distribute to positions.',
+  power: 'Fit desk power and cable management with supply off; check before handover.',
+  lighting: 'Fit lighting from podium steps; electrical connection by a qualified electrician.',
+};
+
+/**
+ * Sequence of work for the method statement, shaped by the job's flags and products
+ */
+export function buildMethodStatement(riskCodes: string[], productCategories: string[]): string[] {
+  const codes = new Set(riskCodes);
+  const steps = [
+    'Arrive on site, sign in and complete the client induction. Brief the crew on this RAMS.',
+  ];
+
+  if (codes.has('ASBESTOS')) {
+    steps.push('Check the asbestos register for the work area. Do not drill or fix into suspect materials.');
+  }
+  if (codes.has('LIVE_SITE')) {
+    steps.push('Agree the work area with the client contact; set up barriers and signage.');
+  }
+  steps.push('Offload deliveries to the agreed staging area using trolleys; keep routes clear.');
+  if (codes.has('POWER_ISOLATION')) {
+    steps.push('Electrician isolates and locks off the circuits before any connection work.');
+  }
+  if (codes.has('ELEVATION')) {
+    steps.push('Erect the mobile tower or podium steps and set an exclusion zone beneath.');
+  }
+
+  Object.entries(CATEGORY_STEPS)
+    .filter(([category]) => productCategories.includes(category))
+    .forEach(([, step]) => steps.push(step));
+
+  steps.push('Remove packaging to the waste point as work proceeds and tidy the area daily.');
+  steps.push('Walk the installation with the client contact, record any snags and hand over.');
+  return steps;
+}
+
+/**
+ * Everything the RAMS PDF shows; stored with the version it was issued as
+ */
+export function buildRamsContent(input: {
+  job: RamsJob;
+  version: number;
+  issuedAt: string;
+  riskFlags: RamsRiskFlag[];
+  products: RamsProduct[];
+  allocations: LabourAllocationRow[];
+  library: RamsHazard[];
+}): RamsContent {
+  const riskCodes = input.riskFlags.map(flag => flag.code);
+  const categories = [...new Set(
+    input.products.map(product => product.category).filter((category): category is string => !!category)
+  )];
+
+  return {
+    job: input.job,
+    version: input.version,
+    issuedAt: input.issuedAt,
+    riskFlags: input.riskFlags,
+    products: input.products,
+    programme: summarizeProgramme(input.allocations),
+    hazards: selectHazards(input.library, riskCodes, categories),
+    methodStatement: buildMethodStatement(riskCodes, categories),
+  };
+}
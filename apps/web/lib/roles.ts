@@ -15,4 +15,18 @@ export const canViewFinancials = (role?: string): boolean => {
 
 export const canViewEditHistory = (role?: string): boolean => {
   return role === "director" || role === "ops" || role === "admin";
-};
\ No newline at end of file
+};
+
+// Timesheets: supervisors submit the week, managers approve it
+export function canSubmitTimesheets(role?: string): boolean {
+  return role === "supervisor" || canApproveTimesheets(role) || canEdit(role);
+}
+
+export function canApproveTimesheets(role?: string): boolean {
+  return role === "director" || role === "general_manager" || role === "manager" || role === "admin";
+}
+
+// SmartQuote approvals: approve any chain step, or a quote with no chain
+export function canApproveQuotes(role?: string): boolean {
+  return role === "director" || role === "general_manager" || role === "admin";
+}
@@ -0,0 +1,180 @@
+// apps/web/lib/server/alertEngine.ts
+// Runs the construction alert rules: loads each job's progress, close-out logs
+// and labour bank, then opens, escalates and clears construction_alerts.
+// Called after a daily close-out for that job, and by the construction-alerts
+// cron for every live job.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import {
+  LEAD_INSTALLER_ROLE,
+  alertDueDate,
+  escalatedSeverity,
+  evaluateRules,
+  planAlerts,
+  type AlertRule,
+  type JobAlertFacts,
+  type LabourBankRow,
+  type LiveAlert,
+  type ProgressLogRow,
+} from '../alertRules';
+
+const DEFAULT_DAY_LENGTH_HOURS = 7;
+
+export type AlertRunSummary = { jobs: number; opened: number; escalated: number; resolved: number };
+
+type JobRow = JobAlertFacts['job'] & { lead_installer_id: string | null };
+
+function groupByJob<T extends { job_id: string }>(rows: T[]): Record<string, T[]> {
+  const byJob: Record<string, T[]> = {};
+  for (const row of rows) (byJob[row.job_id] ??= []).push(row);
+  return byJob;
+}
+
+/** First active user with each role, for assigning alerts by role. */
+async function usersByRole(client: SupabaseClient<Database>, roles: string[]): Promise<Record<string, string>> {
+  const wanted = roles.filter(role => role !== LEAD_INSTALLER_ROLE);
+  if (wanted.length === 0) return {};
+
+  const { data, error } = await client
+    .from('profiles')
+    .select('id, role')
+    .in('role', wanted)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  const byRole: Record<string, string> = {};
+  for (const profile of (data ?? []) as Array<{ id: string; role: string }>) {
+    byRole[profile.role] ??= profile.id;
+  }
+  return byRole;
+}
+
+/**
+ * Evaluate the active rules for the given jobs (every live job when omitted)
+ * and bring their rule alerts into line.
+ */
+export async function runConstructionAlertRules(
+  client: SupabaseClient<Database>,
+  now: Date,
+  jobIds?: string[]
+): Promise<AlertRunSummary> {
+  const { data: ruleRows, error: rulesError } = await client
+    .from('construction_alert_rules')
+    .select('*')
+    .eq('is_active', true);
+  if (rulesError) throw rulesError;
+  const rules = (ruleRows ?? []) as AlertRule[];
+
+  let jobsQuery = client
+    .from('jobs')
+    .select('id, reference, title, end_date, lead_installer_id')
+    .is('deleted_at', null);
+  jobsQuery = jobIds
+    ? jobsQuery.in('id', jobIds)
+    : jobsQuery.not('status', 'in', '(completed,cancelled)');
+  const { data: jobRows, error: jobsError } = await jobsQuery;
+  if (jobsError) throw jobsError;
+  const jobs = (jobRows ?? []) as JobRow[];
+  const ids = jobs.map(job => job.id);
+
+  // Live rule alerts in scope; in a full run that includes jobs since closed,
+  // whose alerts clear because nothing fires for them any more
+  let liveQuery = client
+    .from('construction_alerts')
+    .select('id, job_id, rule_code, dedupe_key, status, severity, created_at, escalated_at')
+    .not('dedupe_key', 'is', null)
+    .is('cleared_at', null);
+  if (jobIds) liveQuery = liveQuery.in('job_id', jobIds);
+
+  const [productsResult, progressResult, bankResult, presetsResult, liveResult] = await Promise.all([
+    client.from('product_progress').select('*').in('job_id', ids),
+    client.from('daily_progress_log')
+      .select('job_id, log_date, units_completed, hours_worked, workers_on_site, efficiency_percentage')
+      .in('job_id', ids),
+    client.from('job_labour_bank').select('job_id, role, crew_mode, days_allocated').in('job_id', ids),
+    client.from('job_time_presets').select('job_id, day_length_hours').in('job_id', ids),
+    liveQuery,
+  ]);
+  for (const result of [productsResult, progressResult, bankResult, presetsResult, liveResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const products = groupByJob((productsResult.data ?? []) as Array<JobAlertFacts['products'][number]>);
+  const progress = groupByJob((progressResult.data ?? []) as Array<ProgressLogRow & { job_id: string }>);
+  const bank = groupByJob((bankResult.data ?? []) as Array<LabourBankRow & { job_id: string }>);
+  const dayLength = new Map(
+    ((presetsResult.data ?? []) as Array<{ job_id: string; day_length_hours: number }>)
+      .map(preset => [preset.job_id, Number(preset.day_length_hours)])
+  );
+
+  const raised = jobs.flatMap(({ lead_installer_id: _lead, ...job }) => evaluateRules(rules, {
+    job,
+    products: products[job.id] ?? [],
+    progress: progress[job.id] ?? [],
+    labourBank: bank[job.id] ?? [],
+    dayLengthHours: dayLength.get(job.id) ?? DEFAULT_DAY_LENGTH_HOURS,
+  }, now));
+
+  const plan = planAlerts(raised, (liveResult.data ?? []) as LiveAlert[], rules, now);
+
+  const roles = rules.flatMap(rule => [rule.assignee_role, rule.escalate_role ?? rule.assignee_role]);
+  const assignees = await usersByRole(client, Array.from(new Set(roles)));
+  const leads = new Map(jobs.map(job => [job.id, job.lead_installer_id]));
+  const assignee = (role: string, jobId: string) =>
+    (role === LEAD_INSTALLER_ROLE ? leads.get(jobId) : assignees[role]) ?? null;
+
+  const today = now.toISOString().slice(0, 10);
+  const stamp = now.toISOString();
+  const byCode = new Map(rules.map(rule => [rule.code, rule]));
+
+  let opened = 0;
+  for (const alert of plan.open) {
+    const rule = byCode.get(alert.rule_code)!;
+    const { error } = await client.from('construction_alerts').insert({
+      ...alert,
+      assigned_to: assignee(rule.assignee_role, alert.job_id),
+      due_date: alertDueDate(rule, today),
+      status: 'open',
+      created_by: null,
+    });
+    // Another run opened the same alert first
+    if (error && error.code !== '23505') throw error;
+    if (!error) opened++;
+  }
+
+  for (const { alert, rule } of plan.escalate) {
+    const { error } = await client
+      .from('construction_alerts')
+      .update({
+        severity: escalatedSeverity(rule, alert.severity),
+        ...(rule.escalate_role ? { assigned_to: assignee(rule.escalate_role, alert.job_id) } : {}),
+        escalated_at: stamp,
+        updated_at: stamp,
+      })
+      .eq('id', alert.id);
+    if (error) throw error;
+  }
+
+  let resolved = 0;
+  for (const alert of plan.clear) {
+    const unattended = alert.status === 'open' || alert.status === 'in_progress';
+    const { error } = await client
+      .from('construction_alerts')
+      .update(unattended
+        ? {
+          status: 'resolved',
+          resolved_at: stamp,
+          resolution_notes: `Resolved automatically: ${byCode.get(alert.rule_code)?.name ?? alert.rule_code} no longer applies`,
+          cleared_at: stamp,
+          updated_at: stamp,
+        }
+        : { cleared_at: stamp, updated_at: stamp })
+      .eq('id', alert.id);
+    if (error) throw error;
+    if (unattended) resolved++;
+  }
+
+  return { jobs: jobs.length, opened, escalated: plan.escalate.length, resolved };
+}
@@ -0,0 +1,149 @@
+// apps/web/lib/server/calendarFeeds.ts
+// Builds the iCalendar document behind a feed token: one operative's shifts,
+// one job's allocated days, or every job's days for the whole company
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import {
+  allocationDayEvent,
+  feedWindow,
+  shiftEvent,
+  type AllocationDay,
+  type CalendarFeedScope,
+  type FeedContext,
+  type FeedJob,
+  type FeedShift,
+} from '../calendarFeeds';
+import { buildCalendar, type CalendarEvent } from '../icalendar';
+import type { AllocationRow, LabourResourceRow } from '../labourConflicts';
+
+export type FeedToken = {
+  id: string;
+  scope: CalendarFeedScope;
+  resource_id: string | null;
+  job_id: string | null;
+};
+
+const SHIFT_COLUMNS = 'id, resource_id, job_id, shift_date, start_time, end_time, shift_type, status, notes, updated_at';
+
+type JobRecord = {
+  id: string;
+  reference: string | null;
+  title: string | null;
+  client_name: string | null;
+  status: string | null;
+  location: string | null;
+  deleted_at: string | null;
+  updated_at: string;
+  sites: { address: string | null } | null;
+  users: { full_name: string | null } | null;
+};
+
+async function loadJobs(client: SupabaseClient<Database>, jobIds: string[] | null): Promise<Record<string, FeedJob>> {
+  if (jobIds && jobIds.length === 0) return {};
+
+  let query = client.from('jobs').select(`
+    id, reference, title, client_name, status, location, deleted_at, updated_at,
+    sites:site_id ( address ),
+    users:lead_installer_id ( full_name )
+  `);
+  if (jobIds) query = query.in('id', jobIds);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return Object.fromEntries(((data ?? []) as unknown as JobRecord[]).map(job => [job.id, {
+    id: job.id,
+    reference: job.reference,
+    title: job.title,
+    client_name: job.client_name,
+    // A deleted job's days are withdrawn from calendars just like a cancelled one's
+    status: job.deleted_at ? 'cancelled' : job.status,
+    address: job.sites?.address || job.location || null,
+    lead_installer_name: job.users?.full_name ?? null,
+    updated_at: job.updated_at,
+  }]));
+}
+
+/** The iCalendar document for a feed, covering the feed window around today. */
+export async function buildFeedCalendar(
+  client: SupabaseClient<Database>,
+  feed: FeedToken,
+  today: string,
+  siteUrl: string
+): Promise<string> {
+  const { from, to } = feedWindow(today);
+
+  let ownShifts: FeedShift[] = [];
+  let days: AllocationDay[] = [];
+  let resourceName = '';
+
+  if (feed.scope === 'resource') {
+    const [resourceResult, shiftsResult] = await Promise.all([
+      client.from('labour_resources').select('name').eq('id', feed.resource_id!).maybeSingle(),
+      client.from('labour_shifts').select(SHIFT_COLUMNS)
+        .eq('resource_id', feed.resource_id!).gte('shift_date', from).lte('shift_date', to).order('shift_date'),
+    ]);
+    if (shiftsResult.error) throw shiftsResult.error;
+    resourceName = (resourceResult.data as { name: string } | null)?.name ?? 'Operative';
+    ownShifts = (shiftsResult.data ?? []) as FeedShift[];
+  } else {
+    let query = client.from('labour_allocation_days').select('job_id, work_date, cancelled_at, updated_at')
+      .gte('work_date', from).lte('work_date', to).order('work_date');
+    if (feed.scope === 'job') query = query.eq('job_id', feed.job_id!);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    days = (data ?? []) as AllocationDay[];
+  }
+
+  // The company feed spans every job, so it filters by date alone
+  const jobIds = feed.scope === 'company'
+    ? null
+    : Array.from(new Set([
+      ...days.map(day => day.job_id),
+      ...ownShifts.map(shift => shift.job_id).filter((id): id is string => !!id),
+    ]));
+
+  let allocationsQuery = client.from('labour_allocations').select('job_id, work_date, role, crew_mode, headcount')
+    .gte('work_date', from).lte('work_date', to);
+  let shiftsQuery = client.from('labour_shifts').select(SHIFT_COLUMNS)
+    .gte('shift_date', from).lte('shift_date', to);
+  if (jobIds) {
+    allocationsQuery = allocationsQuery.in('job_id', jobIds);
+    shiftsQuery = shiftsQuery.in('job_id', jobIds);
+  }
+
+  const [jobs, allocationsResult, shiftsResult, resourcesResult] = await Promise.all([
+    loadJobs(client, jobIds),
+    jobIds?.length === 0 ? Promise.resolve({ data: [], error: null }) : allocationsQuery,
+    jobIds?.length === 0 ? Promise.resolve({ data: [], error: null }) : shiftsQuery,
+    client.from('labour_resources').select('id, name, role, resource_type, active'),
+  ]);
+
+  for (const result of [allocationsResult, shiftsResult, resourcesResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const context: FeedContext = {
+    jobs,
+    allocations: (allocationsResult.data ?? []) as AllocationRow[],
+    shifts: (shiftsResult.data ?? []) as FeedShift[],
+    resources: (resourcesResult.data ?? []) as LabourResourceRow[],
+    siteUrl,
+  };
+
+  const events: CalendarEvent[] = feed.scope === 'resource'
+    ? ownShifts.map(shift => shiftEvent(shift, context))
+    : days.map(day => allocationDayEvent(day, context)).filter((event): event is CalendarEvent => !!event);
+
+  let name = 'BHIT labour schedule';
+  if (feed.scope === 'resource') {
+    name = `${resourceName} - shifts`;
+  } else if (feed.scope === 'job') {
+    const job = jobs[feed.job_id!];
+    name = `${[job?.reference, job?.title].filter(Boolean).join(' ') || 'Job'} - labour`;
+  }
+
+  return buildCalendar({ name }, events);
+}
@@ -0,0 +1,179 @@
+// apps/web/lib/server/catalogueImport.ts
+// Loads the product catalogue for comparing with a manufacturer list, and
+// writes an import's new, changed and discontinued products and its aliases.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import {
+  dimensionsFormat,
+  summarizeDiff,
+  type CatalogueValues,
+  type ExistingProduct,
+  type ImportDiff,
+  type ImportOptions,
+  type ImportSummary,
+} from '../catalogueImport';
+
+const PAGE_SIZE = 1000;
+
+type NumericColumn = 'dimension_l' | 'dimension_w' | 'dimension_h' | 'dimension_d' | 'weight_kg'
+  | 'install_time_hours' | 'waste_volume_m3' | 'list_price';
+
+// NUMERIC columns come back as strings, and the view's flags and aliases may be null
+type CatalogueViewRow = Omit<ExistingProduct, NumericColumn | 'locked' | 'aliases'>
+  & Record<NumericColumn, number | string | null>
+  & { locked: boolean | null; aliases: string[] | null };
+
+/** Every catalogue product with its aliases; read in pages past the API's row limit. */
+export async function loadCatalogueProducts(client: SupabaseClient<Database>): Promise<ExistingProduct[]> {
+  const products: ExistingProduct[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('product_catalogue_view')
+      .select('id, canonical_code, canonical_name, category, description, manufacturer, dimensions_format, dimension_l, dimension_w, dimension_h, dimension_d, weight_kg, install_time_hours, waste_volume_m3, list_price, locked, discontinued_at, aliases')
+      .order('canonical_code')
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of (data ?? []) as CatalogueViewRow[]) {
+      const number = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+      products.push({
+        ...row,
+        dimension_l: number(row.dimension_l),
+        dimension_w: number(row.dimension_w),
+        dimension_h: number(row.dimension_h),
+        dimension_d: number(row.dimension_d),
+        weight_kg: number(row.weight_kg),
+        install_time_hours: number(row.install_time_hours),
+        waste_volume_m3: number(row.waste_volume_m3),
+        list_price: number(row.list_price),
+        locked: Boolean(row.locked),
+        aliases: row.aliases ?? [],
+      });
+    }
+    if ((data ?? []).length < PAGE_SIZE) return products;
+  }
+}
+
+export type ApplyImportInput = {
+  diff: ImportDiff;
+  manufacturer: string;
+  options: ImportOptions;
+  templateId: string | null;
+  fileName: string | null;
+  userId: string;
+};
+
+/**
+ * Write an import: new products as 'imported', changes to unlocked products,
+ * discontinued products, and aliases. The catalogue_imports row records how it
+ * went, including a failure part way through.
+ */
+export async function applyCatalogueImport(
+  client: SupabaseClient<Database>,
+  input: ApplyImportInput
+): Promise<{ importId: string; summary: ImportSummary }> {
+  const { diff, manufacturer, options, userId } = input;
+  const summary = summarizeDiff(diff);
+
+  const { data: record, error: recordError } = await client
+    .from('catalogue_imports')
+    .insert({
+      manufacturer,
+      template_id: input.templateId,
+      file_name: input.fileName,
+      status: 'running',
+      summary,
+      created_by: userId,
+    })
+    .select('id')
+    .single();
+  if (recordError) throw recordError;
+
+  const stamp = new Date().toISOString();
+
+  try {
+    const aliases: Array<{ product_id: string; alias_code: string; alias_type: string; created_by: string }> = [];
+    const aliasRows = (productId: string, codes: string[]) =>
+      codes.forEach(code => aliases.push({ product_id: productId, alias_code: code, alias_type: 'code', created_by: userId }));
+
+    if (diff.added.length > 0) {
+      const { data: inserted, error } = await client
+        .from('product_catalogue_items')
+        .insert(diff.added.map(({ product }) => {
+          const values: Partial<CatalogueValues> = product.values;
+          return {
+            ...values,
+            canonical_code: product.code,
+            canonical_name: values.canonical_name ?? product.code,
+            install_time_hours: values.install_time_hours ?? options.defaultInstallTimeHours,
+            dimensions_format: dimensionsFormat({
+              dimension_l: values.dimension_l ?? null,
+              dimension_w: values.dimension_w ?? null,
+              dimension_h: values.dimension_h ?? null,
+              dimension_d: values.dimension_d ?? null,
+            }),
+            source: 'imported',
+            created_by: userId,
+            updated_by: userId,
+          };
+        }))
+        .select('id, canonical_code');
+      if (error) throw error;
+
+      const ids = new Map(((inserted ?? []) as Array<{ id: string; canonical_code: string }>).map(row => [row.canonical_code, row.id]));
+      diff.added.forEach(({ product, aliases: codes }) => {
+        const id = ids.get(product.code);
+        if (id) aliasRows(id, codes);
+      });
+    }
+
+    for (const { existing, changes, aliases: codes } of diff.changed) {
+      const update: Record<string, string | number | null> = Object.fromEntries(changes.map(change => [change.field, change.to]));
+      if (changes.some(change => change.field.startsWith('dimension_'))) {
+        const merged = { ...existing, ...update } as CatalogueValues;
+        update.dimensions_format = dimensionsFormat(merged);
+      }
+
+      const { error } = await client
+        .from('product_catalogue_items')
+        .update({ ...update, updated_by: userId, updated_at: stamp })
+        .eq('id', existing.id)
+        .eq('locked', false);
+      if (error) throw error;
+      aliasRows(existing.id, codes);
+    }
+
+    diff.unchanged.forEach(({ existing, aliases: codes }) => aliasRows(existing.id, codes));
+
+    if (diff.discontinued.length > 0) {
+      const { error } = await client
+        .from('product_catalogue_items')
+        .update({ discontinued_at: stamp, updated_by: userId, updated_at: stamp })
+        .in('id', diff.discontinued.map(product => product.id))
+        .eq('locked', false);
+      if (error) throw error;
+    }
+
+    if (aliases.length > 0) {
+      // An alias someone added since the dry run stays with its product
+      const { error } = await client
+        .from('product_aliases')
+        .upsert(aliases, { onConflict: 'alias_code', ignoreDuplicates: true });
+      if (error) throw error;
+    }
+
+    await client
+      .from('catalogue_imports')
+      .update({ status: 'applied', completed_at: new Date().toISOString() })
+      .eq('id', record.id);
+
+    return { importId: record.id, summary };
+  } catch (error: unknown) {
+    await client
+      .from('catalogue_imports')
+      .update({ status: 'failed', error: (error as Error).message, completed_at: new Date().toISOString() })
+      .eq('id', record.id);
+    throw error;
+  }
+}
@@ -0,0 +1,155 @@
+// apps/web/lib/server/competencies.ts
+// Loads the competency register and each job's required tickets for the labour
+// conflict checks, and raises the task banner reminders for expiring cards
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import {
+  TICKET_LABELS,
+  expiringCompetencies,
+  jobTicketRequirements,
+  ticketExpiryTaskKey,
+  type Competency,
+  type JobTicketRow,
+  type TicketRequirement,
+  type TicketRule,
+} from '../competencies';
+
+import { getCategorizedJobProducts } from './jobProducts';
+
+const COMPETENCY_COLUMNS = 'id, resource_id, ticket_type, card_number, issued_on, expires_on, scan_path, notes';
+
+/** Every card on the register, by resource. */
+export async function loadCompetencies(client: SupabaseClient<Database>): Promise<Record<string, Competency[]>> {
+  const { data, error } = await client.from('resource_competencies').select(COMPETENCY_COLUMNS);
+  if (error) throw error;
+
+  const byResource: Record<string, Competency[]> = {};
+  for (const competency of (data ?? []) as Competency[]) {
+    (byResource[competency.resource_id] ??= []).push(competency);
+  }
+  return byResource;
+}
+
+/**
+ * Tickets each job needs from the active rules, its risk flags, its product
+ * categories and anything declared on the job
+ */
+export async function loadJobTicketRequirements(
+  client: SupabaseClient<Database>,
+  jobIds: string[]
+): Promise<Record<string, TicketRequirement[]>> {
+  const ids = Array.from(new Set(jobIds));
+  if (ids.length === 0) return {};
+
+  const [rulesResult, flagsResult, jobTicketsResult] = await Promise.all([
+    client.from('ticket_requirements').select('risk_code, product_category, accepted_tickets, enforcement')
+      .eq('is_active', true),
+    client.from('job_risk_flags').select('job_id, code').in('job_id', ids),
+    client.from('job_required_tickets').select('id, job_id, accepted_tickets, enforcement, note').in('job_id', ids),
+  ]);
+
+  for (const result of [rulesResult, flagsResult, jobTicketsResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const rules = (rulesResult.data ?? []) as TicketRule[];
+  const flags = (flagsResult.data ?? []) as Array<{ job_id: string; code: string | null }>;
+  const jobTickets = (jobTicketsResult.data ?? []) as Array<JobTicketRow & { job_id: string }>;
+
+  // Products are only worth fetching when a rule looks at them
+  const byCategory = rules.some(rule => rule.product_category);
+  const categories = await Promise.all(ids.map(async jobId => byCategory
+    ? (await getCategorizedJobProducts(client, jobId))
+      .map(product => product.category)
+      .filter((category): category is string => !!category)
+    : []));
+
+  return Object.fromEntries(ids.map((jobId, index) => [
+    jobId,
+    jobTicketRequirements(
+      rules,
+      flags.filter(flag => flag.job_id === jobId && flag.code).map(flag => flag.code!),
+      categories[index],
+      jobTickets.filter(row => row.job_id === jobId)
+    ),
+  ]));
+}
+
+/**
+ * One task banner item per card that expires within the warning window, keyed
+ * by card and expiry date. Existing reminders are retitled once the card has
+ * expired but keep their status; reminders for cards since renewed or removed
+ * are completed.
+ */
+export async function raiseTicketExpiryTasks(
+  client: SupabaseClient<Database>,
+  today: string
+): Promise<{ raised: number; cleared: number }> {
+  const { data, error } = await client
+    .from('resource_competencies')
+    .select(`${COMPETENCY_COLUMNS}, labour_resources!inner(name, active)`)
+    .not('expires_on', 'is', null)
+    .eq('labour_resources.active', true);
+  if (error) throw error;
+
+  type ExpiringRow = Competency & { labour_resources: { name: string } | { name: string }[] };
+  const expiring = expiringCompetencies((data ?? []) as ExpiringRow[], today);
+  const keys = expiring.map(ticketExpiryTaskKey);
+
+  const { data: known, error: knownError } = keys.length > 0
+    ? await client.from('task_banner_items').select('source_key').in('source_key', keys)
+    : { data: [], error: null };
+  if (knownError) throw knownError;
+  const existing = new Set((known ?? []).map((task: { source_key: string }) => task.source_key));
+
+  let raised = 0;
+  for (const competency of expiring) {
+    const owner = Array.isArray(competency.labour_resources)
+      ? competency.labour_resources[0]
+      : competency.labour_resources;
+    const label = TICKET_LABELS[competency.ticket_type] ?? competency.ticket_type;
+    const verb = competency.expires_on! < today ? 'EXPIRED' : 'EXPIRES';
+
+    const sourceKey = ticketExpiryTaskKey(competency);
+
+    // status is left to its 'pending' default so a dismissed reminder stays dismissed
+    const { error: taskError } = await client
+      .from('task_banner_items')
+      .upsert({
+        title: `${label} ${verb} ${competency.expires_on} - ${owner?.name ?? 'operative'}`.toUpperCase(),
+        type: 'admin',
+        frequency: 'once',
+        due_date: `${competency.expires_on}T09:00:00Z`,
+        navigation_route: '/labour-competencies',
+        assigned_to: 'all',
+        source_key: sourceKey,
+        created_by: null,
+      }, { onConflict: 'source_key' });
+
+    if (taskError) throw taskError;
+    if (!existing.has(sourceKey)) raised++;
+  }
+
+  // Anything still open for a card no longer expiring soon has been dealt with
+  const { data: open, error: openError } = await client
+    .from('task_banner_items')
+    .select('id, source_key')
+    .like('source_key', 'ticket-expiry:%')
+    .neq('status', 'completed');
+  if (openError) throw openError;
+
+  const stale = (open ?? [])
+    .filter((task: { source_key: string }) => !keys.includes(task.source_key))
+    .map((task: { id: string }) => task.id);
+
+  if (stale.length > 0) {
+    const { error: clearError } = await client
+      .from('task_banner_items')
+      .update({ status: 'completed', updated_at: new Date().toISOString() })
+      .in('id', stale);
+    if (clearError) throw clearError;
+  }
+
+  return { raised, cleared: stale.length };
+}
@@ -0,0 +1,75 @@
+// apps/web/lib/server/featureFlags.ts
+// Server-side feature flag checks for API routes, using the same engine as the browser
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { verifyAuth, type AuthenticatedUser } from '../apiAuth';
+import { evaluateFeatureFlags, getFallbackFlagValue, type FlagEvaluation } from '../featureFlagEngine';
+
+import { supabaseAdmin } from './supabaseAdmin';
+
+/**
+ * Evaluate flags for an API caller (or an anonymous request when user is null).
+ * The role rule reads profiles.role, as the browser does, rather than token metadata.
+ */
+export async function evaluateFlagsForUser(
+  user: AuthenticatedUser | null,
+  flagKeys: string[]
+): Promise<Record<string, FlagEvaluation>> {
+  try {
+    return await evaluateFeatureFlags(
+      supabaseAdmin,
+      flagKeys,
+      user ? { id: user.id, email: user.email } : null
+    );
+  } catch (error: unknown) {
+    console.error('Failed to evaluate feature flags:', error);
+    return Object.fromEntries(flagKeys.map(key => [key, { enabled: getFallbackFlagValue(key), variant: null, reason: 'fallback' as const }]));
+  }
+}
+
+export async function isFeatureEnabledForUser(user: AuthenticatedUser | null, flagKey: string): Promise<boolean> {
+  const results = await evaluateFlagsForUser(user, [flagKey]);
+  return results[flagKey].enabled;
+}
+
+export async function getFeatureVariantForUser(user: AuthenticatedUser | null, flagKey: string): Promise<string | null> {
+  const results = await evaluateFlagsForUser(user, [flagKey]);
+  return results[flagKey].variant;
+}
+
+/**
+ * Check a flag for whoever made the request; unauthenticated requests are
+ * evaluated anonymously rather than rejected
+ */
+export async function isFeatureEnabledForRequest(req: NextApiRequest, flagKey: string): Promise<boolean> {
+  return isFeatureEnabledForUser(await verifyAuth(req), flagKey);
+}
+
+/**
+ * Middleware to require a feature flag on an API route
+ * Usage: const user = await requireFeatureFlag(req, res, FEATURE_FLAGS.COST_OPTIMIZATION);
+ *
+ * Returns the authenticated user, or sends 401/404 and returns null. A disabled
+ * feature answers 404 so the route looks absent to users outside the rollout.
+ */
+export async function requireFeatureFlag(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  flagKey: string
+): Promise<AuthenticatedUser | null> {
+  const user = await verifyAuth(req);
+  if (!user) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Authentication required. Please provide a valid authorization token.',
+    });
+    return null;
+  }
+
+  if (!(await isFeatureEnabledForUser(user, flagKey))) {
+    res.status(404).json({ error: 'Not found' });
+    return null;
+  }
+
+  return user;
+}
@@ -0,0 +1,159 @@
+// apps/web/lib/server/jobProducts.ts
+// The product list for a job, shared by /api/jobs/[id]/products and POD reconciliation,
+// and the catalogue category of each product for RAMS and required tickets
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import { inferProductCategory, type RamsProduct } from '../rams';
+
+export type JobProduct = {
+  id: string;
+  name: string;
+  code: string | null;
+  quantity: number;
+  source: 'quote' | 'task_generation';
+  estimatedTime?: number;
+  totalTime?: number;
+  rawDescription?: string;
+  cleanDescription?: string;
+  description?: string;
+};
+
+// Only the columns read below, typed as JobProduct carries them
+type QuoteLineRow = {
+  id: string;
+  product_code: string | null;
+  product_description: string;
+  quantity: number;
+  time_per_unit?: number;
+  total_time?: number;
+  raw_description?: string;
+  clean_description?: string;
+};
+
+type GeneratedTaskRow = { title: string; description?: string; total_qty: number | null };
+
+export async function getJobProducts(
+  client: SupabaseClient<Database>,
+  jobId: string
+): Promise<{ quoteProducts: JobProduct[]; taskProducts: JobProduct[] }> {
+  // Get products from quote_lines for this job
+  const { data: quoteLines, error: quoteLinesError } = await client
+    .from('quote_lines')
+    .select(`
+      id,
+      line_number,
+      product_code,
+      product_description,
+      quantity,
+      time_per_unit,
+      total_time,
+      source,
+      raw_description,
+      clean_description,
+      quote_id,
+      quotes!inner(job_id)
+    `)
+    .eq('quotes.job_id', jobId)
+    .order('line_number');
+
+  if (quoteLinesError) {
+    console.error('Error fetching quote lines:', quoteLinesError);
+  }
+
+  // Get products from generated tasks (if any)
+  const { data: generatedTasks, error: tasksError } = await client
+    .from('generated_tasks')
+    .select('title, description, total_qty')
+    .eq('job_id', jobId)
+    .order('install_order');
+
+  if (tasksError) {
+    console.error('Error fetching generated tasks:', tasksError);
+  }
+
+  // Transform quote lines into product format
+  const quoteProducts: JobProduct[] = ((quoteLines || []) as QuoteLineRow[]).map(line => ({
+    id: line.id,
+    name: line.product_description,
+    code: line.product_code,
+    quantity: line.quantity,
+    source: 'quote',
+    estimatedTime: line.time_per_unit,
+    totalTime: line.total_time,
+    rawDescription: line.raw_description,
+    cleanDescription: line.clean_description
+  }));
+
+  // Transform generated tasks into product format (these are usually installation tasks, not physical products)
+  const taskProducts: JobProduct[] = ((generatedTasks || []) as GeneratedTaskRow[])
+    .filter((task): task is GeneratedTaskRow & { total_qty: number } => !!task.total_qty && task.total_qty > 0)
+    .map(task => {
+      // Clean up task title by removing "Install" prefix and similar action words, including quantities
+      let cleanName = task.title
+        .replace(/^Install\s+\d+x?\s*/i, '')  // "Install 13x " or "Install 13 "
+        .replace(/^Install\s+/i, '')          // "Install "
+        .replace(/^Set up\s+\d+x?\s*/i, '')   // "Set up 13x "
+        .replace(/^Set up\s+/i, '')           // "Set up "
+        .replace(/^Place\s+\d+x?\s*/i, '')    // "Place 13x "
+        .replace(/^Place\s+/i, '')            // "Place "
+        .replace(/^Position\s+\d+x?\s*/i, '') // "Position 13x "
+        .replace(/^Position\s+/i, '')         // "Position "
+        .replace(/^Mount\s+\d+x?\s*/i, '')    // "Mount 13x "
+        .replace(/^Mount\s+/i, '')            // "Mount "
+        .trim();
+
+      return {
+        id: `task-${task.title}`,
+        name: cleanName,
+        code: null,
+        quantity: task.total_qty,
+        source: 'task_generation',
+        description: task.description
+      };
+    });
+
+  return { quoteProducts, taskProducts };
+}
+
+/**
+ * Catalogue category for each product, by canonical code or alias, falling
+ * back to a guess from the product name
+ */
+export async function categorizeProducts(
+  client: SupabaseClient<Database>,
+  products: Array<{ name: string; code: string | null; quantity: number }>
+): Promise<RamsProduct[]> {
+  const codes = [...new Set(products.map(p => p.code).filter((code): code is string => !!code))];
+  const categoryByCode = new Map<string, string>();
+
+  if (codes.length > 0) {
+    const [{ data: items }, { data: aliases }] = await Promise.all([
+      client.from('product_catalogue_items').select('canonical_code, category').in('canonical_code', codes),
+      client.from('product_aliases').select('alias_code, product_catalogue_items(category)').in('alias_code', codes),
+    ]);
+
+    (items ?? []).forEach((item: { canonical_code: string; category: string | null }) => {
+      if (item.category) categoryByCode.set(item.canonical_code, item.category);
+    });
+    (aliases ?? []).forEach((alias: { alias_code: string; product_catalogue_items: unknown }) => {
+      const item = alias.product_catalogue_items as { category: string | null } | { category: string | null }[] | null;
+      const category = Array.isArray(item) ? item[0]?.category : item?.category;
+      if (category && !categoryByCode.has(alias.alias_code)) categoryByCode.set(alias.alias_code, category);
+    });
+  }
+
+  return products.map(product => ({
+    name: product.name,
+    code: product.code,
+    quantity: product.quantity,
+    category: (product.code && categoryByCode.get(product.code)) || inferProductCategory(product.name),
+  }));
+}
+
+/** A job's products with categories: quote lines, or generated tasks where there is no quote. */
+export async function getCategorizedJobProducts(client: SupabaseClient<Database>, jobId: string): Promise<RamsProduct[]> {
+  const { quoteProducts, taskProducts } = await getJobProducts(client, jobId);
+  // Quote lines are the priced scope; generated tasks only stand in without a quote
+  return categorizeProducts(client, quoteProducts.length > 0 ? quoteProducts : taskProducts);
+}
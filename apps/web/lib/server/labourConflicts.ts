@@ -0,0 +1,199 @@
+// apps/web/lib/server/labourConflicts.ts
+// Loads what the conflict rules in lib/labourConflicts need for a date range and
+// runs the checks for the shift and allocation APIs and the conflicts view,
+// including the ticket checks from lib/competencies
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import { findTicketConflicts, findTicketShortfalls } from '../competencies';
+import {
+  addDays,
+  dailyCapacity,
+  dailyDemand,
+  dateRange,
+  findAllShiftConflicts,
+  findCapacityConflicts,
+  findShiftConflicts,
+  suggestAllocationDates,
+  suggestResources,
+  suggestShiftDates,
+  type AllocationRow,
+  type AvailabilityRow,
+  type CapacityDay,
+  type ConflictSuggestions,
+  type DailyCapacity,
+  type LabourConflict,
+  type LabourResourceRow,
+  type ShiftSlot,
+} from '../labourConflicts';
+
+import { loadCompetencies, loadJobTicketRequirements } from './competencies';
+
+// How far either side of a write we look for alternative dates
+const SUGGESTION_WINDOW_DAYS = 14;
+
+type LabourContext = {
+  resources: LabourResourceRow[];
+  availability: AvailabilityRow[];
+  shifts: ShiftSlot[];
+  allocations: AllocationRow[];
+  capacity: Record<string, DailyCapacity>;
+};
+
+type VehicleRow = { type?: string | null; vehicle_type?: string | null; deleted_at?: string | null };
+
+async function loadLabourContext(
+  client: SupabaseClient<Database>,
+  startDate: string,
+  endDate: string
+): Promise<LabourContext> {
+  const [resources, availability, shifts, allocations, vehicles] = await Promise.all([
+    client.from('labour_resources').select('id, name, resource_type, role, active').eq('active', true),
+    client.from('labour_availability').select('resource_id, date, availability_type')
+      .gte('date', startDate).lte('date', endDate),
+    // A day either side, for night shifts running into or out of the range
+    client.from('labour_shifts').select('id, resource_id, job_id, shift_date, start_time, end_time, status')
+      .gte('shift_date', addDays(startDate, -1)).lte('shift_date', addDays(endDate, 1)),
+    client.from('labour_allocations').select('job_id, work_date, role, crew_mode, headcount')
+      .gte('work_date', startDate).lte('work_date', endDate),
+    // Older databases call the column `type`, newer ones `vehicle_type`
+    client.from('vehicles').select('*'),
+  ]);
+
+  for (const result of [resources, availability, shifts, allocations]) {
+    if (result.error) throw result.error;
+  }
+
+  const vanCount = ((vehicles.data ?? []) as VehicleRow[])
+    .filter(vehicle => !vehicle.deleted_at && (vehicle.vehicle_type ?? vehicle.type ?? 'van') === 'van')
+    .length;
+
+  const resourceRows = (resources.data ?? []) as LabourResourceRow[];
+  const availabilityRows = (availability.data ?? []) as AvailabilityRow[];
+
+  return {
+    resources: resourceRows,
+    availability: availabilityRows,
+    shifts: (shifts.data ?? []) as ShiftSlot[],
+    allocations: (allocations.data ?? []) as AllocationRow[],
+    capacity: dailyCapacity(dateRange(startDate, endDate), resourceRows, availabilityRows, vanCount),
+  };
+}
+
+export type ConflictCheck = {
+  conflicts: LabourConflict[];
+  suggestions: ConflictSuggestions;
+};
+
+/**
+ * Conflicts for a shift about to be created or edited, with other people and
+ * days that would work. Suggested people hold the tickets the job needs.
+ */
+export async function checkShift(client: SupabaseClient<Database>, candidate: ShiftSlot): Promise<ConflictCheck> {
+  const [context, requirements, competencies] = await Promise.all([
+    loadLabourContext(client, candidate.shift_date, addDays(candidate.shift_date, SUGGESTION_WINDOW_DAYS)),
+    loadJobTicketRequirements(client, candidate.job_id ? [candidate.job_id] : []),
+    loadCompetencies(client),
+  ]);
+  const bookingConflicts = findShiftConflicts(candidate, context.shifts, context.resources, context.availability);
+  const ticketConflicts = findTicketConflicts([candidate], context.resources, competencies, requirements);
+  const conflicts = [...bookingConflicts, ...ticketConflicts];
+
+  if (conflicts.length === 0) {
+    return { conflicts, suggestions: { resources: [], dates: [] } };
+  }
+
+  const ticketed = context.resources.filter(resource => resource.id === candidate.resource_id
+    || findTicketConflicts([{ ...candidate, resource_id: resource.id }], context.resources, competencies,
+      requirements).length === 0);
+
+  return {
+    conflicts,
+    suggestions: {
+      resources: suggestResources(candidate, context.shifts, ticketed, context.availability),
+      // Another day won't get someone a ticket
+      dates: bookingConflicts.length > 0
+        ? suggestShiftDates(candidate, context.shifts, context.resources, context.availability, SUGGESTION_WINDOW_DAYS)
+        : [],
+    },
+  };
+}
+
+/**
+ * Conflicts if a job's allocations were replaced with `rows`, including days
+ * short of people holding the job's tickets. Suggested dates are for the first
+ * over-capacity day this job contributes to.
+ */
+export async function checkJobAllocations(
+  client: SupabaseClient<Database>,
+  jobId: string,
+  rows: AllocationRow[]
+): Promise<ConflictCheck> {
+  const dates = rows.map(row => row.work_date).sort();
+  if (dates.length === 0) {
+    return { conflicts: [], suggestions: { resources: [], dates: [] } };
+  }
+
+  const [context, requirements, competencies] = await Promise.all([
+    loadLabourContext(
+      client,
+      addDays(dates[0], -SUGGESTION_WINDOW_DAYS),
+      addDays(dates[dates.length - 1], SUGGESTION_WINDOW_DAYS)
+    ),
+    loadJobTicketRequirements(client, [jobId]),
+    loadCompetencies(client),
+  ]);
+  const others = context.allocations.filter(row => row.job_id !== jobId);
+  const capacityConflicts = findCapacityConflicts([...others, ...rows], context.capacity)
+    .filter(conflict => conflict.job_ids.includes(jobId));
+  const conflicts = [
+    ...capacityConflicts,
+    ...findTicketShortfalls(jobId, rows, requirements[jobId] ?? [], context.resources, competencies,
+      context.availability),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  const first = capacityConflicts[0];
+  const suggestedDates = first
+    ? suggestAllocationDates(rows.filter(row => row.work_date === first.date), others, context.capacity)
+      .filter(date => !dates.includes(date))
+    : [];
+
+  return { conflicts, suggestions: { resources: [], dates: suggestedDates } };
+}
+
+/** Every clash over a date range, plus each day's capacity and demand for the calendars. */
+export async function listConflicts(
+  client: SupabaseClient<Database>,
+  startDate: string,
+  endDate: string
+): Promise<{ conflicts: LabourConflict[]; days: CapacityDay[] }> {
+  const context = await loadLabourContext(client, startDate, endDate);
+  const demand = dailyDemand(context.allocations);
+
+  const jobIds = [
+    ...context.shifts.map(shift => shift.job_id),
+    ...context.allocations.map(row => row.job_id),
+  ].filter((jobId): jobId is string => !!jobId);
+  const [requirements, competencies] = await Promise.all([
+    loadJobTicketRequirements(client, jobIds),
+    loadCompetencies(client),
+  ]);
+
+  const conflicts = [
+    ...findAllShiftConflicts(context.shifts, context.resources, context.availability),
+    ...findCapacityConflicts(context.allocations, context.capacity),
+    ...findTicketConflicts(context.shifts, context.resources, competencies, requirements),
+    ...Object.keys(requirements).flatMap(jobId => findTicketShortfalls(jobId, context.allocations,
+      requirements[jobId], context.resources, competencies, context.availability)),
+  ]
+    .filter(conflict => conflict.date >= startDate && conflict.date <= endDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const days = dateRange(startDate, endDate).map(date => ({
+    date,
+    capacity: context.capacity[date],
+    demand: demand[date] ?? { installers: 0, supervisors: 0, vans: 0 },
+  }));
+
+  return { conflicts, days };
+}
@@ -0,0 +1,283 @@
+// apps/web/lib/server/profitability.ts
+// Loads the quoted and actual figures for jobs and builds the profitability
+// report, and keeps catalogue_time_suggestions in step with what the jobs took.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import { dayRates, jobCostTotals, type JobCostRow } from '../jobCosts';
+import {
+  installTimeSuggestions,
+  jobProfitability,
+  portfolioProfitability,
+  quotedFromJob,
+  quotedFromResults,
+  type ActualFigures,
+  type CatalogueTime,
+  type InstallTimeSuggestion,
+  type InstallTimeSuggestionRow,
+  type JobSummary,
+  type PortfolioProfitability,
+  type ProgressRow,
+  type QuotedFigures,
+} from '../profitability';
+import { shiftPaidHours } from '../timesheets';
+import type { DayRates } from '../types';
+
+/** Jobs with work on site to compare against the quote */
+const REPORTED_STATUSES = ['in_progress', 'snagging', 'completed'] as const;
+
+type JobRow = JobSummary & {
+  quote_id?: string | null;
+  quoted_amount: number | string | null;
+  products: Parameters<typeof quotedFromJob>[0]['products'];
+  labour_summary: Parameters<typeof quotedFromJob>[0]['labour_summary'];
+};
+
+type QuoteResults = Parameters<typeof quotedFromResults>[2];
+type QuoteItems = Parameters<typeof quotedFromResults>[3];
+
+type V3QuoteRow = {
+  converted_to_job_id: string;
+  quote_ref: string | null;
+  results: QuoteResults | null;
+  products: QuoteItems;
+  total_amount: number | null;
+  is_latest_revision: boolean | null;
+};
+type V1QuoteRow = { id: string; reference: string | null; calculation_results: QuoteResults | null };
+type CatalogueItemRow = {
+  id: string;
+  canonical_code: string;
+  canonical_name: string;
+  install_time_hours: number | string;
+  locked: boolean | null;
+};
+
+type ShiftRow = { job_id: string; start_time: string; end_time: string; break_duration: number | null; status: string | null };
+type AllocationRow = { job_id: string; role: string; crew_mode: string | null; headcount: number };
+
+function groupByJob<T extends { job_id: string }>(rows: T[]): Record<string, T[]> {
+  const byJob: Record<string, T[]> = {};
+  for (const row of rows) (byJob[row.job_id] ??= []).push(row);
+  return byJob;
+}
+
+/** The figures each job was quoted on: its SmartQuote v3 quote, the v1 quote it came from, or the job itself. */
+async function quotedFigures(client: SupabaseClient<Database>, jobs: JobRow[]): Promise<Map<string, QuotedFigures | null>> {
+  const ids = jobs.map(job => job.id);
+  const quoteIds = jobs.map(job => job.quote_id).filter((id): id is string => Boolean(id));
+
+  const [v3Result, v1Result] = await Promise.all([
+    client.from('smartquote_v3_quotes')
+      .select('converted_to_job_id, quote_ref, results, products, total_amount, is_latest_revision')
+      .in('converted_to_job_id', ids),
+    quoteIds.length > 0
+      ? client.from('quotes').select('id, reference, calculation_results').in('id', quoteIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (v3Result.error) throw v3Result.error;
+  if (v1Result.error) throw v1Result.error;
+
+  // Prefer the latest revision where a job was converted from more than one
+  const v3 = new Map<string, V3QuoteRow>();
+  for (const quote of (v3Result.data ?? []) as V3QuoteRow[]) {
+    const current = v3.get(quote.converted_to_job_id);
+    if (!current || (quote.is_latest_revision && !current.is_latest_revision)) v3.set(quote.converted_to_job_id, quote);
+  }
+  const v1 = new Map(((v1Result.data ?? []) as V1QuoteRow[]).map(quote => [quote.id, quote]));
+
+  const figures = new Map<string, QuotedFigures | null>();
+  for (const job of jobs) {
+    const quote = v3.get(job.id);
+    const original = job.quote_id ? v1.get(job.quote_id) : undefined;
+    if (quote?.results) {
+      figures.set(job.id, quotedFromResults('smartquote_v3', quote.quote_ref, quote.results, quote.products, quote.total_amount));
+    } else if (original?.calculation_results) {
+      figures.set(job.id, quotedFromResults('quote', original.reference, original.calculation_results, null));
+    } else {
+      figures.set(job.id, quotedFromJob(job));
+    }
+  }
+  return figures;
+}
+
+/**
+ * Profitability for the given jobs, or every job with work on site when
+ * omitted. Actual labour only counts shifts up to and including today.
+ */
+export async function loadProfitability(
+  client: SupabaseClient<Database>,
+  today: string,
+  jobIds?: string[]
+): Promise<PortfolioProfitability> {
+  let jobsQuery = client.from('jobs').select('*').is('deleted_at', null);
+  jobsQuery = jobIds ? jobsQuery.in('id', jobIds) : jobsQuery.in('status', REPORTED_STATUSES);
+  const { data: jobRows, error: jobsError } = await jobsQuery.order('reference');
+  if (jobsError) throw jobsError;
+
+  // products, labour_summary and quote_id are not in the generated jobs type
+  const jobs = (jobRows ?? []) as unknown as JobRow[];
+  if (jobs.length === 0) return portfolioProfitability([]);
+  const ids = jobs.map(job => job.id);
+
+  const [quoted, shiftsResult, progressResult, costsResult, allocationsResult, settingsResult] = await Promise.all([
+    quotedFigures(client, jobs),
+    client.from('labour_shifts')
+      .select('job_id, start_time, end_time, break_duration, status')
+      .in('job_id', ids)
+      .lte('shift_date', today),
+    client.from('product_progress')
+      .select('job_id, product_type, product_name, completed_units, actual_hours_spent')
+      .in('job_id', ids),
+    client.from('job_costs').select('*').in('job_id', ids),
+    client.from('labour_allocations').select('job_id, role, crew_mode, headcount').in('job_id', ids),
+    client.from('org_settings').select('day_rates').eq('id', 1).maybeSingle(),
+  ]);
+  for (const result of [shiftsResult, progressResult, costsResult, allocationsResult, settingsResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const shifts = groupByJob((shiftsResult.data ?? []) as ShiftRow[]);
+  const progress = groupByJob((progressResult.data ?? []) as Array<ProgressRow & { job_id: string }>);
+  const allocations = groupByJob((allocationsResult.data ?? []) as AllocationRow[]);
+  const costs = new Map(((costsResult.data ?? []) as JobCostRow[]).map(row => [row.job_id, row]));
+  const rates = dayRates((settingsResult.data as { day_rates: Parameters<typeof dayRates>[0] } | null)?.day_rates);
+
+  const report = jobs.map(job => {
+    const quote = quoted.get(job.id) ?? null;
+    const cost = costs.get(job.id);
+    const jobProgress = progress[job.id] ?? [];
+    const vanDays = (allocations[job.id] ?? [])
+      .filter(row => row.role === 'installer' && row.crew_mode === 'van')
+      .reduce((sum, row) => sum + Number(row.headcount || 0), 0);
+
+    const actual: ActualFigures = {
+      shiftHours: (shifts[job.id] ?? [])
+        .filter(shift => shift.status !== 'cancelled' && shift.status !== 'no_show')
+        .reduce((sum, shift) => sum + shiftPaidHours(shift), 0),
+      productHours: jobProgress.reduce((sum, row) => sum + Number(row.actual_hours_spent || 0), 0),
+      // The cost sheet's vehicle days once entered, otherwise the vans allocated
+      vanDays: Number(cost?.vehicle_days || 0) || vanDays,
+      wasteLoads: Number(cost?.waste_loads || 0),
+      costs: cost
+        ? jobCostTotals({ ...cost, quoted_total: Number(cost.quoted_total || 0) || (quote?.price ?? 0) }, rates)
+        : null,
+    };
+
+    const summary: JobSummary = {
+      id: job.id,
+      reference: job.reference ?? null,
+      title: job.title ?? null,
+      client_name: job.client_name ?? null,
+      status: job.status ?? null,
+    };
+    return jobProfitability(summary, quote, actual, jobProgress);
+  });
+
+  return portfolioProfitability(report);
+}
+
+/** Catalogue items with their alias codes, for matching product variance. */
+async function loadCatalogue(client: SupabaseClient<Database>): Promise<CatalogueTime[]> {
+  const [itemsResult, aliasesResult] = await Promise.all([
+    client.from('product_catalogue_items').select('id, canonical_code, canonical_name, install_time_hours, locked'),
+    client.from('product_aliases').select('product_id, alias_code'),
+  ]);
+  if (itemsResult.error) throw itemsResult.error;
+  if (aliasesResult.error) throw aliasesResult.error;
+
+  const aliases = new Map<string, string[]>();
+  for (const alias of (aliasesResult.data ?? []) as Array<{ product_id: string; alias_code: string }>) {
+    (aliases.get(alias.product_id) ?? aliases.set(alias.product_id, []).get(alias.product_id)!).push(alias.alias_code);
+  }
+
+  return ((itemsResult.data ?? []) as CatalogueItemRow[]).map(item => ({
+    id: item.id,
+    code: item.canonical_code,
+    name: item.canonical_name,
+    install_time_hours: Number(item.install_time_hours),
+    locked: Boolean(item.locked),
+    aliases: aliases.get(item.id) ?? [],
+  }));
+}
+
+/**
+ * Recompute install time suggestions from every job with work on site. Pending
+ * suggestions are replaced; ones that no longer hold are withdrawn.
+ */
+export async function refreshInstallTimeSuggestions(
+  client: SupabaseClient<Database>,
+  today: string
+): Promise<InstallTimeSuggestion[]> {
+  const [report, catalogue] = await Promise.all([loadProfitability(client, today), loadCatalogue(client)]);
+  const suggestions = installTimeSuggestions(report.products, catalogue);
+
+  const { error: deleteError } = await client
+    .from('catalogue_time_suggestions')
+    .delete()
+    .eq('status', 'pending');
+  if (deleteError) throw deleteError;
+
+  if (suggestions.length > 0) {
+    const { error } = await client
+      .from('catalogue_time_suggestions')
+      .insert(suggestions.map(suggestion => ({ ...suggestion, status: 'pending' as const })));
+    if (error) throw error;
+  }
+  return suggestions;
+}
+
+export type SuggestionReview =
+  | { ok: true; suggestion: InstallTimeSuggestionRow }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Accept or reject a pending suggestion. Accepting writes the suggested time to
+ * the catalogue as a learned time, unless the product has since been locked.
+ */
+export async function reviewInstallTimeSuggestion(
+  client: SupabaseClient<Database>,
+  id: string,
+  decision: 'accepted' | 'rejected',
+  userId: string
+): Promise<SuggestionReview> {
+  const { data, error } = await client
+    .from('catalogue_time_suggestions')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+
+  const suggestion = data as InstallTimeSuggestionRow | null;
+  if (!suggestion) return { ok: false, status: 404, error: 'Suggestion not found' };
+  if (suggestion.status !== 'pending') return { ok: false, status: 409, error: `Suggestion already ${suggestion.status}` };
+
+  const stamp = new Date().toISOString();
+
+  if (decision === 'accepted') {
+    const { data: updated, error: updateError } = await client
+      .from('product_catalogue_items')
+      .update({
+        install_time_hours: suggestion.suggested_install_time_hours,
+        source: 'learned',
+        updated_by: userId,
+        updated_at: stamp,
+      })
+      .eq('id', suggestion.product_id)
+      .eq('locked', false)
+      .select('id')
+      .maybeSingle();
+    if (updateError) throw updateError;
+    if (!updated) return { ok: false, status: 409, error: 'Catalogue product is locked or no longer exists' };
+  }
+
+  const { data: reviewed, error: reviewError } = await client
+    .from('catalogue_time_suggestions')
+    .update({ status: decision, reviewed_by: userId, reviewed_at: stamp })
+    .eq('id', id)
+    .select()
+    .single();
+  if (reviewError) throw reviewError;
+
+  return { ok: true, suggestion: reviewed as InstallTimeSuggestionRow };
+}
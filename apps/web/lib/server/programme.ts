@@ -0,0 +1,41 @@
+// apps/web/lib/server/programme.ts
+// Loads a job's generated tasks and labour allocations and lays out its programme
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import type { AllocationRow } from '../labourConflicts';
+import { scheduleProgramme, type Programme, type ProgrammeTaskRow } from '../programme';
+
+export type JobProgramme = {
+  job: { id: string; reference: string | null; title: string | null };
+  programme: Programme;
+};
+
+/** The job's programme, or null when the job doesn't exist. */
+export async function loadJobProgramme(
+  client: SupabaseClient<Database>,
+  jobId: string,
+  today: string
+): Promise<JobProgramme | null> {
+  const [jobResult, tasksResult, allocationsResult] = await Promise.all([
+    client.from('jobs').select('id, reference, title, start_date').eq('id', jobId).maybeSingle(),
+    client.from('generated_tasks')
+      .select('id, title, room_zone, install_order, estimated_time_minutes, dependencies, start_no_earlier_than')
+      .eq('job_id', jobId),
+    client.from('labour_allocations').select('job_id, work_date, role, crew_mode, headcount').eq('job_id', jobId),
+  ]);
+
+  for (const result of [jobResult, tasksResult, allocationsResult]) {
+    if (result.error) throw result.error;
+  }
+  if (!jobResult.data) return null;
+
+  const { start_date: startDate, ...job } = jobResult.data;
+  const programme = scheduleProgramme(
+    (tasksResult.data ?? []) as ProgrammeTaskRow[],
+    (allocationsResult.data ?? []) as AllocationRow[],
+    startDate ? String(startDate).slice(0, 10) : today
+  );
+
+  return { job, programme };
+}
@@ -0,0 +1,45 @@
+// apps/web/lib/server/rams.ts
+// Checks an operative has signed the job's issued RAMS before their shift starts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+
+export type RamsSignOffCheck =
+  | { ok: true }
+  | { ok: false; reason: 'unsigned' | 'no_sign_in'; version: number };
+
+/**
+ * Whether the shift's operative may start work. Jobs with no issued RAMS and
+ * team or equipment bookings are not held up.
+ */
+export async function checkRamsSignOff(
+  client: SupabaseClient<Database>,
+  shift: { resource_id: string; job_id: string | null }
+): Promise<RamsSignOffCheck> {
+  if (!shift.job_id) return { ok: true };
+
+  const [ramsResult, resourceResult] = await Promise.all([
+    client.from('rams_documents')
+      .select('id, version, rams_signatures(user_id)')
+      .eq('job_id', shift.job_id)
+      .eq('status', 'issued')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    client.from('labour_resources')
+      .select('resource_type, user_id')
+      .eq('id', shift.resource_id)
+      .maybeSingle(),
+  ]);
+  if (ramsResult.error) throw ramsResult.error;
+  if (resourceResult.error) throw resourceResult.error;
+
+  const rams = ramsResult.data as { id: string; version: number; rams_signatures: Array<{ user_id: string }> } | null;
+  const resource = resourceResult.data as { resource_type: string; user_id: string | null } | null;
+  if (!rams || resource?.resource_type !== 'worker') return { ok: true };
+
+  if (!resource.user_id) return { ok: false, reason: 'no_sign_in', version: rams.version };
+  return rams.rams_signatures.some(signature => signature.user_id === resource.user_id)
+    ? { ok: true }
+    : { ok: false, reason: 'unsigned', version: rams.version };
+}
@@ -0,0 +1,114 @@
+// apps/web/lib/server/ramsPdf.ts
+// Renders RamsContent (lib/rams.ts) as an A4 PDF for the job's documents
+import { jsPDF } from 'jspdf';
+
+import type { RamsContent } from '../rams';
+
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+
+const RATING_COLOURS: Record<string, [number, number, number]> = {
+  low: [22, 163, 74],
+  medium: [217, 119, 6],
+  high: [220, 38, 38],
+};
+
+function formatDay(date: string | null): string {
+  if (!date) return '—';
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short', day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC',
+  });
+}
+
+export function renderRamsPdf(content: RamsContent): ArrayBuffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const paragraph = (text: string, indent = 0) => {
+    const lines = doc.splitTextToSize(text, textWidth - indent) as string[];
+    ensureSpace(lines.length * LINE_HEIGHT);
+    doc.text(lines, MARGIN + indent, y);
+    y += lines.length * LINE_HEIGHT;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 3);
+    y += LINE_HEIGHT / 2;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(text, MARGIN, y);
+    doc.setDrawColor(200);
+    doc.line(MARGIN, y + 1.5, pageWidth - MARGIN, y + 1.5);
+    y += LINE_HEIGHT + 1;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+  };
+
+  // Title block
+  const { job, programme } = content;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('Risk Assessment & Method Statement', MARGIN, y + 4);
+  y += 11;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  paragraph(`${job.reference ? `${job.reference} — ` : ''}${job.title}`);
+  paragraph(`Client: ${job.client_name ?? '—'}`);
+  paragraph(`Version ${content.version} · issued ${new Date(content.issuedAt).toLocaleString('en-GB', { timeZone: 'Europe/London' })}`);
+
+  heading('Programme and crew');
+  paragraph(`Start: ${formatDay(programme.startDate)}    Finish: ${formatDay(programme.endDate)}`);
+  paragraph(`Working days: ${programme.workingDays}    Peak crew on site: ${programme.peakCrew}`);
+  programme.days.forEach(day => {
+    paragraph(`${formatDay(day.date)}: ${day.installers} installer(s), ${day.supervisors} supervisor(s)`, 4);
+  });
+
+  heading('Site risks');
+  if (content.riskFlags.length === 0) {
+    paragraph('No site-specific risk flags recorded.');
+  }
+  content.riskFlags.forEach(flag => paragraph(`• ${flag.label} (${flag.level.toUpperCase()})`));
+
+  heading('Products');
+  if (content.products.length === 0) {
+    paragraph('No products recorded for this job.');
+  }
+  content.products.forEach(product => {
+    paragraph(`• ${product.quantity} × ${product.name}${product.code ? ` (${product.code})` : ''}`);
+  });
+
+  heading('Risk assessment');
+  content.hazards.forEach((hazard, index) => {
+    ensureSpace(LINE_HEIGHT * 4);
+    doc.setFont('helvetica', 'bold');
+    paragraph(`${index + 1}. ${hazard.hazard}`);
+    doc.setFont('helvetica', 'normal');
+    paragraph(`Persons at risk: ${hazard.persons_at_risk}`, 4);
+    hazard.controls.forEach(control => paragraph(`– ${control}`, 8));
+
+    const [r, g, b] = RATING_COLOURS[hazard.residual_rating] ?? [0, 0, 0];
+    doc.setTextColor(r, g, b);
+    paragraph(`Residual risk: ${hazard.residual_rating.toUpperCase()}`, 4);
+    doc.setTextColor(0, 0, 0);
+    y += 1;
+  });
+
+  heading('Method statement');
+  content.methodStatement.forEach((step, index) => paragraph(`${index + 1}. ${step}`));
+
+  heading('Operative briefing');
+  paragraph('Every operative must read this RAMS and sign it in the app before starting work. '
+    + 'Signatures are recorded against this version; a new version must be signed again.');
+
+  return doc.output('arraybuffer');
+}
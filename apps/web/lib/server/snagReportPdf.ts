@@ -0,0 +1,148 @@
+// apps/web/lib/server/snagReportPdf.ts
+// Renders a job's snag list as an A4 PDF: summary, the floor plan with numbered
+// pins when there is one, then one block per snag with its photo
+import { jsPDF } from 'jspdf';
+
+import {
+  RESPONSIBLE_PARTY_LABELS,
+  SNAG_CATEGORY_LABELS,
+  SNAG_STATUS_LABELS,
+  isSnagOverdue,
+  summarizeSnags,
+  type Snag,
+} from '../snags';
+
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+const PHOTO_HEIGHT = 45;
+
+export type SnagReportInput = {
+  job: { reference: string | null; title: string; client_name: string | null };
+  snags: Snag[];
+  photos: Record<string, string>; // JPEG/PNG data URLs by snag id
+  // width/height are the plan's pixel space (JobFloorPlan floorPlanWidth/Height);
+  // the image's own size is used when they are not recorded
+  plan: { name: string; dataUrl: string; width: number | null; height: number | null } | null;
+  generatedAt: string;
+};
+
+function imageFormat(dataUrl: string): string {
+  return /^data:image\/png/i.test(dataUrl) ? 'PNG' : 'JPEG';
+}
+
+export function renderSnagReportPdf(input: SnagReportInput): ArrayBuffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - MARGIN * 2;
+  const today = input.generatedAt.slice(0, 10);
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const paragraph = (text: string, indent = 0) => {
+    const lines = doc.splitTextToSize(text, textWidth - indent) as string[];
+    ensureSpace(lines.length * LINE_HEIGHT);
+    doc.text(lines, MARGIN + indent, y);
+    y += lines.length * LINE_HEIGHT;
+  };
+
+  // Title block
+  const { job, snags } = input;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('Snag Report', MARGIN, y + 4);
+  y += 11;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  paragraph(`${job.reference ? `${job.reference} — ` : ''}${job.title}`);
+  paragraph(`Client: ${job.client_name ?? '—'}`);
+  paragraph(`Generated ${new Date(input.generatedAt).toLocaleString('en-GB', { timeZone: 'Europe/London' })}`);
+
+  const summary = summarizeSnags(snags, today);
+  y += 2;
+  paragraph(`${summary.total} snag(s): ${summary.unresolved} unresolved, ${summary.overdue} overdue, `
+    + `${summary.byStatus.closed} closed, ${summary.byStatus.waived} waived.`);
+  paragraph(`Unresolved by party: us ${summary.byResponsible.installer}, `
+    + `manufacturer ${summary.byResponsible.manufacturer}, client ${summary.byResponsible.client}.`);
+
+  // Floor plan with numbered pins
+  const pinned = snags.map((snag, index) => ({ snag, number: index + 1 })).filter(({ snag }) => snag.pin_x !== null);
+  if (input.plan && pinned.length > 0) {
+    const plan = input.plan;
+    const image = doc.getImageProperties(plan.dataUrl);
+    const planWidth = plan.width || image.width;
+    const planHeight = plan.height || image.height;
+    const scale = Math.min(textWidth / planWidth, (pageHeight - MARGIN * 2 - 10) / planHeight);
+    const drawWidth = planWidth * scale;
+    const drawHeight = planHeight * scale;
+
+    ensureSpace(drawHeight + 10);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Floor plan: ${plan.name}`, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    y += 3;
+    doc.addImage(plan.dataUrl, imageFormat(plan.dataUrl), MARGIN, y, drawWidth, drawHeight);
+
+    doc.setFontSize(7);
+    pinned.forEach(({ snag, number }) => {
+      const px = MARGIN + (snag.pin_x ?? 0) * scale;
+      const py = y + (snag.pin_y ?? 0) * scale;
+      doc.setFillColor(220, 38, 38);
+      doc.circle(px, py, 2.2, 'F');
+      doc.setTextColor(255, 255, 255);
+      doc.text(String(number), px, py + 0.9, { align: 'center' });
+    });
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    y += drawHeight + 4;
+  }
+
+  // One block per snag
+  snags.forEach((snag, index) => {
+    const photo = input.photos[snag.id];
+    const photoSize = photo ? doc.getImageProperties(photo) : null;
+    const photoWidth = photoSize ? (photoSize.width / photoSize.height) * PHOTO_HEIGHT : 0;
+    ensureSpace(LINE_HEIGHT * 5 + (photo ? PHOTO_HEIGHT : 0));
+    y += 3;
+    doc.setDrawColor(200);
+    doc.line(MARGIN, y - 3, pageWidth - MARGIN, y - 3);
+
+    doc.setFont('helvetica', 'bold');
+    paragraph(`${index + 1}. ${snag.description}`);
+    doc.setFont('helvetica', 'normal');
+    paragraph(`${SNAG_CATEGORY_LABELS[snag.category]} · ${RESPONSIBLE_PARTY_LABELS[snag.responsible_party]}`
+      + (snag.location ? ` · ${snag.location}` : ''), 4);
+
+    const overdue = isSnagOverdue(snag, today);
+    if (overdue) doc.setTextColor(220, 38, 38);
+    paragraph(`Status: ${SNAG_STATUS_LABELS[snag.status]}`
+      + (snag.due_date ? ` · due ${snag.due_date}${overdue ? ' (overdue)' : ''}` : ''), 4);
+    doc.setTextColor(0, 0, 0);
+
+    if (snag.status === 'waived' && snag.waived_reason) {
+      paragraph(`Waived: ${snag.waived_reason}`, 4);
+    }
+    if (snag.signed_off_by && snag.signed_off_at) {
+      paragraph(`Signed off by ${snag.signed_off_by}, ${new Date(snag.signed_off_at).toLocaleDateString('en-GB')}`, 4);
+    }
+
+    if (photo) {
+      ensureSpace(PHOTO_HEIGHT + 2);
+      doc.addImage(photo, imageFormat(photo), MARGIN + 4, y, Math.min(photoWidth, textWidth - 4), PHOTO_HEIGHT);
+      y += PHOTO_HEIGHT + 2;
+    }
+  });
+
+  if (snags.length === 0) {
+    paragraph('No snags recorded for this job.');
+  }
+
+  return doc.output('arraybuffer');
+}
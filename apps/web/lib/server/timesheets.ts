@@ -0,0 +1,271 @@
+// apps/web/lib/server/timesheets.ts
+// Loads a week of shifts into timesheets and moves them through submit, approve,
+// reject and reopen. Approval freezes the pay lines and rolls labour cost into
+// job_costs; reopening undoes both.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../types/database';
+import {
+  TIMESHEET_ACTIONS,
+  calculateTimesheet,
+  jobLabourCosts,
+  timesheetSettings,
+  type ApprovedTimesheet,
+  type TimesheetAction,
+  type TimesheetLine,
+  type TimesheetRecord,
+  type TimesheetResource,
+  type TimesheetSettings,
+  type TimesheetShift,
+  type TimesheetTotals,
+  type TimesheetWeekRow,
+} from '../timesheets';
+
+const LINE_COLUMNS = 'shift_id, job_id, shift_date, hours, basic_hours, overtime_hours, rate, day_multiplier, overtime_multiplier, gross';
+
+function weekEnd(weekStart: string): string {
+  const end = new Date(`${weekStart}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 6);
+  return end.toISOString().slice(0, 10);
+}
+
+function toLine(row: Record<string, unknown>): TimesheetLine {
+  return {
+    shift_id: (row.shift_id as string | null) ?? null,
+    job_id: (row.job_id as string | null) ?? null,
+    shift_date: row.shift_date as string,
+    hours: Number(row.hours),
+    basic_hours: Number(row.basic_hours),
+    overtime_hours: Number(row.overtime_hours),
+    rate: Number(row.rate),
+    day_multiplier: Number(row.day_multiplier),
+    overtime_multiplier: Number(row.overtime_multiplier),
+    gross: Number(row.gross),
+  };
+}
+
+async function loadSettings(client: SupabaseClient<Database>): Promise<TimesheetSettings> {
+  const { data } = await client.from('org_settings').select('timesheet_settings').eq('id', 1).maybeSingle();
+  return timesheetSettings((data as { timesheet_settings: unknown } | null)?.timesheet_settings);
+}
+
+/**
+ * Every worker with shifts or a timesheet in the week. Approved weeks come from
+ * their frozen lines; anything else is calculated from the shifts as they stand.
+ */
+export async function loadTimesheetWeek(
+  client: SupabaseClient<Database>,
+  weekStart: string
+): Promise<{ settings: TimesheetSettings; rows: TimesheetWeekRow[] }> {
+  const [settings, resources, shifts, timesheets] = await Promise.all([
+    loadSettings(client),
+    client.from('labour_resources')
+      .select('id, name, hourly_rate, employment_type, cis_rate, payroll_reference')
+      .eq('resource_type', 'worker')
+      .order('name'),
+    client.from('labour_shifts')
+      .select('id, resource_id, job_id, shift_date, start_time, end_time, break_duration, shift_type, rate_per_hour, status')
+      .gte('shift_date', weekStart)
+      .lte('shift_date', weekEnd(weekStart)),
+    client.from('timesheet_weeks')
+      .select(`id, resource_id, status, submitted_at, approved_at, rejection_reason, totals, timesheet_lines (${LINE_COLUMNS})`)
+      .eq('week_start', weekStart),
+  ]);
+
+  for (const result of [resources, shifts, timesheets]) {
+    if (result.error) throw result.error;
+  }
+
+  const shiftRows = (shifts.data ?? []) as Array<TimesheetShift & { resource_id: string }>;
+  const sheetRows = (timesheets.data ?? []) as Array<TimesheetRecord & { timesheet_lines: Record<string, unknown>[] }>;
+
+  const rows = ((resources.data ?? []) as TimesheetResource[])
+    .map(resource => {
+      const sheet = sheetRows.find(row => row.resource_id === resource.id);
+      const timesheet: TimesheetRecord | null = sheet
+        ? {
+          id: sheet.id,
+          resource_id: sheet.resource_id,
+          status: sheet.status,
+          submitted_at: sheet.submitted_at,
+          approved_at: sheet.approved_at,
+          rejection_reason: sheet.rejection_reason,
+          totals: sheet.totals,
+        }
+        : null;
+
+      if (sheet?.status === 'approved' && sheet.totals) {
+        return { resource, timesheet, lines: sheet.timesheet_lines.map(toLine), totals: sheet.totals };
+      }
+
+      const calculated = calculateTimesheet(shiftRows.filter(shift => shift.resource_id === resource.id), resource, settings);
+      return { resource, timesheet, ...calculated };
+    })
+    .filter(row => row.timesheet || row.lines.length > 0);
+
+  return { settings, rows };
+}
+
+/** Apply an action to the named resources' timesheets; returns how many moved. */
+export async function applyTimesheetAction(
+  client: SupabaseClient<Database>,
+  action: TimesheetAction,
+  weekStart: string,
+  resourceIds: string[],
+  userId: string,
+  reason?: string
+): Promise<number> {
+  const { from, to } = TIMESHEET_ACTIONS[action];
+  const now = new Date().toISOString();
+
+  if (action === 'submit') {
+    // A week has no row until it is first submitted
+    const { data: existing, error } = await client.from('timesheet_weeks')
+      .select('resource_id').eq('week_start', weekStart).in('resource_id', resourceIds);
+    if (error) throw error;
+
+    const known = new Set(((existing ?? []) as Array<{ resource_id: string }>).map(row => row.resource_id));
+    const fresh = resourceIds.filter(id => !known.has(id));
+    if (fresh.length > 0) {
+      const { error: insertError } = await client.from('timesheet_weeks').insert(fresh.map(resourceId => ({
+        resource_id: resourceId,
+        week_start: weekStart,
+        status: to,
+        submitted_by: userId,
+        submitted_at: now,
+      })));
+      if (insertError) throw insertError;
+    }
+
+    const { data: updated, error: updateError } = await client.from('timesheet_weeks')
+      .update({ status: to, submitted_by: userId, submitted_at: now, rejection_reason: null })
+      .eq('week_start', weekStart).in('resource_id', resourceIds).in('status', from)
+      .select('id');
+    if (updateError) throw updateError;
+    return fresh.length + (updated?.length ?? 0);
+  }
+
+  if (action === 'reject') {
+    const { data: updated, error } = await client.from('timesheet_weeks')
+      .update({ status: to, rejection_reason: reason })
+      .eq('week_start', weekStart).in('resource_id', resourceIds).in('status', from)
+      .select('id');
+    if (error) throw error;
+    return updated?.length ?? 0;
+  }
+
+  if (action === 'reopen') {
+    return reopenTimesheets(client, weekStart, resourceIds);
+  }
+
+  return approveTimesheets(client, weekStart, resourceIds, userId);
+}
+
+/**
+ * Unlock approved weeks: the frozen lines are dropped, so the shifts can be
+ * corrected and the week approved again, and job labour is rolled up without them.
+ */
+async function reopenTimesheets(
+  client: SupabaseClient<Database>,
+  weekStart: string,
+  resourceIds: string[]
+): Promise<number> {
+  const { data: reopened, error } = await client.from('timesheet_weeks')
+    .update({ status: 'submitted', approved_by: null, approved_at: null, totals: null })
+    .eq('week_start', weekStart).in('resource_id', resourceIds).eq('status', 'approved')
+    .select('id, timesheet_lines (job_id)');
+  if (error) throw error;
+  if (!reopened?.length) return 0;
+
+  const rows = reopened as Array<{ id: string; timesheet_lines: Array<{ job_id: string | null }> }>;
+  const { error: deleteError } = await client.from('timesheet_lines')
+    .delete()
+    .in('timesheet_id', rows.map(row => row.id));
+  if (deleteError) throw deleteError;
+
+  const jobIds = new Set(rows.flatMap(row => row.timesheet_lines.map(line => line.job_id).filter(Boolean))) as Set<string>;
+  await rollUpJobLabour(client, Array.from(jobIds));
+  return rows.length;
+}
+
+async function approveTimesheets(
+  client: SupabaseClient<Database>,
+  weekStart: string,
+  resourceIds: string[],
+  userId: string
+): Promise<number> {
+  const { rows } = await loadTimesheetWeek(client, weekStart);
+  const approving = rows.filter(row => resourceIds.includes(row.resource.id) && row.timesheet?.status === 'submitted');
+  const jobIds = new Set<string>();
+  let approved = 0;
+
+  for (const row of approving) {
+    const timesheet = row.timesheet!;
+
+    // Conditional on still being submitted, so two approvers cannot both freeze lines
+    const { data: claimed, error } = await client.from('timesheet_weeks')
+      .update({ status: 'approved', approved_by: userId, approved_at: new Date().toISOString(), totals: row.totals })
+      .eq('id', timesheet.id).eq('status', 'submitted')
+      .select('id');
+    if (error) throw error;
+    if (!claimed?.length) continue;
+
+    if (row.lines.length > 0) {
+      const { error: lineError } = await client.from('timesheet_lines')
+        .insert(row.lines.map(line => ({ ...line, timesheet_id: timesheet.id })));
+      if (lineError) {
+        await client.from('timesheet_weeks')
+          .update({ status: 'submitted', approved_by: null, approved_at: null, totals: null })
+          .eq('id', timesheet.id);
+        throw lineError;
+      }
+    }
+
+    row.lines.forEach(line => line.job_id && jobIds.add(line.job_id));
+    approved += 1;
+  }
+
+  await rollUpJobLabour(client, Array.from(jobIds));
+  return approved;
+}
+
+/** Recalculate job_costs' timesheet labour from every approved line for the jobs. */
+export async function rollUpJobLabour(client: SupabaseClient<Database>, jobIds: string[]): Promise<void> {
+  if (jobIds.length === 0) return;
+
+  const { data, error } = await client.from('timesheet_lines')
+    .select('job_id, hours, gross, timesheet_weeks!inner(status)')
+    .in('job_id', jobIds)
+    .eq('timesheet_weeks.status', 'approved');
+  if (error) throw error;
+
+  const costs = jobLabourCosts((data ?? []) as Array<{ job_id: string; hours: number; gross: number }>);
+  const { error: upsertError } = await client.from('job_costs').upsert(
+    jobIds.map(jobId => ({
+      job_id: jobId,
+      timesheet_labour_hours: costs[jobId]?.hours ?? 0,
+      timesheet_labour_cost: costs[jobId]?.cost ?? 0,
+    })),
+    { onConflict: 'job_id' }
+  );
+  if (upsertError) throw upsertError;
+}
+
+/** Approved timesheets for the week with job references, for the CSV exports. */
+export async function loadApprovedTimesheets(client: SupabaseClient<Database>, weekStart: string): Promise<ApprovedTimesheet[]> {
+  const { rows } = await loadTimesheetWeek(client, weekStart);
+  const approved = rows.filter(row => row.timesheet?.status === 'approved');
+
+  const jobIds = Array.from(new Set(approved.flatMap(row => row.lines.map(line => line.job_id).filter(Boolean)))) as string[];
+  const { data: jobs } = jobIds.length > 0
+    ? await client.from('jobs').select('id, reference').in('id', jobIds)
+    : { data: [] };
+  const references = new Map(((jobs ?? []) as Array<{ id: string; reference: string | null }>).map(job => [job.id, job.reference]));
+
+  return approved.map(row => ({
+    week_start: weekStart,
+    resource: row.resource,
+    totals: row.totals,
+    lines: row.lines.map(line => ({ ...line, job_reference: line.job_id ? references.get(line.job_id) ?? null : null })),
+  }));
+}
@@ -35,7 +35,7 @@ export async function processInvoiceWithLearning(
 
   try {
     // Step 1: Extract data with AI
-    const aiResult = await processInvoiceWithAI(file);
+    const aiResult = await processInvoiceWithAI(file, { supplierId });
 
     if (!aiResult.success || !aiResult.data) {
       return aiResult;
@@ -0,0 +1,154 @@
+// Snag lists - the rules shared by the job's Snags tab, the guest sign-off and
+// the snag report. Table and lifecycle are described in migration 054.
+import type { JobFloorPlan, PlacedFurniture } from '../components/floorplanner/types';
+
+export const SNAG_STATUSES = ['open', 'in_progress', 'fixed', 'closed', 'waived'] as const;
+export type SnagStatus = typeof SNAG_STATUSES[number];
+
+export const SNAG_CATEGORIES = ['cosmetic', 'functional', 'damage', 'missing', 'safety'] as const;
+export type SnagCategory = typeof SNAG_CATEGORIES[number];
+
+export const RESPONSIBLE_PARTIES = ['installer', 'manufacturer', 'client'] as const;
+export type ResponsibleParty = typeof RESPONSIBLE_PARTIES[number];
+
+export const SNAG_STATUS_LABELS: Record<SnagStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  fixed: 'Fixed',
+  closed: 'Closed',
+  waived: 'Waived',
+};
+
+export const SNAG_CATEGORY_LABELS: Record<SnagCategory, string> = {
+  cosmetic: 'Cosmetic',
+  functional: 'Functional',
+  damage: 'Damage',
+  missing: 'Missing item',
+  safety: 'Safety',
+};
+
+export const RESPONSIBLE_PARTY_LABELS: Record<ResponsibleParty, string> = {
+  installer: 'Us (installer)',
+  manufacturer: 'Manufacturer',
+  client: 'Client',
+};
+
+export type Snag = {
+  id: string;
+  job_id: string;
+  description: string;
+  location: string | null;
+  category: SnagCategory;
+  responsible_party: ResponsibleParty;
+  status: SnagStatus;
+  due_date: string | null;
+  photo_path: string | null;
+  floorplan_id: string | null;
+  furniture_id: string | null;
+  pin_x: number | null;
+  pin_y: number | null;
+  waived_reason: string | null;
+  signed_off_by: string | null;
+  signed_off_at: string | null;
+  created_at: string;
+};
+
+export const SNAG_PHOTO_BUCKET = 'job-photos';
+
+/** Closed and waived snags no longer hold the job open */
+export function isSnagResolved(status: SnagStatus): boolean {
+  return status === 'closed' || status === 'waived';
+}
+
+export function unresolvedSnags<T extends Pick<Snag, 'status'>>(snags: T[]): T[] {
+  return snags.filter(snag => !isSnagResolved(snag.status));
+}
+
+/**
+ * Mirrors the trigger in migration 054 so callers can explain the refusal
+ * before the database does
+ */
+export function canCompleteJob(snags: Array<Pick<Snag, 'status'>>): { ok: boolean; unresolved: number } {
+  const unresolved = unresolvedSnags(snags).length;
+  return { ok: unresolved === 0, unresolved };
+}
+
+/** Past its due date (YYYY-MM-DD) and still unresolved */
+export function isSnagOverdue(snag: Pick<Snag, 'status' | 'due_date'>, today: string): boolean {
+  return !!snag.due_date && !isSnagResolved(snag.status) && snag.due_date < today;
+}
+
+/**
+ * Next statuses staff may move a snag to. Closing normally happens at client
+ * sign-off, but staff can close on the client's behalf; waiving needs a reason.
+ */
+export function allowedSnagTransitions(status: SnagStatus): SnagStatus[] {
+  switch (status) {
+    case 'open':
+      return ['in_progress', 'fixed', 'waived'];
+    case 'in_progress':
+      return ['open', 'fixed', 'waived'];
+    case 'fixed':
+      return ['open', 'closed', 'waived'];
+    case 'closed':
+    case 'waived':
+      return ['open'];
+    default:
+      return [];
+  }
+}
+
+export type SnagSummary = {
+  total: number;
+  unresolved: number;
+  overdue: number;
+  byStatus: Record<SnagStatus, number>;
+  byResponsible: Record<ResponsibleParty, number>;
+};
+
+export function summarizeSnags(snags: Snag[], today: string): SnagSummary {
+  const byStatus = Object.fromEntries(SNAG_STATUSES.map(s => [s, 0])) as Record<SnagStatus, number>;
+  const byResponsible = Object.fromEntries(RESPONSIBLE_PARTIES.map(p => [p, 0])) as Record<ResponsibleParty, number>;
+
+  snags.forEach(snag => {
+    byStatus[snag.status] += 1;
+    if (!isSnagResolved(snag.status)) byResponsible[snag.responsible_party] += 1;
+  });
+
+  return {
+    total: snags.length,
+    unresolved: unresolvedSnags(snags).length,
+    overdue: snags.filter(snag => isSnagOverdue(snag, today)).length,
+    byStatus,
+    byResponsible,
+  };
+}
+
+/**
+ * The placed item under a point on the plan, allowing for rotation about the
+ * item's centre. Items are only sized once the plan has a scale.
+ */
+export function furnitureAtPoint(
+  plan: Pick<JobFloorPlan, 'furniture' | 'scale'>,
+  x: number,
+  y: number
+): PlacedFurniture | null {
+  if (!plan.scale) return null;
+
+  // Last drawn is on top
+  for (let i = plan.furniture.length - 1; i >= 0; i--) {
+    const item = plan.furniture[i];
+    const w = item.width_cm * plan.scale;
+    const h = item.depth_cm * plan.scale;
+    const cx = item.x + w / 2;
+    const cy = item.y + h / 2;
+    const angle = (-(item.rotation || 0) * Math.PI) / 180;
+    const dx = x - cx;
+    const dy = y - cy;
+    const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+    const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+
+    if (Math.abs(localX) <= w / 2 && Math.abs(localY) <= h / 2) return item;
+  }
+  return null;
+}
@@ -55,6 +55,8 @@ export interface TaskBannerItem {
   status: TaskStatus;
   navigation_route: string;
   assigned_to: TaskAssignment;
+  assigned_user_id?: string | null; // Set for tasks raised for one person (e.g. quote follow-ups)
+  source_key?: string | null; // Set on system-generated tasks so they are only created once
   created_by: string;
   created_at: string;
   updated_at: string;
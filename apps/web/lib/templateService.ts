@@ -1,8 +1,19 @@
 // Document Template Service
 // Handles template creation, storage, and application for AI training
 
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../types/database';
+
 import { supabaseAdmin } from './supabaseAdmin';
 import { supabase } from './supabaseClient';
+import {
+  extractTemplateZones,
+  summarizeZones,
+  type PdfPageText,
+  type ZoneResult,
+  type ZoneSummary,
+} from './templateZoneExtractor';
 
 export interface DocumentTemplate {
   id: string;
@@ -18,6 +29,8 @@ export interface DocumentTemplate {
   version: number;
   page_count: number;
   sample_file_path?: string;
+  reference_width?: number; // sample image size the field boxes were drawn on
+  reference_height?: number;
   match_rate: number;
   usage_count: number;
   is_active: boolean;
@@ -285,14 +298,15 @@ export async function duplicateTemplate(
 }
 
 /**
- * Record template usage
+ * Record template usage, with the same client the template was read with
  */
 export async function recordTemplateUsage(
+  client: SupabaseClient<Database>,
   usage: Omit<TemplateUsage, 'id' | 'used_at'>
 ): Promise<void> {
   try {
-    const { error } = await (supabaseAdmin
-      .from('template_usage') as any)
+    const { error } = await client
+      .from('template_usage')
       .insert(usage);
 
     if (error) {
@@ -404,6 +418,80 @@ export async function findBestTemplate(
   }
 }
 
+// Below this share of fields read, the document probably isn't laid out like the template
+export const MIN_TEMPLATE_MATCH_RATE = 50;
+
+export interface TemplateExtraction {
+  template: DocumentTemplate;
+  results: ZoneResult[];
+  summary: ZoneSummary;
+}
+
+/**
+ * Try the active templates for a document type against a PDF's text layer and
+ * keep the one that reads the most fields. With a supplier, only that
+ * supplier's templates and generic ones are tried. Returns null when no
+ * template reaches MIN_TEMPLATE_MATCH_RATE, so the caller falls back to AI.
+ * Reads with the caller's client: the session client for invoices parsed in
+ * the browser, the service role for PODs parsed on the server.
+ */
+export async function extractWithBestTemplate(
+  client: SupabaseClient<Database>,
+  documentType: string,
+  pages: PdfPageText[],
+  supplierId?: string
+): Promise<TemplateExtraction | null> {
+  // Scanned PDFs have no text layer to read
+  if (!pages.some(page => page.items.length > 0)) return null;
+
+  try {
+    const { data: templates, error } = await client
+      .from('document_templates')
+      .select('*')
+      .eq('document_type', documentType)
+      .eq('is_active', true)
+      .not('reference_width', 'is', null)
+      .not('reference_height', 'is', null);
+
+    if (error) throw error;
+
+    const candidates = ((templates || []) as DocumentTemplate[]).filter(template =>
+      !supplierId || template.supplier_id === supplierId || template.is_generic
+    );
+    if (candidates.length === 0) return null;
+
+    const { data: fields, error: fieldsError } = await client
+      .from('template_fields')
+      .select('*')
+      .in('template_id', candidates.map(template => template.id));
+
+    if (fieldsError) throw fieldsError;
+
+    let best: TemplateExtraction | null = null;
+    for (const template of candidates) {
+      const templateFields = ((fields || []) as TemplateField[]).filter(field => field.template_id === template.id);
+      if (templateFields.length === 0) continue;
+
+      const results = extractTemplateZones(templateFields, pages, {
+        width: template.reference_width!,
+        height: template.reference_height!,
+      });
+      const summary = summarizeZones(results);
+
+      // On a tie, the supplier's own template beats a generic one
+      const better = !best
+        || summary.match_rate > best.summary.match_rate
+        || (summary.match_rate === best.summary.match_rate && !!supplierId && template.supplier_id === supplierId);
+      if (better) best = { template, results, summary };
+    }
+
+    return best && best.summary.match_rate >= MIN_TEMPLATE_MATCH_RATE ? best : null;
+  } catch (error) {
+    console.error('extractWithBestTemplate error:', error);
+    return null;
+  }
+}
+
 /**
  * Upload template sample file
  */
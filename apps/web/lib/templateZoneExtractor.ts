@@ -0,0 +1,289 @@
+// Template Zone Extractor - reads templated fields straight from a PDF's text layer
+// Each TemplateField box drawn in MarkupCanvas is scaled onto the page, the text
+// under it is collected and checked against the field's validation_regex. Fields
+// that come back empty or invalid are left for Gemini.
+
+import type { TemplateField } from './templateService';
+
+/** A run of text on a page, in page fractions (0-1) from the top-left corner */
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  items: PdfTextItem[];
+}
+
+/** Size of the sample image the template's boxes were drawn on */
+export interface TemplateReference {
+  width: number;
+  height: number;
+}
+
+export type ZoneValue = string | number;
+
+export interface ZoneResult {
+  field: TemplateField;
+  text: string;
+  value: ZoneValue | null;
+  status: 'matched' | 'empty' | 'invalid';
+}
+
+export interface ZoneSummary {
+  fields_total: number;
+  fields_matched: number;
+  match_rate: number; // % of distinct field names read successfully
+  avg_confidence: number;
+}
+
+// How far a templated value can be trusted, by the confidence the template author gave the box
+export const ZONE_CONFIDENCE: Record<TemplateField['confidence_level'], number> = {
+  always: 98,
+  usually: 92,
+  sometimes: 85,
+  fallback: 75,
+};
+
+// Just the parts of pdf.js we use, so the CDN build in the browser and pdfjs-dist on the server both fit
+export interface PdfJsLike {
+  getDocument(params: { data: Uint8Array }): { promise: Promise<PdfDocumentLike> };
+}
+
+interface PdfDocumentLike {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfPageLike>;
+  destroy?: () => unknown;
+}
+
+interface PdfPageLike {
+  getViewport(params: { scale: number }): {
+    width: number;
+    height: number;
+    convertToViewportPoint(x: number, y: number): number[];
+  };
+  getTextContent(): Promise<{ items: unknown[] }>;
+}
+
+interface RawTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height?: number;
+}
+
+const isRawTextItem = (item: unknown): item is RawTextItem =>
+  !!item && typeof (item as RawTextItem).str === 'string' && Array.isArray((item as RawTextItem).transform);
+
+/**
+ * Read every page's text layer as positioned runs. Returns no items for scanned
+ * PDFs, which have no text layer.
+ */
+export async function readPdfTextLayer(pdfjs: PdfJsLike, data: Uint8Array): Promise<PdfPageText[]> {
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: PdfPageText[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items = content.items.filter(isRawTextItem).flatMap((item): PdfTextItem[] => {
+        if (!item.str.trim()) return [];
+        const [x, baseline] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+        const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+        return [{
+          text: item.str,
+          x: x / viewport.width,
+          y: (baseline - height) / viewport.height,
+          width: item.width / viewport.width,
+          height: height / viewport.height,
+        }];
+      });
+
+      pages.push({ pageNumber, items });
+    }
+  } finally {
+    await pdf.destroy?.();
+  }
+
+  return pages;
+}
+
+/**
+ * Text inside a box (page fractions). Runs are cut per character, so a box drawn
+ * round the value of "Invoice No: 12345" picks up just "12345".
+ */
+export function textInBox(
+  items: PdfTextItem[],
+  box: { x: number; y: number; width: number; height: number }
+): string {
+  const right = box.x + box.width;
+  const bottom = box.y + box.height;
+
+  const pieces = items
+    .filter(item => {
+      const middle = item.y + item.height / 2;
+      return middle >= box.y && middle <= bottom && item.x < right && item.x + item.width > box.x;
+    })
+    .map(item => {
+      const charWidth = item.width / Math.max(item.text.length, 1);
+      const chars = [...item.text].filter((_, index) => {
+        const centre = item.x + charWidth * (index + 0.5);
+        return centre >= box.x && centre <= right;
+      });
+      return { x: item.x, y: item.y, height: item.height, text: chars.join('').trim() };
+    })
+    .filter(piece => piece.text.length > 0)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+  // Group into lines: runs whose tops are within half a line of each other
+  const lines: Array<{ y: number; height: number; parts: Array<{ x: number; text: string }> }> = [];
+  for (const piece of pieces) {
+    const line = lines.find(candidate => Math.abs(candidate.y - piece.y) < Math.max(candidate.height, piece.height) / 2);
+    if (line) {
+      line.parts.push({ x: piece.x, text: piece.text });
+    } else {
+      lines.push({ y: piece.y, height: piece.height, parts: [{ x: piece.x, text: piece.text }] });
+    }
+  }
+
+  return lines
+    .map(line => line.parts.sort((a, b) => a.x - b.x).map(part => part.text).join(' '))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * What a field holds, from its expected_format or, failing that, its name
+ */
+export function zoneValueKind(field: Pick<TemplateField, 'field_name' | 'expected_format'>): 'date' | 'amount' | 'text' {
+  const format = field.expected_format?.toUpperCase() ?? '';
+  if (/DD|YYYY/.test(format)) return 'date';
+  if (/£|X[,.]XX|0\.00/.test(format)) return 'amount';
+  if (/_date$|^date$/.test(field.field_name)) return 'date';
+  if (/_amount$|^amount$|_total$/.test(field.field_name)) return 'amount';
+  return 'text';
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * UK document dates to YYYY-MM-DD: 12/03/2025, 12-03-25, 12 Mar 2025 or 2025-03-12
+ */
+export function parseZoneDate(text: string): string | null {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const build = (year: number, month: number, day: number) => {
+    const fullYear = year < 100 ? 2000 + year : year;
+    const date = new Date(Date.UTC(fullYear, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${fullYear}-${pad(month)}-${pad(day)}`;
+  };
+
+  const iso = text.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return build(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = text.match(/(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (numeric) return build(Number(numeric[3]), Number(numeric[2]), Number(numeric[1]));
+
+  const named = text.match(/(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3})[A-Za-z]*\.?,?\s+(\d{2,4})/);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    return month > 0 ? build(Number(named[3]), month, Number(named[1])) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Money to a number: "£1,234.56", "1234.56 GBP", "(12.00)" for credits
+ */
+export function parseZoneAmount(text: string): number | null {
+  const match = text.replace(/\s/g, '').match(/\(?-?[£$€]?-?\d[\d,]*(?:\.\d+)?\)?/);
+  if (!match) return null;
+
+  const negative = match[0].startsWith('(') || match[0].includes('-');
+  const amount = Number(match[0].replace(/[^\d.]/g, ''));
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function compileRegex(pattern: string | undefined): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    console.warn(`Ignoring invalid template validation_regex: ${pattern}`);
+    return null;
+  }
+}
+
+/**
+ * Read every field of a template off the page text. Boxes are in the sample
+ * image's pixels, so they are scaled by the reference size first.
+ */
+export function extractTemplateZones(
+  fields: TemplateField[],
+  pages: PdfPageText[],
+  reference: TemplateReference
+): ZoneResult[] {
+  return [...fields]
+    .sort((a, b) => a.priority - b.priority)
+    .map((field): ZoneResult => {
+      const page = pages.find(candidate => candidate.pageNumber === (field.page_number || 1));
+      const text = page
+        ? textInBox(page.items, {
+            x: field.x / reference.width,
+            y: field.y / reference.height,
+            width: field.width / reference.width,
+            height: field.height / reference.height,
+          })
+        : '';
+
+      if (!text) return { field, text, value: null, status: 'empty' };
+
+      const regex = compileRegex(field.validation_regex);
+      if (regex && !regex.test(text)) return { field, text, value: null, status: 'invalid' };
+
+      const kind = zoneValueKind(field);
+      const value = kind === 'date' ? parseZoneDate(text) : kind === 'amount' ? parseZoneAmount(text) : text;
+      return value === null
+        ? { field, text, value: null, status: 'invalid' }
+        : { field, text, value, status: 'matched' };
+    });
+}
+
+/**
+ * Best value per field name. Several boxes may share a name (e.g. a 'fallback'
+ * box); the highest-priority box that matched wins.
+ */
+export function matchedZoneValues(results: ZoneResult[]): Map<string, ZoneResult> {
+  const values = new Map<string, ZoneResult>();
+  for (const result of results) {
+    if (result.status === 'matched' && !values.has(result.field.field_name)) {
+      values.set(result.field.field_name, result);
+    }
+  }
+  return values;
+}
+
+export function summarizeZones(results: ZoneResult[]): ZoneSummary {
+  const names = new Set(results.map(result => result.field.field_name));
+  const matched = [...matchedZoneValues(results).values()];
+  const fieldsTotal = names.size;
+
+  return {
+    fields_total: fieldsTotal,
+    fields_matched: matched.length,
+    match_rate: fieldsTotal > 0 ? Math.round((matched.length / fieldsTotal) * 10000) / 100 : 0,
+    avg_confidence: matched.length > 0
+      ? Math.round(matched.reduce((sum, result) => sum + ZONE_CONFIDENCE[result.field.confidence_level], 0) / matched.length * 100) / 100
+      : 0,
+  };
+}
@@ -0,0 +1,345 @@
+// Weekly timesheets - pay calculation and CSV formats for the timesheet API and
+// page. Tables, lifecycle and the week lock are described in migration 055.
+//
+// Hours count towards the weekly overtime threshold in the order they were
+// worked. Each hour is paid at the higher of its day multiplier (Saturday,
+// Sunday, bank holiday, booked overtime) and, once past the threshold, the
+// overtime multiplier - premiums do not stack.
+
+import { toCSV } from './utils/csv';
+
+export const TIMESHEET_STATUSES = ['draft', 'submitted', 'approved', 'rejected'] as const;
+export type TimesheetStatus = typeof TIMESHEET_STATUSES[number];
+
+export type TimesheetAction = 'submit' | 'approve' | 'reject' | 'reopen';
+
+// Which statuses each action may be taken from, and what it leaves behind.
+// Reopening unlocks an approved week and puts it back in front of the approver.
+export const TIMESHEET_ACTIONS: Record<TimesheetAction, { from: TimesheetStatus[]; to: TimesheetStatus }> = {
+  submit: { from: ['draft', 'rejected'], to: 'submitted' },
+  approve: { from: ['submitted'], to: 'approved' },
+  reject: { from: ['submitted'], to: 'rejected' },
+  reopen: { from: ['approved'], to: 'submitted' },
+};
+
+export type TimesheetSettings = {
+  weekly_overtime_threshold_hours: number;
+  overtime_multiplier: number;
+  saturday_multiplier: number;
+  sunday_multiplier: number;
+  holiday_multiplier: number;
+};
+
+export const DEFAULT_TIMESHEET_SETTINGS: TimesheetSettings = {
+  weekly_overtime_threshold_hours: 40,
+  overtime_multiplier: 1.5,
+  saturday_multiplier: 1.5,
+  sunday_multiplier: 2,
+  holiday_multiplier: 2,
+};
+
+// CIS rate for self-employed operatives with no rate recorded (registered subcontractor)
+export const DEFAULT_CIS_RATE = 20;
+
+export type TimesheetShift = {
+  id: string;
+  job_id: string | null;
+  shift_date: string;
+  start_time: string;
+  end_time: string;
+  break_duration: number | null;
+  shift_type: string | null;
+  rate_per_hour: number | null;
+  status: string | null;
+};
+
+export type TimesheetResource = {
+  id: string;
+  name: string;
+  hourly_rate: number | null;
+  employment_type: 'employee' | 'self_employed';
+  cis_rate: number | null;
+  payroll_reference: string | null;
+};
+
+export type TimesheetLine = {
+  shift_id: string | null;
+  job_id: string | null;
+  shift_date: string;
+  hours: number;
+  basic_hours: number;
+  overtime_hours: number;
+  rate: number;
+  day_multiplier: number;
+  overtime_multiplier: number;
+  gross: number;
+};
+
+export type TimesheetTotals = {
+  hours: number;
+  basic_hours: number;
+  overtime_hours: number;
+  gross: number;
+  cis_rate: number;
+  cis_deduction: number;
+  net: number;
+};
+
+export type TimesheetRecord = {
+  id: string;
+  resource_id: string;
+  status: TimesheetStatus;
+  submitted_at: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
+  totals: TimesheetTotals | null;
+};
+
+export type TimesheetWeekRow = {
+  resource: TimesheetResource;
+  timesheet: TimesheetRecord | null;
+  lines: TimesheetLine[];
+  totals: TimesheetTotals;
+};
+
+/** A week row without rates or pay, for people who cannot approve timesheets. */
+export type TimesheetHoursRow = {
+  resource: Pick<TimesheetResource, 'id' | 'name' | 'employment_type' | 'payroll_reference'>;
+  timesheet: Omit<TimesheetRecord, 'totals'> | null;
+  lines: Array<Pick<TimesheetLine, 'shift_id' | 'job_id' | 'shift_date' | 'hours' | 'basic_hours' | 'overtime_hours'>>;
+  totals: Pick<TimesheetTotals, 'hours' | 'basic_hours' | 'overtime_hours'>;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Settings from org_settings.timesheet_settings, with defaults for anything missing or invalid. */
+export function timesheetSettings(raw: unknown): TimesheetSettings {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const settings = { ...DEFAULT_TIMESHEET_SETTINGS };
+  for (const key of Object.keys(settings) as Array<keyof TimesheetSettings>) {
+    const value = Number(source[key]);
+    if (source[key] !== undefined && source[key] !== null && Number.isFinite(value) && value >= 0) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
+
+/** The Monday of the week a date falls in (YYYY-MM-DD). */
+export function weekStartOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - offset);
+  return day.toISOString().slice(0, 10);
+}
+
+/** Worked hours for a shift: end less start less break, running past midnight if needed. */
+export function shiftPaidHours(shift: Pick<TimesheetShift, 'start_time' | 'end_time' | 'break_duration'>): number {
+  const minutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + (m || 0);
+  };
+  let worked = minutes(shift.end_time) - minutes(shift.start_time);
+  if (worked <= 0) worked += 24 * 60;
+  return round2(Math.max(0, worked - (shift.break_duration || 0)) / 60);
+}
+
+function dayMultiplier(shift: TimesheetShift, settings: TimesheetSettings): number {
+  if (shift.shift_type === 'holiday') return settings.holiday_multiplier;
+  if (shift.shift_type === 'overtime') return settings.overtime_multiplier;
+  const weekday = new Date(`${shift.shift_date}T00:00:00Z`).getUTCDay();
+  if (weekday === 0) return settings.sunday_multiplier;
+  if (weekday === 6) return settings.saturday_multiplier;
+  return 1;
+}
+
+/** Pay lines and totals for one resource's week of shifts. Cancelled and no-show shifts are not paid. */
+export function calculateTimesheet(
+  shifts: TimesheetShift[],
+  resource: TimesheetResource,
+  settings: TimesheetSettings
+): { lines: TimesheetLine[]; totals: TimesheetTotals } {
+  const paid = shifts
+    .filter(shift => shift.status !== 'cancelled' && shift.status !== 'no_show')
+    .sort((a, b) => a.shift_date.localeCompare(b.shift_date) || a.start_time.localeCompare(b.start_time));
+
+  let worked = 0;
+  const lines = paid.map(shift => {
+    const hours = shiftPaidHours(shift);
+    const basic = round2(Math.max(0, Math.min(hours, settings.weekly_overtime_threshold_hours - worked)));
+    const overtime = round2(hours - basic);
+    worked += hours;
+
+    const rate = Number(shift.rate_per_hour ?? resource.hourly_rate ?? 0);
+    const dayRate = dayMultiplier(shift, settings);
+    const overtimeRate = Math.max(dayRate, settings.overtime_multiplier);
+
+    return {
+      shift_id: shift.id,
+      job_id: shift.job_id,
+      shift_date: shift.shift_date,
+      hours,
+      basic_hours: basic,
+      overtime_hours: overtime,
+      rate,
+      day_multiplier: dayRate,
+      overtime_multiplier: overtimeRate,
+      gross: round2(rate * (basic * dayRate + overtime * overtimeRate)),
+    };
+  });
+
+  const sum = (pick: (line: TimesheetLine) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+  const gross = sum(line => line.gross);
+  const cisRate = resource.employment_type === 'self_employed' ? Number(resource.cis_rate ?? DEFAULT_CIS_RATE) : 0;
+  const cisDeduction = round2(gross * cisRate / 100);
+
+  return {
+    lines,
+    totals: {
+      hours: sum(line => line.hours),
+      basic_hours: sum(line => line.basic_hours),
+      overtime_hours: sum(line => line.overtime_hours),
+      gross,
+      cis_rate: cisRate,
+      cis_deduction: cisDeduction,
+      net: round2(gross - cisDeduction),
+    },
+  };
+}
+
+/** The row with rates, pay and CIS taken out. */
+export function hoursOnly(row: TimesheetWeekRow): TimesheetHoursRow {
+  const { id, name, employment_type, payroll_reference } = row.resource;
+  return {
+    resource: { id, name, employment_type, payroll_reference },
+    timesheet: row.timesheet && {
+      id: row.timesheet.id,
+      resource_id: row.timesheet.resource_id,
+      status: row.timesheet.status,
+      submitted_at: row.timesheet.submitted_at,
+      approved_at: row.timesheet.approved_at,
+      rejection_reason: row.timesheet.rejection_reason,
+    },
+    lines: row.lines.map(line => ({
+      shift_id: line.shift_id,
+      job_id: line.job_id,
+      shift_date: line.shift_date,
+      hours: line.hours,
+      basic_hours: line.basic_hours,
+      overtime_hours: line.overtime_hours,
+    })),
+    totals: {
+      hours: row.totals.hours,
+      basic_hours: row.totals.basic_hours,
+      overtime_hours: row.totals.overtime_hours,
+    },
+  };
+}
+
+/** Hours and gross pay per job across approved lines, for job_costs. */
+export function jobLabourCosts(lines: Array<Pick<TimesheetLine, 'job_id' | 'hours' | 'gross'>>): Record<string, { hours: number; cost: number }> {
+  const costs: Record<string, { hours: number; cost: number }> = {};
+  for (const line of lines) {
+    if (!line.job_id) continue;
+    const job = costs[line.job_id] ??= { hours: 0, cost: 0 };
+    job.hours = round2(job.hours + Number(line.hours));
+    job.cost = round2(job.cost + Number(line.gross));
+  }
+  return costs;
+}
+
+export type ApprovedTimesheet = {
+  week_start: string;
+  resource: TimesheetResource;
+  lines: Array<TimesheetLine & { job_reference: string | null }>;
+  totals: TimesheetTotals;
+};
+
+export type PayrollFormat = 'sage' | 'xero';
+
+/** One row per shift worked, for checking and filing. */
+export function timesheetCsv(sheets: ApprovedTimesheet[]): string {
+  const rows = sheets.flatMap(sheet => sheet.lines.map(line => [
+    sheet.week_start,
+    sheet.resource.payroll_reference,
+    sheet.resource.name,
+    line.shift_date,
+    line.job_reference,
+    line.hours.toFixed(2),
+    line.basic_hours.toFixed(2),
+    line.overtime_hours.toFixed(2),
+    line.rate.toFixed(2),
+    line.day_multiplier,
+    line.overtime_multiplier,
+    line.gross.toFixed(2),
+  ]));
+
+  return toCSV([
+    'Week Commencing', 'Payroll Ref', 'Name', 'Date', 'Job', 'Hours', 'Basic Hours',
+    'Overtime Hours', 'Rate (£)', 'Day Multiplier', 'Overtime Multiplier', 'Gross (£)',
+  ], rows);
+}
+
+type PayElement = { name: string; units: number; rate: number; amount: number };
+
+function elementName(multiplier: number): string {
+  return multiplier === 1 ? 'Basic Pay' : `Time x${multiplier}`;
+}
+
+/** Hours grouped into pay elements by hourly rate and multiplier, then the CIS deduction. */
+export function payElements(sheet: ApprovedTimesheet): PayElement[] {
+  const elements = new Map<string, PayElement>();
+  const add = (hours: number, rate: number, multiplier: number) => {
+    if (hours <= 0) return;
+    const payRate = round2(rate * multiplier);
+    const key = `${multiplier}@${payRate}`;
+    const element = elements.get(key) ?? { name: elementName(multiplier), units: 0, rate: payRate, amount: 0 };
+    element.units = round2(element.units + hours);
+    element.amount = round2(element.units * payRate);
+    elements.set(key, element);
+  };
+
+  for (const line of sheet.lines) {
+    add(line.basic_hours, line.rate, line.day_multiplier);
+    add(line.overtime_hours, line.rate, line.overtime_multiplier);
+  }
+
+  const result = Array.from(elements.values());
+  if (sheet.totals.cis_deduction > 0) {
+    result.push({ name: `CIS Deduction ${sheet.totals.cis_rate}%`, units: 1, rate: -sheet.totals.cis_deduction, amount: -sheet.totals.cis_deduction });
+  }
+  return result;
+}
+
+/**
+ * Pay elements per operative in the column layout of a Sage 50 Payroll or
+ * Xero pay run import. Operatives without a payroll reference are exported by
+ * name so the import flags them rather than dropping them.
+ */
+export function payrollCsv(sheets: ApprovedTimesheet[], format: PayrollFormat): string {
+  if (format === 'sage') {
+    const rows = sheets.flatMap(sheet => payElements(sheet).map(element => [
+      sheet.resource.payroll_reference || sheet.resource.name,
+      element.name,
+      element.units.toFixed(2),
+      element.rate.toFixed(2),
+      element.amount.toFixed(2),
+    ]));
+    return toCSV(['Employee Reference', 'Payment Name', 'Units', 'Rate', 'Value'], rows);
+  }
+
+  const rows = sheets.flatMap(sheet => {
+    const periodEnd = new Date(`${sheet.week_start}T00:00:00Z`);
+    periodEnd.setUTCDate(periodEnd.getUTCDate() + 6);
+    return payElements(sheet).map(element => [
+      sheet.resource.name,
+      sheet.resource.payroll_reference,
+      periodEnd.toISOString().slice(0, 10),
+      element.name,
+      element.units.toFixed(2),
+      element.rate.toFixed(2),
+      element.amount.toFixed(2),
+    ]);
+  });
+  return toCSV(['Employee Name', 'Employee ID', 'Period End Date', 'Earnings Rate', 'Number Of Units', 'Rate Per Unit', 'Amount'], rows);
+}
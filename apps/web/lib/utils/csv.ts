@@ -0,0 +1,22 @@
+// CSV text for the downloads and payroll exports
+const FORMULA_START = /^[=+\-@]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+function escapeCSV(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let str = String(value);
+  // Names and references are typed in by users; stop a spreadsheet running them
+  // as formulas. Negative amounts such as the CIS deduction stay numbers.
+  if (FORMULA_START.test(str) && !PLAIN_NUMBER.test(str)) {
+    str = `'${str}`;
+  }
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/** Rows of cells to CSV text, header row first. */
+export function toCSV(headers: string[], rows: Array<Array<string | number | null>>): string {
+  return [headers, ...rows].map(row => row.map(cell => escapeCSV(cell)).join(',')).join('\n');
+}
@@ -0,0 +1,6 @@
+/** Shift a YYYY-MM-DD date by whole days, in UTC so clock changes don't move it. */
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
@@ -35,7 +35,7 @@ export function middleware(req: NextRequest) {
   // We simply redirect everything that matches but isn't public
 
   // Whitelist public paths that might be caught by the matcher
-  const publicPaths = ['/login', '/reset-password', '/api/auth', '/_next', '/static', '/favicon.ico'];
+  const publicPaths = ['/login', '/reset-password', '/api/auth', '/quote-portal', '/api/quote-portal', '/api/calendar', '/_next', '/static', '/favicon.ico'];
   const isPublic = publicPaths.some(path => req.nextUrl.pathname.startsWith(path));
 
   // if (!hasSession && !isPublic) {
@@ -0,0 +1,94 @@
+-- SmartQuote v3 Notification Outbox
+-- Per-channel delivery queue (email, web push, webhook) with retry/backoff,
+-- plus per-user notification preferences and quiet hours
+
+-- ============================================================================
+-- NOTIFICATION PREFERENCES TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS smartquote_v3_notification_preferences (
+  user_id UUID PRIMARY KEY,
+  preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- {approvalRequests, mentions, statusChanges, quoteViewed, wonLost, expiring,
+  --  channels: {email, push, webhook}, quietHours: {enabled, start, end, timezone}}
+  -- Webhooks only ever go to the admin-configured NOTIFICATION_WEBHOOK_URL
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE smartquote_v3_notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS notification_preferences_own ON smartquote_v3_notification_preferences;
+CREATE POLICY notification_preferences_own ON smartquote_v3_notification_preferences
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- NOTIFICATION OUTBOX TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS smartquote_v3_notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL REFERENCES smartquote_v3_notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  channel TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_outbox_channel CHECK (channel IN ('email', 'push', 'webhook')),
+  CONSTRAINT valid_outbox_status CHECK (status IN ('pending', 'sent', 'failed', 'suppressed')),
+  UNIQUE (notification_id, channel)
+);
+
+-- Dispatcher picks up due pending entries in order
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON smartquote_v3_notification_outbox(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_notification
+  ON smartquote_v3_notification_outbox(notification_id);
+
+ALTER TABLE smartquote_v3_notification_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are queued by the trigger below, never by clients; only the
+-- recipient can read delivery status. The dispatcher uses the service role.
+DROP POLICY IF EXISTS notification_outbox_insert ON smartquote_v3_notification_outbox;
+
+DROP POLICY IF EXISTS notification_outbox_select_own ON smartquote_v3_notification_outbox;
+CREATE POLICY notification_outbox_select_own ON smartquote_v3_notification_outbox
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- ============================================================================
+-- QUEUEING
+-- ============================================================================
+-- Every stored notification is queued on each external channel. Runs as the
+-- table owner, since users create notifications for each other but cannot write
+-- to the outbox themselves.
+CREATE OR REPLACE FUNCTION enqueue_notification_outbox()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO smartquote_v3_notification_outbox (notification_id, user_id, channel)
+    SELECT NEW.id, NEW.user_id, channel
+    FROM unnest(ARRAY['email', 'push', 'webhook']) AS channel
+    ON CONFLICT (notification_id, channel) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enqueue_notification_outbox ON smartquote_v3_notifications;
+CREATE TRIGGER trigger_enqueue_notification_outbox
+    AFTER INSERT ON smartquote_v3_notifications
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_notification_outbox();
+
+-- Web push subscriptions are stored on mobile devices as JSON in push_token
+COMMENT ON COLUMN smartquote_v3_mobile_devices.push_token IS
+  'FCM/APNS token, or a JSON PushSubscription when push_provider = ''webpush''';
@@ -0,0 +1,33 @@
+-- Quote Expiry Sweeper
+-- Lets task banner items target a single user and be created idempotently
+-- by the scheduled quote sweeper (/api/cron/sweep-quotes)
+
+-- ============================================================================
+-- TASK BANNER: PER-USER TASKS
+-- ============================================================================
+ALTER TABLE task_banner_items
+  ADD COLUMN IF NOT EXISTS assigned_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Stable key for system-generated tasks, e.g. quote-follow-up:<quote id>:<day>
+-- (plain UNIQUE so upserts can target it; manual tasks leave it NULL)
+ALTER TABLE task_banner_items
+  ADD COLUMN IF NOT EXISTS source_key TEXT UNIQUE;
+
+CREATE INDEX IF NOT EXISTS idx_task_banner_items_assigned_user
+  ON task_banner_items(assigned_user_id)
+  WHERE assigned_user_id IS NOT NULL;
+
+-- ============================================================================
+-- SWEEPER SETTINGS
+-- ============================================================================
+-- quote_expiry_days: used when a sent quote has no expires_at/valid_until
+-- auto_follow_up_days: days after sending at which a follow-up call is due
+INSERT INTO smartquote_v3_system_config (key, value, description) VALUES
+  ('quote_expiry_days', '30'::jsonb, 'Days until quote expires by default'),
+  ('auto_follow_up_days', '[7, 14, 21]'::jsonb, 'Days after sending to auto follow-up')
+ON CONFLICT (key) DO NOTHING;
+
+-- Sweeper queries open quotes by expiry
+CREATE INDEX IF NOT EXISTS idx_smartquote_v3_quotes_open_expiry
+  ON smartquote_v3_quotes(expires_at)
+  WHERE status IN ('sent', 'negotiating') AND deleted_at IS NULL;
@@ -0,0 +1,58 @@
+-- SmartQuote v3 Client Portal
+-- Tokenised quote links for clients: views are tracked, and clients can accept
+-- with a typed name and drawn signature or send back change requests.
+-- Public access goes through /api/quote-portal/[token] with the service role.
+
+-- ============================================================================
+-- PORTAL ACCESS
+-- ============================================================================
+ALTER TABLE smartquote_v3_client_portal_access
+  ADD COLUMN IF NOT EXISTS signed_name TEXT,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS created_by UUID;
+
+ALTER TABLE smartquote_v3_client_portal_access ENABLE ROW LEVEL SECURITY;
+
+-- The quote's owner creates and reviews its links; clients never query the
+-- table directly. Views, signatures and revocation are written with the
+-- service role, so there are no UPDATE or DELETE policies.
+DROP POLICY IF EXISTS client_portal_access_staff ON smartquote_v3_client_portal_access;
+DROP POLICY IF EXISTS client_portal_access_owner_select ON smartquote_v3_client_portal_access;
+CREATE POLICY client_portal_access_owner_select ON smartquote_v3_client_portal_access
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM smartquote_v3_quotes q
+      WHERE q.id = quote_id AND q.created_by = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS client_portal_access_owner_insert ON smartquote_v3_client_portal_access;
+CREATE POLICY client_portal_access_owner_insert ON smartquote_v3_client_portal_access
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND signed_at IS NULL
+    AND signature_data IS NULL
+    AND EXISTS (
+      SELECT 1 FROM smartquote_v3_quotes q
+      WHERE q.id = quote_id AND q.created_by = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- CLIENT COMMENTS
+-- ============================================================================
+-- Comments left through the portal have no staff author; the client's name and
+-- email are kept in context
+ALTER TABLE smartquote_v3_comments
+  ALTER COLUMN created_by DROP NOT NULL;
+
+ALTER TABLE smartquote_v3_comments
+  DROP CONSTRAINT IF EXISTS valid_comment_type;
+ALTER TABLE smartquote_v3_comments
+  ADD CONSTRAINT valid_comment_type CHECK (comment_type IN (
+    'general', 'change_request', 'approval_note', 'question', 'answer', 'client_feedback'
+  ));
@@ -0,0 +1,127 @@
+-- SmartQuote v3 Approval Chains
+-- Multi-level approval: rule-driven chains of sequential stages (steps sharing a
+-- stage run in parallel), per-step SLAs with escalation, and conditions from
+-- conditional approvals that must be ticked off before a quote is sent.
+
+-- ============================================================================
+-- CHAIN DEFINITIONS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS smartquote_v3_approval_chains (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- {minAmount, maxMarginPercent, match: 'any' | 'all'}
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{name, stage, approverRole, approverUserIds, requiredApprovals, slaHours,
+  --   escalateToRole, escalateToUserIds}]
+  priority INTEGER NOT NULL DEFAULT 100, -- Lower = checked first
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_chains_active
+  ON smartquote_v3_approval_chains(is_active, priority);
+
+-- ============================================================================
+-- STEPS PER QUOTE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS smartquote_v3_quote_approval_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES smartquote_v3_quotes(id) ON DELETE CASCADE,
+  chain_id UUID REFERENCES smartquote_v3_approval_chains(id) ON DELETE SET NULL,
+  step_index INTEGER NOT NULL,
+  stage INTEGER NOT NULL,
+  name TEXT NOT NULL,
+
+  -- Approvers are resolved from the role when the stage starts
+  approver_role TEXT,
+  approver_user_ids UUID[] NOT NULL DEFAULT '{}',
+  required_approvals INTEGER NOT NULL DEFAULT 1,
+  approvals JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{userId, action, notes, at}]
+
+  status TEXT NOT NULL DEFAULT 'waiting',
+  sla_hours INTEGER NOT NULL DEFAULT 24,
+  started_at TIMESTAMPTZ,
+  due_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+
+  -- Escalation
+  escalate_to_role TEXT,
+  escalate_to_user_ids UUID[],
+  escalation_level INTEGER NOT NULL DEFAULT 0,
+  escalated_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_approval_step_status CHECK (status IN (
+    'waiting', 'pending', 'approved', 'rejected', 'cancelled'
+  ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_approval_steps_quote
+  ON smartquote_v3_quote_approval_steps(quote_id, step_index);
+-- Escalation sweep looks for overdue pending steps
+CREATE INDEX IF NOT EXISTS idx_quote_approval_steps_due
+  ON smartquote_v3_quote_approval_steps(due_at)
+  WHERE status = 'pending';
+
+-- ============================================================================
+-- APPROVAL CONDITIONS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS smartquote_v3_approval_conditions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES smartquote_v3_quotes(id) ON DELETE CASCADE,
+  step_id UUID REFERENCES smartquote_v3_quote_approval_steps(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  is_met BOOLEAN NOT NULL DEFAULT false,
+  met_by UUID,
+  met_at TIMESTAMPTZ,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_conditions_open
+  ON smartquote_v3_approval_conditions(quote_id)
+  WHERE is_met = false;
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+ALTER TABLE smartquote_v3_approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smartquote_v3_quote_approval_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smartquote_v3_approval_conditions ENABLE ROW LEVEL SECURITY;
+
+-- Staff can read chains, steps and conditions. Every write goes through
+-- /api/quotes/approval (or the escalation cron) with the service role, which
+-- checks the caller is an approver on the step before recording a decision.
+DROP POLICY IF EXISTS approval_chains_staff ON smartquote_v3_approval_chains;
+DROP POLICY IF EXISTS approval_chains_select ON smartquote_v3_approval_chains;
+CREATE POLICY approval_chains_select ON smartquote_v3_approval_chains
+  FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS quote_approval_steps_staff ON smartquote_v3_quote_approval_steps;
+DROP POLICY IF EXISTS quote_approval_steps_select ON smartquote_v3_quote_approval_steps;
+CREATE POLICY quote_approval_steps_select ON smartquote_v3_quote_approval_steps
+  FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS approval_conditions_staff ON smartquote_v3_approval_conditions;
+DROP POLICY IF EXISTS approval_conditions_select ON smartquote_v3_approval_conditions;
+CREATE POLICY approval_conditions_select ON smartquote_v3_approval_conditions
+  FOR SELECT TO authenticated USING (true);
+
+-- ============================================================================
+-- DEFAULT CHAIN
+-- ============================================================================
+INSERT INTO smartquote_v3_approval_chains (name, description, conditions, steps, priority)
+SELECT
+  'High value or low margin',
+  'Ops manager then director for quotes over £25k or under 15% margin',
+  '{"minAmount": 25000, "maxMarginPercent": 15, "match": "any"}'::jsonb,
+  '[
+    {"name": "Ops manager", "stage": 1, "approverRole": "ops", "requiredApprovals": 1, "slaHours": 24, "escalateToRole": "director"},
+    {"name": "Director", "stage": 2, "approverRole": "director", "requiredApprovals": 1, "slaHours": 48, "escalateToRole": "admin"}
+  ]'::jsonb,
+  10
+WHERE NOT EXISTS (SELECT 1 FROM smartquote_v3_approval_chains);
@@ -0,0 +1,27 @@
+-- POD to job matching
+-- The matcher links confident matches straight to job_id. Weaker matches are
+-- kept as a suggestion for the review queue to confirm.
+
+ALTER TABLE delivery_pods
+  ADD COLUMN IF NOT EXISTS suggested_job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS job_match_score NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS job_match_reasons TEXT[],
+  ADD COLUMN IF NOT EXISTS job_matched_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_delivery_pods_job ON delivery_pods(job_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_delivery_pods_sales_order_ref ON delivery_pods(sales_order_ref);
+
+-- p.* is expanded when a view is created, so rebuild it to pick up the new columns
+DROP VIEW IF EXISTS pods_needing_review;
+CREATE VIEW pods_needing_review AS
+SELECT
+  p.*,
+  s.name as supplier_name,
+  calculate_overall_confidence(p.id) as overall_confidence
+FROM delivery_pods p
+LEFT JOIN suppliers s ON p.supplier_id = s.id
+WHERE
+  p.deleted_at IS NULL
+  AND p.status IN ('pending', 'needs_review')
+  AND needs_review(p.id) = TRUE
+ORDER BY p.created_at ASC;
@@ -0,0 +1,57 @@
+-- Conflict-aware offline sync
+-- Site devices send the row_version they last saw with each queued write.
+-- /api/v2/sync/batch only applies the write if the row is still on that version,
+-- and records each operation's idempotency key so a replayed flush is a no-op.
+
+ALTER TABLE product_progress
+  ADD COLUMN IF NOT EXISTS row_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE daily_progress_log
+  ADD COLUMN IF NOT EXISTS row_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE daily_closeout_forms
+  ADD COLUMN IF NOT EXISTS row_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_row_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.row_version := OLD.row_version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_product_progress_row_version ON product_progress;
+CREATE TRIGGER trg_product_progress_row_version
+  BEFORE UPDATE ON product_progress
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+
+DROP TRIGGER IF EXISTS trg_daily_progress_log_row_version ON daily_progress_log;
+CREATE TRIGGER trg_daily_progress_log_row_version
+  BEFORE UPDATE ON daily_progress_log
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+
+DROP TRIGGER IF EXISTS trg_daily_closeout_forms_row_version ON daily_closeout_forms;
+CREATE TRIGGER trg_daily_closeout_forms_row_version
+  BEFORE UPDATE ON daily_closeout_forms
+  FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+
+-- offline_sync_queue doubles as the ledger of operations the server has seen
+ALTER TABLE offline_sync_queue
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS conflict JSONB;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'unique_sync_idempotency_key'
+  ) THEN
+    ALTER TABLE offline_sync_queue
+      ADD CONSTRAINT unique_sync_idempotency_key UNIQUE (idempotency_key);
+  END IF;
+END $$;
+
+ALTER TABLE offline_sync_queue DROP CONSTRAINT IF EXISTS valid_sync_status;
+ALTER TABLE offline_sync_queue
+  ADD CONSTRAINT valid_sync_status
+  CHECK (sync_status IN ('pending', 'processing', 'completed', 'failed', 'conflict'));
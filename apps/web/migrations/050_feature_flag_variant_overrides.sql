@@ -0,0 +1,10 @@
+-- Feature flag overrides can force a variant
+-- Flags are now evaluated in lib/featureFlagEngine.ts (browser and API routes alike).
+-- A user override wins until expires_at; on 'variant' flags it may pin the variant.
+
+ALTER TABLE user_flag_overrides
+  ADD COLUMN IF NOT EXISTS variant VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_user_flag_overrides_expiry
+  ON user_flag_overrides(expires_at)
+  WHERE expires_at IS NOT NULL;
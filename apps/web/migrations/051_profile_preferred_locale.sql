@@ -0,0 +1,14 @@
+-- Per-user interface language
+-- Read by lib/I18nProvider.tsx; NULL means "use the device language".
+-- Must stay in step with SUPPORTED_LOCALES in lib/i18n.ts.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS preferred_locale TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'profiles_preferred_locale_check') THEN
+    ALTER TABLE public.profiles ADD CONSTRAINT profiles_preferred_locale_check
+      CHECK (preferred_locale IS NULL OR preferred_locale IN ('en', 'es', 'pt', 'ro'));
+  END IF;
+END $$;
@@ -0,0 +1,19 @@
+-- Size of the sample image a template's field boxes were drawn on
+-- template_fields x/y/width/height are pixels on that image; lib/templateZoneExtractor.ts
+-- divides by these to place the boxes on a PDF page of any size.
+-- Templates without a reference size are skipped by zone extraction and go straight to Gemini.
+
+ALTER TABLE document_templates
+  ADD COLUMN IF NOT EXISTS reference_width INTEGER,
+  ADD COLUMN IF NOT EXISTS reference_height INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'document_templates_reference_size_check') THEN
+    ALTER TABLE document_templates ADD CONSTRAINT document_templates_reference_size_check
+      CHECK (
+        (reference_width IS NULL AND reference_height IS NULL)
+        OR (reference_width > 0 AND reference_height > 0)
+      );
+  END IF;
+END $$;
@@ -0,0 +1,176 @@
+-- RAMS (risk assessment & method statement) builder
+-- rams_hazards is the hazard library: each row applies to a job that carries its
+-- risk code (job_risk_flags.code, or 'GENERAL' for every job) or installs products
+-- of its category (product_catalogue_items.category).
+-- lib/rams.ts builds the document from the library, the job's products and its
+-- labour allocations; pages/api/jobs/[id]/rams.ts renders each issue as a new
+-- version into job_documents and then marks the earlier ones superseded.
+-- The library is edited on /rams-hazards.
+-- Operatives sign the issued version for their shifts on the Today page, and a
+-- shift can't be started until its operative has signed.
+
+-- ============================================================================
+-- HAZARD LIBRARY
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS rams_hazards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  risk_code TEXT,
+  product_category TEXT,
+  hazard TEXT NOT NULL,
+  persons_at_risk TEXT NOT NULL,
+  controls TEXT[] NOT NULL DEFAULT '{}',
+  residual_rating TEXT NOT NULL DEFAULT 'low' CHECK (residual_rating IN ('low', 'medium', 'high')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT rams_hazards_key_check CHECK ((risk_code IS NULL) <> (product_category IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_rams_hazards_risk_code ON rams_hazards(risk_code) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_rams_hazards_category ON rams_hazards(product_category) WHERE is_active;
+
+-- ============================================================================
+-- ISSUED DOCUMENTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS rams_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'superseded')),
+  job_document_id UUID REFERENCES job_documents(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL,
+  content JSONB NOT NULL,  -- RamsContent from lib/rams.ts, as rendered
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (job_id, version)
+);
+
+-- A new version is inserted before the old one is superseded, so a job is never
+-- left without issued RAMS; while both are issued the highest version is current
+CREATE INDEX IF NOT EXISTS idx_rams_documents_issued
+  ON rams_documents(job_id, version DESC) WHERE status = 'issued';
+
+-- ============================================================================
+-- OPERATIVE SIGN-IN
+-- ============================================================================
+-- Links a worker to the account they sign RAMS with
+ALTER TABLE labour_resources
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labour_resources_user
+  ON labour_resources(user_id) WHERE user_id IS NOT NULL;
+
+-- ============================================================================
+-- OPERATIVE SIGNATURES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS rams_signatures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rams_document_id UUID NOT NULL REFERENCES rams_documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  signature_name TEXT NOT NULL,
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (rams_document_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rams_signatures_user ON rams_signatures(user_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE rams_hazards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rams_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rams_signatures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view hazards" ON rams_hazards;
+CREATE POLICY "Authenticated users can view hazards"
+  ON rams_hazards FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Ops/Director/Admin can manage hazards" ON rams_hazards;
+CREATE POLICY "Ops/Director/Admin can manage hazards"
+  ON rams_hazards FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('ops', 'director', 'admin', 'general_manager')
+    )
+  );
+
+-- Documents are written by the API route with the service role
+DROP POLICY IF EXISTS "Authenticated users can view RAMS" ON rams_documents;
+CREATE POLICY "Authenticated users can view RAMS"
+  ON rams_documents FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view signatures" ON rams_signatures;
+CREATE POLICY "Authenticated users can view signatures"
+  ON rams_signatures FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Operatives sign for themselves, and only the issued version
+DROP POLICY IF EXISTS "Users can sign issued RAMS" ON rams_signatures;
+CREATE POLICY "Users can sign issued RAMS"
+  ON rams_signatures FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM rams_documents d
+      WHERE d.id = rams_signatures.rams_document_id
+      AND d.status = 'issued'
+    )
+  );
+
+-- ============================================================================
+-- SEED LIBRARY
+-- ============================================================================
+INSERT INTO rams_hazards (risk_code, product_category, hazard, persons_at_risk, controls, residual_rating, sort_order)
+SELECT v.risk_code, v.product_category, v.hazard, v.persons_at_risk, v.controls, v.residual_rating, v.sort_order
+FROM (VALUES
+  ('GENERAL', NULL, 'Manual handling of boxed furniture', 'Installers',
+    ARRAY['Two-person lift for items over 25kg', 'Use trolleys and sack trucks between vehicle and floor', 'Manual handling training in date for all operatives'],
+    'low', 10),
+  ('GENERAL', NULL, 'Slips and trips from packaging and tools', 'Installers, client staff, visitors',
+    ARRAY['Keep walkways clear and cordon the work area', 'Remove packaging to the agreed waste point as work proceeds', 'Tidy the area at each break and at end of day'],
+    'low', 20),
+  ('GENERAL', NULL, 'Cuts from blades, fixings and sharp edges', 'Installers',
+    ARRAY['Safety knives with retractable blades only', 'Cut-resistant gloves when unpacking', 'First aid kit on site'],
+    'low', 30),
+  ('ELEVATION', NULL, 'Falls from height', 'Installers, persons below',
+    ARRAY['Podium steps or mobile tower, no chairs or desks as platforms', 'Tower erected by PASMA-trained operatives', 'Exclusion zone beneath work at height', 'Tools tethered where practicable'],
+    'medium', 10),
+  ('ASBESTOS', NULL, 'Disturbance of asbestos-containing materials', 'Installers, client staff',
+    ARRAY['Review the asbestos register before starting', 'No drilling or fixing into suspected materials', 'Stop work and report if suspect material is found', 'Asbestos awareness training for all operatives'],
+    'high', 10),
+  ('LIVE_SITE', NULL, 'Working in an occupied client site', 'Client staff, visitors, installers',
+    ARRAY['Site induction with the client contact on arrival', 'Barriers and signage around the work area', 'Agree noisy work and deliveries out of hours', 'Keep fire exits and routes clear at all times'],
+    'medium', 10),
+  ('POWER_ISOLATION', NULL, 'Electric shock during connection to building power', 'Installers, client staff',
+    ARRAY['Isolation by a competent electrician with lock-off and permit', 'Prove dead before work', 'Only qualified electricians connect to building supply'],
+    'medium', 10),
+  (NULL, 'desk', 'Crush and pinch points when assembling and levelling desks', 'Installers',
+    ARRAY['Assemble frames on the floor, then lift into place with two people', 'Check height-adjustable frames are unpowered while fitting'],
+    'low', 10),
+  (NULL, 'chair', 'Strain from repeated lifting of chairs', 'Installers',
+    ARRAY['Move chairs on trolleys or rolled on castors', 'Rotate tasks on large chair deliveries'],
+    'low', 10),
+  (NULL, 'storage', 'Toppling of tall storage units', 'Installers, client staff',
+    ARRAY['Fix tall units to wall or each other as specified', 'Load from the bottom drawer up, one drawer open at a time', 'Fit anti-tilt devices before handover'],
+    'medium', 10),
+  (NULL, 'power', 'Electric shock from desk power modules', 'Installers, client staff',
+    ARRAY['Connect modules with supply off', 'PAT test or check certification before handover', 'Route cables away from trip points'],
+    'low', 10),
+  (NULL, 'lighting', 'Falls and shock when fitting task or ceiling lighting', 'Installers',
+    ARRAY['Use podium steps for overhead fitting', 'Lighting wired only by a qualified electrician'],
+    'medium', 10),
+  (NULL, 'table', 'Crush injuries handling large table tops', 'Installers',
+    ARRAY['Two-person handling for tops over 1600mm, more for glass or stone', 'Plan the route and door widths before moving tops'],
+    'low', 10)
+) AS v(risk_code, product_category, hazard, persons_at_risk, controls, residual_rating, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM rams_hazards);
@@ -0,0 +1,109 @@
+-- Snag lists for jobs in the 'snagging' status
+-- Each snag may be pinned to the job's floor plan (pin_x/pin_y in the plan's
+-- pixel space, as PlacedFurniture x/y) and carry one photo in job-photos.
+-- Lifecycle (lib/snags.ts): open -> in_progress -> fixed -> closed, or waived.
+-- Fixed snags are closed by the client through the guest share (temp_access_tokens
+-- + job_pins, see /api/guest/list-snags and /api/guest/sign-off-snags) or by staff.
+-- A job cannot be completed while any snag is still open, in progress or
+-- fixed-but-unsigned.
+
+CREATE TABLE IF NOT EXISTS snags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  location TEXT,
+  category TEXT NOT NULL DEFAULT 'functional'
+    CHECK (category IN ('cosmetic', 'functional', 'damage', 'missing', 'safety')),
+  responsible_party TEXT NOT NULL DEFAULT 'installer'
+    CHECK (responsible_party IN ('installer', 'manufacturer', 'client')),
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'in_progress', 'fixed', 'closed', 'waived')),
+  due_date DATE,
+  photo_path TEXT,
+  floorplan_id TEXT REFERENCES job_floorplans(id) ON DELETE SET NULL,
+  furniture_id TEXT,  -- PlacedFurniture.id the snag is on, if any
+  pin_x NUMERIC,
+  pin_y NUMERIC,
+  waived_reason TEXT,
+  signed_off_by TEXT,  -- name given at sign-off; guests have no user id
+  signed_off_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+  CONSTRAINT snags_waived_reason_check CHECK (status <> 'waived' OR waived_reason IS NOT NULL),
+  CONSTRAINT snags_pin_check CHECK ((pin_x IS NULL) = (pin_y IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_snags_job ON snags(job_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_snags_open ON snags(job_id, status)
+  WHERE deleted_at IS NULL AND status NOT IN ('closed', 'waived');
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE snags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view snags" ON snags;
+CREATE POLICY "Authenticated users can view snags"
+  ON snags FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can raise snags" ON snags;
+CREATE POLICY "Authenticated users can raise snags"
+  ON snags FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Authenticated users can update snags" ON snags;
+CREATE POLICY "Authenticated users can update snags"
+  ON snags FOR UPDATE
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- COMPLETION GATE
+-- ============================================================================
+-- Every path that completes a job (StatusPill, the job page, lib/jobs.ts) writes
+-- jobs.status directly, so the rule lives here rather than in each caller.
+CREATE OR REPLACE FUNCTION block_completion_with_open_snags()
+RETURNS TRIGGER AS $$
+DECLARE
+  open_count INTEGER;
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    SELECT COUNT(*) INTO open_count
+    FROM snags
+    WHERE job_id = NEW.id
+      AND deleted_at IS NULL
+      AND status NOT IN ('closed', 'waived');
+
+    IF open_count > 0 THEN
+      RAISE EXCEPTION 'Job has % unresolved snag(s); close or waive them before completing', open_count
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_jobs_block_completion_with_open_snags ON jobs;
+CREATE TRIGGER trg_jobs_block_completion_with_open_snags
+  BEFORE UPDATE OF status ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION block_completion_with_open_snags();
+
+CREATE OR REPLACE FUNCTION touch_snags_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_snags_updated_at ON snags;
+CREATE TRIGGER trg_snags_updated_at
+  BEFORE UPDATE ON snags
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_snags_updated_at();
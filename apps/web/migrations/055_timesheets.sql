@@ -0,0 +1,163 @@
+-- Weekly timesheets built from labour_shifts
+-- One timesheet per resource per week (week_start is the Monday). Lifecycle
+-- (lib/timesheets.ts): draft -> submitted (supervisor) -> approved (manager), or
+-- back to rejected for correction. On approval the pay lines are frozen into
+-- timesheet_lines, the week's shifts are locked and the per-job labour cost is
+-- rolled into job_costs. A manager can reopen an approved week, which drops its
+-- lines and unlocks it as submitted. All writes go through /api/labour/timesheets.
+
+-- Pay settings for the timesheet calculation; hours past the weekly threshold
+-- are overtime, and each hour is paid at the higher of its day and overtime rate
+ALTER TABLE org_settings
+  ADD COLUMN IF NOT EXISTS timesheet_settings JSONB NOT NULL DEFAULT '{
+    "weekly_overtime_threshold_hours": 40,
+    "overtime_multiplier": 1.5,
+    "saturday_multiplier": 1.5,
+    "sunday_multiplier": 2,
+    "holiday_multiplier": 2
+  }'::jsonb;
+
+-- Self-employed operatives are paid under CIS: 20% registered, 30% unregistered,
+-- 0% with gross payment status
+ALTER TABLE labour_resources
+  ADD COLUMN IF NOT EXISTS employment_type TEXT NOT NULL DEFAULT 'employee'
+    CHECK (employment_type IN ('employee', 'self_employed')),
+  ADD COLUMN IF NOT EXISTS cis_rate NUMERIC(5,2) CHECK (cis_rate IN (0, 20, 30)),
+  ADD COLUMN IF NOT EXISTS payroll_reference TEXT;  -- employee/works number in Sage or Xero
+
+-- Actual labour from approved timesheets, alongside the planned figures
+ALTER TABLE job_costs
+  ADD COLUMN IF NOT EXISTS timesheet_labour_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS timesheet_labour_cost NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS timesheet_weeks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES labour_resources(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  submitted_by UUID REFERENCES auth.users(id),
+  submitted_at TIMESTAMPTZ,
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+  -- Frozen at approval: hours, basic/overtime split, gross, CIS and net
+  totals JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (resource_id, week_start),
+  CONSTRAINT timesheet_weeks_rejection_check CHECK (status <> 'rejected' OR rejection_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheet_weeks_week ON timesheet_weeks(week_start, status);
+
+CREATE TABLE IF NOT EXISTS timesheet_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  timesheet_id UUID NOT NULL REFERENCES timesheet_weeks(id) ON DELETE CASCADE,
+  shift_id UUID REFERENCES labour_shifts(id) ON DELETE SET NULL,
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  shift_date DATE NOT NULL,
+  hours NUMERIC(6,2) NOT NULL,
+  basic_hours NUMERIC(6,2) NOT NULL,
+  overtime_hours NUMERIC(6,2) NOT NULL,
+  rate NUMERIC(8,2) NOT NULL,
+  day_multiplier NUMERIC(4,2) NOT NULL,
+  overtime_multiplier NUMERIC(4,2) NOT NULL,
+  gross NUMERIC(10,2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheet_lines_timesheet ON timesheet_lines(timesheet_id);
+CREATE INDEX IF NOT EXISTS idx_timesheet_lines_job ON timesheet_lines(job_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Reads only; submission and approval are role-checked in the API and written
+-- with the service role. Pay is visible to approvers (canApproveTimesheets) and
+-- to operatives for their own weeks (labour_resources.user_id, migration 053).
+ALTER TABLE timesheet_weeks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timesheet_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view timesheets" ON timesheet_weeks;
+DROP POLICY IF EXISTS "Approvers and operatives can view timesheets" ON timesheet_weeks;
+CREATE POLICY "Approvers and operatives can view timesheets"
+  ON timesheet_weeks FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('director', 'general_manager', 'manager', 'admin')
+    )
+    OR EXISTS (
+      SELECT 1 FROM labour_resources
+      WHERE labour_resources.id = timesheet_weeks.resource_id
+      AND labour_resources.user_id = auth.uid()
+    )
+  );
+
+-- Lines follow their week: the subquery is itself filtered by the policy above
+DROP POLICY IF EXISTS "Authenticated users can view timesheet lines" ON timesheet_lines;
+DROP POLICY IF EXISTS "Approvers and operatives can view timesheet lines" ON timesheet_lines;
+CREATE POLICY "Approvers and operatives can view timesheet lines"
+  ON timesheet_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM timesheet_weeks
+      WHERE timesheet_weeks.id = timesheet_lines.timesheet_id
+    )
+  );
+
+-- ============================================================================
+-- WEEK LOCK
+-- ============================================================================
+-- Shifts are written from the labour API, the calendar and the scheduler, so
+-- the lock lives here: nothing in an approved week can be added, moved or removed.
+CREATE OR REPLACE FUNCTION block_shift_changes_in_approved_week()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+    SELECT 1 FROM timesheet_weeks
+    WHERE resource_id = OLD.resource_id
+      AND week_start = date_trunc('week', OLD.shift_date)::date
+      AND status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Timesheet for week of % is approved and locked', date_trunc('week', OLD.shift_date)::date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND EXISTS (
+    SELECT 1 FROM timesheet_weeks
+    WHERE resource_id = NEW.resource_id
+      AND week_start = date_trunc('week', NEW.shift_date)::date
+      AND status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Timesheet for week of % is approved and locked', date_trunc('week', NEW.shift_date)::date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_labour_shifts_week_lock ON labour_shifts;
+CREATE TRIGGER trg_labour_shifts_week_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON labour_shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION block_shift_changes_in_approved_week();
+
+CREATE OR REPLACE FUNCTION touch_timesheet_weeks_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_timesheet_weeks_updated_at ON timesheet_weeks;
+CREATE TRIGGER trg_timesheet_weeks_updated_at
+  BEFORE UPDATE ON timesheet_weeks
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_timesheet_weeks_updated_at();
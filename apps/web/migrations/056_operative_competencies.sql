@@ -0,0 +1,131 @@
+-- Operative tickets and competencies
+-- resource_competencies is the register of cards each labour resource holds
+-- (CSCS, IPAF, PASMA, ...) with its number, expiry and a scanned copy in the
+-- private "competency-scans" storage bucket.
+-- ticket_requirements says which tickets a job needs: each rule applies to a
+-- job that carries its risk code (job_risk_flags.code, or 'GENERAL' for every
+-- job) or installs products of its category, as rams_hazards does. Jobs can
+-- declare further tickets in job_required_tickets.
+-- lib/competencies.ts checks shifts and allocations against them; the
+-- ticket-expiry cron raises a task banner item 30 days before a card expires.
+
+-- ============================================================================
+-- COMPETENCY REGISTER
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS resource_competencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES labour_resources(id) ON DELETE CASCADE,
+  ticket_type TEXT NOT NULL CHECK (ticket_type IN (
+    'CSCS', 'IPAF', 'PASMA', 'SMSTS', 'SSSTS', 'FIRST_AID',
+    'ASBESTOS_AWARENESS', 'ECS', 'MANUAL_HANDLING'
+  )),
+  card_number TEXT,
+  issued_on DATE,
+  expires_on DATE,  -- NULL for tickets that do not expire
+  scan_path TEXT,   -- object path in the competency-scans bucket
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resource_competencies_resource ON resource_competencies(resource_id);
+CREATE INDEX IF NOT EXISTS idx_resource_competencies_expiry
+  ON resource_competencies(expires_on) WHERE expires_on IS NOT NULL;
+
+-- ============================================================================
+-- REQUIRED TICKETS
+-- ============================================================================
+-- Holding any one of accepted_tickets meets the rule. 'block' stops a shift
+-- being booked for someone without it; 'warn' asks first.
+CREATE TABLE IF NOT EXISTS ticket_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  risk_code TEXT,
+  product_category TEXT,
+  accepted_tickets TEXT[] NOT NULL CHECK (cardinality(accepted_tickets) > 0),
+  enforcement TEXT NOT NULL DEFAULT 'warn' CHECK (enforcement IN ('block', 'warn')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT ticket_requirements_key_check CHECK ((risk_code IS NULL) <> (product_category IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS job_required_tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  accepted_tickets TEXT[] NOT NULL CHECK (cardinality(accepted_tickets) > 0),
+  enforcement TEXT NOT NULL DEFAULT 'block' CHECK (enforcement IN ('block', 'warn')),
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_required_tickets_job ON job_required_tickets(job_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Reads only; the register and job requirements are role-checked in the API
+-- and written with the service role. Cards (and the path to their scans) are
+-- visible to the roles that manage them and to operatives for their own
+-- (labour_resources.user_id, migration 053).
+ALTER TABLE resource_competencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_requirements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_required_tickets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view competencies" ON resource_competencies;
+DROP POLICY IF EXISTS "Managers and operatives can view competencies" ON resource_competencies;
+CREATE POLICY "Managers and operatives can view competencies"
+  ON resource_competencies FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('ops', 'director', 'admin', 'general_manager')
+    )
+    OR EXISTS (
+      SELECT 1 FROM labour_resources
+      WHERE labour_resources.id = resource_competencies.resource_id
+      AND labour_resources.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view ticket requirements" ON ticket_requirements;
+CREATE POLICY "Authenticated users can view ticket requirements"
+  ON ticket_requirements FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view job tickets" ON job_required_tickets;
+CREATE POLICY "Authenticated users can view job tickets"
+  ON job_required_tickets FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION touch_resource_competencies_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_resource_competencies_updated_at ON resource_competencies;
+CREATE TRIGGER trg_resource_competencies_updated_at
+  BEFORE UPDATE ON resource_competencies
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_resource_competencies_updated_at();
+
+-- ============================================================================
+-- SEED RULES
+-- ============================================================================
+INSERT INTO ticket_requirements (risk_code, product_category, accepted_tickets, enforcement)
+SELECT v.risk_code, v.product_category, v.accepted_tickets, v.enforcement
+FROM (VALUES
+  ('GENERAL', NULL, ARRAY['CSCS'], 'warn'),
+  ('ELEVATION', NULL, ARRAY['IPAF', 'PASMA'], 'block'),
+  ('ASBESTOS', NULL, ARRAY['ASBESTOS_AWARENESS'], 'block'),
+  ('POWER_ISOLATION', NULL, ARRAY['ECS'], 'block'),
+  (NULL, 'lighting', ARRAY['ECS'], 'warn')
+) AS v(risk_code, product_category, accepted_tickets, enforcement)
+WHERE NOT EXISTS (SELECT 1 FROM ticket_requirements);
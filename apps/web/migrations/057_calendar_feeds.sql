@@ -0,0 +1,109 @@
+-- iCalendar (RFC 5545) feeds of the labour schedule
+-- calendar_feed_tokens holds the secret in each subscription URL
+-- (/api/calendar/<token>.ics): one operative's shifts, one job's allocated days,
+-- or every job's days for the whole company. Feeds are created and revoked
+-- through /api/calendar/feeds.
+-- labour_allocation_days keeps one row per job and day that has ever been
+-- allocated, so each day has a stable event UID and days taken off a job can be
+-- published as cancelled. It is kept in step with labour_allocations by trigger,
+-- since allocations are rewritten wholesale whenever a schedule is saved.
+
+-- ============================================================================
+-- FEED TOKENS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,
+  scope TEXT NOT NULL CHECK (scope IN ('resource', 'job', 'company')),
+  resource_id UUID REFERENCES labour_resources(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES jobs(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  CONSTRAINT calendar_feed_tokens_scope_check CHECK (
+    (scope = 'resource' AND resource_id IS NOT NULL AND job_id IS NULL)
+    OR (scope = 'job' AND job_id IS NOT NULL AND resource_id IS NULL)
+    OR (scope = 'company' AND resource_id IS NULL AND job_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_owner ON calendar_feed_tokens(created_by);
+
+-- ============================================================================
+-- ALLOCATED DAYS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS labour_allocation_days (
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  cancelled_at TIMESTAMPTZ,  -- set when the day no longer has anyone allocated
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (job_id, work_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_labour_allocation_days_date ON labour_allocation_days(work_date);
+
+CREATE OR REPLACE FUNCTION refresh_labour_allocation_day(p_job_id UUID, p_work_date DATE)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM labour_allocations
+    WHERE job_id = p_job_id AND work_date = p_work_date AND headcount > 0
+  ) THEN
+    INSERT INTO labour_allocation_days (job_id, work_date, cancelled_at, updated_at)
+    VALUES (p_job_id, p_work_date, NULL, NOW())
+    ON CONFLICT (job_id, work_date) DO UPDATE SET cancelled_at = NULL, updated_at = NOW();
+  ELSE
+    UPDATE labour_allocation_days
+    SET cancelled_at = NOW(), updated_at = NOW()
+    WHERE job_id = p_job_id AND work_date = p_work_date AND cancelled_at IS NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_labour_allocation_days()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_labour_allocation_day(OLD.job_id, OLD.work_date);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_labour_allocation_day(NEW.job_id, NEW.work_date);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_labour_allocations_days ON labour_allocations;
+CREATE TRIGGER trg_labour_allocations_days
+  AFTER INSERT OR UPDATE OR DELETE ON labour_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_labour_allocation_days();
+
+-- Days already allocated
+INSERT INTO labour_allocation_days (job_id, work_date, updated_at)
+SELECT job_id, work_date, MAX(updated_at)
+FROM labour_allocations
+GROUP BY job_id, work_date
+HAVING SUM(headcount) > 0
+ON CONFLICT (job_id, work_date) DO NOTHING;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Feed tokens are secrets: people see only their own, and the feed endpoint
+-- reads them with the service role
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE labour_allocation_days ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own calendar feeds" ON calendar_feed_tokens;
+CREATE POLICY "Users can view their own calendar feeds"
+  ON calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Authenticated users can view allocated days" ON labour_allocation_days;
+CREATE POLICY "Authenticated users can view allocated days"
+  ON labour_allocation_days FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,9 @@
+-- Job programme: a start date set by dragging a task on the job's Gantt
+-- The programme is laid out from generated_tasks and labour_allocations each time
+-- it is viewed (lib/programme.ts); the only thing stored is where someone has
+-- held a task back, as a start-no-earlier-than date.
+
+ALTER TABLE generated_tasks
+ADD COLUMN IF NOT EXISTS start_no_earlier_than DATE;
+
+COMMENT ON COLUMN generated_tasks.start_no_earlier_than IS 'Programme constraint: the task starts on or after this date';
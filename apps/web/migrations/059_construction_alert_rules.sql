@@ -0,0 +1,134 @@
+-- Rule-based construction alerts
+-- construction_alert_rules configures the checks lib/alertRules.ts runs against
+-- each live job after a daily close-out and on the construction-alerts cron:
+--   low_efficiency       close-out efficiency below threshold % for window_days logged days
+--   projected_late       LabourCalculator's projected completion more than threshold days past jobs.end_date
+--   product_blocked      a product_progress row blocked for more than threshold hours
+--   labour_bank_overrun  hours logged above threshold % of the job's labour bank
+-- Each firing is one construction_alerts row keyed by dedupe_key (rule, job and,
+-- for products, the product). The alert stays live until the condition clears:
+-- open alerts are then resolved by the engine, and an alert someone dismissed or
+-- resolved by hand is not raised again while the condition persists. Alerts still
+-- open after escalate_after_hours go up in severity and to escalate_role.
+-- Assignee roles are profiles.role values, or 'lead_installer' for the job's lead.
+
+-- ============================================================================
+-- RULES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS construction_alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN (
+    'low_efficiency', 'projected_late', 'product_blocked', 'labour_bank_overrun'
+  )),
+  threshold NUMERIC NOT NULL,
+  window_days INTEGER NOT NULL DEFAULT 1 CHECK (window_days > 0),
+  alert_type VARCHAR(50) NOT NULL CHECK (alert_type IN (
+    'schedule_delay', 'budget_overrun', 'safety_incident', 'quality_issue',
+    'weather_delay', 'material_shortage', 'equipment_failure', 'milestone_at_risk'
+  )),
+  severity VARCHAR(20) NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  assignee_role TEXT NOT NULL DEFAULT 'ops',
+  due_in_days INTEGER NOT NULL DEFAULT 2 CHECK (due_in_days >= 0),
+  escalate_after_hours INTEGER CHECK (escalate_after_hours IS NULL OR escalate_after_hours > 0),
+  escalate_severity VARCHAR(20) CHECK (escalate_severity IN ('low', 'medium', 'high', 'critical')),
+  escalate_role TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION touch_construction_alert_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_construction_alert_rules_updated_at ON construction_alert_rules;
+CREATE TRIGGER trg_construction_alert_rules_updated_at
+  BEFORE UPDATE ON construction_alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_construction_alert_rules_updated_at();
+
+-- ============================================================================
+-- ALERTS RAISED BY RULES
+-- ============================================================================
+ALTER TABLE construction_alerts
+ADD COLUMN IF NOT EXISTS rule_code TEXT,
+ADD COLUMN IF NOT EXISTS dedupe_key TEXT,
+ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cleared_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN construction_alerts.dedupe_key IS 'Set on rule alerts: one live alert per rule, job and subject';
+COMMENT ON COLUMN construction_alerts.cleared_at IS 'When the alert rule stopped firing; NULL while the condition holds';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_construction_alerts_live_dedupe
+  ON construction_alerts(dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND cleared_at IS NULL;
+
+-- ============================================================================
+-- BLOCKED PRODUCTS
+-- ============================================================================
+-- last_updated moves on every progress update, so keep when the block started
+ALTER TABLE product_progress
+ADD COLUMN IF NOT EXISTS blocked_since TIMESTAMPTZ;
+
+UPDATE product_progress
+SET blocked_since = COALESCE(last_updated, NOW())
+WHERE status = 'blocked' AND blocked_since IS NULL;
+
+CREATE OR REPLACE FUNCTION track_product_progress_blocked_since()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'blocked' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'blocked' THEN
+      NEW.blocked_since = NOW();
+    END IF;
+  ELSE
+    NEW.blocked_since = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_product_progress_blocked_since ON product_progress;
+CREATE TRIGGER trg_product_progress_blocked_since
+  BEFORE INSERT OR UPDATE OF status ON product_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION track_product_progress_blocked_since();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Reads only; rules are edited through /api/construction/alert-rules
+ALTER TABLE construction_alert_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view alert rules" ON construction_alert_rules;
+CREATE POLICY "Authenticated users can view alert rules"
+  ON construction_alert_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- SEED RULES
+-- ============================================================================
+INSERT INTO construction_alert_rules (
+  code, name, metric, threshold, window_days, alert_type, severity,
+  assignee_role, due_in_days, escalate_after_hours, escalate_severity, escalate_role
+)
+SELECT v.*
+FROM (VALUES
+  ('efficiency-below-70-3d', 'Efficiency below 70% for 3 days', 'low_efficiency', 70::NUMERIC, 3,
+   'schedule_delay', 'medium', 'lead_installer', 2, 48, 'high', 'ops'),
+  ('projected-late', 'Projected to finish after the end date', 'projected_late', 0::NUMERIC, 1,
+   'milestone_at_risk', 'high', 'ops', 1, 72, 'critical', 'director'),
+  ('product-blocked-48h', 'Product blocked for over 48 hours', 'product_blocked', 48::NUMERIC, 1,
+   'material_shortage', 'high', 'ops', 1, 24, 'critical', 'director'),
+  ('labour-bank-overrun', 'Hours logged over the labour bank', 'labour_bank_overrun', 100::NUMERIC, 1,
+   'budget_overrun', 'high', 'ops', 2, 72, 'critical', 'director')
+) AS v(code, name, metric, threshold, window_days, alert_type, severity,
+       assignee_role, due_in_days, escalate_after_hours, escalate_severity, escalate_role)
+WHERE NOT EXISTS (SELECT 1 FROM construction_alert_rules);
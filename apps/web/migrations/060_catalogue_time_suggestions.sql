@@ -0,0 +1,47 @@
+-- Install time suggestions from quote-vs-actual profitability
+-- lib/profitability.ts compares the hours per unit each catalogue product took
+-- on site (product_progress, matched on canonical or alias code) with
+-- product_catalogue_items.install_time_hours. Where enough units have been
+-- completed and the gap is wide enough, a pending suggestion is written here.
+-- Refreshing replaces the pending set; accepting one writes the suggested time
+-- to the catalogue as a 'learned' time (never to a locked product), rejecting
+-- one just records the decision.
+
+-- ============================================================================
+-- SUGGESTIONS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS catalogue_time_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES product_catalogue_items(id) ON DELETE CASCADE,
+  product_code TEXT NOT NULL,
+  product_name TEXT,
+  current_install_time_hours NUMERIC(6,2) NOT NULL,
+  suggested_install_time_hours NUMERIC(6,2) NOT NULL CHECK (suggested_install_time_hours > 0),
+  completed_units NUMERIC NOT NULL,
+  actual_hours NUMERIC NOT NULL,
+  job_count INTEGER NOT NULL,
+  variance_pct NUMERIC(7,1) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_catalogue_time_suggestions_pending
+  ON catalogue_time_suggestions(product_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_catalogue_time_suggestions_status
+  ON catalogue_time_suggestions(status, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Reads only; suggestions are refreshed and reviewed through /api/profitability/suggestions
+ALTER TABLE catalogue_time_suggestions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view install time suggestions" ON catalogue_time_suggestions;
+CREATE POLICY "Authenticated users can view install time suggestions"
+  ON catalogue_time_suggestions FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,112 @@
+-- Manufacturer price list imports into the product catalogue
+-- product_catalogue_items is the one catalogue SmartQuote matches quote lines
+-- against and the floor planner lays furniture out from; imports add what the
+-- manufacturers' lists carry (manufacturer, description, weight, list price)
+-- alongside the existing dimensions and install times, and mark products a
+-- manufacturer's full list no longer includes as discontinued. Discontinued
+-- products still match on old quotes; the floor planner leaves them out.
+-- catalogue_import_templates keeps a column map and options per manufacturer
+-- list layout; catalogue_imports records each import applied.
+-- Imports run through /api/catalogue/import (lib/catalogueImport.ts).
+
+-- ============================================================================
+-- CATALOGUE COLUMNS
+-- ============================================================================
+ALTER TABLE product_catalogue_items ADD COLUMN IF NOT EXISTS manufacturer TEXT;
+ALTER TABLE product_catalogue_items ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE product_catalogue_items ADD COLUMN IF NOT EXISTS weight_kg NUMERIC(8,2) CHECK (weight_kg IS NULL OR weight_kg >= 0);
+ALTER TABLE product_catalogue_items ADD COLUMN IF NOT EXISTS list_price NUMERIC(12,2) CHECK (list_price IS NULL OR list_price >= 0);
+ALTER TABLE product_catalogue_items ADD COLUMN IF NOT EXISTS discontinued_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_catalogue_manufacturer
+  ON product_catalogue_items(LOWER(manufacturer))
+  WHERE manufacturer IS NOT NULL;
+
+-- New columns go on the end; the view's existing columns keep their order
+CREATE OR REPLACE VIEW product_catalogue_view AS
+SELECT
+    p.id,
+    p.canonical_name,
+    p.canonical_code,
+    p.install_time_hours,
+    p.waste_volume_m3,
+    p.dimensions_format,
+    p.dimension_l,
+    p.dimension_w,
+    p.dimension_h,
+    p.dimension_d,
+    p.category,
+    p.locked,
+    p.source,
+    COALESCE(
+        ARRAY_AGG(
+            DISTINCT a.alias_code
+            ORDER BY a.alias_code
+        ) FILTER (WHERE a.alias_code IS NOT NULL),
+        ARRAY[]::TEXT[]
+    ) AS aliases,
+    COUNT(DISTINCT a.id) AS alias_count,
+    SUM(a.usage_count) AS total_alias_usage,
+    p.manufacturer,
+    p.description,
+    p.weight_kg,
+    p.list_price,
+    p.discontinued_at
+FROM product_catalogue_items p
+LEFT JOIN product_aliases a ON a.product_id = p.id
+GROUP BY p.id;
+
+-- ============================================================================
+-- TEMPLATES
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS catalogue_import_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer TEXT NOT NULL,
+  name TEXT NOT NULL,
+  column_map JSONB NOT NULL DEFAULT '{}'::jsonb,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_catalogue_import_templates_name
+  ON catalogue_import_templates(LOWER(manufacturer), LOWER(name));
+
+-- ============================================================================
+-- IMPORTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS catalogue_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer TEXT NOT NULL,
+  template_id UUID REFERENCES catalogue_import_templates(id) ON DELETE SET NULL,
+  file_name TEXT,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'applied', 'failed')),
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalogue_imports_created
+  ON catalogue_imports(created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Reads only; templates and imports are written through /api/catalogue
+ALTER TABLE catalogue_import_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE catalogue_imports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view import templates" ON catalogue_import_templates;
+CREATE POLICY "Authenticated users can view import templates"
+  ON catalogue_import_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view catalogue imports" ON catalogue_imports;
+CREATE POLICY "Authenticated users can view catalogue imports"
+  ON catalogue_imports FOR SELECT
+  TO authenticated
+  USING (true);
@@ -1,21 +1,7 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-
+import { extractJSON, isAIConfigured, Type } from '../../../lib/ai';
 import { RichFurniture, LayoutIssue } from '../types';
 
-// Initialize the Gemini AI Client only if API key is available.
-let ai: GoogleGenAI | null = null;
-try {
-  const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.API_KEY;
-  if (apiKey) {
-    ai = new GoogleGenAI({ apiKey });
-  } else {
-    console.warn('No Gemini API key found - PDF parsing will not work');
-  }
-} catch (error: unknown) {
-  console.warn('Gemini AI initialization failed:', error);
-}
-
 // Define the expected JSON schema for the furniture list from the AI.
 // This ensures a structured and predictable response.
 const furnitureSchema = {
@@ -158,7 +144,7 @@ const extractTextFromPdf = async (file: File): Promise<string> => {
  */
 export const parseFurnitureFromPdf = async (file: File) => {
   // If AI is not available, provide helpful error message
-  if (!ai) {
+  if (!isAIConfigured()) {
     console.warn('AI service not available - PDF parsing disabled');
     throw new Error("AI service is not available. Please check your API key configuration or try again later.");
   }
@@ -174,22 +160,11 @@ export const parseFurnitureFromPdf = async (file: File) => {
     const prompt = `From the following text, extract a list of furniture items. For each item, find its name, width, depth, quantity, product code, and line number if available. IMPORTANT: Dimensions in architectural drawings are often in millimeters (mm). You MUST convert all dimensions you find to centimeters (cm) for the output JSON. Provide the output as a JSON array. If a value isn't found, use a reasonable default (e.g., 50 for dimensions, 1 for quantity) or omit optional fields. Text: \n\n${fileText}`;
 
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash-exp",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: furnitureSchema,
-      },
+    const { data: parsedData } = await extractJSON<any>({
+      task: 'floorplan.furniture',
+      inputs: [{ type: 'text', text: prompt }],
+      schema: furnitureSchema,
     });
-
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("Empty response from AI service");
-    }
-    
-    
-    const parsedData = JSON.parse(jsonText);
     
     if (!Array.isArray(parsedData)) {
         throw new Error("AI response was not in the expected array format.");
@@ -226,7 +201,7 @@ export const checkLayoutWithAi = async (
   placedFurniture: RichFurniture[],
   floorPlanDimensions: { width: number; height: number }
 ): Promise<LayoutIssue[]> => {
-  if (!ai) {
+  if (!isAIConfigured()) {
     console.warn('AI service not available - using basic collision detection');
     // Return basic collision detection without AI
     const issues: LayoutIssue[] = [];
@@ -290,21 +265,12 @@ export const checkLayoutWithAi = async (
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: layoutAnalysisSchema,
-      },
+    const { data: parsedData } = await extractJSON<unknown>({
+      task: 'floorplan.layout-check',
+      inputs: [{ type: 'text', text: prompt }],
+      schema: layoutAnalysisSchema,
     });
 
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("Empty response from AI service");
-    }
-    const parsedData = JSON.parse(jsonText);
-
     if (!Array.isArray(parsedData)) {
       throw new Error("AI response was not in the expected array format.");
     }
@@ -328,16 +294,11 @@ export const getPlacementDimensions = async (
   mimeType: string,
   item: { x: number; y: number; w: number; h: number }
 ): Promise<Array<{ x1: number; y1: number; x2: number; y2: number; referenceType: string }>> => {
-  if (!ai) {
+  if (!isAIConfigured()) {
     console.warn('AI service not available - placement dimensions disabled');
     return [];
   }
-  const imagePart = {
-    inlineData: {
-      mimeType,
-      data: base64ImageData,
-    },
-  };
+  const imagePart = { type: 'file' as const, mimeType, data: base64ImageData };
 
   const prompt = `
     You are an expert computer vision assistant for an office layout tool. Your task is to analyze a floor plan image and determine the coordinates for measurement lines from a selected furniture item to the nearest **structural elements** only.
@@ -370,21 +331,12 @@ export const getPlacementDimensions = async (
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [imagePart, { text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: placementDimensionSchema,
-      },
+    const { data: parsedData } = await extractJSON<unknown>({
+      task: 'floorplan.placement-dimensions',
+      inputs: [imagePart, { type: 'text', text: prompt }],
+      schema: placementDimensionSchema,
     });
 
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("Empty response from AI service");
-    }
-    const parsedData = JSON.parse(jsonText);
-
     if (!Array.isArray(parsedData)) {
       throw new Error("AI response was not in the expected array format.");
     }
@@ -406,11 +358,11 @@ export const getRotationFromImage = async (
   base64ImageData: string,
   mimeType: string,
 ): Promise<number> => {
-  if (!ai) {
+  if (!isAIConfigured()) {
     console.warn('AI service not available - rotation detection disabled');
     return 0; // Return no rotation
   }
-  const imagePart = { inlineData: { mimeType, data: base64ImageData } };
+  const imagePart = { type: 'file' as const, mimeType, data: base64ImageData };
 
   const prompt = `
     You are a computer vision assistant. Analyze the provided image snippet from a floor plan.
@@ -422,21 +374,12 @@ export const getRotationFromImage = async (
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [imagePart, { text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: rotationSchema,
-        thinkingConfig: { thinkingBudget: 0 },
-      },
+    const { data: parsedData } = await extractJSON<{ rotation?: number }>({
+      task: 'floorplan.rotation',
+      inputs: [imagePart, { type: 'text', text: prompt }],
+      schema: rotationSchema,
+      thinking: false,
     });
-
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("Empty response from AI service");
-    }
-    const parsedData = JSON.parse(jsonText);
     return parsedData.rotation || 0;
   } catch (error: unknown) {
     console.error("Gemini API request for rotation detection failed:", error);
@@ -8,28 +8,9 @@
 // - Better error recovery
 // - Feedback loops for corrections
 
-import { GoogleGenAI, Type } from "@google/genai";
-
+import { extractJSON, Type, type AIInput } from '../../../lib/ai';
 import { EnhancedParseResult } from '../types';
 
-// Support both server-side and client-side API keys
-const getAPIKey = (): string => {
-    const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY or NEXT_PUBLIC_GEMINI_API_KEY environment variable not set. Please add it to your .env.local file.");
-    }
-    return apiKey;
-};
-
-let ai: GoogleGenAI | null = null;
-
-const getAI = (): GoogleGenAI => {
-    if (!ai) {
-        ai = new GoogleGenAI({ apiKey: getAPIKey() });
-    }
-    return ai;
-};
-
 // Enhanced response schema with confidence
 const responseSchema = {
     type: Type.OBJECT,
@@ -190,14 +171,14 @@ const attemptParse = async (
         }
     }
     
-    const requestParts: any[] = [{ text: promptText }];
+    const requestParts: AIInput[] = [{ type: 'text', text: promptText }];
     
     if (combinedText.trim()) {
-        requestParts.push({ text: combinedText });
+        requestParts.push({ type: 'text', text: combinedText });
     }
     
     fileParts.forEach(part => {
-        requestParts.push({ inlineData: { mimeType: part.mimeType, data: part.data } });
+        requestParts.push({ type: 'file', mimeType: part.mimeType, data: part.data });
     });
     
     if (requestParts.length <= 1) {
@@ -209,22 +190,18 @@ const attemptParse = async (
     const topP = 0.9 + (attempt * 0.02);
     const topK = Math.min(40 + (attempt * 10), 60);
     
-    const response = await getAI().models.generateContent({
-        model: "gemini-2.0-flash-exp",
-        contents: { parts: requestParts },
-        config: {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: responseSchema,
-            temperature,
-            topP,
-            topK,
-        },
+    const response = await extractJSON<any>({
+        task: 'smartquote-v2.parse',
+        systemInstruction,
+        inputs: requestParts,
+        schema: responseSchema,
+        temperature,
+        topP,
+        topK,
     });
     
     const duration = Date.now() - startTime;
-    const jsonText = response.text?.trim() || '';
-    const parsedData = JSON.parse(jsonText);
+    const parsedData = response.data;
     
     // Validate and enhance products
     const validProducts = (parsedData.products || [])
@@ -247,7 +224,7 @@ const attemptParse = async (
         parseMetadata: {
             duration,
             retryCount: attempt - 1,
-            model: "gemini-2.0-flash-exp",
+            model: response.model,
             temperature,
         },
         warnings: parsedData.warnings || []
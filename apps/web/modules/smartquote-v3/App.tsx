@@ -34,8 +34,10 @@ import { NotificationCenter } from './components/NotificationCenter';
 
 // Import v3 services
 import { approvalWorkflowService } from './services/approvalWorkflowService';
+import { clientPortalService } from './services/clientPortalService';
 import { hybridParsingService } from './services/hybridParsingService';
 import { jobIntegrationService } from './services/jobIntegrationService';
+import { createPricingRuleAdjuster, pricingRulesService } from './services/pricingRulesService';
 import { statusTrackingService } from './services/statusTrackingService';
 import {
     Quote,
@@ -183,7 +185,10 @@ export default function SmartQuoteV3App() {
 
     const handleCalculate = async (details: QuoteDetails, productsList: CalculatedProduct[]) => {
         try {
-            const calculatedResults = calculateAll(productsList, details, appConfig);
+            const pricingRules = await pricingRulesService.getPricingRules(true);
+            const calculatedResults = calculateAll(productsList, details, appConfig, [
+                createPricingRuleAdjuster(pricingRules, { clientId: currentQuote?.clientId }),
+            ]);
             setResults(calculatedResults);
             setQuoteDetails(details);
             setProducts(productsList);
@@ -197,6 +202,7 @@ export default function SmartQuoteV3App() {
                         products: productsList,
                         results: calculatedResults,
                         total_amount: calculatedResults.pricing.totalCost,
+                        margin_percent: calculatedResults.profitability?.grossMarginPercent ?? null,
                     })
                     .eq('id', currentQuote.id)
                     .select()
@@ -242,6 +248,20 @@ export default function SmartQuoteV3App() {
 
         setLoading(true);
         try {
+            // High-value or low-margin quotes go through a multi-level approval chain
+            const chainResult = await approvalWorkflowService.startApprovalChain(currentQuote.id);
+            // 404: no chain applies, so fall back to the single-rule approval below
+            if (!chainResult.success && chainResult.status !== 404) {
+                setError(chainResult.error || 'Failed to start approval chain');
+                return;
+            }
+
+            if (chainResult.chain) {
+                showSuccess(`Approval requested: ${chainResult.chain.name} (${chainResult.chain.steps.length} steps)`);
+                await loadPendingApprovals();
+                return;
+            }
+
             // Check auto-approval first
             const autoApproval = await approvalWorkflowService.checkAutoApproval(currentQuote.id);
 
@@ -326,6 +346,45 @@ export default function SmartQuoteV3App() {
         }
     };
 
+    const handleShareWithClient = async () => {
+        if (!currentQuote) return;
+
+        const clientEmail = window.prompt(`Client email address for ${currentQuote.quoteRef}:`);
+        if (!clientEmail) return;
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(clientEmail.trim())) {
+            setError('Please enter a valid email address');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const result = await clientPortalService.createPortalLink(currentQuote.id, clientEmail, currentQuote.clientName);
+            if (!result.success || !result.url) {
+                setError(result.error || 'Failed to create client link');
+                return;
+            }
+
+            // Sharing the link is what sends the quote
+            if (statusTrackingService.canTransitionTo(currentQuote.status, QuoteStatus.SENT)) {
+                const updated = await statusTrackingService.updateStatus(currentQuote.id, QuoteStatus.SENT, `Shared with ${clientEmail}`);
+                if (updated.success) {
+                    setCurrentQuote({ ...currentQuote, status: QuoteStatus.SENT });
+                }
+            }
+
+            try {
+                await navigator.clipboard.writeText(result.url);
+                showSuccess('Client link copied to clipboard');
+            } catch {
+                window.prompt('Copy the client link:', result.url);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create client link');
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const handleExportPdf = async () => {
         if (!currentQuote || !results) {
             setError('No quote data to export');
@@ -548,9 +607,9 @@ export default function SmartQuoteV3App() {
                         {currentQuote.status === QuoteStatus.PENDING_INTERNAL && (
                             <ApprovalPanel
                                 quote={currentQuote}
-                                onApproved={async () => {
+                                onApproved={async (chainComplete) => {
                                     await loadPendingApprovals();
-                                    showSuccess('Quote approved!');
+                                    showSuccess(chainComplete ? 'Quote approved!' : 'Approval recorded - waiting on the next stage');
                                 }}
                                 onRejected={async () => {
                                     await loadPendingApprovals();
@@ -648,6 +707,29 @@ export default function SmartQuoteV3App() {
                                     )}
                                 </div>
 
+                                {/* Share with Client Button */}
+                                <div className="relative group">
+                                    <button
+                                        onClick={handleShareWithClient}
+                                        disabled={
+                                            loading ||
+                                            ![QuoteStatus.APPROVED_INTERNAL, QuoteStatus.PENDING_CLIENT, QuoteStatus.SENT, QuoteStatus.NEGOTIATING].includes(currentQuote.status)
+                                        }
+                                        className="w-full bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                                        title="Create a link the client can use to view, sign and accept this quote"
+                                    >
+                                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                                        </svg>
+                                        Share with Client
+                                    </button>
+                                    {[QuoteStatus.DRAFT, QuoteStatus.PENDING_INTERNAL].includes(currentQuote.status) && (
+                                        <div className="absolute left-0 right-0 mt-1 p-2 bg-gray-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                                            Quotes must be approved internally before sharing (current: {currentQuote.status})
+                                        </div>
+                                    )}
+                                </div>
+
                                 {/* Export Buttons */}
                                 <div className="flex gap-3">
                                     <button
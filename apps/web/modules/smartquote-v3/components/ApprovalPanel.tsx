@@ -5,11 +5,27 @@
 import React, { useState } from 'react';
 
 import { approvalWorkflowService } from '../services/approvalWorkflowService';
-import { Quote, ApprovalHistory, ChangeRequest } from '../types';
+import {
+    Quote,
+    ApprovalHistory,
+    ApprovalCondition,
+    ApprovalStepStatus,
+    ChangeRequest,
+    QuoteApprovalStep,
+} from '../types';
+
+const STEP_STATUS_STYLES: Record<ApprovalStepStatus, string> = {
+    [ApprovalStepStatus.WAITING]: 'bg-gray-100 text-gray-600',
+    [ApprovalStepStatus.PENDING]: 'bg-amber-100 text-amber-800',
+    [ApprovalStepStatus.APPROVED]: 'bg-green-100 text-green-800',
+    [ApprovalStepStatus.REJECTED]: 'bg-red-100 text-red-800',
+    [ApprovalStepStatus.CANCELLED]: 'bg-gray-100 text-gray-400',
+};
 
 interface ApprovalPanelProps {
     quote: Quote;
-    onApproved?: () => void;
+    /** chainComplete is false when further approval stages remain */
+    onApproved?: (chainComplete: boolean) => void;
     onRejected?: () => void;
     onChangesRequested?: () => void;
 }
@@ -27,9 +43,12 @@ export const ApprovalPanel: React.FC<ApprovalPanelProps> = ({
     const [loading, setLoading] = useState(false);
     const [history, setHistory] = useState<ApprovalHistory[]>([]);
     const [showHistory, setShowHistory] = useState(false);
+    const [steps, setSteps] = useState<QuoteApprovalStep[]>([]);
+    const [approvalConditions, setApprovalConditions] = useState<ApprovalCondition[]>([]);
 
     React.useEffect(() => {
         loadHistory();
+        loadChain();
     }, [quote.id]);
 
     const loadHistory = async () => {
@@ -37,6 +56,31 @@ export const ApprovalPanel: React.FC<ApprovalPanelProps> = ({
         setHistory(data);
     };
 
+    const loadChain = async () => {
+        const [stepData, conditionData] = await Promise.all([
+            approvalWorkflowService.getApprovalSteps(quote.id),
+            approvalWorkflowService.getApprovalConditions(quote.id),
+        ]);
+        setSteps(stepData);
+        setApprovalConditions(conditionData);
+    };
+
+    const toggleCondition = async (condition: ApprovalCondition) => {
+        const result = await approvalWorkflowService.setConditionMet(condition.quoteId, condition.id, !condition.isMet);
+
+        if (result.success) {
+            await loadChain();
+        } else {
+            alert(`Failed to update condition: ${result.error}`);
+        }
+    };
+
+    // Group steps into stages; steps sharing a stage run in parallel
+    const stages = steps.reduce<Record<number, QuoteApprovalStep[]>>((acc, step) => {
+        (acc[step.stage] = acc[step.stage] || []).push(step);
+        return acc;
+    }, {});
+
     const handleApprove = async () => {
         setLoading(true);
         const result = await approvalWorkflowService.approve(
@@ -46,7 +90,9 @@ export const ApprovalPanel: React.FC<ApprovalPanelProps> = ({
         );
 
         if (result.success) {
-            onApproved?.();
+            await loadChain();
+            setMode('view');
+            onApproved?.(result.chainComplete ?? true);
         } else {
             alert(`Failed to approve: ${result.error}`);
         }
@@ -153,6 +199,69 @@ export const ApprovalPanel: React.FC<ApprovalPanelProps> = ({
                     </div>
                 )}
 
+                {steps.length > 0 && (
+                    <div className="mb-6">
+                        <h3 className="font-semibold text-gray-700 mb-2">Approval Chain</h3>
+                        <ol className="space-y-2">
+                            {Object.keys(stages).map(Number).sort((a, b) => a - b).map(stage => (
+                                <li key={stage} className="flex gap-2">
+                                    {stages[stage].map(step => {
+                                        const overdue =
+                                            step.status === ApprovalStepStatus.PENDING &&
+                                            step.dueAt !== undefined &&
+                                            step.dueAt.getTime() < Date.now();
+                                        return (
+                                            <div key={step.id} className="flex-1 border border-gray-200 rounded-lg p-3">
+                                                <div className="flex items-center justify-between">
+                                                    <span className="font-medium text-gray-900">{step.name}</span>
+                                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded ${STEP_STATUS_STYLES[step.status]}`}>
+                                                        {step.status.toUpperCase()}
+                                                    </span>
+                                                </div>
+                                                <p className="text-sm text-gray-600 mt-1">
+                                                    {step.approvals.length}/{step.requiredApprovals} approval(s)
+                                                    {step.status === ApprovalStepStatus.PENDING && step.dueAt && (
+                                                        <span className={overdue ? 'text-red-600 font-semibold' : ''}>
+                                                            {' '}• {overdue ? 'Overdue since' : 'Due'} {step.dueAt.toLocaleString()}
+                                                        </span>
+                                                    )}
+                                                </p>
+                                                {step.escalationLevel > 0 && (
+                                                    <p className="text-xs text-red-600 mt-1">
+                                                        Escalated{step.escalationLevel > 1 ? ` ${step.escalationLevel} times` : ''}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
+
+                {approvalConditions.length > 0 && (
+                    <div className="mb-6 bg-amber-50 rounded-lg p-4">
+                        <h3 className="font-semibold text-gray-700 mb-2">
+                            Conditions ({approvalConditions.filter(condition => condition.isMet).length}/{approvalConditions.length} met)
+                        </h3>
+                        <p className="text-xs text-gray-600 mb-2">All conditions must be met before the quote can be sent.</p>
+                        {approvalConditions.map(condition => (
+                            <label key={condition.id} className="flex items-start gap-2 text-sm text-gray-800 mb-1">
+                                <input
+                                    type="checkbox"
+                                    checked={condition.isMet}
+                                    onChange={() => toggleCondition(condition)}
+                                    className="mt-1"
+                                />
+                                <span className={condition.isMet ? 'line-through text-gray-500' : ''}>
+                                    {condition.description}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                )}
+
                 <div className="mb-6 bg-blue-50 rounded-lg p-4">
                     <div className="grid grid-cols-2 gap-4">
                         <div>
@@ -224,15 +333,16 @@ export const ApprovalPanel: React.FC<ApprovalPanelProps> = ({
 
                 <div className="mb-6">
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Conditions (Optional)
+                        Conditions (Optional, one per line)
                     </label>
-                    <input
-                        type="text"
+                    <textarea
                         value={conditions}
                         onChange={(e) => setConditions(e.target.value)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                        placeholder="e.g., Approved if client accepts within 7 days"
+                        rows={3}
+                        placeholder={'e.g., Confirm access times with site manager\nAdd 10% contingency line'}
                     />
+                    <p className="text-xs text-gray-500 mt-1">The quote cannot be sent until every condition is ticked off.</p>
                 </div>
 
                 <div className="flex gap-3">
@@ -2,7 +2,11 @@
 // SmartQuote v3 - Approval Workflow Service
 // ============================================================================
 
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { canApproveQuotes, canEdit } from '../../../lib/roles';
 import { supabase } from '../../../lib/supabaseClient';
+import type { Database } from '../../../types/database';
 import {
     Quote,
     ApprovalHistory,
@@ -10,10 +14,182 @@ import {
     ApprovalRule,
     QuoteStatus,
     ChangeRequest,
+    ApprovalChain,
+    ApprovalChainConditions,
+    ApprovalCondition,
+    ApprovalStepStatus,
+    QuoteApprovalStep,
 } from '../types';
 
 import { notificationService } from './notificationService';
-import { statusTrackingService } from './statusTrackingService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** The signed-in user behind a server-side approval action */
+export interface ApprovalActor {
+    id: string;
+    role?: string;
+}
+
+/** Outcome of an approval action; a refusal carries the HTTP status to answer with */
+export interface ApprovalActionResult {
+    success: boolean;
+    error?: string;
+    status?: number;
+}
+
+export interface ApprovalFacts {
+    totalAmount: number;
+    marginPercent?: number | null;
+}
+
+export const mapApprovalChain = (row: Record<string, any>): ApprovalChain => ({
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    conditions: row.conditions || {},
+    steps: row.steps || [],
+    priority: row.priority ?? 100,
+    isActive: row.is_active ?? row.isActive ?? true,
+    createdBy: row.created_by ?? row.createdBy ?? undefined,
+    createdAt: row.created_at ?? row.createdAt,
+});
+
+export const mapApprovalStep = (row: Record<string, any>): QuoteApprovalStep => ({
+    id: row.id,
+    quoteId: row.quote_id,
+    chainId: row.chain_id,
+    stepIndex: row.step_index,
+    stage: row.stage,
+    name: row.name,
+    approverRole: row.approver_role ?? undefined,
+    approverUserIds: row.approver_user_ids || [],
+    requiredApprovals: row.required_approvals ?? 1,
+    approvals: row.approvals || [],
+    status: row.status,
+    slaHours: row.sla_hours ?? 24,
+    startedAt: row.started_at ? new Date(row.started_at) : undefined,
+    dueAt: row.due_at ? new Date(row.due_at) : undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    escalateToRole: row.escalate_to_role ?? undefined,
+    escalateToUserIds: row.escalate_to_user_ids ?? undefined,
+    escalationLevel: row.escalation_level ?? 0,
+    escalatedAt: row.escalated_at ? new Date(row.escalated_at) : undefined,
+});
+
+export const mapApprovalCondition = (row: Record<string, any>): ApprovalCondition => ({
+    id: row.id,
+    quoteId: row.quote_id,
+    stepId: row.step_id ?? undefined,
+    description: row.description,
+    isMet: row.is_met ?? false,
+    metBy: row.met_by ?? undefined,
+    metAt: row.met_at ? new Date(row.met_at) : undefined,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+});
+
+/**
+ * Whether a chain applies to a quote. A chain with no conditions applies to every quote;
+ * a margin condition never matches when the margin is unknown.
+ */
+export const matchesChainConditions = (conditions: ApprovalChainConditions, facts: ApprovalFacts): boolean => {
+    const checks: boolean[] = [];
+
+    if (conditions.minAmount != null) {
+        checks.push(facts.totalAmount > conditions.minAmount);
+    }
+    if (conditions.maxMarginPercent != null) {
+        checks.push(facts.marginPercent != null && facts.marginPercent < conditions.maxMarginPercent);
+    }
+
+    if (checks.length === 0) return true;
+    return conditions.match === 'all' ? checks.every(Boolean) : checks.some(Boolean);
+};
+
+/**
+ * First active chain (by priority) that applies, or null
+ */
+export const selectApprovalChain = (chains: ApprovalChain[], facts: ApprovalFacts): ApprovalChain | null =>
+    [...chains]
+        .filter(chain => chain.isActive && chain.steps.length > 0)
+        .sort((a, b) => a.priority - b.priority)
+        .find(chain => matchesChainConditions(chain.conditions, facts)) || null;
+
+const isOpenStep = (step: QuoteApprovalStep) =>
+    step.status === ApprovalStepStatus.PENDING || step.status === ApprovalStepStatus.WAITING;
+
+/**
+ * The earliest stage still waiting on approvals, or null when the chain is complete
+ */
+export const getCurrentStage = (steps: QuoteApprovalStep[]): number | null => {
+    const open = steps.filter(isOpenStep);
+    return open.length > 0 ? Math.min(...open.map(step => step.stage)) : null;
+};
+
+/**
+ * Steps in the current stage that have not started. Every earlier stage is
+ * approved by then, so these are the ones to activate.
+ */
+export const getStepsToActivate = (steps: QuoteApprovalStep[]): QuoteApprovalStep[] => {
+    const stage = getCurrentStage(steps);
+    return steps.filter(step => step.stage === stage && step.status === ApprovalStepStatus.WAITING);
+};
+
+/**
+ * Add one approver's decision to a step. The step completes once it has the
+ * required number of approvals (capped at the number of approvers).
+ */
+export const recordStepApproval = (
+    step: QuoteApprovalStep,
+    userId: string,
+    action: ApprovalAction,
+    notes: string | undefined,
+    now: Date
+): { step: QuoteApprovalStep } | { error: string } => {
+    if (step.status !== ApprovalStepStatus.PENDING) {
+        return { error: `${step.name} is not awaiting approval` };
+    }
+    if (!step.approverUserIds.includes(userId)) {
+        return { error: `You are not an approver for ${step.name}` };
+    }
+    if (step.approvals.some(approval => approval.userId === userId)) {
+        return { error: `You have already approved ${step.name}` };
+    }
+
+    const approvals = [...step.approvals, { userId, action, notes, at: now.toISOString() }];
+    const required = Math.max(1, Math.min(step.requiredApprovals, step.approverUserIds.length));
+    const complete = approvals.length >= required;
+
+    return {
+        step: {
+            ...step,
+            approvals,
+            status: complete ? ApprovalStepStatus.APPROVED : ApprovalStepStatus.PENDING,
+            completedAt: complete ? now : undefined,
+        },
+    };
+};
+
+/**
+ * Whether the user may decide a pending step: they must be one of its approvers
+ * and still hold its role (or its escalation role), unless they can approve
+ * quotes outright. Steps without a role are open to their named approvers.
+ */
+export const canDecideStep = (step: QuoteApprovalStep, actor: ApprovalActor): boolean => {
+    if (step.status !== ApprovalStepStatus.PENDING || !step.approverUserIds.includes(actor.id)) return false;
+    if (!step.approverRole || canApproveQuotes(actor.role)) return true;
+
+    const role = actor.role?.toLowerCase();
+    return role === step.approverRole.toLowerCase() || role === step.escalateToRole?.toLowerCase();
+};
+
+export const isStepOverdue = (step: QuoteApprovalStep, now: Date): boolean =>
+    step.status === ApprovalStepStatus.PENDING && !!step.dueAt && step.dueAt.getTime() <= now.getTime();
+
+/** One condition per non-empty line */
+export const parseApprovalConditions = (conditions?: string): string[] =>
+    (conditions || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
 
 class ApprovalWorkflowService {
     /**
@@ -65,45 +241,152 @@ class ApprovalWorkflowService {
     }
 
     /**
-     * Approve a quote
+     * Approve a quote. When the quote is on an approval chain this approves the
+     * caller's current step; the quote is only approved once every stage is done.
+     * Conditions (one per line) must be ticked off before the quote can be sent.
      */
     async approve(
         quoteId: string,
         notes?: string,
         conditions?: string
-    ): Promise<{ success: boolean; error?: string }> {
-        try {
-            const { data: user } = await supabase.auth.getUser();
-            const userId = user?.user?.id;
+    ): Promise<ApprovalActionResult & { chainComplete?: boolean }> {
+        return this.postApprovalAction({ action: 'approve', quoteId, notes, conditions }, 'Failed to approve quote');
+    }
 
-            if (!userId) {
-                return { success: false, error: 'User not authenticated' };
-            }
+    /**
+     * Reject a quote
+     */
+    async reject(
+        quoteId: string,
+        reason: string
+    ): Promise<ApprovalActionResult> {
+        return this.postApprovalAction({ action: 'reject', quoteId, reason }, 'Failed to reject quote');
+    }
 
+    /**
+     * Request changes to a quote
+     */
+    async requestChanges(
+        quoteId: string,
+        changes: ChangeRequest[],
+        notes?: string
+    ): Promise<ApprovalActionResult> {
+        return this.postApprovalAction({ action: 'request_changes', quoteId, changes, notes }, 'Failed to request changes');
+    }
+
+    /**
+     * Record an approval as the given user. Runs server-side with the service
+     * role from /api/quotes/approval; the chain tables are read-only to staff.
+     * The caller must be able to decide the current step, or, with no chain,
+     * be allowed to approve quotes.
+     */
+    async recordApproval(
+        client: SupabaseClient<Database>,
+        actor: ApprovalActor,
+        quoteId: string,
+        notes?: string,
+        conditions?: string
+    ): Promise<ApprovalActionResult & { chainComplete?: boolean }> {
+        const userId = actor.id;
+        try {
             // Get current quote
-            const { data: quote, error: quoteError } = await supabase
+            const { data: quote, error: quoteError } = await client
                 .from('smartquote_v3_quotes')
                 .select('*')
                 .eq('id', quoteId)
                 .single();
 
             if (quoteError || !quote) {
-                return { success: false, error: 'Quote not found' };
+                return { success: false, status: 404, error: 'Quote not found' };
+            }
+            if (quote.status !== QuoteStatus.PENDING_INTERNAL) {
+                return { success: false, status: 409, error: 'Quote is not awaiting internal approval' };
+            }
+
+            const action = conditions ? ApprovalAction.CONDITIONAL_APPROVAL : ApprovalAction.APPROVED;
+            const now = new Date();
+
+            // Approval chain: record this approver's decision on their step
+            const steps = await this.getApprovalSteps(quoteId, client);
+            let approvedStep: QuoteApprovalStep | undefined;
+            let chainComplete = true;
+
+            if (steps.some(isOpenStep)) {
+                const step = steps.find(candidate =>
+                    canDecideStep(candidate, actor) &&
+                    !candidate.approvals.some(approval => approval.userId === userId)
+                );
+                if (!step) {
+                    return { success: false, status: 403, error: 'You are not an approver for the current approval step' };
+                }
+
+                const result = recordStepApproval(step, userId, action, notes, now);
+                if ('error' in result) {
+                    return { success: false, status: 409, error: result.error };
+                }
+                approvedStep = result.step;
+
+                // Only write over the approvals we read, so a parallel approval isn't lost
+                const { data: updated, error: stepError } = await client
+                    .from('smartquote_v3_quote_approval_steps')
+                    .update({
+                        approvals: approvedStep.approvals,
+                        status: approvedStep.status,
+                        completed_at: approvedStep.completedAt?.toISOString() ?? null,
+                    })
+                    .eq('id', approvedStep.id)
+                    .eq('status', ApprovalStepStatus.PENDING)
+                    .eq('approvals', JSON.stringify(step.approvals))
+                    .select('id');
+
+                if (stepError) throw stepError;
+                if (!updated || updated.length === 0) {
+                    return { success: false, status: 409, error: `${step.name} has changed since you opened it; refresh and try again` };
+                }
+
+                const updatedSteps = steps.map(candidate => (candidate.id === approvedStep!.id ? approvedStep! : candidate));
+                chainComplete = getCurrentStage(updatedSteps) === null;
+
+                // Start the next stage once every step in this one is approved
+                const stageApproved = updatedSteps
+                    .filter(candidate => candidate.stage === approvedStep!.stage)
+                    .every(candidate => candidate.status === ApprovalStepStatus.APPROVED);
+                if (!chainComplete && stageApproved) {
+                    await this.activateStage(client, quoteId, getStepsToActivate(updatedSteps), now);
+                }
+            } else if (!canApproveQuotes(actor.role)) {
+                return { success: false, status: 403, error: 'You do not have permission to approve quotes' };
+            }
+
+            await this.addConditions(client, quoteId, approvedStep?.id, conditions, userId);
+
+            if (!chainComplete) {
+                await client.from('smartquote_v3_approval_history').insert({
+                    quote_id: quoteId,
+                    action,
+                    previous_status: quote.status,
+                    new_status: quote.status,
+                    notes: `${approvedStep!.name}: ${notes || 'Approved'}`,
+                    conditions,
+                    performed_by: userId,
+                });
+
+                return { success: true, chainComplete: false };
             }
 
             const previousStatus = quote.status;
             const newStatus = QuoteStatus.APPROVED_INTERNAL;
 
             // Update quote
-            const { error: updateError } = await supabase
+            const { error: updateError } = await client
                 .from('smartquote_v3_quotes')
                 .update({
                     status: newStatus,
                     approved_by: userId,
-                    approved_at: new Date().toISOString(),
+                    approved_at: now.toISOString(),
                     approval_notes: notes,
                     approval_conditions: conditions,
-                    status_updated_at: new Date().toISOString(),
+                    status_updated_at: now.toISOString(),
                     status_updated_by: userId,
                 })
                 .eq('id', quoteId);
@@ -111,22 +394,22 @@ class ApprovalWorkflowService {
             if (updateError) throw updateError;
 
             // Create approval history
-            await supabase.from('smartquote_v3_approval_history').insert({
+            await client.from('smartquote_v3_approval_history').insert({
                 quote_id: quoteId,
-                action: conditions ? ApprovalAction.CONDITIONAL_APPROVAL : ApprovalAction.APPROVED,
+                action,
                 previous_status: previousStatus,
                 new_status: newStatus,
-                notes,
+                notes: approvedStep ? `${approvedStep.name}: ${notes || 'Approved'}` : notes,
                 conditions,
                 performed_by: userId,
             });
 
             // Notify quote creator
             if (quote.created_by && quote.created_by !== userId) {
-                await notificationService.sendApprovalApproved(quoteId, quote.created_by, notes);
+                await notificationService.sendApprovalApproved(quoteId, quote.created_by, notes, client);
             }
 
-            return { success: true };
+            return { success: true, chainComplete: true };
         } catch (error) {
             console.error('Failed to approve quote:', error);
             return {
@@ -137,35 +420,39 @@ class ApprovalWorkflowService {
     }
 
     /**
-     * Reject a quote
+     * Record a rejection as the given user; server-side, like recordApproval
      */
-    async reject(
+    async recordRejection(
+        client: SupabaseClient<Database>,
+        actor: ApprovalActor,
         quoteId: string,
         reason: string
-    ): Promise<{ success: boolean; error?: string }> {
+    ): Promise<ApprovalActionResult> {
+        const userId = actor.id;
         try {
-            const { data: user } = await supabase.auth.getUser();
-            const userId = user?.user?.id;
-
-            if (!userId) {
-                return { success: false, error: 'User not authenticated' };
-            }
-
             // Get current quote
-            const { data: quote, error: quoteError } = await supabase
+            const { data: quote, error: quoteError } = await client
                 .from('smartquote_v3_quotes')
                 .select('*')
                 .eq('id', quoteId)
                 .single();
 
             if (quoteError || !quote) {
-                return { success: false, error: 'Quote not found' };
+                return { success: false, status: 404, error: 'Quote not found' };
+            }
+            if (quote.status !== QuoteStatus.PENDING_INTERNAL) {
+                return { success: false, status: 409, error: 'Quote is not awaiting internal approval' };
+            }
+
+            const closed = await this.closeOpenSteps(client, quoteId, actor);
+            if (!closed) {
+                return { success: false, status: 403, error: 'You are not an approver for the current approval step' };
             }
 
             const previousStatus = quote.status;
 
             // Update quote back to draft
-            const { error: updateError } = await supabase
+            const { error: updateError } = await client
                 .from('smartquote_v3_quotes')
                 .update({
                     status: QuoteStatus.DRAFT,
@@ -177,7 +464,7 @@ class ApprovalWorkflowService {
             if (updateError) throw updateError;
 
             // Create approval history
-            await supabase.from('smartquote_v3_approval_history').insert({
+            await client.from('smartquote_v3_approval_history').insert({
                 quote_id: quoteId,
                 action: ApprovalAction.REJECTED,
                 previous_status: previousStatus,
@@ -188,7 +475,7 @@ class ApprovalWorkflowService {
 
             // Notify quote creator
             if (quote.created_by && quote.created_by !== userId) {
-                await notificationService.sendApprovalRejected(quoteId, quote.created_by, reason);
+                await notificationService.sendApprovalRejected(quoteId, quote.created_by, reason, client);
             }
 
             return { success: true };
@@ -202,36 +489,40 @@ class ApprovalWorkflowService {
     }
 
     /**
-     * Request changes to a quote
+     * Record a change request as the given user; server-side, like recordApproval
      */
-    async requestChanges(
+    async recordChangeRequest(
+        client: SupabaseClient<Database>,
+        actor: ApprovalActor,
         quoteId: string,
         changes: ChangeRequest[],
         notes?: string
-    ): Promise<{ success: boolean; error?: string }> {
+    ): Promise<ApprovalActionResult> {
+        const userId = actor.id;
         try {
-            const { data: user } = await supabase.auth.getUser();
-            const userId = user?.user?.id;
-
-            if (!userId) {
-                return { success: false, error: 'User not authenticated' };
-            }
-
             // Get current quote
-            const { data: quote, error: quoteError } = await supabase
+            const { data: quote, error: quoteError } = await client
                 .from('smartquote_v3_quotes')
                 .select('*')
                 .eq('id', quoteId)
                 .single();
 
             if (quoteError || !quote) {
-                return { success: false, error: 'Quote not found' };
+                return { success: false, status: 404, error: 'Quote not found' };
+            }
+            if (quote.status !== QuoteStatus.PENDING_INTERNAL) {
+                return { success: false, status: 409, error: 'Quote is not awaiting internal approval' };
+            }
+
+            const closed = await this.closeOpenSteps(client, quoteId, actor);
+            if (!closed) {
+                return { success: false, status: 403, error: 'You are not an approver for the current approval step' };
             }
 
             const previousStatus = quote.status;
 
             // Update quote back to draft
-            const { error: updateError } = await supabase
+            const { error: updateError } = await client
                 .from('smartquote_v3_quotes')
                 .update({
                     status: QuoteStatus.DRAFT,
@@ -243,7 +534,7 @@ class ApprovalWorkflowService {
             if (updateError) throw updateError;
 
             // Create approval history with change requests
-            await supabase.from('smartquote_v3_approval_history').insert({
+            await client.from('smartquote_v3_approval_history').insert({
                 quote_id: quoteId,
                 action: ApprovalAction.REQUESTED_CHANGES,
                 previous_status: previousStatus,
@@ -255,7 +546,7 @@ class ApprovalWorkflowService {
 
             // Notify quote creator
             if (quote.created_by && quote.created_by !== userId) {
-                await notificationService.sendChangeRequested(quoteId, quote.created_by, changes, notes);
+                await notificationService.sendChangeRequested(quoteId, quote.created_by, changes, notes, client);
             }
 
             return { success: true };
@@ -267,7 +558,6 @@ class ApprovalWorkflowService {
             };
         }
     }
-
     /**
      * Check if quote qualifies for auto-approval
      */
@@ -363,10 +653,25 @@ class ApprovalWorkflowService {
 
             if (error) throw error;
 
-            // TODO: Filter by user permissions/roles
-            // For now, return all pending approvals
+            // Quotes on an approval chain only show for approvers of the current step
+            const quotes = (data || []) as Quote[];
+            if (quotes.length === 0) return quotes;
 
-            return data as Quote[];
+            const { data: steps } = await supabase
+                .from('smartquote_v3_quote_approval_steps')
+                .select('quote_id, status, approver_user_ids')
+                .in('quote_id', quotes.map(quote => quote.id))
+                .in('status', [ApprovalStepStatus.PENDING, ApprovalStepStatus.WAITING]);
+
+            const chained = new Set((steps || []).map(step => step.quote_id));
+            const awaitingUser = new Set(
+                (steps || [])
+                    .filter(step => step.status === ApprovalStepStatus.PENDING && (step.approver_user_ids || []).includes(userId))
+                    .map(step => step.quote_id)
+            );
+
+            // TODO: Filter quotes without a chain by user permissions/roles
+            return quotes.filter(quote => !chained.has(quote.id) || awaitingUser.has(quote.id));
         } catch (error) {
             console.error('Failed to get pending approvals:', error);
             return [];
@@ -431,6 +736,535 @@ class ApprovalWorkflowService {
             };
         }
     }
+
+    /**
+     * Start the approval chain that applies to this quote, if any. Fails with
+     * status 404 when none applies, so the caller can fall back to single-rule approval.
+     */
+    async startApprovalChain(
+        quoteId: string,
+        notes?: string
+    ): Promise<ApprovalActionResult & { chain?: ApprovalChain }> {
+        return this.postApprovalAction({ action: 'start', quoteId, notes }, 'Failed to start approval chain');
+    }
+
+    /**
+     * Start the chain as the given user; server-side, like recordApproval. Only
+     * the quote's creator or staff who can edit or approve quotes may start it,
+     * and only from draft.
+     */
+    async beginApprovalChain(
+        client: SupabaseClient<Database>,
+        actor: ApprovalActor,
+        quoteId: string,
+        notes?: string
+    ): Promise<ApprovalActionResult & { chain?: ApprovalChain }> {
+        const userId = actor.id;
+        try {
+            const { data: quote, error: quoteError } = await client
+                .from('smartquote_v3_quotes')
+                .select('status, created_by, total_amount, margin_percent, results')
+                .eq('id', quoteId)
+                .single();
+
+            if (quoteError || !quote) {
+                return { success: false, status: 404, error: 'Quote not found' };
+            }
+            if (quote.created_by !== userId && !canEdit(actor.role) && !canApproveQuotes(actor.role)) {
+                return { success: false, status: 403, error: 'You cannot request approval for this quote' };
+            }
+            if (quote.status !== QuoteStatus.DRAFT) {
+                return { success: false, status: 409, error: 'Only draft quotes can be sent for approval' };
+            }
+
+            const chain = selectApprovalChain(await this.getApprovalChains(client), {
+                totalAmount: Number(quote.total_amount) || 0,
+                marginPercent: quote.margin_percent ?? quote.results?.profitability?.grossMarginPercent ?? null,
+            });
+            if (!chain) {
+                return { success: false, status: 404, error: 'No approval chain applies to this quote' };
+            }
+
+            // A resubmitted quote starts the chain again
+            await client
+                .from('smartquote_v3_quote_approval_steps')
+                .update({ status: ApprovalStepStatus.CANCELLED })
+                .eq('quote_id', quoteId)
+                .in('status', [ApprovalStepStatus.PENDING, ApprovalStepStatus.WAITING]);
+
+            const { data: rows, error: stepsError } = await client
+                .from('smartquote_v3_quote_approval_steps')
+                .insert(chain.steps.map((step, index) => ({
+                    quote_id: quoteId,
+                    chain_id: chain.id,
+                    step_index: index,
+                    stage: step.stage,
+                    name: step.name,
+                    approver_role: step.approverRole,
+                    approver_user_ids: step.approverUserIds || [],
+                    required_approvals: step.requiredApprovals || 1,
+                    status: ApprovalStepStatus.WAITING,
+                    sla_hours: step.slaHours || 24,
+                    escalate_to_role: step.escalateToRole,
+                    escalate_to_user_ids: step.escalateToUserIds,
+                })))
+                .select();
+
+            if (stepsError) throw stepsError;
+
+            const steps = (rows || []).map(mapApprovalStep);
+            await this.activateStage(client, quoteId, getStepsToActivate(steps), new Date());
+
+            const { error: updateError } = await client
+                .from('smartquote_v3_quotes')
+                .update({
+                    status: QuoteStatus.PENDING_INTERNAL,
+                    requires_approval: true,
+                    status_updated_at: new Date().toISOString(),
+                    status_updated_by: userId,
+                })
+                .eq('id', quoteId);
+
+            if (updateError) throw updateError;
+
+            await client.from('smartquote_v3_approval_history').insert({
+                quote_id: quoteId,
+                action: 'requested_changes',
+                previous_status: quote.status,
+                new_status: QuoteStatus.PENDING_INTERNAL,
+                notes: notes ? `${chain.name}: ${notes}` : `Approval chain: ${chain.name}`,
+                performed_by: userId,
+            });
+
+            return { success: true, chain };
+        } catch (error) {
+            console.error('Failed to start approval chain:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to start approval chain',
+            };
+        }
+    }
+
+    /**
+     * Get active approval chains
+     */
+    async getApprovalChains(client: SupabaseClient<Database> = supabase): Promise<ApprovalChain[]> {
+        try {
+            const { data, error } = await client
+                .from('smartquote_v3_approval_chains')
+                .select('*')
+                .eq('is_active', true)
+                .order('priority', { ascending: true });
+
+            if (error) throw error;
+
+            return (data || []).map(mapApprovalChain);
+        } catch (error) {
+            console.error('Failed to get approval chains:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Create or update an approval chain
+     */
+    async saveApprovalChain(chain: Partial<ApprovalChain>): Promise<{ success: boolean; data?: ApprovalChain; error?: string }> {
+        return this.postApprovalAction({ action: 'save_chain', chain }, 'Failed to save approval chain');
+    }
+
+    /**
+     * Write a chain definition as the given user; server-side, like recordApproval
+     */
+    async storeApprovalChain(
+        client: SupabaseClient<Database>,
+        userId: string,
+        chain: Partial<ApprovalChain>
+    ): Promise<{ success: boolean; data?: ApprovalChain; error?: string }> {
+        try {
+            const row = {
+                name: chain.name,
+                description: chain.description,
+                conditions: chain.conditions,
+                steps: chain.steps,
+                priority: chain.priority,
+                is_active: chain.isActive,
+            };
+
+            const query = chain.id
+                ? client.from('smartquote_v3_approval_chains').update(row).eq('id', chain.id)
+                : client.from('smartquote_v3_approval_chains').insert({ ...row, created_by: userId });
+
+            const { data, error } = await query.select().single();
+
+            if (error) throw error;
+            return { success: true, data: mapApprovalChain(data) };
+        } catch (error) {
+            console.error('Failed to save approval chain:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to save approval chain',
+            };
+        }
+    }
+
+    /**
+     * Get the approval steps for a quote's current chain, in order
+     */
+    async getApprovalSteps(quoteId: string, client: SupabaseClient<Database> = supabase): Promise<QuoteApprovalStep[]> {
+        try {
+            const { data, error } = await client
+                .from('smartquote_v3_quote_approval_steps')
+                .select('*')
+                .eq('quote_id', quoteId)
+                .neq('status', ApprovalStepStatus.CANCELLED)
+                .order('step_index', { ascending: true });
+
+            if (error) throw error;
+
+            return (data || []).map(mapApprovalStep);
+        } catch (error) {
+            console.error('Failed to get approval steps:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Get the conditions attached to a quote by conditional approvals
+     */
+    async getApprovalConditions(quoteId: string): Promise<ApprovalCondition[]> {
+        try {
+            const { data, error } = await supabase
+                .from('smartquote_v3_approval_conditions')
+                .select('*')
+                .eq('quote_id', quoteId)
+                .order('created_at', { ascending: true });
+
+            if (error) throw error;
+
+            return (data || []).map(mapApprovalCondition);
+        } catch (error) {
+            console.error('Failed to get approval conditions:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Conditions still to be met; the quote cannot be sent while any remain
+     */
+    async getOutstandingConditions(
+        quoteId: string,
+        client: SupabaseClient<Database> = supabase
+    ): Promise<ApprovalCondition[]> {
+        const { data, error } = await client
+            .from('smartquote_v3_approval_conditions')
+            .select('*')
+            .eq('quote_id', quoteId)
+            .eq('is_met', false);
+
+        if (error) throw error;
+
+        return (data || []).map(mapApprovalCondition);
+    }
+
+    /**
+     * Tick off (or reopen) one of the quote's approval conditions
+     */
+    async setConditionMet(quoteId: string, conditionId: string, isMet: boolean): Promise<ApprovalActionResult> {
+        return this.postApprovalAction({ action: 'condition', quoteId, conditionId, isMet }, 'Failed to update approval condition');
+    }
+
+    /**
+     * Tick off a condition as the given user; server-side, like recordApproval.
+     * Open to the quote's creator, its chain approvers and anyone who can approve quotes.
+     */
+    async recordConditionMet(
+        client: SupabaseClient<Database>,
+        actor: ApprovalActor,
+        quoteId: string,
+        conditionId: string,
+        isMet: boolean
+    ): Promise<ApprovalActionResult> {
+        const userId = actor.id;
+        try {
+            const { data: quote, error: quoteError } = await client
+                .from('smartquote_v3_quotes')
+                .select('created_by')
+                .eq('id', quoteId)
+                .maybeSingle();
+
+            if (quoteError) throw quoteError;
+            if (!quote) {
+                return { success: false, status: 404, error: 'Quote not found' };
+            }
+
+            const steps = await this.getApprovalSteps(quoteId, client);
+            const onChain = steps.some(step => step.approverUserIds.includes(userId));
+            if (quote.created_by !== userId && !onChain && !canApproveQuotes(actor.role)) {
+                return { success: false, status: 403, error: 'You cannot update the conditions on this quote' };
+            }
+
+            const { data, error } = await client
+                .from('smartquote_v3_approval_conditions')
+                .update({
+                    is_met: isMet,
+                    met_by: isMet ? userId : null,
+                    met_at: isMet ? new Date().toISOString() : null,
+                })
+                .eq('id', conditionId)
+                .eq('quote_id', quoteId)
+                .select('id');
+
+            if (error) throw error;
+            if (!data || data.length === 0) {
+                return { success: false, status: 404, error: 'Approval condition not found' };
+            }
+
+            return { success: true };
+        } catch (error) {
+            console.error('Failed to update approval condition:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to update approval condition',
+            };
+        }
+    }
+
+    /**
+     * Escalate pending steps past their SLA. Escalation approvers are added to the
+     * step and notified; steps with no one left to escalate to re-notify their
+     * approvers. Either way the SLA restarts. Waiting steps whose earlier stages
+     * are all approved are started, so a chain never stalls between stages.
+     * Runs from /api/cron/escalate-approvals.
+     */
+    async escalateOverdueSteps(
+        client: SupabaseClient<Database>,
+        now: Date = new Date()
+    ): Promise<{ escalated: number; reminded: number; activated: number }> {
+        const summary = { escalated: 0, reminded: 0, activated: 0 };
+
+        const { data: waiting, error: waitingError } = await client
+            .from('smartquote_v3_quote_approval_steps')
+            .select('quote_id')
+            .eq('status', ApprovalStepStatus.WAITING);
+
+        if (waitingError) throw waitingError;
+
+        for (const quoteId of new Set((waiting || []).map((row: { quote_id: string }) => row.quote_id))) {
+            try {
+                summary.activated += await this.activateStage(
+                    client,
+                    quoteId,
+                    getStepsToActivate(await this.getApprovalSteps(quoteId, client)),
+                    now
+                );
+            } catch (stageError) {
+                console.error(`Failed to start the next approval stage for quote ${quoteId}:`, stageError);
+            }
+        }
+
+        const { data, error } = await client
+            .from('smartquote_v3_quote_approval_steps')
+            .select('*')
+            .eq('status', ApprovalStepStatus.PENDING)
+            .lte('due_at', now.toISOString());
+
+        if (error) throw error;
+
+        for (const step of (data || []).map(mapApprovalStep).filter(candidate => isStepOverdue(candidate, now))) {
+            try {
+                const escalationIds = await this.resolveApprovers(client, step.escalateToRole, step.escalateToUserIds);
+                const newApprovers = escalationIds.filter(id => !step.approverUserIds.includes(id));
+
+                const { error: updateError } = await client
+                    .from('smartquote_v3_quote_approval_steps')
+                    .update({
+                        approver_user_ids: [...step.approverUserIds, ...newApprovers],
+                        escalation_level: step.escalationLevel + 1,
+                        escalated_at: now.toISOString(),
+                        due_at: new Date(now.getTime() + step.slaHours * HOUR_MS).toISOString(),
+                    })
+                    .eq('id', step.id);
+
+                if (updateError) throw updateError;
+
+                const hoursOverdue = Math.round((now.getTime() - step.dueAt!.getTime()) / HOUR_MS);
+                if (newApprovers.length > 0) {
+                    summary.escalated++;
+                    for (const approverId of newApprovers) {
+                        await notificationService.sendApprovalEscalation(step.quoteId, approverId, step.name, hoursOverdue, client);
+                    }
+                } else {
+                    summary.reminded++;
+                    const waitingOn = step.approverUserIds.filter(id => !step.approvals.some(approval => approval.userId === id));
+                    for (const approverId of waitingOn) {
+                        await notificationService.sendApprovalEscalation(step.quoteId, approverId, step.name, hoursOverdue, client);
+                    }
+                }
+            } catch (stepError) {
+                console.error(`Failed to escalate approval step ${step.id}:`, stepError);
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Start the given waiting steps: resolve approvers, set the SLA deadline and
+     * notify. Returns how many were started; a step someone else started is skipped.
+     */
+    private async activateStage(
+        client: SupabaseClient<Database>,
+        quoteId: string,
+        steps: QuoteApprovalStep[],
+        now: Date
+    ): Promise<number> {
+        let activated = 0;
+
+        for (const step of steps) {
+            const approverIds = await this.resolveApprovers(client, step.approverRole, step.approverUserIds);
+            const dueAt = new Date(now.getTime() + step.slaHours * HOUR_MS);
+
+            if (approverIds.length === 0) {
+                console.warn(`No approvers found for ${step.name}; it will escalate after ${step.slaHours}h`);
+            }
+
+            const { data, error } = await client
+                .from('smartquote_v3_quote_approval_steps')
+                .update({
+                    status: ApprovalStepStatus.PENDING,
+                    approver_user_ids: approverIds,
+                    started_at: now.toISOString(),
+                    due_at: dueAt.toISOString(),
+                })
+                .eq('id', step.id)
+                .eq('status', ApprovalStepStatus.WAITING)
+                .select('id');
+
+            if (error) throw error;
+            if (!data || data.length === 0) continue;
+            activated++;
+
+            for (const approverId of approverIds) {
+                await notificationService.sendApprovalRequest(
+                    quoteId,
+                    approverId,
+                    `${step.name} approval due by ${dueAt.toLocaleString('en-GB')}`,
+                    client
+                );
+            }
+        }
+
+        return activated;
+    }
+
+    /**
+     * Named users plus everyone whose profile has the role
+     */
+    private async resolveApprovers(
+        client: SupabaseClient<Database>,
+        role?: string,
+        userIds: string[] = []
+    ): Promise<string[]> {
+        const ids = new Set(userIds);
+
+        if (role) {
+            const { data, error } = await client.from('profiles').select('id').ilike('role', role);
+            if (error) throw error;
+            (data || []).forEach((profile: { id: string }) => ids.add(profile.id));
+        }
+
+        return Array.from(ids);
+    }
+
+    private async addConditions(
+        client: SupabaseClient<Database>,
+        quoteId: string,
+        stepId: string | undefined,
+        conditions: string | undefined,
+        userId: string
+    ): Promise<void> {
+        const descriptions = parseApprovalConditions(conditions);
+        if (descriptions.length === 0) return;
+
+        const { error } = await client.from('smartquote_v3_approval_conditions').insert(
+            descriptions.map(description => ({
+                quote_id: quoteId,
+                step_id: stepId,
+                description,
+                created_by: userId,
+            }))
+        );
+
+        if (error) throw error;
+    }
+
+    /**
+     * Stop the chain after a rejection or change request. The caller's own step
+     * is marked rejected so the panel shows where it stopped. Returns false,
+     * changing nothing, when the caller cannot decide a current step or, with
+     * no chain open, is not allowed to approve quotes.
+     */
+    private async closeOpenSteps(client: SupabaseClient<Database>, quoteId: string, actor: ApprovalActor): Promise<boolean> {
+        const steps = (await this.getApprovalSteps(quoteId, client)).filter(isOpenStep);
+        const allowed = steps.length > 0
+            ? steps.some(step => canDecideStep(step, actor))
+            : canApproveQuotes(actor.role);
+        if (!allowed) return false;
+
+        for (const step of steps) {
+            const rejectedHere = canDecideStep(step, actor);
+            const { error } = await client
+                .from('smartquote_v3_quote_approval_steps')
+                .update({
+                    status: rejectedHere ? ApprovalStepStatus.REJECTED : ApprovalStepStatus.CANCELLED,
+                    completed_at: new Date().toISOString(),
+                })
+                .eq('id', step.id)
+                .in('status', [ApprovalStepStatus.PENDING, ApprovalStepStatus.WAITING]);
+
+            if (error) throw error;
+        }
+
+        return true;
+    }
+
+    /**
+     * Chain steps and conditions are written with the service role, so the
+     * browser sends approval decisions to /api/quotes/approval
+     */
+    private async postApprovalAction<T extends ApprovalActionResult>(
+        body: Record<string, unknown>,
+        failureMessage: string
+    ): Promise<T> {
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session) {
+                return { success: false, error: 'User not authenticated' } as T;
+            }
+
+            const response = await fetch('/api/quotes/approval', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${session.access_token}`,
+                },
+                body: JSON.stringify(body),
+            });
+
+            const result = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                return { success: false, status: response.status, error: result.error || failureMessage } as T;
+            }
+            return result as T;
+        } catch (error) {
+            console.error(`${failureMessage}:`, error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : failureMessage,
+            } as T;
+        }
+    }
 }
 
 export const approvalWorkflowService = new ApprovalWorkflowService();
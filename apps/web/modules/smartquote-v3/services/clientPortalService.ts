@@ -0,0 +1,399 @@
+// ============================================================================
+// SmartQuote v3 - Client Portal Service
+// ============================================================================
+// Staff share a quote with `createPortalLink`. Everything else runs server-side
+// in /api/quote-portal/[token] with a service-role client, as the client has
+// no account: the token is the only credential.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { supabase } from '../../../lib/supabaseClient';
+import { getSiteUrl } from '../../../lib/utils/url';
+import { CommentType, PortalQuoteView, QuoteStatus } from '../types';
+
+import { approvalWorkflowService } from './approvalWorkflowService';
+import { collaborationService } from './collaborationService';
+import { notificationService } from './notificationService';
+import { statusTrackingService } from './statusTrackingService';
+
+const DEFAULT_LINK_DAYS = 30;
+const MAX_SIGNATURE_BYTES = 200 * 1024;
+const MAX_FEEDBACK_LENGTH = 5000;
+
+/** Statuses in which the client can still respond */
+const OPEN_STATUSES = [QuoteStatus.PENDING_CLIENT, QuoteStatus.SENT, QuoteStatus.NEGOTIATING];
+
+export type PortalFailureReason = 'not_found' | 'expired' | 'not_allowed' | 'invalid';
+
+export type PortalResult<T = undefined> =
+    | { success: true; data: T }
+    | { success: false; reason: PortalFailureReason; error: string };
+
+interface PortalAccessRow {
+    id: string;
+    quote_id: string;
+    client_email: string;
+    client_name: string | null;
+    can_approve: boolean;
+    can_request_changes: boolean;
+    expires_at: string | null;
+    access_count: number | null;
+    ip_addresses: string[] | null;
+    signed_name: string | null;
+    signed_at: string | null;
+    revoked_at: string | null;
+}
+
+interface PortalQuoteRow {
+    id: string;
+    quote_ref: string;
+    client_name: string;
+    project_name: string | null;
+    status: QuoteStatus;
+    products: Array<{ productCode?: string; description?: string; cleanDescription?: string; quantity?: number }> | null;
+    results: { profitability?: { vatAmount?: number; totalIncVat?: number; isReverseCharge?: boolean } } | null;
+    total_amount: number;
+    valid_until: string | null;
+    expires_at: string | null;
+    client_viewed_at: string | null;
+    created_by: string | null;
+    deleted_at: string | null;
+}
+
+const fail = (reason: PortalFailureReason, error: string): PortalResult<never> => ({ success: false, reason, error });
+
+/**
+ * Check a typed name and a drawn signature (PNG data URL from the signature pad)
+ */
+export const validateSignature = (signedName: string, signatureData: string): string | null => {
+    if (!signedName || signedName.trim().length < 2) {
+        return 'Please type your full name';
+    }
+    if (!/^data:image\/png;base64,[A-Za-z0-9+/]+=*$/.test(signatureData || '')) {
+        return 'Please draw your signature';
+    }
+    if (signatureData.length > MAX_SIGNATURE_BYTES) {
+        return 'Signature image is too large';
+    }
+    return null;
+};
+
+/**
+ * Build the client-facing view of a quote. Costs and margins are never included.
+ */
+export const toPortalQuoteView = (quote: PortalQuoteRow, access: PortalAccessRow): PortalQuoteView => {
+    const isOpen = OPEN_STATUSES.includes(quote.status) && !access.signed_at;
+    const vat = quote.results?.profitability;
+
+    return {
+        quoteRef: quote.quote_ref,
+        clientName: quote.client_name,
+        projectName: quote.project_name || undefined,
+        status: quote.status,
+        lines: (quote.products || []).map(product => ({
+            productCode: product.productCode || '',
+            description: product.description || product.cleanDescription || product.productCode || '',
+            quantity: Number(product.quantity) || 0,
+        })),
+        totalExVat: Number(quote.total_amount) || 0,
+        vatAmount: vat?.vatAmount,
+        totalIncVat: vat?.totalIncVat,
+        isReverseCharge: vat?.isReverseCharge,
+        validUntil: quote.valid_until || quote.expires_at || undefined,
+        canAccept: isOpen && access.can_approve,
+        canRequestChanges: isOpen && access.can_request_changes,
+        signedName: access.signed_name || undefined,
+        signedAt: access.signed_at || undefined,
+    };
+};
+
+const generateAccessToken = () =>
+    Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+class ClientPortalService {
+    /**
+     * Create a portal link for a client (staff only). Returns the URL to send them.
+     */
+    async createPortalLink(
+        quoteId: string,
+        clientEmail: string,
+        clientName?: string
+    ): Promise<{ success: boolean; url?: string; error?: string }> {
+        try {
+            const { data: user } = await supabase.auth.getUser();
+            const userId = user?.user?.id;
+
+            if (!userId) {
+                return { success: false, error: 'User not authenticated' };
+            }
+
+            const { data: quote, error: quoteError } = await supabase
+                .from('smartquote_v3_quotes')
+                .select('id, expires_at, sent_to_client_at')
+                .eq('id', quoteId)
+                .single();
+
+            if (quoteError || !quote) {
+                return { success: false, error: 'Quote not found' };
+            }
+
+            const outstanding = await approvalWorkflowService.getOutstandingConditions(quoteId);
+            if (outstanding.length > 0) {
+                return {
+                    success: false,
+                    error: `${outstanding.length} approval condition(s) must be met before sharing`,
+                };
+            }
+
+            const accessToken = generateAccessToken();
+            const expiresAt = quote.expires_at ||
+                new Date(Date.now() + DEFAULT_LINK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+            const { error } = await supabase.from('smartquote_v3_client_portal_access').insert({
+                quote_id: quoteId,
+                access_token: accessToken,
+                client_email: clientEmail.trim().toLowerCase(),
+                client_name: clientName,
+                expires_at: expiresAt,
+                created_by: userId,
+            });
+
+            if (error) throw error;
+
+            if (!quote.sent_to_client_at) {
+                await supabase
+                    .from('smartquote_v3_quotes')
+                    .update({ sent_to_client_at: new Date().toISOString() })
+                    .eq('id', quoteId);
+            }
+
+            return { success: true, url: `${getSiteUrl()}/quote-portal/${accessToken}` };
+        } catch (error) {
+            console.error('Failed to create portal link:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to create portal link',
+            };
+        }
+    }
+
+    /**
+     * Load the quote for a portal token and record the view
+     */
+    async viewQuote(
+        client: SupabaseClient<any>,
+        token: string,
+        viewer: { ip?: string } = {}
+    ): Promise<PortalResult<PortalQuoteView>> {
+        const resolved = await this.resolveToken(client, token);
+        if (!resolved.success) return resolved;
+
+        const { access, quote } = resolved.data;
+        const now = new Date().toISOString();
+
+        await client
+            .from('smartquote_v3_client_portal_access')
+            .update({
+                access_count: (access.access_count || 0) + 1,
+                last_accessed_at: now,
+                ip_addresses: viewer.ip && !(access.ip_addresses || []).includes(viewer.ip)
+                    ? [...(access.ip_addresses || []), viewer.ip]
+                    : access.ip_addresses,
+            })
+            .eq('id', access.id);
+
+        // Only the first view notifies the owner
+        if (!quote.client_viewed_at) {
+            await client.from('smartquote_v3_quotes').update({ client_viewed_at: now }).eq('id', quote.id);
+            await client.from('smartquote_v3_analytics_events').insert({
+                event_type: 'client_viewed',
+                quote_id: quote.id,
+                user_id: null,
+                event_data: { client_email: access.client_email },
+            });
+
+            if (quote.created_by) {
+                await notificationService.sendQuoteViewed(quote.id, quote.created_by, access.client_email, client);
+            }
+        }
+
+        return { success: true, data: toPortalQuoteView(quote, access) };
+    }
+
+    /**
+     * Accept the quote with a typed name and drawn signature. Marks the quote as won.
+     */
+    async acceptQuote(
+        client: SupabaseClient<any>,
+        token: string,
+        signature: { signedName: string; signatureData: string; ip?: string }
+    ): Promise<PortalResult<PortalQuoteView>> {
+        const invalid = validateSignature(signature.signedName, signature.signatureData);
+        if (invalid) return fail('invalid', invalid);
+
+        const resolved = await this.resolveToken(client, token);
+        if (!resolved.success) return resolved;
+
+        const { access, quote } = resolved.data;
+        if (!toPortalQuoteView(quote, access).canAccept) {
+            return fail('not_allowed', 'This quote can no longer be accepted online');
+        }
+
+        const signedAt = new Date().toISOString();
+
+        // Claiming the unsigned row is the lock: a second accept racing this one updates nothing
+        const { data: signed, error: signError } = await client
+            .from('smartquote_v3_client_portal_access')
+            .update({
+                signed_name: signature.signedName.trim(),
+                signature_data: signature.signatureData,
+                signature_ip: signature.ip || null,
+                signed_at: signedAt,
+            })
+            .eq('id', access.id)
+            .is('signed_at', null)
+            .select('id');
+
+        if (signError) {
+            console.error('Failed to record signature:', signError);
+            return fail('invalid', 'Failed to record signature');
+        }
+        if (!signed || signed.length === 0) {
+            return fail('not_allowed', 'This quote has already been accepted');
+        }
+
+        const won = await statusTrackingService.markAsWon(quote.id, undefined, client);
+        if (!won.success) {
+            // Release the signature so the client can try again
+            await client
+                .from('smartquote_v3_client_portal_access')
+                .update({ signed_name: null, signature_data: null, signature_ip: null, signed_at: null })
+                .eq('id', access.id)
+                .eq('signed_at', signedAt);
+            return fail('invalid', won.error || 'Failed to accept quote');
+        }
+
+        await client.from('smartquote_v3_quotes').update({ client_approved_at: signedAt }).eq('id', quote.id);
+
+        return {
+            success: true,
+            data: toPortalQuoteView(
+                { ...quote, status: QuoteStatus.WON },
+                { ...access, signed_name: signature.signedName.trim(), signed_at: signedAt }
+            ),
+        };
+    }
+
+    /**
+     * Send change requests back to the quote owner as a client feedback comment
+     */
+    async requestChanges(
+        client: SupabaseClient<any>,
+        token: string,
+        feedback: { message: string; name?: string }
+    ): Promise<PortalResult<PortalQuoteView>> {
+        const message = (feedback.message || '').trim();
+        if (!message) return fail('invalid', 'Please describe the changes you need');
+        if (message.length > MAX_FEEDBACK_LENGTH) return fail('invalid', 'Message is too long');
+
+        const resolved = await this.resolveToken(client, token);
+        if (!resolved.success) return resolved;
+
+        const { access, quote } = resolved.data;
+        if (!toPortalQuoteView(quote, access).canRequestChanges) {
+            return fail('not_allowed', 'Changes can no longer be requested on this quote');
+        }
+
+        const clientName = feedback.name?.trim() || access.client_name || access.client_email;
+
+        const comment = await collaborationService.addComment(quote.id, message, {
+            commentType: CommentType.CLIENT_FEEDBACK,
+            clientAuthor: { name: clientName, email: access.client_email },
+            client,
+        });
+        if (!comment.success) {
+            return fail('invalid', comment.error || 'Failed to send feedback');
+        }
+
+        // Feedback reopens the conversation
+        const nextStatus = statusTrackingService.canTransitionTo(quote.status, QuoteStatus.NEGOTIATING)
+            ? QuoteStatus.NEGOTIATING
+            : quote.status;
+
+        await client
+            .from('smartquote_v3_quotes')
+            .update({
+                client_feedback: message,
+                ...(nextStatus !== quote.status && {
+                    status: nextStatus,
+                    status_updated_at: new Date().toISOString(),
+                    status_updated_by: null,
+                }),
+            })
+            .eq('id', quote.id);
+
+        if (nextStatus !== quote.status) {
+            await client.from('smartquote_v3_analytics_events').insert({
+                event_type: 'status_change',
+                quote_id: quote.id,
+                user_id: null,
+                event_data: {
+                    old_status: quote.status,
+                    new_status: nextStatus,
+                    notes: 'Client requested changes',
+                },
+            });
+        }
+
+        if (quote.created_by) {
+            await notificationService.sendClientFeedback(quote.id, quote.created_by, clientName, message, client);
+        }
+
+        return { success: true, data: toPortalQuoteView({ ...quote, status: nextStatus }, access) };
+    }
+
+    private async resolveToken(
+        client: SupabaseClient<any>,
+        token: string
+    ): Promise<PortalResult<{ access: PortalAccessRow; quote: PortalQuoteRow }>> {
+        if (!/^[0-9a-f]{48}$/.test(token || '')) {
+            return fail('not_found', 'This link is not valid');
+        }
+
+        try {
+            const { data: access, error: accessError } = await client
+                .from('smartquote_v3_client_portal_access')
+                .select('id, quote_id, client_email, client_name, can_approve, can_request_changes, expires_at, access_count, ip_addresses, signed_name, signed_at, revoked_at')
+                .eq('access_token', token)
+                .maybeSingle();
+
+            if (accessError) throw accessError;
+            if (!access || access.revoked_at) {
+                return fail('not_found', 'This link is not valid');
+            }
+
+            const { data: quote, error: quoteError } = await client
+                .from('smartquote_v3_quotes')
+                .select('id, quote_ref, client_name, project_name, status, products, results, total_amount, valid_until, expires_at, client_viewed_at, created_by, deleted_at')
+                .eq('id', access.quote_id)
+                .maybeSingle();
+
+            if (quoteError) throw quoteError;
+            if (!quote || quote.deleted_at) {
+                return fail('not_found', 'This quote is no longer available');
+            }
+
+            // Signed links stay viewable as a record of acceptance
+            if (!access.signed_at && access.expires_at && new Date(access.expires_at) < new Date()) {
+                return fail('expired', 'This link has expired - please contact us for an updated quote');
+            }
+
+            return { success: true, data: { access: access as PortalAccessRow, quote: quote as PortalQuoteRow } };
+        } catch (error) {
+            console.error('Failed to resolve portal token:', error);
+            return fail('not_found', 'This link is not valid');
+        }
+    }
+}
+
+export const clientPortalService = new ClientPortalService();
@@ -2,6 +2,8 @@
 // SmartQuote v3 - Collaboration Service
 // ============================================================================
 
+import type { SupabaseClient } from '@supabase/supabase-js';
+
 import { supabase } from '../../../lib/supabaseClient';
 import { Comment, CommentType, CommentAttachment, CommentContext } from '../types';
 
@@ -9,7 +11,8 @@ import { notificationService } from './notificationService';
 
 class CollaborationService {
     /**
-     * Add a comment to a quote
+     * Add a comment to a quote. Comments from the client portal pass `clientAuthor`
+     * and a service-role `client`; they are stored client-visible with no staff author.
      */
     async addComment(
         quoteId: string,
@@ -21,20 +24,36 @@ class CollaborationService {
             attachments?: CommentAttachment[];
             context?: CommentContext;
             parentCommentId?: string;
+            clientAuthor?: { name: string; email: string };
+            client?: SupabaseClient<any>;
         } = {}
     ): Promise<{ success: boolean; data?: Comment; error?: string }> {
         try {
-            const { data: user } = await supabase.auth.getUser();
-            const userId = user?.user?.id;
+            const db = options.client || supabase;
+            let userId: string | null = null;
 
-            if (!userId) {
-                return { success: false, error: 'User not authenticated' };
+            if (!options.clientAuthor) {
+                const { data: user } = await db.auth.getUser();
+                userId = user?.user?.id ?? null;
+
+                if (!userId) {
+                    return { success: false, error: 'User not authenticated' };
+                }
             }
 
+            const context: CommentContext = options.clientAuthor
+                ? {
+                    ...options.context,
+                    source: 'client_portal',
+                    clientName: options.clientAuthor.name,
+                    clientEmail: options.clientAuthor.email,
+                }
+                : options.context || {};
+
             // Determine thread root
             let threadRootId = options.parentCommentId;
             if (options.parentCommentId) {
-                const { data: parentComment } = await supabase
+                const { data: parentComment } = await db
                     .from('smartquote_v3_comments')
                     .select('thread_root_id')
                     .eq('id', options.parentCommentId)
@@ -44,16 +63,17 @@ class CollaborationService {
             }
 
             // Insert comment
-            const { data, error } = await supabase
+            const { data, error } = await db
                 .from('smartquote_v3_comments')
                 .insert({
                     quote_id: quoteId,
                     comment_text: commentText,
-                    is_internal: options.isInternal ?? true,
-                    comment_type: options.commentType || CommentType.GENERAL,
+                    is_internal: options.isInternal ?? !options.clientAuthor,
+                    comment_type: options.commentType ||
+                        (options.clientAuthor ? CommentType.CLIENT_FEEDBACK : CommentType.GENERAL),
                     mentioned_user_ids: options.mentionedUserIds || [],
                     attachments: options.attachments || [],
-                    context: options.context || {},
+                    context,
                     parent_comment_id: options.parentCommentId,
                     thread_root_id: threadRootId,
                     created_by: userId,
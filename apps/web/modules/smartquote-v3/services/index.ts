@@ -11,3 +11,4 @@ export { hybridParsingService } from './hybridParsingService';
 export { templateService } from './templateService';
 export { pricingRulesService } from './pricingRulesService';
 export { jobIntegrationService } from './jobIntegrationService';
+export { clientPortalService } from './clientPortalService';
@@ -0,0 +1,252 @@
+// ============================================================================
+// SmartQuote v3 - Notification Channel Adapters
+// ============================================================================
+// Server-only. Each adapter delivers one outbox entry over one channel and
+// throws on failure so the outbox can retry with backoff.
+
+import { createHmac } from 'crypto';
+
+import nodemailer, { Transporter } from 'nodemailer';
+import webpush, { PushSubscription } from 'web-push';
+
+import { getSiteUrl } from '../../../lib/utils/url';
+import { NotificationChannel, NotificationPriority, NotificationType } from '../types';
+
+export interface OutboundNotification {
+    id: string;
+    type: NotificationType;
+    title: string;
+    message?: string;
+    quoteId?: string;
+    actionUrl?: string;
+    actionLabel?: string;
+    priority: NotificationPriority;
+}
+
+export interface NotificationRecipient {
+    userId: string;
+    email?: string;
+    pushSubscriptions: PushSubscription[];
+}
+
+export interface NotificationChannelAdapter {
+    channel: NotificationChannel;
+    /** Whether the recipient has an address on this channel at all */
+    canDeliver(recipient: NotificationRecipient): boolean;
+    send(notification: OutboundNotification, recipient: NotificationRecipient): Promise<void>;
+}
+
+const absoluteUrl = (path?: string) => (path ? new URL(path, getSiteUrl()).toString() : undefined);
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ============================================================================
+// SMTP
+// ============================================================================
+
+export interface SmtpAdapterOptions {
+    host: string;
+    port: number;
+    secure?: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+}
+
+export class SmtpChannelAdapter implements NotificationChannelAdapter {
+    channel = NotificationChannel.EMAIL;
+    private transporter: Transporter;
+
+    constructor(private options: SmtpAdapterOptions) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure ?? options.port === 465,
+            auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+        });
+    }
+
+    canDeliver(recipient: NotificationRecipient): boolean {
+        return Boolean(recipient.email);
+    }
+
+    async send(notification: OutboundNotification, recipient: NotificationRecipient): Promise<void> {
+        const link = absoluteUrl(notification.actionUrl);
+        const message = notification.message || '';
+
+        await this.transporter.sendMail({
+            from: this.options.from,
+            to: recipient.email,
+            subject: notification.title,
+            text: [message, link ? `${notification.actionLabel || 'Open'}: ${link}` : ''].filter(Boolean).join('\n\n'),
+            html: [
+                `<p>${escapeHtml(message).replace(/\n/g, '<br>')}</p>`,
+                link ? `<p><a href="${escapeHtml(link)}">${escapeHtml(notification.actionLabel || 'Open in BHIT')}</a></p>` : '',
+            ].join(''),
+            headers: { 'X-BHIT-Notification-Id': notification.id },
+        });
+    }
+}
+
+// ============================================================================
+// WEB PUSH
+// ============================================================================
+
+export interface WebPushAdapterOptions {
+    publicKey: string;
+    privateKey: string;
+    subject: string; // mailto: or https: contact for the push service
+    /** Called when the push service reports a subscription as gone (404/410) */
+    onExpiredSubscription?: (endpoint: string) => Promise<void>;
+}
+
+export class WebPushChannelAdapter implements NotificationChannelAdapter {
+    channel = NotificationChannel.PUSH;
+
+    constructor(private options: WebPushAdapterOptions) {}
+
+    canDeliver(recipient: NotificationRecipient): boolean {
+        return recipient.pushSubscriptions.length > 0;
+    }
+
+    async send(notification: OutboundNotification, recipient: NotificationRecipient): Promise<void> {
+        const payload = JSON.stringify({
+            id: notification.id,
+            title: notification.title,
+            body: notification.message,
+            url: notification.actionUrl,
+            priority: notification.priority,
+        });
+
+        let delivered = 0;
+        const errors: string[] = [];
+
+        for (const subscription of recipient.pushSubscriptions) {
+            try {
+                // web-push encrypts and signs; the request itself goes over fetch so any endpoint works
+                const request = webpush.generateRequestDetails(subscription, payload, {
+                    vapidDetails: {
+                        subject: this.options.subject,
+                        publicKey: this.options.publicKey,
+                        privateKey: this.options.privateKey,
+                    },
+                    TTL: 24 * 60 * 60,
+                    urgency: notification.priority === NotificationPriority.URGENT ? 'high' : 'normal',
+                });
+                const response = await fetch(request.endpoint, {
+                    method: request.method,
+                    headers: request.headers as Record<string, string>,
+                    body: request.body ? new Uint8Array(request.body) : undefined,
+                });
+
+                if (response.status === 404 || response.status === 410) {
+                    await this.options.onExpiredSubscription?.(subscription.endpoint);
+                    continue;
+                }
+                if (!response.ok) {
+                    throw new Error(`Push service responded ${response.status}`);
+                }
+                delivered++;
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        // Succeed if any device got it; retrying would duplicate on the others
+        if (delivered === 0 && errors.length > 0) {
+            throw new Error(`Web push failed: ${errors.join('; ')}`);
+        }
+    }
+}
+
+// ============================================================================
+// WEBHOOK
+// ============================================================================
+
+export interface WebhookAdapterOptions {
+    // The one endpoint set by an admin (NOTIFICATION_WEBHOOK_URL). Recipients can't
+    // supply their own, so users can never point the server at an address of their choosing.
+    url?: string;
+    secret?: string; // Signs the body as X-BHIT-Signature: sha256=<hex>
+    timeoutMs?: number;
+}
+
+export class WebhookChannelAdapter implements NotificationChannelAdapter {
+    channel = NotificationChannel.WEBHOOK;
+
+    constructor(private options: WebhookAdapterOptions = {}) {}
+
+    canDeliver(): boolean {
+        return Boolean(this.options.url);
+    }
+
+    async send(notification: OutboundNotification, recipient: NotificationRecipient): Promise<void> {
+        if (!this.options.url) {
+            throw new Error('No notification webhook is configured');
+        }
+        const body = JSON.stringify({
+            event: 'smartquote.notification',
+            userId: recipient.userId,
+            notification: { ...notification, actionUrl: absoluteUrl(notification.actionUrl) },
+        });
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.options.secret) {
+            headers['X-BHIT-Signature'] = `sha256=${createHmac('sha256', this.options.secret).update(body).digest('hex')}`;
+        }
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 10000);
+        try {
+            const response = await fetch(this.options.url, { method: 'POST', headers, body, signal: controller.signal });
+            if (!response.ok) {
+                throw new Error(`Webhook responded ${response.status}`);
+            }
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Build the adapters whose settings are present in the environment.
+ * SMTP_HOST/SMTP_PORT can point at a local catcher (e.g. Mailpit on 1025) in development.
+ */
+export const createChannelAdapters = (
+    env: NodeJS.ProcessEnv = process.env,
+    hooks: Pick<WebPushAdapterOptions, 'onExpiredSubscription'> = {}
+): NotificationChannelAdapter[] => {
+    const adapters: NotificationChannelAdapter[] = [];
+
+    if (env.SMTP_HOST) {
+        adapters.push(new SmtpChannelAdapter({
+            host: env.SMTP_HOST,
+            port: parseInt(env.SMTP_PORT || '587', 10),
+            secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : undefined,
+            user: env.SMTP_USER,
+            pass: env.SMTP_PASS,
+            from: env.SMTP_FROM || 'BHIT SmartQuote <notifications@bhit.local>',
+        }));
+    }
+
+    if (env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY) {
+        adapters.push(new WebPushChannelAdapter({
+            publicKey: env.VAPID_PUBLIC_KEY,
+            privateKey: env.VAPID_PRIVATE_KEY,
+            subject: env.VAPID_SUBJECT || 'mailto:notifications@bhit.local',
+            ...hooks,
+        }));
+    }
+
+    adapters.push(new WebhookChannelAdapter({
+        url: env.NOTIFICATION_WEBHOOK_URL,
+        secret: env.NOTIFICATION_WEBHOOK_SECRET,
+    }));
+
+    return adapters;
+};
@@ -0,0 +1,352 @@
+// ============================================================================
+// SmartQuote v3 - Notification Outbox Service
+// ============================================================================
+// Notifications are queued per channel in smartquote_v3_notification_outbox by a
+// trigger on smartquote_v3_notifications and drained by /api/cron/dispatch-notifications. Preferences and quiet hours are
+// checked at send time, so changes apply to anything still queued.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PushSubscription } from 'web-push';
+
+import { supabase } from '../../../lib/supabaseClient';
+import {
+    NotificationChannel,
+    NotificationPreferences,
+    NotificationPriority,
+    NotificationType,
+    OutboxStatus,
+    QuietHours,
+} from '../types';
+
+import type { NotificationChannelAdapter, NotificationRecipient, OutboundNotification } from './notificationChannels';
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+type PreferenceKey = Exclude<keyof NotificationPreferences, 'channels' | 'quietHours'>;
+
+const PREFERENCE_FOR_TYPE: Record<NotificationType, PreferenceKey> = {
+    [NotificationType.APPROVAL_REQUEST]: 'approvalRequests',
+    [NotificationType.APPROVAL_APPROVED]: 'approvalRequests',
+    [NotificationType.APPROVAL_REJECTED]: 'approvalRequests',
+    [NotificationType.CHANGE_REQUESTED]: 'approvalRequests',
+    [NotificationType.COMMENT_MENTION]: 'mentions',
+    [NotificationType.STATUS_CHANGE]: 'statusChanges',
+    [NotificationType.QUOTE_VIEWED]: 'quoteViewed',
+    [NotificationType.CLIENT_FEEDBACK]: 'quoteViewed',
+    [NotificationType.QUOTE_WON]: 'wonLost',
+    [NotificationType.QUOTE_LOST]: 'wonLost',
+    [NotificationType.QUOTE_EXPIRED]: 'expiring',
+};
+
+export type DeliveryDecision =
+    | { action: 'send' }
+    | { action: 'suppress'; reason: string }
+    | { action: 'defer'; until: Date };
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+};
+
+/**
+ * If `now` falls inside the quiet hours window, returns when the window ends; otherwise null.
+ */
+export const getQuietHoursEnd = (quietHours: QuietHours | undefined, now: Date): Date | null => {
+    if (!quietHours?.enabled) return null;
+
+    const parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone: quietHours.timezone || 'Europe/London',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(now);
+    const localMinutes =
+        Number(parts.find(part => part.type === 'hour')?.value) * 60 +
+        Number(parts.find(part => part.type === 'minute')?.value);
+
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    if (start === end) return null;
+
+    const inWindow = start < end
+        ? localMinutes >= start && localMinutes < end
+        : localMinutes >= start || localMinutes < end;
+    if (!inWindow) return null;
+
+    const minutesUntilEnd = (end - localMinutes + 24 * 60) % (24 * 60);
+    const until = new Date(now.getTime() + minutesUntilEnd * 60 * 1000);
+    until.setSeconds(0, 0);
+    return until;
+};
+
+/**
+ * Decide what to do with one queued delivery. Urgent notifications ignore quiet hours.
+ */
+export const decideDelivery = (
+    type: NotificationType,
+    priority: NotificationPriority,
+    channel: NotificationChannel,
+    preferences: NotificationPreferences | null,
+    now: Date
+): DeliveryDecision => {
+    if (!preferences) return { action: 'send' };
+
+    if (preferences[PREFERENCE_FOR_TYPE[type]] === false) {
+        return { action: 'suppress', reason: `${type} notifications are turned off` };
+    }
+    if (preferences.channels?.[channel] === false) {
+        return { action: 'suppress', reason: `${channel} channel is turned off` };
+    }
+
+    if (priority !== NotificationPriority.URGENT) {
+        const quietUntil = getQuietHoursEnd(preferences.quietHours, now);
+        if (quietUntil) return { action: 'defer', until: quietUntil };
+    }
+
+    return { action: 'send' };
+};
+
+/**
+ * Exponential backoff after a failed attempt: 1m, 2m, 4m ... capped at 6h.
+ */
+export const getRetryDelayMs = (attempts: number): number =>
+    Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+
+/**
+ * A web push subscription stored as JSON in smartquote_v3_mobile_devices.push_token; null if unreadable.
+ */
+export const parsePushSubscription = (pushToken: string | null): PushSubscription | null => {
+    try {
+        const subscription = JSON.parse(pushToken || '') as PushSubscription;
+        return subscription?.endpoint ? subscription : null;
+    } catch {
+        return null;
+    }
+};
+
+export interface OutboxRunSummary {
+    sent: number;
+    retried: number;
+    failed: number;
+    suppressed: number;
+    deferred: number;
+}
+
+class NotificationOutboxService {
+    /**
+     * Deliver due outbox entries. Runs server-side with a service-role client.
+     */
+    async processOutbox(
+        client: SupabaseClient<any>,
+        adapters: NotificationChannelAdapter[],
+        options: { batchSize?: number; now?: Date } = {}
+    ): Promise<OutboxRunSummary> {
+        const now = options.now || new Date();
+        const summary: OutboxRunSummary = { sent: 0, retried: 0, failed: 0, suppressed: 0, deferred: 0 };
+
+        const { data: entries, error } = await client
+            .from('smartquote_v3_notification_outbox')
+            .select('*, notification:smartquote_v3_notifications(*)')
+            .eq('status', OutboxStatus.PENDING)
+            .lte('next_attempt_at', now.toISOString())
+            .order('next_attempt_at', { ascending: true })
+            .limit(options.batchSize || 50);
+
+        if (error) throw error;
+        if (!entries || entries.length === 0) return summary;
+
+        // Claim the batch by pushing it past a lease, so an overlapping run skips it
+        const { data: claimed, error: claimError } = await client
+            .from('smartquote_v3_notification_outbox')
+            .update({ next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString() })
+            .in('id', entries.map((entry: any) => entry.id))
+            .eq('status', OutboxStatus.PENDING)
+            .lte('next_attempt_at', now.toISOString())
+            .select('id');
+
+        if (claimError) throw claimError;
+        const claimedIds = new Set((claimed || []).map((row: any) => row.id as string));
+        const batch = (entries as any[]).filter((entry) => claimedIds.has(entry.id));
+
+        const userIds = Array.from(new Set(batch.map((entry) => entry.user_id as string)));
+        const recipients = await this.loadRecipients(client, userIds);
+
+        for (const entry of batch) {
+            const row = entry.notification;
+            const update = (fields: Record<string, unknown>) =>
+                client.from('smartquote_v3_notification_outbox').update({ ...fields, updated_at: now.toISOString() }).eq('id', entry.id);
+
+            // Notification was deleted after queueing
+            if (!row) {
+                await update({ status: OutboxStatus.SUPPRESSED, last_error: 'Notification no longer exists' });
+                summary.suppressed++;
+                continue;
+            }
+
+            const { recipient, preferences } = recipients.get(entry.user_id) || {
+                recipient: { userId: entry.user_id, pushSubscriptions: [] },
+                preferences: null,
+            };
+            const adapter = adapters.find((candidate) => candidate.channel === entry.channel);
+
+            const decision: DeliveryDecision = !adapter
+                ? { action: 'suppress', reason: `${entry.channel} channel is not configured` }
+                : !adapter.canDeliver(recipient)
+                    ? { action: 'suppress', reason: `No ${entry.channel} address for recipient` }
+                    : decideDelivery(row.type, row.priority, entry.channel, preferences, now);
+
+            if (decision.action === 'suppress') {
+                await update({ status: OutboxStatus.SUPPRESSED, last_error: decision.reason });
+                summary.suppressed++;
+                continue;
+            }
+            if (decision.action === 'defer') {
+                await update({ next_attempt_at: decision.until.toISOString() });
+                summary.deferred++;
+                continue;
+            }
+
+            const notification: OutboundNotification = {
+                id: row.id,
+                type: row.type,
+                title: row.title,
+                message: row.message ?? undefined,
+                quoteId: row.quote_id ?? undefined,
+                actionUrl: row.action_url ?? undefined,
+                actionLabel: row.action_label ?? undefined,
+                priority: row.priority,
+            };
+            const attempts = entry.attempts + 1;
+
+            try {
+                await adapter!.send(notification, recipient);
+                await update({ status: OutboxStatus.SENT, attempts, sent_at: now.toISOString(), last_error: null });
+                await this.markNotificationSent(client, entry.notification_id, entry.channel, recipient, now);
+                summary.sent++;
+            } catch (sendError) {
+                const lastError = sendError instanceof Error ? sendError.message : String(sendError);
+                if (attempts >= entry.max_attempts) {
+                    await update({ status: OutboxStatus.FAILED, attempts, last_error: lastError });
+                    summary.failed++;
+                } else {
+                    await update({
+                        attempts,
+                        last_error: lastError,
+                        next_attempt_at: new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString(),
+                    });
+                    summary.retried++;
+                }
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Get outbox entries for a notification (delivery status per channel)
+     */
+    async getDeliveryStatus(notificationId: string): Promise<Array<{ channel: NotificationChannel; status: OutboxStatus; attempts: number; lastError?: string }>> {
+        try {
+            const { data, error } = await supabase
+                .from('smartquote_v3_notification_outbox')
+                .select('channel, status, attempts, last_error')
+                .eq('notification_id', notificationId);
+
+            if (error) throw error;
+
+            return (data || []).map((row: any) => ({
+                channel: row.channel,
+                status: row.status,
+                attempts: row.attempts,
+                lastError: row.last_error ?? undefined,
+            }));
+        } catch (error) {
+            console.error('Failed to get delivery status:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Stop pushing to a subscription the push service says is gone. Matches the
+     * stored subscription's endpoint exactly, so no other device is affected.
+     */
+    async deactivatePushSubscription(client: SupabaseClient<any>, endpoint: string): Promise<void> {
+        const { data: devices, error } = await client
+            .from('smartquote_v3_mobile_devices')
+            .select('id, push_token')
+            .eq('push_provider', 'webpush')
+            .eq('is_active', true);
+        if (error) throw error;
+
+        const ids = (devices || [])
+            .filter((device: { push_token: string | null }) => parsePushSubscription(device.push_token)?.endpoint === endpoint)
+            .map((device: { id: string }) => device.id);
+        if (ids.length === 0) return;
+
+        const { error: updateError } = await client
+            .from('smartquote_v3_mobile_devices')
+            .update({ is_active: false })
+            .in('id', ids);
+        if (updateError) throw updateError;
+    }
+
+    private async loadRecipients(
+        client: SupabaseClient<any>,
+        userIds: string[]
+    ): Promise<Map<string, { recipient: NotificationRecipient; preferences: NotificationPreferences | null }>> {
+        const [{ data: profiles }, { data: preferenceRows }, { data: devices }] = await Promise.all([
+            client.from('profiles').select('id, email').in('id', userIds),
+            client.from('smartquote_v3_notification_preferences').select('user_id, preferences').in('user_id', userIds),
+            client
+                .from('smartquote_v3_mobile_devices')
+                .select('user_id, push_token')
+                .in('user_id', userIds)
+                .eq('push_provider', 'webpush')
+                .eq('is_active', true)
+                .eq('notifications_enabled', true),
+        ]);
+
+        const recipients = new Map<string, { recipient: NotificationRecipient; preferences: NotificationPreferences | null }>();
+        for (const userId of userIds) {
+            const preferences = (preferenceRows || []).find((row: any) => row.user_id === userId)?.preferences ?? null;
+            const pushSubscriptions = (devices || [])
+                .filter((device: any) => device.user_id === userId)
+                .map((device: any) => parsePushSubscription(device.push_token))
+                .filter((subscription): subscription is PushSubscription => subscription !== null);
+
+            recipients.set(userId, {
+                recipient: {
+                    userId,
+                    email: (profiles || []).find((profile: any) => profile.id === userId)?.email ?? undefined,
+                    pushSubscriptions,
+                },
+                preferences,
+            });
+        }
+        return recipients;
+    }
+
+    private async markNotificationSent(
+        client: SupabaseClient<any>,
+        notificationId: string,
+        channel: NotificationChannel,
+        recipient: NotificationRecipient,
+        now: Date
+    ): Promise<void> {
+        if (channel === NotificationChannel.EMAIL) {
+            await client
+                .from('smartquote_v3_notifications')
+                .update({ sent_email: true, sent_email_at: now.toISOString(), email_address: recipient.email })
+                .eq('id', notificationId);
+        } else if (channel === NotificationChannel.PUSH) {
+            await client
+                .from('smartquote_v3_notifications')
+                .update({ sent_push: true, sent_push_at: now.toISOString() })
+                .eq('id', notificationId);
+        }
+    }
+}
+
+export const notificationOutboxService = new NotificationOutboxService();
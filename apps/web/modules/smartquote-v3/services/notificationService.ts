@@ -2,11 +2,14 @@
 // SmartQuote v3 - Notification Service
 // ============================================================================
 
+import type { SupabaseClient } from '@supabase/supabase-js';
+
 import { supabase } from '../../../lib/supabaseClient';
 import {
     Notification,
     NotificationType,
     NotificationPriority,
+    NotificationPreferences,
     ChangeRequest,
 } from '../types';
 
@@ -17,11 +20,12 @@ class NotificationService {
     async sendApprovalRequest(
         quoteId: string,
         approverId: string,
-        notes?: string
+        notes?: string,
+        client: SupabaseClient<any> = supabase
     ): Promise<void> {
         try {
             // Get quote details
-            const { data: quote } = await supabase
+            const { data: quote } = await client
                 .from('smartquote_v3_quotes')
                 .select('quote_ref, client_name, total_amount')
                 .eq('id', quoteId)
@@ -38,22 +42,58 @@ class NotificationService {
                 actionUrl: `/smartquote-v3/${quoteId}`,
                 actionLabel: 'Review Quote',
                 priority: NotificationPriority.HIGH,
-            });
+            }, client);
         } catch (error) {
             console.error('Failed to send approval request notification:', error);
         }
     }
 
+    /**
+     * Send approval escalation notification for a step past its SLA.
+     * Called by the escalation cron with a service-role client.
+     */
+    async sendApprovalEscalation(
+        quoteId: string,
+        userId: string,
+        stepName: string,
+        hoursOverdue: number,
+        client: SupabaseClient<any> = supabase
+    ): Promise<void> {
+        try {
+            const { data: quote } = await client
+                .from('smartquote_v3_quotes')
+                .select('quote_ref, client_name, total_amount')
+                .eq('id', quoteId)
+                .single();
+
+            if (!quote) return;
+
+            await this.createNotification({
+                userId,
+                type: NotificationType.APPROVAL_REQUEST,
+                title: `Approval overdue: ${quote.quote_ref}`,
+                message: `${quote.client_name} - £${Number(quote.total_amount || 0).toLocaleString()}\n${stepName} approval is ${hoursOverdue}h past its deadline`,
+                quoteId,
+                actionUrl: `/smartquote-v3/${quoteId}`,
+                actionLabel: 'Review Quote',
+                priority: NotificationPriority.URGENT,
+            }, client);
+        } catch (error) {
+            console.error('Failed to send approval escalation notification:', error);
+        }
+    }
+
     /**
      * Send approval approved notification
      */
     async sendApprovalApproved(
         quoteId: string,
         userId: string,
-        notes?: string
+        notes?: string,
+        client: SupabaseClient<any> = supabase
     ): Promise<void> {
         try {
-            const { data: quote } = await supabase
+            const { data: quote } = await client
                 .from('smartquote_v3_quotes')
                 .select('quote_ref')
                 .eq('id', quoteId)
@@ -69,7 +109,7 @@ class NotificationService {
                 quoteId,
                 actionUrl: `/smartquote-v3/${quoteId}`,
                 priority: NotificationPriority.NORMAL,
-            });
+            }, client);
         } catch (error) {
             console.error('Failed to send approval approved notification:', error);
         }
@@ -81,10 +121,11 @@ class NotificationService {
     async sendApprovalRejected(
         quoteId: string,
         userId: string,
-        reason: string
+        reason: string,
+        client: SupabaseClient<any> = supabase
     ): Promise<void> {
         try {
-            const { data: quote } = await supabase
+            const { data: quote } = await client
                 .from('smartquote_v3_quotes')
                 .select('quote_ref')
                 .eq('id', quoteId)
@@ -100,7 +141,7 @@ class NotificationService {
                 quoteId,
                 actionUrl: `/smartquote-v3/${quoteId}`,
                 priority: NotificationPriority.HIGH,
-            });
+            }, client);
         } catch (error) {
             console.error('Failed to send approval rejected notification:', error);
         }
@@ -113,10 +154,11 @@ class NotificationService {
         quoteId: string,
         userId: string,
         changes: ChangeRequest[],
-        notes?: string
+        notes?: string,
+        client: SupabaseClient<any> = supabase
     ): Promise<void> {
         try {
-            const { data: quote } = await supabase
+            const { data: quote } = await client
                 .from('smartquote_v3_quotes')
                 .select('quote_ref')
                 .eq('id', quoteId)
@@ -135,7 +177,7 @@ class NotificationService {
                 quoteId,
                 actionUrl: `/smartquote-v3/${quoteId}`,
                 priority: NotificationPriority.HIGH,
-            });
+            }, client);
         } catch (error) {
             console.error('Failed to send change requested notification:', error);
         }
@@ -213,10 +255,11 @@ class NotificationService {
     async sendQuoteViewed(
         quoteId: string,
         userId: string,
-        clientEmail: string
+        clientEmail: string,
+        client: SupabaseClient<any> = supabase
     ): Promise<void> {
         try {
-            const { data: quote } = await supabase
+            const { data: quote } = await client
                 .from('smartquote_v3_quotes')
                 .select('quote_ref')
                 .eq('id', quoteId)
@@ -232,22 +275,57 @@ class NotificationService {
                 quoteId,
                 actionUrl: `/smartquote-v3/${quoteId}`,
                 priority: NotificationPriority.NORMAL,
-            });
+            }, client);
         } catch (error) {
             console.error('Failed to send quote viewed notification:', error);
         }
     }
 
+    /**
+     * Send client feedback notification (change request from the client portal)
+     */
+    async sendClientFeedback(
+        quoteId: string,
+        userId: string,
+        clientName: string,
+        feedback: string,
+        client: SupabaseClient<any> = supabase
+    ): Promise<void> {
+        try {
+            const { data: quote } = await client
+                .from('smartquote_v3_quotes')
+                .select('quote_ref')
+                .eq('id', quoteId)
+                .single();
+
+            if (!quote) return;
+
+            await this.createNotification({
+                userId,
+                type: NotificationType.CLIENT_FEEDBACK,
+                title: `Changes requested by client: ${quote.quote_ref}`,
+                message: `${clientName}: ${feedback.substring(0, 200)}`,
+                quoteId,
+                actionUrl: `/smartquote-v3/${quoteId}`,
+                actionLabel: 'View Feedback',
+                priority: NotificationPriority.HIGH,
+            }, client);
+        } catch (error) {
+            console.error('Failed to send client feedback notification:', error);
+        }
+    }
+
     /**
      * Send quote won notification
      */
     async sendQuoteWon(
         quoteId: string,
         userId: string,
-        wonAmount: number
+        wonAmount: number,
+        client: SupabaseClient<any> = supabase
     ): Promise<void> {
         try {
-            const { data: quote } = await supabase
+            const { data: quote } = await client
                 .from('smartquote_v3_quotes')
                 .select('quote_ref')
                 .eq('id', quoteId)
@@ -263,7 +341,7 @@ class NotificationService {
                 quoteId,
                 actionUrl: `/smartquote-v3/${quoteId}`,
                 priority: NotificationPriority.HIGH,
-            });
+            }, client);
         } catch (error) {
             console.error('Failed to send quote won notification:', error);
         }
@@ -300,6 +378,38 @@ class NotificationService {
         }
     }
 
+    /**
+     * Send quote expired notification. Called by the sweeper with a service-role client.
+     */
+    async sendQuoteExpired(
+        quoteId: string,
+        userId: string,
+        client: SupabaseClient<any> = supabase
+    ): Promise<void> {
+        try {
+            const { data: quote } = await client
+                .from('smartquote_v3_quotes')
+                .select('quote_ref, client_name, total_amount')
+                .eq('id', quoteId)
+                .single();
+
+            if (!quote) return;
+
+            await this.createNotification({
+                userId,
+                type: NotificationType.QUOTE_EXPIRED,
+                title: `Quote expired: ${quote.quote_ref}`,
+                message: `${quote.client_name} - £${Number(quote.total_amount || 0).toLocaleString()}\nRevise and resend to reopen it`,
+                quoteId,
+                actionUrl: `/smartquote-v3/${quoteId}`,
+                actionLabel: 'View Quote',
+                priority: NotificationPriority.NORMAL,
+            }, client);
+        } catch (error) {
+            console.error('Failed to send quote expired notification:', error);
+        }
+    }
+
     /**
      * Create a notification
      */
@@ -314,9 +424,9 @@ class NotificationService {
         actionUrl?: string;
         actionLabel?: string;
         priority?: NotificationPriority;
-    }): Promise<void> {
+    }, client: SupabaseClient<any> = supabase): Promise<void> {
         try {
-            await supabase.from('smartquote_v3_notifications').insert({
+            const { error } = await client.from('smartquote_v3_notifications').insert({
                 user_id: notification.userId,
                 type: notification.type,
                 title: notification.title,
@@ -329,15 +439,53 @@ class NotificationService {
                 priority: notification.priority || NotificationPriority.NORMAL,
             });
 
-            // TODO: Send push notification via Firebase/APNS
-            // TODO: Send email via Resend/SendGrid
-            // TODO: Send SMS via Twilio (optional)
-
+            // Email, push and webhook delivery are queued in the outbox by a trigger on insert
+            if (error) throw error;
         } catch (error) {
             console.error('Failed to create notification:', error);
         }
     }
 
+    /**
+     * Get a user's notification preferences (null when they have never saved any)
+     */
+    async getPreferences(userId: string): Promise<NotificationPreferences | null> {
+        try {
+            const { data, error } = await supabase
+                .from('smartquote_v3_notification_preferences')
+                .select('preferences')
+                .eq('user_id', userId)
+                .maybeSingle();
+
+            if (error) throw error;
+
+            return (data?.preferences as NotificationPreferences) ?? null;
+        } catch (error) {
+            console.error('Failed to get notification preferences:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Save a user's notification preferences
+     */
+    async savePreferences(userId: string, preferences: NotificationPreferences): Promise<void> {
+        try {
+            const { error } = await supabase
+                .from('smartquote_v3_notification_preferences')
+                .upsert({
+                    user_id: userId,
+                    preferences,
+                    updated_at: new Date().toISOString(),
+                });
+
+            if (error) throw error;
+        } catch (error) {
+            console.error('Failed to save notification preferences:', error);
+            throw error;
+        }
+    }
+
     /**
      * Get notifications for a user
      */
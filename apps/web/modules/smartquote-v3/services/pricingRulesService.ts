@@ -3,14 +3,215 @@
 // ============================================================================
 
 import { supabase } from '../../../lib/supabaseClient';
+import type { PricingAdjuster } from '../../smartquote/types';
 import {
     PricingRule,
-    PricingRuleType,
+    PricingRuleAction,
     PricingRuleApplication,
     Quote,
-    CalculatedProduct,
 } from '../types';
 
+// ============================================================================
+// RULE ENGINE
+// ============================================================================
+// Pure evaluation shared by the v3 quote flow and the v1 calculateAll pipeline.
+
+export interface PricingRuleContext {
+    subtotal: number;
+    products: Array<{ productCode: string; quantity: number }>;
+    clientId?: string;
+    date: Date;
+}
+
+export interface AppliedPricingRule {
+    rule: PricingRule;
+    discountAmount: number; // Positive = discount, negative = markup
+    originalAmount: number;
+    finalAmount: number;
+}
+
+export interface PricingRuleEvaluation {
+    originalAmount: number;
+    finalAmount: number;
+    applied: AppliedPricingRule[];
+}
+
+const normaliseCode = (code: string) => code.toUpperCase().replace(/[\s_-]/g, '');
+
+const toISODate = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+const snakeToCamelKeys = <T>(value: Record<string, unknown> | null | undefined): T => {
+    const result: Record<string, unknown> = {};
+    Object.entries(value || {}).forEach(([key, entry]) => {
+        result[key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())] = entry;
+    });
+    return result as T;
+};
+
+/**
+ * Maps a smartquote_v3_pricing_rules row (snake_case columns and JSONB) to a PricingRule
+ */
+export const mapPricingRule = (row: Record<string, any>): PricingRule => ({
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    code: row.code ?? undefined,
+    ruleType: row.rule_type ?? row.ruleType,
+    conditions: snakeToCamelKeys(row.conditions),
+    action: snakeToCamelKeys(row.action),
+    priority: row.priority ?? 100,
+    isStackable: row.is_stackable ?? row.isStackable ?? false,
+    excludesRuleIds: row.excludes_rule_ids ?? row.excludesRuleIds ?? undefined,
+    activeFrom: row.active_from ?? row.activeFrom ?? undefined,
+    activeUntil: row.active_until ?? row.activeUntil ?? undefined,
+    isActive: row.is_active ?? row.isActive ?? true,
+    maxUses: row.max_uses ?? row.maxUses ?? undefined,
+    currentUses: row.current_uses ?? row.currentUses ?? 0,
+    requiresApproval: row.requires_approval ?? row.requiresApproval ?? false,
+    autoApproveUnderDiscount: row.auto_approve_under_discount ?? row.autoApproveUnderDiscount ?? undefined,
+    createdBy: row.created_by ?? row.createdBy ?? undefined,
+    createdAt: row.created_at ?? row.createdAt,
+    updatedAt: row.updated_at ?? row.updatedAt,
+});
+
+/**
+ * Check whether a rule is live and its conditions match the quote
+ */
+export const matchesPricingRule = (rule: PricingRule, context: PricingRuleContext): boolean => {
+    if (!rule.isActive) return false;
+    if (rule.maxUses != null && rule.currentUses >= rule.maxUses) return false;
+    if (rule.activeFrom && context.date < new Date(rule.activeFrom)) return false;
+    if (rule.activeUntil && context.date > new Date(rule.activeUntil)) return false;
+
+    const conditions = rule.conditions || {};
+
+    // Check amount thresholds
+    if (conditions.minTotal != null && context.subtotal < conditions.minTotal) return false;
+    if (conditions.maxTotal != null && context.subtotal > conditions.maxTotal) return false;
+
+    // Check client
+    if (conditions.clientId && context.clientId !== conditions.clientId) return false;
+
+    // Check product codes (product category needs catalogue categories on the line, so is not evaluated)
+    if (conditions.productCodes && conditions.productCodes.length > 0) {
+        const wanted = conditions.productCodes.map(normaliseCode);
+        if (!context.products.some((product) => wanted.includes(normaliseCode(product.productCode)))) {
+            return false;
+        }
+    }
+
+    // Check quantity
+    const totalQuantity = context.products.reduce((sum, product) => sum + product.quantity, 0);
+    if (conditions.minQuantity != null && totalQuantity < conditions.minQuantity) return false;
+    if (conditions.maxQuantity != null && totalQuantity > conditions.maxQuantity) return false;
+
+    // Check date range (both ends inclusive, compared by calendar date)
+    if (conditions.dateRange) {
+        const today = toISODate(context.date);
+        if (today < toISODate(conditions.dateRange.start) || today > toISODate(conditions.dateRange.end)) {
+            return false;
+        }
+    }
+
+    // Check day of week (0 = Sunday)
+    if (conditions.dayOfWeek && conditions.dayOfWeek.length > 0 && !conditions.dayOfWeek.includes(context.date.getDay())) {
+        return false;
+    }
+
+    return true;
+};
+
+const discountFor = (action: PricingRuleAction, amount: number): number => {
+    if (action.discountPercent) return (amount * action.discountPercent) / 100;
+    if (action.discountAmount) return Math.min(action.discountAmount, amount);
+    if (action.fixedPrice != null) return Math.max(0, amount - action.fixedPrice);
+    return 0;
+};
+
+/**
+ * Evaluate pricing rules against a quote subtotal.
+ *
+ * Precedence:
+ * - Rules that are inactive, out of date, used up or whose conditions fail are ignored.
+ * - Remaining rules run in priority order (lower number first, ties by id).
+ * - A rule is skipped if it excludes a rule already in force, or a rule in force excludes it.
+ * - Stackable discounts compound on the running amount.
+ * - A non-stackable discount is priced on the original subtotal and only wins if it beats the
+ *   total discount currently in force; it then replaces those discounts and blocks later
+ *   stackable ones.
+ * - Markups run after all discounts and compound on the discounted amount.
+ */
+export const evaluatePricingRules = (rules: PricingRule[], context: PricingRuleContext): PricingRuleEvaluation => {
+    const originalAmount = context.subtotal;
+    const candidates = rules
+        .filter((rule) => matchesPricingRule(rule, context))
+        .sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id));
+
+    const isExcluded = (rule: PricingRule, inForce: AppliedPricingRule[]) =>
+        inForce.some((applied) =>
+            rule.excludesRuleIds?.includes(applied.rule.id) || applied.rule.excludesRuleIds?.includes(rule.id)
+        );
+
+    let discounts: AppliedPricingRule[] = [];
+    let exclusiveInForce = false;
+
+    for (const rule of candidates.filter((candidate) => !candidate.action.markupPercent)) {
+        if (isExcluded(rule, discounts)) continue;
+
+        const currentDiscount = discounts.reduce((sum, applied) => sum + applied.discountAmount, 0);
+        const runningAmount = originalAmount - currentDiscount;
+
+        if (rule.isStackable) {
+            if (exclusiveInForce) continue;
+            const discount = discountFor(rule.action, runningAmount);
+            if (discount > 0) {
+                discounts.push({ rule, discountAmount: discount, originalAmount: runningAmount, finalAmount: runningAmount - discount });
+            }
+        } else {
+            const discount = discountFor(rule.action, originalAmount);
+            if (discount > currentDiscount) {
+                discounts = [{ rule, discountAmount: discount, originalAmount, finalAmount: originalAmount - discount }];
+                exclusiveInForce = true;
+            }
+        }
+    }
+
+    const applied = [...discounts];
+    for (const rule of candidates.filter((candidate) => candidate.action.markupPercent)) {
+        if (isExcluded(rule, applied)) continue;
+
+        const runningAmount = applied.length > 0 ? applied[applied.length - 1].finalAmount : originalAmount;
+        const markup = (runningAmount * (rule.action.markupPercent || 0)) / 100;
+        applied.push({ rule, discountAmount: -markup, originalAmount: runningAmount, finalAmount: runningAmount + markup });
+    }
+
+    return {
+        originalAmount,
+        finalAmount: applied.length > 0 ? applied[applied.length - 1].finalAmount : originalAmount,
+        applied,
+    };
+};
+
+/**
+ * Wrap a rule set as a v1 calculateAll adjustment stage
+ */
+export const createPricingRuleAdjuster = (rules: PricingRule[], options: { clientId?: string } = {}): PricingAdjuster =>
+    (context) => {
+        const evaluation = evaluatePricingRules(rules, {
+            subtotal: context.subtotal,
+            products: context.products,
+            clientId: options.clientId,
+            date: context.evaluationDate,
+        });
+
+        return evaluation.applied.map((applied) => ({
+            ruleId: applied.rule.id,
+            label: applied.rule.name,
+            amount: -applied.discountAmount,
+            percentOfSubtotal: context.subtotal > 0 ? (-applied.discountAmount / context.subtotal) * 100 : 0,
+        }));
+    };
+
 class PricingRulesService {
     /**
      * Apply all applicable pricing rules to a quote
@@ -24,64 +225,29 @@ class PricingRulesService {
     }> {
         try {
             const rules = await this.getApplicableRules(quote);
-            const appliedRules: PricingRuleApplication[] = [];
-            let currentAmount = quote.totalAmount;
-            const originalAmount = quote.totalAmount;
-
-            // Sort by priority (lower = higher priority)
-            rules.sort((a, b) => a.priority - b.priority);
-
-            for (const rule of rules) {
-                // Check if we've hit usage limit
-                if (rule.maxUses && rule.currentUses >= rule.maxUses) {
-                    continue;
-                }
-
-                // Check if rule is excluded by previously applied rules
-                const appliedRuleIds = appliedRules.map((ar) => ar.ruleId);
-                if (rule.excludesRuleIds?.some((id) => appliedRuleIds.includes(id))) {
-                    continue;
-                }
-
-                // Calculate discount
-                const discount = this.calculateDiscount(rule, currentAmount, quote);
-
-                if (discount > 0) {
-                    const application: PricingRuleApplication = {
-                        id: '',
-                        quoteId: quote.id,
-                        ruleId: rule.id,
-                        appliedTo: quote.products,
-                        discountAmount: discount,
-                        discountPercent: (discount / currentAmount) * 100,
-                        originalAmount: currentAmount,
-                        finalAmount: currentAmount - discount,
-                        appliedAt: new Date(),
-                    };
-
-                    appliedRules.push(application);
-
-                    // Update current amount if stackable, otherwise keep highest discount
-                    if (rule.isStackable) {
-                        currentAmount -= discount;
-                    } else {
-                        // Non-stackable: take the best discount
-                        const totalDiscount = appliedRules.reduce(
-                            (sum, ar) => sum + (ar.discountAmount || 0),
-                            0
-                        );
-                        if (discount > totalDiscount) {
-                            currentAmount = originalAmount - discount;
-                            appliedRules.length = 0;
-                            appliedRules.push(application);
-                        }
-                    }
-                }
-            }
+            const evaluation = evaluatePricingRules(rules, {
+                subtotal: quote.totalAmount,
+                products: quote.products,
+                clientId: quote.clientId,
+                date: new Date(),
+            });
 
-            const finalAmount = currentAmount;
+            const appliedRules: PricingRuleApplication[] = evaluation.applied.map((applied) => ({
+                id: '',
+                quoteId: quote.id,
+                ruleId: applied.rule.id,
+                appliedTo: quote.products,
+                discountAmount: applied.discountAmount,
+                discountPercent: applied.originalAmount > 0 ? (applied.discountAmount / applied.originalAmount) * 100 : 0,
+                originalAmount: applied.originalAmount,
+                finalAmount: applied.finalAmount,
+                appliedAt: new Date(),
+            }));
+
+            const originalAmount = evaluation.originalAmount;
+            const finalAmount = evaluation.finalAmount;
             const totalDiscount = originalAmount - finalAmount;
-            const discountPercent = (totalDiscount / originalAmount) * 100;
+            const discountPercent = originalAmount > 0 ? (totalDiscount / originalAmount) * 100 : 0;
 
             // Record applications in database
             if (appliedRules.length > 0) {
@@ -98,13 +264,11 @@ class PricingRulesService {
                 );
 
                 // Update rule usage counts
-                for (const rule of rules) {
-                    if (appliedRules.some((ar) => ar.ruleId === rule.id)) {
-                        await supabase
-                            .from('smartquote_v3_pricing_rules')
-                            .update({ current_uses: rule.currentUses + 1 })
-                            .eq('id', rule.id);
-                    }
+                for (const applied of evaluation.applied) {
+                    await supabase
+                        .from('smartquote_v3_pricing_rules')
+                        .update({ current_uses: applied.rule.currentUses + 1 })
+                        .eq('id', applied.rule.id);
                 }
             }
 
@@ -145,112 +309,19 @@ class PricingRulesService {
             if (error) throw error;
 
             // Filter rules that match quote conditions
-            const applicableRules = (rules as PricingRule[]).filter((rule) =>
-                this.matchesConditions(rule, quote)
-            );
-
-            return applicableRules;
+            const context: PricingRuleContext = {
+                subtotal: quote.totalAmount,
+                products: quote.products,
+                clientId: quote.clientId,
+                date: new Date(),
+            };
+            return (rules || []).map(mapPricingRule).filter((rule) => matchesPricingRule(rule, context));
         } catch (error) {
             console.error('Failed to get applicable rules:', error);
             return [];
         }
     }
 
-    /**
-     * Check if rule conditions match quote
-     */
-    private matchesConditions(rule: PricingRule, quote: Quote): boolean {
-        const conditions = rule.conditions;
-
-        // Check amount thresholds
-        if (conditions.minTotal && quote.totalAmount < conditions.minTotal) {
-            return false;
-        }
-        if (conditions.maxTotal && quote.totalAmount > conditions.maxTotal) {
-            return false;
-        }
-
-        // Check client
-        if (conditions.clientId && quote.clientId !== conditions.clientId) {
-            return false;
-        }
-
-        // Check product categories/codes
-        if (conditions.productCategory || conditions.productCodes) {
-            const hasMatchingProduct = quote.products.some((product: any) => {
-                if (
-                    conditions.productCodes &&
-                    !conditions.productCodes.includes(product.productCode)
-                ) {
-                    return false;
-                }
-                // Note: Would need product category in product data
-                return true;
-            });
-
-            if (!hasMatchingProduct) {
-                return false;
-            }
-        }
-
-        // Check quantity
-        if (conditions.minQuantity || conditions.maxQuantity) {
-            const totalQuantity = quote.products.reduce((sum: number, p: any) => sum + p.quantity, 0);
-            if (conditions.minQuantity && totalQuantity < conditions.minQuantity) {
-                return false;
-            }
-            if (conditions.maxQuantity && totalQuantity > conditions.maxQuantity) {
-                return false;
-            }
-        }
-
-        // Check date range
-        if (conditions.dateRange) {
-            const now = new Date();
-            const start = new Date(conditions.dateRange.start);
-            const end = new Date(conditions.dateRange.end);
-            if (now < start || now > end) {
-                return false;
-            }
-        }
-
-        // Check day of week
-        if (conditions.dayOfWeek && conditions.dayOfWeek.length > 0) {
-            const today = new Date().getDay();
-            if (!conditions.dayOfWeek.includes(today)) {
-                return false;
-            }
-        }
-
-        return true;
-    }
-
-    /**
-     * Calculate discount amount for a rule
-     */
-    private calculateDiscount(rule: PricingRule, amount: number, quote: Quote): number {
-        const action = rule.action;
-
-        if (action.discountPercent) {
-            return (amount * action.discountPercent) / 100;
-        }
-
-        if (action.discountAmount) {
-            return Math.min(action.discountAmount, amount);
-        }
-
-        if (action.fixedPrice) {
-            return Math.max(0, amount - action.fixedPrice);
-        }
-
-        if (action.markupPercent) {
-            // Negative discount (markup)
-            return -(amount * action.markupPercent) / 100;
-        }
-
-        return 0;
-    }
-
     /**
      * Create or update pricing rule
      */
@@ -310,7 +381,7 @@ class PricingRulesService {
 
             if (error) throw error;
 
-            return data as PricingRule[];
+            return (data || []).map(mapPricingRule);
         } catch (error) {
             console.error('Failed to get pricing rules:', error);
             return [];
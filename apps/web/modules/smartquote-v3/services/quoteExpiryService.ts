@@ -0,0 +1,240 @@
+// ============================================================================
+// SmartQuote v3 - Quote Expiry Sweeper
+// ============================================================================
+// Run on a schedule by /api/cron/sweep-quotes with a service-role client.
+// Expires open quotes past their expiry date and drops follow-up call tasks
+// onto the quote owner's task banner at the configured intervals.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { QuoteStatus } from '../types';
+
+import { notificationService } from './notificationService';
+
+export interface SweepSettings {
+    expiryDays: number; // Used when a quote has no expires_at/valid_until
+    followUpDays: number[]; // Days after sending at which to chase the client
+}
+
+export const DEFAULT_SWEEP_SETTINGS: SweepSettings = {
+    expiryDays: 30,
+    followUpDays: [7, 14, 21],
+};
+
+export interface SweepQuote {
+    id: string;
+    quote_ref: string;
+    client_name: string;
+    status: QuoteStatus;
+    created_by: string | null;
+    sent_to_client_at: string | null;
+    expires_at: string | null;
+    valid_until: string | null;
+}
+
+export interface SweepSummary {
+    scanned: number;
+    expired: number;
+    followUpsCreated: number;
+    errors: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPEN_STATUSES = [QuoteStatus.SENT, QuoteStatus.NEGOTIATING];
+
+export const followUpTaskKey = (quoteId: string, day: number) => `quote-follow-up:${quoteId}:${day}`;
+
+/**
+ * When a quote lapses: expires_at, else the end of valid_until, else
+ * sent_to_client_at plus the default expiry. Null if it was never sent.
+ */
+export const getQuoteExpiry = (quote: SweepQuote, settings: SweepSettings): Date | null => {
+    if (quote.expires_at) return new Date(quote.expires_at);
+    if (quote.valid_until) return new Date(new Date(`${quote.valid_until}T00:00:00Z`).getTime() + DAY_MS);
+    if (quote.sent_to_client_at) {
+        return new Date(new Date(quote.sent_to_client_at).getTime() + settings.expiryDays * DAY_MS);
+    }
+    return null;
+};
+
+/**
+ * The latest follow-up interval that has come due, or null. Earlier intervals
+ * the sweeper missed are skipped rather than raised late as a burst of calls.
+ */
+export const getDueFollowUpDay = (quote: SweepQuote, settings: SweepSettings, now: Date): number | null => {
+    if (!quote.sent_to_client_at || !OPEN_STATUSES.includes(quote.status)) return null;
+
+    const sentAt = new Date(quote.sent_to_client_at).getTime();
+    const expiry = getQuoteExpiry(quote, settings);
+    const due = settings.followUpDays
+        .filter(day => sentAt + day * DAY_MS <= now.getTime())
+        .filter(day => !expiry || sentAt + day * DAY_MS < expiry.getTime());
+
+    return due.length > 0 ? Math.max(...due) : null;
+};
+
+const safeParse = (value: string): unknown => {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+};
+
+export const parseSweepSettings = (rows: Array<{ key: string; value: unknown }>): SweepSettings => {
+    const settings = { ...DEFAULT_SWEEP_SETTINGS };
+
+    for (const row of rows) {
+        // Values are JSONB but older rows stored them as JSON strings
+        const value = typeof row.value === 'string' ? safeParse(row.value) : row.value;
+
+        if (row.key === 'quote_expiry_days' && Number(value) > 0) {
+            settings.expiryDays = Number(value);
+        }
+        if (row.key === 'auto_follow_up_days' && Array.isArray(value)) {
+            settings.followUpDays = value.map(Number).filter(day => day > 0).sort((a, b) => a - b);
+        }
+    }
+
+    return settings;
+};
+
+class QuoteExpiryService {
+    /**
+     * Expire stale quotes and raise due follow-ups. Safe to re-run: expiry only
+     * touches open quotes and follow-up tasks are keyed per quote and interval.
+     */
+    async runSweep(
+        client: SupabaseClient<any>,
+        options: { now?: Date; batchSize?: number } = {}
+    ): Promise<SweepSummary> {
+        const now = options.now ?? new Date();
+        const summary: SweepSummary = { scanned: 0, expired: 0, followUpsCreated: 0, errors: 0 };
+
+        const settings = await this.loadSettings(client);
+
+        const { data: quotes, error } = await client
+            .from('smartquote_v3_quotes')
+            .select('id, quote_ref, client_name, status, created_by, sent_to_client_at, expires_at, valid_until')
+            .in('status', OPEN_STATUSES)
+            .is('deleted_at', null)
+            .order('sent_to_client_at', { ascending: true, nullsFirst: false })
+            .limit(options.batchSize ?? 500);
+
+        if (error) throw error;
+
+        for (const quote of (quotes || []) as SweepQuote[]) {
+            summary.scanned++;
+            try {
+                const expiry = getQuoteExpiry(quote, settings);
+                if (expiry && expiry.getTime() <= now.getTime()) {
+                    if (await this.expireQuote(client, quote, now)) {
+                        summary.expired++;
+                    }
+                    continue;
+                }
+
+                const followUpDay = getDueFollowUpDay(quote, settings, now);
+                if (followUpDay !== null && await this.createFollowUpTask(client, quote, followUpDay)) {
+                    summary.followUpsCreated++;
+                }
+            } catch (error) {
+                summary.errors++;
+                console.error(`Failed to sweep quote ${quote.quote_ref}:`, error);
+            }
+        }
+
+        return summary;
+    }
+
+    private async loadSettings(client: SupabaseClient<any>): Promise<SweepSettings> {
+        try {
+            const { data, error } = await client
+                .from('smartquote_v3_system_config')
+                .select('key, value')
+                .in('key', ['quote_expiry_days', 'auto_follow_up_days']);
+
+            if (error) throw error;
+
+            return parseSweepSettings(data || []);
+        } catch (error) {
+            console.error('Failed to load sweep settings, using defaults:', error);
+            return { ...DEFAULT_SWEEP_SETTINGS };
+        }
+    }
+
+    /**
+     * Returns false if the quote changed status since it was read (e.g. won in the meantime)
+     */
+    private async expireQuote(client: SupabaseClient<any>, quote: SweepQuote, now: Date): Promise<boolean> {
+        const { data: updated, error } = await client
+            .from('smartquote_v3_quotes')
+            .update({
+                status: QuoteStatus.EXPIRED,
+                status_updated_at: now.toISOString(),
+                status_updated_by: null, // System change
+            })
+            .eq('id', quote.id)
+            .eq('status', quote.status)
+            .select('id');
+
+        if (error) throw error;
+        if (!updated || updated.length === 0) return false;
+
+        await client.from('smartquote_v3_analytics_events').insert({
+            event_type: 'status_change',
+            quote_id: quote.id,
+            user_id: null,
+            event_data: {
+                old_status: quote.status,
+                new_status: QuoteStatus.EXPIRED,
+                notes: 'Expired automatically',
+                automated: true,
+            },
+        });
+
+        // Nothing left to chase
+        await client
+            .from('task_banner_items')
+            .update({ status: 'completed', updated_at: now.toISOString() })
+            .like('source_key', `quote-follow-up:${quote.id}:%`)
+            .neq('status', 'completed');
+
+        if (quote.created_by) {
+            await notificationService.sendQuoteExpired(quote.id, quote.created_by, client);
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns false if the task for this interval already exists
+     */
+    private async createFollowUpTask(client: SupabaseClient<any>, quote: SweepQuote, day: number): Promise<boolean> {
+        if (!quote.created_by || !quote.sent_to_client_at) return false;
+
+        const dueDate = new Date(new Date(quote.sent_to_client_at).getTime() + day * DAY_MS);
+
+        const { data, error } = await client
+            .from('task_banner_items')
+            .upsert({
+                title: `CHASE ${quote.quote_ref} - ${quote.client_name}`.toUpperCase(),
+                type: 'calls',
+                frequency: 'once',
+                due_date: dueDate.toISOString(),
+                status: 'pending',
+                navigation_route: `/smartquote-v3/${quote.id}`,
+                assigned_to: 'all',
+                assigned_user_id: quote.created_by,
+                source_key: followUpTaskKey(quote.id, day),
+                created_by: quote.created_by,
+            }, { onConflict: 'source_key', ignoreDuplicates: true })
+            .select('id');
+
+        if (error) throw error;
+
+        return Boolean(data && data.length > 0);
+    }
+}
+
+export const quoteExpiryService = new QuoteExpiryService();
@@ -2,9 +2,12 @@
 // SmartQuote v3 - Status Tracking Service
 // ============================================================================
 
+import type { SupabaseClient } from '@supabase/supabase-js';
+
 import { supabase } from '../../../lib/supabaseClient';
 import { QuoteStatus, Quote } from '../types';
 
+import { approvalWorkflowService } from './approvalWorkflowService';
 import { notificationService } from './notificationService';
 
 class StatusTrackingService {
@@ -30,6 +33,7 @@ class StatusTrackingService {
         [QuoteStatus.PENDING_CLIENT]: [
             QuoteStatus.SENT,
             QuoteStatus.NEGOTIATING,
+            QuoteStatus.WON, // Accepted through the client portal
             QuoteStatus.DRAFT,
             QuoteStatus.CANCELLED,
         ],
@@ -44,6 +48,7 @@ class StatusTrackingService {
             QuoteStatus.SENT,
             QuoteStatus.WON,
             QuoteStatus.LOST,
+            QuoteStatus.EXPIRED,
             QuoteStatus.CANCELLED,
         ],
         [QuoteStatus.WON]: [],
@@ -91,6 +96,17 @@ class StatusTrackingService {
                 };
             }
 
+            // Conditional approvals must be signed off before the client sees the quote
+            if (newStatus === QuoteStatus.SENT || newStatus === QuoteStatus.PENDING_CLIENT) {
+                const outstanding = await approvalWorkflowService.getOutstandingConditions(quoteId);
+                if (outstanding.length > 0) {
+                    return {
+                        success: false,
+                        error: `${outstanding.length} approval condition(s) must be met before sending`,
+                    };
+                }
+            }
+
             // Update quote status
             const { error: updateError } = await supabase
                 .from('smartquote_v3_quotes')
@@ -151,17 +167,19 @@ class StatusTrackingService {
     }
 
     /**
-     * Mark quote as won
+     * Mark quote as won. The client portal passes a service-role client; the
+     * change is then recorded without a user.
      */
     async markAsWon(
         quoteId: string,
-        wonAmount?: number
+        wonAmount?: number,
+        client: SupabaseClient<any> = supabase
     ): Promise<{ success: boolean; error?: string }> {
         try {
-            const { data: user } = await supabase.auth.getUser();
-            const userId = user?.user?.id;
+            const { data: user } = await client.auth.getUser();
+            const userId = user?.user?.id ?? null;
 
-            const { data: quote } = await supabase
+            const { data: quote } = await client
                 .from('smartquote_v3_quotes')
                 .select('total_amount, created_by')
                 .eq('id', quoteId)
@@ -171,7 +189,7 @@ class StatusTrackingService {
                 return { success: false, error: 'Quote not found' };
             }
 
-            const { error: updateError } = await supabase
+            const { error: updateError } = await client
                 .from('smartquote_v3_quotes')
                 .update({
                     status: QuoteStatus.WON,
@@ -190,12 +208,13 @@ class StatusTrackingService {
                 await notificationService.sendQuoteWon(
                     quoteId,
                     quote.created_by,
-                    wonAmount || quote.total_amount
+                    wonAmount || quote.total_amount,
+                    client
                 );
             }
 
             // Record analytics
-            await supabase.from('smartquote_v3_analytics_events').insert({
+            await client.from('smartquote_v3_analytics_events').insert({
                 event_type: 'quote_won',
                 quote_id: quoteId,
                 user_id: userId,
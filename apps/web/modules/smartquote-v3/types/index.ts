@@ -27,6 +27,14 @@ export enum ApprovalAction {
     CANCELLED = 'cancelled',
 }
 
+export enum ApprovalStepStatus {
+    WAITING = 'waiting', // Later stage, not yet started
+    PENDING = 'pending',
+    APPROVED = 'approved',
+    REJECTED = 'rejected',
+    CANCELLED = 'cancelled',
+}
+
 export enum NotificationType {
     APPROVAL_REQUEST = 'approval_request',
     COMMENT_MENTION = 'comment_mention',
@@ -48,12 +56,26 @@ export enum NotificationPriority {
     URGENT = 'urgent',
 }
 
+export enum NotificationChannel {
+    EMAIL = 'email',
+    PUSH = 'push',
+    WEBHOOK = 'webhook',
+}
+
+export enum OutboxStatus {
+    PENDING = 'pending',
+    SENT = 'sent',
+    FAILED = 'failed', // Gave up after max attempts
+    SUPPRESSED = 'suppressed', // Muted by the recipient's preferences
+}
+
 export enum CommentType {
     GENERAL = 'general',
     CHANGE_REQUEST = 'change_request',
     APPROVAL_NOTE = 'approval_note',
     QUESTION = 'question',
     ANSWER = 'answer',
+    CLIENT_FEEDBACK = 'client_feedback',
 }
 
 export enum PricingRuleType {
@@ -260,6 +282,82 @@ export interface ApprovalRule {
     createdAt: Date;
 }
 
+/**
+ * When a chain applies. With `match: 'any'` (default) one condition is enough,
+ * e.g. total over £25k or margin under 15%.
+ */
+export interface ApprovalChainConditions {
+    minAmount?: number; // Total must exceed this
+    maxMarginPercent?: number; // Margin must be below this
+    match?: 'any' | 'all';
+}
+
+/** Steps with the same stage run in parallel; stages run in order */
+export interface ApprovalChainStepDefinition {
+    name: string;
+    stage: number;
+    approverRole?: string;
+    approverUserIds?: string[];
+    requiredApprovals: number;
+    slaHours: number;
+    escalateToRole?: string;
+    escalateToUserIds?: string[];
+}
+
+export interface ApprovalChain {
+    id: string;
+    name: string;
+    description?: string;
+    conditions: ApprovalChainConditions;
+    steps: ApprovalChainStepDefinition[];
+    priority: number;
+    isActive: boolean;
+    createdBy?: string;
+    createdAt: Date;
+}
+
+export interface StepApproval {
+    userId: string;
+    action: ApprovalAction;
+    notes?: string;
+    at: string;
+}
+
+export interface QuoteApprovalStep {
+    id: string;
+    quoteId: string;
+    chainId: string;
+    stepIndex: number;
+    stage: number;
+    name: string;
+    approverRole?: string;
+    approverUserIds: string[];
+    requiredApprovals: number;
+    approvals: StepApproval[];
+    status: ApprovalStepStatus;
+    slaHours: number;
+    startedAt?: Date;
+    dueAt?: Date;
+    completedAt?: Date;
+    escalateToRole?: string;
+    escalateToUserIds?: string[];
+    escalationLevel: number;
+    escalatedAt?: Date;
+}
+
+/** Raised by a conditional approval; all must be met before the quote is sent */
+export interface ApprovalCondition {
+    id: string;
+    quoteId: string;
+    stepId?: string;
+    description: string;
+    isMet: boolean;
+    metBy?: string;
+    metAt?: Date;
+    createdBy: string;
+    createdAt: Date;
+}
+
 // ============================================================================
 // COMMENT & COLLABORATION TYPES
 // ============================================================================
@@ -301,6 +399,9 @@ export interface CommentContext {
     productLineNumber?: number;
     field?: string;
     section?: string;
+    source?: 'client_portal';
+    clientName?: string; // Author of a client portal comment
+    clientEmail?: string;
 }
 
 // ============================================================================
@@ -339,6 +440,29 @@ export interface NotificationPreferences {
     quoteViewed: boolean;
     wonLost: boolean;
     expiring: boolean;
+    channels?: Partial<Record<NotificationChannel, boolean>>; // Missing channels default to on
+    quietHours?: QuietHours;
+}
+
+export interface QuietHours {
+    enabled: boolean;
+    start: string; // HH:MM, local to timezone
+    end: string; // HH:MM; may be earlier than start to span midnight
+    timezone?: string; // IANA zone, defaults to Europe/London
+}
+
+export interface NotificationOutboxEntry {
+    id: string;
+    notificationId: string;
+    userId: string;
+    channel: NotificationChannel;
+    status: OutboxStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: Date;
+    lastError?: string;
+    sentAt?: Date;
+    createdAt: Date;
 }
 
 // ============================================================================
@@ -599,6 +723,46 @@ export interface ClientAddress {
     createdAt: Date;
 }
 
+// ============================================================================
+// CLIENT PORTAL TYPES
+// ============================================================================
+
+export interface ClientPortalAccess {
+    id: string;
+    quoteId: string;
+    accessToken: string;
+    clientEmail: string;
+    clientName?: string;
+    canApprove: boolean;
+    canComment: boolean;
+    canRequestChanges: boolean;
+    expiresAt?: Date;
+    accessCount: number;
+    lastAccessedAt?: Date;
+    signedName?: string;
+    signedAt?: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+}
+
+/** What a client sees on the portal page - no costs or margins */
+export interface PortalQuoteView {
+    quoteRef: string;
+    clientName: string;
+    projectName?: string;
+    status: QuoteStatus;
+    lines: Array<{ productCode: string; description: string; quantity: number }>;
+    totalExVat: number;
+    vatAmount?: number;
+    totalIncVat?: number;
+    isReverseCharge?: boolean;
+    validUntil?: string;
+    canAccept: boolean;
+    canRequestChanges: boolean;
+    signedName?: string;
+    signedAt?: string;
+}
+
 // ============================================================================
 // MOBILE APP TYPES
 // ============================================================================
@@ -1,9 +1,11 @@
 
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 
 import { supabase } from '../../lib/supabaseClient';
 import { theme } from '../../lib/theme';
+import { createPricingRuleAdjuster, pricingRulesService } from '../smartquote-v3/services/pricingRulesService';
+import type { PricingRule } from '../smartquote-v3/types';
 
 
 import { AdminPanel } from './components/AdminPanel';
@@ -26,6 +28,7 @@ import { useUndoRedo } from './hooks/useUndoRedo';
 import { ManualProductSelector } from './ManualProductSelector';
 import { QuoteHistory } from './QuoteHistory';
 import { resolveProductDetails, calculateAll, standardizeProductName, groupPowerItems, validateRawProduct } from './services/calculationService';
+import { clientService } from './services/clientService';
 import { hybridStorageService } from './services/databaseStorageService';
 import { loadConfig, saveConfig, loadConfigSync, saveLearnedProduct, getDefaultConfig } from './services/enhancedConfigService';
 import { ErrorHandler, ErrorCategory, withRetry } from './services/errorService';
@@ -33,7 +36,7 @@ import { generatePdf, generateXlsx } from './services/exportService';
 import { parseQuoteContent } from './services/geminiService';
 import { validateQuoteDetails, validateProducts, formatValidationErrors } from './services/validationService';
 import workingMemory from './services/workingMemoryService';
-import { AppState, QuoteDetails, ParsedProduct, CalculationResults, ProductReference, CalculatedProduct, ParseContent, SavedQuote, AppConfig } from './types';
+import { AppState, QuoteDetails, ParsedProduct, CalculationResults, ProductReference, CalculatedProduct, ParseContent, SavedQuote, AppConfig, PricingAdjuster } from './types';
 import { getDashboardButtonStyle, getDashboardTypographyStyle, spacing as _spacing } from './utils/dashboardStyles';
 import { getIconProps } from './utils/iconSizing';
 import { getResponsiveContainerStyles, getTouchFriendlyStyles, responsiveSpacing } from './utils/responsive';
@@ -45,6 +48,8 @@ type AppView = 'home' | 'parsing' | 'manual' | 'history' | 'results' | 'admin' |
 const App: React.FC = () => {
     const [view, setView] = useState<AppView>('home');
     const [appConfig, setAppConfig] = useState<AppConfig>(loadConfigSync());
+    const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+    const [clientId, setClientId] = useState<string | undefined>();
     const [parsingState, setParsingState] = useState<AppState>(AppState.Idle);
     const [quoteDetails, setQuoteDetailsState] = useState<QuoteDetails>(() => {
         // Load from working memory on initialization
@@ -76,6 +81,12 @@ const App: React.FC = () => {
         });
     };
 
+    // Client-scoped rules apply once the quote's client matches a saved client
+    const pricingAdjusters = useMemo<PricingAdjuster[]>(
+        () => (pricingRules.length > 0 ? [createPricingRuleAdjuster(pricingRules, { clientId })] : []),
+        [pricingRules, clientId]
+    );
+
     const [unresolvedProducts, setUnresolvedProducts] = useState<ParsedProduct[]>([]);
     const [resolvedProducts, setResolvedProducts] = useState<CalculatedProduct[]>([]);
     const [error, setError] = useState<string | null>(null);
@@ -200,6 +211,31 @@ const App: React.FC = () => {
         }
     }, [view, currentQuote?.products?.length]);
 
+    // Load active pricing rules so discounts and markups flow through calculateAll
+    useEffect(() => {
+        pricingRulesService.getPricingRules(true).then(setPricingRules);
+    }, []);
+
+    // Match the typed client name to a saved client, once typing pauses
+    useEffect(() => {
+        const name = quoteDetails.client.trim();
+        if (!name) {
+            setClientId(undefined);
+            return;
+        }
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            clientService.findClientByName(name).then(client => {
+                if (!cancelled) setClientId(client?.id);
+            });
+        }, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [quoteDetails.client]);
+
     // Load vehicle costs from org_settings
     useEffect(() => {
         (async () => {
@@ -431,7 +467,7 @@ const App: React.FC = () => {
         try {
             // Apply working memory to products (preserves manual time edits)
             const productsWithMemory = workingMemory.applyMemoryToProducts(products);
-            const results = calculateAll(productsWithMemory, details, appConfig);
+            const results = calculateAll(productsWithMemory, details, appConfig, pricingAdjusters);
             setCurrentQuote({ details, products: productsWithMemory, results });
             setView('results');
         } catch (err) {
@@ -476,10 +512,10 @@ const App: React.FC = () => {
 
         // Update current quote if it exists
         if (currentQuote) {
-            const results = calculateAll(newProducts, currentQuote.details, appConfig);
+            const results = calculateAll(newProducts, currentQuote.details, appConfig, pricingAdjusters);
             setCurrentQuote({ ...currentQuote, products: newProducts, results });
         }
-    }, [setUndoableProducts, currentQuote, appConfig]);
+    }, [setUndoableProducts, currentQuote, appConfig, pricingAdjusters]);
 
     const handleManualQuoteSubmit = (products: CalculatedProduct[], details: QuoteDetails) => {
         calculateAndShowResults(details, products);
@@ -565,12 +601,12 @@ const App: React.FC = () => {
 
     useEffect(() => {
         if (view === 'results' && currentQuote) {
-            const newResults = calculateAll(currentQuote.products, currentQuote.details, appConfig);
+            const newResults = calculateAll(currentQuote.products, currentQuote.details, appConfig, pricingAdjusters);
             if (JSON.stringify(newResults) !== JSON.stringify(currentQuote.results)) {
                 setCurrentQuote(prev => prev ? { ...prev, results: newResults } : null);
             }
         }
-    }, [currentQuote, view, appConfig]);
+    }, [currentQuote, view, appConfig, pricingAdjusters]);
 
 
     const handleExportPdf = () => {
@@ -869,7 +905,7 @@ const App: React.FC = () => {
                                     details={currentQuote.details}
                                     onDetailsChange={(newDetails) => {
                                         // Recalculate everything with new details
-                                        const updatedResults = calculateAll(currentQuote.products, newDetails, appConfig);
+                                        const updatedResults = calculateAll(currentQuote.products, newDetails, appConfig, pricingAdjusters);
 
                                         // Create a new quote object to ensure React detects the change
                                         const updatedQuote = {
@@ -896,7 +932,7 @@ const App: React.FC = () => {
                                     config={appConfig}
                                     onDetailsChange={(newDetails) => {
                                         // Recalculate everything with new details
-                                        const updatedResults = calculateAll(currentQuote.products, newDetails, appConfig);
+                                        const updatedResults = calculateAll(currentQuote.products, newDetails, appConfig, pricingAdjusters);
 
                                         // Create a new quote object to ensure React detects the change
                                         const updatedQuote = {
@@ -3,7 +3,7 @@ import React, { useState, useEffect } from 'react';
 
 import { getGlassmorphicStyle as _getGlassmorphicStyle } from '../../../components/ui/GlassmorphicStyles';
 import { theme } from '../../../lib/theme';
-import { AppConfig, ProductReference } from '../types';
+import { AppConfig, ChargingZone, ProductReference } from '../types';
 import { getIconProps } from '../utils/iconSizing';
 
 import { GearIcon, SaveIcon, ArrowUturnLeftIcon, TrashIcon, PencilIcon, PlusCircleIcon, CurrencyPoundIcon, ClockIcon, BookOpenIcon } from './icons';
@@ -123,7 +123,7 @@ const InputField: React.FC<{
     </div>
 );
 
-const _ToggleButton: React.FC<{
+const ToggleButton: React.FC<{
     label: string;
     checked: boolean;
     onChange: (checked: boolean) => void;
@@ -229,6 +229,27 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ config, onSave, onReset
         }));
     };
 
+    const handleLogisticsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value, type } = e.target;
+        setLocalConfig(prev => ({
+            ...prev,
+            logistics: {
+                ...prev.logistics,
+                [name]: type === 'number' ? (parseFloat(value) || 0) : value.toUpperCase()
+            }
+        }));
+    };
+
+    const handleChargingZoneChange = (zoneId: string, changes: Partial<ChargingZone>) => {
+        setLocalConfig(prev => ({
+            ...prev,
+            logistics: {
+                ...prev.logistics,
+                chargingZones: prev.logistics.chargingZones.map(zone => zone.id === zoneId ? { ...zone, ...changes } : zone)
+            }
+        }));
+    };
+
     const handleRulesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value } = e.target;
         setLocalConfig(prev => ({
@@ -486,6 +507,49 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ config, onSave, onReset
                             description="Auto-add supervisor when job exceeds this duration"
                         />
                     </Section>
+                    <Section title="Travel & Charging Zones" description="Depot location, mileage rates and the daily ULEZ, Congestion Charge and Clean Air Zone charges applied to each vehicle.">
+                        <InputField
+                            label="Depot Postcode"
+                            name="depotPostcode"
+                            type="text"
+                            value={localConfig.logistics.depotPostcode}
+                            onChange={handleLogisticsChange}
+                            description="Start and end point for mileage calculations"
+                        />
+                        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 20 }}>
+                            <InputField
+                                label="1-Man Van (pence/mile)"
+                                name="oneManVanPencePerMile"
+                                value={localConfig.logistics.oneManVanPencePerMile}
+                                onChange={handleLogisticsChange}
+                                step="1"
+                            />
+                            <InputField
+                                label="2-Man Van (pence/mile)"
+                                name="twoManVanPencePerMile"
+                                value={localConfig.logistics.twoManVanPencePerMile}
+                                onChange={handleLogisticsChange}
+                                step="1"
+                            />
+                        </div>
+                        {localConfig.logistics.chargingZones.map(zone => (
+                            <div key={zone.id} style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: 20, alignItems: "end" }}>
+                                <ToggleButton
+                                    label={zone.name}
+                                    checked={zone.isActive}
+                                    onChange={(checked) => handleChargingZoneChange(zone.id, { isActive: checked })}
+                                    description={zone.postcodeDistricts.slice(0, 8).join(', ') + (zone.postcodeDistricts.length > 8 ? '…' : '')}
+                                />
+                                <InputField
+                                    label="Daily Charge"
+                                    name={`zone-${zone.id}`}
+                                    value={zone.dailyCharge}
+                                    onChange={(e) => handleChargingZoneChange(zone.id, { dailyCharge: parseFloat(e.target.value) || 0 })}
+                                    icon={<CurrencyPoundIcon style={{ height: 16, width: 16 }} />}
+                                />
+                            </div>
+                        ))}
+                    </Section>
                     <Section title="'Prepared By' Options" description="Manage the list of names for the 'Prepared By' dropdown. Add, edit or remove names individually.">
                         {localConfig.rules.preparedByOptions.map((name, index) => (
                             <div key={index} style={{ display: "flex", gap: 12, alignItems: "end" }}>
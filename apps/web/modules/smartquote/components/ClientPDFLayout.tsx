@@ -68,6 +68,11 @@ export const ClientPDFLayout: React.FC<ClientPDFLayoutProps> = ({ quoteDetails,
                             <h2 className="text-sm uppercase font-bold opacity-90 tracking-wider mb-1">Total Quote Value</h2>
                             <p className="text-4xl font-bold">£{pricing.totalCost.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
                             <p className="text-sm opacity-80 mt-2">Billed for {pricing.billableDays.toFixed(1)} days</p>
+                            {(pricing.adjustments || []).map(adjustment => (
+                                <p key={adjustment.ruleId} className="text-sm opacity-90 mt-1">
+                                    {adjustment.label}: {adjustment.amount < 0 ? '−' : '+'}£{Math.abs(adjustment.amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                </p>
+                            ))}
                         </div>
                         <div className="text-right">
                             <div className="bg-white/20 backdrop-blur-sm rounded-lg px-4 py-3">
@@ -1,9 +1,11 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 
 import { getGlassmorphicStyle } from '../../../components/ui/GlassmorphicStyles';
 import { theme } from '../../../lib/theme';
 import { useFormValidation, required } from '../hooks/useFormValidation';
+import { extractPostcode, fetchJourneyMiles, findChargingZones, JourneyEstimate } from '../services/logisticsService';
+import { getBankHolidayRegion } from '../services/workCalendarService';
 import { QuoteDetails, AppConfig } from '../types';
 
 import { TruckIcon, TrashIcon, BuildingIcon, ArrowTrendingUpIcon, WrenchIcon, UserGroupIcon } from './icons';
@@ -43,9 +45,14 @@ export const QuoteDetailsForm: React.FC<QuoteDetailsFormProps> = ({ details, onD
         } else if (name === 'customExtendedUpliftFitters') {
             const numValue = parseInt(value, 10);
             processedValue = value === '' ? null : (isNaN(numValue) || numValue < 0 ? (details.customExtendedUpliftFitters || null) : numValue);
+        } else if (name === 'journeyMiles') {
+            const numValue = parseFloat(value);
+            processedValue = value === '' ? null : (isNaN(numValue) || numValue < 0 ? (details.journeyMiles || null) : numValue);
         } else if (name === 'outOfHoursDays') {
             const numValue = parseFloat(value);
             processedValue = value === '' ? null : (isNaN(numValue) || numValue < 0 ? (details.outOfHoursDays || null) : numValue);
+        } else if (name === 'proposedStartDate' || name === 'bankHolidayRegion') {
+            processedValue = value === '' ? null : value;
         }
         else {
             processedValue = value;
@@ -57,6 +64,59 @@ export const QuoteDetailsForm: React.FC<QuoteDetailsFormProps> = ({ details, onD
         });
     };
 
+    const [isCalculatingMileage, setIsCalculatingMileage] = useState(false);
+    const [mileageError, setMileageError] = useState<string | null>(null);
+    const [journeyWarnings, setJourneyWarnings] = useState<string[]>([]);
+    // A journey with unmeasured legs waits here until the user accepts the partial distance
+    const [partialJourney, setPartialJourney] = useState<JourneyEstimate | null>(null);
+
+    const sitePostcode = extractPostcode(details.deliveryAddress);
+
+    const scheduleInputStyle: React.CSSProperties = {
+        display: "block",
+        width: "100%",
+        padding: "8px 12px",
+        background: theme.colors.panelAlt,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: theme.radii.md,
+        color: theme.colors.text,
+        fontSize: 14
+    };
+    const siteChargingZones = findChargingZones(sitePostcode, config.logistics.chargingZones);
+
+    const handleCalculateMileage = async () => {
+        if (!sitePostcode) {
+            setMileageError('Enter a site address with a valid UK postcode first.');
+            return;
+        }
+
+        setIsCalculatingMileage(true);
+        setMileageError(null);
+        setJourneyWarnings([]);
+        setPartialJourney(null);
+        try {
+            const journey = await fetchJourneyMiles(sitePostcode, config.logistics, extractPostcode(details.collectionAddress));
+            setJourneyWarnings(journey.warnings);
+            if (journey.totalDistance <= 0) {
+                setMileageError(journey.warnings[0] || 'Could not calculate distance for this postcode.');
+            } else if (journey.missingLegs.length > 0) {
+                setPartialJourney(journey);
+            } else {
+                onDetailsChange({ ...details, journeyMiles: journey.totalDistance });
+            }
+        } catch (error: unknown) {
+            setMileageError(error instanceof Error ? error.message : 'Could not calculate distance for this postcode.');
+        } finally {
+            setIsCalculatingMileage(false);
+        }
+    };
+
+    const handleUsePartialJourney = () => {
+        if (!partialJourney) return;
+        onDetailsChange({ ...details, journeyMiles: partialJourney.totalDistance });
+        setPartialJourney(null);
+    };
+
     const handleVehicleQuantityChange = (vehicleId: string, quantity: number) => {
         const currentVehicles = details.selectedVehicles || {};
         const updatedVehicles = { ...currentVehicles };
@@ -566,11 +626,173 @@ export const QuoteDetailsForm: React.FC<QuoteDetailsFormProps> = ({ details, onD
 
             <div style={{ height: 1, background: theme.colors.border, margin: "8px 0" }} />
             
+            {/* Travel & Charging Zones Section */}
+            <div>
+                <h3 style={{ fontSize: 18, fontWeight: 600, color: theme.colors.text, margin: 0 }}>Travel & Charging Zones</h3>
+                <p style={{ fontSize: 14, color: theme.colors.textSubtle, margin: 0, marginTop: 4, marginBottom: 16 }}>
+                    Round-trip mileage from the {config.logistics.depotPostcode} depot, charged per vehicle per working day.
+                </p>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 16, alignItems: "end" }}>
+                    <div>
+                        <label htmlFor="journeyMiles" style={{
+                            display: "block",
+                            fontSize: 14,
+                            fontWeight: 500,
+                            color: theme.colors.text,
+                            marginBottom: 8
+                        }}>Round-Trip Miles per Day</label>
+                        <input
+                            type="number"
+                            name="journeyMiles"
+                            id="journeyMiles"
+                            min="0"
+                            step="1"
+                            placeholder="e.g. 42"
+                            value={details.journeyMiles ?? ''}
+                            onChange={handleDetailChange}
+                            style={{
+                                display: "block",
+                                width: "100%",
+                                padding: "8px 12px",
+                                background: theme.colors.panelAlt,
+                                border: `1px solid ${theme.colors.border}`,
+                                borderRadius: theme.radii.md,
+                                color: theme.colors.text,
+                                fontSize: 14
+                            }}
+                        />
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleCalculateMileage}
+                        disabled={isCalculatingMileage}
+                        style={{
+                            display: "flex",
+                            alignItems: "center",
+                            justifyContent: "center",
+                            gap: 8,
+                            padding: "9px 16px",
+                            background: theme.colors.panelAlt,
+                            color: theme.colors.text,
+                            border: `1px solid ${theme.colors.border}`,
+                            borderRadius: theme.radii.md,
+                            cursor: isCalculatingMileage ? "wait" : "pointer",
+                            fontSize: 14,
+                            fontWeight: 500
+                        }}>
+                        <TruckIcon style={{ height: 16, width: 16, color: theme.colors.accent }} />
+                        {isCalculatingMileage ? 'Calculating...' : 'Calculate from Depot'}
+                    </button>
+                </div>
+                <ErrorMessage message={mileageError} />
+                {partialJourney && (
+                    <div style={{
+                        marginTop: 12,
+                        padding: 12,
+                        background: theme.colors.panelAlt,
+                        border: `1px solid ${theme.colors.warn}`,
+                        borderRadius: theme.radii.md,
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: 8
+                    }}>
+                        <span style={{ fontSize: 14, color: theme.colors.text }}>
+                            Only part of the route could be measured ({partialJourney.totalDistance} miles).
+                            Missing: {partialJourney.missingLegs.join(', ')}.
+                            Enter the miles by hand, or use the partial distance if the missing legs are negligible.
+                        </span>
+                        <div style={{ display: "flex", gap: 8 }}>
+                            <button
+                                type="button"
+                                onClick={handleUsePartialJourney}
+                                style={{
+                                    padding: "6px 12px",
+                                    background: theme.colors.accent,
+                                    color: "white",
+                                    border: "none",
+                                    borderRadius: theme.radii.md,
+                                    cursor: "pointer",
+                                    fontSize: 13,
+                                    fontWeight: 500
+                                }}>
+                                Use {partialJourney.totalDistance} miles
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setPartialJourney(null)}
+                                style={{
+                                    padding: "6px 12px",
+                                    background: "transparent",
+                                    color: theme.colors.text,
+                                    border: `1px solid ${theme.colors.border}`,
+                                    borderRadius: theme.radii.md,
+                                    cursor: "pointer",
+                                    fontSize: 13
+                                }}>
+                                Dismiss
+                            </button>
+                        </div>
+                    </div>
+                )}
+                {journeyWarnings.length > 0 && (
+                    <ul style={{ fontSize: 12, color: theme.colors.textSubtle, margin: 0, marginTop: 8, paddingLeft: 18 }}>
+                        {journeyWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                    </ul>
+                )}
+                <p style={{ fontSize: 12, color: theme.colors.textSubtle, margin: 0, marginTop: 12 }}>
+                    {!sitePostcode
+                        ? 'Charging zones are checked once the site address includes a postcode.'
+                        : siteChargingZones.length > 0
+                            ? `${sitePostcode} is within: ${siteChargingZones.map(zone => `${zone.name} (£${zone.dailyCharge.toFixed(2)}/vehicle/day)`).join(', ')}`
+                            : `${sitePostcode} is outside all charging zones.`}
+                </p>
+            </div>
+
+            <div style={{ height: 1, background: theme.colors.border, margin: "8px 0" }} />
+
             {/* Out-of-Hours Working Section */}
             <div>
                 <h3 style={{ fontSize: 18, fontWeight: 600, color: theme.colors.text, margin: 0 }}>Out-of-Hours Working</h3>
                 <p style={{ fontSize: 14, color: theme.colors.textSubtle, margin: 0, marginTop: 4, marginBottom: 16 }}>Configure premium rates for evening, weekend, or holiday work.</p>
+
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: 16, marginBottom: 12 }}>
+                    <div>
+                        <label style={{ display: "block", fontSize: 14, fontWeight: 500, color: theme.colors.text, marginBottom: 8 }}>Proposed Start Date</label>
+                        <input
+                            type="date"
+                            name="proposedStartDate"
+                            value={details.proposedStartDate ?? ''}
+                            onChange={handleDetailChange}
+                            style={scheduleInputStyle}
+                        />
+                    </div>
+                    <div>
+                        <label style={{ display: "block", fontSize: 14, fontWeight: 500, color: theme.colors.text, marginBottom: 8 }}>Working Pattern</label>
+                        <select name="workingPattern" value={details.workingPattern ?? 'weekdays'} onChange={handleDetailChange} style={scheduleInputStyle}>
+                            <option value="weekdays">Weekdays (Mon-Fri)</option>
+                            <option value="weekday_evenings">Weekday Evenings</option>
+                            <option value="weekdays_and_saturday">Mon-Sat</option>
+                            <option value="weekends_only">Weekends Only</option>
+                            <option value="seven_days">Seven Days</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label style={{ display: "block", fontSize: 14, fontWeight: 500, color: theme.colors.text, marginBottom: 8 }}>Bank Holidays</label>
+                        <select name="bankHolidayRegion" value={details.bankHolidayRegion ?? ''} onChange={handleDetailChange} style={scheduleInputStyle}>
+                            <option value="">Auto ({getBankHolidayRegion(sitePostcode).replace(/-/g, ' ')})</option>
+                            <option value="england-and-wales">England & Wales</option>
+                            <option value="scotland">Scotland</option>
+                            <option value="northern-ireland">Northern Ireland</option>
+                        </select>
+                    </div>
+                </div>
+                <p style={{ fontSize: 12, color: theme.colors.textSubtle, margin: 0, marginBottom: 16 }}>
+                    {details.proposedStartDate
+                        ? 'Evening, Saturday and Sunday/bank-holiday days are worked out from the calendar. Weekday patterns skip bank holidays.'
+                        : 'Set a start date to price out-of-hours days from the calendar, or enter them manually below.'}
+                </p>
                 
+                {!details.proposedStartDate && (
                 <button
                     type="button"
                     onClick={() => handleDetailChange({ target: { name: 'outOfHoursWorking', type: 'checkbox', checked: !details.outOfHoursWorking } } as React.ChangeEvent<HTMLInputElement>)}
@@ -618,8 +840,9 @@ export const QuoteDetailsForm: React.FC<QuoteDetailsFormProps> = ({ details, onD
                         {details.outOfHoursWorking && <div style={{ width: 8, height: 8, borderRadius: "50%", background: theme.colors.accent }} />}
                     </div>
                 </button>
+                )}
                 
-                {details.outOfHoursWorking && (
+                {!details.proposedStartDate && details.outOfHoursWorking && (
                     <div style={{
                         padding: 16,
                         background: theme.colors.panelAlt,
@@ -653,9 +876,9 @@ export const QuoteDetailsForm: React.FC<QuoteDetailsFormProps> = ({ details, onD
                                         fontSize: 14
                                     }}>
                                     <option value="">Select type...</option>
-                                    <option value="weekday_evening">Weekday Evening (6pm-7am) - 150%</option>
-                                    <option value="saturday">Saturday - 200%</option>
-                                    <option value="sunday_bank_holiday">Sunday/Bank Holiday - 225%</option>
+                                    <option value="weekday_evening">Weekday Evening (6pm-7am) - {Math.round(config.outOfHours.weekdayEveningMultiplier * 100)}%</option>
+                                    <option value="saturday">Saturday - {Math.round(config.outOfHours.saturdayMultiplier * 100)}%</option>
+                                    <option value="sunday_bank_holiday">Sunday/Bank Holiday - {Math.round(config.outOfHours.sundayBankHolidayMultiplier * 100)}%</option>
                                 </select>
                             </div>
                             
@@ -699,6 +922,47 @@ export const QuoteDetailsForm: React.FC<QuoteDetailsFormProps> = ({ details, onD
                 )}
             </div>
             
+            <div style={{ height: 1, background: theme.colors.border, margin: "8px 0" }} />
+
+            {/* VAT Treatment Section */}
+            <div>
+                <h3 style={{ fontSize: 18, fontWeight: 600, color: theme.colors.text, margin: 0 }}>VAT Treatment</h3>
+                <p style={{ fontSize: 14, color: theme.colors.textSubtle, margin: 0, marginTop: 4, marginBottom: 16 }}>Use the CIS domestic reverse charge when the client is a VAT-registered contractor.</p>
+                <button
+                    type="button"
+                    onClick={() => handleDetailChange({ target: { name: 'vatReverseCharge', type: 'checkbox', checked: !details.vatReverseCharge } } as React.ChangeEvent<HTMLInputElement>)}
+                    style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 12,
+                        background: details.vatReverseCharge ? theme.colors.accent : theme.colors.panelAlt,
+                        color: details.vatReverseCharge ? "white" : theme.colors.text,
+                        border: `1px solid ${details.vatReverseCharge ? theme.colors.accent : theme.colors.border}`,
+                        padding: 16,
+                        borderRadius: theme.radii.md,
+                        cursor: "pointer",
+                        fontSize: 14,
+                        fontWeight: 500,
+                        transition: "all 0.2s ease",
+                        width: "100%",
+                        textAlign: "left"
+                    }}>
+                    <span style={{ flex: 1 }}>Domestic Reverse Charge (CIS)</span>
+                    <div style={{
+                        width: 20,
+                        height: 20,
+                        borderRadius: "50%",
+                        background: details.vatReverseCharge ? "white" : "transparent",
+                        border: `2px solid ${details.vatReverseCharge ? "white" : theme.colors.border}`,
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "center"
+                    }}>
+                        {details.vatReverseCharge && <div style={{ width: 8, height: 8, borderRadius: "50%", background: theme.colors.accent }} />}
+                    </div>
+                </button>
+            </div>
+
             <div style={{ height: 1, background: theme.colors.border, margin: "8px 0" }} />
              <div>
                 <h3 style={{ fontSize: 18, fontWeight: 600, color: theme.colors.text, margin: 0 }}>Calculation Overrides</h3>
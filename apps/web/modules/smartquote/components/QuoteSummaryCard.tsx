@@ -61,6 +61,8 @@ export const QuoteSummaryCard: React.FC<QuoteSummaryCardProps> = ({ results, det
         { label: 'Labour', value: labourCost, percentage: (labourCost / pricing.totalCost) * 100 },
         { label: 'Transport', value: pricing.transportCost, percentage: (pricing.transportCost / pricing.totalCost) * 100 },
         { label: 'Parking', value: pricing.parkingCost, percentage: (pricing.parkingCost / pricing.totalCost) * 100 },
+        { label: 'Mileage', value: pricing.mileageCost || 0, percentage: ((pricing.mileageCost || 0) / pricing.totalCost) * 100 },
+        { label: 'Zone Charges', value: pricing.clearZoneCost || 0, percentage: ((pricing.clearZoneCost || 0) / pricing.totalCost) * 100 },
         { label: 'Rework', value: pricing.reworkingCost || 0, percentage: ((pricing.reworkingCost || 0) / pricing.totalCost) * 100 }
     ].filter(item => item.value > 0);
 
@@ -2,9 +2,12 @@
 
 import React, { useState, useMemo } from 'react';
 
+import { useUserRole } from '../../../hooks/useUserRole';
 import { useFeatureFlag, FEATURE_FLAGS } from '../../../lib/featureFlags';
+import { canViewFinancials } from '../../../lib/roles';
 import { theme } from '../../../lib/theme';
-import { CalculatedProduct, CalculationResults, QuoteDetails, AppConfig } from '../types';
+import { rateMargin } from '../services/calculationService';
+import { CalculatedProduct, CalculationResults, MarginRating, ProfitabilityResults, QuoteDetails, AppConfig } from '../types';
 import { getDashboardCardStyle, getDashboardTypographyStyle, spacing } from '../utils/dashboardStyles';
 import { getIconProps } from '../utils/iconSizing';
 
@@ -290,9 +293,119 @@ const CrewCard: React.FC<{ results: CalculationResults; details: QuoteDetails; o
     );
 };
 
+const formatGBP = (value: number) => `£${value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const MARGIN_COLORS: Record<MarginRating, string> = { low: theme.colors.danger, fair: theme.colors.warn, healthy: theme.colors.accentAlt };
+const marginColor = (percent: number) => MARGIN_COLORS[rateMargin(percent)];
+
+const ProfitabilityCard: React.FC<{ profitability: ProfitabilityResults }> = ({ profitability }) => {
+    const cellStyle: React.CSSProperties = { padding: '8px 12px', fontSize: 13, color: theme.colors.text, textAlign: 'right' };
+    const headerStyle: React.CSSProperties = { ...cellStyle, color: theme.colors.textSubtle, fontWeight: 600, borderBottom: `1px solid ${theme.colors.border}` };
+    const summaryRowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', fontSize: 14, color: theme.colors.text };
+
+    return (
+        <div style={{
+            ...getDashboardCardStyle('standard'),
+            maxWidth: 'none'
+        }}>
+            <div style={{
+                padding: 16,
+                borderBottom: `1px solid ${theme.colors.border}`,
+                display: 'flex',
+                alignItems: 'center',
+                gap: 12
+            }}>
+                <CurrencyPoundIcon {...getIconProps('feature', { color: theme.colors.accentAlt })} />
+                <div>
+                    <h3 style={{
+                        ...getDashboardTypographyStyle('sectionHeader'),
+                        color: theme.colors.text,
+                        margin: 0
+                    }}>Profitability (Internal)</h3>
+                    <p style={{
+                        ...getDashboardTypographyStyle('bodyText'),
+                        color: theme.colors.textSubtle,
+                        margin: '4px 0 0 0'
+                    }}>Cost to company vs sell price. Not shown on client documents.</p>
+                </div>
+            </div>
+
+            <div style={{ padding: 16, display: 'flex', flexDirection: 'column', gap: 16 }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr>
+                            <th style={{ ...headerStyle, textAlign: 'left' }}>Line</th>
+                            <th style={headerStyle}>Cost</th>
+                            <th style={headerStyle}>Sell</th>
+                            <th style={headerStyle}>Margin</th>
+                            <th style={headerStyle}>%</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {profitability.lines.map(line => (
+                            <tr key={line.label}>
+                                <td style={{ ...cellStyle, textAlign: 'left' }}>{line.label}</td>
+                                <td style={cellStyle}>{formatGBP(line.cost)}</td>
+                                <td style={cellStyle}>{formatGBP(line.sell)}</td>
+                                <td style={cellStyle}>{formatGBP(line.margin)}</td>
+                                <td style={{ ...cellStyle, color: marginColor(line.marginPercent), fontWeight: 600 }}>{line.marginPercent.toFixed(1)}%</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <div style={{
+                    display: 'grid',
+                    gap: 8,
+                    padding: 12,
+                    background: theme.colors.panelAlt,
+                    borderRadius: theme.radii.md,
+                    border: `1px solid ${theme.colors.border}`
+                }}>
+                    <div style={summaryRowStyle}><span>Direct Cost</span><span>{formatGBP(profitability.directCost)}</span></div>
+                    <div style={summaryRowStyle}>
+                        <span>Gross Margin</span>
+                        <span style={{ color: marginColor(profitability.grossMarginPercent), fontWeight: 600 }}>
+                            {formatGBP(profitability.grossMargin)} ({profitability.grossMarginPercent.toFixed(1)}%)
+                        </span>
+                    </div>
+                    <div style={summaryRowStyle}><span>Overhead Recovery ({profitability.overheadRecoveryPercent}%)</span><span>{formatGBP(profitability.overheadRecovery)}</span></div>
+                    <div style={{ ...summaryRowStyle, fontWeight: 700 }}>
+                        <span>Net Margin</span>
+                        <span style={{ color: marginColor(profitability.netMarginPercent) }}>
+                            {formatGBP(profitability.netMargin)} ({profitability.netMarginPercent.toFixed(1)}%)
+                        </span>
+                    </div>
+                </div>
+
+                <div style={{
+                    display: 'grid',
+                    gap: 8,
+                    padding: 12,
+                    background: theme.colors.panelAlt,
+                    borderRadius: theme.radii.md,
+                    border: `1px solid ${theme.colors.border}`
+                }}>
+                    <div style={summaryRowStyle}><span>Total (ex VAT)</span><span>{formatGBP(profitability.sellExVat)}</span></div>
+                    {profitability.isReverseCharge ? (
+                        <div style={summaryRowStyle}>
+                            <span>VAT – reverse charge (customer to pay {profitability.vatRatePercent}% to HMRC)</span>
+                            <span>{formatGBP(profitability.reverseChargeVatAmount)}</span>
+                        </div>
+                    ) : (
+                        <div style={summaryRowStyle}><span>VAT @ {profitability.vatRatePercent}%</span><span>{formatGBP(profitability.vatAmount)}</span></div>
+                    )}
+                    <div style={{ ...summaryRowStyle, fontWeight: 700 }}><span>Total (inc VAT)</span><span>{formatGBP(profitability.totalIncVat)}</span></div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ products, results, quoteDetails, config, onDetailsChange, onProductsChange, onSaveLearnedProduct }) => {
     const { labour, crew, waste, pricing } = results;
     const [editingTimes, setEditingTimes] = useState<Record<number, string>>({});
+    const { role } = useUserRole();
 
     // Feature flags
     const [productCrossCheckEnabled] = useFeatureFlag(FEATURE_FLAGS.PRODUCT_CROSS_CHECK);
@@ -591,6 +704,50 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ products, result
                             </div>
                         )}
 
+                        {/* Mileage */}
+                        {pricing.mileageCost > 0 && (
+                            <div style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                alignItems: 'center',
+                                padding: 12,
+                                background: theme.colors.panelAlt,
+                                borderRadius: theme.radii.md,
+                                border: `1px solid ${theme.colors.border}`
+                            }}>
+                                <span style={{
+                                    ...getDashboardTypographyStyle('labelText'),
+                                    color: theme.colors.text
+                                }}>Mileage ({(quoteDetails.journeyMiles ?? 0).toFixed(0)} mi/day)</span>
+                                <span style={{
+                                    ...getDashboardTypographyStyle('cardTitle'),
+                                    color: theme.colors.accent
+                                }}>£{pricing.mileageCost.toFixed(2)}</span>
+                            </div>
+                        )}
+
+                        {/* ULEZ / Congestion / Clean Air Zone */}
+                        {pricing.clearZoneCost > 0 && (
+                            <div style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                alignItems: 'center',
+                                padding: 12,
+                                background: theme.colors.panelAlt,
+                                borderRadius: theme.radii.md,
+                                border: `1px solid ${theme.colors.border}`
+                            }}>
+                                <span style={{
+                                    ...getDashboardTypographyStyle('labelText'),
+                                    color: theme.colors.text
+                                }}>ULEZ / Congestion Charges</span>
+                                <span style={{
+                                    ...getDashboardTypographyStyle('cardTitle'),
+                                    color: theme.colors.accent
+                                }}>£{pricing.clearZoneCost.toFixed(2)}</span>
+                            </div>
+                        )}
+
                         {/* Out-of-Hours Surcharge */}
                         {pricing.outOfHoursSurcharge && pricing.outOfHoursSurcharge > 0 && (
                             <div style={{
@@ -620,6 +777,20 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ products, result
                                             Standard cost: £{pricing.standardCost.toFixed(2)}
                                         </div>
                                     )}
+                                    {pricing.outOfHoursDayCounts && (
+                                        <div style={{ fontSize: 11, color: '#6c757d', marginTop: 2 }}>
+                                            {[
+                                                ['Evening', pricing.outOfHoursDayCounts.weekday_evening],
+                                                ['Saturday', pricing.outOfHoursDayCounts.saturday],
+                                                ['Sunday/BH', pricing.outOfHoursDayCounts.sunday_bank_holiday]
+                                            ].filter(([, days]) => Number(days) > 0).map(([label, days]) => `${label}: ${days} day${days === 1 ? '' : 's'}`).join(' · ')}
+                                        </div>
+                                    )}
+                                    {pricing.workCalendar && pricing.workCalendar.some(day => day.bankHoliday) && (
+                                        <div style={{ fontSize: 11, color: '#6c757d', marginTop: 2 }}>
+                                            Includes {pricing.workCalendar.filter(day => day.bankHoliday).map(day => `${day.bankHoliday} (${day.date})`).join(', ')}
+                                        </div>
+                                    )}
                                 </div>
                                 <span style={{
                                     ...getDashboardTypographyStyle('cardTitle'),
@@ -629,6 +800,33 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ products, result
                             </div>
                         )}
 
+                        {/* Pricing Rule Adjustments */}
+                        {(pricing.adjustments || []).map(adjustment => (
+                            <div key={adjustment.ruleId} style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                alignItems: 'center',
+                                padding: 12,
+                                background: theme.colors.panelAlt,
+                                borderRadius: theme.radii.md,
+                                border: `1px solid ${theme.colors.border}`
+                            }}>
+                                <span style={{
+                                    ...getDashboardTypographyStyle('labelText'),
+                                    color: theme.colors.text
+                                }}>
+                                    {adjustment.label}
+                                    <span style={{ fontWeight: 400, fontSize: 12, color: theme.colors.textSubtle }}>
+                                        {' '}({adjustment.percentOfSubtotal.toFixed(1)}%)
+                                    </span>
+                                </span>
+                                <span style={{
+                                    ...getDashboardTypographyStyle('cardTitle'),
+                                    color: adjustment.amount < 0 ? '#16a34a' : theme.colors.accent
+                                }}>{adjustment.amount < 0 ? '−' : '+'}£{Math.abs(adjustment.amount).toFixed(2)}</span>
+                            </div>
+                        ))}
+
                         {/* Transport Section */}
                         {Object.keys(quoteDetails.selectedVehicles || {}).length > 0 && (
                             <div style={{
@@ -699,6 +897,11 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ products, result
                 </div>
             </div>
 
+            {/* Profitability - internal roles only */}
+            {results.profitability && canViewFinancials(role) && (
+                <ProfitabilityCard profitability={results.profitability} />
+            )}
+
             {/* Labour Breakdown */}
             <div style={{
                 ...getDashboardCardStyle('standard'),
@@ -1,8 +1,10 @@
 
 
-import { ParsedProduct, CalculationResults, CalculatedProduct, LabourResults, CrewResults, WasteResults, ProductReference, QuoteDetails, PricingResults, AppConfig } from '../types';
+import { ParsedProduct, CalculationResults, CalculatedProduct, LabourResults, CrewResults, WasteResults, ProductReference, QuoteDetails, PricingAdjuster, PricingResults, MarginRating, ProfitabilityLine, ProfitabilityResults, AppConfig, OutOfHoursType, WorkCalendarDay } from '../types';
 
 import { catalogueService } from './catalogueService';
+import { extractPostcode, findChargingZones } from './logisticsService';
+import { buildWorkCalendar, countDaysByType, getBankHolidayRegion } from './workCalendarService';
 
 const _roundToNearest = (value: number, nearest: number): number => {
     return Math.round(value / nearest) * nearest;
@@ -548,6 +550,32 @@ const calculateWaste = (products: CalculatedProduct[], details: QuoteDetails, _c
     };
 };
 
+/**
+ * Works out how many days of each out-of-hours type the job needs. With a proposed start date
+ * this comes from the bank-holiday-aware work calendar; otherwise from the manual type/days entry.
+ */
+const getOutOfHoursDays = (
+    crew: CrewResults,
+    details: QuoteDetails
+): { dayCounts: Record<OutOfHoursType, number>; calendar?: WorkCalendarDay[] } => {
+    const dayCounts: Record<OutOfHoursType, number> = { weekday_evening: 0, saturday: 0, sunday_bank_holiday: 0 };
+
+    if (details.proposedStartDate) {
+        const region = details.bankHolidayRegion || getBankHolidayRegion(extractPostcode(details.deliveryAddress));
+        const calendar = buildWorkCalendar(details.proposedStartDate, crew.totalProjectDays, details.workingPattern || 'weekdays', region);
+        const counts = countDaysByType(calendar);
+        return {
+            dayCounts: { weekday_evening: counts.weekday_evening, saturday: counts.saturday, sunday_bank_holiday: counts.sunday_bank_holiday },
+            calendar,
+        };
+    }
+
+    if (details.outOfHoursWorking && details.outOfHoursType) {
+        dayCounts[details.outOfHoursType] = details.outOfHoursDays ?? 0;
+    }
+    return { dayCounts };
+};
+
 const calculatePricing = (crew: CrewResults, details: QuoteDetails, config: AppConfig): PricingResults => {
     const installDays = crew.totalProjectDays - (details.customExtendedUpliftDays || 0);
     const upliftDays = details.customExtendedUpliftDays || 0;
@@ -601,39 +629,56 @@ const calculatePricing = (crew: CrewResults, details: QuoteDetails, config: AppC
         return sum + (vehicle ? vehicle.costPerDay * quantity * totalBillableDays : 0);
     }, 0);
     
-    const standardCost = totalVanCost + totalFitterCost + totalSupervisorCost + reworkingCost + parkingCost + transportCost;
+    // Mileage: every vehicle makes the round trip once per billable day
+    const journeyMiles = details.journeyMiles ?? 0;
+    let dailyVehicleMileageCost = 0;
+    if (crew.vanCount > 0) {
+        const vanPencePerMile = crew.isTwoManVanRequired ? config.logistics.twoManVanPencePerMile : config.logistics.oneManVanPencePerMile;
+        dailyVehicleMileageCost += crew.vanCount * journeyMiles * vanPencePerMile / 100;
+    }
+    dailyVehicleMileageCost += Object.entries(details.selectedVehicles || {}).reduce((sum, [vehicleId, quantity]) => {
+        const vehicle = config.vehicles[vehicleId];
+        return sum + (vehicle ? quantity * journeyMiles * (vehicle.pencePerMile ?? 0) / 100 : 0);
+    }, 0);
+    const mileageCost = dailyVehicleMileageCost * totalBillableDays;
+
+    // Clean air / congestion zones: charged per vehicle per day on site
+    const vehicleCount = crew.vanCount + Object.values(details.selectedVehicles || {}).reduce((sum, quantity) => sum + quantity, 0);
+    const chargingZones = findChargingZones(extractPostcode(details.deliveryAddress), config.logistics.chargingZones);
+    const dailyZoneCharge = chargingZones.reduce((sum, zone) => sum + zone.dailyCharge, 0);
+    const clearZoneCost = dailyZoneCharge * vehicleCount * totalBillableDays;
+
+    const standardCost = totalVanCost + totalFitterCost + totalSupervisorCost + reworkingCost + parkingCost + transportCost + mileageCost + clearZoneCost;
     
     // Calculate out-of-hours surcharge if applicable
+    const { dayCounts: outOfHoursDayCounts, calendar: workCalendar } = getOutOfHoursDays(crew, details);
+    const multipliers: Record<OutOfHoursType, number> = {
+        weekday_evening: config.outOfHours.weekdayEveningMultiplier,
+        saturday: config.outOfHours.saturdayMultiplier,
+        sunday_bank_holiday: config.outOfHours.sundayBankHolidayMultiplier,
+    };
+    const outOfHoursTypes = Object.keys(multipliers) as OutOfHoursType[];
+    const totalOutOfHoursDays = outOfHoursTypes.reduce((sum, type) => sum + outOfHoursDayCounts[type], 0);
+
     let outOfHoursSurcharge = 0;
     let outOfHoursMultiplier = 1.0;
     let finalTotalCost = standardCost;
-    
-    if (details.outOfHoursWorking && details.outOfHoursType && (details.outOfHoursDays ?? 0) > 0) {
-        // Get multiplier based on out-of-hours type
-        switch (details.outOfHoursType) {
-            case 'weekday_evening':
-                outOfHoursMultiplier = 1.5; // 150%
-                break;
-            case 'saturday':
-                outOfHoursMultiplier = 2.0; // 200%
-                break;
-            case 'sunday_bank_holiday':
-                outOfHoursMultiplier = 2.25; // 225%
-                break;
-        }
-        
-        // Calculate proportion of work that's out-of-hours
-        const outOfHoursRatio = Math.min(1, (details.outOfHoursDays || 0) / totalBillableDays);
-        
-        // Only apply multiplier to labour costs (van, fitters, supervisors) not to parking/transport/reworking
+
+    if (totalOutOfHoursDays > 0 && totalBillableDays > 0) {
+        // Only apply multipliers to labour costs (van, fitters, supervisors) not to parking/transport/reworking
         const labourCosts = totalVanCost + totalFitterCost + totalSupervisorCost;
-        const nonLabourCosts = reworkingCost + parkingCost + transportCost;
-        
-        const outOfHoursLabourCost = labourCosts * outOfHoursRatio * outOfHoursMultiplier;
-        const standardLabourCost = labourCosts * (1 - outOfHoursRatio);
-        
-        outOfHoursSurcharge = (outOfHoursLabourCost + standardLabourCost) - labourCosts;
-        finalTotalCost = outOfHoursLabourCost + standardLabourCost + nonLabourCosts;
+        const dailyLabourCost = labourCosts / totalBillableDays;
+
+        // Each out-of-hours day is priced at its own multiplier; the rest stay at the standard rate
+        outOfHoursSurcharge = outOfHoursTypes.reduce(
+            (sum, type) => sum + dailyLabourCost * Math.min(outOfHoursDayCounts[type], totalBillableDays) * (multipliers[type] - 1),
+            0
+        );
+        outOfHoursMultiplier = outOfHoursTypes.reduce(
+            (sum, type) => sum + multipliers[type] * outOfHoursDayCounts[type],
+            0
+        ) / totalOutOfHoursDays;
+        finalTotalCost = standardCost + outOfHoursSurcharge;
     }
     
     return {
@@ -644,19 +689,151 @@ const calculatePricing = (crew: CrewResults, details: QuoteDetails, config: AppC
         reworkingCost,
         parkingCost,
         transportCost,
+        mileageCost,
+        clearZoneCost,
         billableDays: totalBillableDays,
         outOfHoursSurcharge: outOfHoursSurcharge > 0 ? outOfHoursSurcharge : undefined,
         outOfHoursMultiplier: outOfHoursMultiplier !== 1.0 ? outOfHoursMultiplier : undefined,
         standardCost: outOfHoursSurcharge > 0 ? standardCost : undefined,
+        outOfHoursDayCounts: totalOutOfHoursDays > 0 ? outOfHoursDayCounts : undefined,
+        workCalendar,
+    };
+};
+
+const applyPricingAdjustments = (
+    pricing: PricingResults,
+    products: CalculatedProduct[],
+    details: QuoteDetails,
+    adjusters: PricingAdjuster[]
+): PricingResults => {
+    if (adjusters.length === 0) return pricing;
+
+    const context = { products, details, subtotal: pricing.totalCost, evaluationDate: new Date() };
+    const adjustments = adjusters.flatMap(adjuster => adjuster(context)).filter(adjustment => adjustment.amount !== 0);
+    if (adjustments.length === 0) return pricing;
+
+    const adjustmentTotal = adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    return {
+        ...pricing,
+        totalCost: Math.max(0, pricing.totalCost + adjustmentTotal),
+        adjustments,
+        subtotalBeforeAdjustments: pricing.totalCost,
+    };
+};
+
+const toProfitabilityLine = (label: string, cost: number, sell: number): ProfitabilityLine => {
+    const margin = sell - cost;
+    return {
+        label,
+        cost,
+        sell,
+        margin,
+        marginPercent: sell > 0 ? (margin / sell) * 100 : 0,
     };
 };
 
-const generateNotes = (pricing: PricingResults, details: QuoteDetails): CalculationResults['notes'] => {
+// Margins under these percentages are flagged on the profitability card
+export const LOW_MARGIN_PERCENT = 15;
+export const FAIR_MARGIN_PERCENT = 25;
+
+export const rateMargin = (percent: number): MarginRating =>
+    percent < LOW_MARGIN_PERCENT ? 'low' : percent < FAIR_MARGIN_PERCENT ? 'fair' : 'healthy';
+
+const calculateProfitability = (crew: CrewResults, pricing: PricingResults, details: QuoteDetails, config: AppConfig): ProfitabilityResults => {
+    const { laborCosts, pricing: rates, financials } = config;
+
+    // Cost-to-company rates may be entered as hourly rates; sell rates are always day rates
+    const toDayCost = (rate: number) => laborCosts.useHourlyRate ? rate / laborCosts.hourlyRateMultiplier : rate;
+    // Each labour line is billed as (day rate x days), so cost scales by the cost/sell ratio
+    const costFor = (sell: number, costRate: number, sellRate: number) => sellRate > 0 ? sell * toDayCost(costRate) / sellRate : 0;
+
+    const vanCostToCompany = crew.isTwoManVanRequired
+        ? costFor(pricing.vanCost, laborCosts.twoManVanCostToCompany, rates.twoManVanDayRate)
+        : costFor(pricing.vanCost, laborCosts.oneManVanCostToCompany, rates.oneManVanDayRate);
+    const fitterCostToCompany = costFor(pricing.fitterCost, laborCosts.additionalFitterCostToCompany, rates.additionalFitterDayRate);
+    const supervisorCostToCompany = costFor(pricing.supervisorCost, laborCosts.supervisorCostToCompany, rates.supervisorDayRate);
+    const reworkingCostToCompany = details.specialistReworking ? laborCosts.specialistReworkingCostToCompany : 0;
+
+    const transportCostToCompany = Object.entries(details.selectedVehicles || {}).reduce((sum, [vehicleId, quantity]) => {
+        const vehicle = config.vehicles[vehicleId];
+        return sum + (vehicle ? (vehicle.costToCompanyPerDay ?? vehicle.costPerDay) * quantity * pricing.billableDays : 0);
+    }, 0);
+
+    const lines: ProfitabilityLine[] = [
+        toProfitabilityLine('Van', vanCostToCompany, pricing.vanCost),
+        toProfitabilityLine('Fitters', fitterCostToCompany, pricing.fitterCost),
+        toProfitabilityLine('Supervisors', supervisorCostToCompany, pricing.supervisorCost),
+        toProfitabilityLine('Specialist Reworking', reworkingCostToCompany, pricing.reworkingCost),
+        // Parking, mileage and zone charges are passed through at cost
+        toProfitabilityLine('Parking', pricing.parkingCost, pricing.parkingCost),
+        toProfitabilityLine('Transport', transportCostToCompany, pricing.transportCost),
+        toProfitabilityLine('Mileage', pricing.mileageCost, pricing.mileageCost),
+        toProfitabilityLine('ULEZ / Congestion', pricing.clearZoneCost, pricing.clearZoneCost),
+    ];
+
+    // Out-of-hours premiums are paid on to the crew at the same multiplier
+    if (pricing.outOfHoursSurcharge) {
+        const labourSell = pricing.vanCost + pricing.fitterCost + pricing.supervisorCost;
+        const labourCost = vanCostToCompany + fitterCostToCompany + supervisorCostToCompany;
+        const premiumCost = labourSell > 0 ? pricing.outOfHoursSurcharge * labourCost / labourSell : 0;
+        lines.push(toProfitabilityLine('Out-of-Hours Premium', premiumCost, pricing.outOfHoursSurcharge));
+    }
+
+    // Rule discounts come straight off the sell price
+    if (pricing.adjustments && pricing.subtotalBeforeAdjustments !== undefined) {
+        lines.push(toProfitabilityLine('Pricing Rule Adjustments', 0, pricing.totalCost - pricing.subtotalBeforeAdjustments));
+    }
+
+    const reportedLines = lines.filter(line => line.cost !== 0 || line.sell !== 0);
+    const directCost = reportedLines.reduce((sum, line) => sum + line.cost, 0);
+    const sellExVat = pricing.totalCost;
+    const overheadRecovery = directCost * financials.overheadRecoveryPercent / 100;
+    const grossMargin = sellExVat - directCost;
+    const netMargin = grossMargin - overheadRecovery;
+
+    const isReverseCharge = !!details.vatReverseCharge;
+    const vatAtRate = sellExVat * financials.vatRatePercent / 100;
+    const vatAmount = isReverseCharge ? 0 : vatAtRate;
+
+    return {
+        lines: reportedLines,
+        directCost,
+        overheadRecoveryPercent: financials.overheadRecoveryPercent,
+        overheadRecovery,
+        sellExVat,
+        grossMargin,
+        grossMarginPercent: sellExVat > 0 ? (grossMargin / sellExVat) * 100 : 0,
+        netMargin,
+        netMarginPercent: sellExVat > 0 ? (netMargin / sellExVat) * 100 : 0,
+        vatRatePercent: financials.vatRatePercent,
+        isReverseCharge,
+        vatAmount,
+        reverseChargeVatAmount: isReverseCharge ? vatAtRate : 0,
+        totalIncVat: sellExVat + vatAmount,
+    };
+};
+
+const generateNotes = (pricing: PricingResults, details: QuoteDetails, config: AppConfig): CalculationResults['notes'] => {
     const parkingCharge = details.dailyParkingCharge ?? 75;
+
+    let mileage = "Mileage to be calculated based on distance from base.";
+    if (details.journeyMiles != null && details.journeyMiles > 0) {
+        mileage = `${details.journeyMiles.toFixed(0)} mile round trip from ${config.logistics.depotPostcode} over ${pricing.billableDays.toFixed(1)} day(s): £${pricing.mileageCost.toFixed(2)} applied.`;
+    }
+
+    let ulez = "ULEZ/Congestion charges will be added if applicable.";
+    const sitePostcode = extractPostcode(details.deliveryAddress);
+    if (sitePostcode) {
+        const zones = findChargingZones(sitePostcode, config.logistics.chargingZones);
+        ulez = zones.length > 0
+            ? `${sitePostcode} is within ${zones.map(zone => `${zone.name} (£${zone.dailyCharge.toFixed(2)}/vehicle/day)`).join(', ')}: £${pricing.clearZoneCost.toFixed(2)} applied.`
+            : `${sitePostcode} is outside all charging zones.`;
+    }
+
     return {
         parking: pricing.parkingCost > 0 ? `Daily charge of £${parkingCharge.toFixed(2)} applied.` : "To be confirmed/arranged by client.",
-        mileage: "Mileage to be calculated based on distance from base.",
-        ulez: "ULEZ/Congestion charges will be added if applicable.",
+        mileage,
+        ulez,
         delivery: "Standard delivery to ground floor included. Additional charges may apply for complex logistics."
     };
 }
@@ -669,6 +846,7 @@ const generateNotes = (pricing: PricingResults, details: QuoteDetails): Calculat
  * @param products - Array of calculated products with time and waste data
  * @param details - Quote-specific details (client, address, special requirements)
  * @param config - Application configuration including pricing rates and business rules
+ * @param adjusters - Optional pricing-rule stages applied to the total after standard pricing
  * @returns Complete calculation results with all metrics
  *
  * @example
@@ -679,19 +857,22 @@ const generateNotes = (pricing: PricingResults, details: QuoteDetails): Calculat
 export const calculateAll = (
     products: CalculatedProduct[],
     details: QuoteDetails,
-    config: AppConfig
+    config: AppConfig,
+    adjusters: PricingAdjuster[] = []
 ): CalculationResults => {
     const labour = calculateLabour(products, details, config);
     const crew = calculateCrew(labour, products, details, config);
     const waste = calculateWaste(products, details, config);
-    const pricing = calculatePricing(crew, details, config);
-    const notes = generateNotes(pricing, details);
+    const pricing = applyPricingAdjustments(calculatePricing(crew, details, config), products, details, adjusters);
+    const profitability = calculateProfitability(crew, pricing, details, config);
+    const notes = generateNotes(pricing, details, config);
 
     return {
         labour,
         crew,
         waste,
         pricing,
+        profitability,
         notes,
         detailedProducts: products,
     };
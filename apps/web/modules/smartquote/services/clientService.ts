@@ -44,6 +44,29 @@ export interface AddressWithDistance {
 }
 
 class ClientService {
+    /**
+     * Find the saved client a quote's client name refers to, matching the name or
+     * company name exactly (ignoring case)
+     */
+    async findClientByName(name: string): Promise<Client | null> {
+        const pattern = name.trim().replace(/[\\%_]/g, match => `\\${match}`);
+        if (!pattern) return null;
+
+        const { data, error } = await supabase
+            .from('clients')
+            .select('*')
+            .or(`name.ilike.${JSON.stringify(pattern)},company_name.ilike.${JSON.stringify(pattern)}`)
+            .limit(2);
+
+        if (error) {
+            console.error('Error finding client by name:', error);
+            return null;
+        }
+
+        // An ambiguous name could pick up another client's rules
+        return data?.length === 1 ? data[0] : null;
+    }
+
     /**
      * Search for a client by email or company name
      */
@@ -215,7 +238,8 @@ class ClientService {
     async calculateLogistics(
         sitePostcode: string,
         collectionPostcode?: string,
-        clientId?: string
+        clientId?: string,
+        depotPostcode: string = 'SE1 4AA'
     ): Promise<{
         totalDistance: number;
         totalTravelTime: number;
@@ -223,7 +247,7 @@ class ClientService {
         congestionCharges: number;
         route: Array<{ from: string; to: string; miles: number; minutes: number }>;
     }> {
-        const bhitBase = 'SE1 4AA'; // BHIT base location
+        const bhitBase = depotPostcode; // BHIT base location
         const route = [];
         let totalDistance = 0;
         let totalTravelTime = 0;
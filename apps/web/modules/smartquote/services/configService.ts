@@ -1,5 +1,5 @@
 
-import { AppConfig, ProductReference, Vehicle } from '../types';
+import { AppConfig, ChargingZone, FinancialConfig, LogisticsConfig, OutOfHoursConfig, ProductReference, Vehicle } from '../types';
 
 const CONFIG_STORAGE_KEY = 'bhit_app_config';
 
@@ -263,6 +263,7 @@ const DEFAULT_VEHICLES: Record<string, Vehicle> = {
         costPerDay: 325,
         euroPalletCapacity: 4, // Euro pallets (1200mm x 800mm)
         standardPalletCapacity: 3, // Standard pallets (1200mm x 1000mm)
+        pencePerMile: 45,
         isActive: true,
     },
     'large-van': {
@@ -271,6 +272,7 @@ const DEFAULT_VEHICLES: Record<string, Vehicle> = {
         costPerDay: 550,
         euroPalletCapacity: 8,
         standardPalletCapacity: 6,
+        pencePerMile: 55,
         isActive: true,
     },
     'luton-van': {
@@ -279,6 +281,7 @@ const DEFAULT_VEHICLES: Record<string, Vehicle> = {
         costPerDay: 685,
         euroPalletCapacity: 12,
         standardPalletCapacity: 10,
+        pencePerMile: 65,
         isActive: true,
     },
     '75t-lorry': {
@@ -287,10 +290,111 @@ const DEFAULT_VEHICLES: Record<string, Vehicle> = {
         costPerDay: 850,
         euroPalletCapacity: 16,
         standardPalletCapacity: 13,
+        pencePerMile: 95,
         isActive: true,
     },
 };
 
+// Postcode districts covered by each charging zone. London's ULEZ covers every
+// London borough, so inner areas are listed whole and outer areas by district.
+const DEFAULT_CHARGING_ZONES: ChargingZone[] = [
+    {
+        id: 'london-ulez',
+        name: 'London ULEZ',
+        type: 'ulez',
+        dailyCharge: 12.50,
+        postcodeDistricts: [
+            'E', 'EC', 'N', 'NW', 'SE', 'SW', 'W', 'WC',
+            'BR1', 'BR2', 'BR3', 'BR4', 'BR5', 'BR6', 'BR7',
+            'CR0', 'CR2', 'CR4', 'CR5', 'CR7', 'CR8',
+            'DA1', 'DA5', 'DA6', 'DA7', 'DA8', 'DA14', 'DA15', 'DA16', 'DA17', 'DA18',
+            'EN1', 'EN2', 'EN3', 'EN4', 'EN5',
+            'HA0', 'HA1', 'HA2', 'HA3', 'HA4', 'HA5', 'HA6', 'HA7', 'HA8', 'HA9',
+            'IG1', 'IG2', 'IG3', 'IG4', 'IG5', 'IG6', 'IG7', 'IG8', 'IG11',
+            'KT1', 'KT2', 'KT3', 'KT4', 'KT5', 'KT6', 'KT9',
+            'RM1', 'RM2', 'RM3', 'RM5', 'RM6', 'RM7', 'RM8', 'RM9', 'RM10', 'RM11', 'RM12', 'RM13', 'RM14',
+            'SM1', 'SM2', 'SM3', 'SM4', 'SM5', 'SM6',
+            'TW1', 'TW2', 'TW3', 'TW4', 'TW5', 'TW6', 'TW7', 'TW8', 'TW9', 'TW10', 'TW11', 'TW12', 'TW13', 'TW14',
+            'UB1', 'UB2', 'UB3', 'UB4', 'UB5', 'UB6', 'UB7', 'UB8', 'UB10',
+        ],
+        isActive: true,
+    },
+    {
+        id: 'london-ccz',
+        name: 'London Congestion Charge',
+        type: 'congestion',
+        dailyCharge: 15.00,
+        postcodeDistricts: ['EC1', 'EC2', 'EC3', 'EC4', 'WC1', 'WC2', 'W1', 'SW1', 'SE1', 'SE11', 'N1', 'NW1', 'E1', 'W2'],
+        isActive: true,
+    },
+    {
+        id: 'birmingham-caz',
+        name: 'Birmingham Clean Air Zone',
+        type: 'clean_air',
+        dailyCharge: 8.00,
+        postcodeDistricts: ['B1', 'B2', 'B3', 'B4', 'B5', 'B7', 'B12', 'B15', 'B16', 'B18', 'B19'],
+        isActive: true,
+    },
+    {
+        id: 'bristol-caz',
+        name: 'Bristol Clean Air Zone',
+        type: 'clean_air',
+        dailyCharge: 9.00,
+        postcodeDistricts: ['BS1', 'BS2', 'BS3', 'BS5', 'BS8'],
+        isActive: true,
+    },
+    {
+        id: 'bath-caz',
+        name: 'Bath Clean Air Zone',
+        type: 'clean_air',
+        dailyCharge: 9.00,
+        postcodeDistricts: ['BA1', 'BA2'],
+        isActive: true,
+    },
+    {
+        id: 'bradford-caz',
+        name: 'Bradford Clean Air Zone',
+        type: 'clean_air',
+        dailyCharge: 9.00,
+        postcodeDistricts: ['BD1', 'BD3', 'BD4', 'BD5', 'BD7', 'BD8', 'BD9'],
+        isActive: true,
+    },
+    {
+        id: 'sheffield-caz',
+        name: 'Sheffield Clean Air Zone',
+        type: 'clean_air',
+        dailyCharge: 10.00,
+        postcodeDistricts: ['S1', 'S2', 'S3'],
+        isActive: true,
+    },
+    {
+        id: 'newcastle-caz',
+        name: 'Newcastle Clean Air Zone',
+        type: 'clean_air',
+        dailyCharge: 12.50,
+        postcodeDistricts: ['NE1', 'NE8'],
+        isActive: true,
+    },
+];
+
+export const DEFAULT_LOGISTICS_CONFIG: LogisticsConfig = {
+    depotPostcode: 'SE1 4AA',
+    oneManVanPencePerMile: 45,
+    twoManVanPencePerMile: 55,
+    chargingZones: DEFAULT_CHARGING_ZONES,
+};
+
+export const DEFAULT_FINANCIAL_CONFIG: FinancialConfig = {
+    overheadRecoveryPercent: 12,
+    vatRatePercent: 20,
+};
+
+export const DEFAULT_OUT_OF_HOURS_CONFIG: OutOfHoursConfig = {
+    weekdayEveningMultiplier: 1.5,
+    saturdayMultiplier: 2.0,
+    sundayBankHolidayMultiplier: 2.25,
+};
+
 export const getDefaultConfig = (): AppConfig => ({
     pricing: {
         oneManVanDayRate: 325,
@@ -324,6 +428,9 @@ export const getDefaultConfig = (): AppConfig => ({
     },
     productCatalogue: DEFAULT_PRODUCT_REFERENCE_SHEET,
     vehicles: DEFAULT_VEHICLES,
+    logistics: DEFAULT_LOGISTICS_CONFIG,
+    financials: DEFAULT_FINANCIAL_CONFIG,
+    outOfHours: DEFAULT_OUT_OF_HOURS_CONFIG,
 });
 
 
@@ -345,6 +452,9 @@ export const loadConfig = (): AppConfig => {
                     rules: { ...defaultConfig.rules, ...parsedConfig.rules },
                     productCatalogue: { ...defaultConfig.productCatalogue, ...parsedConfig.productCatalogue },
                     vehicles: { ...defaultConfig.vehicles, ...parsedConfig.vehicles },
+                    logistics: { ...defaultConfig.logistics, ...parsedConfig.logistics },
+                    financials: { ...defaultConfig.financials, ...parsedConfig.financials },
+                    outOfHours: { ...defaultConfig.outOfHours, ...parsedConfig.outOfHours },
                 };
             }
         }
@@ -107,7 +107,7 @@ const convertToSavedQuote = (dbQuote: DatabaseQuote, lines: DatabaseQuoteLine[]
       labour: { totalHours: 0, upliftBufferPercentage: 0, hoursAfterUplift: 0, durationBufferPercentage: 0, bufferedHours: 0, totalDays: 0 },
       crew: { crewSize: 0, vanCount: 0, vanFitters: 0, onFootFitters: 0, supervisorCount: 0, specialistCount: 0, daysPerFitter: 0, totalProjectDays: 0, isTwoManVanRequired: false, hourLoadPerPerson: 0 },
       waste: { totalVolumeM3: 0, loadsRequired: 0, isFlagged: false },
-      pricing: { totalCost: 0, vanCost: 0, fitterCost: 0, supervisorCost: 0, reworkingCost: 0, parkingCost: 0, transportCost: 0, billableDays: 0 },
+      pricing: { totalCost: 0, vanCost: 0, fitterCost: 0, supervisorCost: 0, reworkingCost: 0, parkingCost: 0, transportCost: 0, mileageCost: 0, clearZoneCost: 0, billableDays: 0 },
       detailedProducts,
       notes: { parking: '', mileage: '', ulez: '', delivery: '' }
     },
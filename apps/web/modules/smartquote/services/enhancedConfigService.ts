@@ -1,6 +1,6 @@
 import { AppConfig, ProductReference } from '../types';
 
-import { getDefaultConfig as getFullConfig } from './configService';
+import { DEFAULT_FINANCIAL_CONFIG, DEFAULT_LOGISTICS_CONFIG, DEFAULT_OUT_OF_HOURS_CONFIG, getDefaultConfig as getFullConfig } from './configService';
 import { hybridProductService } from './databaseProductService';
 
 const CONFIG_STORAGE_KEY = 'bhit_smartquote_config';
@@ -95,6 +95,9 @@ export const getDefaultConfig = async (): Promise<AppConfig> => {
         },
         productCatalogue,
         vehicles: DEFAULT_VEHICLES,
+        logistics: fullConfig.logistics,
+        financials: fullConfig.financials,
+        outOfHours: fullConfig.outOfHours,
     };
 };
 
@@ -118,6 +121,9 @@ export const loadConfig = async (): Promise<AppConfig> => {
                     laborCosts: { ...baseConfig.laborCosts, ...parsedConfig.laborCosts },
                     rules: { ...baseConfig.rules, ...parsedConfig.rules },
                     vehicles: { ...baseConfig.vehicles, ...parsedConfig.vehicles },
+                    logistics: { ...baseConfig.logistics, ...parsedConfig.logistics },
+                    financials: { ...baseConfig.financials, ...parsedConfig.financials },
+                    outOfHours: { ...baseConfig.outOfHours, ...parsedConfig.outOfHours },
                     productCatalogue: baseConfig.productCatalogue // Always use database-loaded catalogue
                 };
             }
@@ -142,7 +148,10 @@ export const saveConfig = (config: AppConfig) => {
             pricing: config.pricing,
             laborCosts: config.laborCosts,
             rules: config.rules,
-            vehicles: config.vehicles
+            vehicles: config.vehicles,
+            logistics: config.logistics,
+            financials: config.financials,
+            outOfHours: config.outOfHours
             // productCatalogue is handled by database service
         };
 
@@ -202,7 +211,10 @@ export const loadConfigSync = (): AppConfig => {
                     preparedByOptions: ['John Smith', 'Sarah Johnson', 'Mike Wilson', 'Emma Brown'],
                 },
                 productCatalogue: fullConfig.productCatalogue, // Use full catalogue
-                vehicles: fullConfig.vehicles
+                vehicles: fullConfig.vehicles,
+                logistics: fullConfig.logistics,
+                financials: fullConfig.financials,
+                outOfHours: fullConfig.outOfHours
             };
         }
         const storedConfig = localStorage.getItem(CONFIG_STORAGE_KEY);
@@ -235,6 +247,9 @@ export const loadConfigSync = (): AppConfig => {
             },
             productCatalogue: fullConfig.productCatalogue, // Use full catalogue
             vehicles: fullConfig.vehicles,
+            logistics: fullConfig.logistics,
+            financials: fullConfig.financials,
+            outOfHours: fullConfig.outOfHours,
         };
 
         if (storedConfig) {
@@ -245,6 +260,9 @@ export const loadConfigSync = (): AppConfig => {
                     laborCosts: { ...defaultConfig.laborCosts, ...parsedConfig.laborCosts },
                     rules: { ...defaultConfig.rules, ...parsedConfig.rules },
                     vehicles: { ...defaultConfig.vehicles, ...parsedConfig.vehicles },
+                    logistics: { ...defaultConfig.logistics, ...parsedConfig.logistics },
+                    financials: { ...defaultConfig.financials, ...parsedConfig.financials },
+                    outOfHours: { ...defaultConfig.outOfHours, ...parsedConfig.outOfHours },
                     productCatalogue: fullConfig.productCatalogue // Use full catalogue
                 };
             }
@@ -282,6 +300,9 @@ export const loadConfigSync = (): AppConfig => {
             },
             productCatalogue: FALLBACK_PRODUCT_REFERENCE_SHEET,
             vehicles: DEFAULT_VEHICLES,
+            logistics: DEFAULT_LOGISTICS_CONFIG,
+            financials: DEFAULT_FINANCIAL_CONFIG,
+            outOfHours: DEFAULT_OUT_OF_HOURS_CONFIG,
         };
     }
 };
\ No newline at end of file
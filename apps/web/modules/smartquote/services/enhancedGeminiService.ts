@@ -1,22 +1,8 @@
-import { GoogleGenAI, Type } from "@google/genai";
-
+import { extractJSON, Type, type AIInput } from '../../../lib/ai';
 import { ParseResult, ParseContent, ParsedProduct } from '../types';
 
 import { loadConfig } from './configService';
 
-let ai: GoogleGenAI | null = null;
-
-function getAI(): GoogleGenAI {
-    if (!ai) {
-        if (!process.env.GEMINI_API_KEY && !process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
-            throw new Error("GEMINI_API_KEY environment variable not set. Please add it to your .env.local file.");
-        }
-        const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
-        ai = new GoogleGenAI({ apiKey });
-    }
-    return ai;
-}
-
 // Get all product codes from the catalogue for fuzzy matching
 const getCatalogueProductCodes = (): string[] => {
     const config = loadConfig();
@@ -495,47 +481,37 @@ const attemptParse = async (content: ParseContent, attempt: number): Promise<Par
     const fileParts = content.filter((part): part is { mimeType: string; data: string; } => typeof part !== 'string');
 
     const combinedText = textParts.join('\n\n---\n\n');
-    const requestContentParts: ({ text: string } | { inlineData: { mimeType: string; data: string; } })[] = [];
+    const requestContentParts: AIInput[] = [];
 
     // More flexible prompt on retry
     const enhancedPromptText = attempt > 1
         ? `${promptText}\n\nATTEMPT ${attempt}: Be VERY flexible. Include anything that looks like furniture or equipment. Extract partial codes, descriptions, anything with quantities.`
         : promptText;
 
-    requestContentParts.push({ text: enhancedPromptText });
+    requestContentParts.push({ type: 'text', text: enhancedPromptText });
 
     if (combinedText.trim()) {
-        requestContentParts.push({ text: combinedText });
+        requestContentParts.push({ type: 'text', text: combinedText });
     }
 
     fileParts.forEach(part => {
-        requestContentParts.push({ inlineData: { mimeType: part.mimeType, data: part.data } });
+        requestContentParts.push({ type: 'file', mimeType: part.mimeType, data: part.data });
     });
 
     if (requestContentParts.length <= 1) {
         throw new Error("No content was provided to parse.");
     }
 
-    const contents = {
-        parts: requestContentParts
-    };
-
-    const response = await getAI().models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: contents,
-        config: {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: responseSchema,
-            temperature: attempt > 1 ? 0.5 : 0.3, // Higher temperature on retry
-            topP: attempt > 1 ? 0.95 : 0.9,
-            topK: 40,
-        },
+    const { data: parsedData } = await extractJSON<Partial<ParseResult>>({
+        task: 'smartquote.parse-enhanced',
+        systemInstruction,
+        inputs: requestContentParts,
+        schema: responseSchema,
+        temperature: attempt > 1 ? 0.5 : 0.3, // Higher temperature on retry
+        topP: attempt > 1 ? 0.95 : 0.9,
+        topK: 40,
     });
 
-    const jsonText = response.text?.trim() || '';
-    const parsedData = JSON.parse(jsonText) as Partial<ParseResult>;
-
     const result: ParseResult = {
         products: [],
         details: {}
@@ -67,6 +67,14 @@ export const generateXlsx = (quoteDetails: QuoteDetails, products: CalculatedPro
         ['Additional Fitter Cost', `£${pricing.fitterCost.toFixed(2)}`],
         ['Supervisor Cost', `£${pricing.supervisorCost.toFixed(2)}`],
         ['Specialist Reworking', `£${pricing.reworkingCost.toFixed(2)}`],
+        ['Parking', `£${pricing.parkingCost.toFixed(2)}`],
+        ['Transport Vehicles', `£${pricing.transportCost.toFixed(2)}`],
+        ['Mileage', `£${(pricing.mileageCost || 0).toFixed(2)}`],
+        ['ULEZ / Congestion / CAZ', `£${(pricing.clearZoneCost || 0).toFixed(2)}`],
+        ...(pricing.adjustments || []).map(adjustment => [
+            `${adjustment.label} (${adjustment.percentOfSubtotal.toFixed(1)}%)`,
+            `${adjustment.amount < 0 ? '-' : ''}£${Math.abs(adjustment.amount).toFixed(2)}`
+        ]),
         ['TOTAL QUOTE PRICE', `£${pricing.totalCost.toFixed(2)}`],
         ['', ''],
         ['LABOUR SUMMARY', ''],
@@ -1,21 +1,7 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-
+import { extractJSON, Type, type AIInput } from '../../../lib/ai';
 import { ParseResult, ParseContent, ParsedProduct } from '../types';
 
-let ai: GoogleGenAI | null = null;
-
-function getAI(): GoogleGenAI {
-    if (!ai) {
-        if (!process.env.GEMINI_API_KEY && !process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
-            throw new Error("GEMINI_API_KEY environment variable not set. Please add it to your .env.local file.");
-        }
-        const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
-        ai = new GoogleGenAI({ apiKey });
-    }
-    return ai;
-}
-
 /**
  * JSON schema defining the structure of the AI's response
  * This ensures consistent parsing results from Google Gemini AI
@@ -271,7 +257,7 @@ const attemptParse = async (content: ParseContent, attempt: number): Promise<Par
     // Combine all text-based content into a single string for the model
     const combinedText = textParts.join('\n\n---\n\n');
 
-    const requestContentParts: ({ text: string } | { inlineData: { mimeType: string; data: string; } })[] = [];
+    const requestContentParts: AIInput[] = [];
 
     // Enhance prompt on retry attempts
     const enhancedPromptText = attempt > 1
@@ -279,16 +265,16 @@ const attemptParse = async (content: ParseContent, attempt: number): Promise<Par
         : promptText;
 
     // Add the prompt
-    requestContentParts.push({ text: enhancedPromptText });
+    requestContentParts.push({ type: 'text', text: enhancedPromptText });
 
     // Add the combined text if there is any
     if (combinedText.trim()) {
-        requestContentParts.push({ text: combinedText });
+        requestContentParts.push({ type: 'text', text: combinedText });
     }
 
     // Add any non-text (image) parts
     fileParts.forEach(part => {
-         requestContentParts.push({ inlineData: { mimeType: part.mimeType, data: part.data } });
+         requestContentParts.push({ type: 'file', mimeType: part.mimeType, data: part.data });
     });
 
     // The model expects content to parse
@@ -296,26 +282,16 @@ const attemptParse = async (content: ParseContent, attempt: number): Promise<Par
         throw new Error("No content was provided to parse.");
     }
 
-    const contents = {
-         parts: requestContentParts
-    };
-
-    const response = await getAI().models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: contents,
-        config: {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: responseSchema,
-            temperature: 0.3, // Increased from 0.1 for more flexibility
-            topP: 0.9, // Increased from 0.8 for more creativity
-            topK: 40, // Increased from 20 for better pattern recognition
-        },
+    const { data: parsedData } = await extractJSON<Partial<ParseResult>>({
+        task: 'smartquote.parse',
+        systemInstruction,
+        inputs: requestContentParts,
+        schema: responseSchema,
+        temperature: 0.3, // Increased from 0.1 for more flexibility
+        topP: 0.9, // Increased from 0.8 for more creativity
+        topK: 40, // Increased from 20 for better pattern recognition
     });
 
-    const jsonText = response.text?.trim() || '';
-    const parsedData = JSON.parse(jsonText) as Partial<ParseResult>;
-
     // Basic validation and providing defaults
     const result: ParseResult = {
         products: [],
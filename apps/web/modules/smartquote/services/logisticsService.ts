@@ -0,0 +1,87 @@
+import { ChargingZone, LogisticsConfig } from '../types';
+
+const UK_POSTCODE_REGEX = /\b([A-Z]{1,2}\d[A-Z\d]?)\s?(\d[A-Z]{2})\b/i;
+
+export interface JourneyEstimate {
+    totalDistance: number;
+    totalTravelTime: number;
+    warnings: string[];
+    /** Legs the lookup could not measure; totalDistance then covers only part of the trip */
+    missingLegs: string[];
+}
+
+/**
+ * Pulls the last UK postcode out of a free-text address.
+ * Returns it normalised to "OUTWARD INWARD" form, or null if none is found.
+ */
+export const extractPostcode = (address: string | undefined | null): string | null => {
+    if (!address) return null;
+
+    const lines = address.split(/[\n,]/).map(line => line.trim()).filter(Boolean);
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const match = lines[i].match(UK_POSTCODE_REGEX);
+        if (match) {
+            return `${match[1]} ${match[2]}`.toUpperCase();
+        }
+    }
+    return null;
+};
+
+/**
+ * Reduces a postcode to its district, dropping any sub-district letter
+ * so that "EC1A 1BB" and "EC1V 2NX" both resolve to "EC1".
+ */
+export const getPostcodeDistrict = (postcode: string): string => {
+    const outward = postcode.toUpperCase().trim().split(/\s+/)[0].replace(/(\d[A-Z\d]?)\d[A-Z]{2}$/, '$1');
+    return /^[A-Z]{1,2}\d[A-Z]$/.test(outward) ? outward.slice(0, -1) : outward;
+};
+
+/**
+ * Returns every active charging zone that covers the given postcode.
+ * Zone entries may list a full district ("SE1") or a whole area ("EC").
+ */
+export const findChargingZones = (postcode: string | null, zones: ChargingZone[]): ChargingZone[] => {
+    if (!postcode) return [];
+
+    const district = getPostcodeDistrict(postcode);
+    const area = district.replace(/\d.*$/, '');
+
+    return zones.filter(zone =>
+        zone.isActive && zone.postcodeDistricts.some(entry => {
+            const normalised = entry.toUpperCase().trim();
+            return normalised === district || (/^[A-Z]{1,2}$/.test(normalised) && normalised === area);
+        })
+    );
+};
+
+/**
+ * Asks the logistics API for the round-trip distance from the depot to the site,
+ * via the collection point when one is given.
+ */
+export const fetchJourneyMiles = async (
+    sitePostcode: string,
+    logistics: LogisticsConfig,
+    collectionPostcode?: string | null
+): Promise<JourneyEstimate> => {
+    const response = await fetch('/api/clients/calculate-logistics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            sitePostcode,
+            collectionPostcode: collectionPostcode || undefined,
+            depotPostcode: logistics.depotPostcode
+        })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Logistics lookup failed (${response.status})`);
+    }
+
+    const data = await response.json();
+    return {
+        totalDistance: data.totalDistance ?? 0,
+        totalTravelTime: data.totalTravelTime ?? 0,
+        warnings: data.warnings ?? [],
+        missingLegs: data.missingLegs ?? []
+    };
+};
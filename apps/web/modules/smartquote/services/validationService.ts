@@ -91,6 +91,10 @@ export function validateQuoteDetails(details: QuoteDetails): ValidationError[] {
     }
   }
 
+  if (details.proposedStartDate && isNaN(new Date(details.proposedStartDate).getTime())) {
+    errors.push({ field: 'proposedStartDate', message: 'Proposed start date is not a valid date' });
+  }
+
   return errors;
 }
 
@@ -0,0 +1,200 @@
+import { BankHolidayRegion, OutOfHoursDayType, WorkCalendarDay, WorkingPattern } from '../types';
+
+export interface BankHoliday {
+    date: string; // YYYY-MM-DD
+    name: string;
+}
+
+const DAY_MS = 86400000;
+
+const utcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+const toISODate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const isWeekend = (date: Date): boolean => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+/**
+ * Easter Sunday for a Gregorian year (anonymous Gregorian algorithm).
+ */
+export const easterSunday = (year: number): Date => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return utcDate(year, month, day);
+};
+
+/** The nth (1-based) Monday of a month, or the last when n is -1 */
+const monday = (year: number, month: number, n: number): Date => {
+    if (n === -1) {
+        const last = utcDate(year, month + 1, 0);
+        return addDays(last, -((last.getUTCDay() + 6) % 7));
+    }
+    const first = utcDate(year, month, 1);
+    return addDays(first, ((8 - first.getUTCDay()) % 7) + (n - 1) * 7);
+};
+
+/**
+ * Fixed-date holidays that fall on a weekend move to the next weekday not
+ * already a holiday, the way the UK proclaims substitute days: Christmas on a
+ * Sunday keeps Boxing Day on the Monday and moves Christmas to the Tuesday.
+ */
+const withSubstitutes = (fixed: Array<{ date: Date; name: string }>): BankHoliday[] => {
+    const taken = new Set(fixed.filter(holiday => !isWeekend(holiday.date)).map(holiday => toISODate(holiday.date)));
+
+    return fixed.map(holiday => {
+        if (!isWeekend(holiday.date)) return { date: toISODate(holiday.date), name: holiday.name };
+
+        let date = holiday.date;
+        while (isWeekend(date) || taken.has(toISODate(date))) date = addDays(date, 1);
+        taken.add(toISODate(date));
+        return { date: toISODate(date), name: `${holiday.name} (substitute day)` };
+    });
+};
+
+/**
+ * A region's bank holidays for one year, from the rules in the Banking and
+ * Financial Dealings Act 1971. One-off holidays proclaimed for royal events
+ * are not included.
+ */
+export const getBankHolidays = (year: number, region: BankHolidayRegion): BankHoliday[] => {
+    const easter = easterSunday(year);
+    const christmas = [
+        { date: utcDate(year, 12, 25), name: 'Christmas Day' },
+        { date: utcDate(year, 12, 26), name: 'Boxing Day' },
+    ];
+
+    const holidays: BankHoliday[] = [
+        { date: toISODate(addDays(easter, -2)), name: 'Good Friday' },
+        { date: toISODate(monday(year, 5, 1)), name: 'Early May bank holiday' },
+        { date: toISODate(monday(year, 5, -1)), name: 'Spring bank holiday' },
+    ];
+
+    if (region === 'scotland') {
+        holidays.push(
+            ...withSubstitutes([
+                { date: utcDate(year, 1, 1), name: "New Year's Day" },
+                { date: utcDate(year, 1, 2), name: '2nd January' },
+            ]),
+            { date: toISODate(monday(year, 8, 1)), name: 'Summer bank holiday' },
+            ...withSubstitutes([{ date: utcDate(year, 11, 30), name: "St Andrew's Day" }]),
+            ...withSubstitutes(christmas)
+        );
+    } else {
+        holidays.push(
+            ...withSubstitutes([{ date: utcDate(year, 1, 1), name: "New Year's Day" }]),
+            { date: toISODate(addDays(easter, 1)), name: 'Easter Monday' },
+            { date: toISODate(monday(year, 8, -1)), name: 'Summer bank holiday' },
+            ...withSubstitutes(christmas)
+        );
+    }
+
+    if (region === 'northern-ireland') {
+        holidays.push(
+            ...withSubstitutes([{ date: utcDate(year, 3, 17), name: "St Patrick's Day" }]),
+            ...withSubstitutes([{ date: utcDate(year, 7, 12), name: 'Battle of the Boyne' }])
+        );
+    }
+
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Postcode areas wholly or mostly in Scotland
+const SCOTTISH_POSTCODE_AREAS = ['AB', 'DD', 'DG', 'EH', 'FK', 'G', 'HS', 'IV', 'KA', 'KW', 'KY', 'ML', 'PA', 'PH', 'TD', 'ZE'];
+
+/**
+ * Picks the bank-holiday region for a site postcode, defaulting to England & Wales.
+ */
+export const getBankHolidayRegion = (postcode: string | null): BankHolidayRegion => {
+    const area = (postcode || '').toUpperCase().trim().match(/^[A-Z]{1,2}/)?.[0];
+    if (!area) return 'england-and-wales';
+    if (area === 'BT') return 'northern-ireland';
+    if (SCOTTISH_POSTCODE_AREAS.includes(area)) return 'scotland';
+    return 'england-and-wales';
+};
+
+const classifyDay = (dayOfWeek: number, isBankHoliday: boolean, pattern: WorkingPattern): OutOfHoursDayType | null => {
+    const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+
+    switch (pattern) {
+        case 'weekdays':
+            return isWeekend || isBankHoliday ? null : 'standard';
+        case 'weekday_evenings':
+            return isWeekend || isBankHoliday ? null : 'weekday_evening';
+        case 'weekdays_and_saturday':
+            if (dayOfWeek === 0) return null;
+            break;
+        case 'weekends_only':
+            if (!isWeekend) return null;
+            break;
+        case 'seven_days':
+            break;
+    }
+
+    if (isBankHoliday || dayOfWeek === 0) return 'sunday_bank_holiday';
+    if (dayOfWeek === 6) return 'saturday';
+    return 'standard';
+};
+
+/**
+ * Lays the project's working days out from the proposed start date.
+ * Non-working days under the pattern are skipped, so the calendar always holds
+ * `totalDays` worth of work; a fractional final day is recorded as partial.
+ * Weekday-only patterns don't work bank holidays; patterns that include weekends
+ * work them at the Sunday / bank-holiday rate.
+ */
+export const buildWorkCalendar = (
+    startDate: string,
+    totalDays: number,
+    pattern: WorkingPattern,
+    region: BankHolidayRegion
+): WorkCalendarDay[] => {
+    const start = new Date(`${startDate}T00:00:00Z`);
+    if (isNaN(start.getTime()) || totalDays <= 0) return [];
+
+    const holidays = new Map<string, string>();
+    const yearsLoaded = new Set<number>();
+    const calendar: WorkCalendarDay[] = [];
+    let remaining = totalDays;
+
+    // Hard stop after two years so a bad pattern can never loop forever
+    for (let offset = 0; remaining > 0 && offset < 730; offset++) {
+        const date = addDays(start, offset);
+        const year = date.getUTCFullYear();
+        if (!yearsLoaded.has(year)) {
+            getBankHolidays(year, region).forEach(holiday => holidays.set(holiday.date, holiday.name));
+            yearsLoaded.add(year);
+        }
+        const isoDate = toISODate(date);
+        const bankHoliday = holidays.get(isoDate);
+        const dayType = classifyDay(date.getUTCDay(), Boolean(bankHoliday), pattern);
+        if (!dayType) continue;
+
+        const fraction = Math.min(1, remaining);
+        calendar.push({ date: isoDate, dayType, fraction, bankHoliday });
+        remaining -= fraction;
+    }
+
+    return calendar;
+};
+
+/**
+ * Totals the (possibly fractional) days of each type in a calendar.
+ */
+export const countDaysByType = (calendar: WorkCalendarDay[]): Record<OutOfHoursDayType, number> =>
+    calendar.reduce(
+        (counts, day) => ({ ...counts, [day.dayType]: counts[day.dayType] + day.fraction }),
+        { standard: 0, weekday_evening: 0, saturday: 0, sunday_bank_holiday: 0 } as Record<OutOfHoursDayType, number>
+    );
@@ -31,11 +31,32 @@ export interface QuoteDetails {
     overrideWasteVolumeM3?: number | null;
     dailyParkingCharge?: number | null;
     selectedVehicles?: Record<string, number>; // Vehicle ID -> quantity mapping for transport
+    journeyMiles?: number | null; // Round-trip miles per working day: depot -> (collection) -> site -> depot
     
     // Out-of-hours working options
     outOfHoursWorking?: boolean; // Whether to calculate out-of-hours rates
-    outOfHoursType?: 'weekday_evening' | 'saturday' | 'sunday_bank_holiday'; // Type of out-of-hours work
+    outOfHoursType?: OutOfHoursType; // Type of out-of-hours work (manual entry, used when no start date is set)
     outOfHoursDays?: number | null; // How many days will be out-of-hours (can be partial)
+
+    // Scheduling - when a start date is set, out-of-hours days come from the work calendar
+    proposedStartDate?: string | null; // YYYY-MM-DD
+    workingPattern?: WorkingPattern;
+    bankHolidayRegion?: BankHolidayRegion | null; // Derived from the delivery postcode when not set
+
+    // VAT treatment
+    vatReverseCharge?: boolean; // CIS domestic reverse charge: customer accounts for VAT to HMRC
+}
+
+export type OutOfHoursType = 'weekday_evening' | 'saturday' | 'sunday_bank_holiday';
+export type OutOfHoursDayType = 'standard' | OutOfHoursType;
+export type WorkingPattern = 'weekdays' | 'weekday_evenings' | 'weekdays_and_saturday' | 'weekends_only' | 'seven_days';
+export type BankHolidayRegion = 'england-and-wales' | 'scotland' | 'northern-ireland';
+
+export interface WorkCalendarDay {
+    date: string; // YYYY-MM-DD
+    dayType: OutOfHoursDayType;
+    fraction: number; // 1 for a full day, less for a partial final day
+    bankHoliday?: string; // Bank holiday name, if the day is one
 }
 
 // Represents the raw, unmodified data extracted by the AI
@@ -104,6 +125,24 @@ export interface WasteResults {
     isFlagged: boolean;
 }
 
+// A single itemised adjustment to the quote total (negative = discount, positive = markup)
+export interface PricingAdjustment {
+    ruleId: string;
+    label: string;
+    amount: number;
+    percentOfSubtotal: number;
+}
+
+export interface PricingAdjustmentContext {
+    products: CalculatedProduct[];
+    details: QuoteDetails;
+    subtotal: number; // Quote total before any adjustments
+    evaluationDate: Date;
+}
+
+// Pluggable stage run after pricing; each adjuster sees the pre-adjustment subtotal
+export type PricingAdjuster = (context: PricingAdjustmentContext) => PricingAdjustment[];
+
 export interface PricingResults {
     totalCost: number;
     vanCost: number;
@@ -112,12 +151,48 @@ export interface PricingResults {
     reworkingCost: number;
     parkingCost: number;
     transportCost: number; // Cost of selected vehicles for transport
+    mileageCost: number; // Round-trip mileage for every vehicle, every billable day
+    clearZoneCost: number; // ULEZ / Congestion Charge / Clean Air Zone daily charges
     billableDays: number;
     
     // Out-of-hours surcharges
     outOfHoursSurcharge?: number; // Additional cost for out-of-hours work
-    outOfHoursMultiplier?: number; // Rate multiplier applied (1.5, 2.0, 2.25)
+    outOfHoursMultiplier?: number; // Rate multiplier applied, averaged over out-of-hours days when mixed
     standardCost?: number; // Original cost before out-of-hours markup
+    outOfHoursDayCounts?: Record<OutOfHoursType, number>; // Days of each type, from the calendar or manual entry
+    workCalendar?: WorkCalendarDay[]; // Day-by-day schedule when a start date is set
+
+    // Pricing rule adjustments (discounts/markups) applied after the standard calculation
+    adjustments?: PricingAdjustment[];
+    subtotalBeforeAdjustments?: number;
+}
+
+export interface ProfitabilityLine {
+    label: string;
+    cost: number; // Cost to company
+    sell: number; // Price charged to client
+    margin: number;
+    marginPercent: number;
+}
+
+// How a margin percentage reads against the thresholds in calculationService
+export type MarginRating = 'low' | 'fair' | 'healthy';
+
+export interface ProfitabilityResults {
+    lines: ProfitabilityLine[];
+    directCost: number;
+    overheadRecoveryPercent: number;
+    overheadRecovery: number; // Overhead recovered on top of direct cost
+    sellExVat: number;
+    grossMargin: number; // Sell less direct cost
+    grossMarginPercent: number;
+    netMargin: number; // Sell less direct cost and overhead recovery
+    netMarginPercent: number;
+    vatRatePercent: number;
+    isReverseCharge: boolean;
+    vatAmount: number; // VAT charged on the invoice (0 under reverse charge)
+    reverseChargeVatAmount: number; // VAT the customer self-accounts for under reverse charge
+    totalIncVat: number;
 }
 
 export interface CalculationResults {
@@ -125,6 +200,7 @@ export interface CalculationResults {
     crew: CrewResults;
     waste: WasteResults;
     pricing: PricingResults;
+    profitability?: ProfitabilityResults; // Internal only - absent on quotes saved before margin reporting
     detailedProducts: CalculatedProduct[];
     notes: {
         parking: string;
@@ -201,13 +277,50 @@ export interface Vehicle {
     costPerDay: number;
     euroPalletCapacity: number; // How many Euro pallets (1200mm x 800mm) it can carry
     standardPalletCapacity: number; // How many Standard pallets (1200mm x 1000mm) it can carry
+    pencePerMile?: number; // Running cost charged per mile travelled
+    costToCompanyPerDay?: number; // Hire/running cost to us; defaults to costPerDay (no margin)
     isActive: boolean;
 }
 
+export type ChargingZoneType = 'ulez' | 'congestion' | 'clean_air';
+
+export interface ChargingZone {
+    id: string;
+    name: string;
+    type: ChargingZoneType;
+    dailyCharge: number; // Charge per vehicle per day spent inside the zone
+    // Outward-code districts inside the zone (e.g. 'SE1', 'EC1'). A bare postcode
+    // area (e.g. 'EC') covers every district in that area.
+    postcodeDistricts: string[];
+    isActive: boolean;
+}
+
+export interface LogisticsConfig {
+    depotPostcode: string;
+    oneManVanPencePerMile: number;
+    twoManVanPencePerMile: number;
+    chargingZones: ChargingZone[];
+}
+
+export interface OutOfHoursConfig {
+    // Labour rate multipliers by day type (1.5 = time and a half)
+    weekdayEveningMultiplier: number;
+    saturdayMultiplier: number;
+    sundayBankHolidayMultiplier: number;
+}
+
+export interface FinancialConfig {
+    overheadRecoveryPercent: number; // Applied to direct cost
+    vatRatePercent: number;
+}
+
 export interface AppConfig {
     pricing: PricingConfig;
     laborCosts: LaborCostConfig;
     rules: RulesConfig;
     productCatalogue: Record<string, ProductReference>;
     vehicles: Record<string, Vehicle>; // Vehicle fleet configuration
+    logistics: LogisticsConfig;
+    financials: FinancialConfig;
+    outOfHours: OutOfHoursConfig;
 }
\ No newline at end of file
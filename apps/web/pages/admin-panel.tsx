@@ -225,6 +225,32 @@ export default function AdminPanelPage() {
         }
     };
 
+    const handleFinancialsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!localConfig) return;
+
+        const { name, value } = e.target;
+        setLocalConfig(prev => ({
+            ...prev!,
+            financials: {
+                ...prev!.financials,
+                [name]: parseFloat(value) || 0
+            }
+        }));
+    };
+
+    const handleOutOfHoursChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!localConfig) return;
+
+        const { name, value } = e.target;
+        setLocalConfig(prev => ({
+            ...prev!,
+            outOfHours: {
+                ...prev!.outOfHours,
+                [name]: parseFloat(value) || 1
+            }
+        }));
+    };
+
     const handleSave = () => {
         if (!localConfig) return;
         
@@ -397,6 +423,55 @@ export default function AdminPanelPage() {
                             step="0.001"
                         />
                     </div>
+                    <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(300px, 1fr))", gap: 20 }}>
+                        <InputField 
+                            label="Overhead Recovery (%)" 
+                            name="overheadRecoveryPercent" 
+                            value={localConfig.financials.overheadRecoveryPercent} 
+                            onChange={handleFinancialsChange}
+                            icon={<span style={{ fontSize: 16 }}>📊</span>}
+                            description="Added to direct cost when reporting net margin"
+                            step="0.5"
+                        />
+                        <InputField 
+                            label="VAT Rate (%)" 
+                            name="vatRatePercent" 
+                            value={localConfig.financials.vatRatePercent} 
+                            onChange={handleFinancialsChange}
+                            icon={<span style={{ fontSize: 16 }}>🧾</span>}
+                            description="Standard rate; reverse-charge quotes show it as customer-accounted"
+                            step="0.5"
+                        />
+                    </div>
+                    <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(300px, 1fr))", gap: 20 }}>
+                        <InputField 
+                            label="Weekday Evening Multiplier" 
+                            name="weekdayEveningMultiplier" 
+                            value={localConfig.outOfHours.weekdayEveningMultiplier} 
+                            onChange={handleOutOfHoursChange}
+                            icon={<span style={{ fontSize: 16 }}>🌙</span>}
+                            description="Labour rate multiplier for evening shifts (1.5 = 150%)"
+                            step="0.05"
+                        />
+                        <InputField 
+                            label="Saturday Multiplier" 
+                            name="saturdayMultiplier" 
+                            value={localConfig.outOfHours.saturdayMultiplier} 
+                            onChange={handleOutOfHoursChange}
+                            icon={<span style={{ fontSize: 16 }}>📅</span>}
+                            description="Labour rate multiplier for Saturday working"
+                            step="0.05"
+                        />
+                        <InputField 
+                            label="Sunday / Bank Holiday Multiplier" 
+                            name="sundayBankHolidayMultiplier" 
+                            value={localConfig.outOfHours.sundayBankHolidayMultiplier} 
+                            onChange={handleOutOfHoursChange}
+                            icon={<span style={{ fontSize: 16 }}>🏖️</span>}
+                            description="Labour rate multiplier for Sundays and UK bank holidays"
+                            step="0.05"
+                        />
+                    </div>
                 </Section>
 
                 <Section title="Task Banner Settings" description="Control the scrolling LED highway at the top of your screen. Set global defaults for all users." accent={false}>
@@ -0,0 +1,42 @@
+// API Route: Run an AI extraction on the server for browser callers
+// Used when AI_PROVIDER=openai, whose key is server-only. Usage is recorded by
+// the calling page's extractJSON, so this only relays the provider's answer.
+// Only the app's own tasks are run, always on the configured model.
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { EXTRACTION_TASKS, getAIProvider, type ExtractionRequest } from '@/lib/ai';
+import { configuredModel } from '@/lib/ai/config';
+import { requireAuth } from '@/lib/apiAuth';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '20mb' } }, // Room for a scanned PDF as base64
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const request = (req.body ?? {}) as ExtractionRequest;
+  if (typeof request.task !== 'string' || !Array.isArray(request.inputs) || request.inputs.length === 0) {
+    return res.status(400).json({ error: 'task and inputs are required' });
+  }
+  if (!(EXTRACTION_TASKS as readonly string[]).includes(request.task)) {
+    return res.status(400).json({ error: `Unknown extraction task: ${request.task}` });
+  }
+
+  try {
+    const provider = await getAIProvider();
+    const result = await provider.generate({ ...request, model: configuredModel() });
+    return res.status(200).json({ success: true, data: result });
+  } catch (error: unknown) {
+    console.error('Error in /api/ai/extract:', error);
+    return res.status(500).json({
+      error: 'AI extraction failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,51 @@
+// API Route: iCalendar feed for calendar apps to subscribe to
+// The token in the URL is the only credential, since calendar apps can't sign in;
+// it is created and revoked through /api/calendar/feeds
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { buildFeedCalendar, type FeedToken } from '@/lib/server/calendarFeeds';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { getSiteUrl } from '@/lib/utils/url';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const raw = req.query.token;
+  // Calendar apps like the URL to end in .ics
+  const token = typeof raw === 'string' ? raw.replace(/\.ics$/i, '') : '';
+  if (!token) {
+    return res.status(404).json({ error: 'Calendar not found' });
+  }
+
+  try {
+    const { data: feed, error } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('id, scope, resource_id, job_id')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const calendar = await buildFeedCalendar(supabaseAdmin, feed as FeedToken, today, getSiteUrl());
+
+    await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="schedule.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.status(200).send(calendar);
+  } catch (error) {
+    console.error('Error in /api/calendar/[token]:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { CALENDAR_FEED_SCOPES, type CalendarFeedScope } from '@/lib/calendarFeeds';
+import { canEdit } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+
+const FEED_COLUMNS = 'id, token, scope, resource_id, job_id, created_at, last_used_at';
+
+/**
+ * GET    - your calendar feeds that haven't been revoked
+ * POST   - create a feed: { scope: resource | job | company, resourceId?, jobId? };
+ *          operatives may only create one for their own shifts
+ * DELETE ?id - revoke one of your feeds; calendars subscribed to it stop updating
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  try {
+    if (req.method === 'GET') {
+      const { data, error } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .select(FEED_COLUMNS)
+        .eq('created_by', user.id)
+        .is('revoked_at', null)
+        .order('created_at');
+
+      if (error) throw error;
+      return res.status(200).json({ success: true, data: data ?? [] });
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ error: 'id is required' });
+      }
+
+      const { error } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('created_by', user.id);
+
+      if (error) throw error;
+      return res.status(200).json({ success: true });
+    }
+
+    const { scope, resourceId, jobId } = req.body as {
+      scope?: CalendarFeedScope;
+      resourceId?: string;
+      jobId?: string;
+    };
+
+    if (!scope || !CALENDAR_FEED_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: `scope must be one of ${CALENDAR_FEED_SCOPES.join(', ')}` });
+    }
+    if (scope === 'resource' && !resourceId) {
+      return res.status(400).json({ error: 'resourceId is required for an operative feed' });
+    }
+    if (scope === 'job' && !jobId) {
+      return res.status(400).json({ error: 'jobId is required for a job feed' });
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (!canEdit(profile?.role)) {
+      if (scope !== 'resource') {
+        return res.status(403).json({ error: `You do not have permission to subscribe to the ${scope} schedule` });
+      }
+
+      const { data: resource, error: resourceError } = await supabaseAdmin
+        .from('labour_resources')
+        .select('user_id')
+        .eq('id', resourceId)
+        .maybeSingle();
+
+      if (resourceError) throw resourceError;
+      if (resource?.user_id !== user.id) {
+        return res.status(403).json({ error: 'You can only subscribe to your own shifts' });
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .insert({
+        token: crypto.randomBytes(24).toString('base64url'),
+        scope,
+        resource_id: scope === 'resource' ? resourceId : null,
+        job_id: scope === 'job' ? jobId : null,
+        created_by: user.id
+      })
+      .select(FEED_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return res.status(201).json({ success: true, data });
+
+  } catch (error: unknown) {
+    console.error('Error handling calendar feeds:', error);
+    return res.status(500).json({
+      error: 'Failed to process calendar feeds',
+      details: (error as Error).message
+    });
+  }
+}
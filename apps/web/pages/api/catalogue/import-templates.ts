@@ -0,0 +1,105 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '../../../lib/apiAuth';
+import { CATALOGUE_FIELDS } from '../../../lib/catalogueImport';
+import { canEdit } from '../../../lib/roles';
+import { supabaseAdmin } from '../../../lib/server/supabaseAdmin';
+
+const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+/** An ilike pattern matching the text exactly, ignoring case */
+const exactly = (text: string) => text.replace(/[%_\\]/g, '\\$&');
+
+/**
+ * GET    ?manufacturer - saved column maps, optionally for one manufacturer
+ * POST   { manufacturer, name, column_map, options } - save a template; an existing
+ *        template with the same manufacturer and name is replaced
+ * DELETE ?id - remove a template
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const user = await requireAuth(req, res);
+    if (!user) return;
+
+    try {
+        if (req.method === 'GET') {
+            let query = supabaseAdmin
+                .from('catalogue_import_templates')
+                .select('*')
+                .order('manufacturer')
+                .order('name');
+            if (typeof req.query.manufacturer === 'string' && req.query.manufacturer) {
+                query = query.ilike('manufacturer', exactly(req.query.manufacturer));
+            }
+
+            const { data, error } = await query;
+            if (error) throw error;
+            return res.status(200).json({ success: true, data: data ?? [] });
+        }
+
+        const { data: profile } = await supabaseAdmin
+            .from('profiles')
+            .select('role')
+            .eq('id', user.id)
+            .maybeSingle();
+
+        if (!canEdit(profile?.role)) {
+            return res.status(403).json({ error: 'You do not have permission to manage import templates' });
+        }
+
+        if (req.method === 'DELETE') {
+            const { id } = req.query;
+            if (typeof id !== 'string' || !id) {
+                return res.status(400).json({ error: 'id is required' });
+            }
+
+            const { error } = await supabaseAdmin.from('catalogue_import_templates').delete().eq('id', id);
+            if (error) throw error;
+            return res.status(200).json({ success: true });
+        }
+
+        const { manufacturer, name, column_map, options } = (req.body ?? {}) as Record<string, unknown>;
+        if (!isText(manufacturer) || !isText(name)) {
+            return res.status(400).json({ error: 'manufacturer and name are required' });
+        }
+        if (!column_map || typeof column_map !== 'object'
+            || !Object.keys(column_map).every(field => (CATALOGUE_FIELDS as readonly string[]).includes(field))) {
+            return res.status(400).json({ error: `column_map may only map ${CATALOGUE_FIELDS.join(', ')}` });
+        }
+        if (options !== undefined && (typeof options !== 'object' || options === null)) {
+            return res.status(400).json({ error: 'options must be an object' });
+        }
+
+        const values = {
+            manufacturer: String(manufacturer).trim(),
+            name: String(name).trim(),
+            column_map,
+            options: options ?? {},
+            updated_at: new Date().toISOString(),
+        };
+
+        // The unique index is on lower-cased names, so look the template up the same way
+        const { data: existing, error: findError } = await supabaseAdmin
+            .from('catalogue_import_templates')
+            .select('id')
+            .ilike('manufacturer', exactly(values.manufacturer))
+            .ilike('name', exactly(values.name))
+            .maybeSingle();
+        if (findError) throw findError;
+
+        const { data, error } = existing
+            ? await supabaseAdmin.from('catalogue_import_templates').update(values).eq('id', existing.id).select().single()
+            : await supabaseAdmin.from('catalogue_import_templates').insert({ ...values, created_by: user.id }).select().single();
+
+        if (error) throw error;
+        return res.status(existing ? 200 : 201).json({ success: true, data });
+    } catch (error: unknown) {
+        console.error('Error in /api/catalogue/import-templates:', error);
+        return res.status(500).json({
+            error: 'Failed to manage import templates',
+            details: (error as Error).message
+        });
+    }
+}
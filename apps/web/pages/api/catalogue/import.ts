@@ -0,0 +1,114 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '../../../lib/apiAuth';
+import {
+    CATALOGUE_FIELDS,
+    DEFAULT_IMPORT_OPTIONS,
+    diffCatalogue,
+    mapRows,
+    summarizeDiff,
+    type ColumnMap,
+    type ImportOptions,
+} from '../../../lib/catalogueImport';
+import { canEdit } from '../../../lib/roles';
+import { applyCatalogueImport, loadCatalogueProducts } from '../../../lib/server/catalogueImport';
+import { supabaseAdmin } from '../../../lib/server/supabaseAdmin';
+
+// Manufacturer lists run to thousands of rows
+export const config = {
+    api: { bodyParser: { sizeLimit: '10mb' } },
+};
+
+/** The options in the body over the defaults, or the first problem with them. */
+function importOptions(raw: unknown): { options: ImportOptions } | { error: string } {
+    const options = { ...DEFAULT_IMPORT_OPTIONS, ...(raw && typeof raw === 'object' ? raw : {}) } as ImportOptions;
+
+    if (!['mm', 'cm', 'm'].includes(options.dimensionUnit)) return { error: 'dimensionUnit must be mm, cm or m' };
+    if (!['hours', 'minutes'].includes(options.installTimeUnit)) return { error: 'installTimeUnit must be hours or minutes' };
+    if (typeof options.defaultInstallTimeHours !== 'number' || !(options.defaultInstallTimeHours >= 0)) {
+        return { error: 'defaultInstallTimeHours must be a number of hours' };
+    }
+    if (typeof options.codePrefix !== 'string') return { error: 'codePrefix must be text' };
+    if (!Number.isInteger(options.variantSuffixSegments) || options.variantSuffixSegments < 0 || options.variantSuffixSegments > 3) {
+        return { error: 'variantSuffixSegments must be 0 to 3' };
+    }
+    if (typeof options.discontinueMissing !== 'boolean') return { error: 'discontinueMissing must be true or false' };
+
+    return { options };
+}
+
+/**
+ * POST - compare a manufacturer list with the catalogue:
+ *        { manufacturer, rows (header row first), columnMap, options?, templateId?, fileName?, apply? }
+ *        Without apply it is a dry run returning the diff; with apply: true the
+ *        diff is written and the import recorded.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const user = await requireAuth(req, res);
+    if (!user) return;
+
+    const { manufacturer, rows, columnMap, templateId, fileName, apply } = (req.body ?? {}) as {
+        manufacturer?: unknown;
+        rows?: unknown;
+        columnMap?: unknown;
+        templateId?: unknown;
+        fileName?: unknown;
+        apply?: unknown;
+    };
+
+    if (typeof manufacturer !== 'string' || !manufacturer.trim()) {
+        return res.status(400).json({ error: 'manufacturer is required' });
+    }
+    if (!Array.isArray(rows) || rows.length < 2 || !rows.every(row => Array.isArray(row))) {
+        return res.status(400).json({ error: 'rows must be a header row followed by at least one product row' });
+    }
+    if (!columnMap || typeof columnMap !== 'object'
+        || !Object.entries(columnMap).every(([field, header]) => (CATALOGUE_FIELDS as readonly string[]).includes(field) && typeof header === 'string')) {
+        return res.status(400).json({ error: `columnMap must map fields (${CATALOGUE_FIELDS.join(', ')}) to column headers` });
+    }
+    const parsed = importOptions(req.body.options);
+    if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+    }
+
+    try {
+        const { data: profile } = await supabaseAdmin
+            .from('profiles')
+            .select('role')
+            .eq('id', user.id)
+            .maybeSingle();
+
+        if (!canEdit(profile?.role)) {
+            return res.status(403).json({ error: 'You do not have permission to import catalogue products' });
+        }
+
+        const maker = manufacturer.trim();
+        const mapped = mapRows(rows as unknown[][], columnMap as ColumnMap, parsed.options, maker);
+        const catalogue = await loadCatalogueProducts(supabaseAdmin);
+        const diff = diffCatalogue(mapped.products, catalogue, maker, parsed.options, mapped.errors);
+
+        if (apply !== true) {
+            return res.status(200).json({ success: true, data: { summary: summarizeDiff(diff), diff } });
+        }
+
+        const result = await applyCatalogueImport(supabaseAdmin, {
+            diff,
+            manufacturer: maker,
+            options: parsed.options,
+            templateId: typeof templateId === 'string' && templateId ? templateId : null,
+            fileName: typeof fileName === 'string' && fileName ? fileName : null,
+            userId: user.id,
+        });
+        return res.status(200).json({ success: true, data: { ...result, diff } });
+    } catch (error: unknown) {
+        console.error('Error in /api/catalogue/import:', error);
+        return res.status(500).json({
+            error: 'Failed to import catalogue',
+            details: (error as Error).message
+        });
+    }
+}
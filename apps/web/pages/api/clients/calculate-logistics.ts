@@ -22,6 +22,7 @@ interface LogisticsResult {
     congestionCharges: number;
     route: RouteSegment[];
     warnings: string[];
+    missingLegs: string[]; // Legs with no distance, so totalDistance covers only part of the route
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -32,19 +33,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     try {
-        const { sitePostcode, collectionPostcode, clientId } = req.body;
+        const { sitePostcode, collectionPostcode, clientId, depotPostcode } = req.body;
 
         if (!sitePostcode) {
             return res.status(400).json({ error: 'Site postcode is required' });
         }
 
-        const bhitBase = 'SE1 4AA'; // BHIT base location
+        const bhitBase = depotPostcode || 'SE1 4AA'; // Depot from SmartQuote logistics config, else BHIT base
         const route: RouteSegment[] = [];
         let totalDistance = 0;
         let totalTravelTime = 0;
         let ulezCharges = 0;
         let congestionCharges = 0;
         const warnings: string[] = [];
+        const missingLegs: string[] = [];
 
         // Helper function to calculate distance between two postcodes
         const calculateDistance = async (from: string, to: string, fromLabel: string, toLabel: string) => {
@@ -55,6 +57,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
             if (error || !data || data.length === 0) {
                 warnings.push(`Could not calculate distance from ${fromLabel} to ${toLabel}`);
+                missingLegs.push(`${fromLabel} to ${toLabel}`);
                 return null;
             }
 
@@ -147,6 +150,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             congestionCharges,
             route,
             warnings,
+            missingLegs,
             estimatedFuelCost: Math.round(estimatedFuelCost * 100) / 100
         };
 
@@ -0,0 +1,172 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { ALERT_RULE_METRICS, ALERT_SEVERITIES, type AlertRuleMetric, type AlertSeverity } from '@/lib/alertRules';
+import { canEdit } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+
+const ALERT_TYPES = [
+  'schedule_delay', 'budget_overrun', 'safety_incident', 'quality_issue',
+  'weather_delay', 'material_shortage', 'equipment_failure', 'milestone_at_risk',
+];
+
+type RuleFields = Record<string, string | number | boolean | null>;
+
+const isWholeNumber = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+/** The editable fields present in the body, or the first problem with them. */
+function ruleFields(body: Record<string, unknown>): { values: RuleFields } | { error: string } {
+  const values: RuleFields = {};
+  const has = (key: string) => body[key] !== undefined;
+
+  if (has('name')) {
+    if (!isText(body.name)) return { error: 'name is required' };
+    values.name = String(body.name).trim();
+  }
+  if (has('metric')) {
+    if (!ALERT_RULE_METRICS.includes(body.metric as AlertRuleMetric)) {
+      return { error: `metric must be one of ${ALERT_RULE_METRICS.join(', ')}` };
+    }
+    values.metric = body.metric as string;
+  }
+  if (has('threshold')) {
+    if (typeof body.threshold !== 'number' || !Number.isFinite(body.threshold)) return { error: 'threshold must be a number' };
+    values.threshold = body.threshold;
+  }
+  if (has('window_days')) {
+    if (!isWholeNumber(body.window_days, 1)) return { error: 'window_days must be a whole number of at least 1' };
+    values.window_days = body.window_days as number;
+  }
+  if (has('alert_type')) {
+    if (!ALERT_TYPES.includes(body.alert_type as string)) return { error: `alert_type must be one of ${ALERT_TYPES.join(', ')}` };
+    values.alert_type = body.alert_type as string;
+  }
+  if (has('severity')) {
+    if (!ALERT_SEVERITIES.includes(body.severity as AlertSeverity)) {
+      return { error: `severity must be one of ${ALERT_SEVERITIES.join(', ')}` };
+    }
+    values.severity = body.severity as string;
+  }
+  if (has('escalate_severity')) {
+    if (body.escalate_severity !== null && !ALERT_SEVERITIES.includes(body.escalate_severity as AlertSeverity)) {
+      return { error: `escalate_severity must be null or one of ${ALERT_SEVERITIES.join(', ')}` };
+    }
+    values.escalate_severity = body.escalate_severity as string | null;
+  }
+  if (has('assignee_role')) {
+    if (!isText(body.assignee_role)) return { error: 'assignee_role is required' };
+    values.assignee_role = String(body.assignee_role).trim();
+  }
+  if (has('escalate_role')) {
+    if (body.escalate_role !== null && !isText(body.escalate_role)) return { error: 'escalate_role must be a role or null' };
+    values.escalate_role = body.escalate_role === null ? null : String(body.escalate_role).trim();
+  }
+  if (has('due_in_days')) {
+    if (!isWholeNumber(body.due_in_days, 0)) return { error: 'due_in_days must be a whole number of days' };
+    values.due_in_days = body.due_in_days as number;
+  }
+  if (has('escalate_after_hours')) {
+    if (body.escalate_after_hours !== null && !isWholeNumber(body.escalate_after_hours, 1)) {
+      return { error: 'escalate_after_hours must be a whole number of hours or null' };
+    }
+    values.escalate_after_hours = body.escalate_after_hours as number | null;
+  }
+  if (has('is_active')) {
+    if (typeof body.is_active !== 'boolean') return { error: 'is_active must be true or false' };
+    values.is_active = body.is_active;
+  }
+
+  return { values };
+}
+
+/**
+ * GET   - every alert rule
+ * POST  - add a rule: code, name, metric, threshold and alert_type are required
+ * PATCH - change a rule's settings: { id, ...fields }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  try {
+    if (req.method === 'GET') {
+      const { data, error } = await supabaseAdmin
+        .from('construction_alert_rules')
+        .select('*')
+        .order('metric')
+        .order('code');
+
+      if (error) throw error;
+      return res.status(200).json({ success: true, data: data ?? [] });
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (!canEdit(profile?.role)) {
+      return res.status(403).json({ error: 'You do not have permission to manage alert rules' });
+    }
+
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const parsed = ruleFields(body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    if (req.method === 'POST') {
+      if (!isText(body.code)) {
+        return res.status(400).json({ error: 'code is required' });
+      }
+      const missing = ['name', 'metric', 'threshold', 'alert_type'].filter(key => parsed.values[key] === undefined);
+      if (missing.length > 0) {
+        return res.status(400).json({ error: `${missing.join(', ')} required` });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('construction_alert_rules')
+        .insert({ ...parsed.values, code: String(body.code).trim() })
+        .select()
+        .single();
+
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: 'A rule with that code already exists' });
+      }
+      if (error) throw error;
+      return res.status(201).json({ success: true, data });
+    }
+
+    if (!isText(body.id)) {
+      return res.status(400).json({ error: 'id is required' });
+    }
+    if (parsed.values.metric !== undefined) {
+      return res.status(400).json({ error: 'A rule\'s metric cannot be changed; add a new rule instead' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('construction_alert_rules')
+      .update(parsed.values)
+      .eq('id', body.id as string)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    return res.status(200).json({ success: true, data });
+  } catch (error: unknown) {
+    console.error('Error in /api/construction/alert-rules:', error);
+    return res.status(500).json({
+      error: 'Failed to manage alert rules',
+      details: (error as Error).message
+    });
+  }
+}
@@ -0,0 +1,24 @@
+// API Route: Run the construction alert rules over every live job
+// Called on a schedule (e.g. hourly) with Authorization: Bearer <CRON_SECRET>
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireCronSecret } from '@/lib/apiAuth';
+import { runConstructionAlertRules } from '@/lib/server/alertEngine';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    const summary = await runConstructionAlertRules(supabaseAdmin, new Date());
+
+    return res.status(200).json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in /api/cron/construction-alerts:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
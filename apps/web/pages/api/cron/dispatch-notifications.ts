@@ -0,0 +1,31 @@
+// API Route: Drain the SmartQuote v3 notification outbox
+// Called on a schedule (e.g. every minute) with Authorization: Bearer <CRON_SECRET>
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireCronSecret } from '@/lib/apiAuth';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createChannelAdapters } from '@/modules/smartquote-v3/services/notificationChannels';
+import { notificationOutboxService } from '@/modules/smartquote-v3/services/notificationOutboxService';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    const adapters = createChannelAdapters(process.env, {
+      // Browsers drop subscriptions when the user revokes permission
+      onExpiredSubscription: (endpoint) => notificationOutboxService.deactivatePushSubscription(supabaseAdmin, endpoint),
+    });
+
+    const batchSize = Math.min(200, parseInt(String(req.query.batchSize || '50'), 10) || 50);
+    const summary = await notificationOutboxService.processOutbox(supabaseAdmin, adapters, { batchSize });
+
+    return res.status(200).json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in /api/cron/dispatch-notifications:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,24 @@
+// API Route: Escalate SmartQuote v3 approval steps that are past their SLA
+// Called on a schedule (e.g. every 15 minutes) with Authorization: Bearer <CRON_SECRET>
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireCronSecret } from '@/lib/apiAuth';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { approvalWorkflowService } from '@/modules/smartquote-v3/services/approvalWorkflowService';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    const summary = await approvalWorkflowService.escalateOverdueSteps(supabaseAdmin);
+
+    return res.status(200).json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in /api/cron/escalate-approvals:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,52 @@
+// API Route: Ingest POD emails delivered to a local maildir (POD_MAILDIR)
+// Called on a schedule (e.g. every 5 minutes) with Authorization: Bearer <CRON_SECRET>
+// Processed messages move from new/ to cur/; failures stay in new/ and are retried.
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireCronSecret } from '@/lib/apiAuth';
+import { EmailIngestionService } from '@/lib/pod/email-ingestion.service';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireCronSecret(req, res)) return;
+
+  const maildir = process.env.POD_MAILDIR;
+  if (!maildir) {
+    return res.status(500).json({ error: 'POD_MAILDIR is not configured' });
+  }
+
+  const summary = { messages: 0, podsCreated: 0, duplicates: 0, skipped: 0, errors: 0 };
+
+  try {
+    const limit = Math.min(200, parseInt(String(req.query.limit || '50'), 10) || 50);
+    const entries = (await fs.readdir(path.join(maildir, 'new'))).filter(name => !name.startsWith('.')).sort();
+
+    for (const name of entries.slice(0, limit)) {
+      const source = path.join(maildir, 'new', name);
+      try {
+        const result = await EmailIngestionService.ingest(await fs.readFile(source));
+        summary.messages++;
+        summary.podsCreated += result.created.length;
+        summary.duplicates += result.duplicates.length;
+        summary.skipped += result.skipped.length;
+
+        // Maildir convention: mark as seen on the way to cur/
+        await fs.rename(source, path.join(maildir, 'cur', name.includes(':2,') ? name : `${name}:2,S`));
+      } catch (error) {
+        summary.errors++;
+        console.error(`Failed to ingest maildir message ${name}:`, error);
+      }
+    }
+
+    return res.status(200).json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in /api/cron/ingest-pod-maildir:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,25 @@
+// API Route: Expire stale SmartQuote v3 quotes and raise follow-up call tasks
+// Called on a schedule (e.g. hourly) with Authorization: Bearer <CRON_SECRET>
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireCronSecret } from '@/lib/apiAuth';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { quoteExpiryService } from '@/modules/smartquote-v3/services/quoteExpiryService';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    const batchSize = Math.min(2000, parseInt(String(req.query.batchSize || '500'), 10) || 500);
+    const summary = await quoteExpiryService.runSweep(supabaseAdmin, { batchSize });
+
+    return res.status(200).json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in /api/cron/sweep-quotes:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,25 @@
+// API Route: Raise task banner reminders for operative tickets due to expire
+// Called on a schedule (e.g. daily) with Authorization: Bearer <CRON_SECRET>
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireCronSecret } from '@/lib/apiAuth';
+import { raiseTicketExpiryTasks } from '@/lib/server/competencies';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireCronSecret(req, res)) return;
+
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const summary = await raiseTicketExpiryTasks(supabaseAdmin, today);
+
+    return res.status(200).json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in /api/cron/ticket-expiry:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -15,7 +15,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (error) {
       // If function doesn't exist, try direct query
       const { data: tables, error: tableError } = await supabaseAdmin
-        .from('information_schema.tables')
+        .from('information_schema.tables' as never)
         .select('table_name')
         .eq('table_schema', 'public')
         .in('table_name', ['invoices', 'suppliers', 'invoice_line_items', 'invoice_corrections', 'invoice_approvals']);
@@ -0,0 +1,42 @@
+// apps/web/pages/api/guest/list-snags.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { SNAG_PHOTO_BUCKET, type Snag } from "../../../lib/snags";
+import { supabaseAdmin } from "../../../lib/supabaseAdmin";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+  const { token, pin } = (req.body || {}) as { token?: string; pin?: string };
+  if (!token || !pin) return res.status(400).json({ error: "token and pin required" });
+
+  // Settings gate: guest_enabled
+  const { data: org } = await supabaseAdmin.from("org_settings").select("guest_enabled").eq("id", 1).single();
+  if (!(org as { guest_enabled?: boolean } | null)?.guest_enabled) {
+    return res.status(403).json({ error: "Guest access is disabled" });
+  }
+
+  // Verify token + pin → get job
+  const { data: rows, error: vErr } = await supabaseAdmin.rpc("verify_guest_pin", { token, pin });
+  if (vErr) return res.status(400).json({ error: vErr.message });
+  const job = rows ? (Array.isArray(rows) ? rows[0] : rows) : null;
+  if (!(job as unknown as { id?: string })?.id) return res.status(401).json({ error: "Invalid token or PIN" });
+
+  const { data, error } = await supabaseAdmin
+    .from("snags")
+    .select("id, description, location, category, responsible_party, status, due_date, photo_path, waived_reason, signed_off_by, signed_off_at, created_at")
+    .eq("job_id", (job as unknown as { id: string }).id)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true });
+  if (error) return res.status(500).json({ error: error.message });
+
+  // Sign each photo for short-lived read (10 minutes)
+  const snags = (data || []) as unknown as Snag[];
+  const items = await Promise.all(snags.map(async (snag) => {
+    if (!snag.photo_path) return { ...snag, photo_url: null };
+    const { data: signed } = await supabaseAdmin.storage.from(SNAG_PHOTO_BUCKET).createSignedUrl(snag.photo_path, 600);
+    return { ...snag, photo_url: signed?.signedUrl ?? null };
+  }));
+
+  return res.status(200).json({ items });
+}
@@ -0,0 +1,45 @@
+// apps/web/pages/api/guest/sign-off-snags.ts
+// The client accepts fixed snags from the shared job link; only 'fixed' snags
+// on the token's own job are closed, anything else in snagIds is ignored.
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { supabaseAdmin } from "../../../lib/supabaseAdmin";
+
+type Body = { token?: string; pin?: string; snagIds?: string[]; name?: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+  const { token, pin, snagIds, name } = (req.body || {}) as Body;
+  if (!token || !pin) return res.status(400).json({ error: "token and pin required" });
+  if (!Array.isArray(snagIds) || snagIds.length === 0) return res.status(400).json({ error: "snagIds required" });
+  if (!name || !name.trim()) return res.status(400).json({ error: "name required" });
+
+  // Settings gate: guest_enabled
+  const { data: org } = await supabaseAdmin.from("org_settings").select("guest_enabled").eq("id", 1).single();
+  if (!(org as { guest_enabled?: boolean } | null)?.guest_enabled) {
+    return res.status(403).json({ error: "Guest access is disabled" });
+  }
+
+  // Verify token + pin → get job
+  const { data: rows, error: vErr } = await supabaseAdmin.rpc("verify_guest_pin", { token, pin });
+  if (vErr) return res.status(400).json({ error: vErr.message });
+  const job = rows ? (Array.isArray(rows) ? rows[0] : rows) : null;
+  if (!(job as unknown as { id?: string })?.id) return res.status(401).json({ error: "Invalid token or PIN" });
+
+  const { data, error } = await supabaseAdmin
+    .from("snags")
+    .update({
+      status: "closed",
+      signed_off_by: name.trim().slice(0, 120),
+      signed_off_at: new Date().toISOString(),
+    })
+    .eq("job_id", (job as unknown as { id: string }).id)
+    .eq("status", "fixed")
+    .is("deleted_at", null)
+    .in("id", snagIds)
+    .select("id");
+  if (error) return res.status(500).json({ error: error.message });
+
+  return res.status(200).json({ closed: ((data || []) as Array<{ id: string }>).map((s) => s.id) });
+}
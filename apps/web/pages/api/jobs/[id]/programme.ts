@@ -0,0 +1,89 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '../../../../lib/apiAuth';
+import { programmeCsv, programmeMsProjectXml } from '../../../../lib/programmeExport';
+import { canEdit } from '../../../../lib/roles';
+import { loadJobProgramme } from '../../../../lib/server/programme';
+import { supabaseAdmin } from '../../../../lib/server/supabaseAdmin';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET             - the job's programme: generated tasks laid over its labour allocations
+ * GET ?format=csv - the programme as CSV
+ * GET ?format=xml - the programme as Microsoft Project XML
+ * PATCH           - hold a task back, or release it: { taskId, startNoEarlierThan: YYYY-MM-DD | null }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET' && req.method !== 'PATCH') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { id: jobId, format } = req.query;
+
+    if (!jobId || typeof jobId !== 'string') {
+        return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    const user = await requireAuth(req, res);
+    if (!user) return;
+
+    try {
+        if (req.method === 'PATCH') {
+            const { data: profile } = await supabaseAdmin
+                .from('profiles')
+                .select('role')
+                .eq('id', user.id)
+                .maybeSingle();
+
+            if (!canEdit(profile?.role)) {
+                return res.status(403).json({ error: 'Forbidden' });
+            }
+
+            const { taskId, startNoEarlierThan } = req.body ?? {};
+            if (!taskId || typeof taskId !== 'string') {
+                return res.status(400).json({ error: 'taskId is required' });
+            }
+            if (startNoEarlierThan !== null && !(typeof startNoEarlierThan === 'string' && DATE.test(startNoEarlierThan))) {
+                return res.status(400).json({ error: 'startNoEarlierThan must be YYYY-MM-DD or null' });
+            }
+
+            const { data, error } = await supabaseAdmin
+                .from('generated_tasks')
+                .update({ start_no_earlier_than: startNoEarlierThan, updated_at: new Date().toISOString() })
+                .eq('id', taskId)
+                .eq('job_id', jobId)
+                .select('id')
+                .maybeSingle();
+
+            if (error) throw error;
+            if (!data) return res.status(404).json({ error: 'Task not found' });
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        const result = await loadJobProgramme(supabaseAdmin, jobId, today);
+        if (!result) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+
+        const name = [result.job.reference, result.job.title].filter(Boolean).join(' ') || 'Programme';
+        const filename = `programme-${result.job.reference || jobId}`.replace(/[^A-Za-z0-9._-]+/g, '-');
+
+        if (req.method === 'GET' && format === 'csv') {
+            res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+            return res.status(200).send('\uFEFF' + programmeCsv(result.programme));
+        }
+        if (req.method === 'GET' && format === 'xml') {
+            res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.xml"`);
+            return res.status(200).send(programmeMsProjectXml(result.programme, name));
+        }
+
+        return res.status(200).json({ data: result.programme });
+
+    } catch (error: unknown) {
+        console.error('Programme API error:', error);
+        return res.status(500).json({ error: 'Failed to build programme' });
+    }
+}
@@ -0,0 +1,168 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '../../../../lib/apiAuth';
+import {
+    buildRamsContent,
+    type LabourAllocationRow,
+    type RamsHazard,
+    type RamsRiskFlag,
+} from '../../../../lib/rams';
+import { canEdit } from '../../../../lib/roles';
+import { getCategorizedJobProducts } from '../../../../lib/server/jobProducts';
+import { renderRamsPdf } from '../../../../lib/server/ramsPdf';
+import { supabaseAdmin } from '../../../../lib/server/supabaseAdmin';
+
+const BUCKET = 'job-docs';
+
+/**
+ * GET  - the issued RAMS for a job with its signatures
+ * POST - build and issue the next version from the job's current flags,
+ *        products and labour; earlier versions are superseded once it is saved
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { id: jobId } = req.query;
+
+    if (!jobId || typeof jobId !== 'string') {
+        return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    const user = await requireAuth(req, res);
+    if (!user) return;
+
+    try {
+        if (req.method === 'GET') {
+            const { data: rams, error } = await supabaseAdmin
+                .from('rams_documents')
+                .select('id, version, status, storage_path, created_at, rams_signatures(user_id, signature_name, signed_at)')
+                .eq('job_id', jobId)
+                .eq('status', 'issued')
+                .order('version', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (error) throw error;
+            return res.status(200).json({ data: rams });
+        }
+
+        // Same rule as the rest of job planning: profiles.role, not token metadata
+        const { data: profile } = await supabaseAdmin
+            .from('profiles')
+            .select('role')
+            .eq('id', user.id)
+            .maybeSingle();
+
+        if (!canEdit(profile?.role)) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        const { data: job, error: jobError } = await supabaseAdmin
+            .from('jobs')
+            .select('id, reference, title, client_name')
+            .eq('id', jobId)
+            .single();
+
+        if (jobError || !job) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+
+        const [flagsResult, allocationsResult, libraryResult, latestResult, products] = await Promise.all([
+            supabaseAdmin.from('job_risk_flags').select('code, label, level').eq('job_id', jobId),
+            supabaseAdmin.from('labour_allocations').select('work_date, role, crew_mode, headcount').eq('job_id', jobId),
+            supabaseAdmin.from('rams_hazards').select('*').eq('is_active', true),
+            supabaseAdmin.from('rams_documents').select('version').eq('job_id', jobId)
+                .order('version', { ascending: false }).limit(1).maybeSingle(),
+            getCategorizedJobProducts(supabaseAdmin, jobId),
+        ]);
+
+        for (const result of [flagsResult, allocationsResult, libraryResult, latestResult]) {
+            if (result.error) throw result.error;
+        }
+
+        const version = (latestResult.data?.version ?? 0) + 1;
+        const content = buildRamsContent({
+            job,
+            version,
+            issuedAt: new Date().toISOString(),
+            riskFlags: (flagsResult.data ?? []) as RamsRiskFlag[],
+            products,
+            allocations: (allocationsResult.data ?? []) as LabourAllocationRow[],
+            library: (libraryResult.data ?? []) as RamsHazard[],
+        });
+
+        const pdf = renderRamsPdf(content);
+        const fileName = `RAMS-${job.reference || job.id}-v${version}.pdf`.replace(/[^\w\-.]+/g, '_');
+        const path = `${jobId}/${Date.now()}-${fileName}`;
+
+        const { error: uploadError } = await supabaseAdmin.storage.from(BUCKET).upload(path, pdf, {
+            contentType: 'application/pdf',
+            upsert: false,
+        });
+        if (uploadError) throw uploadError;
+
+        const { data: jobDoc, error: docError } = await supabaseAdmin
+            .from('job_documents')
+            .insert({
+                job_id: jobId,
+                title: `RAMS v${version}`,
+                doc_type: 'RAMS',
+                storage_path: path,
+                file_ext: 'pdf',
+                bytes: pdf.byteLength,
+            })
+            .select('id')
+            .single();
+
+        if (docError) {
+            await supabaseAdmin.storage.from(BUCKET).remove([path]).catch(() => {});
+            throw docError;
+        }
+
+        const { data: rams, error: insertError } = await supabaseAdmin
+            .from('rams_documents')
+            .insert({
+                job_id: jobId,
+                version,
+                status: 'issued',
+                job_document_id: jobDoc.id,
+                storage_path: path,
+                content,
+                created_by: user.id,
+            })
+            .select('id, version, status, storage_path, created_at')
+            .single();
+
+        if (insertError) {
+            // Another issue won the race for this version; leave theirs in place
+            await supabaseAdmin.from('job_documents').delete().eq('id', jobDoc.id);
+            await supabaseAdmin.storage.from(BUCKET).remove([path]).catch(() => {});
+            throw insertError;
+        }
+
+        // The new version is already current; an older one left issued is ignored
+        const { error: supersedeError } = await supabaseAdmin
+            .from('rams_documents')
+            .update({ status: 'superseded' })
+            .eq('job_id', jobId)
+            .eq('status', 'issued')
+            .lt('version', version);
+        if (supersedeError) console.error('Failed to supersede earlier RAMS:', supersedeError);
+
+        return res.status(201).json({
+            data: { ...rams, rams_signatures: [] },
+            summary: {
+                hazards: content.hazards.length,
+                products: content.products.length,
+                workingDays: content.programme.workingDays,
+                peakCrew: content.programme.peakCrew,
+            },
+        });
+
+    } catch (error: unknown) {
+        console.error('RAMS API error:', error);
+        return res.status(500).json({ error: 'Failed to generate RAMS' });
+    }
+}
@@ -0,0 +1,100 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '../../../../lib/apiAuth';
+import { TICKET_TYPES, type TicketType } from '../../../../lib/competencies';
+import { canEdit } from '../../../../lib/roles';
+import { loadJobTicketRequirements } from '../../../../lib/server/competencies';
+import { supabaseAdmin } from '../../../../lib/server/supabaseAdmin';
+
+/**
+ * GET    - tickets the job needs (from its risk flags, products and declarations)
+ *          and the declarations themselves
+ * POST   - declare a ticket: { tickets: TicketType[], enforcement: block | warn, note? }
+ * DELETE ?ticketId - remove a declaration
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { id: jobId } = req.query;
+
+    if (!jobId || typeof jobId !== 'string') {
+        return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    const user = await requireAuth(req, res);
+    if (!user) return;
+
+    try {
+        if (req.method === 'GET') {
+            const [requirements, declared] = await Promise.all([
+                loadJobTicketRequirements(supabaseAdmin, [jobId]),
+                supabaseAdmin.from('job_required_tickets')
+                    .select('id, accepted_tickets, enforcement, note, created_at')
+                    .eq('job_id', jobId)
+                    .order('created_at'),
+            ]);
+
+            if (declared.error) throw declared.error;
+            return res.status(200).json({
+                data: { requirements: requirements[jobId] ?? [], declared: declared.data ?? [] },
+            });
+        }
+
+        const { data: profile } = await supabaseAdmin
+            .from('profiles')
+            .select('role')
+            .eq('id', user.id)
+            .maybeSingle();
+
+        if (!canEdit(profile?.role)) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        if (req.method === 'DELETE') {
+            const { ticketId } = req.query;
+            if (!ticketId || typeof ticketId !== 'string') {
+                return res.status(400).json({ error: 'ticketId is required' });
+            }
+
+            const { error } = await supabaseAdmin
+                .from('job_required_tickets')
+                .delete()
+                .eq('id', ticketId)
+                .eq('job_id', jobId);
+
+            if (error) throw error;
+            return res.status(200).json({ success: true });
+        }
+
+        const { tickets, enforcement = 'block', note } = req.body ?? {};
+
+        if (!Array.isArray(tickets) || tickets.length === 0
+            || !tickets.every(ticket => TICKET_TYPES.includes(ticket as TicketType))) {
+            return res.status(400).json({ error: `tickets must be a list of ${TICKET_TYPES.join(', ')}` });
+        }
+        if (enforcement !== 'block' && enforcement !== 'warn') {
+            return res.status(400).json({ error: 'enforcement must be block or warn' });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .from('job_required_tickets')
+            .insert({
+                job_id: jobId,
+                accepted_tickets: Array.from(new Set(tickets)),
+                enforcement,
+                note: typeof note === 'string' && note.trim() ? note.trim() : null,
+                created_by: user.id,
+            })
+            .select('id, accepted_tickets, enforcement, note, created_at')
+            .single();
+
+        if (error) throw error;
+        return res.status(201).json({ data });
+
+    } catch (error: unknown) {
+        console.error('Required tickets API error:', error);
+        return res.status(500).json({ error: 'Failed to process required tickets' });
+    }
+}
@@ -0,0 +1,117 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '../../../../lib/apiAuth';
+import { SNAG_PHOTO_BUCKET, type Snag } from '../../../../lib/snags';
+import { renderSnagReportPdf } from '../../../../lib/server/snagReportPdf';
+import { supabaseAdmin } from '../../../../lib/server/supabaseAdmin';
+
+// jsPDF embeds JPEG and PNG; other photo formats are listed without an image
+const EMBEDDABLE = /^image\/(jpe?g|png)$/i;
+
+function toDataUrl(contentType: string, bytes: ArrayBuffer): string | null {
+    if (!EMBEDDABLE.test(contentType)) return null;
+    return `data:${contentType};base64,${Buffer.from(bytes).toString('base64')}`;
+}
+
+async function loadPhoto(path: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin.storage.from(SNAG_PHOTO_BUCKET).download(path);
+    if (error || !data) return null;
+    return toDataUrl(data.type, await data.arrayBuffer());
+}
+
+// Stored plans live in the project's Supabase Storage; nothing else is fetched
+function isStorageUrl(url: string): boolean {
+    try {
+        const target = new URL(url);
+        const storage = new URL(process.env.NEXT_PUBLIC_SUPABASE_URL!);
+        return target.protocol === 'https:'
+            && target.origin === storage.origin
+            && target.pathname.startsWith('/storage/v1/object/');
+    } catch {
+        return false;
+    }
+}
+
+async function loadPlanImage(url: string): Promise<string | null> {
+    if (url.startsWith('data:')) {
+        return /^data:image\/(jpe?g|png);base64,/i.test(url) ? url : null;
+    }
+    if (!isStorageUrl(url)) return null;
+    const response = await fetch(url, { redirect: 'error' });
+    if (!response.ok) return null;
+    return toDataUrl(response.headers.get('content-type') || '', await response.arrayBuffer());
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { id: jobId } = req.query;
+
+    if (!jobId || typeof jobId !== 'string') {
+        return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    const user = await requireAuth(req, res);
+    if (!user) return;
+
+    try {
+        const { data: job, error: jobError } = await supabaseAdmin
+            .from('jobs')
+            .select('id, reference, title, client_name')
+            .eq('id', jobId)
+            .single();
+
+        if (jobError || !job) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+
+        const [{ data: snagRows, error: snagError }, { data: floorPlan }] = await Promise.all([
+            supabaseAdmin.from('snags').select('*').eq('job_id', jobId).is('deleted_at', null)
+                .order('created_at', { ascending: true }),
+            supabaseAdmin.from('job_floorplans').select('name, floor_plan_url, floor_plan_width, floor_plan_height')
+                .eq('job_id', jobId).maybeSingle(),
+        ]);
+
+        if (snagError) throw snagError;
+        const snags = (snagRows ?? []) as Snag[];
+
+        const photos: Record<string, string> = {};
+        await Promise.all(snags.filter(snag => snag.photo_path).map(async snag => {
+            const photo = await loadPhoto(snag.photo_path!).catch(() => null);
+            if (photo) photos[snag.id] = photo;
+        }));
+
+        // The plan is a nice-to-have; the report still goes out without it
+        let plan = null;
+        if (floorPlan?.floor_plan_url && snags.some(snag => snag.pin_x !== null)) {
+            const dataUrl = await loadPlanImage(floorPlan.floor_plan_url).catch(() => null);
+            if (dataUrl) {
+                plan = {
+                    name: floorPlan.name,
+                    dataUrl,
+                    width: floorPlan.floor_plan_width,
+                    height: floorPlan.floor_plan_height,
+                };
+            }
+        }
+
+        const pdf = renderSnagReportPdf({
+            job,
+            snags,
+            photos,
+            plan,
+            generatedAt: new Date().toISOString(),
+        });
+
+        const fileName = `snag-report-${job.reference || job.id}.pdf`.replace(/[^\w\-.]+/g, '_');
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+        return res.send(Buffer.from(pdf));
+
+    } catch (error: unknown) {
+        console.error('Snag report error:', error);
+        return res.status(500).json({ error: 'Failed to generate snag report' });
+    }
+}
@@ -0,0 +1,98 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import type { AllocationRow } from '@/lib/labourConflicts';
+import { canEditLabour } from '@/lib/roles';
+import { checkJobAllocations } from '@/lib/server/labourConflicts';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+
+type AllocationInput = Omit<AllocationRow, 'job_id'>;
+
+function isAllocationInput(value: unknown): value is AllocationInput {
+  const row = value as Partial<AllocationInput> | null;
+  return Boolean(row)
+    && typeof row!.work_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(row!.work_date)
+    && (row!.role === 'installer' || row!.role === 'supervisor')
+    && (row!.crew_mode === null || row!.crew_mode === 'van' || row!.crew_mode === 'foot')
+    && Number.isInteger(row!.headcount) && row!.headcount! >= 0;
+}
+
+/**
+ * PUT - replace a job's daily labour allocations. Days that need more people
+ * or vans than we have, or more holders of the job's tickets, come back as a
+ * 409 with suggested dates unless `acceptConflicts` is set.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const { jobId, allocations, acceptConflicts } = req.body ?? {};
+
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ error: 'jobId is required' });
+  }
+  if (!Array.isArray(allocations) || !allocations.every(isAllocationInput)) {
+    return res.status(400).json({ error: 'allocations must be a list of { work_date, role, crew_mode, headcount }' });
+  }
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (!canEditLabour(profile?.role)) {
+      return res.status(403).json({ error: 'You do not have permission to save labour schedules' });
+    }
+
+    const rows: AllocationRow[] = (allocations as AllocationInput[])
+      .filter(row => row.headcount > 0)
+      .map(row => ({
+        job_id: jobId,
+        work_date: row.work_date,
+        role: row.role,
+        crew_mode: row.role === 'supervisor' ? null : row.crew_mode,
+        headcount: row.headcount
+      }));
+
+    const check = await checkJobAllocations(supabaseAdmin, jobId, rows);
+    if (check.conflicts.length > 0 && acceptConflicts !== true) {
+      return res.status(409).json({
+        error: 'Allocations exceed available capacity or ticket holders',
+        ...check
+      });
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('labour_allocations')
+      .delete()
+      .eq('job_id', jobId);
+
+    if (deleteError) throw deleteError;
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabaseAdmin
+        .from('labour_allocations')
+        .insert(rows);
+
+      if (insertError) throw insertError;
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { saved: rows.length, conflicts: check.conflicts }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error saving allocations:', error);
+    return res.status(500).json({
+      error: 'Failed to save allocations',
+      details: (error as Error).message
+    });
+  }
+}
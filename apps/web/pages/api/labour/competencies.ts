@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+import formidable from 'formidable';
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { COMPETENCY_SCAN_BUCKET, TICKET_TYPES, type TicketType } from '@/lib/competencies';
+import { canEdit } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+
+export const config = {
+  api: {
+    bodyParser: false, // Cards are saved as multipart/form-data with an optional scan
+  },
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+// Accepted scan types and the extension each is stored under
+const SCAN_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+function field(fields: formidable.Fields, name: string): string | null {
+  const value = fields[name];
+  const text = (Array.isArray(value) ? value[0] : value)?.trim();
+  return text ? text : null;
+}
+
+/**
+ * GET    - every active worker with their cards; scans come back as short-lived
+ *          links, to managers for everyone and to operatives for their own cards
+ * POST   - add a card, or update one when `id` is sent (multipart, optional `scan` file)
+ * DELETE ?id - remove a card and its scan
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (req.method === 'GET') {
+      const [resources, competencies] = await Promise.all([
+        supabaseAdmin.from('labour_resources').select('id, name, role, user_id')
+          .eq('active', true).eq('resource_type', 'worker').order('name'),
+        supabaseAdmin.from('resource_competencies')
+          .select('id, resource_id, ticket_type, card_number, issued_on, expires_on, scan_path, notes')
+          .order('ticket_type'),
+      ]);
+
+      if (resources.error) throw resources.error;
+      if (competencies.error) throw competencies.error;
+
+      const manager = canEdit(profile?.role);
+      const ownResourceIds = new Set((resources.data ?? [])
+        .filter(resource => resource.user_id === user.id)
+        .map(resource => resource.id));
+      const showScan = (row: { resource_id: string; scan_path: string | null }) =>
+        !!row.scan_path && (manager || ownResourceIds.has(row.resource_id));
+
+      const paths = (competencies.data ?? []).filter(showScan).map(row => row.scan_path as string);
+      const scanUrls: Record<string, string> = {};
+      if (paths.length > 0) {
+        const { data: signed } = await supabaseAdmin.storage.from(COMPETENCY_SCAN_BUCKET).createSignedUrls(paths, 3600);
+        (signed ?? []).forEach(entry => {
+          if (entry.path && entry.signedUrl) scanUrls[entry.path] = entry.signedUrl;
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: (resources.data ?? []).map(({ user_id: _userId, ...resource }) => ({
+          ...resource,
+          competencies: (competencies.data ?? [])
+            .filter(row => row.resource_id === resource.id)
+            .map(row => showScan(row)
+              ? { ...row, scan_url: scanUrls[row.scan_path as string] ?? null }
+              : { ...row, scan_path: null, scan_url: null })
+        }))
+      });
+    }
+
+    if (!canEdit(profile?.role)) {
+      return res.status(403).json({ error: 'You do not have permission to manage competencies' });
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ error: 'id is required' });
+      }
+
+      const { data: removed, error } = await supabaseAdmin
+        .from('resource_competencies')
+        .delete()
+        .eq('id', id)
+        .select('scan_path')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (removed?.scan_path) {
+        await supabaseAdmin.storage.from(COMPETENCY_SCAN_BUCKET).remove([removed.scan_path]).catch(() => {});
+      }
+
+      return res.status(200).json({ success: true });
+    }
+
+    const form = formidable({ maxFileSize: 10 * 1024 * 1024, keepExtensions: true });
+    const { fields, files } = await new Promise<{ fields: formidable.Fields; files: formidable.Files }>(
+      (resolve, reject) => {
+        form.parse(req, (err, fields, files) => {
+          if (err) reject(err);
+          else resolve({ fields, files });
+        });
+      }
+    );
+
+    const id = field(fields, 'id');
+    const resourceId = field(fields, 'resource_id');
+    const ticketType = field(fields, 'ticket_type');
+    const issuedOn = field(fields, 'issued_on');
+    const expiresOn = field(fields, 'expires_on');
+
+    if (!id && !resourceId) {
+      return res.status(400).json({ error: 'resource_id is required' });
+    }
+    if (!ticketType || !TICKET_TYPES.includes(ticketType as TicketType)) {
+      return res.status(400).json({ error: `ticket_type must be one of ${TICKET_TYPES.join(', ')}` });
+    }
+    if ((issuedOn && !DATE.test(issuedOn)) || (expiresOn && !DATE.test(expiresOn))) {
+      return res.status(400).json({ error: 'Dates must be YYYY-MM-DD' });
+    }
+    if (issuedOn && expiresOn && expiresOn < issuedOn) {
+      return res.status(400).json({ error: 'Expiry cannot be before the issue date' });
+    }
+
+    const scanField = files.scan;
+    const scan = Array.isArray(scanField) ? scanField[0] : scanField;
+    const scanExtension = scan ? SCAN_EXTENSIONS[scan.mimetype || ''] : undefined;
+    if (scan && !scanExtension) {
+      return res.status(400).json({ error: 'Scans must be a PDF or an image' });
+    }
+
+    let existing: { resource_id: string; scan_path: string | null } | null = null;
+    if (id) {
+      const { data, error } = await supabaseAdmin
+        .from('resource_competencies')
+        .select('resource_id, scan_path')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return res.status(404).json({ error: 'Competency not found' });
+      existing = data;
+    }
+
+    let scanPath: string | null = existing?.scan_path ?? null;
+    if (scan) {
+      scanPath = `${existing?.resource_id ?? resourceId}/${Date.now()}-${crypto.randomBytes(6).toString('hex')}.${scanExtension}`;
+      const { error: uploadError } = await supabaseAdmin.storage
+        .from(COMPETENCY_SCAN_BUCKET)
+        .upload(scanPath, fs.readFileSync(scan.filepath), {
+          contentType: scan.mimetype!,
+          upsert: false
+        });
+      if (uploadError) throw uploadError;
+    }
+
+    const values = {
+      ticket_type: ticketType,
+      card_number: field(fields, 'card_number'),
+      issued_on: issuedOn,
+      expires_on: expiresOn,
+      notes: field(fields, 'notes'),
+      scan_path: scanPath
+    };
+
+    const { data, error } = id
+      ? await supabaseAdmin.from('resource_competencies').update(values).eq('id', id).select().single()
+      : await supabaseAdmin.from('resource_competencies')
+        .insert({ ...values, resource_id: resourceId, created_by: user.id })
+        .select()
+        .single();
+
+    if (error) {
+      if (scan && scanPath) await supabaseAdmin.storage.from(COMPETENCY_SCAN_BUCKET).remove([scanPath]).catch(() => {});
+      throw error;
+    }
+
+    // A new scan replaces the old one
+    if (scan && existing?.scan_path) {
+      await supabaseAdmin.storage.from(COMPETENCY_SCAN_BUCKET).remove([existing.scan_path]).catch(() => {});
+    }
+
+    return res.status(id ? 200 : 201).json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error handling competencies:', error);
+    return res.status(500).json({
+      error: 'Failed to process competencies',
+      details: (error as Error).message
+    });
+  }
+}
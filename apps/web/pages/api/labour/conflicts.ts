@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { listConflicts } from '@/lib/server/labourConflicts';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+// Keeps one request to a quarter of daily capacity rows
+const MAX_RANGE_DAYS = 92;
+
+/**
+ * GET ?startDate&endDate - every double-booking, leave clash and over-capacity
+ * day in the range, with each day's capacity and demand
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const { startDate, endDate } = req.query;
+
+  if (typeof startDate !== 'string' || typeof endDate !== 'string' || !DATE.test(startDate) || !DATE.test(endDate)) {
+    return res.status(400).json({ error: 'startDate and endDate (YYYY-MM-DD) are required' });
+  }
+
+  const days = (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000;
+  if (days < 0 || days > MAX_RANGE_DAYS) {
+    return res.status(400).json({ error: `Date range must be 0-${MAX_RANGE_DAYS} days` });
+  }
+
+  try {
+    const data = await listConflicts(supabaseAdmin, startDate, endDate);
+
+    return res.status(200).json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error listing labour conflicts:', error);
+    return res.status(500).json({
+      error: 'Failed to list labour conflicts',
+      details: (error as Error).message
+    });
+  }
+}
@@ -1,7 +1,16 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 
+import { isBlockingConflict } from '@/lib/labourConflicts';
+import { checkShift, type ConflictCheck } from '@/lib/server/labourConflicts';
+import { checkRamsSignOff } from '@/lib/server/rams';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
 import { supabase } from '@/lib/supabaseClient';
 
+// Double-bookings always stop the write; leave clashes can be accepted
+function mustReject(check: ConflictCheck, acceptConflicts: unknown): boolean {
+  return check.conflicts.some(isBlockingConflict) || (check.conflicts.length > 0 && acceptConflicts !== true);
+}
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'GET') {
     try {
@@ -61,7 +70,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         shift_type,
         break_duration,
         rate_per_hour,
-        notes
+        notes,
+        acceptConflicts
       } = req.body;
 
       if (!resource_id || !shift_date || !start_time || !end_time) {
@@ -76,6 +86,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return res.status(401).json({ error: 'Unauthorized' });
       }
 
+      const check = await checkShift(supabaseAdmin, {
+        resource_id,
+        job_id: job_id ?? null,
+        shift_date,
+        start_time,
+        end_time
+      });
+
+      if (mustReject(check, acceptConflicts)) {
+        return res.status(409).json({
+          error: 'Shift conflicts with existing bookings',
+          ...check
+        });
+      }
+
       // Calculate total hours and cost
       const startDateTime = new Date(`2000-01-01T${start_time}`);
       const endDateTime = new Date(`2000-01-01T${end_time}`);
@@ -103,6 +128,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         .select()
         .single();
 
+      // Approved timesheet weeks are locked by a trigger (migration 055)
+      if (error?.message?.includes('approved and locked')) {
+        return res.status(409).json({ error: error.message });
+      }
+
       if (error) {
         throw error;
       }
@@ -124,12 +154,53 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.method === 'PATCH') {
     try {
       const { shiftId } = req.query;
-      const updates = req.body;
+      const { acceptConflicts, ...updates } = req.body;
 
       if (!shiftId) {
         return res.status(400).json({ error: 'Shift ID is required' });
       }
 
+      // Work can't start until the operative has signed the job's RAMS
+      if (updates.status === 'in_progress' || updates.actual_start_time) {
+        const { data: shift } = await supabaseAdmin
+          .from('labour_shifts')
+          .select('resource_id, job_id')
+          .eq('id', shiftId)
+          .single();
+
+        if (shift) {
+          const signOff = await checkRamsSignOff(supabaseAdmin, { ...shift, ...updates });
+          if (!signOff.ok) {
+            return res.status(409).json({
+              error: signOff.reason === 'unsigned'
+                ? `The operative must sign RAMS version ${signOff.version} on the Today page before starting work`
+                : `RAMS version ${signOff.version} needs signing, but this operative has no sign-in linked to their labour resource`,
+              ramsVersion: signOff.version
+            });
+          }
+        }
+      }
+
+      // Re-check for clashes when the shift moves, changes hands or is reinstated
+      if (['resource_id', 'shift_date', 'start_time', 'end_time', 'status'].some(key => key in updates)) {
+        const { data: existing } = await supabaseAdmin
+          .from('labour_shifts')
+          .select('id, resource_id, job_id, shift_date, start_time, end_time, status')
+          .eq('id', shiftId)
+          .single();
+
+        if (existing) {
+          const check = await checkShift(supabaseAdmin, { ...existing, ...updates, id: existing.id });
+
+          if (mustReject(check, acceptConflicts)) {
+            return res.status(409).json({
+              error: 'Shift conflicts with existing bookings',
+              ...check
+            });
+          }
+        }
+      }
+
       // If updating times, recalculate hours and cost
       if (updates.start_time || updates.end_time || updates.break_duration || updates.rate_per_hour) {
         const { data: currentShift } = await supabase
@@ -164,6 +235,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         .select()
         .single();
 
+      // Approved timesheet weeks are locked by a trigger (migration 055)
+      if (error?.message?.includes('approved and locked')) {
+        return res.status(409).json({ error: error.message });
+      }
+
       if (error) {
         throw error;
       }
@@ -0,0 +1,68 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { canApproveTimesheets } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { loadApprovedTimesheets } from '@/lib/server/timesheets';
+import { payrollCsv, timesheetCsv, weekStartOf } from '@/lib/timesheets';
+
+const FORMATS = ['timesheet', 'sage', 'xero'] as const;
+type ExportFormat = typeof FORMATS[number];
+
+/**
+ * GET ?weekStart&format - the week's approved timesheets as CSV: `timesheet`
+ * lists every shift, `sage` and `xero` are pay elements for payroll import
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const { weekStart: rawWeek, format = 'timesheet' } = req.query;
+
+  if (typeof rawWeek !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(rawWeek)) {
+    return res.status(400).json({ error: 'weekStart (YYYY-MM-DD) is required' });
+  }
+  if (!FORMATS.includes(format as ExportFormat)) {
+    return res.status(400).json({ error: `Invalid format. Supported formats: ${FORMATS.join(', ')}` });
+  }
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    // Pay figures go to the same people who approve them
+    if (!canApproveTimesheets(profile?.role)) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const weekStart = weekStartOf(rawWeek);
+    const sheets = await loadApprovedTimesheets(supabaseAdmin, weekStart);
+
+    if (sheets.length === 0) {
+      return res.status(404).json({ error: 'No approved timesheets for this week' });
+    }
+
+    const csvContent = format === 'timesheet' ? timesheetCsv(sheets) : payrollCsv(sheets, format as 'sage' | 'xero');
+    const filename = format === 'timesheet' ? `timesheets-${weekStart}` : `payroll-${format}-${weekStart}`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+
+    // Add BOM for Excel UTF-8 compatibility
+    return res.status(200).send('\uFEFF' + csvContent);
+
+  } catch (error: unknown) {
+    console.error('Error exporting timesheets:', error);
+    return res.status(500).json({
+      error: 'Failed to export timesheets',
+      details: (error as Error).message
+    });
+  }
+}
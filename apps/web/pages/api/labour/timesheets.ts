@@ -0,0 +1,102 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { canApproveTimesheets, canSubmitTimesheets } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { applyTimesheetAction, loadTimesheetWeek } from '@/lib/server/timesheets';
+import { TIMESHEET_ACTIONS, hoursOnly, weekStartOf, type TimesheetAction } from '@/lib/timesheets';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET  ?weekStart - each worker's timesheet for the week with hours and overtime;
+ *      rates, gross, CIS and net only for those who approve timesheets. Anyone
+ *      who neither submits nor approves timesheets sees only their own.
+ * POST { action: submit | approve | reject | reopen, weekStart, resourceIds, reason? }
+ *      supervisors submit, managers approve, reject or reopen an approved week
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const rawWeek = req.method === 'GET' ? req.query.weekStart : req.body?.weekStart;
+  if (typeof rawWeek !== 'string' || !DATE.test(rawWeek)) {
+    return res.status(400).json({ error: 'weekStart (YYYY-MM-DD) is required' });
+  }
+  const weekStart = weekStartOf(rawWeek);
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (req.method === 'GET') {
+      const { settings, rows } = await loadTimesheetWeek(supabaseAdmin, weekStart);
+      let visible = rows;
+
+      if (!canApproveTimesheets(profile?.role) && !canSubmitTimesheets(profile?.role)) {
+        const { data: own, error: ownError } = await supabaseAdmin
+          .from('labour_resources')
+          .select('id')
+          .eq('user_id', user.id);
+        if (ownError) throw ownError;
+
+        const ownIds = new Set(((own ?? []) as Array<{ id: string }>).map(resource => resource.id));
+        visible = rows.filter(row => ownIds.has(row.resource.id));
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          week_start: weekStart,
+          settings,
+          rows: canApproveTimesheets(profile?.role) ? visible : visible.map(hoursOnly)
+        }
+      });
+    }
+
+    const { action, resourceIds, reason } = req.body as { action?: string; resourceIds?: unknown; reason?: string };
+
+    if (!action || !(action in TIMESHEET_ACTIONS)) {
+      return res.status(400).json({ error: 'action must be submit, approve, reject or reopen' });
+    }
+    if (!Array.isArray(resourceIds) || resourceIds.length === 0 || !resourceIds.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'resourceIds is required' });
+    }
+    if (action === 'reject' && !reason?.trim()) {
+      return res.status(400).json({ error: 'A reason is required to reject a timesheet' });
+    }
+
+    const allowed = action === 'submit' ? canSubmitTimesheets(profile?.role) : canApproveTimesheets(profile?.role);
+    if (!allowed) {
+      return res.status(403).json({ error: `You do not have permission to ${action} timesheets` });
+    }
+
+    const updated = await applyTimesheetAction(
+      supabaseAdmin,
+      action as TimesheetAction,
+      weekStart,
+      resourceIds as string[],
+      user.id,
+      reason?.trim()
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: { updated }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error handling timesheets:', error);
+    return res.status(500).json({
+      error: 'Failed to process timesheets',
+      details: (error as Error).message
+    });
+  }
+}
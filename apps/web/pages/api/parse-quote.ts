@@ -1,9 +1,10 @@
 // apps/web/pages/api/parse-quote.ts
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import OpenAI from 'openai';
 
-import { safeJsonParse } from '../../lib/safeParsing';
+import { extractJSON, isAIConfigured } from '../../lib/ai';
+import { FEATURE_FLAGS } from '../../lib/featureFlagEngine';
+import { isFeatureEnabledForRequest } from '../../lib/server/featureFlags';
 
 // Fallback mock parsing when API keys are not available
 const mockParseQuote = (text: string) => {
@@ -89,10 +90,6 @@ const mockParseQuote = (text: string) => {
   };
 };
 
-const openai = process.env.OPENAI_API_KEY ? new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-}) : null;
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Only POST allowed' });
@@ -104,8 +101,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(400).json({ error: 'Missing text' });
   }
 
-  // Check if API key is available
-  if (!process.env.OPENAI_API_KEY || !openai) {
+  // Fall back to regex parsing without an AI provider, or when AI parsing is switched off for this user
+  const aiParsingEnabled = await isFeatureEnabledForRequest(req, FEATURE_FLAGS.AI_QUOTE_PARSING);
+  if (!isAIConfigured() || !aiParsingEnabled) {
     try {
       const result = mockParseQuote(text);
       return res.status(200).json(result);
@@ -160,32 +158,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       Input: ${text}
     `;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-      response_format: { type: 'json_object' },
+    const { data: parsed } = await extractJSON<{ products?: unknown[] }>({
+      task: 'quote.parse-text',
+      inputs: [{ type: 'text', text: prompt }],
       temperature: 0,
     });
 
-
-    const content = response.choices[0].message.content;
-
-    // Check if content is null or undefined
-    if (!content) {
-      throw new Error('No content returned from AI');
-    }
-
-    // Parse and validate
-    const parsed = safeJsonParse<{ products?: unknown[] }>(content);
+    // Validate
     if (!parsed || !Array.isArray(parsed.products)) {
       throw new Error('Invalid format: Expected object with products array');
     }
 
     res.status(200).json(parsed);
   } catch (error: unknown) {
-    console.error('OpenAI Error:', error);
+    console.error('AI quote parsing error:', error);
     res.status(500).json({
       error: 'Failed to parse',
       details: error instanceof Error ? error.message : 'Unknown error'
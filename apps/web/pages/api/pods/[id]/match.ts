@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { JobMatchingService } from '../../../../lib/pod/job-matching.service';
+import { PODService } from '../../../../lib/pod/pod.service';
+import { supabase } from '../../../../lib/supabaseClient';
+
+// GET: ranked candidate jobs for the POD
+// POST { job_id }: confirm a job and reconcile items
+// POST {}: re-run matching, or re-reconcile if the POD is already linked
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (req.method === 'GET') {
+      const { pod } = await PODService.getById(id as string);
+      const candidates = await JobMatchingService.scoreCandidates(pod);
+      return res.status(200).json({ success: true, candidates });
+    }
+
+    if (req.method === 'POST') {
+      const { job_id } = req.body || {};
+
+      if (job_id) {
+        const pod = await JobMatchingService.confirmJob(id as string, job_id);
+        if (!pod) {
+          return res.status(404).json({ success: false, error: 'Job not found' });
+        }
+        return res.status(200).json({ success: true, pod, message: 'POD linked to job' });
+      }
+
+      const { pod } = await PODService.getById(id as string);
+      if (pod.job_id) {
+        const reconciliation = await JobMatchingService.reconcile(pod.id);
+        return res.status(200).json({ success: true, reconciliation });
+      }
+
+      const match = await JobMatchingService.matchPOD(pod.id);
+      return res.status(200).json({ success: true, match });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('POD match API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Job matching failed'
+    });
+  }
+}
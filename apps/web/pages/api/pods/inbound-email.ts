@@ -0,0 +1,94 @@
+// POD Inbound Email API - accepts raw RFC 822 messages from a mail relay
+// POST the message as the request body (Content-Type: message/rfc822) with
+// Authorization: Bearer <POD_INBOUND_EMAIL_SECRET>
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { extractToken } from '../../../lib/apiAuth';
+import { EmailIngestionService, type EmailIngestionResult } from '../../../lib/pod/email-ingestion.service';
+import type { APIResponse } from '../../../lib/pod/types';
+
+export const config = {
+  api: {
+    bodyParser: false, // Raw message bytes are needed to decode attachments
+  },
+};
+
+const MAX_MESSAGE_BYTES = 35 * 1024 * 1024; // Base64 adds a third on top of the attachments
+
+/** Resolves null, leaving the rest unread, once the message passes the size limit */
+const readRawBody = (req: NextApiRequest): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_MESSAGE_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+/** Send the 413 before dropping the connection, so the relay sees why */
+const rejectTooLarge = (req: NextApiRequest, res: NextApiResponse<APIResponse<EmailIngestionResult>>) => {
+  res.setHeader('Connection', 'close');
+  res.once('finish', () => req.destroy());
+  return res.status(413).json({ success: false, error: 'Message too large' });
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<APIResponse<EmailIngestionResult>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const secret = process.env.POD_INBOUND_EMAIL_SECRET;
+  if (!secret || extractToken(req) !== secret) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' });
+  }
+
+  if (Number(req.headers['content-length']) > MAX_MESSAGE_BYTES) {
+    return rejectTooLarge(req, res);
+  }
+
+  let raw: Buffer | null;
+  try {
+    raw = await readRawBody(req);
+  } catch (error: any) {
+    return res.status(400).json({ success: false, error: error.message || 'Failed to read message' });
+  }
+
+  if (!raw) {
+    return rejectTooLarge(req, res);
+  }
+
+  if (raw.length === 0) {
+    return res.status(400).json({ success: false, error: 'Empty message' });
+  }
+
+  try {
+    const result = await EmailIngestionService.ingest(raw);
+
+    return res.status(result.created.length > 0 ? 201 : 200).json({
+      success: true,
+      message: `${result.created.length} POD(s) created, ${result.duplicates.length} duplicate(s), ${result.skipped.length} attachment(s) skipped`,
+      data: result
+    });
+  } catch (error: any) {
+    console.error('Inbound email error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Ingestion failed'
+    });
+  }
+}
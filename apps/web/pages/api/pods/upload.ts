@@ -6,6 +6,7 @@ import formidable, { File } from 'formidable';
 import type { NextApiRequest, NextApiResponse } from 'next';
 
 import { AIParsingService } from '../../../lib/pod/ai-parsing.service';
+import { JobMatchingService } from '../../../lib/pod/job-matching.service';
 import { PODService } from '../../../lib/pod/pod.service';
 import type { APIResponse, DeliveryPOD } from '../../../lib/pod/types';
 import { supabase } from '../../../lib/supabaseClient';
@@ -140,6 +141,7 @@ export default async function handler(
           ...parsedData,
           change_reason: 'AI parsing completed'
         });
+        await JobMatchingService.matchPOD(pod.id);
       })
       .catch((err) => {
         console.error(`AI parsing failed for POD ${pod.id}:`, err);
@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { canViewFinancials } from '@/lib/roles';
+import { loadProfitability } from '@/lib/server/profitability';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+
+/**
+ * GET ?jobId - quoted against actual labour hours, van days, waste loads and
+ *     margin, per job and in total, with hours per unit by product type.
+ *     Without jobId, every job in progress, snagging or completed.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const { jobId } = req.query;
+  if (jobId !== undefined && (typeof jobId !== 'string' || !jobId)) {
+    return res.status(400).json({ error: 'jobId must be a single job id' });
+  }
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (!canViewFinancials(profile?.role)) {
+      return res.status(403).json({ error: 'You do not have permission to view job profitability' });
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const data = await loadProfitability(supabaseAdmin, today, jobId ? [jobId] : undefined);
+
+    if (jobId && data.jobs.length === 0) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    return res.status(200).json({ success: true, data });
+  } catch (error: unknown) {
+    console.error('Error in /api/profitability:', error);
+    return res.status(500).json({
+      error: 'Failed to load job profitability',
+      details: (error as Error).message
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { canViewFinancials } from '@/lib/roles';
+import { refreshInstallTimeSuggestions, reviewInstallTimeSuggestion } from '@/lib/server/profitability';
+import { supabaseAdmin } from '@/lib/server/supabaseAdmin';
+
+const DECISIONS = { accept: 'accepted', reject: 'rejected' } as const;
+
+/**
+ * GET   ?status - install time suggestions, pending by default
+ * POST  - recompute the pending suggestions from every job's actual hours
+ * PATCH { id, action: accept | reject } - accepting updates the catalogue
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (!canViewFinancials(profile?.role)) {
+      return res.status(403).json({ error: 'You do not have permission to review install time suggestions' });
+    }
+
+    if (req.method === 'GET') {
+      const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+      if (!['pending', 'accepted', 'rejected'].includes(status)) {
+        return res.status(400).json({ error: 'status must be pending, accepted or rejected' });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('catalogue_time_suggestions')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return res.status(200).json({ success: true, data: data ?? [] });
+    }
+
+    if (req.method === 'POST') {
+      const today = new Date().toISOString().slice(0, 10);
+      const data = await refreshInstallTimeSuggestions(supabaseAdmin, today);
+      return res.status(200).json({ success: true, data });
+    }
+
+    const { id, action } = (req.body ?? {}) as { id?: unknown; action?: unknown };
+    if (typeof id !== 'string' || !id) {
+      return res.status(400).json({ error: 'id is required' });
+    }
+    if (action !== 'accept' && action !== 'reject') {
+      return res.status(400).json({ error: 'action must be accept or reject' });
+    }
+
+    const result = await reviewInstallTimeSuggestion(supabaseAdmin, id, DECISIONS[action], user.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    return res.status(200).json({ success: true, data: result.suggestion });
+  } catch (error: unknown) {
+    console.error('Error in /api/profitability/suggestions:', error);
+    return res.status(500).json({
+      error: 'Failed to manage install time suggestions',
+      details: (error as Error).message
+    });
+  }
+}
@@ -0,0 +1,67 @@
+// API Route: Client quote portal (public, token-authenticated)
+// GET  -> quote summary for the client (records the view)
+// POST -> { action: 'accept', signedName, signatureData } | { action: 'request_changes', message, name? }
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { clientPortalService, PortalFailureReason } from '@/modules/smartquote-v3/services/clientPortalService';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '512kb' } }, // Room for the signature image
+};
+
+const STATUS_FOR_REASON: Record<PortalFailureReason, number> = {
+  not_found: 404,
+  expired: 410,
+  not_allowed: 409,
+  invalid: 400,
+};
+
+const getClientIp = (req: NextApiRequest) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || req.socket.remoteAddress || undefined;
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const token = String(req.query.token || '');
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    if (req.method === 'GET') {
+      const result = await clientPortalService.viewQuote(supabaseAdmin, token, { ip: getClientIp(req) });
+      if (!result.success) return res.status(STATUS_FOR_REASON[result.reason]).json({ error: result.error });
+      return res.status(200).json({ success: true, quote: result.data });
+    }
+
+    if (req.method === 'POST') {
+      const { action } = req.body || {};
+
+      if (action === 'accept') {
+        const result = await clientPortalService.acceptQuote(supabaseAdmin, token, {
+          signedName: String(req.body.signedName || ''),
+          signatureData: String(req.body.signatureData || ''),
+          ip: getClientIp(req),
+        });
+        if (!result.success) return res.status(STATUS_FOR_REASON[result.reason]).json({ error: result.error });
+        return res.status(200).json({ success: true, quote: result.data });
+      }
+
+      if (action === 'request_changes') {
+        const result = await clientPortalService.requestChanges(supabaseAdmin, token, {
+          message: String(req.body.message || ''),
+          name: req.body.name ? String(req.body.name) : undefined,
+        });
+        if (!result.success) return res.status(STATUS_FOR_REASON[result.reason]).json({ error: result.error });
+        return res.status(200).json({ success: true, quote: result.data });
+      }
+
+      return res.status(400).json({ error: 'Unknown action' });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error in /api/quote-portal:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,131 @@
+// API Route: Record SmartQuote v3 approval decisions
+// Approval chain steps and conditions are read-only to staff, so decisions are
+// written here with the service role once the caller and their role have been
+// identified; the service checks each decision against the step and the quote.
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { requireAuth } from '@/lib/apiAuth';
+import { canEdit } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import {
+  approvalWorkflowService,
+  type ApprovalActionResult,
+  type ApprovalActor,
+} from '@/modules/smartquote-v3/services/approvalWorkflowService';
+import type { ApprovalChain, ChangeRequest } from '@/modules/smartquote-v3/types';
+
+type ApprovalBody = {
+  action?: unknown;
+  quoteId?: unknown;
+  notes?: unknown;
+  conditions?: unknown;
+  reason?: unknown;
+  changes?: unknown;
+  conditionId?: unknown;
+  isMet?: unknown;
+  chain?: unknown;
+};
+
+const optionalText = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+/**
+ * POST { action, ... }
+ *   start            { quoteId, notes? }               - put a draft quote on its approval chain
+ *   approve          { quoteId, notes?, conditions? }  - current step's approvers, or quote approvers
+ *   reject           { quoteId, reason }
+ *   request_changes  { quoteId, changes, notes? }
+ *   condition        { quoteId, conditionId, isMet }   - tick off one of the quote's approval conditions
+ *   save_chain       { chain }                         - director, ops, admin or general manager only
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const body = (req.body ?? {}) as ApprovalBody;
+  const quoteId = optionalText(body.quoteId);
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+    const actor: ApprovalActor = { id: user.id, role: profile?.role ?? undefined };
+
+    let result: ApprovalActionResult;
+
+    switch (body.action) {
+      case 'start':
+        if (!quoteId) return res.status(400).json({ error: 'quoteId is required' });
+        result = await approvalWorkflowService.beginApprovalChain(supabaseAdmin, actor, quoteId, optionalText(body.notes));
+        break;
+
+      case 'approve':
+        if (!quoteId) return res.status(400).json({ error: 'quoteId is required' });
+        result = await approvalWorkflowService.recordApproval(
+          supabaseAdmin,
+          actor,
+          quoteId,
+          optionalText(body.notes),
+          optionalText(body.conditions)
+        );
+        break;
+
+      case 'reject':
+        if (!quoteId) return res.status(400).json({ error: 'quoteId is required' });
+        if (!optionalText(body.reason)) return res.status(400).json({ error: 'reason is required' });
+        result = await approvalWorkflowService.recordRejection(supabaseAdmin, actor, quoteId, body.reason as string);
+        break;
+
+      case 'request_changes':
+        if (!quoteId) return res.status(400).json({ error: 'quoteId is required' });
+        if (!Array.isArray(body.changes)) return res.status(400).json({ error: 'changes must be a list' });
+        result = await approvalWorkflowService.recordChangeRequest(
+          supabaseAdmin,
+          actor,
+          quoteId,
+          body.changes as ChangeRequest[],
+          optionalText(body.notes)
+        );
+        break;
+
+      case 'condition': {
+        const conditionId = optionalText(body.conditionId);
+        if (!quoteId) return res.status(400).json({ error: 'quoteId is required' });
+        if (!conditionId) return res.status(400).json({ error: 'conditionId is required' });
+        if (typeof body.isMet !== 'boolean') return res.status(400).json({ error: 'isMet must be true or false' });
+        result = await approvalWorkflowService.recordConditionMet(supabaseAdmin, actor, quoteId, conditionId, body.isMet);
+        break;
+      }
+
+      case 'save_chain': {
+        if (!canEdit(actor.role)) {
+          return res.status(403).json({ error: 'You do not have permission to edit approval chains' });
+        }
+        if (!body.chain || typeof body.chain !== 'object') {
+          return res.status(400).json({ error: 'chain is required' });
+        }
+        result = await approvalWorkflowService.storeApprovalChain(supabaseAdmin, user.id, body.chain as Partial<ApprovalChain>);
+        break;
+      }
+
+      default:
+        return res.status(400).json({ error: 'action must be start, approve, reject, request_changes, condition or save_chain' });
+    }
+
+    if (!result.success) {
+      return res.status(result.status ?? 409).json({ error: result.error });
+    }
+    return res.status(200).json(result);
+  } catch (error: unknown) {
+    console.error('Error in /api/quotes/approval:', error);
+    return res.status(500).json({
+      error: 'Failed to record approval',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -64,17 +64,23 @@ async function handleGet(req: NextApiRequest, res: NextApiResponse) {
       .order('due_date', { ascending: true });
 
     // Filter by assignment based on user role (case-insensitive)
+    let groups: string[];
     if (userRole === 'director' || userRole === 'admin') {
       // Directors and admins see all + their specific tasks
-      query = query.in('assigned_to', ['all', 'directors']);
+      groups = ['all', 'directors'];
     } else if (userRole === 'ops') {
       // Ops see all + managers
-      query = query.in('assigned_to', ['all', 'managers']);
+      groups = ['all', 'managers'];
     } else {
       // Everyone else sees only 'all'
-      query = query.eq('assigned_to', 'all');
+      groups = ['all'];
     }
 
+    // Group tasks, plus any raised for this user personally (e.g. quote follow-ups)
+    query = query.or(
+      `and(assigned_user_id.is.null,assigned_to.in.(${groups.join(',')})),assigned_user_id.eq.${user.id}`
+    );
+
     const { data: tasks, error } = await query;
 
     if (error) {
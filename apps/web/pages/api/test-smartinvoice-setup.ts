@@ -198,7 +198,7 @@ export default async function handler(
       // Fallback: Use Supabase Admin client
       if (!schemaCheckSuccess) {
         const { data: tables, error: tablesError } = await supabaseAdmin
-          .from('information_schema.tables')
+          .from('information_schema.tables' as never)
           .select('table_name')
           .eq('table_schema', 'public')
           .in('table_name', requiredTables);
@@ -2,6 +2,7 @@ import { createClient } from '@supabase/supabase-js';
 import { NextApiRequest, NextApiResponse } from 'next';
 
 import { labourCalculator } from '../../../lib/labour-calculator';
+import { runConstructionAlertRules, type AlertRunSummary } from '../../../lib/server/alertEngine';
 
 const supabaseServiceRole = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -172,6 +173,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         ignoreDuplicates: false 
       });
 
+    // Re-run the alert rules on today's figures; the close-out stands either way
+    let alerts: AlertRunSummary | null = null;
+    try {
+      alerts = await runConstructionAlertRules(supabaseServiceRole, new Date(), [job_id]);
+    } catch (alertError) {
+      console.error('Error running construction alert rules:', alertError);
+    }
+
     let pdfUrl = null;
     let emailSent = false;
 
@@ -210,6 +219,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         emailSent,
         signed: !!(supervisorSignature && contractorSignature)
       },
+      alerts,
       recommendations: [
         ...tomorrowPlan.notes,
         ...(efficiency < 85 ? ['Review work processes to improve efficiency'] : []),
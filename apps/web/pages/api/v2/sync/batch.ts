@@ -1,74 +1,104 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextApiRequest, NextApiResponse } from 'next';
 
+import { buildConflict } from '../../../../lib/offline-sync/policy';
+import type { BatchSyncResults, SyncConflict, SyncUpdate } from '../../../../lib/offline-sync/types';
+import { runConstructionAlertRules } from '../../../../lib/server/alertEngine';
+
 const supabaseServiceRole = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-interface SyncUpdate {
-  id: string; // Unique ID for this update
-  operation: 'product_update' | 'bulk_update' | 'daily_log' | 'closeout';
-  table: string;
-  record_id?: string;
-  job_id: string;
-  data: Record<string, unknown>;
-  timestamp: number;
-  retry_count?: number;
-}
-
 interface BatchSyncRequest {
   updates: SyncUpdate[];
   device_id?: string;
   last_sync_timestamp?: number;
 }
 
+type VersionedTable = 'product_progress' | 'daily_progress_log' | 'daily_closeout_forms';
+
+type VersionedRow = Record<string, unknown> & { id: string; row_version?: number };
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { updates, device_id: _device_id, last_sync_timestamp: _last_sync_timestamp }: BatchSyncRequest = req.body;
+  const { updates, device_id, last_sync_timestamp: _last_sync_timestamp }: BatchSyncRequest = req.body;
 
   if (!updates || !Array.isArray(updates) || updates.length === 0) {
     return res.status(400).json({ error: 'Updates array is required' });
   }
 
-  const results = {
+  const results: BatchSyncResults = {
     synced: 0,
     failed: 0,
-    conflicts: [] as Array<{ id: string; reason: string; data?: unknown }>,
-    newState: {} as Record<string, unknown>,
-    errors: [] as Array<{ id: string; error: string; update?: SyncUpdate }>
+    duplicates: [],
+    conflicts: [],
+    newState: {},
+    errors: []
   };
 
   try {
+    // Operations already applied on an earlier, interrupted flush
+    const keys = updates.map(u => u.idempotency_key).filter((key): key is string => Boolean(key));
+    const applied = new Set<string>();
+    if (keys.length > 0) {
+      const { data: ledger } = await supabaseServiceRole
+        .from('offline_sync_queue')
+        .select('idempotency_key')
+        .in('idempotency_key', keys)
+        .eq('sync_status', 'completed');
+      (ledger || []).forEach((row: { idempotency_key: string }) => applied.add(row.idempotency_key));
+    }
+
+    // Jobs with a close-out applied in this batch
+    const closedOut = new Set<string>();
+
     // Process each update
     for (const update of updates) {
-      try {
-        await processUpdate(update, results);
+      if (update.idempotency_key && applied.has(update.idempotency_key)) {
         results.synced++;
+        results.duplicates.push(update.idempotency_key);
+        continue;
+      }
+
+      try {
+        const conflict = await processUpdate(update);
+        if (conflict) {
+          results.conflicts.push(conflict);
+          await recordOperation(update, device_id, { sync_status: 'conflict', conflict });
+        } else {
+          results.synced++;
+          if (update.operation === 'closeout') closedOut.add(update.job_id);
+          await recordOperation(update, device_id, { sync_status: 'completed', synced_at: new Date().toISOString() });
+        }
       } catch (error: unknown) {
         // Failed to process update
+        const message = error instanceof Error ? error.message : 'Unknown error';
         results.failed++;
         results.errors.push({
           id: update.id,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          idempotency_key: update.idempotency_key,
+          error: message
         });
 
-        // Add to sync queue for retry
-        await supabaseServiceRole
-          .from('offline_sync_queue')
-          .insert({
-            job_id: update.job_id,
-            operation_type: update.operation,
-            table_name: update.table,
-            record_id: update.record_id,
-            data_payload: update.data,
-            sync_status: 'failed',
-            retry_count: (update.retry_count || 0) + 1,
-            error_message: error instanceof Error ? error.message : 'Unknown error'
-          });
+        // Keep a server-side record for retry and support
+        await recordOperation(update, device_id, {
+          sync_status: 'failed',
+          retry_count: (update.retry_count || 0) + 1,
+          last_retry_at: new Date().toISOString(),
+          error_message: message
+        });
+      }
+    }
+
+    if (closedOut.size > 0) {
+      try {
+        await runConstructionAlertRules(supabaseServiceRole, new Date(), [...closedOut]);
+      } catch (error: unknown) {
+        console.error('Error running construction alert rules:', error);
       }
     }
 
@@ -82,21 +112,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
     }
 
-    // Clean up successfully synced items from sync queue
-    if (results.synced > 0) {
-      const successfulIds = updates
-        .slice(0, results.synced)
-        .filter(u => u.record_id)
-        .map(u => u.record_id);
-
-      if (successfulIds.length > 0) {
-        await supabaseServiceRole
-          .from('offline_sync_queue')
-          .delete()
-          .in('record_id', successfulIds);
-      }
-    }
-
     return res.status(200).json({
       success: true,
       results,
@@ -113,40 +128,117 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function processUpdate(update: SyncUpdate, _results: {
-  synced: number;
-  failed: number;
-  conflicts: Array<{ id: string; reason: string; data?: unknown }>;
-  newState: Record<string, unknown>;
-  errors: Array<{ id: string; error: string; update?: SyncUpdate }>;
-}): Promise<void> {
+/**
+ * Record an operation's outcome in offline_sync_queue. Keyed operations are
+ * upserted so the ledger holds one row per idempotency key.
+ */
+async function recordOperation(
+  update: SyncUpdate,
+  deviceId: string | undefined,
+  outcome: Record<string, unknown>
+): Promise<void> {
+  const row = {
+    job_id: update.job_id,
+    operation_type: update.operation,
+    table_name: update.table,
+    record_id: update.record_id,
+    data_payload: update.data,
+    device_id: deviceId,
+    retry_count: update.retry_count || 0,
+    ...outcome
+  };
+
+  const { error } = update.idempotency_key
+    ? await supabaseServiceRole
+      .from('offline_sync_queue')
+      .upsert({ ...row, idempotency_key: update.idempotency_key }, { onConflict: 'idempotency_key' })
+    : outcome.sync_status === 'completed'
+      ? { error: null }
+      : await supabaseServiceRole.from('offline_sync_queue').insert(row);
+
+  if (error) {
+    console.error('Failed to record sync operation:', error);
+  }
+}
+
+async function processUpdate(update: SyncUpdate): Promise<SyncConflict | null> {
   switch (update.operation) {
     case 'product_update':
-      await processProductUpdate(update);
-      break;
+      return processProductUpdate(update);
     case 'bulk_update':
       await processBulkUpdate(update);
-      break;
+      return null;
     case 'daily_log':
-      await processDailyLog(update);
-      break;
+      return processDailyLog(update);
     case 'closeout':
-      await processCloseout(update);
-      break;
+      return processCloseout(update);
     default:
       throw new Error(`Unknown operation: ${update.operation}`);
   }
 }
 
-async function processProductUpdate(update: SyncUpdate): Promise<void> {
+/**
+ * Apply a write to an existing row only if it is still on the version the device
+ * saw. The version is checked again in the UPDATE itself, so a write landing
+ * between the read and the update is still caught.
+ */
+async function applyVersionedUpdate(
+  table: VersionedTable,
+  update: SyncUpdate,
+  current: VersionedRow,
+  values: Record<string, unknown>
+): Promise<SyncConflict | null> {
+  if (update.base_version === undefined) {
+    // Older clients send no version; last write wins
+    const { error } = await supabaseServiceRole.from(table).update(values).eq('id', current.id);
+    if (error) throw error;
+    return null;
+  }
+
+  if (current.row_version !== update.base_version) {
+    return conflictIfChanged(buildConflict(update, current, update.base_version === null
+      ? 'Record was created on another device'
+      : 'Record was changed on another device'));
+  }
+
+  const { data: written, error } = await supabaseServiceRole
+    .from(table)
+    .update(values)
+    .eq('id', current.id)
+    .eq('row_version', update.base_version)
+    .select('id');
+
+  if (error) throw error;
+  if (written && written.length > 0) return null;
+
+  const latest = await fetchRow(table, 'id', current.id);
+  return conflictIfChanged(buildConflict(update, latest || current, 'Record was changed on another device'));
+}
+
+/**
+ * A conflict is only worth holding if a field the device wrote now differs;
+ * when the server already has the device's values there is nothing to write
+ */
+function conflictIfChanged(conflict: SyncConflict): SyncConflict | null {
+  return conflict.fields.length > 0 ? conflict : null;
+}
+
+async function fetchRow(table: VersionedTable, column: string, value: string, extra?: [string, string]): Promise<VersionedRow | null> {
+  let query = supabaseServiceRole.from(table).select('*').eq(column, value);
+  if (extra) query = query.eq(extra[0], extra[1]);
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data as VersionedRow | null;
+}
+
+async function processProductUpdate(update: SyncUpdate): Promise<SyncConflict | null> {
   if (!update.record_id) {
     throw new Error('Product update requires record_id');
   }
 
-  // Check for conflicts by comparing timestamps
   const { data: currentRecord, error: fetchError } = await supabaseServiceRole
     .from('product_progress')
-    .select('last_updated')
+    .select('*')
     .eq('id', update.record_id)
     .single();
 
@@ -154,25 +246,71 @@ async function processProductUpdate(update: SyncUpdate): Promise<void> {
     throw fetchError;
   }
 
-  if (currentRecord) {
+  if (!currentRecord) {
+    throw new Error('Product progress record not found');
+  }
+
+  // Older clients send no version: fall back to comparing timestamps
+  if (update.base_version === undefined) {
     const currentTimestamp = new Date(currentRecord.last_updated).getTime();
     if (currentTimestamp > update.timestamp) {
-      throw new Error('Conflict: Record was updated more recently on server');
+      return conflictIfChanged(buildConflict(update, currentRecord, 'Record was updated more recently on server'));
     }
   }
 
-  // Apply the update
-  const { error: updateError } = await supabaseServiceRole
-    .from('product_progress')
-    .update({
-      ...update.data,
-      last_updated: new Date(update.timestamp).toISOString()
-    })
-    .eq('id', update.record_id);
-
-  if (updateError) {
-    throw updateError;
+  return applyVersionedUpdate('product_progress', update, currentRecord as VersionedRow, {
+    ...update.data,
+    last_updated: new Date(update.timestamp).toISOString()
+  });
+}
+
+/**
+ * Daily logs and closeouts are one row per job per day. A device that expects to
+ * create the row (base_version null) conflicts with one another device created.
+ */
+async function processDailyRecord(
+  update: SyncUpdate,
+  table: 'daily_progress_log' | 'daily_closeout_forms',
+  dateColumn: 'log_date' | 'closeout_date'
+): Promise<SyncConflict | null> {
+  const date = (update.data[dateColumn] as string | undefined) || new Date(update.timestamp).toISOString().slice(0, 10);
+  const values = {
+    ...update.data,
+    job_id: update.job_id,
+    [dateColumn]: date,
+    created_at: new Date(update.timestamp).toISOString()
+  };
+
+  if (update.base_version === undefined) {
+    const { error } = await supabaseServiceRole
+      .from(table)
+      .upsert(values, {
+        onConflict: `job_id,${dateColumn}`,
+        ignoreDuplicates: false
+      });
+    if (error) throw error;
+    return null;
+  }
+
+  const current = await fetchRow(table, 'job_id', update.job_id, [dateColumn, date]);
+  if (current) {
+    // created_at records when the row was first written
+    const { created_at: _createdAt, ...changes } = values;
+    return applyVersionedUpdate(table, update, current, changes);
+  }
+
+  if (update.base_version !== null) {
+    throw new Error('Record no longer exists on the server');
+  }
+
+  const { error } = await supabaseServiceRole.from(table).insert(values);
+  if (error?.code === '23505') {
+    // Another device created it between our read and insert
+    const latest = await fetchRow(table, 'job_id', update.job_id, [dateColumn, date]);
+    if (latest) return conflictIfChanged(buildConflict(update, latest, 'Record was created on another device'));
   }
+  if (error) throw error;
+  return null;
 }
 
 async function processBulkUpdate(update: SyncUpdate): Promise<void> {
@@ -192,36 +330,12 @@ async function processBulkUpdate(update: SyncUpdate): Promise<void> {
   }
 }
 
-async function processDailyLog(update: SyncUpdate): Promise<void> {
-  const { error } = await supabaseServiceRole
-    .from('daily_progress_log')
-    .upsert({
-      ...update.data,
-      created_at: new Date(update.timestamp).toISOString()
-    }, { 
-      onConflict: 'job_id,log_date',
-      ignoreDuplicates: false 
-    });
-
-  if (error) {
-    throw error;
-  }
+function processDailyLog(update: SyncUpdate): Promise<SyncConflict | null> {
+  return processDailyRecord(update, 'daily_progress_log', 'log_date');
 }
 
-async function processCloseout(update: SyncUpdate): Promise<void> {
-  const { error } = await supabaseServiceRole
-    .from('daily_closeout_forms')
-    .upsert({
-      ...update.data,
-      created_at: new Date(update.timestamp).toISOString()
-    }, { 
-      onConflict: 'job_id,closeout_date',
-      ignoreDuplicates: false 
-    });
-
-  if (error) {
-    throw error;
-  }
+function processCloseout(update: SyncUpdate): Promise<SyncConflict | null> {
+  return processDailyRecord(update, 'daily_closeout_forms', 'closeout_date');
 }
 
 async function getJobState(jobId: string): Promise<{ data: Record<string, unknown> }> {
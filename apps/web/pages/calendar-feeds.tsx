@@ -0,0 +1,198 @@
+// Calendar feeds: subscription links that put an operative's shifts, a job's
+// allocated days or the company schedule into a phone or desktop calendar.
+// Each link carries its own secret, so anyone with it can read the schedule
+// until it is revoked here. Operatives can only subscribe to their own shifts.
+import { useCallback, useEffect, useState } from 'react';
+
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { FEED_FUTURE_DAYS, FEED_PAST_DAYS, feedUrl, type CalendarFeed, type CalendarFeedScope } from '@/lib/calendarFeeds';
+import { createCalendarFeed, fetchCalendarFeeds, revokeCalendarFeed } from '@/lib/labourApi';
+import { canEdit } from '@/lib/roles';
+import { supabase } from '@/lib/supabaseClient';
+import { theme } from '@/lib/theme';
+import { getSiteUrl } from '@/lib/utils/url';
+
+type Option = { id: string; label: string; userId?: string | null };
+
+const SCOPE_LABELS: Record<CalendarFeedScope, string> = {
+  resource: 'Operative shifts',
+  job: 'Job schedule',
+  company: 'Company schedule'
+};
+
+export default function CalendarFeedsPage() {
+  useRequireAuth();
+  const { role, userId } = useUserRole();
+  const manager = canEdit(role);
+
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [operatives, setOperatives] = useState<Option[]>([]);
+  const [jobs, setJobs] = useState<Option[]>([]);
+  const [scope, setScope] = useState<CalendarFeedScope>('resource');
+  const [targetId, setTargetId] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [feedRows, resources, jobRows] = await Promise.all([
+        fetchCalendarFeeds(),
+        supabase.from('labour_resources').select('id, name, user_id')
+          .eq('active', true).eq('resource_type', 'worker').order('name'),
+        supabase.from('jobs').select('id, reference, title')
+          .is('deleted_at', null).not('status', 'in', '(completed,cancelled)').order('reference'),
+      ]);
+      setFeeds(feedRows);
+      setOperatives((resources.data ?? []).map(row => ({ id: row.id, label: row.name, userId: row.user_id })));
+      setJobs((jobRows.data ?? []).map(row => ({
+        id: row.id,
+        label: [row.reference, row.title].filter(Boolean).join(' ') || 'Untitled job'
+      })));
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function create() {
+    setBusy(true);
+    setError(null);
+    try {
+      await createCalendarFeed(scope, scope === 'resource'
+        ? { resourceId: targetId }
+        : scope === 'job' ? { jobId: targetId } : {});
+      setTargetId('');
+      await load();
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revoke(feed: CalendarFeed) {
+    if (!window.confirm('Revoke this feed? Calendars subscribed to it will stop updating.')) return;
+    setError(null);
+    try {
+      await revokeCalendarFeed(feed.id);
+      await load();
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function copy(feed: CalendarFeed) {
+    await navigator.clipboard.writeText(feedUrl(getSiteUrl(), feed.token));
+    setCopied(feed.id);
+  }
+
+  const describeFeed = (feed: CalendarFeed) => {
+    if (feed.scope === 'resource') return operatives.find(option => option.id === feed.resource_id)?.label ?? 'Operative';
+    if (feed.scope === 'job') return jobs.find(option => option.id === feed.job_id)?.label ?? 'Job';
+    return 'All jobs';
+  };
+
+  const targets = scope === 'resource'
+    ? operatives.filter(option => manager || (!!userId && option.userId === userId))
+    : scope === 'job' ? jobs : [];
+  const scopes = (Object.keys(SCOPE_LABELS) as CalendarFeedScope[])
+    .filter(option => option === 'resource' || manager);
+
+  const inputStyle = {
+    padding: '6px 8px',
+    background: theme.colors.panelAlt,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.sm,
+    color: theme.colors.text,
+    fontSize: 13
+  };
+
+  const buttonStyle = (color: string = theme.colors.panelAlt) => ({
+    padding: '6px 12px',
+    background: color,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.md,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer'
+  });
+
+  return (
+    <div style={{ padding: 24, color: theme.colors.text }}>
+      <h1 style={{ fontSize: 24, fontWeight: 800, margin: 0, marginBottom: 4 }}>Calendar Feeds</h1>
+      <p style={{ fontSize: 13, color: theme.colors.textSubtle, margin: 0, marginBottom: 16 }}>
+        Subscribe from your phone or Outlook to see the schedule from {FEED_PAST_DAYS} days ago to {FEED_FUTURE_DAYS} days ahead.
+        Changes appear as your calendar app refreshes, usually within the hour. Anyone with a link can read that schedule, so revoke any you no longer use.
+      </p>
+
+      {error && <div style={{ marginBottom: 12, color: theme.colors.danger, fontSize: 13 }}>{error}</div>}
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', padding: 16, marginBottom: 16, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+        <select value={scope} onChange={e => { setScope(e.target.value as CalendarFeedScope); setTargetId(''); }} style={inputStyle}>
+          {scopes.map(option => <option key={option} value={option}>{SCOPE_LABELS[option]}</option>)}
+        </select>
+        {scope !== 'company' && (
+          <select value={targetId} onChange={e => setTargetId(e.target.value)} style={{ ...inputStyle, minWidth: 220 }}>
+            <option value="">{scope === 'resource' ? 'Choose operative...' : 'Choose job...'}</option>
+            {targets.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+        )}
+        <button
+          style={buttonStyle(theme.colors.accent)}
+          disabled={busy || (scope !== 'company' && !targetId)}
+          onClick={create}
+        >
+          {busy ? 'Creating...' : 'Create feed'}
+        </button>
+      </div>
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : feeds.length === 0 ? (
+        <div style={{ padding: 24, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+          You have no calendar feeds yet.
+        </div>
+      ) : (
+        <div style={{ background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg, overflow: 'hidden' }}>
+          {feeds.map((feed, index) => (
+            <div
+              key={feed.id}
+              style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12, flexWrap: 'wrap', padding: '12px 16px', borderTop: index > 0 ? `1px solid ${theme.colors.border}` : 'none' }}
+            >
+              <div>
+                <div style={{ fontWeight: 700 }}>{SCOPE_LABELS[feed.scope]}: {describeFeed(feed)}</div>
+                <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>
+                  {feed.last_used_at
+                    ? `Last fetched ${new Date(feed.last_used_at).toLocaleString('en-GB')}`
+                    : 'Not fetched yet'}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: 6 }}>
+                <a href={feedUrl(getSiteUrl(), feed.token, true)} style={{ ...buttonStyle(theme.colors.accent), textDecoration: 'none' }}>
+                  Subscribe
+                </a>
+                <button style={buttonStyle()} onClick={() => copy(feed)}>
+                  {copied === feed.id ? 'Copied' : 'Copy link'}
+                </button>
+                <button style={{ ...buttonStyle(), color: theme.colors.danger }} onClick={() => revoke(feed)}>
+                  Revoke
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+// Manufacturer price list import: read an XLSX/CSV list, map its columns (saved
+// per manufacturer as a template), review what it adds, changes and
+// discontinues in the product catalogue, then apply it
+import { useEffect, useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import {
+  CATALOGUE_FIELDS,
+  DEFAULT_IMPORT_OPTIONS,
+  FIELD_LABELS,
+  suggestColumnMap,
+  type CatalogueField,
+  type ColumnMap,
+  type ImportDiff,
+  type ImportOptions,
+  type ImportSummary,
+  type ImportTemplate,
+} from '@/lib/catalogueImport';
+import {
+  applyCatalogueImport,
+  deleteImportTemplate,
+  fetchImportTemplates,
+  previewCatalogueImport,
+  saveImportTemplate,
+} from '@/lib/labourApi';
+import { canEdit } from '@/lib/roles';
+import { theme } from '@/lib/theme';
+
+type Section = 'added' | 'changed' | 'discontinued' | 'locked' | 'errors';
+
+const SECTION_LABELS: Record<Section, string> = {
+  added: 'New',
+  changed: 'Changed',
+  discontinued: 'Discontinued',
+  locked: 'Locked (skipped)',
+  errors: 'Errors',
+};
+
+/** Rows shown per section; the import itself covers every row */
+const PREVIEW_LIMIT = 200;
+
+const format = (value: string | number | null) => (value === null || value === '' ? '—' : String(value));
+
+export default function CatalogueImportPage() {
+  useRequireAuth();
+  const { role, loading: roleLoading } = useUserRole();
+  const allowed = canEdit(role);
+
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string>('');
+  const [templateName, setTemplateName] = useState('');
+  const [manufacturer, setManufacturer] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [headerRow, setHeaderRow] = useState(1);
+  const [columnMap, setColumnMap] = useState<ColumnMap>({});
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_IMPORT_OPTIONS);
+  const [preview, setPreview] = useState<{ summary: ImportSummary; diff: ImportDiff } | null>(null);
+  const [section, setSection] = useState<Section>('added');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!allowed) return;
+    fetchImportTemplates().then(setTemplates).catch((err: Error) => setError(err.message));
+  }, [allowed]);
+
+  const template = templates.find(candidate => candidate.id === templateId) ?? null;
+
+  // The sheet from the header row down, as text cells
+  const rows = useMemo(() => {
+    const sheet = workbook && sheetName ? workbook.Sheets[sheetName] : null;
+    if (!sheet) return [];
+    const all = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+    return all.slice(Math.max(0, headerRow - 1));
+  }, [workbook, sheetName, headerRow]);
+  const headers = useMemo(() => (rows[0] ?? []).map(cell => String(cell ?? '').trim()).filter(Boolean), [rows]);
+
+  useEffect(() => {
+    setColumnMap(suggestColumnMap(headers, template));
+    setPreview(null);
+  }, [headers, template]);
+
+  function chooseTemplate(id: string) {
+    setTemplateId(id);
+    const chosen = templates.find(candidate => candidate.id === id);
+    if (chosen) {
+      setManufacturer(chosen.manufacturer);
+      setTemplateName(chosen.name);
+      setOptions({ ...DEFAULT_IMPORT_OPTIONS, ...chosen.options });
+    }
+  }
+
+  async function readFile(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    try {
+      const book = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      setWorkbook(book);
+      setSheetName(book.SheetNames[0] ?? '');
+      setHeaderRow(1);
+      setFileName(file.name);
+    } catch (err: unknown) {
+      setError(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  }
+
+  const input = () => ({
+    manufacturer: manufacturer.trim(),
+    rows,
+    columnMap: Object.fromEntries(Object.entries(columnMap).filter(([, header]) => header)) as ColumnMap,
+    options,
+    templateId: templateId || null,
+    fileName,
+  });
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const saveTemplate = () => run(async () => {
+    const saved = await saveImportTemplate({
+      manufacturer: manufacturer.trim(),
+      name: templateName.trim(),
+      column_map: input().columnMap,
+      options,
+    });
+    setTemplates(await fetchImportTemplates());
+    setTemplateId(saved.id);
+    setMessage(`Saved template ${saved.manufacturer} / ${saved.name}`);
+  });
+
+  const removeTemplate = () => run(async () => {
+    if (!template || !window.confirm(`Delete the ${template.manufacturer} / ${template.name} template?`)) return;
+    await deleteImportTemplate(template.id);
+    setTemplates(prev => prev.filter(candidate => candidate.id !== template.id));
+    setTemplateId('');
+  });
+
+  const dryRun = () => run(async () => {
+    const result = await previewCatalogueImport(input());
+    setPreview(result);
+    setSection(result.summary.added ? 'added' : result.summary.changed ? 'changed' : 'discontinued');
+  });
+
+  const apply = () => run(async () => {
+    if (!preview) return;
+    const { summary } = preview;
+    const confirmed = window.confirm(
+      `Add ${summary.added}, update ${summary.changed} and discontinue ${summary.discontinued} ${manufacturer} product(s)?`
+    );
+    if (!confirmed) return;
+
+    const result = await applyCatalogueImport(input());
+    setPreview(null);
+    setMessage(
+      `Imported ${fileName ?? 'list'}: ${result.summary.added} new, ${result.summary.changed} changed, ` +
+      `${result.summary.discontinued} discontinued, ${result.summary.aliases} alias(es) added`
+    );
+  });
+
+  const setOption = <K extends keyof ImportOptions>(key: K, value: ImportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+    setPreview(null);
+  };
+
+  const buttonStyle = (enabled: boolean, color: string = theme.colors.panelAlt) => ({
+    padding: '8px 14px',
+    background: color,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.md,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5
+  });
+  const fieldStyle = {
+    padding: '6px 8px',
+    background: theme.colors.panelAlt,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.sm,
+    fontSize: 13
+  };
+  const panel = {
+    padding: 16,
+    marginBottom: 16,
+    background: theme.colors.panel,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.lg
+  };
+  const label = { display: 'block', fontSize: 12, color: theme.colors.textSubtle, marginBottom: 4 };
+  const cell = { padding: 8, borderBottom: `1px solid ${theme.colors.border}` };
+
+  if (roleLoading) return <div style={{ padding: 24, color: theme.colors.text }}>Loading...</div>;
+  if (!allowed) {
+    return <div style={{ padding: 24, color: theme.colors.text }}>You do not have permission to import catalogue products.</div>;
+  }
+
+  const canPreview = !busy && manufacturer.trim().length > 0 && rows.length > 1 && Boolean(columnMap.code);
+  const diff = preview?.diff;
+
+  return (
+    <div style={{ padding: 24, color: theme.colors.text }}>
+      <h1 style={{ fontSize: 24, fontWeight: 800, margin: 0, marginBottom: 4 }}>Catalogue Import</h1>
+      <p style={{ fontSize: 13, color: theme.colors.textSubtle, margin: 0, marginBottom: 16 }}>
+        Import a manufacturer price list into the product catalogue that SmartQuote and the floor planner share.
+        Dimensions are stored in mm and install times in hours.
+      </p>
+
+      {message && <div style={{ marginBottom: 12, color: theme.colors.success, fontSize: 13 }}>{message}</div>}
+      {error && <div style={{ marginBottom: 12, color: theme.colors.danger, fontSize: 13 }}>{error}</div>}
+
+      <div style={panel}>
+        <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <div>
+            <label style={label}>Template</label>
+            <select style={fieldStyle} value={templateId} onChange={e => chooseTemplate(e.target.value)}>
+              <option value="">None</option>
+              {templates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.manufacturer} / {candidate.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={label}>Manufacturer</label>
+            <input style={fieldStyle} value={manufacturer} onChange={e => { setManufacturer(e.target.value); setPreview(null); }} placeholder="e.g. Steelcase" />
+          </div>
+          <div>
+            <label style={label}>Price list (XLSX or CSV)</label>
+            <input type="file" accept=".xlsx,.xls,.csv" onChange={e => readFile(e.target.files?.[0])} style={{ fontSize: 13 }} />
+          </div>
+          {workbook && workbook.SheetNames.length > 1 && (
+            <div>
+              <label style={label}>Sheet</label>
+              <select style={fieldStyle} value={sheetName} onChange={e => setSheetName(e.target.value)}>
+                {workbook.SheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+          )}
+          {workbook && (
+            <div>
+              <label style={label}>Header row</label>
+              <input
+                type="number"
+                min={1}
+                style={{ ...fieldStyle, width: 70 }}
+                value={headerRow}
+                onChange={e => setHeaderRow(Math.max(1, Number(e.target.value) || 1))}
+              />
+            </div>
+          )}
+        </div>
+        {workbook && (
+          <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginTop: 8 }}>
+            {fileName}: {Math.max(0, rows.length - 1)} row(s) under {headers.length} column(s)
+          </div>
+        )}
+      </div>
+
+      {headers.length > 0 && (
+        <div style={panel}>
+          <h2 style={{ fontSize: 16, fontWeight: 700, margin: 0, marginBottom: 12 }}>Columns</h2>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: 12, marginBottom: 16 }}>
+            {CATALOGUE_FIELDS.map((field: CatalogueField) => (
+              <div key={field}>
+                <label style={label}>{FIELD_LABELS[field]}{field === 'code' ? ' *' : ''}</label>
+                <select
+                  style={{ ...fieldStyle, width: '100%' }}
+                  value={columnMap[field] ?? ''}
+                  onChange={e => { setColumnMap(prev => ({ ...prev, [field]: e.target.value || undefined })); setPreview(null); }}
+                >
+                  <option value="">Not in this list</option>
+                  {headers.map(header => <option key={header} value={header}>{header}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: 16 }}>
+            <div>
+              <label style={label}>Dimensions in</label>
+              <select style={fieldStyle} value={options.dimensionUnit} onChange={e => setOption('dimensionUnit', e.target.value as ImportOptions['dimensionUnit'])}>
+                <option value="mm">mm</option>
+                <option value="cm">cm</option>
+                <option value="m">m</option>
+              </select>
+            </div>
+            <div>
+              <label style={label}>Install time in</label>
+              <select style={fieldStyle} value={options.installTimeUnit} onChange={e => setOption('installTimeUnit', e.target.value as ImportOptions['installTimeUnit'])}>
+                <option value="hours">hours</option>
+                <option value="minutes">minutes</option>
+              </select>
+            </div>
+            <div>
+              <label style={label}>Default install time (h)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.05}
+                style={{ ...fieldStyle, width: 90 }}
+                value={options.defaultInstallTimeHours}
+                onChange={e => setOption('defaultInstallTimeHours', Number(e.target.value) || 0)}
+              />
+            </div>
+            <div>
+              <label style={label}>Code prefix</label>
+              <input style={{ ...fieldStyle, width: 90 }} value={options.codePrefix} onChange={e => setOption('codePrefix', e.target.value)} placeholder="e.g. SC-" />
+            </div>
+            <div>
+              <label style={label}>Alias without last segments</label>
+              <select style={fieldStyle} value={options.variantSuffixSegments} onChange={e => setOption('variantSuffixSegments', Number(e.target.value))}>
+                <option value={0}>No</option>
+                <option value={1}>1 (finish)</option>
+                <option value={2}>2 (finish, colour)</option>
+                <option value={3}>3</option>
+              </select>
+            </div>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center', fontSize: 13 }}>
+              <input type="checkbox" checked={options.discontinueMissing} onChange={e => setOption('discontinueMissing', e.target.checked)} />
+              Full list: discontinue {manufacturer || 'manufacturer'} products not in it
+            </label>
+          </div>
+
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+            <input style={fieldStyle} value={templateName} onChange={e => setTemplateName(e.target.value)} placeholder="Template name" />
+            <button
+              style={buttonStyle(!busy && Boolean(manufacturer.trim() && templateName.trim()))}
+              disabled={busy || !manufacturer.trim() || !templateName.trim()}
+              onClick={saveTemplate}
+            >
+              Save template
+            </button>
+            {template && <button style={buttonStyle(!busy)} disabled={busy} onClick={removeTemplate}>Delete template</button>}
+            <div style={{ flex: 1 }} />
+            <button style={buttonStyle(canPreview, theme.colors.accent)} disabled={!canPreview} onClick={dryRun}>
+              {busy ? 'Working...' : 'Dry run'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {preview && diff && (
+        <div style={panel}>
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginBottom: 12 }}>
+            {(Object.keys(SECTION_LABELS) as Section[]).map(key => (
+              <button
+                key={key}
+                style={{ ...buttonStyle(true, section === key ? theme.colors.accentAlt : theme.colors.panelAlt), color: key === 'errors' && preview.summary.errors ? theme.colors.danger : theme.colors.text }}
+                onClick={() => setSection(key)}
+              >
+                {SECTION_LABELS[key]} {preview.summary[key]}
+              </button>
+            ))}
+            <span style={{ fontSize: 12, color: theme.colors.textSubtle }}>
+              {preview.summary.unchanged} unchanged · {preview.summary.aliases} new alias(es)
+            </span>
+            <div style={{ flex: 1 }} />
+            <button
+              style={buttonStyle(!busy && preview.summary.added + preview.summary.changed + preview.summary.discontinued + preview.summary.aliases > 0, theme.colors.accent)}
+              disabled={busy || preview.summary.added + preview.summary.changed + preview.summary.discontinued + preview.summary.aliases === 0}
+              onClick={apply}
+            >
+              Apply import
+            </button>
+          </div>
+
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+            <tbody>
+              {section === 'added' && diff.added.slice(0, PREVIEW_LIMIT).map(({ product, aliases }) => (
+                <tr key={product.code}>
+                  <td style={{ ...cell, fontWeight: 600 }}>{product.code}</td>
+                  <td style={cell}>{product.values.canonical_name ?? '—'}</td>
+                  <td style={cell}>
+                    {[product.values.dimension_l, product.values.dimension_w, product.values.dimension_h].filter(Boolean).join(' × ') || '—'}
+                  </td>
+                  <td style={cell}>{format(product.values.install_time_hours ?? null)}h</td>
+                  <td style={cell}>{product.values.list_price !== undefined ? `£${product.values.list_price}` : '—'}</td>
+                  <td style={{ ...cell, color: theme.colors.textSubtle }}>{aliases.join(', ')}</td>
+                </tr>
+              ))}
+              {section === 'changed' && diff.changed.slice(0, PREVIEW_LIMIT).map(({ product, existing, changes, aliases }) => (
+                <tr key={existing.id}>
+                  <td style={{ ...cell, fontWeight: 600 }}>{existing.canonical_code}</td>
+                  <td style={cell}>
+                    {changes.map(change => (
+                      <div key={change.field}>
+                        {change.field}: <span style={{ color: theme.colors.textSubtle }}>{format(change.from)}</span> → {format(change.to)}
+                      </div>
+                    ))}
+                  </td>
+                  <td style={{ ...cell, color: theme.colors.textSubtle }}>
+                    {product.code !== existing.canonical_code ? `listed as ${product.code}` : ''}
+                    {aliases.length > 0 ? ` + ${aliases.join(', ')}` : ''}
+                  </td>
+                </tr>
+              ))}
+              {(section === 'discontinued' || section === 'locked') && diff[section].slice(0, PREVIEW_LIMIT).map(existing => (
+                <tr key={existing.id}>
+                  <td style={{ ...cell, fontWeight: 600 }}>{existing.canonical_code}</td>
+                  <td style={cell}>{existing.canonical_name}</td>
+                  <td style={{ ...cell, color: theme.colors.textSubtle }}>{existing.manufacturer ?? ''}</td>
+                </tr>
+              ))}
+              {section === 'errors' && diff.errors.slice(0, PREVIEW_LIMIT).map(rowError => (
+                <tr key={`${rowError.row}-${rowError.message}`}>
+                  <td style={{ ...cell, width: 90 }}>Row {rowError.row + headerRow - 1}</td>
+                  <td style={{ ...cell, color: theme.colors.danger }}>{rowError.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {(section === 'errors' ? diff.errors : diff[section]).length > PREVIEW_LIMIT && (
+            <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginTop: 8 }}>
+              Showing the first {PREVIEW_LIMIT}.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useRouter } from "next/router";
 import { useState } from "react";
 
 import { useRequireAuth } from "../../hooks/useRequireAuth";
+import { useTranslation } from "../../lib/I18nProvider";
 import { supabase } from "../../lib/supabaseClient";
 import { theme } from "../../lib/theme";
 
@@ -10,6 +11,7 @@ import { theme } from "../../lib/theme";
 export default function CloseDay() {
   useRequireAuth();
   const r = useRouter();
+  const { t } = useTranslation();
   const jobId = typeof r.query.jobId === "string" ? r.query.jobId : undefined;
 
   const [crew, setCrew] = useState(0);
@@ -99,11 +101,11 @@ export default function CloseDay() {
         if (costErr) throw costErr;
       }
 
-      setMsg("Day report saved.");
+      setMsg(t("closeDay.saved"));
       // Optionally navigate back to the job after a short delay
       r.push(`/jobs/${jobId}`);
     } catch (e: unknown) {
-      setMsg(e instanceof Error ? e.message : "Failed to save day report.");
+      setMsg(e instanceof Error ? e.message : t("closeDay.saveFailed"));
     } finally {
       setBusy(false);
     }
@@ -113,19 +115,19 @@ export default function CloseDay() {
     <div style={{ padding: 16, maxWidth: 640 }}>
       <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 10 }}>
         <Link href={`/jobs/${jobId}`} style={{ color: theme.colors.textSubtle, textDecoration: "none" }}>
-          ← Back
+          ← {t("common.back")}
         </Link>
-        <h2 style={{ margin: 0 }}>Close Day</h2>
+        <h2 style={{ margin: 0 }}>{t("closeDay.title")}</h2>
       </div>
 
       <div style={{ display: "grid", gap: 12 }}>
-        <NumberRow label="Crew count" value={crew} onChange={setCrew} />
-        <NumberRow label="Waste loads" value={waste} onChange={setWaste} />
-        <NumberRow label="Buffer used (%)" value={buffer} onChange={setBuffer} />
-        <NumberRow label="Photos taken" value={photosCount} onChange={setPhotosCount} />
+        <NumberRow label={t("closeDay.crewCount")} value={crew} onChange={setCrew} />
+        <NumberRow label={t("closeDay.wasteLoads")} value={waste} onChange={setWaste} />
+        <NumberRow label={t("closeDay.bufferUsed")} value={buffer} onChange={setBuffer} />
+        <NumberRow label={t("closeDay.photosTaken")} value={photosCount} onChange={setPhotosCount} />
 
         <div>
-          <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginBottom: 6 }}>Notes</div>
+          <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginBottom: 6 }}>{t("common.notes")}</div>
           <textarea
             rows={4}
             value={notes}
@@ -155,7 +157,7 @@ export default function CloseDay() {
               opacity: busy ? 0.7 : 1
             }}
           >
-            Save Report
+            {t("closeDay.saveReport")}
           </button>
           {msg && <div style={{ alignSelf: "center", color: theme.colors.textSubtle }}>{msg}</div>}
         </div>
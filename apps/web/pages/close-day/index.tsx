@@ -2,6 +2,7 @@
 import { useRouter } from "next/router";
 import { useEffect, useState } from "react";
 
+import { useTranslation } from "../../lib/I18nProvider";
 import { supabase } from "../../lib/supabaseClient";
 import { theme } from "../../lib/theme";
 
@@ -14,6 +15,7 @@ type Job = {
 
 export default function CloseDayIndex() {
   const router = useRouter();
+  const { t } = useTranslation();
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -36,12 +38,12 @@ export default function CloseDayIndex() {
 
   return (
     <div style={{ padding: 24 }}>
-      <h1 style={{ color: theme.colors.text }}>Close Day - Select Job</h1>
+      <h1 style={{ color: theme.colors.text }}>{t("closeDay.selectJob")}</h1>
       
       {loading ? (
-        <div style={{ color: theme.colors.textSubtle }}>Loading jobs...</div>
+        <div style={{ color: theme.colors.textSubtle }}>{t("closeDay.loadingJobs")}</div>
       ) : jobs.length === 0 ? (
-        <div style={{ color: theme.colors.textSubtle }}>No active jobs to close.</div>
+        <div style={{ color: theme.colors.textSubtle }}>{t("closeDay.noActiveJobs")}</div>
       ) : (
         <div style={{ display: "grid", gap: 12 }}>
           {jobs.map((job) => (
@@ -59,7 +61,7 @@ export default function CloseDayIndex() {
             >
               <div>
                 <div style={{ color: theme.colors.text, fontWeight: 600 }}>{job.title}</div>
-                <div style={{ color: theme.colors.textSubtle }}>{job.client_name || "No client"}</div>
+                <div style={{ color: theme.colors.textSubtle }}>{job.client_name || t("common.noClient")}</div>
               </div>
               <button
                 onClick={() => router.push(`/close-day/${job.id}`)}
@@ -72,7 +74,7 @@ export default function CloseDayIndex() {
                   cursor: "pointer"
                 }}
               >
-                Close Day
+                {t("closeDay.title")}
               </button>
             </div>
           ))}
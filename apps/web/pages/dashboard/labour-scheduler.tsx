@@ -2,6 +2,8 @@ import { useRouter } from 'next/router';
 import { useState, useEffect, useCallback } from 'react';
 
 import { useUserRole } from '@/hooks/useUserRole';
+import { fetchLabourConflicts } from '@/lib/labourApi';
+import type { CapacityDay, CapacityResource } from '@/lib/labourConflicts';
 import { supabase } from '@/lib/supabaseClient';
 
 interface DayAllocation {
@@ -23,6 +25,12 @@ interface JobSummary {
   progress: number;
 }
 
+const CAPACITY_LABELS: Array<[CapacityResource, string]> = [
+  ['installers', '👷'],
+  ['vans', '🚐'],
+  ['supervisors', '📋']
+];
+
 const MONTH_NAMES = [
   'January', 'February', 'March', 'April', 'May', 'June',
   'July', 'August', 'September', 'October', 'November', 'December'
@@ -40,6 +48,7 @@ export default function DashboardLabourScheduler() {
   const [_allocationMode, _setAllocationMode] = useState<'auto' | 'manual' | 'balanced'>('auto');
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'overview' | 'job'>('overview');
+  const [capacity, setCapacity] = useState<Record<string, CapacityDay>>({});
 
   // Calculate working days between dates
   const getWorkingDays = (start: Date, end: Date): number => {
@@ -184,6 +193,17 @@ export default function DashboardLabourScheduler() {
     loadJobsData();
   }, [userRole, loadJobsData]);
 
+  // Daily capacity against all jobs' allocations for the month on screen
+  useEffect(() => {
+    if (!userRole) return;
+    const year = currentDate.getFullYear();
+    const month = currentDate.getMonth();
+
+    fetchLabourConflicts(formatDate(new Date(year, month, 1)), formatDate(new Date(year, month + 1, 0)))
+      .then(({ days }) => setCapacity(Object.fromEntries(days.map(day => [day.date, day]))))
+      .catch(error => console.error('Error loading labour capacity:', error));
+  }, [userRole, currentDate]);
+
   // Select job for detailed scheduling
   const selectJob = (job: JobSummary) => {
     setSelectedJob(job);
@@ -242,9 +262,24 @@ export default function DashboardLabourScheduler() {
         }
       });
 
+      // Capacity line: used/available per resource, where we know what we have
+      const dayCapacity = capacity[dateStr];
+      const capacityItems = dayCapacity
+        ? CAPACITY_LABELS
+          .filter(([resource]) => dayCapacity.capacity[resource] !== null)
+          .map(([resource, icon]) => ({
+            resource,
+            icon,
+            used: dayCapacity.demand[resource],
+            available: dayCapacity.capacity[resource] as number
+          }))
+        : [];
+      const overCapacity = capacityItems.some(item => item.used > item.available);
+
       let cellClass = 'day-cell';
       if (isWeekend) cellClass += ' weekend';
       if (jobAllocations.length > 0) cellClass += ' selected';
+      if (overCapacity) cellClass += ' over-capacity';
 
       days.push(
         <div key={day} className={cellClass}>
@@ -263,6 +298,15 @@ export default function DashboardLabourScheduler() {
               <div className="job-count">{jobAllocations.length} jobs</div>
             )}
           </div>
+          {capacityItems.length > 0 && (
+            <div className="capacity-line" title="Allocated / available after leave">
+              {capacityItems.map(item => (
+                <span key={item.resource} className={item.used > item.available ? 'over' : undefined}>
+                  {item.icon} {item.used}/{item.available}
+                </span>
+              ))}
+            </div>
+          )}
           {totalHours > 0 && (
             <div className="capacity-indicator">{totalHours.toFixed(1)}h</div>
           )}
@@ -634,6 +678,24 @@ export default function DashboardLabourScheduler() {
           border-radius: 2px;
         }
 
+        .day-cell.over-capacity {
+          box-shadow: inset 0 0 0 1px rgba(239, 68, 68, 0.6);
+        }
+
+        .capacity-line {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin-top: 4px;
+          font-size: 9px;
+          color: #888;
+        }
+
+        .capacity-line .over {
+          color: #f87171;
+          font-weight: 700;
+        }
+
         .capacity-indicator {
           position: absolute;
           bottom: 4px;
@@ -699,6 +761,12 @@ export default function DashboardLabourScheduler() {
           <div className="calendar-header">
             <h1 className="calendar-title">Labour Overview</h1>
             <div className="view-mode">
+              <button
+                className="mode-btn"
+                onClick={() => router.push('/labour-conflicts')}
+              >
+                Conflicts
+              </button>
               <button
                 className={`mode-btn ${viewMode === 'overview' ? 'active' : ''}`}
                 onClick={() => setViewMode('overview')}
@@ -16,6 +16,8 @@ import FloorPlanTab from "@/components/tabs/FloorPlanTab";
 import LabourTab from "@/components/tabs/LabourTab";
 import NotesTab from "@/components/tabs/NotesTab";
 import PhotosTab from "@/components/tabs/PhotosTab";
+import ProgrammeTab from "@/components/tabs/ProgrammeTab";
+import SnagsTab from "@/components/tabs/SnagsTab";
 import TasksTab from "@/components/tabs/TasksTab";
 import { useUserRole } from "@/hooks/useUserRole";
 import { logJobEdit } from "@/lib/jobEditLogger";
@@ -62,7 +64,7 @@ type HeaderRow = {
   status: DbJobStatus;
 };
 
-type TabType = "overview" | "tasks" | "documents" | "notes" | "photos" | "labour" | "floorplan" | "editHistory";
+type TabType = "overview" | "tasks" | "documents" | "notes" | "photos" | "labour" | "programme" | "floorplan" | "snags" | "editHistory";
 
 const TAB_LABELS: Record<TabType, string> = {
   overview: "Overview",
@@ -71,7 +73,9 @@ const TAB_LABELS: Record<TabType, string> = {
   notes: "Notes",
   photos: "Photos",
   labour: "Labour",
+  programme: "Programme",
   floorplan: "Floor Plan",
+  snags: "Snags",
   editHistory: "Edit History"
 };
 
@@ -344,7 +348,7 @@ export default function JobDetailPage() {
 
     if (error) {
       // console.error('Failed to update job status:', error);
-      setErr(`Failed to update status: ${error instanceof Error ? error.message : "Unknown error"}`);
+      setErr(`Failed to update status: ${error.message || "Unknown error"}`);
       return;
     }
 
@@ -778,6 +782,7 @@ export default function JobDetailPage() {
                 {activeTab === "notes" && <NotesTab jobId={id!} />}
                 {activeTab === "photos" && <PhotosTab jobId={id!} />}
                 {activeTab === "labour" && <LabourTab jobId={id!} />}
+                {activeTab === "programme" && <ProgrammeTab jobId={id!} canManage={canManage} />}
                 {activeTab === "overview" && (
                   <div dangerouslySetInnerHTML={{
                     __html: `
@@ -1577,6 +1582,7 @@ export default function JobDetailPage() {
                 )}
                 {activeTab === "floorplan" && <FloorPlanTab jobId={id!} canManage={canManage} />}
                 {activeTab === "documents" && <DocumentsTab jobId={id!} canManage={canUpload} />}
+                {activeTab === "snags" && <SnagsTab jobId={id!} canManage={canManage} />}
                 {activeTab === "editHistory" && <EditHistoryTab jobId={id!} canView={canViewHistory} />}
               </div>
             </section>
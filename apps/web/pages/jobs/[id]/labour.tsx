@@ -2,6 +2,7 @@ import { useRouter } from 'next/router';
 import { useState, useEffect, useCallback } from 'react';
 
 import { useUserRole } from '@/hooks/useUserRole';
+import { saveJobAllocations } from '@/lib/labourApi';
 import { canEditLabour } from '@/lib/roles';
 import { supabase } from '@/lib/supabaseClient';
 
@@ -274,54 +275,9 @@ export default function LabourScheduler() {
     }
 
     try {
-      // Delete existing allocations for this job
-      await supabase
-        .from('labour_allocations')
-        .delete()
-        .eq('job_id', job.id);
-
-      // Insert new allocations
-      const allocationInserts = [];
-
-      for (const [date, allocation] of Object.entries(allocations)) {
-        if (allocation.van > 0) {
-          allocationInserts.push({
-            job_id: job.id,
-            work_date: date,
-            role: 'installer',
-            crew_mode: 'van',
-            headcount: allocation.van
-          });
-        }
-
-        if (allocation.foot > 0) {
-          allocationInserts.push({
-            job_id: job.id,
-            work_date: date,
-            role: 'installer',
-            crew_mode: 'foot',
-            headcount: allocation.foot
-          });
-        }
-
-        if (allocation.supervisor > 0) {
-          allocationInserts.push({
-            job_id: job.id,
-            work_date: date,
-            role: 'supervisor',
-            crew_mode: null,
-            headcount: allocation.supervisor
-          });
-        }
-      }
-
-      if (allocationInserts.length > 0) {
-        const { error } = await supabase
-          .from('labour_allocations')
-          .insert(allocationInserts);
-
-        if (error) throw error;
-      }
+      // Saved through the API so the day-by-day capacity check runs
+      const saved = await saveJobAllocations(job.id, allocations);
+      if (!saved) return;
 
       alert('Schedule saved successfully!');
     } catch (error: unknown) {
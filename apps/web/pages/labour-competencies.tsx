@@ -0,0 +1,266 @@
+// Operative tickets register: each worker's cards with number, expiry and a
+// scanned copy. Cards expiring within 30 days are flagged here and on the task banner.
+import { useCallback, useEffect, useState } from 'react';
+
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import {
+  EXPIRY_WARNING_DAYS,
+  TICKET_LABELS,
+  TICKET_TYPES,
+  competencyStatus,
+  type Competency,
+  type CompetencyStatus,
+  type TicketType,
+} from '@/lib/competencies';
+import { deleteCompetency, fetchCompetencyRegister, saveCompetency, type RegisterWorker } from '@/lib/labourApi';
+import { canEdit } from '@/lib/roles';
+import { theme } from '@/lib/theme';
+
+const STATUS_COLORS: Record<CompetencyStatus, string> = {
+  valid: theme.colors.success,
+  expiring: theme.colors.warn,
+  expired: theme.colors.danger
+};
+
+type Draft = {
+  id: string | null;
+  resource_id: string;
+  ticket_type: TicketType;
+  card_number: string;
+  issued_on: string;
+  expires_on: string;
+  notes: string;
+  scan: File | null;
+};
+
+const emptyDraft = (resourceId = ''): Draft => ({
+  id: null,
+  resource_id: resourceId,
+  ticket_type: 'CSCS',
+  card_number: '',
+  issued_on: '',
+  expires_on: '',
+  notes: '',
+  scan: null
+});
+
+export default function LabourCompetenciesPage() {
+  useRequireAuth();
+  const { role } = useUserRole();
+  const canManage = canEdit(role);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const [workers, setWorkers] = useState<RegisterWorker[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [onlyAttention, setOnlyAttention] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setWorkers(await fetchCompetencyRegister());
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function save() {
+    if (!draft) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      if (draft.id) form.append('id', draft.id);
+      form.append('resource_id', draft.resource_id);
+      form.append('ticket_type', draft.ticket_type);
+      form.append('card_number', draft.card_number);
+      form.append('issued_on', draft.issued_on);
+      form.append('expires_on', draft.expires_on);
+      form.append('notes', draft.notes);
+      if (draft.scan) form.append('scan', draft.scan);
+
+      await saveCompetency(form);
+      setDraft(null);
+      await load();
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(competency: Competency) {
+    if (!window.confirm(`Remove this ${TICKET_LABELS[competency.ticket_type]} card?`)) return;
+    setError(null);
+    try {
+      await deleteCompetency(competency.id);
+      await load();
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    }
+  }
+
+  const edit = (competency: Competency) => setDraft({
+    id: competency.id,
+    resource_id: competency.resource_id,
+    ticket_type: competency.ticket_type,
+    card_number: competency.card_number ?? '',
+    issued_on: competency.issued_on ?? '',
+    expires_on: competency.expires_on ?? '',
+    notes: competency.notes ?? '',
+    scan: null
+  });
+
+  const attention = workers.flatMap(worker => worker.competencies)
+    .filter(competency => competencyStatus(competency, today) !== 'valid').length;
+  const shown = onlyAttention
+    ? workers.filter(worker => worker.competencies.some(competency => competencyStatus(competency, today) !== 'valid'))
+    : workers;
+
+  const inputStyle = {
+    padding: '6px 8px',
+    background: theme.colors.panelAlt,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.sm,
+    color: theme.colors.text,
+    fontSize: 13
+  };
+
+  const buttonStyle = (color: string = theme.colors.panelAlt) => ({
+    padding: '6px 12px',
+    background: color,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.md,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer'
+  });
+
+  return (
+    <div style={{ padding: 24, color: theme.colors.text }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', gap: 16, flexWrap: 'wrap', marginBottom: 16 }}>
+        <div>
+          <h1 style={{ fontSize: 24, fontWeight: 800, margin: 0, marginBottom: 4 }}>Tickets &amp; Competencies</h1>
+          <p style={{ fontSize: 13, color: theme.colors.textSubtle, margin: 0 }}>
+            {attention} card(s) expired or expiring within {EXPIRY_WARNING_DAYS} days
+          </p>
+        </div>
+        <label style={{ fontSize: 13, display: 'flex', gap: 6, alignItems: 'center' }}>
+          <input type="checkbox" checked={onlyAttention} onChange={e => setOnlyAttention(e.target.checked)} />
+          Only needing attention
+        </label>
+      </div>
+
+      {error && <div style={{ marginBottom: 12, color: theme.colors.danger, fontSize: 13 }}>{error}</div>}
+
+      {draft && (
+        <div style={{ padding: 16, marginBottom: 16, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+          <div style={{ fontWeight: 700, marginBottom: 12 }}>
+            {draft.id ? 'Update card' : `Add card for ${workers.find(worker => worker.id === draft.resource_id)?.name ?? ''}`}
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: 12, fontSize: 12 }}>
+            <label>Ticket<br />
+              <select value={draft.ticket_type} onChange={e => setDraft({ ...draft, ticket_type: e.target.value as TicketType })} style={inputStyle}>
+                {TICKET_TYPES.map(type => <option key={type} value={type}>{TICKET_LABELS[type]}</option>)}
+              </select>
+            </label>
+            <label>Card number<br />
+              <input value={draft.card_number} onChange={e => setDraft({ ...draft, card_number: e.target.value })} style={inputStyle} />
+            </label>
+            <label>Issued<br />
+              <input type="date" value={draft.issued_on} onChange={e => setDraft({ ...draft, issued_on: e.target.value })} style={inputStyle} />
+            </label>
+            <label>Expires<br />
+              <input type="date" value={draft.expires_on} onChange={e => setDraft({ ...draft, expires_on: e.target.value })} style={inputStyle} />
+            </label>
+            <label>Scan (PDF or image)<br />
+              <input type="file" accept="application/pdf,image/*" onChange={e => setDraft({ ...draft, scan: e.target.files?.[0] ?? null })} />
+            </label>
+            <label>Notes<br />
+              <input value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} style={inputStyle} />
+            </label>
+          </div>
+          <div style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+            <button style={buttonStyle(theme.colors.accent)} disabled={busy} onClick={save}>{busy ? 'Saving...' : 'Save'}</button>
+            <button style={buttonStyle()} disabled={busy} onClick={() => setDraft(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : shown.length === 0 ? (
+        <div style={{ padding: 24, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+          {onlyAttention ? 'Every card is in date.' : 'No active workers.'}
+        </div>
+      ) : (
+        <div style={{ background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg, overflow: 'hidden' }}>
+          {shown.map((worker, index) => (
+            <div key={worker.id} style={{ padding: '12px 16px', borderTop: index > 0 ? `1px solid ${theme.colors.border}` : 'none' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <div>
+                  <span style={{ fontWeight: 700 }}>{worker.name}</span>
+                  {worker.role && <span style={{ marginLeft: 8, fontSize: 12, color: theme.colors.textSubtle }}>{worker.role}</span>}
+                </div>
+                {canManage && (
+                  <button style={buttonStyle()} onClick={() => setDraft(emptyDraft(worker.id))}>Add card</button>
+                )}
+              </div>
+
+              {worker.competencies.length === 0 ? (
+                <div style={{ fontSize: 13, color: theme.colors.textSubtle }}>No cards recorded.</div>
+              ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+                  <tbody>
+                    {worker.competencies.map(competency => {
+                      const status = competencyStatus(competency, today);
+                      return (
+                        <tr key={competency.id} style={{ borderTop: `1px solid ${theme.colors.border}` }}>
+                          <td style={{ padding: '6px 0', width: 180, fontWeight: 600 }}>{TICKET_LABELS[competency.ticket_type]}</td>
+                          <td style={{ padding: '6px 0', color: theme.colors.textSubtle }}>{competency.card_number || '—'}</td>
+                          <td style={{ padding: '6px 0' }}>
+                            <span style={{ color: STATUS_COLORS[status], fontWeight: 600 }}>
+                              {competency.expires_on
+                                ? `${status === 'expired' ? 'Expired' : 'Expires'} ${competency.expires_on}`
+                                : 'No expiry'}
+                            </span>
+                          </td>
+                          <td style={{ padding: '6px 0' }}>
+                            {competency.scan_url
+                              ? <a href={competency.scan_url} target="_blank" rel="noreferrer" style={{ color: theme.colors.accentAlt }}>View scan</a>
+                              : <span style={{ color: theme.colors.textSubtle }}>No scan</span>}
+                          </td>
+                          {canManage && (
+                            <td style={{ padding: '6px 0', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                              <button style={{ ...buttonStyle(), padding: '2px 8px', marginRight: 6 }} onClick={() => edit(competency)}>
+                                {status === 'valid' ? 'Edit' : 'Renew'}
+                              </button>
+                              <button style={{ ...buttonStyle(), padding: '2px 8px', color: theme.colors.danger }} onClick={() => remove(competency)}>
+                                Remove
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
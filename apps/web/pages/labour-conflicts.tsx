@@ -0,0 +1,143 @@
+// Every double-booking, leave clash, over-capacity day and missing ticket over a date range
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { fetchLabourConflicts } from '@/lib/labourApi';
+import { addDays, describeConflict, type CapacityDay, type LabourConflict } from '@/lib/labourConflicts';
+import { supabase } from '@/lib/supabaseClient';
+import { theme } from '@/lib/theme';
+
+const KIND_LABELS: Record<LabourConflict['kind'], string> = {
+  double_booking: 'Double-booked',
+  unavailable: 'On leave',
+  over_capacity: 'Over capacity',
+  missing_ticket: 'No ticket',
+  ticket_shortfall: 'Short of tickets'
+};
+
+const KIND_COLORS: Record<LabourConflict['kind'], string> = {
+  double_booking: theme.colors.danger,
+  unavailable: theme.colors.warn,
+  over_capacity: theme.colors.warn,
+  missing_ticket: theme.colors.danger,
+  ticket_shortfall: theme.colors.warn
+};
+
+export default function LabourConflictsPage() {
+  useRequireAuth();
+
+  const today = new Date().toISOString().slice(0, 10);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(addDays(today, 27));
+  const [conflicts, setConflicts] = useState<LabourConflict[]>([]);
+  const [days, setDays] = useState<CapacityDay[]>([]);
+  const [jobRefs, setJobRefs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const summary = await fetchLabourConflicts(startDate, endDate);
+      setConflicts(summary.conflicts);
+      setDays(summary.days);
+
+      const jobIds = Array.from(new Set(summary.conflicts.flatMap(conflict => conflict.job_ids)));
+      if (jobIds.length > 0) {
+        const { data } = await supabase.from('jobs').select('id, reference, title').in('id', jobIds);
+        setJobRefs(Object.fromEntries((data ?? []).map(job => [job.id, job.reference || job.title || job.id])));
+      }
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const overDays = days.filter(day =>
+    (['installers', 'supervisors', 'vans'] as const).some(resource => {
+      const available = day.capacity[resource];
+      return available !== null && day.demand[resource] > available;
+    })).length;
+
+  const inputStyle = {
+    padding: '6px 8px',
+    background: theme.colors.panelAlt,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.sm,
+    color: theme.colors.text
+  };
+
+  return (
+    <div style={{ padding: 24, color: theme.colors.text }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', marginBottom: 24, gap: 16, flexWrap: 'wrap' }}>
+        <div>
+          <h1 style={{ fontSize: 24, fontWeight: 800, margin: 0, marginBottom: 4 }}>Labour Conflicts</h1>
+          <p style={{ fontSize: 14, color: theme.colors.textSubtle, margin: 0 }}>
+            Double-bookings, shifts on leave days, days allocated beyond the people and vans we have, and operatives without the tickets a job needs
+          </p>
+        </div>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', fontSize: 13 }}>
+          <label>From <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} style={inputStyle} /></label>
+          <label>To <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} style={inputStyle} /></label>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ padding: 12, marginBottom: 16, borderRadius: theme.radii.md, border: `1px solid ${theme.colors.danger}`, color: theme.colors.danger }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : (
+        <>
+          <div style={{ marginBottom: 16, fontSize: 14, color: theme.colors.textSubtle }}>
+            {conflicts.length} conflict(s) · {overDays} day(s) over capacity
+          </div>
+
+          {conflicts.length === 0 ? (
+            <div style={{ padding: 24, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+              No clashes in this range.
+            </div>
+          ) : (
+            <div style={{ background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg, overflow: 'hidden' }}>
+              {conflicts.map((conflict, index) => (
+                <div
+                  key={`${conflict.kind}-${conflict.date}-${index}`}
+                  style={{
+                    display: 'grid',
+                    gridTemplateColumns: '110px 130px 1fr auto',
+                    gap: 12,
+                    alignItems: 'center',
+                    padding: '10px 16px',
+                    borderTop: index > 0 ? `1px solid ${theme.colors.border}` : 'none',
+                    fontSize: 13
+                  }}
+                >
+                  <span style={{ fontWeight: 600 }}>{conflict.date}</span>
+                  <span style={{ color: KIND_COLORS[conflict.kind], fontWeight: 600 }}>{KIND_LABELS[conflict.kind]}</span>
+                  <span>{describeConflict(conflict)}</span>
+                  <span style={{ display: 'flex', gap: 8 }}>
+                    {conflict.job_ids.map(jobId => (
+                      <Link key={jobId} href={`/jobs/${jobId}/labour`} style={{ color: theme.colors.accentAlt }}>
+                        {jobRefs[jobId] ?? 'Job'}
+                      </Link>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react';
 
 import Layout from '../../components/Layout';
 import { useRequireAuth } from '../../hooks/useRequireAuth';
-import type { PODDetailResponse, UpdatePODRequest } from '../../lib/pod/types';
+import type { JobMatchCandidate, PODDetailResponse, UpdatePODRequest } from '../../lib/pod/types';
 import { theme } from '../../lib/theme';
 
 export default function PODDetail() {
@@ -35,6 +35,9 @@ export default function PODDetail() {
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
 
+  const [candidates, setCandidates] = useState<JobMatchCandidate[]>([]);
+  const [matching, setMatching] = useState(false);
+
   useEffect(() => {
     if (id && session) {
       fetchPOD();
@@ -104,6 +107,41 @@ export default function PODDetail() {
     }
   }
 
+  async function fetchCandidates() {
+    try {
+      const res = await fetch(`/api/pods/${id}/match`);
+      const result = await res.json();
+      if (result.success) setCandidates(result.candidates || []);
+    } catch (err) {
+      console.error('Failed to load job candidates:', err);
+    }
+  }
+
+  async function handleMatch(jobId?: string) {
+    if (!id) return;
+
+    try {
+      setMatching(true);
+      const res = await fetch(`/api/pods/${id}/match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(jobId ? { job_id: jobId } : {})
+      });
+
+      const result = await res.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setCandidates([]);
+      await fetchPOD();
+    } catch (err: any) {
+      alert(`Job matching failed: ${err.message}`);
+    } finally {
+      setMatching(false);
+    }
+  }
+
   async function handleApprove() {
     if (!id) return;
 
@@ -318,6 +356,67 @@ export default function PODDetail() {
                 </div>
               )}
 
+              {/* Job Match */}
+              <div className="glassmorphic-panel" style={{ padding: 16 }}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 }}>
+                  <h3 style={{ margin: 0, color: theme.colors.text, fontWeight: 600, fontSize: 15 }}>Job</h3>
+                  {canEdit && (
+                    <div style={{ display: 'flex', gap: 8 }}>
+                      <button onClick={() => handleMatch()} disabled={matching} style={smallButtonStyle(matching)}>
+                        {matching ? 'Matching...' : pod.job_id ? '↻ Reconcile Items' : '↻ Re-run Matching'}
+                      </button>
+                      {!pod.job_id && (
+                        <button onClick={fetchCandidates} disabled={matching} style={smallButtonStyle(matching)}>
+                          Choose Job
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {pod.job_id ? (
+                  <div style={{ fontSize: 14, color: theme.colors.text }}>
+                    <a href={`/jobs/${pod.job_id}`} style={{ color: theme.colors.accent }}>View linked job</a>
+                    {pod.job_match_reasons && pod.job_match_reasons.length > 0 && (
+                      <span style={{ color: theme.colors.textSubtle }}> • {pod.job_match_reasons.join(', ')}</span>
+                    )}
+                  </div>
+                ) : pod.suggested_job_id ? (
+                  <div style={{ fontSize: 14, color: theme.colors.text, display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                    <span>
+                      Suggested match ({Math.round(pod.job_match_score || 0)}%)
+                      {pod.job_match_reasons && pod.job_match_reasons.length > 0 && (
+                        <span style={{ color: theme.colors.textSubtle }}>: {pod.job_match_reasons.join(', ')}</span>
+                      )}
+                    </span>
+                    <a href={`/jobs/${pod.suggested_job_id}`} style={{ color: theme.colors.accent }}>View job</a>
+                    {canEdit && (
+                      <button onClick={() => handleMatch(pod.suggested_job_id!)} disabled={matching} style={smallButtonStyle(matching)}>
+                        ✓ Confirm Match
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div style={{ fontSize: 14, color: theme.colors.textSubtle }}>Not linked to a job</div>
+                )}
+
+                {candidates.length > 0 && (
+                  <div style={{ marginTop: 12, display: 'flex', flexDirection: 'column', gap: 6 }}>
+                    {candidates.map(candidate => (
+                      <div key={candidate.job_id} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8, fontSize: 13 }}>
+                        <span style={{ color: theme.colors.text }}>
+                          {candidate.reference || 'No ref'} - {candidate.title}
+                          <span style={{ color: theme.colors.textSubtle }}> ({candidate.score}%: {candidate.reasons.join(', ')})</span>
+                        </span>
+                        <button onClick={() => handleMatch(candidate.job_id)} disabled={matching} style={smallButtonStyle(matching)}>
+                          Link
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Form */}
               <div className="glassmorphic-panel" style={{ padding: 20 }}>
                 <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 }}>
@@ -773,3 +872,17 @@ function Modal({
     </div>
   );
 }
+
+function smallButtonStyle(busy: boolean): React.CSSProperties {
+  return {
+    padding: '6px 12px',
+    fontSize: 13,
+    background: 'rgba(29, 145, 255, 0.15)',
+    color: theme.colors.accent,
+    borderRadius: 6,
+    border: `1px solid ${theme.colors.accent}40`,
+    cursor: busy ? 'not-allowed' : 'pointer',
+    opacity: busy ? 0.5 : 1,
+    fontWeight: 600
+  };
+}
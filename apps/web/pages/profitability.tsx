@@ -0,0 +1,309 @@
+// Quote-vs-actual profitability: labour hours, van days, waste loads and margin
+// per job and across the portfolio, hours per unit by product type, and the
+// install time corrections they suggest for the catalogue
+import { Fragment, useCallback, useEffect, useState } from 'react';
+
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import {
+  fetchInstallTimeSuggestions,
+  fetchProfitability,
+  refreshInstallTimeSuggestions,
+  reviewInstallTimeSuggestion,
+} from '@/lib/labourApi';
+import type {
+  InstallTimeSuggestionRow,
+  PortfolioProfitability,
+  ProductVariance,
+  VarianceLine,
+  VarianceMetric,
+} from '@/lib/profitability';
+import { canViewFinancials } from '@/lib/roles';
+import { theme } from '@/lib/theme';
+
+const SOURCE_LABELS = { smartquote_v3: 'SmartQuote', quote: 'Quote', job: 'Job estimate' };
+
+const figure = (metric: VarianceMetric, value: number | null) =>
+  value === null ? '—' : metric === 'margin' ? `£${value.toFixed(2)}` : value.toFixed(metric === 'labour_hours' ? 1 : 0);
+
+const signed = (value: number | null, suffix = '') =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix}`;
+
+/** Over on cost is bad, over on margin is good */
+function varianceColor(line: Pick<VarianceLine, 'metric' | 'variancePct'>): string {
+  if (line.variancePct === null || Math.abs(line.variancePct) < 5) return theme.colors.textSubtle;
+  const better = line.metric === 'margin' ? line.variancePct > 0 : line.variancePct < 0;
+  return better ? theme.colors.success : theme.colors.danger;
+}
+
+const cell = { padding: 10 };
+const numeric = { padding: 10, textAlign: 'right' as const };
+
+function ProductTable({ products }: { products: ProductVariance[] }) {
+  if (products.length === 0) {
+    return <div style={{ padding: 12, color: theme.colors.textSubtle, fontSize: 13 }}>No products quoted or logged.</div>;
+  }
+
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+      <thead>
+        <tr style={{ textAlign: 'left', color: theme.colors.textSubtle, borderBottom: `1px solid ${theme.colors.border}` }}>
+          <th style={cell}>Product</th>
+          <th style={numeric}>Quoted qty</th>
+          <th style={numeric}>Completed</th>
+          <th style={numeric}>Quoted h/unit</th>
+          <th style={numeric}>Actual h/unit</th>
+          <th style={numeric}>Hours over/under</th>
+          <th style={numeric}>Variance</th>
+        </tr>
+      </thead>
+      <tbody>
+        {products.map(product => (
+          <tr key={product.key} style={{ borderBottom: `1px solid ${theme.colors.border}` }}>
+            <td style={cell}>
+              <div style={{ fontWeight: 600 }}>{product.code}</div>
+              {product.description !== product.code && (
+                <div style={{ fontSize: 11, color: theme.colors.textSubtle }}>{product.description}</div>
+              )}
+            </td>
+            <td style={numeric}>{product.quotedQuantity || '—'}</td>
+            <td style={numeric}>{product.completedUnits}</td>
+            <td style={numeric}>{product.quotedHoursPerUnit?.toFixed(2) ?? '—'}</td>
+            <td style={numeric}>{product.actualHoursPerUnit?.toFixed(2) ?? '—'}</td>
+            <td style={numeric}>{signed(product.hoursVariance)}</td>
+            <td style={{ ...numeric, fontWeight: 600, color: varianceColor({ metric: 'labour_hours', variancePct: product.variancePct }) }}>
+              {signed(product.variancePct, '%')}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ProfitabilityPage() {
+  useRequireAuth();
+  const { role, loading: roleLoading } = useUserRole();
+
+  const [report, setReport] = useState<PortfolioProfitability | null>(null);
+  const [suggestions, setSuggestions] = useState<InstallTimeSuggestionRow[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const allowed = canViewFinancials(role);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [portfolio, pending] = await Promise.all([fetchProfitability(), fetchInstallTimeSuggestions()]);
+      setReport(portfolio);
+      setSuggestions(pending);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (allowed) load();
+  }, [allowed, load]);
+
+  async function refresh() {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await refreshInstallTimeSuggestions();
+      const pending = await fetchInstallTimeSuggestions();
+      setSuggestions(pending);
+      setMessage(`${pending.length} install time suggestion(s) pending`);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function review(suggestion: InstallTimeSuggestionRow, action: 'accept' | 'reject') {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await reviewInstallTimeSuggestion(suggestion.id, action);
+      setSuggestions(prev => prev.filter(row => row.id !== suggestion.id));
+      setMessage(action === 'accept'
+        ? `${suggestion.product_code} now ${suggestion.suggested_install_time_hours}h per unit in the catalogue`
+        : `Suggestion for ${suggestion.product_code} rejected`);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const buttonStyle = (enabled: boolean, color: string = theme.colors.panelAlt) => ({
+    padding: '6px 12px',
+    background: color,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.md,
+    fontSize: 12,
+    fontWeight: 600,
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5
+  });
+
+  const panel = {
+    background: theme.colors.panel,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.lg,
+    marginBottom: 24,
+    overflow: 'hidden' as const
+  };
+
+  if (roleLoading) return <div style={{ padding: 24, color: theme.colors.text }}>Loading...</div>;
+  if (!allowed) {
+    return <div style={{ padding: 24, color: theme.colors.text }}>You do not have permission to view job profitability.</div>;
+  }
+
+  return (
+    <div style={{ padding: 24, color: theme.colors.text }}>
+      <h1 style={{ fontSize: 24, fontWeight: 800, margin: 0, marginBottom: 4 }}>Job Profitability</h1>
+      <p style={{ fontSize: 13, color: theme.colors.textSubtle, margin: 0, marginBottom: 16 }}>
+        What each job was quoted against what it took, for jobs in progress, snagging or completed.
+        Labour is rostered shift hours, or close-out hours before any shifts; margin is the job cost sheet at day rates.
+      </p>
+
+      {message && <div style={{ marginBottom: 12, color: theme.colors.success, fontSize: 13 }}>{message}</div>}
+      {error && <div style={{ marginBottom: 12, color: theme.colors.danger, fontSize: 13 }}>{error}</div>}
+
+      {loading || !report ? (
+        <div>Loading...</div>
+      ) : (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 12, marginBottom: 24 }}>
+            {report.totals.map(line => (
+              <div key={line.metric} style={{ padding: 16, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+                <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginBottom: 6 }}>{line.label}</div>
+                <div style={{ fontSize: 20, fontWeight: 700 }}>{figure(line.metric, line.actual)}</div>
+                <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>quoted {figure(line.metric, line.quoted)}</div>
+                <div style={{ fontSize: 13, fontWeight: 600, color: varianceColor(line) }}>{signed(line.variancePct, '%')}</div>
+              </div>
+            ))}
+          </div>
+
+          <div style={panel}>
+            {report.jobs.length === 0 ? (
+              <div style={{ padding: 24 }}>No jobs with work on site yet.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: theme.colors.textSubtle, borderBottom: `1px solid ${theme.colors.border}` }}>
+                    <th style={cell}>Job</th>
+                    <th style={cell}>Quoted from</th>
+                    {report.totals.map(line => <th key={line.metric} style={numeric}>{line.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.jobs.map(job => (
+                    <Fragment key={job.job.id}>
+                      <tr
+                        style={{ borderBottom: `1px solid ${theme.colors.border}`, cursor: 'pointer' }}
+                        onClick={() => setExpanded(prev => prev === job.job.id ? null : job.job.id)}
+                      >
+                        <td style={cell}>
+                          <div style={{ fontWeight: 600 }}>{job.job.reference || job.job.id.slice(0, 8)}</div>
+                          <div style={{ fontSize: 11, color: theme.colors.textSubtle }}>
+                            {[job.job.client_name, job.job.title].filter(Boolean).join(' · ')}
+                          </div>
+                        </td>
+                        <td style={cell}>
+                          {job.quoted ? SOURCE_LABELS[job.quoted.source] : <span style={{ color: theme.colors.warn }}>No quote</span>}
+                          {job.quoted?.reference && (
+                            <div style={{ fontSize: 11, color: theme.colors.textSubtle }}>{job.quoted.reference}</div>
+                          )}
+                        </td>
+                        {job.lines.map(line => (
+                          <td key={line.metric} style={numeric}>
+                            <div>{figure(line.metric, line.actual)} / {figure(line.metric, line.quoted)}</div>
+                            <div style={{ fontSize: 11, fontWeight: 600, color: varianceColor(line) }}>{signed(line.variancePct, '%')}</div>
+                          </td>
+                        ))}
+                      </tr>
+                      {expanded === job.job.id && (
+                        <tr style={{ background: theme.colors.panelAlt }}>
+                          <td colSpan={2 + job.lines.length} style={{ padding: 0 }}>
+                            <ProductTable products={job.products} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <h2 style={{ fontSize: 18, fontWeight: 700, marginBottom: 8 }}>By product type</h2>
+          <div style={panel}>
+            <ProductTable products={report.products} />
+          </div>
+        </>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <h2 style={{ fontSize: 18, fontWeight: 700, margin: 0 }}>Install time suggestions</h2>
+        <button style={buttonStyle(!busy)} disabled={busy} onClick={refresh}>Recalculate</button>
+      </div>
+      <div style={panel}>
+        {suggestions.length === 0 ? (
+          <div style={{ padding: 16, fontSize: 13, color: theme.colors.textSubtle }}>
+            No pending suggestions. Recalculate after more close-outs to compare the catalogue with actual hours per unit.
+          </div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: theme.colors.textSubtle, borderBottom: `1px solid ${theme.colors.border}` }}>
+                <th style={cell}>Product</th>
+                <th style={numeric}>Catalogue h/unit</th>
+                <th style={numeric}>Actual h/unit</th>
+                <th style={numeric}>Units</th>
+                <th style={numeric}>Jobs</th>
+                <th style={numeric}>Variance</th>
+                <th style={cell} />
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map(suggestion => (
+                <tr key={suggestion.id} style={{ borderBottom: `1px solid ${theme.colors.border}` }}>
+                  <td style={cell}>
+                    <div style={{ fontWeight: 600 }}>{suggestion.product_code}</div>
+                    <div style={{ fontSize: 11, color: theme.colors.textSubtle }}>{suggestion.product_name}</div>
+                  </td>
+                  <td style={numeric}>{Number(suggestion.current_install_time_hours).toFixed(2)}</td>
+                  <td style={{ ...numeric, fontWeight: 600 }}>{Number(suggestion.suggested_install_time_hours).toFixed(2)}</td>
+                  <td style={numeric}>{suggestion.completed_units}</td>
+                  <td style={numeric}>{suggestion.job_count}</td>
+                  <td style={{ ...numeric, color: varianceColor({ metric: 'labour_hours', variancePct: Number(suggestion.variance_pct) }) }}>
+                    {signed(Number(suggestion.variance_pct), '%')}
+                  </td>
+                  <td style={{ ...cell, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    <button style={{ ...buttonStyle(!busy, theme.colors.accent), marginRight: 6 }} disabled={busy} onClick={() => review(suggestion, 'accept')}>
+                      Accept
+                    </button>
+                    <button style={buttonStyle(!busy)} disabled={busy} onClick={() => review(suggestion, 'reject')}>Reject</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
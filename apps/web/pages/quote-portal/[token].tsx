@@ -0,0 +1,280 @@
+import { useRouter } from "next/router";
+import { useEffect, useState } from "react";
+
+import SignaturePad from "../../components/SignaturePad";
+import { theme } from "../../lib/theme";
+import type { PortalQuoteView } from "../../modules/smartquote-v3/types";
+
+type Mode = "view" | "accept" | "changes";
+
+const money = (n: number) => `£${n.toLocaleString("en-GB", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function QuotePortalPage() {
+  const router = useRouter();
+  const token = typeof router.query.token === "string" ? router.query.token : "";
+
+  const [quote, setQuote] = useState<PortalQuoteView | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>("view");
+  const [signedName, setSignedName] = useState("");
+  const [signatureData, setSignatureData] = useState("");
+  const [feedback, setFeedback] = useState("");
+  const [feedbackName, setFeedbackName] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    (async () => {
+      try {
+        const res = await fetch(`/api/quote-portal/${encodeURIComponent(token)}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "This link is not valid");
+        setQuote(body.quote);
+      } catch (e: unknown) {
+        setLoadError(e instanceof Error ? e.message : "Failed to load quote.");
+      }
+    })();
+  }, [token]);
+
+  async function submit(payload: Record<string, unknown>, successMessage: string) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await fetch(`/api/quote-portal/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Something went wrong.");
+      setQuote(body.quote);
+      setMode("view");
+      setDone(successMessage);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function accept() {
+    if (!signedName.trim()) return setMsg("Please type your full name.");
+    if (!signatureData) return setMsg("Please draw your signature.");
+    if (!agreed) return setMsg("Please confirm you accept the quote.");
+    submit({ action: "accept", signedName, signatureData }, "Thank you - your acceptance has been recorded. We'll be in touch to schedule the work.");
+  }
+
+  function requestChanges() {
+    if (!feedback.trim()) return setMsg("Please describe the changes you need.");
+    submit({ action: "request_changes", message: feedback, name: feedbackName }, "Thank you - we've received your comments and will send a revised quote.");
+  }
+
+  if (loadError) {
+    return (
+      <Shell>
+        <div style={{ fontWeight: 800, fontSize: 20 }}>Quote unavailable</div>
+        <div style={{ color: theme.colors.textSubtle }}>{loadError}</div>
+      </Shell>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <Shell>
+        <div style={{ color: theme.colors.textSubtle }}>Loading quote...</div>
+      </Shell>
+    );
+  }
+
+  return (
+    <Shell>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <div style={{ fontWeight: 800, fontSize: 24, letterSpacing: 0.2 }}>Quote {quote.quoteRef}</div>
+        <div style={{ color: theme.colors.textSubtle }}>
+          {quote.clientName}
+          {quote.projectName ? ` • ${quote.projectName}` : ""}
+        </div>
+      </div>
+      {quote.validUntil && (
+        <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>
+          Valid until {new Date(quote.validUntil).toLocaleDateString("en-GB")}
+        </div>
+      )}
+
+      {done && <Notice color={theme.colors.success}>{done}</Notice>}
+      {quote.signedAt && !done && (
+        <Notice color={theme.colors.success}>
+          Accepted by {quote.signedName} on {new Date(quote.signedAt).toLocaleDateString("en-GB")}
+        </Notice>
+      )}
+
+      {/* Line items */}
+      <div style={{ border: `1px solid ${theme.colors.border}`, borderRadius: 10, overflow: "hidden" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead>
+            <tr style={{ background: theme.colors.panelAlt, textAlign: "left" }}>
+              <th style={cellStyle()}>Item</th>
+              <th style={cellStyle({ textAlign: "right", width: 80 })}>Qty</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quote.lines.map((line, i) => (
+              <tr key={`${line.productCode}-${i}`} style={{ borderTop: `1px solid ${theme.colors.border}` }}>
+                <td style={cellStyle()}>
+                  {line.description}
+                  {line.productCode && line.productCode !== line.description && (
+                    <span style={{ color: theme.colors.textSubtle, fontSize: 12 }}> ({line.productCode})</span>
+                  )}
+                </td>
+                <td style={cellStyle({ textAlign: "right" })}>{line.quantity}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Totals */}
+      <div style={{ display: "grid", gap: 4, justifyContent: "end", textAlign: "right" }}>
+        <div>Total (ex VAT): <strong>{money(quote.totalExVat)}</strong></div>
+        {quote.isReverseCharge ? (
+          <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>VAT: domestic reverse charge applies</div>
+        ) : (
+          quote.totalIncVat !== undefined && (
+            <>
+              <div style={{ color: theme.colors.textSubtle }}>VAT: {money(quote.vatAmount || 0)}</div>
+              <div style={{ fontSize: 18 }}>Total: <strong>{money(quote.totalIncVat)}</strong></div>
+            </>
+          )
+        )}
+      </div>
+
+      {/* Actions */}
+      {mode === "view" && (quote.canAccept || quote.canRequestChanges) && (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          {quote.canAccept && (
+            <button onClick={() => { setMode("accept"); setMsg(null); }} style={buttonStyle(theme.colors.success)}>
+              Accept Quote
+            </button>
+          )}
+          {quote.canRequestChanges && (
+            <button onClick={() => { setMode("changes"); setMsg(null); }} style={buttonStyle()}>
+              Request Changes
+            </button>
+          )}
+        </div>
+      )}
+
+      {mode === "accept" && (
+        <Panel title="Accept and sign">
+          <Field label="Full name">
+            <input value={signedName} onChange={(e) => setSignedName(e.target.value)} style={inputStyle()} autoComplete="name" />
+          </Field>
+          <Field label="Signature">
+            <SignaturePad onChange={setSignatureData} disabled={busy} />
+          </Field>
+          <label style={{ display: "flex", gap: 8, alignItems: "flex-start", fontSize: 13 }}>
+            <input type="checkbox" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} />
+            I accept quote {quote.quoteRef} for {money(quote.totalIncVat ?? quote.totalExVat)} and am authorised to sign on behalf of {quote.clientName}.
+          </label>
+          <Actions busy={busy} msg={msg} submitLabel="Sign and Accept" onSubmit={accept} onCancel={() => setMode("view")} />
+        </Panel>
+      )}
+
+      {mode === "changes" && (
+        <Panel title="Request changes">
+          <Field label="Your name">
+            <input value={feedbackName} onChange={(e) => setFeedbackName(e.target.value)} style={inputStyle()} autoComplete="name" />
+          </Field>
+          <Field label="What needs to change?">
+            <textarea value={feedback} onChange={(e) => setFeedback(e.target.value)} rows={5} style={inputStyle({ resize: "vertical" })} />
+          </Field>
+          <Actions busy={busy} msg={msg} submitLabel="Send to BHIT" onSubmit={requestChanges} onCancel={() => setMode("view")} />
+        </Panel>
+      )}
+    </Shell>
+  );
+}
+
+function Shell({ children }: { children: React.ReactNode }) {
+  return (
+    <div style={{ maxWidth: 820, margin: "0 auto", padding: 24, display: "grid", gap: 16 }}>
+      <div style={{ fontSize: 12, letterSpacing: 2, color: theme.colors.textSubtle }}>BHIT • CLIENT QUOTE</div>
+      {children}
+    </div>
+  );
+}
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div style={{ padding: 16, display: "grid", gap: 12, border: `1px solid ${theme.colors.border}`, borderRadius: 10, background: theme.colors.panel }}>
+      <div style={{ fontWeight: 700 }}>{title}</div>
+      {children}
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>{label}</div>
+      {children}
+    </div>
+  );
+}
+
+function Notice({ color, children }: { color: string; children: React.ReactNode }) {
+  return (
+    <div style={{ padding: "10px 12px", borderRadius: 8, border: `1px solid ${color}`, color }}>{children}</div>
+  );
+}
+
+function Actions({ busy, msg, submitLabel, onSubmit, onCancel }: {
+  busy: boolean;
+  msg: string | null;
+  submitLabel: string;
+  onSubmit: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+      <button onClick={onSubmit} disabled={busy} style={buttonStyle(theme.colors.accent, busy)}>
+        {busy ? "Sending..." : submitLabel}
+      </button>
+      <button onClick={onCancel} disabled={busy} style={buttonStyle(undefined, busy)}>
+        Cancel
+      </button>
+      {msg && <div style={{ color: theme.colors.danger }}>{msg}</div>}
+    </div>
+  );
+}
+
+function buttonStyle(background?: string, busy?: boolean): React.CSSProperties {
+  return {
+    padding: "10px 14px",
+    background: background || "transparent",
+    color: background ? "white" : theme.colors.text,
+    border: background ? 0 : `1px solid ${theme.colors.border}`,
+    borderRadius: 8,
+    cursor: busy ? "not-allowed" : "pointer",
+    opacity: busy ? 0.7 : 1,
+    fontWeight: 600,
+  };
+}
+
+function cellStyle(extra?: React.CSSProperties): React.CSSProperties {
+  return { padding: "10px 12px", ...(extra || {}) };
+}
+
+function inputStyle(extra?: React.CSSProperties): React.CSSProperties {
+  return {
+    padding: "10px 12px",
+    background: "#111823",
+    border: `1px solid ${theme.colors.border}`,
+    color: theme.colors.text,
+    borderRadius: 8,
+    ...(extra || {}),
+  };
+}
@@ -0,0 +1,241 @@
+// RAMS hazard library: the hazards and controls lib/rams.ts copies into each
+// job's RAMS. A hazard applies to jobs carrying its risk code (GENERAL for every
+// job) or installing products of its category. Changes only reach a job's RAMS
+// when its next version is issued. Row level security limits edits to ops,
+// directors, admins and general managers.
+import { useCallback, useEffect, useState } from 'react';
+
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { GENERAL_RISK_CODE, type RamsHazard, type ResidualRating } from '@/lib/rams';
+import { canEdit } from '@/lib/roles';
+import { supabase } from '@/lib/supabaseClient';
+import { theme } from '@/lib/theme';
+
+type HazardRow = RamsHazard & { is_active: boolean };
+
+type Draft = {
+  id: string | null;
+  appliesTo: 'risk_code' | 'product_category';
+  key: string;
+  hazard: string;
+  persons_at_risk: string;
+  controls: string;
+  residual_rating: ResidualRating;
+  sort_order: number;
+};
+
+const RATINGS: ResidualRating[] = ['low', 'medium', 'high'];
+
+const emptyDraft = (): Draft => ({
+  id: null,
+  appliesTo: 'risk_code',
+  key: GENERAL_RISK_CODE,
+  hazard: '',
+  persons_at_risk: '',
+  controls: '',
+  residual_rating: 'low',
+  sort_order: 10
+});
+
+const toDraft = (row: HazardRow): Draft => ({
+  id: row.id,
+  appliesTo: row.risk_code ? 'risk_code' : 'product_category',
+  key: row.risk_code ?? row.product_category ?? '',
+  hazard: row.hazard,
+  persons_at_risk: row.persons_at_risk,
+  controls: row.controls.join('\n'),
+  residual_rating: row.residual_rating,
+  sort_order: row.sort_order
+});
+
+const appliesToLabel = (row: HazardRow) => row.risk_code
+  ? (row.risk_code === GENERAL_RISK_CODE ? 'Every job' : `Risk: ${row.risk_code}`)
+  : `Products: ${row.product_category}`;
+
+export default function RamsHazardsPage() {
+  useRequireAuth();
+  const { role } = useUserRole();
+  const editable = canEdit(role);
+
+  const [hazards, setHazards] = useState<HazardRow[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const { data, error: loadError } = await supabase
+      .from('rams_hazards')
+      .select('id, risk_code, product_category, hazard, persons_at_risk, controls, residual_rating, sort_order, is_active')
+      .order('risk_code', { ascending: true, nullsFirst: false })
+      .order('product_category')
+      .order('sort_order');
+    if (loadError) setError(loadError.message);
+    setHazards((data ?? []) as HazardRow[]);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function save() {
+    if (!draft) return;
+    const key = draft.key.trim();
+    const controls = draft.controls.split('\n').map(line => line.trim()).filter(Boolean);
+    if (!key || !draft.hazard.trim() || !draft.persons_at_risk.trim() || controls.length === 0) {
+      setError('Fill in what it applies to, the hazard, who is at risk and at least one control.');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    // Risk codes match job_risk_flags.code; categories match the catalogue's lower-case names
+    const values = {
+      risk_code: draft.appliesTo === 'risk_code' ? key.toUpperCase() : null,
+      product_category: draft.appliesTo === 'product_category' ? key.toLowerCase() : null,
+      hazard: draft.hazard.trim(),
+      persons_at_risk: draft.persons_at_risk.trim(),
+      controls,
+      residual_rating: draft.residual_rating,
+      sort_order: draft.sort_order,
+      updated_at: new Date().toISOString()
+    };
+    const { error: saveError } = draft.id
+      ? await supabase.from('rams_hazards').update(values).eq('id', draft.id)
+      : await supabase.from('rams_hazards').insert(values);
+
+    setBusy(false);
+    if (saveError) {
+      setError(saveError.message);
+      return;
+    }
+    setDraft(null);
+    await load();
+  }
+
+  async function setActive(row: HazardRow, isActive: boolean) {
+    setError(null);
+    const { error: updateError } = await supabase
+      .from('rams_hazards')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', row.id);
+    if (updateError) setError(updateError.message);
+    await load();
+  }
+
+  const inputStyle = {
+    padding: '6px 8px',
+    background: theme.colors.panelAlt,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.sm,
+    color: theme.colors.text,
+    fontSize: 13
+  };
+
+  const buttonStyle = (color: string = theme.colors.panelAlt) => ({
+    padding: '6px 12px',
+    background: color,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.md,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer'
+  });
+
+  const update = (changes: Partial<Draft>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  return (
+    <div style={{ padding: 24, color: theme.colors.text }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 }}>
+        <h1 style={{ fontSize: 24, fontWeight: 800, margin: 0 }}>RAMS Hazard Library</h1>
+        {editable && !draft && (
+          <button style={buttonStyle(theme.colors.accent)} onClick={() => setDraft(emptyDraft())}>Add hazard</button>
+        )}
+      </div>
+      <p style={{ fontSize: 13, color: theme.colors.textSubtle, margin: 0, marginBottom: 16 }}>
+        Each job&apos;s RAMS lists the hazards for its risk flags and for the categories of products being installed.
+        Edits apply from the next RAMS version issued; versions already issued keep their wording.
+      </p>
+
+      {error && <div style={{ marginBottom: 12, color: theme.colors.danger, fontSize: 13 }}>{error}</div>}
+
+      {draft && (
+        <div style={{ display: 'grid', gap: 8, padding: 16, marginBottom: 16, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+            <select value={draft.appliesTo} onChange={e => update({ appliesTo: e.target.value as Draft['appliesTo'], key: '' })} style={inputStyle}>
+              <option value="risk_code">Risk code</option>
+              <option value="product_category">Product category</option>
+            </select>
+            <input
+              value={draft.key}
+              onChange={e => update({ key: e.target.value })}
+              placeholder={draft.appliesTo === 'risk_code' ? 'GENERAL, ELEVATION, ASBESTOS...' : 'desk, chair, storage...'}
+              style={{ ...inputStyle, minWidth: 220 }}
+            />
+            <select value={draft.residual_rating} onChange={e => update({ residual_rating: e.target.value as ResidualRating })} style={inputStyle}>
+              {RATINGS.map(rating => <option key={rating} value={rating}>Residual risk: {rating}</option>)}
+            </select>
+            <input
+              type="number"
+              value={draft.sort_order}
+              onChange={e => update({ sort_order: Number(e.target.value) || 0 })}
+              title="Order within the RAMS"
+              style={{ ...inputStyle, width: 80 }}
+            />
+          </div>
+          <input value={draft.hazard} onChange={e => update({ hazard: e.target.value })} placeholder="Hazard" style={inputStyle} />
+          <input value={draft.persons_at_risk} onChange={e => update({ persons_at_risk: e.target.value })} placeholder="Persons at risk" style={inputStyle} />
+          <textarea
+            value={draft.controls}
+            onChange={e => update({ controls: e.target.value })}
+            placeholder="Control measures, one per line"
+            rows={4}
+            style={inputStyle}
+          />
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button style={buttonStyle(theme.colors.accent)} disabled={busy} onClick={save}>
+              {busy ? 'Saving...' : 'Save hazard'}
+            </button>
+            <button style={buttonStyle()} onClick={() => { setDraft(null); setError(null); }}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : (
+        <div style={{ background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg, overflow: 'hidden' }}>
+          {hazards.map((row, index) => (
+            <div
+              key={row.id}
+              style={{ display: 'flex', justifyContent: 'space-between', gap: 12, padding: '12px 16px', borderTop: index > 0 ? `1px solid ${theme.colors.border}` : 'none', opacity: row.is_active ? 1 : 0.5 }}
+            >
+              <div>
+                <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>
+                  {appliesToLabel(row)} · residual {row.residual_rating}{row.is_active ? '' : ' · retired'}
+                </div>
+                <div style={{ fontWeight: 700 }}>{row.hazard}</div>
+                <div style={{ fontSize: 12, color: theme.colors.textSubtle }}>At risk: {row.persons_at_risk}</div>
+                <ul style={{ margin: '4px 0 0', paddingLeft: 18, fontSize: 13 }}>
+                  {row.controls.map(control => <li key={control}>{control}</li>)}
+                </ul>
+              </div>
+              {editable && (
+                <div style={{ display: 'flex', gap: 6, alignItems: 'flex-start' }}>
+                  <button style={buttonStyle()} onClick={() => { setDraft(toDraft(row)); setError(null); }}>Edit</button>
+                  <button style={buttonStyle()} onClick={() => setActive(row, !row.is_active)}>
+                    {row.is_active ? 'Retire' : 'Restore'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,14 @@ import Layout from "../../components/Layout";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
 import { supabase } from "../../lib/supabaseClient";
 import { theme } from "../../lib/theme";
+import { timesheetSettings, type TimesheetSettings } from "../../lib/timesheets";
 
 type OrgSettings = {
   id: number;
   company_name: string | null;
   brand_color: string | null;
   day_rates: Record<string, number> | null;
+  timesheet_settings: TimesheetSettings;
 };
 
 function Field({
@@ -63,11 +65,13 @@ export default function OrganizationSettings() {
       if (error) {
         setMsg(error.message);
       }
-      const initial: OrgSettings = data || {
+      const initial: OrgSettings = {
         id: 1,
         company_name: null,
         brand_color: "#f59e0b",
         day_rates: {},
+        ...data,
+        timesheet_settings: timesheetSettings(data?.timesheet_settings),
       };
       setS(initial);
     })();
@@ -82,6 +86,7 @@ export default function OrganizationSettings() {
       company_name: s.company_name,
       brand_color: s.brand_color || "#f59e0b",
       day_rates: s.day_rates || {},
+      timesheet_settings: s.timesheet_settings,
     };
     const { error } = await supabase
       .from("org_settings")
@@ -98,6 +103,13 @@ export default function OrganizationSettings() {
     });
   }
 
+  function setTimesheet(key: keyof TimesheetSettings, value: number) {
+    setS((prev) => prev && {
+      ...prev,
+      timesheet_settings: { ...prev.timesheet_settings, [key]: value },
+    });
+  }
+
   if (!s) {
     return (
       <Layout>
@@ -168,6 +180,38 @@ export default function OrganizationSettings() {
           </div>
         </div>
 
+        <div style={{ padding: 16 }}>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Timesheets & overtime</div>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "1fr 160px",
+              gap: 8,
+              alignItems: "center",
+            }}
+          >
+            {([
+              ["weekly_overtime_threshold_hours", "Overtime after (hours/week)"],
+              ["overtime_multiplier", "Overtime multiplier"],
+              ["saturday_multiplier", "Saturday multiplier"],
+              ["sunday_multiplier", "Sunday multiplier"],
+              ["holiday_multiplier", "Bank holiday multiplier"],
+            ] as const).map(([k, label]) => (
+              <Fragment key={k}>
+                <div style={{ color: theme.colors.textSubtle }}>{label}</div>
+                <input
+                  type="number"
+                  min={0}
+                  step={k === "weekly_overtime_threshold_hours" ? 0.5 : 0.05}
+                  value={s.timesheet_settings[k]}
+                  onChange={(e) => setTimesheet(k, Number(e.target.value))}
+                  style={inputStyle({ textAlign: "right" })}
+                />
+              </Fragment>
+            ))}
+          </div>
+        </div>
+
         <div style={{ display: "flex", gap: 8 }}>
           <button
             onClick={save}
@@ -115,6 +115,9 @@ export default function TemplateEditor() {
         is_generic: isGeneric,
         page_count: 1,
         sample_file_path: filePath,
+        // Boxes are in the sample image's pixels; zone extraction scales them by this
+        reference_width: documentImage?.naturalWidth,
+        reference_height: documentImage?.naturalHeight,
         is_active: true,
       } as any);
 
@@ -208,6 +211,7 @@ export default function TemplateEditor() {
       { value: 'signature', label: 'Signature Box' },
       { value: 'driver_name', label: 'Driver Name' },
       { value: 'vehicle_reg', label: 'Vehicle Registration' },
+      { value: 'sales_order_ref', label: 'Sales Order Reference' },
       { value: 'notes', label: 'Notes/Comments' },
       { value: 'photo_indicator', label: 'Photo Evidence' },
       { value: 'item_count', label: 'Number of Items' },
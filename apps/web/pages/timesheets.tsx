@@ -0,0 +1,253 @@
+// Weekly timesheets from labour shifts: supervisors submit, managers approve,
+// and approved weeks export for payroll. Managers can reopen an approved week to
+// correct it; pay is only shown to those who approve.
+import { useCallback, useEffect, useState } from 'react';
+
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { applyTimesheetAction, downloadTimesheetExport, fetchTimesheetWeek } from '@/lib/labourApi';
+import { addDays } from '@/lib/labourConflicts';
+import { canApproveTimesheets, canSubmitTimesheets } from '@/lib/roles';
+import { theme } from '@/lib/theme';
+import {
+  weekStartOf,
+  type TimesheetAction,
+  type TimesheetHoursRow,
+  type TimesheetSettings,
+  type TimesheetStatus,
+  type TimesheetWeekRow,
+} from '@/lib/timesheets';
+
+const STATUS_COLORS: Record<TimesheetStatus, string> = {
+  draft: theme.colors.textSubtle,
+  submitted: theme.colors.info,
+  approved: theme.colors.success,
+  rejected: theme.colors.danger
+};
+
+const ACTION_DONE: Record<TimesheetAction, string> = {
+  submit: 'submitted',
+  approve: 'approved',
+  reject: 'rejected',
+  reopen: 'reopened'
+};
+
+const money = (value: number) => `£${value.toFixed(2)}`;
+
+export default function TimesheetsPage() {
+  useRequireAuth();
+  const { role } = useUserRole();
+  const showPay = canApproveTimesheets(role);
+
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(new Date().toISOString().slice(0, 10)));
+  const [rows, setRows] = useState<Array<TimesheetWeekRow | TimesheetHoursRow>>([]);
+  const [settings, setSettings] = useState<TimesheetSettings | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const week = await fetchTimesheetWeek(weekStart);
+      setRows(week.rows);
+      setSettings(week.settings);
+      setSelected([]);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const statusOf = (row: TimesheetHoursRow): TimesheetStatus => row.timesheet?.status ?? 'draft';
+  const selectedIn = (statuses: TimesheetStatus[]) =>
+    rows.filter(row => selected.includes(row.resource.id) && statuses.includes(statusOf(row))).map(row => row.resource.id);
+
+  async function act(action: TimesheetAction, resourceIds: string[]) {
+    let reason: string | undefined;
+    if (action === 'reject') {
+      reason = window.prompt('Reason for rejecting (sent back to the supervisor):') ?? undefined;
+      if (!reason?.trim()) return;
+    }
+    if (action === 'reopen' && !window.confirm('Reopen the approved timesheet(s)? Their pay comes off the job costs until approved again.')) {
+      return;
+    }
+
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const updated = await applyTimesheetAction(action, weekStart, resourceIds, reason);
+      setMessage(`${updated} timesheet(s) ${ACTION_DONE[action]}`);
+      await load();
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function exportWeek(format: 'timesheet' | 'sage' | 'xero') {
+    setError(null);
+    try {
+      await downloadTimesheetExport(weekStart, format);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    }
+  }
+
+  const toSubmit = selectedIn(['draft', 'rejected']);
+  const toDecide = selectedIn(['submitted']);
+  const toReopen = selectedIn(['approved']);
+  const anyApproved = rows.some(row => statusOf(row) === 'approved');
+
+  const buttonStyle = (enabled: boolean, color: string = theme.colors.panelAlt) => ({
+    padding: '8px 14px',
+    background: color,
+    color: theme.colors.text,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii.md,
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5
+  });
+
+  return (
+    <div style={{ padding: 24, color: theme.colors.text }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', gap: 16, flexWrap: 'wrap', marginBottom: 16 }}>
+        <div>
+          <h1 style={{ fontSize: 24, fontWeight: 800, margin: 0, marginBottom: 4 }}>Timesheets</h1>
+          {settings && (
+            <p style={{ fontSize: 13, color: theme.colors.textSubtle, margin: 0 }}>
+              Overtime after {settings.weekly_overtime_threshold_hours}h at ×{settings.overtime_multiplier} ·
+              Saturday ×{settings.saturday_multiplier} · Sunday ×{settings.sunday_multiplier} · Bank holiday ×{settings.holiday_multiplier}
+            </p>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <button style={buttonStyle(true)} onClick={() => setWeekStart(addDays(weekStart, -7))}>←</button>
+          <div style={{ fontWeight: 600, minWidth: 160, textAlign: 'center' }}>
+            w/c {new Date(`${weekStart}T00:00:00Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+          </div>
+          <button style={buttonStyle(true)} onClick={() => setWeekStart(addDays(weekStart, 7))}>→</button>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 16 }}>
+        {canSubmitTimesheets(role) && (
+          <button style={buttonStyle(!busy && toSubmit.length > 0)} disabled={busy || toSubmit.length === 0} onClick={() => act('submit', toSubmit)}>
+            Submit {toSubmit.length || ''}
+          </button>
+        )}
+        {canApproveTimesheets(role) && (
+          <>
+            <button style={buttonStyle(!busy && toDecide.length > 0, theme.colors.accent)} disabled={busy || toDecide.length === 0} onClick={() => act('approve', toDecide)}>
+              Approve {toDecide.length || ''}
+            </button>
+            <button style={buttonStyle(!busy && toDecide.length > 0)} disabled={busy || toDecide.length === 0} onClick={() => act('reject', toDecide)}>
+              Reject {toDecide.length || ''}
+            </button>
+            <button style={buttonStyle(!busy && toReopen.length > 0)} disabled={busy || toReopen.length === 0} onClick={() => act('reopen', toReopen)}>
+              Reopen {toReopen.length || ''}
+            </button>
+            <div style={{ flex: 1 }} />
+            <button style={buttonStyle(anyApproved)} disabled={!anyApproved} onClick={() => exportWeek('timesheet')}>Timesheet CSV</button>
+            <button style={buttonStyle(anyApproved)} disabled={!anyApproved} onClick={() => exportWeek('sage')}>Sage payroll CSV</button>
+            <button style={buttonStyle(anyApproved)} disabled={!anyApproved} onClick={() => exportWeek('xero')}>Xero payroll CSV</button>
+          </>
+        )}
+      </div>
+
+      {message && <div style={{ marginBottom: 12, color: theme.colors.success, fontSize: 13 }}>{message}</div>}
+      {error && <div style={{ marginBottom: 12, color: theme.colors.danger, fontSize: 13 }}>{error}</div>}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : rows.length === 0 ? (
+        <div style={{ padding: 24, background: theme.colors.panel, border: `1px solid ${theme.colors.border}`, borderRadius: theme.radii.lg }}>
+          No shifts recorded this week.
+        </div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13, background: theme.colors.panel, borderRadius: theme.radii.lg, overflow: 'hidden' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: theme.colors.textSubtle, borderBottom: `1px solid ${theme.colors.border}` }}>
+              <th style={{ padding: 10, width: 32 }}>
+                <input
+                  type="checkbox"
+                  checked={selected.length === rows.length}
+                  onChange={e => setSelected(e.target.checked ? rows.map(row => row.resource.id) : [])}
+                />
+              </th>
+              <th style={{ padding: 10 }}>Operative</th>
+              <th style={{ padding: 10 }}>Status</th>
+              <th style={{ padding: 10, textAlign: 'right' }}>Hours</th>
+              <th style={{ padding: 10, textAlign: 'right' }}>Overtime</th>
+              {showPay && (
+                <>
+                  <th style={{ padding: 10, textAlign: 'right' }}>Gross</th>
+                  <th style={{ padding: 10, textAlign: 'right' }}>CIS</th>
+                  <th style={{ padding: 10, textAlign: 'right' }}>Net</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const status = statusOf(row);
+              const pay = 'gross' in row.totals ? row.totals : null;
+              return (
+                <tr key={row.resource.id} style={{ borderBottom: `1px solid ${theme.colors.border}` }}>
+                  <td style={{ padding: 10 }}>
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(row.resource.id)}
+                      onChange={e => setSelected(prev => e.target.checked
+                        ? [...prev, row.resource.id]
+                        : prev.filter(id => id !== row.resource.id))}
+                    />
+                  </td>
+                  <td style={{ padding: 10 }}>
+                    <div style={{ fontWeight: 600 }}>{row.resource.name}</div>
+                    <div style={{ fontSize: 11, color: theme.colors.textSubtle }}>
+                      {row.resource.employment_type === 'self_employed' ? 'Self-employed (CIS)' : 'Employee'}
+                      {row.resource.payroll_reference ? ` · ${row.resource.payroll_reference}` : ''}
+                    </div>
+                  </td>
+                  <td style={{ padding: 10 }}>
+                    <span style={{ color: STATUS_COLORS[status], fontWeight: 600, textTransform: 'capitalize' }}>{status}</span>
+                    {status === 'rejected' && row.timesheet?.rejection_reason && (
+                      <div style={{ fontSize: 11, color: theme.colors.textSubtle }}>{row.timesheet.rejection_reason}</div>
+                    )}
+                    {status === 'approved' && (
+                      <div style={{ fontSize: 11, color: theme.colors.textSubtle }}>Locked</div>
+                    )}
+                  </td>
+                  <td style={{ padding: 10, textAlign: 'right' }}>{row.totals.hours.toFixed(2)}</td>
+                  <td style={{ padding: 10, textAlign: 'right' }}>{row.totals.overtime_hours.toFixed(2)}</td>
+                  {showPay && pay && (
+                    <>
+                      <td style={{ padding: 10, textAlign: 'right' }}>{money(pay.gross)}</td>
+                      <td style={{ padding: 10, textAlign: 'right' }}>
+                        {pay.cis_deduction > 0 ? `−${money(pay.cis_deduction)} (${pay.cis_rate}%)` : '—'}
+                      </td>
+                      <td style={{ padding: 10, textAlign: 'right', fontWeight: 600 }}>{money(pay.net)}</td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
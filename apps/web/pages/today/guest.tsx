@@ -1,6 +1,8 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 
+import { useTranslation } from "../../lib/I18nProvider";
+import type { SnagStatus } from "../../lib/snags";
 import { supabase } from "../../lib/supabaseClient";
 import { theme } from "../../lib/theme";
 
@@ -13,6 +15,7 @@ type JobRow = {
 };
 
 export default function GuestPage() {
+  const { t, formatDate } = useTranslation();
   const [token, setToken] = useState("");
   const [pin, setPin] = useState("");
   const [msg, setMsg] = useState<string | null>(null);
@@ -36,7 +39,7 @@ export default function GuestPage() {
         });
       } catch (e: unknown) {
         setSettings({ guest_enabled: false, guest_can_view_docs: false });
-        setMsg(e instanceof Error ? e.message : "Failed to load settings.");
+        setMsg(e instanceof Error ? e.message : t("guest.loadFailed"));
       }
     })();
   }, []);
@@ -45,7 +48,8 @@ export default function GuestPage() {
   const qs = useMemo(() => {
     if (typeof window === "undefined") return {} as Record<string, string>;
     const u = new URL(window.location.href);
-    const t = u.searchParams.get("token") || "";
+    // Share links from /api/jobs/create-share carry the token as ?t=
+    const t = u.searchParams.get("token") || u.searchParams.get("t") || "";
     return { token: t };
   }, []);
 
@@ -57,19 +61,19 @@ export default function GuestPage() {
     setMsg(null);
 
     if (!settings) {
-      setMsg("Loading configuration...");
+      setMsg(t("guest.loadingConfig"));
       return;
     }
     if (!settings.guest_enabled) {
-      setMsg("Guest access is disabled.");
+      setMsg(t("guest.disabled"));
       return;
     }
     if (!token.trim() || !pin.trim()) {
-      setMsg("Enter token and PIN.");
+      setMsg(t("guest.missingCredentials"));
       return;
     }
     if (!/^\d{4}$/.test(pin.trim())) {
-      setMsg("PIN must be 4 digits.");
+      setMsg(t("guest.pinFormat"));
       return;
     }
 
@@ -80,7 +84,7 @@ export default function GuestPage() {
 
       const rows = (data as Array<unknown>) || [];
       if (rows.length === 0) {
-        setMsg("Invalid or expired token, or wrong PIN.");
+        setMsg(t("guest.invalid"));
         setJob(null);
         return;
       }
@@ -88,7 +92,7 @@ export default function GuestPage() {
       setJob(j);
       setMsg(null);
     } catch (e: unknown) {
-      setMsg(e instanceof Error ? e.message : "Failed to unlock.");
+      setMsg(e instanceof Error ? e.message : t("guest.unlockFailed"));
       setJob(null);
     } finally {
       setBusy(false);
@@ -120,7 +124,7 @@ export default function GuestPage() {
         }}
       >
         <span style={{ width: 8, height: 8, borderRadius: 999, background: color }} />
-        {status === "in_progress" ? "In Progress" : status[0].toUpperCase() + status.slice(1)}
+        {t(`jobStatus.${status}`)}
       </span>
     );
   }
@@ -128,27 +132,27 @@ export default function GuestPage() {
   return (
     <>
       <div style={{ display: "grid", gap: 16 }}>
-        <div style={{ fontWeight: 800, fontSize: 24, letterSpacing: 0.2 }}>Guest Access</div>
+        <div style={{ fontWeight: 800, fontSize: 24, letterSpacing: 0.2 }}>{t("guest.title")}</div>
 
         {/* Unlock */}
         {!job && (
           <div style={{ padding: 16 }}>
             <div style={{ display: "grid", gap: 10, maxWidth: 560 }}>
-              <Field label="Token">
+              <Field label={t("guest.token")}>
                 <input
                   value={token}
                   onChange={(e) => setToken(e.target.value)}
                   style={inputStyle()}
-                  placeholder="Paste shared token"
+                  placeholder={t("guest.tokenPlaceholder")}
                   autoComplete="one-time-code"
                 />
               </Field>
-              <Field label="PIN">
+              <Field label={t("guest.pin")}>
                 <input
                   value={pin}
                   onChange={(e) => setPin(e.target.value.replace(/\D+/g, "").slice(0, 4))}
                   style={inputStyle()}
-                  placeholder="4-digit PIN"
+                  placeholder={t("guest.pinPlaceholder")}
                   inputMode="numeric"
                   maxLength={4}
                   autoComplete="one-time-code"
@@ -168,7 +172,7 @@ export default function GuestPage() {
                     opacity: busy ? 0.7 : 1,
                   }}
                 >
-                  Unlock Job
+                  {t("guest.unlock")}
                 </button>
                 {msg && <div style={{ alignSelf: "center", color: theme.colors.textSubtle }}>{msg}</div>}
               </div>
@@ -182,7 +186,7 @@ export default function GuestPage() {
             <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
               <div style={{ fontWeight: 800, fontSize: 20 }}>{job.title}</div>
               <div style={{ color: theme.colors.textSubtle }}>
-                {job.client_name ?? "—"} • {new Date(job.created_at).toLocaleString()}
+                {job.client_name ?? "—"} • {formatDate(job.created_at, { dateStyle: "medium", timeStyle: "short" })}
               </div>
               <div style={{ marginLeft: "auto" }}>{pill(job.status)}</div>
             </div>
@@ -199,19 +203,163 @@ export default function GuestPage() {
                   textDecoration: "none",
                 }}
               >
-                Open Job (read-only)
+                {t("guest.openJob")}
               </Link>
               {!settings?.guest_can_view_docs && (
-                <div style={{ alignSelf: "center", color: theme.colors.textSubtle }}>Document access disabled by admin</div>
+                <div style={{ alignSelf: "center", color: theme.colors.textSubtle }}>{t("guest.docsDisabled")}</div>
               )}
             </div>
           </div>
         )}
+
+        {job && (job.status === "snagging" || job.status === "completed") && <GuestSnags token={token} pin={pin} />}
       </div>
     </>
   );
 }
 
+type GuestSnag = {
+  id: string;
+  description: string;
+  location: string | null;
+  status: SnagStatus;
+  photo_url: string | null;
+  signed_off_by: string | null;
+};
+
+function GuestSnags({ token, pin }: { token: string; pin: string }) {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<GuestSnag[] | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const res = await fetch("/api/guest/list-snags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, pin }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error);
+      setItems(body.items as GuestSnag[]);
+    } catch {
+      setMsg(t("guestSnags.loadFailed"));
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, pin]);
+
+  const chosen = Object.keys(selected).filter((id) => selected[id]);
+
+  async function signOff() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await fetch("/api/guest/sign-off-snags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, pin, snagIds: chosen, name }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error);
+      setMsg(t("guestSnags.done", { count: (body.closed as string[]).length }));
+      setSelected({});
+      await load();
+    } catch {
+      setMsg(t("guestSnags.signOffFailed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!items) {
+    return msg ? <div style={{ padding: 16, color: theme.colors.textSubtle }}>{msg}</div> : null;
+  }
+
+  return (
+    <div style={{ padding: 16, display: "grid", gap: 10 }}>
+      <div style={{ fontWeight: 700, fontSize: 18 }}>{t("guestSnags.title")}</div>
+      {items.length === 0 ? (
+        <div style={{ color: theme.colors.textSubtle }}>{t("guestSnags.none")}</div>
+      ) : (
+        <>
+          {items.some((s) => s.status === "fixed") && (
+            <div style={{ color: theme.colors.textSubtle }}>{t("guestSnags.hint")}</div>
+          )}
+          <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 10 }}>
+            {items.map((s) => (
+              <li
+                key={s.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 12,
+                  padding: "10px 12px",
+                  border: `1px solid ${theme.colors.border}`,
+                  borderRadius: 10,
+                }}
+              >
+                <input
+                  type="checkbox"
+                  disabled={s.status !== "fixed"}
+                  checked={!!selected[s.id]}
+                  onChange={(e) => setSelected((m) => ({ ...m, [s.id]: e.target.checked }))}
+                />
+                {s.photo_url && (
+                  <a href={s.photo_url} target="_blank" rel="noreferrer">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={s.photo_url} alt="" style={{ width: 64, height: 48, objectFit: "cover", borderRadius: 6 }} />
+                  </a>
+                )}
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontWeight: 600 }}>{s.description}</div>
+                  <div style={{ color: theme.colors.textSubtle, fontSize: 12 }}>
+                    {s.location ? `${s.location} • ` : ""}
+                    {t(`guestSnags.status.${s.status}`)}
+                    {s.signed_off_by ? ` • ${t("guestSnags.signedOffBy", { name: s.signed_off_by })}` : ""}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {items.some((s) => s.status === "fixed") && (
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t("guestSnags.yourName")}
+                style={inputStyle()}
+              />
+              <button
+                onClick={signOff}
+                disabled={busy || chosen.length === 0 || !name.trim()}
+                style={{
+                  padding: "10px 14px",
+                  background: theme.colors.accent,
+                  color: "white",
+                  border: 0,
+                  borderRadius: 8,
+                  cursor: busy ? "not-allowed" : "pointer",
+                  opacity: busy || chosen.length === 0 || !name.trim() ? 0.7 : 1,
+                }}
+              >
+                {busy ? t("guestSnags.signing") : t("guestSnags.signOff")}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+      {msg && <div style={{ color: theme.colors.textSubtle }}>{msg}</div>}
+    </div>
+  );
+}
+
 function Field({ label, children }: { label: string; children: React.ReactNode }) {
   return (
     <div style={{ display: "grid", gridTemplateColumns: "160px 1fr", gap: 10, alignItems: "center" }}>
@@ -4,7 +4,10 @@ import { useRouter } from "next/router";
 import { useEffect, useState } from "react";
 
 import StatusPill from "../../components/jobs/StatusPill";
+import LanguageSelect from "../../components/LanguageSelect";
+import RamsSignOff from "../../components/RamsSignOff";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
+import { useTranslation } from "../../lib/I18nProvider";
 import { supabase } from "../../lib/supabaseClient";
 import { theme } from "../../lib/theme";
 
@@ -45,6 +48,7 @@ type AlertRow = { id: string; text: string; occurred_at: string };
 export default function Today() {
   useRequireAuth();
   const router = useRouter();
+  const { t, formatDate } = useTranslation();
 
   const [counts, setCounts] = useState({ planned: 0, in_progress: 0, snagging: 0 });
   const [nextJobs, setNextJobs] = useState<JobLite[]>([]);
@@ -93,16 +97,22 @@ export default function Today() {
 
   return (<>
     <div style={{ display: "grid", gap: 16 }}>
+      <div style={{ display: "flex", justifyContent: "flex-end" }}>
+        <LanguageSelect />
+      </div>
+
+      <RamsSignOff />
+
       <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))", gap: 16 }}>
-        <Kpi title="Planned" value={counts.planned} accent />
-        <Kpi title="In Progress" value={counts.in_progress} />
-        <Kpi title="Snagging" value={counts.snagging} />
+        <Kpi title={t("jobStatus.planned")} value={counts.planned} accent />
+        <Kpi title={t("jobStatus.in_progress")} value={counts.in_progress} />
+        <Kpi title={t("jobStatus.snagging")} value={counts.snagging} />
       </div>
 
       <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
         <div style={{ padding: 16 }}>
           <div style={{ fontWeight: 600, marginBottom: 8, display: "flex", justifyContent: "space-between", alignItems: "center" }}>
-            <span>Next 4 Jobs</span>
+            <span>{t("today.nextJobs", { count: 4 })}</span>
             <button
               onClick={() => router.push('/jobs')}
               style={{
@@ -115,13 +125,13 @@ export default function Today() {
                 cursor: "pointer"
               }}
             >
-              View All
+              {t("today.viewAll")}
             </button>
           </div>
           {loading ? (
-            <div style={{ color: theme.colors.textSubtle }}>Loading...</div>
+            <div style={{ color: theme.colors.textSubtle }}>{t("common.loading")}</div>
           ) : nextJobs.length === 0 ? (
-            <div style={{ color: theme.colors.textSubtle }}>No upcoming jobs.</div>
+            <div style={{ color: theme.colors.textSubtle }}>{t("today.noUpcomingJobs")}</div>
           ) : (
             <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 10 }}>
               {nextJobs.map((j) => (
@@ -162,11 +172,11 @@ export default function Today() {
         </div>
 
         <div style={{ padding: 16 }}>
-          <div style={{ fontWeight: 600, marginBottom: 8 }}>Automation Alerts</div>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>{t("today.automationAlerts")}</div>
           {loading ? (
-            <div style={{ color: theme.colors.textSubtle }}>Loading...</div>
+            <div style={{ color: theme.colors.textSubtle }}>{t("common.loading")}</div>
           ) : alerts.length === 0 ? (
-            <div style={{ color: theme.colors.textSubtle }}>All quiet.</div>
+            <div style={{ color: theme.colors.textSubtle }}>{t("today.allQuiet")}</div>
           ) : (
             <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 10 }}>
               {alerts.map((a) => (
@@ -192,7 +202,7 @@ export default function Today() {
                   />
                   <div style={{ flex: 1 }}>{a.text}</div>
                   <div style={{ color: theme.colors.textSubtle, fontSize: 12 }}>
-                    {new Date(a.occurred_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    {formatDate(a.occurred_at, { hour: "2-digit", minute: "2-digit" })}
                   </div>
                 </li>
               ))}
@@ -206,13 +216,14 @@ export default function Today() {
 }
 
 function Kpi({ title, value, accent = false }: { title: string; value: number | string; accent?: boolean }) {
+  const { locale, formatNumber } = useTranslation();
   return (<>
     <div style={{ padding: 16 }}>
       <div style={{ fontSize: 12, color: theme.colors.textSubtle, marginBottom: 6 }}>
-        {title.toUpperCase()}
+        {title.toLocaleUpperCase(locale)}
       </div>
       <div style={{ fontSize: 28, fontWeight: 800, letterSpacing: 0.2, color: accent ? theme.colors.accent : theme.colors.text }}>
-        {value}
+        {typeof value === "number" ? formatNumber(value) : value}
       </div>
     </div>
 
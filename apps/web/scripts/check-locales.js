@@ -0,0 +1,93 @@
+// Check that every locale file has the same keys as locales/en.json.
+// Plural forms (key_one, key_few, key_other...) count as one key, since each
+// language needs its own set; every plural key must at least have "_other".
+// Usage: npm run check:locales
+const fs = require('fs');
+const path = require('path');
+
+const LOCALES_DIR = path.join(__dirname, '../locales');
+const REFERENCE = 'en';
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+function flatten(messages, prefix = '', out = new Map()) {
+    for (const [key, value] of Object.entries(messages)) {
+        const fullKey = prefix ? `${prefix}.${key}` : key;
+        if (value && typeof value === 'object') {
+            flatten(value, fullKey, out);
+        } else {
+            out.set(fullKey, String(value));
+        }
+    }
+    return out;
+}
+
+function placeholders(message) {
+    return [...message.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort().join(',');
+}
+
+// Group plural variants under their base key
+function group(flat) {
+    const groups = new Map();
+    for (const [key, message] of flat) {
+        const base = key.replace(PLURAL_SUFFIX, '');
+        if (!groups.has(base)) groups.set(base, new Map());
+        groups.get(base).set(key, message);
+    }
+    return groups;
+}
+
+function load(locale) {
+    return JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, `${locale}.json`), 'utf8'));
+}
+
+const locales = fs.readdirSync(LOCALES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.basename(file, '.json'))
+    .sort();
+
+const reference = group(flatten(load(REFERENCE)));
+let problems = 0;
+
+for (const locale of locales) {
+    const groups = group(flatten(load(locale)));
+    const report = [];
+
+    for (const [base, variants] of groups) {
+        const plural = [...variants.keys()].some(key => PLURAL_SUFFIX.test(key));
+        if (plural && !variants.has(`${base}_other`)) {
+            report.push(`plural without _other: ${base}`);
+        }
+    }
+
+    if (locale !== REFERENCE) {
+        for (const [base, variants] of reference) {
+            const translated = groups.get(base);
+            if (!translated) {
+                report.push(`missing: ${base}`);
+                continue;
+            }
+            const expected = placeholders([...variants.values()][0]);
+            for (const [key, message] of translated) {
+                if (placeholders(message) !== expected) {
+                    report.push(`placeholders differ: ${key} (expected {${expected.split(',').join('}, {')}})`);
+                }
+            }
+        }
+        for (const base of groups.keys()) {
+            if (!reference.has(base)) report.push(`not in ${REFERENCE}.json: ${base}`);
+        }
+    }
+
+    if (report.length > 0) {
+        problems += report.length;
+        console.error(`${locale}.json`);
+        report.forEach(line => console.error(`  ${line}`));
+    }
+}
+
+if (problems > 0) {
+    console.error(`\n${problems} locale problem(s) found.`);
+    process.exit(1);
+}
+
+console.log(`Locales OK: ${locales.join(', ')}`);
@@ -22,6 +22,7 @@ export interface Database {
           start_date: string | null
           end_date: string | null
           quoted_amount: number | null
+          lead_installer_id: string | null
           created_at: string
           updated_at: string
           created_by: string
@@ -39,6 +40,7 @@ export interface Database {
           start_date?: string | null
           end_date?: string | null
           quoted_amount?: number | null
+          lead_installer_id?: string | null
           created_at?: string
           updated_at?: string
           created_by: string
@@ -56,11 +58,13 @@ export interface Database {
           start_date?: string | null
           end_date?: string | null
           quoted_amount?: number | null
+          lead_installer_id?: string | null
           created_at?: string
           updated_at?: string
           created_by?: string
           account_id?: string
         }
+        Relationships: []
       }
       accounts: {
         Row: {
@@ -96,6 +100,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       quotes: {
         Row: {
@@ -143,6 +148,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       vehicles: {
         Row: {
@@ -166,6 +172,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       waste_loads: {
         Row: {
@@ -189,6 +196,7 @@ export interface Database {
           completed_at?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       crew_usage: {
         Row: {
@@ -209,6 +217,7 @@ export interface Database {
           utilization?: number
           created_at?: string
         }
+        Relationships: []
       }
       buffer_usage: {
         Row: {
@@ -229,6 +238,7 @@ export interface Database {
           percent?: number
           created_at?: string
         }
+        Relationships: []
       }
       finance_metrics: {
         Row: {
@@ -249,6 +259,7 @@ export interface Database {
           net_margin?: number
           created_at?: string
         }
+        Relationships: []
       }
       installs_by_day: {
         Row: {
@@ -272,6 +283,7 @@ export interface Database {
           crews?: number
           created_at?: string
         }
+        Relationships: []
       }
       activity_log: {
         Row: {
@@ -292,6 +304,7 @@ export interface Database {
           occurred_at?: string
           created_at?: string
         }
+        Relationships: []
       }
       cost_access: {
         Row: {
@@ -309,6 +322,7 @@ export interface Database {
           user_id?: string
           created_at?: string
         }
+        Relationships: []
       }
       guest_sessions: {
         Row: {
@@ -332,6 +346,7 @@ export interface Database {
           expires_at?: string
           created_at?: string
         }
+        Relationships: []
       }
       users: {
         Row: {
@@ -358,6 +373,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       cost_rows: {
         Row: {
@@ -393,6 +409,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       organization_settings: {
         Row: {
@@ -416,6 +433,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       day_reports: {
         Row: {
@@ -448,6 +466,7 @@ export interface Database {
           notes?: string
           created_at?: string
         }
+        Relationships: []
       }
       job_floorplans: {
         Row: {
@@ -471,50 +490,264 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      catalogue_time_suggestions: {
+        Row: {
+          id: string
+          product_id: string
+          product_code: string
+          product_name: string | null
+          current_install_time_hours: number
+          suggested_install_time_hours: number
+          completed_units: number
+          actual_hours: number
+          job_count: number
+          variance_pct: number
+          status: 'pending' | 'accepted' | 'rejected'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          product_code: string
+          product_name?: string | null
+          current_install_time_hours: number
+          suggested_install_time_hours: number
+          completed_units: number
+          actual_hours: number
+          job_count: number
+          variance_pct: number
+          status?: 'pending' | 'accepted' | 'rejected'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          product_code?: string
+          product_name?: string | null
+          current_install_time_hours?: number
+          suggested_install_time_hours?: number
+          completed_units?: number
+          actual_hours?: number
+          job_count?: number
+          variance_pct?: number
+          status?: 'pending' | 'accepted' | 'rejected'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      catalogue_imports: {
+        Row: {
+          id: string
+          manufacturer: string
+          template_id: string | null
+          file_name: string | null
+          status: 'running' | 'applied' | 'failed'
+          summary: Json
+          error: string | null
+          created_by: string | null
+          created_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          manufacturer: string
+          template_id?: string | null
+          file_name?: string | null
+          status?: 'running' | 'applied' | 'failed'
+          summary?: Json
+          error?: string | null
+          created_by?: string | null
+          created_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          manufacturer?: string
+          template_id?: string | null
+          file_name?: string | null
+          status?: 'running' | 'applied' | 'failed'
+          summary?: Json
+          error?: string | null
+          created_by?: string | null
+          created_at?: string
+          completed_at?: string | null
+        }
+        Relationships: []
+      }
+      product_aliases: {
+        Row: {
+          id: string
+          product_id: string
+          alias_code: string
+          alias_name: string | null
+          alias_type: string | null
+          created_by: string | null
+          created_at: string | null
+          learned_from_quote: string | null
+          usage_count: number | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          alias_code: string
+          alias_name?: string | null
+          alias_type?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          learned_from_quote?: string | null
+          usage_count?: number | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          alias_code?: string
+          alias_name?: string | null
+          alias_type?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          learned_from_quote?: string | null
+          usage_count?: number | null
+        }
+        Relationships: []
       }
       // Generic table types for tables not yet fully typed
       // These allow the code to compile while we gradually add proper types
-      profiles: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      generated_tasks: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      product_progress: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      org_settings: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      delivery_pods: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      client_addresses: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      job_drawings: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      product_catalogue: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      labour_allocations: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      feature_flags: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      invoices: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      product_catalogue_items: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      product_aliases: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      clients: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      suppliers: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      task_banner_settings: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      labour_shifts: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      job_documents: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      daily_closeout_forms: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      tasks: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      job_notes: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      user_profiles: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      task_banner_items: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      pod_versions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      job_shares: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      user_permissions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      user_banner_permissions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      user_banner_preferences: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      quote_revisions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      email_drafts: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      product_learning: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      image_extractions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
-      analytics_events: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any> }
+      profiles: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      generated_tasks: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      product_progress: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      org_settings: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      delivery_pods: {
+        Row: Record<string, any>
+        Insert: Record<string, any>
+        Update: Record<string, any>
+        Relationships: [
+          {
+            foreignKeyName: 'delivery_pods_supplier_id_fkey'
+            columns: ['supplier_id']
+            isOneToOne: false
+            referencedRelation: 'suppliers'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      client_addresses: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_drawings: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      product_catalogue: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      labour_allocations: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      feature_flags: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      invoices: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      product_catalogue_items: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      clients: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      suppliers: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      task_banner_settings: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      labour_shifts: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_documents: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      daily_closeout_forms: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      tasks: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_notes: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      user_profiles: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      task_banner_items: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      pod_versions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_shares: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      user_permissions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      user_banner_permissions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      user_banner_preferences: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      quote_revisions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      email_drafts: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      product_learning: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      image_extractions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      analytics_events: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      active_learning_requests: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      construction_alerts: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      daily_progress_log: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      document_templates: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      invoice_corrections: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      invoice_line_items: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_costs: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_labour_bank: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_pins: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_risk_flags: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_time_presets: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      labour_availability: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      labour_resources: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      quote_lines: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      smartquote_v3_quotes: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      snags: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      temp_access_tokens: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      template_fields: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      template_usage: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      user_flag_overrides: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      rams_documents: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      timesheet_weeks: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      resource_competencies: {
+        Row: Record<string, any>
+        Insert: Record<string, any>
+        Update: Record<string, any>
+        Relationships: [
+          {
+            foreignKeyName: 'resource_competencies_resource_id_fkey'
+            columns: ['resource_id']
+            isOneToOne: false
+            referencedRelation: 'labour_resources'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      ticket_requirements: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      job_required_tickets: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      labour_allocation_days: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      calendar_feed_tokens: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      construction_alert_rules: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      smartquote_v3_approval_chains: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      smartquote_v3_approval_conditions: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      smartquote_v3_approval_history: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      smartquote_v3_quote_approval_steps: { Row: Record<string, any>; Insert: Record<string, any>; Update: Record<string, any>; Relationships: [] }
+      timesheet_lines: {
+        Row: Record<string, any>
+        Insert: Record<string, any>
+        Update: Record<string, any>
+        Relationships: [
+          {
+            foreignKeyName: 'timesheet_lines_timesheet_id_fkey'
+            columns: ['timesheet_id']
+            isOneToOne: false
+            referencedRelation: 'timesheet_weeks'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      rams_signatures: {
+        Row: Record<string, any>
+        Insert: Record<string, any>
+        Update: Record<string, any>
+        Relationships: [
+          {
+            foreignKeyName: 'rams_signatures_rams_document_id_fkey'
+            columns: ['rams_document_id']
+            isOneToOne: false
+            referencedRelation: 'rams_documents'
+            referencedColumns: ['id']
+          }
+        ]
+      }
     }
     Views: {
-      pods_needing_review: { Row: Record<string, any> }
-      pod_statistics: { Row: Record<string, any> }
-      recent_pod_activity: { Row: Record<string, any> }
+      pods_needing_review: { Row: Record<string, any>; Relationships: [] }
+      pod_statistics: { Row: Record<string, any>; Relationships: [] }
+      recent_pod_activity: { Row: Record<string, any>; Relationships: [] }
+      product_catalogue_view: { Row: Record<string, any>; Relationships: [] }
     }
     Functions: {
-      [_ in never]: never
+      verify_guest_pin: { Args: { token: string; pin: string }; Returns: Record<string, any>[] }
+      check_invoice_tables: { Args: Record<string, never>; Returns: Json }
     }
     Enums: {
       job_status: 'planned' | 'in_progress' | 'snagging' | 'completed'